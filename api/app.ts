@@ -1,67 +1,140 @@
 /**
- * This is a API server
+ * The Express app with its middleware and API routes, shared by the
+ * standalone server (server.ts) and the Vercel entry (index.ts)
  */
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import morgan from 'morgan';
+import compression from 'compression';
+import dotenv from 'dotenv';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
 
-import express, {
-  type Request,
-  type Response,
-  type NextFunction,
-} from 'express'
-import cors from 'cors'
-import path from 'path'
-import dotenv from 'dotenv'
-import { fileURLToPath } from 'url'
-import authRoutes from './routes/auth.js'
+// ES module __dirname equivalent
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
 
-// for esm mode
-const __filename = fileURLToPath(import.meta.url)
-const __dirname = path.dirname(__filename)
+// Import routes
+import authRoutes from './routes/auth.js';
+import userRoutes from './routes/users.js';
+import postRoutes from './routes/posts.js';
+import messageRoutes from './routes/messages.js';
+import studyRouteRoutes from './routes/studyRoutes.js';
+import productRoutes from './routes/products.js';
+import orderRoutes from './routes/orders.js';
+import paymentRoutes from './routes/payments.js';
+import couponRoutes from './routes/coupons.js';
+import checkoutRoutes from './routes/checkout.js';
+import cartRoutes from './routes/cart.js';
+import wishlistRoutes from './routes/wishlist.js';
+import entitlementRoutes from './routes/entitlements.js';
+import licenseRoutes from './routes/licenses.js';
+import sellerRoutes from './routes/sellers.js';
+import reviewRoutes from './routes/reviews.js';
+import questionRoutes from './routes/questions.js';
+import notificationRoutes from './routes/notifications.js';
+import dashboardRoutes from './routes/dashboard.js';
+import atticObjectRoutes from './routes/atticObjects.js';
+import recommendationRoutes from './routes/recommendations.js';
 
-// load env
-dotenv.config()
+// Import middleware
+import { errorHandler } from './middleware/errorHandler.js';
+import { captureRawBody } from './middleware/rawBody.js';
+import { rateLimits } from './middleware/rateLimits.js';
 
-const app: express.Application = express()
+// Load environment variables
+dotenv.config();
 
-app.use(cors())
-app.use(express.json({ limit: '10mb' }))
-app.use(express.urlencoded({ extended: true, limit: '10mb' }))
+// TRUST_PROXY to Express' `trust proxy` setting: true/false, a number of
+// proxy hops, or addresses and subnets (e.g. "loopback, 10.0.0.0/8").
+// Client IPs (rate limits, sessions) come from X-Forwarded-For only when set.
+const parseTrustProxy = (value: string): boolean | number | string => {
+  if (value === 'true' || value === 'false') return value === 'true';
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
 
-/**
- * API Routes
- */
-app.use('/api/auth', authRoutes)
+const app = express();
 
-/**
- * health
- */
-app.use(
-  '/api/health',
-  (req: Request, res: Response, next: NextFunction): void => {
-    res.status(200).json({
-      success: true,
-      message: 'ok',
-    })
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY.trim()));
+}
+
+// Middleware
+app.use(helmet({
+  crossOriginEmbedderPolicy: false,
+  contentSecurityPolicy: {
+    directives: {
+      defaultSrc: ["'self'"],
+      styleSrc: ["'self'", "'unsafe-inline'"],
+      scriptSrc: ["'self'"],
+      imgSrc: ["'self'", "data:", "https:"],
+      connectSrc: ["'self'", "ws:", "wss:"],
+    },
   },
-)
+}));
 
-/**
- * error handler middleware
- */
-app.use((error: Error, req: Request, res: Response, next: NextFunction) => {
-  res.status(500).json({
-    success: false,
-    error: 'Server internal error',
-  })
-})
+app.use(cors({
+  origin: process.env.FRONTEND_URL || 'http://localhost:5173',
+  credentials: true,
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+}));
 
-/**
- * 404 handler
- */
-app.use((req: Request, res: Response) => {
+app.use(compression());
+app.use(morgan('combined'));
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
+app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+// Rate limiting, with separate budgets per route group
+app.use(rateLimits);
+
+// Serve static files
+app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
+
+// Health check endpoint (Vercel only forwards /api paths)
+app.get(['/health', '/api/health'], (req, res) => {
+  res.status(200).json({
+    success: true,
+    message: 'Desván Digital API is running',
+    timestamp: new Date().toISOString(),
+    version: '1.0.0'
+  });
+});
+
+// API routes
+app.use('/api/auth', authRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/posts', postRoutes);
+app.use('/api/messages', messageRoutes);
+app.use('/api/study-routes', studyRouteRoutes);
+app.use('/api/products', productRoutes);
+app.use('/api/orders', orderRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/coupons', couponRoutes);
+app.use('/api/checkout', checkoutRoutes);
+app.use('/api/cart', cartRoutes);
+app.use('/api/wishlist', wishlistRoutes);
+app.use('/api/entitlements', entitlementRoutes);
+app.use('/api/licenses', licenseRoutes);
+app.use('/api/sellers', sellerRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/questions', questionRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/recommendations', recommendationRoutes);
+app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/attic-objects', atticObjectRoutes);
+
+// 404 handler
+app.use((req, res) => {
   res.status(404).json({
     success: false,
-    error: 'API not found',
-  })
-})
+    message: 'Route not found',
+    path: req.originalUrl
+  });
+});
+
+// Error handling middleware
+app.use(errorHandler);
 
-export default app
+export default app;
@@ -0,0 +1,112 @@
+// SQL dialect abstraction shared by the SQLite and Postgres drivers.
+// Route and migration code writes Postgres-style `$1` placeholders and uses the
+// helpers below for anything the two engines spell differently.
+
+export type DialectName = 'sqlite' | 'postgres';
+
+// A result row as the driver returns it; callers pass the shape of the
+// columns they select
+export type QueryRow = Record<string, unknown>;
+
+export interface QueryResult<T = QueryRow> {
+  rows: T[];
+  rowCount: number;
+  lastID?: number;
+}
+
+// What query helpers, transactions and migrations receive
+export interface DbClient {
+  query: <T = QueryRow>(text: string, params?: unknown[]) => Promise<QueryResult<T>>;
+  // Run one or more statements without parameters (DDL, scripts)
+  exec: (sql: string) => Promise<void>;
+}
+
+// A connected backend: the client API plus transactions and lifecycle
+export interface Driver extends DbClient {
+  dialect: Dialect;
+  transaction: <T>(callback: (client: DbClient) => Promise<T>) => Promise<T>;
+  close: () => Promise<void>;
+}
+
+export interface Dialect {
+  name: DialectName;
+
+  // `column` is one of the values in the array bound to `param`
+  inArray: (column: string, param: string) => string;
+  // Case-insensitive LIKE
+  ilike: (expression: string, param: string) => string;
+  // A JSON column as searchable text
+  jsonText: (column: string) => string;
+  // Text value of the key bound to `param` in a JSON object column
+  jsonField: (column: string, param: string) => string;
+  // Larger of two values (GREATEST / scalar max)
+  greatest: (a: string, b: string) => string;
+  // Timestamp `amount` units before now, for created_at range filters
+  since: (amount: number, unit: 'hours' | 'days') => string;
+
+  // Column type fragments for migrations
+  ddl: {
+    id: string;
+    timestamp: string;
+    boolean: (defaultValue: boolean) => string;
+    json: (defaultValue: '{}' | '[]') => string;
+    decimal: string;
+  };
+
+  // Read helpers for values that come back differently per engine
+  parseJson: <T>(value: unknown, fallback: T) => T;
+  parseBoolean: (value: unknown) => boolean;
+}
+
+const parseJson = <T>(value: unknown, fallback: T): T => {
+  if (value === null || value === undefined || value === '') return fallback;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+const parseBoolean = (value: unknown): boolean =>
+  value === true || value === 1 || value === '1' || value === 't' || value === 'true';
+
+export const sqliteDialect: Dialect = {
+  name: 'sqlite',
+  // Arrays are bound as JSON text by the SQLite driver
+  inArray: (column, param) => `${column} IN (SELECT value FROM json_each(${param}))`,
+  // LIKE is already case-insensitive for ASCII in SQLite
+  ilike: (expression, param) => `${expression} LIKE ${param}`,
+  jsonText: (column) => column,
+  jsonField: (column, param) => `json_extract(${column}, '$."' || ${param} || '"')`,
+  greatest: (a, b) => `MAX(${a}, ${b})`,
+  since: (amount, unit) => `datetime('now', '-${Math.floor(amount)} ${unit}')`,
+  ddl: {
+    id: 'TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16))))',
+    timestamp: "TEXT DEFAULT (datetime('now'))",
+    boolean: (defaultValue) => `INTEGER DEFAULT ${defaultValue ? 1 : 0}`,
+    json: (defaultValue) => `TEXT DEFAULT '${defaultValue}'`,
+    decimal: 'REAL'
+  },
+  parseJson,
+  parseBoolean
+};
+
+export const postgresDialect: Dialect = {
+  name: 'postgres',
+  inArray: (column, param) => `${column} = ANY(${param})`,
+  ilike: (expression, param) => `${expression} ILIKE ${param}`,
+  jsonText: (column) => `${column}::text`,
+  jsonField: (column, param) => `${column} ->> ${param}`,
+  greatest: (a, b) => `GREATEST(${a}, ${b})`,
+  since: (amount, unit) => `NOW() - INTERVAL '${Math.floor(amount)} ${unit}'`,
+  ddl: {
+    id: 'TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text',
+    timestamp: 'TIMESTAMPTZ DEFAULT NOW()',
+    boolean: (defaultValue) => `BOOLEAN DEFAULT ${defaultValue ? 'TRUE' : 'FALSE'}`,
+    json: (defaultValue) => `JSONB DEFAULT '${defaultValue}'`,
+    decimal: 'NUMERIC(12, 2)'
+  },
+  parseJson,
+  parseBoolean
+};
@@ -0,0 +1,79 @@
+import pg from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
+import { postgresDialect, DbClient, Driver, QueryResult, QueryRow } from '../dialect.js';
+
+// Plain objects go to JSON/JSONB columns; arrays are left to pg so they bind
+// as Postgres arrays for dialect.inArray
+const toPostgresParam = (value: unknown) => {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value) &&
+      !(value instanceof Date) && !Buffer.isBuffer(value)) {
+    return JSON.stringify(value);
+  }
+  return value;
+};
+
+const runQuery = async <T>(
+  executor: pg.Pool | pg.PoolClient,
+  text: string,
+  params: unknown[] = []
+): Promise<QueryResult<T>> => {
+  const start = Date.now();
+  try {
+    const result = await executor.query(text, params.map(toPostgresParam));
+    const duration = Date.now() - start;
+    console.log('📊 Executed query', { text, duration, rows: result.rowCount });
+    return { rows: result.rows as T[], rowCount: result.rowCount ?? 0 };
+  } catch (error) {
+    console.error('❌ Database query error:', error);
+    throw error;
+  }
+};
+
+export const createPostgresDriver = (connectionString: string): Driver => {
+  const pool = new pg.Pool({
+    connectionString,
+    max: Number(process.env.DB_POOL_MAX) || 10
+  });
+
+  // The pooled client bound to the transaction running in this async context
+  const activeClient = new AsyncLocalStorage<pg.PoolClient>();
+
+  const query = <T = QueryRow>(text: string, params?: unknown[]) =>
+    runQuery<T>(activeClient.getStore() ?? pool, text, params);
+
+  const exec = async (sql: string) => {
+    await (activeClient.getStore() ?? pool).query(sql);
+  };
+
+  const client: DbClient = { query, exec };
+
+  const transaction = async <T>(callback: (client: DbClient) => Promise<T>): Promise<T> => {
+    // Nested calls join the transaction that is already open
+    if (activeClient.getStore()) {
+      return callback(client);
+    }
+
+    const connection = await pool.connect();
+    try {
+      await connection.query('BEGIN');
+      const result = await activeClient.run(connection, () => callback(client));
+      await connection.query('COMMIT');
+      return result;
+    } catch (error) {
+      await connection.query('ROLLBACK');
+      throw error;
+    } finally {
+      connection.release();
+    }
+  };
+
+  console.log('✅ Using PostgreSQL database');
+
+  return {
+    dialect: postgresDialect,
+    query,
+    exec,
+    transaction,
+    close: () => pool.end()
+  };
+};
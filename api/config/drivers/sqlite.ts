@@ -0,0 +1,136 @@
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { AsyncLocalStorage } from 'async_hooks';
+import { sqliteDialect, DbClient, Driver, QueryResult, QueryRow } from '../dialect.js';
+
+// Statements that produce a result set and must go through `all()`
+const RETURNS_ROWS = /^\s*(SELECT|WITH|PRAGMA|VALUES)\b|\bRETURNING\b/i;
+
+// `$1` -> `?1`: numbered parameters keep repeated and out-of-order
+// placeholders bound to the right value
+const toSqlitePlaceholders = (text: string) => text.replace(/\$(\d+)/g, '?$1');
+
+// SQLite has no array, boolean or JSON types: arrays and objects are bound as
+// JSON text (see dialect.inArray), booleans as 0/1 and dates as ISO strings
+const toSqliteParam = (value: unknown) => {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return value;
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return value;
+};
+
+export const createSqliteDriver = (filename: string): Driver => {
+  let db: Database<sqlite3.Database, sqlite3.Statement> | null = null;
+  let connecting: Promise<Database<sqlite3.Database, sqlite3.Statement>> | null = null;
+
+  // SQLite has a single connection, so transactions and the queries outside
+  // them take turns in one queue; otherwise a query could start while a
+  // transaction is open and end up in it. Queries issued from inside a
+  // transaction callback run immediately.
+  let queue: Promise<unknown> = Promise.resolve();
+  const insideTransaction = new AsyncLocalStorage<boolean>();
+
+  const connect = async () => {
+    if (db) return db;
+    if (!connecting) {
+      connecting = (async () => {
+        const database = await open({
+          filename,
+          driver: sqlite3.Database
+        });
+
+        // Enable foreign keys
+        await database.exec('PRAGMA foreign_keys = ON;');
+
+        console.log('✅ Connected to SQLite database at:', filename);
+        db = database;
+        return database;
+      })();
+    }
+    return connecting;
+  };
+
+  // Runs `work` once everything queued before it has finished, or straight
+  // away inside a transaction
+  const serialize = <T>(work: () => Promise<T>): Promise<T> => {
+    if (insideTransaction.getStore()) return work();
+
+    const run = queue.catch(() => undefined).then(work);
+    queue = run;
+    return run;
+  };
+
+  const runQuery = async <T>(text: string, params: unknown[]): Promise<QueryResult<T>> => {
+    const start = Date.now();
+    try {
+      const database = await connect();
+      const sqliteQuery = toSqlitePlaceholders(text);
+      const sqliteParams = params.map(toSqliteParam);
+
+      if (RETURNS_ROWS.test(sqliteQuery)) {
+        const rows = await database.all<T[]>(sqliteQuery, sqliteParams);
+        const duration = Date.now() - start;
+        console.log('📊 Executed query', { text: sqliteQuery, duration, rows: rows.length });
+        return { rows, rowCount: rows.length };
+      }
+
+      const result = await database.run(sqliteQuery, sqliteParams);
+      const duration = Date.now() - start;
+      console.log('📊 Executed query', { text: sqliteQuery, duration, changes: result.changes });
+      return { rows: [], rowCount: result.changes || 0, lastID: result.lastID };
+    } catch (error) {
+      console.error('❌ Database query error:', error);
+      throw error;
+    }
+  };
+
+  const query = <T = QueryRow>(text: string, params: unknown[] = []) =>
+    serialize(() => runQuery<T>(text, params));
+
+  const exec = (sql: string) => serialize(async () => {
+    const database = await connect();
+    await database.exec(sql);
+  });
+
+  const client: DbClient = { query, exec };
+
+  const transaction = <T>(callback: (client: DbClient) => Promise<T>): Promise<T> => {
+    // Nested calls join the transaction that is already open
+    if (insideTransaction.getStore()) {
+      return callback(client);
+    }
+
+    return serialize(() =>
+      insideTransaction.run(true, async () => {
+        const database = await connect();
+        await database.exec('BEGIN IMMEDIATE TRANSACTION');
+        try {
+          const result = await callback(client);
+          await database.exec('COMMIT');
+          return result;
+        } catch (error) {
+          await database.exec('ROLLBACK');
+          throw error;
+        }
+      })
+    );
+  };
+
+  const close = async () => {
+    await queue.catch(() => undefined);
+    if (db) {
+      await db.close();
+      db = null;
+      connecting = null;
+    }
+  };
+
+  return {
+    dialect: sqliteDialect,
+    query,
+    exec,
+    transaction,
+    close
+  };
+};
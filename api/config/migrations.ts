@@ -0,0 +1,154 @@
+import { query, transaction, dialect } from './database.js';
+import type { DbClient, Dialect } from './dialect.js';
+import { migrations as registeredMigrations } from '../migrations/index.js';
+
+// What a migration receives: the transaction client plus the active dialect,
+// so DDL can use dialect.ddl for types the backends spell differently
+export interface MigrationClient extends DbClient {
+  dialect: Dialect;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: MigrationClient) => Promise<void>;
+  down: (db: MigrationClient) => Promise<void>;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: AppliedMigration[];
+  pending: Migration[];
+  // Versions recorded in the database that this build does not know about
+  unknown: AppliedMigration[];
+}
+
+export class SchemaOutOfDateError extends Error {
+  pending: Migration[];
+
+  constructor(pending: Migration[]) {
+    super(
+      `Database schema is behind the code: ${pending.length} pending migration(s) ` +
+      `(${pending.map(m => formatMigration(m)).join(', ')}). Run "npm run migrate -- up".`
+    );
+    this.name = 'SchemaOutOfDateError';
+    this.pending = pending;
+  }
+}
+
+export const formatMigration = (migration: Pick<Migration, 'version' | 'name'>) =>
+  `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+
+// Sorted copy of the registry; duplicate versions are a programming error
+const getMigrations = (): Migration[] => {
+  const sorted = [...registeredMigrations].sort((a, b) => a.version - b.version);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].version === sorted[i - 1].version) {
+      throw new Error(`Duplicate migration version ${sorted[i].version}`);
+    }
+  }
+  return sorted;
+};
+
+const ensureMigrationsTable = async () => {
+  await query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at ${dialect.ddl.timestamp}
+    )
+  `);
+};
+
+const getAppliedMigrations = async (): Promise<AppliedMigration[]> => {
+  await ensureMigrationsTable();
+  const result = await query<AppliedMigration>(
+    'SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC'
+  );
+  return result.rows.map(row => ({ ...row, version: Number(row.version) }));
+};
+
+// Compare the versions recorded on disk with the migrations shipped in code
+export const getMigrationStatus = async (): Promise<MigrationStatus> => {
+  const all = getMigrations();
+  const applied = await getAppliedMigrations();
+  const appliedVersions = new Set(applied.map(m => m.version));
+  const knownVersions = new Set(all.map(m => m.version));
+
+  return {
+    currentVersion: applied.length > 0 ? applied[applied.length - 1].version : 0,
+    latestVersion: all.length > 0 ? all[all.length - 1].version : 0,
+    applied,
+    pending: all.filter(m => !appliedVersions.has(m.version)),
+    unknown: applied.filter(m => !knownVersions.has(m.version))
+  };
+};
+
+// Apply pending migrations in order, optionally stopping at a target version.
+// Each migration runs in its own transaction together with its bookkeeping row.
+export const migrateUp = async (targetVersion?: number): Promise<Migration[]> => {
+  const { pending } = await getMigrationStatus();
+  const toApply = pending.filter(m => targetVersion === undefined || m.version <= targetVersion);
+
+  for (const migration of toApply) {
+    console.log(`⬆️  Applying migration ${formatMigration(migration)}`);
+    await transaction(async (client) => {
+      await migration.up({ ...client, dialect });
+      await client.query(
+        'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+        [migration.version, migration.name]
+      );
+    });
+  }
+
+  return toApply;
+};
+
+// Roll back the most recently applied migrations, newest first
+export const migrateDown = async (steps: number = 1): Promise<Migration[]> => {
+  const all = getMigrations();
+  const { applied, unknown } = await getMigrationStatus();
+
+  const toRevert = applied.slice(-steps).reverse();
+  const unknownInRange = toRevert.filter(a => unknown.some(u => u.version === a.version));
+  if (unknownInRange.length > 0) {
+    throw new Error(
+      `Cannot roll back migration(s) not present in this build: ${unknownInRange.map(m => formatMigration(m)).join(', ')}`
+    );
+  }
+
+  const reverted: Migration[] = [];
+  for (const record of toRevert) {
+    const migration = all.find(m => m.version === record.version)!;
+    console.log(`⬇️  Reverting migration ${formatMigration(migration)}`);
+    await transaction(async (client) => {
+      await migration.down({ ...client, dialect });
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    });
+    reverted.push(migration);
+  }
+
+  return reverted;
+};
+
+// Startup guard: refuse to serve requests against an outdated schema
+export const assertSchemaUpToDate = async () => {
+  const { pending, unknown } = await getMigrationStatus();
+
+  if (unknown.length > 0) {
+    console.warn(
+      `⚠️  Database has migration(s) this build does not know about: ${unknown.map(m => formatMigration(m)).join(', ')}`
+    );
+  }
+
+  if (pending.length > 0) {
+    throw new SchemaOutOfDateError(pending);
+  }
+};
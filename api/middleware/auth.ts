@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { AuthSessionsRepo, UsersRepo } from '../repositories/index.js';
+import { isTwoFactorRequired } from '../services/twoFactor.js';
 import { User } from '../types.js';
 
 // Extend Request interface to include user
@@ -7,6 +9,8 @@ declare global {
   namespace Express {
     interface Request {
       user?: User;
+      // The session the access token was issued for
+      sessionId?: string;
     }
   }
 }
@@ -15,8 +19,27 @@ interface JwtPayload {
   userId: string;
   email: string;
   role: string;
+  sid?: string;
 }
 
+// How stale a session's last-seen time may get before a request refreshes it,
+// so that not every request writes
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+// Access tokens are only good while their session is; tokens issued before
+// sessions existed name none and are refused
+const isLiveSession = async (decoded: JwtPayload, req: Request) => {
+  if (!decoded.sid) return false;
+
+  const session = await AuthSessionsRepo.findById(decoded.sid);
+  if (!session || session.revokedAt || new Date(session.expiresAt).getTime() <= Date.now()) return false;
+
+  if (!session.lastUsedAt || Date.now() - new Date(session.lastUsedAt).getTime() > LAST_SEEN_INTERVAL_MS) {
+    await AuthSessionsRepo.touch(session.id, req.ip);
+  }
+  return true;
+};
+
 export const authenticateToken = async (
   req: Request,
   res: Response,
@@ -45,7 +68,15 @@ export const authenticateToken = async (
     }
 
     const decoded = jwt.verify(token, jwtSecret) as JwtPayload;
-    
+
+    if (!await isLiveSession(decoded, req)) {
+      res.status(401).json({
+        success: false,
+        message: 'Session expired or revoked'
+      });
+      return;
+    }
+
     // You might want to fetch the full user from database here
     // For now, we'll use the token payload
     req.user = {
@@ -60,9 +91,19 @@ export const authenticateToken = async (
       full_name: '', // Will be populated from database if needed
       subscription_type: 'free' // Will be populated from database if needed
     };
+    req.sessionId = decoded.sid;
 
     next();
   } catch (error) {
+    // Like a revoked session: the client renews it through /auth/refresh
+    if (error instanceof jwt.TokenExpiredError) {
+      res.status(401).json({
+        success: false,
+        message: 'Access token expired'
+      });
+      return;
+    }
+
     if (error instanceof jwt.JsonWebTokenError) {
       res.status(403).json({
         success: false,
@@ -79,6 +120,63 @@ export const authenticateToken = async (
   }
 };
 
+const TWO_FACTOR_REQUIRED_MESSAGE = 'Two-factor authentication is required for admin accounts; turn it on in your security settings';
+
+// Admins can be required to use two-factor authentication before admin-only
+// routes open to them
+const lacksRequiredTwoFactor = async (user: User) => {
+  if (user.role !== 'admin' || !await isTwoFactorRequired(user)) return false;
+
+  const account = await UsersRepo.findById(user.id);
+  return !account?.twoFactorEnabled;
+};
+
+// For routes open to owners and admins alike: whether the caller may act on
+// someone else's data as an admin, which takes the same two-factor
+// authentication as the admin-only routes
+export const isAdminActing = async (req: Request): Promise<boolean> =>
+  req.user?.role === 'admin' && !await lacksRequiredTwoFactor(req.user);
+
+// Keeps accounts that have not confirmed their email address out of the
+// route while ENABLE_EMAIL_VERIFICATION is on. Goes after authenticateToken.
+export const requireVerifiedEmail = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (process.env.ENABLE_EMAIL_VERIFICATION !== 'true') {
+      next();
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+      return;
+    }
+
+    const user = await UsersRepo.findById(req.user.id);
+    if (!user?.emailVerified) {
+      res.status(403).json({
+        success: false,
+        message: 'Please verify your email address first'
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('Email verification check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Authorization failed'
+    });
+  }
+};
+
 export const requireAdmin = async (
   req: Request,
   res: Response,
@@ -101,6 +199,14 @@ export const requireAdmin = async (
       return;
     }
 
+    if (await lacksRequiredTwoFactor(req.user)) {
+      res.status(403).json({
+        success: false,
+        message: TWO_FACTOR_REQUIRED_MESSAGE
+      });
+      return;
+    }
+
     next();
   } catch (error) {
     console.error('Admin authorization error:', error);
@@ -168,6 +274,15 @@ export const requireRole = (roles: ('user' | 'admin')[] | 'user' | 'admin') => {
         return;
       }
 
+      // Only admin-only routes; where users are let in too, admins are as well
+      if (!allowedRoles.includes('user') && await lacksRequiredTwoFactor(req.user)) {
+        res.status(403).json({
+          success: false,
+          message: TWO_FACTOR_REQUIRED_MESSAGE
+        });
+        return;
+      }
+
       next();
     } catch (error) {
       console.error('Role authorization error:', error);
@@ -201,7 +316,12 @@ export const optionalAuth = async (
     }
 
     const decoded = jwt.verify(token, jwtSecret) as JwtPayload;
-    
+
+    if (!await isLiveSession(decoded, req)) {
+      next();
+      return;
+    }
+
     req.user = {
       id: decoded.userId,
       email: decoded.email,
@@ -214,6 +334,7 @@ export const optionalAuth = async (
       full_name: '',
       subscription_type: 'free'
     };
+    req.sessionId = decoded.sid;
 
     next();
   } catch (error) {
@@ -222,8 +343,8 @@ export const optionalAuth = async (
   }
 };
 
-// Generate JWT token
-export const generateToken = (user: { id: string; email: string; role: string }): string => {
+// Generate JWT token for a session
+export const generateToken = (user: { id: string; email: string; role: string }, sessionId: string): string => {
   const secret = process.env.JWT_SECRET;
   if (!secret) {
     throw new Error('JWT_SECRET not configured');
@@ -233,7 +354,8 @@ export const generateToken = (user: { id: string; email: string; role: string })
     {
       userId: user.id,
       email: user.email,
-      role: user.role
+      role: user.role,
+      sid: sessionId
     },
     secret,
     {
@@ -241,32 +363,3 @@ export const generateToken = (user: { id: string; email: string; role: string })
     }
   );
 };
-
-// Generate refresh token
-export const generateRefreshToken = (user: { id: string; email: string }): string => {
-  const refreshSecret = process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET;
-  if (!refreshSecret) {
-    throw new Error('JWT_REFRESH_SECRET not configured');
-  }
-
-  return jwt.sign(
-    {
-      userId: user.id,
-      email: user.email
-    },
-    refreshSecret,
-    {
-      expiresIn: '7d'
-    }
-  );
-};
-
-// Verify refresh token
-export const verifyRefreshToken = (token: string): JwtPayload => {
-  const refreshSecret = process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET;
-  if (!refreshSecret) {
-    throw new Error('JWT_REFRESH_SECRET not configured');
-  }
-
-  return jwt.verify(token, refreshSecret) as JwtPayload;
-};
\ No newline at end of file
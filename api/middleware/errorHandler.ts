@@ -51,8 +51,12 @@ export class ConflictError extends CustomError {
 }
 
 export class RateLimitError extends CustomError {
-  constructor(message: string = 'Too many requests') {
+  // Sent as the Retry-After header when known
+  retryAfterSeconds?: number;
+
+  constructor(message: string = 'Too many requests', retryAfterSeconds?: number) {
     super(message, 429);
+    this.retryAfterSeconds = retryAfterSeconds;
   }
 }
 
@@ -112,6 +116,10 @@ export const errorHandler = (
     message = 'Resource not found';
   }
 
+  if (error instanceof RateLimitError && error.retryAfterSeconds) {
+    res.set('Retry-After', String(error.retryAfterSeconds));
+  }
+
   // Don't expose internal errors in production
   if (process.env.NODE_ENV === 'production' && statusCode === 500) {
     message = 'Something went wrong';
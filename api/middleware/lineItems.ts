@@ -0,0 +1,38 @@
+import { body } from 'express-validator';
+import type { LineRequest } from '../services/variants.js';
+
+// An entry of an `items` list in a request body, as sent by the client
+interface LineItemBody {
+  product_id: string;
+  variant_id?: string;
+  quantity: number | string;
+}
+
+// Validation of an `items` body field listing products (or their variants)
+// with quantities; `size` bounds the number of entries
+export const lineItemRules = (size: { min?: number; max?: number }, message: string) => [
+  body('items')
+    .isArray(size)
+    .withMessage(message),
+  body('items.*')
+    .isObject()
+    .withMessage('Each item must be an object'),
+  body('items.*.product_id')
+    .isUUID()
+    .withMessage('Invalid product ID'),
+  body('items.*.variant_id')
+    .optional()
+    .isUUID()
+    .withMessage('Invalid variant ID'),
+  body('items.*.quantity')
+    .isInt({ min: 1 })
+    .withMessage('Quantity must be a positive integer'),
+];
+
+// The lines of an `items` field that passed lineItemRules
+export const parseLineItems = (items: LineItemBody[]): LineRequest[] =>
+  items.map(item => ({
+    productId: item.product_id,
+    variantId: item.variant_id,
+    quantity: Number(item.quantity)
+  }));
@@ -0,0 +1,58 @@
+import type { RequestHandler } from 'express';
+import rateLimit from 'express-rate-limit';
+
+// Request budgets per client IP, one per group of routes, so hammering the
+// sign-in endpoints does not eat into the budget of normal browsing (and
+// the other way round). A request counts towards its own group only.
+const DEFAULT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+
+const positiveNumber = (value: string | undefined, fallback: number) =>
+  Number(value) > 0 ? Number(value) : fallback;
+
+const createLimiter = (max: number, message: string) => rateLimit({
+  windowMs: positiveNumber(process.env.RATE_LIMIT_WINDOW_MS, DEFAULT_WINDOW_MS),
+  max,
+  message: { success: false, message },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Sign-in, sign-up and the account recovery endpoints (prefixes, so
+// /api/auth/login also covers /api/auth/login/2fa)
+const CREDENTIAL_ROUTES = [
+  '/api/auth/login',
+  '/api/auth/register',
+  '/api/auth/forgot-password',
+  '/api/auth/reset-password',
+  '/api/auth/verify-email',
+  '/api/auth/unlock-account'
+];
+const WEBHOOK_ROUTES = ['/api/payments/webhooks'];
+
+const credentialsRateLimit = createLimiter(
+  positiveNumber(process.env.RATE_LIMIT_AUTH_MAX_REQUESTS, 20),
+  'Too many sign-in requests from this IP, please try again later.'
+);
+
+// Payment gateway callbacks: signed, and bursty when many payments settle at once
+const webhookRateLimit = createLimiter(
+  positiveNumber(process.env.RATE_LIMIT_WEBHOOK_MAX_REQUESTS, 1000),
+  'Too many webhook requests from this IP, please try again later.'
+);
+
+// Everything else
+const apiRateLimit = createLimiter(
+  positiveNumber(process.env.RATE_LIMIT_MAX_REQUESTS, 1000),
+  'Too many requests from this IP, please try again later.'
+);
+
+// Express routes ignore case, so /API/Auth/Login must count as a sign-in too
+const matches = (path: string, prefixes: string[]) =>
+  prefixes.some(prefix => path.toLowerCase().startsWith(prefix));
+
+// Applies the limiter of the group the request belongs to
+export const rateLimits: RequestHandler = (req, res, next) => {
+  if (matches(req.path, CREDENTIAL_ROUTES)) return credentialsRateLimit(req, res, next);
+  if (matches(req.path, WEBHOOK_ROUTES)) return webhookRateLimit(req, res, next);
+  return apiRateLimit(req, res, next);
+};
@@ -0,0 +1,14 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import type { Request } from 'express';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    rawBody?: Buffer;
+  }
+}
+
+// `verify` hook for the body parsers: keeps the exact request bytes so
+// webhook signatures can be checked against what the sender signed
+export const captureRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer) => {
+  (req as Request).rawBody = buf;
+};
@@ -0,0 +1,216 @@
+import type { Migration } from '../config/migrations.js';
+
+// Baseline schema. Mirrors the tables the API used to create on every boot, so
+// existing database files are adopted as-is (every statement is IF NOT EXISTS).
+// On SQLite the dialect.ddl fragments expand to the original column types.
+const migration: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    // Create users table
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id ${ddl.id},
+        username TEXT UNIQUE NOT NULL,
+        email TEXT UNIQUE NOT NULL,
+        password_hash TEXT NOT NULL,
+        full_name TEXT NOT NULL,
+        avatar_url TEXT,
+        bio TEXT,
+        location TEXT,
+        website TEXT,
+        social_links ${ddl.json('{}')},
+        role TEXT DEFAULT 'user' CHECK (role IN ('user', 'admin')),
+        subscription_type TEXT DEFAULT 'free' CHECK (subscription_type IN ('free', 'premium', 'pro')),
+        is_active ${ddl.boolean(true)},
+        email_verified ${ddl.boolean(false)},
+        last_login TEXT,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+
+    // Create study_routes table
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS study_routes (
+        id ${ddl.id},
+        title TEXT NOT NULL,
+        description TEXT,
+        content ${ddl.json('{}')} NOT NULL,
+        difficulty_level TEXT DEFAULT 'beginner' CHECK (difficulty_level IN ('beginner', 'intermediate', 'advanced')),
+        estimated_duration INTEGER DEFAULT 0,
+        tags ${ddl.json('[]')},
+        author_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        is_premium ${ddl.boolean(false)},
+        is_published ${ddl.boolean(false)},
+        views_count INTEGER DEFAULT 0,
+        likes_count INTEGER DEFAULT 0,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+
+    // Create products table
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS products (
+        id ${ddl.id},
+        name TEXT NOT NULL,
+        description TEXT,
+        price ${ddl.decimal} NOT NULL DEFAULT 0,
+        category TEXT NOT NULL,
+        image_url TEXT,
+        stock_quantity INTEGER DEFAULT 0,
+        is_digital ${ddl.boolean(false)},
+        is_active ${ddl.boolean(true)},
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+
+    // Create attic_objects table
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS attic_objects (
+        id ${ddl.id},
+        name TEXT NOT NULL,
+        description TEXT,
+        category TEXT NOT NULL,
+        condition TEXT DEFAULT 'good' CHECK (condition IN ('excellent', 'good', 'fair', 'poor')),
+        estimated_value ${ddl.decimal} DEFAULT 0,
+        image_url TEXT,
+        location TEXT,
+        owner_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        is_for_sale ${ddl.boolean(false)},
+        sale_price ${ddl.decimal},
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+
+    // Create dashboard_items table
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS dashboard_items (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        content ${ddl.json('{}')} NOT NULL,
+        item_type TEXT NOT NULL CHECK (item_type IN ('note', 'image', 'video', 'audio', 'document')),
+        file_url TEXT,
+        tags ${ddl.json('[]')},
+        is_favorite ${ddl.boolean(false)},
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+
+    // Create object_links table
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS object_links (
+        id ${ddl.id},
+        from_object_id TEXT NOT NULL REFERENCES attic_objects(id) ON DELETE CASCADE,
+        to_object_id TEXT NOT NULL REFERENCES attic_objects(id) ON DELETE CASCADE,
+        link_type TEXT DEFAULT 'association' CHECK (link_type IN ('association', 'sequence', 'hierarchy')),
+        strength INTEGER DEFAULT 5 CHECK (strength >= 1 AND strength <= 10),
+        created_at ${ddl.timestamp},
+        UNIQUE(from_object_id, to_object_id)
+      )
+    `);
+
+    // Create messages table
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS messages (
+        id ${ddl.id},
+        sender_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        receiver_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        message_type TEXT DEFAULT 'text' CHECK (message_type IN ('text', 'image', 'file')),
+        file_url TEXT,
+        is_read ${ddl.boolean(false)},
+        created_at ${ddl.timestamp}
+      )
+    `);
+
+    // Create orders table
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS orders (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        total_amount ${ddl.decimal} NOT NULL,
+        status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'shipped', 'delivered', 'cancelled')),
+        shipping_address TEXT,
+        payment_method TEXT,
+        payment_status TEXT DEFAULT 'pending',
+        items ${ddl.json('[]')} NOT NULL,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+
+    // Create posts table for social network
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS posts (
+        id ${ddl.id},
+        author_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        image_url TEXT,
+        likes_count INTEGER DEFAULT 0,
+        comments_count INTEGER DEFAULT 0,
+        is_published ${ddl.boolean(true)},
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+
+    // Create comments table
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS comments (
+        id ${ddl.id},
+        post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+        author_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        content TEXT NOT NULL,
+        created_at ${ddl.timestamp}
+      )
+    `);
+
+    // Create likes table
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS likes (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+        created_at ${ddl.timestamp},
+        UNIQUE(user_id, post_id)
+      )
+    `);
+
+    // Create indexes for better performance
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_users_email ON users(email)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_users_username ON users(username)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_study_routes_author ON study_routes(author_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_attic_objects_owner ON attic_objects(owner_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_dashboard_items_user ON dashboard_items(user_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_messages_sender ON messages(sender_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_messages_receiver ON messages(receiver_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_posts_author ON posts(author_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_comments_post ON comments(post_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_likes_user_post ON likes(user_id, post_id)');
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS likes');
+    await db.exec('DROP TABLE IF EXISTS comments');
+    await db.exec('DROP TABLE IF EXISTS posts');
+    await db.exec('DROP TABLE IF EXISTS orders');
+    await db.exec('DROP TABLE IF EXISTS messages');
+    await db.exec('DROP TABLE IF EXISTS object_links');
+    await db.exec('DROP TABLE IF EXISTS dashboard_items');
+    await db.exec('DROP TABLE IF EXISTS attic_objects');
+    await db.exec('DROP TABLE IF EXISTS products');
+    await db.exec('DROP TABLE IF EXISTS study_routes');
+    await db.exec('DROP TABLE IF EXISTS users');
+  }
+};
+
+export default migration;
@@ -0,0 +1,137 @@
+import type { Migration } from '../config/migrations.js';
+
+// Brings the baseline tables in line with the columns the route handlers and
+// repositories read and write, and adds the join tables they rely on.
+const migration: Migration = {
+  version: 2,
+  name: 'api_schema_alignment',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    // Users
+    await db.exec(`ALTER TABLE users ADD COLUMN is_verified ${ddl.boolean(false)}`);
+    await db.exec('ALTER TABLE users ADD COLUMN subscription_expires_at TEXT');
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS follows (
+        id ${ddl.id},
+        follower_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        following_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at ${ddl.timestamp},
+        UNIQUE(follower_id, following_id)
+      )
+    `);
+
+    // Products (no inline REFERENCES: SQLite cannot drop such a column on rollback)
+    await db.exec('ALTER TABLE products ADD COLUMN seller_id TEXT');
+    await db.exec(`ALTER TABLE products ADD COLUMN image_urls ${ddl.json('[]')}`);
+    await db.exec(`ALTER TABLE products ADD COLUMN tags ${ddl.json('[]')}`);
+    await db.exec(`ALTER TABLE products ADD COLUMN file_urls ${ddl.json('[]')}`);
+    await db.exec(`ALTER TABLE products ADD COLUMN preview_urls ${ddl.json('[]')}`);
+    await db.exec(`ALTER TABLE products ADD COLUMN requirements ${ddl.json('[]')}`);
+    await db.exec(`ALTER TABLE products ADD COLUMN features ${ddl.json('[]')}`);
+    await db.exec(`ALTER TABLE products ADD COLUMN rating ${ddl.decimal} DEFAULT 0`);
+    await db.exec('ALTER TABLE products ADD COLUMN review_count INTEGER DEFAULT 0');
+    await db.exec('ALTER TABLE products ADD COLUMN sales_count INTEGER DEFAULT 0');
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS product_ratings (
+        id ${ddl.id},
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        rating ${ddl.decimal} NOT NULL CHECK (rating >= 1 AND rating <= 5),
+        review TEXT,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp},
+        UNIQUE(user_id, product_id)
+      )
+    `);
+
+    // Orders
+    await db.exec('ALTER TABLE orders ADD COLUMN billing_address TEXT');
+    await db.exec('ALTER TABLE orders ADD COLUMN payment_intent_id TEXT');
+    await db.exec('ALTER TABLE orders ADD COLUMN notes TEXT');
+    await db.exec('ALTER TABLE orders ADD COLUMN tracking_number TEXT');
+    await db.exec('ALTER TABLE orders ADD COLUMN estimated_delivery TEXT');
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS order_items (
+        id ${ddl.id},
+        order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        product_id TEXT NOT NULL REFERENCES products(id),
+        seller_id TEXT REFERENCES users(id),
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        unit_price ${ddl.decimal} NOT NULL,
+        total_price ${ddl.decimal} NOT NULL,
+        created_at ${ddl.timestamp}
+      )
+    `);
+
+    // Posts
+    await db.exec(`ALTER TABLE posts ADD COLUMN image_urls ${ddl.json('[]')}`);
+    await db.exec('ALTER TABLE posts ADD COLUMN video_url TEXT');
+    await db.exec('ALTER TABLE posts ADD COLUMN shares_count INTEGER DEFAULT 0');
+    await db.exec(`ALTER TABLE posts ADD COLUMN is_active ${ddl.boolean(true)}`);
+
+    // Attic objects
+    await db.exec('ALTER TABLE attic_objects ADD COLUMN model_url TEXT');
+    await db.exec(`ALTER TABLE attic_objects ADD COLUMN texture_url ${ddl.json('[]')}`);
+    await db.exec('ALTER TABLE attic_objects ADD COLUMN thumbnail_url TEXT');
+    for (const axis of ['x', 'y', 'z']) {
+      await db.exec(`ALTER TABLE attic_objects ADD COLUMN position_${axis} ${ddl.decimal} DEFAULT 0`);
+      await db.exec(`ALTER TABLE attic_objects ADD COLUMN rotation_${axis} ${ddl.decimal} DEFAULT 0`);
+      await db.exec(`ALTER TABLE attic_objects ADD COLUMN scale_${axis} ${ddl.decimal} DEFAULT 1`);
+    }
+    await db.exec(`ALTER TABLE attic_objects ADD COLUMN tags ${ddl.json('[]')}`);
+    await db.exec(`ALTER TABLE attic_objects ADD COLUMN metadata ${ddl.json('{}')}`);
+    await db.exec(`ALTER TABLE attic_objects ADD COLUMN is_visible ${ddl.boolean(true)}`);
+
+    // Dashboard items
+    await db.exec('ALTER TABLE dashboard_items ADD COLUMN description TEXT');
+    await db.exec('ALTER TABLE dashboard_items ADD COLUMN category TEXT');
+    await db.exec('ALTER TABLE dashboard_items ADD COLUMN thumbnail_url TEXT');
+    await db.exec('ALTER TABLE dashboard_items ADD COLUMN file_size INTEGER');
+    await db.exec('ALTER TABLE dashboard_items ADD COLUMN mime_type TEXT');
+    await db.exec(`ALTER TABLE dashboard_items ADD COLUMN metadata ${ddl.json('{}')}`);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_follows_following ON follows(following_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_products_seller ON products(seller_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_product_ratings_product ON product_ratings(product_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_order_items_order ON order_items(order_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_order_items_product ON order_items(product_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_orders_user ON orders(user_id)');
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS order_items');
+    await db.exec('DROP TABLE IF EXISTS product_ratings');
+    await db.exec('DROP TABLE IF EXISTS follows');
+    await db.exec('DROP INDEX IF EXISTS idx_products_seller');
+    await db.exec('DROP INDEX IF EXISTS idx_orders_user');
+
+    const dropColumns = async (table: string, columns: string[]) => {
+      for (const column of columns) {
+        await db.exec(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+      }
+    };
+
+    await dropColumns('dashboard_items', ['description', 'category', 'thumbnail_url', 'file_size', 'mime_type', 'metadata']);
+    await dropColumns('attic_objects', [
+      'model_url', 'texture_url', 'thumbnail_url',
+      'position_x', 'position_y', 'position_z',
+      'rotation_x', 'rotation_y', 'rotation_z',
+      'scale_x', 'scale_y', 'scale_z',
+      'tags', 'metadata', 'is_visible'
+    ]);
+    await dropColumns('posts', ['image_urls', 'video_url', 'shares_count', 'is_active']);
+    await dropColumns('orders', ['billing_address', 'payment_intent_id', 'notes', 'tracking_number', 'estimated_delivery']);
+    await dropColumns('products', [
+      'seller_id', 'image_urls', 'tags', 'file_urls', 'preview_urls',
+      'requirements', 'features', 'rating', 'review_count', 'sales_count'
+    ]);
+    await dropColumns('users', ['is_verified', 'subscription_expires_at']);
+  }
+};
+
+export default migration;
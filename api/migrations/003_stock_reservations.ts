@@ -0,0 +1,36 @@
+import type { Migration } from '../config/migrations.js';
+
+// Inventory held for an order between checkout and payment. Stock is taken off
+// products.stock_quantity when the reservation is created; it goes back when
+// the reservation is released or expires, and stays off once committed.
+const migration: Migration = {
+  version: 3,
+  name: 'stock_reservations',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS stock_reservations (
+        id ${ddl.id},
+        order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        status TEXT NOT NULL DEFAULT 'active'
+          CHECK (status IN ('active', 'committed', 'released', 'expired')),
+        expires_at TEXT NOT NULL,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_stock_reservations_order ON stock_reservations(order_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_stock_reservations_expiry ON stock_reservations(status, expires_at)');
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS stock_reservations');
+  }
+};
+
+export default migration;
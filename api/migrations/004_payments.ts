@@ -0,0 +1,39 @@
+import type { Migration } from '../config/migrations.js';
+
+// One row per payment intent opened with a provider. An order can have
+// several (e.g. a declined card followed by a retry); the latest one is
+// mirrored on orders.payment_intent_id and drives orders.payment_status.
+const migration: Migration = {
+  version: 4,
+  name: 'payments',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS payments (
+        id ${ddl.id},
+        order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        provider TEXT NOT NULL,
+        provider_intent_id TEXT NOT NULL,
+        amount ${ddl.decimal} NOT NULL,
+        currency TEXT NOT NULL DEFAULT 'usd',
+        status TEXT NOT NULL DEFAULT 'requires_confirmation'
+          CHECK (status IN ('requires_confirmation', 'processing', 'succeeded', 'failed', 'refunded', 'canceled')),
+        refunded_amount ${ddl.decimal} DEFAULT 0,
+        failure_reason TEXT,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp},
+        UNIQUE(provider, provider_intent_id)
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_payments_order ON payments(order_id)');
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS payments');
+  }
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import type { Migration } from '../config/migrations.js';
+
+// Audit trail of order lifecycle transitions. `field` says which state
+// machine moved: the fulfilment status or the payment status.
+const migration: Migration = {
+  version: 5,
+  name: 'order_status_history',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS order_status_history (
+        id ${ddl.id},
+        order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        field TEXT NOT NULL CHECK (field IN ('status', 'payment_status')),
+        from_status TEXT,
+        to_status TEXT NOT NULL,
+        actor_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+        note TEXT,
+        created_at ${ddl.timestamp}
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON order_status_history(order_id, created_at)');
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS order_status_history');
+  }
+};
+
+export default migration;
@@ -0,0 +1,47 @@
+import type { Migration } from '../config/migrations.js';
+
+// Return requests (RMA) opened by buyers against a single order line.
+// Approved returns record the refunded amount and bump the line's
+// returned_quantity; orders.refunded_amount totals every refund on the order.
+const migration: Migration = {
+  version: 6,
+  name: 'order_returns',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`ALTER TABLE orders ADD COLUMN refunded_amount ${ddl.decimal} DEFAULT 0`);
+    await db.exec('ALTER TABLE order_items ADD COLUMN returned_quantity INTEGER DEFAULT 0');
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS order_returns (
+        id ${ddl.id},
+        order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        order_item_id TEXT NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        reason TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'requested'
+          CHECK (status IN ('requested', 'approved', 'rejected')),
+        refund_amount ${ddl.decimal},
+        payment_id TEXT REFERENCES payments(id) ON DELETE SET NULL,
+        resolution_note TEXT,
+        resolved_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        resolved_at TEXT,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_order_returns_order ON order_returns(order_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_order_returns_status ON order_returns(status, created_at)');
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS order_returns');
+    await db.exec('ALTER TABLE order_items DROP COLUMN returned_quantity');
+    await db.exec('ALTER TABLE orders DROP COLUMN refunded_amount');
+  }
+};
+
+export default migration;
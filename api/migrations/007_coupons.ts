@@ -0,0 +1,71 @@
+import type { Migration } from '../config/migrations.js';
+
+// Store coupons. A coupon with no product_ids and no categories applies to the
+// whole order; otherwise only to lines matching either list. times_used is
+// the global usage counter, one coupon_redemptions row per order that used it.
+// Orders keep their pre-discount subtotal and the per-coupon breakdown.
+const migration: Migration = {
+  version: 7,
+  name: 'coupons',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS coupons (
+        id ${ddl.id},
+        code TEXT NOT NULL UNIQUE,
+        description TEXT,
+        discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+        discount_value ${ddl.decimal} NOT NULL CHECK (discount_value > 0),
+        product_ids ${ddl.json('[]')},
+        categories ${ddl.json('[]')},
+        min_order_amount ${ddl.decimal},
+        max_uses INTEGER,
+        max_uses_per_user INTEGER,
+        times_used INTEGER NOT NULL DEFAULT 0,
+        starts_at TEXT,
+        expires_at TEXT,
+        is_stackable ${ddl.boolean(false)},
+        is_active ${ddl.boolean(true)},
+        created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS coupon_redemptions (
+        id ${ddl.id},
+        coupon_id TEXT NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+        order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        amount ${ddl.decimal} NOT NULL,
+        created_at ${ddl.timestamp},
+        UNIQUE(coupon_id, order_id)
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_user ON coupon_redemptions(coupon_id, user_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_order ON coupon_redemptions(order_id)');
+
+    await db.exec(`ALTER TABLE orders ADD COLUMN subtotal_amount ${ddl.decimal}`);
+    await db.exec(`ALTER TABLE orders ADD COLUMN discount_amount ${ddl.decimal} DEFAULT 0`);
+    await db.exec(`ALTER TABLE orders ADD COLUMN discounts ${ddl.json('[]')}`);
+    await db.exec(`ALTER TABLE order_items ADD COLUMN discount_amount ${ddl.decimal} DEFAULT 0`);
+
+    // Orders placed before discounts existed were charged their full subtotal
+    await db.exec('UPDATE orders SET subtotal_amount = total_amount WHERE subtotal_amount IS NULL');
+  },
+
+  down: async (db) => {
+    await db.exec('ALTER TABLE order_items DROP COLUMN discount_amount');
+    for (const column of ['discounts', 'discount_amount', 'subtotal_amount']) {
+      await db.exec(`ALTER TABLE orders DROP COLUMN ${column}`);
+    }
+    await db.exec('DROP TABLE IF EXISTS coupon_redemptions');
+    await db.exec('DROP TABLE IF EXISTS coupons');
+  }
+};
+
+export default migration;
@@ -0,0 +1,42 @@
+import type { Migration } from '../config/migrations.js';
+
+// Server-side carts and wishlists, one row per user and product. Cart rows
+// remember the price the buyer last saw so a change can be flagged.
+const migration: Migration = {
+  version: 8,
+  name: 'carts',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS cart_items (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        unit_price ${ddl.decimal} NOT NULL,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp},
+        UNIQUE(user_id, product_id)
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS wishlist_items (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        created_at ${ddl.timestamp},
+        UNIQUE(user_id, product_id)
+      )
+    `);
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS wishlist_items');
+    await db.exec('DROP TABLE IF EXISTS cart_items');
+  }
+};
+
+export default migration;
@@ -0,0 +1,62 @@
+import type { Migration } from '../config/migrations.js';
+
+// Digital delivery: the files sellers attach to their products and the
+// entitlements a paid order grants to them. An entitlement covers one order
+// item; `seats` shrinks as units are returned and it is revoked at zero.
+const migration: Migration = {
+  version: 9,
+  name: 'entitlements',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    // NULL download_limit means unlimited downloads
+    await db.exec('ALTER TABLE products ADD COLUMN download_limit INTEGER');
+    await db.exec(`ALTER TABLE products ADD COLUMN issues_license_keys ${ddl.boolean(false)}`);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS product_files (
+        id ${ddl.id},
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        file_name TEXT NOT NULL,
+        storage_key TEXT NOT NULL,
+        content_type TEXT,
+        size_bytes INTEGER NOT NULL DEFAULT 0,
+        created_at ${ddl.timestamp}
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS entitlements (
+        id ${ddl.id},
+        order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        order_item_id TEXT NOT NULL UNIQUE REFERENCES order_items(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        seats INTEGER NOT NULL CHECK (seats >= 0),
+        status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revoked')),
+        download_limit INTEGER,
+        download_count INTEGER NOT NULL DEFAULT 0,
+        last_downloaded_at TEXT,
+        license_key TEXT UNIQUE,
+        revoked_at TEXT,
+        revoke_reason TEXT,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_product_files_product ON product_files(product_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_entitlements_user ON entitlements(user_id, created_at)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_entitlements_order ON entitlements(order_id)');
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS entitlements');
+    await db.exec('DROP TABLE IF EXISTS product_files');
+    await db.exec('ALTER TABLE products DROP COLUMN issues_license_keys');
+    await db.exec('ALTER TABLE products DROP COLUMN download_limit');
+  }
+};
+
+export default migration;
@@ -0,0 +1,80 @@
+import type { Migration } from '../config/migrations.js';
+
+// Multi-seller fulfilment and payouts. Each order is split into one seller
+// order per seller, fulfilled independently. The ledger holds signed amounts
+// per seller (sales and reversed commission add, commission, refunds and
+// payouts subtract), so a seller's balance is the sum of their entries.
+const migration: Migration = {
+  version: 10,
+  name: 'seller_orders',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS seller_orders (
+        id ${ddl.id},
+        order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        seller_id TEXT NOT NULL REFERENCES users(id),
+        status TEXT NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'processing', 'shipped', 'delivered', 'cancelled')),
+        subtotal_amount ${ddl.decimal} NOT NULL,
+        discount_amount ${ddl.decimal} NOT NULL DEFAULT 0,
+        total_amount ${ddl.decimal} NOT NULL,
+        commission_rate ${ddl.decimal} NOT NULL,
+        commission_amount ${ddl.decimal} NOT NULL,
+        refunded_amount ${ddl.decimal} NOT NULL DEFAULT 0,
+        tracking_number TEXT,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp},
+        UNIQUE(order_id, seller_id)
+      )
+    `);
+
+    await db.exec('ALTER TABLE order_items ADD COLUMN seller_order_id TEXT');
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS seller_payouts (
+        id ${ddl.id},
+        batch_id TEXT NOT NULL,
+        seller_id TEXT NOT NULL REFERENCES users(id),
+        amount ${ddl.decimal} NOT NULL CHECK (amount > 0),
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed')),
+        reference TEXT,
+        created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        created_at ${ddl.timestamp},
+        settled_at TEXT
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS seller_ledger_entries (
+        id ${ddl.id},
+        seller_id TEXT NOT NULL REFERENCES users(id),
+        type TEXT NOT NULL
+          CHECK (type IN ('sale', 'commission', 'refund', 'commission_reversal', 'payout', 'payout_reversal')),
+        amount ${ddl.decimal} NOT NULL,
+        seller_order_id TEXT REFERENCES seller_orders(id) ON DELETE SET NULL,
+        payout_id TEXT REFERENCES seller_payouts(id) ON DELETE SET NULL,
+        description TEXT,
+        created_at ${ddl.timestamp}
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_seller_orders_seller ON seller_orders(seller_id, created_at)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_seller_orders_order ON seller_orders(order_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_seller_ledger_seller ON seller_ledger_entries(seller_id, created_at)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_seller_ledger_seller_order ON seller_ledger_entries(seller_order_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_seller_payouts_seller ON seller_payouts(seller_id, created_at)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_seller_payouts_batch ON seller_payouts(batch_id)');
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS seller_ledger_entries');
+    await db.exec('DROP TABLE IF EXISTS seller_payouts');
+    await db.exec('ALTER TABLE order_items DROP COLUMN seller_order_id');
+    await db.exec('DROP TABLE IF EXISTS seller_orders');
+  }
+};
+
+export default migration;
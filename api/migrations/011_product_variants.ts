@@ -0,0 +1,98 @@
+import type { Migration } from '../config/migrations.js';
+
+// Product options (e.g. size, license) and the variants sold for each
+// combination of their values, with their own SKU, price, stock and images.
+// Products with variants keep their price and stock as the cheapest active
+// variant and the sum of active variant stock, so listings stay unchanged.
+// Cart lines, order items and stock reservations point at the variant bought.
+const migration: Migration = {
+  version: 11,
+  name: 'product_variants',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    // [{ name, values }] in display order
+    await db.exec(`ALTER TABLE products ADD COLUMN options ${ddl.json('[]')}`);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS product_variants (
+        id ${ddl.id},
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        sku TEXT NOT NULL UNIQUE,
+        options ${ddl.json('{}')},
+        price ${ddl.decimal} NOT NULL CHECK (price >= 0),
+        stock_quantity INTEGER NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+        image_urls ${ddl.json('[]')},
+        is_active ${ddl.boolean(true)},
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_product_variants_product ON product_variants(product_id)');
+
+    // Order items keep the SKU and option values as bought
+    await db.exec('ALTER TABLE order_items ADD COLUMN variant_id TEXT REFERENCES product_variants(id) ON DELETE SET NULL');
+    await db.exec('ALTER TABLE order_items ADD COLUMN sku TEXT');
+    await db.exec(`ALTER TABLE order_items ADD COLUMN variant_options ${ddl.json('{}')}`);
+    await db.exec('ALTER TABLE stock_reservations ADD COLUMN variant_id TEXT REFERENCES product_variants(id) ON DELETE CASCADE');
+
+    // Cart lines become unique per product and variant; the old
+    // UNIQUE(user_id, product_id) constraint means rebuilding the table
+    await db.exec(`
+      CREATE TABLE cart_items_new (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        variant_id TEXT REFERENCES product_variants(id) ON DELETE CASCADE,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        unit_price ${ddl.decimal} NOT NULL,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+    await db.exec(`
+      INSERT INTO cart_items_new (id, user_id, product_id, quantity, unit_price, created_at, updated_at)
+      SELECT id, user_id, product_id, quantity, unit_price, created_at, updated_at FROM cart_items
+    `);
+    await db.exec('DROP TABLE cart_items');
+    await db.exec('ALTER TABLE cart_items_new RENAME TO cart_items');
+    await db.exec(
+      "CREATE UNIQUE INDEX IF NOT EXISTS idx_cart_items_line ON cart_items(user_id, product_id, COALESCE(variant_id, ''))"
+    );
+  },
+
+  down: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE cart_items_old (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        unit_price ${ddl.decimal} NOT NULL,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp},
+        UNIQUE(user_id, product_id)
+      )
+    `);
+    await db.exec(`
+      INSERT INTO cart_items_old (id, user_id, product_id, quantity, unit_price, created_at, updated_at)
+      SELECT id, user_id, product_id, quantity, unit_price, created_at, updated_at
+      FROM cart_items
+      WHERE variant_id IS NULL
+    `);
+    await db.exec('DROP TABLE cart_items');
+    await db.exec('ALTER TABLE cart_items_old RENAME TO cart_items');
+
+    await db.exec('ALTER TABLE stock_reservations DROP COLUMN variant_id');
+    await db.exec('ALTER TABLE order_items DROP COLUMN variant_options');
+    await db.exec('ALTER TABLE order_items DROP COLUMN sku');
+    await db.exec('ALTER TABLE order_items DROP COLUMN variant_id');
+    await db.exec('DROP TABLE IF EXISTS product_variants');
+    await db.exec('ALTER TABLE products DROP COLUMN options');
+  }
+};
+
+export default migration;
@@ -0,0 +1,89 @@
+import type { Migration } from '../config/migrations.js';
+
+// Reviews grow out of product_ratings: a title, a verified-purchase badge,
+// seller replies, helpfulness votes and reports. Reports past a threshold
+// flag the review for moderation; only published reviews count towards the
+// product rating, which is now kept as a running total (rating_total /
+// review_count) and adjusted as reviews come and go.
+const migration: Migration = {
+  version: 12,
+  name: 'product_reviews',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec('ALTER TABLE product_ratings ADD COLUMN title TEXT');
+    await db.exec(`ALTER TABLE product_ratings ADD COLUMN is_verified_purchase ${ddl.boolean(false)}`);
+    await db.exec(`
+      ALTER TABLE product_ratings ADD COLUMN status TEXT NOT NULL DEFAULT 'published'
+        CHECK (status IN ('published', 'flagged', 'hidden'))
+    `);
+    await db.exec('ALTER TABLE product_ratings ADD COLUMN helpful_count INTEGER NOT NULL DEFAULT 0');
+    await db.exec('ALTER TABLE product_ratings ADD COLUMN not_helpful_count INTEGER NOT NULL DEFAULT 0');
+    await db.exec('ALTER TABLE product_ratings ADD COLUMN report_count INTEGER NOT NULL DEFAULT 0');
+    await db.exec('ALTER TABLE product_ratings ADD COLUMN seller_reply TEXT');
+    await db.exec('ALTER TABLE product_ratings ADD COLUMN seller_replied_at TEXT');
+    await db.exec('ALTER TABLE product_ratings ADD COLUMN moderation_note TEXT');
+    await db.exec('ALTER TABLE product_ratings ADD COLUMN moderated_by TEXT REFERENCES users(id) ON DELETE SET NULL');
+    await db.exec('ALTER TABLE product_ratings ADD COLUMN moderated_at TEXT');
+    await db.exec(
+      'CREATE INDEX IF NOT EXISTS idx_product_ratings_status ON product_ratings(status, created_at)'
+    );
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS review_votes (
+        review_id TEXT NOT NULL REFERENCES product_ratings(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        is_helpful ${ddl.boolean(true)},
+        created_at ${ddl.timestamp},
+        PRIMARY KEY (review_id, user_id)
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS review_reports (
+        id ${ddl.id},
+        review_id TEXT NOT NULL REFERENCES product_ratings(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        reason TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+        created_at ${ddl.timestamp},
+        UNIQUE(review_id, user_id)
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_review_reports_review ON review_reports(review_id, status)');
+
+    // Existing ratings get their badge from paid orders
+    await db.exec(`
+      UPDATE product_ratings SET is_verified_purchase = true
+      WHERE EXISTS (
+        SELECT 1 FROM order_items oi JOIN orders o ON oi.order_id = o.id
+        WHERE oi.product_id = product_ratings.product_id
+          AND o.user_id = product_ratings.user_id
+          AND o.payment_status = 'paid'
+      )
+    `);
+
+    await db.exec(`ALTER TABLE products ADD COLUMN rating_total ${ddl.decimal} DEFAULT 0`);
+    await db.exec(`
+      UPDATE products SET
+        rating_total = (SELECT COALESCE(SUM(rating), 0) FROM product_ratings r WHERE r.product_id = products.id),
+        review_count = (SELECT COUNT(*) FROM product_ratings r WHERE r.product_id = products.id)
+    `);
+  },
+
+  down: async (db) => {
+    await db.exec('ALTER TABLE products DROP COLUMN rating_total');
+    await db.exec('DROP TABLE IF EXISTS review_reports');
+    await db.exec('DROP TABLE IF EXISTS review_votes');
+    await db.exec('DROP INDEX IF EXISTS idx_product_ratings_status');
+    for (const column of [
+      'moderated_at', 'moderated_by', 'moderation_note', 'seller_replied_at', 'seller_reply',
+      'report_count', 'not_helpful_count', 'helpful_count', 'status', 'is_verified_purchase', 'title'
+    ]) {
+      await db.exec(`ALTER TABLE product_ratings DROP COLUMN ${column}`);
+    }
+  }
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+import type { Migration } from '../config/migrations.js';
+
+// Sellers' own product references. Unique per seller so catalog imports can
+// match rows to existing products.
+const migration: Migration = {
+  version: 13,
+  name: 'product_skus',
+
+  up: async (db) => {
+    await db.exec('ALTER TABLE products ADD COLUMN sku TEXT');
+    await db.exec('CREATE UNIQUE INDEX IF NOT EXISTS idx_products_seller_sku ON products(seller_id, sku)');
+  },
+
+  down: async (db) => {
+    await db.exec('DROP INDEX IF EXISTS idx_products_seller_sku');
+    await db.exec('ALTER TABLE products DROP COLUMN sku');
+  }
+};
+
+export default migration;
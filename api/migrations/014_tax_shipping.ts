@@ -0,0 +1,73 @@
+import { randomUUID } from 'crypto';
+import type { Migration } from '../config/migrations.js';
+
+// Tax rules by country, optionally narrowed to a region, a product category
+// or to physical/digital goods, and shipping zones with a rate table by
+// weight or by price. Orders keep the shipping and tax they were charged,
+// with the tax broken down per rule and per line. Products get a shipping
+// weight. The seeded catch-all zone ships for free, as checkout did so far.
+const migration: Migration = {
+  version: 14,
+  name: 'tax_shipping',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS tax_rules (
+        id ${ddl.id},
+        name TEXT NOT NULL,
+        country TEXT NOT NULL,
+        region TEXT,
+        category TEXT,
+        applies_to TEXT NOT NULL DEFAULT 'all' CHECK (applies_to IN ('all', 'physical', 'digital')),
+        rate ${ddl.decimal} NOT NULL CHECK (rate >= 0 AND rate <= 100),
+        is_active ${ddl.boolean(true)},
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_tax_rules_country ON tax_rules(country)');
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS shipping_zones (
+        id ${ddl.id},
+        name TEXT NOT NULL,
+        countries ${ddl.json('[]')},
+        basis TEXT NOT NULL DEFAULT 'price' CHECK (basis IN ('weight', 'price')),
+        rates ${ddl.json('[]')},
+        is_active ${ddl.boolean(true)},
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+    await db.query(
+      `INSERT INTO shipping_zones (id, name, countries, basis, rates)
+       VALUES ($1, 'Standard', '[]', 'price', '[{"upTo":null,"amount":0}]')`,
+      [randomUUID()]
+    );
+
+    await db.exec(`ALTER TABLE products ADD COLUMN weight ${ddl.decimal}`);
+
+    await db.exec(`ALTER TABLE orders ADD COLUMN shipping_amount ${ddl.decimal} DEFAULT 0`);
+    await db.exec(`ALTER TABLE orders ADD COLUMN tax_amount ${ddl.decimal} DEFAULT 0`);
+    await db.exec(`ALTER TABLE orders ADD COLUMN taxes ${ddl.json('[]')}`);
+    await db.exec('ALTER TABLE orders ADD COLUMN shipping_zone TEXT');
+    await db.exec(`ALTER TABLE order_items ADD COLUMN tax_rate ${ddl.decimal} DEFAULT 0`);
+    await db.exec(`ALTER TABLE order_items ADD COLUMN tax_amount ${ddl.decimal} DEFAULT 0`);
+  },
+
+  down: async (db) => {
+    for (const column of ['tax_amount', 'tax_rate']) {
+      await db.exec(`ALTER TABLE order_items DROP COLUMN ${column}`);
+    }
+    for (const column of ['shipping_zone', 'taxes', 'tax_amount', 'shipping_amount']) {
+      await db.exec(`ALTER TABLE orders DROP COLUMN ${column}`);
+    }
+    await db.exec('ALTER TABLE products DROP COLUMN weight');
+    await db.exec('DROP TABLE IF EXISTS shipping_zones');
+    await db.exec('DROP TABLE IF EXISTS tax_rules');
+  }
+};
+
+export default migration;
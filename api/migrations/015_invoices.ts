@@ -0,0 +1,60 @@
+import type { Migration } from '../config/migrations.js';
+
+// Invoices and credit notes. Each seller invoices their part of a paid order
+// once; refunds issue credit notes against that invoice. Numbers run in a
+// sequence per seller and series (invoices and credit notes apart), kept in
+// invoice_sequences so concurrent orders never draw the same number. Lines
+// and amounts are copied onto the document when it is issued.
+const migration: Migration = {
+  version: 15,
+  name: 'invoices',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS invoices (
+        id ${ddl.id},
+        number TEXT NOT NULL,
+        type TEXT NOT NULL DEFAULT 'invoice' CHECK (type IN ('invoice', 'credit_note')),
+        seller_id TEXT NOT NULL REFERENCES users(id),
+        order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        seller_order_id TEXT REFERENCES seller_orders(id) ON DELETE SET NULL,
+        credited_invoice_id TEXT REFERENCES invoices(id) ON DELETE CASCADE,
+        reason TEXT,
+        lines ${ddl.json('[]')},
+        subtotal_amount ${ddl.decimal} NOT NULL,
+        discount_amount ${ddl.decimal} NOT NULL DEFAULT 0,
+        shipping_amount ${ddl.decimal} NOT NULL DEFAULT 0,
+        tax_amount ${ddl.decimal} NOT NULL DEFAULT 0,
+        total_amount ${ddl.decimal} NOT NULL,
+        currency TEXT NOT NULL,
+        issued_at ${ddl.timestamp},
+        UNIQUE(seller_id, number)
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS invoice_sequences (
+        seller_id TEXT NOT NULL REFERENCES users(id),
+        series TEXT NOT NULL,
+        last_number INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (seller_id, series)
+      )
+    `);
+
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_invoices_order ON invoices(order_id)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_invoices_credited ON invoices(credited_invoice_id)');
+    await db.exec(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_seller_order
+      ON invoices(seller_order_id) WHERE type = 'invoice'
+    `);
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS invoice_sequences');
+    await db.exec('DROP TABLE IF EXISTS invoices');
+  }
+};
+
+export default migration;
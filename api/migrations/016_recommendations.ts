@@ -0,0 +1,55 @@
+import type { Migration } from '../config/migrations.js';
+
+// Precomputed recommendations, rebuilt periodically from purchases, product
+// categories and tags, wishlists and study route enrollments: related
+// products per product and suggestions per user, each with a score and the
+// reason it was picked. Also creates the enrollment table the study routes
+// API already writes to, which no earlier migration created.
+const migration: Migration = {
+  version: 16,
+  name: 'recommendations',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS user_enrollments (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        study_route_id TEXT NOT NULL REFERENCES study_routes(id) ON DELETE CASCADE,
+        created_at ${ddl.timestamp},
+        UNIQUE(user_id, study_route_id)
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS product_recommendations (
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        related_product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        score ${ddl.decimal} NOT NULL,
+        reason TEXT NOT NULL CHECK (reason IN ('also_bought', 'similar')),
+        computed_at ${ddl.timestamp},
+        PRIMARY KEY (product_id, related_product_id)
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS user_recommendations (
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        score ${ddl.decimal} NOT NULL,
+        reason TEXT NOT NULL CHECK (reason IN ('also_bought', 'similar', 'study_route')),
+        computed_at ${ddl.timestamp},
+        PRIMARY KEY (user_id, product_id)
+      )
+    `);
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS user_recommendations');
+    await db.exec('DROP TABLE IF EXISTS product_recommendations');
+    await db.exec('DROP TABLE IF EXISTS user_enrollments');
+  }
+};
+
+export default migration;
@@ -0,0 +1,104 @@
+import type { Migration } from '../config/migrations.js';
+
+// Public questions and answers on product pages. Upvotes and reports work
+// for both questions and answers (target_type says which), and reports past
+// a threshold flag the target for moderation as they do for reviews. Also
+// adds stored notifications so sellers hear about new questions even while
+// offline.
+const migration: Migration = {
+  version: 17,
+  name: 'product_questions',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS product_questions (
+        id ${ddl.id},
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        question TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'flagged', 'hidden')),
+        upvote_count INTEGER NOT NULL DEFAULT 0,
+        report_count INTEGER NOT NULL DEFAULT 0,
+        moderation_note TEXT,
+        moderated_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        moderated_at TEXT,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+    await db.exec(
+      'CREATE INDEX IF NOT EXISTS idx_product_questions_product ON product_questions(product_id, status, created_at)'
+    );
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS product_answers (
+        id ${ddl.id},
+        question_id TEXT NOT NULL REFERENCES product_questions(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        answer TEXT NOT NULL,
+        is_seller_answer ${ddl.boolean(false)},
+        status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'flagged', 'hidden')),
+        upvote_count INTEGER NOT NULL DEFAULT 0,
+        report_count INTEGER NOT NULL DEFAULT 0,
+        moderation_note TEXT,
+        moderated_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        moderated_at TEXT,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_product_answers_question ON product_answers(question_id, status)');
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS qa_votes (
+        target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer')),
+        target_id TEXT NOT NULL,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at ${ddl.timestamp},
+        PRIMARY KEY (target_type, target_id, user_id)
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS qa_reports (
+        id ${ddl.id},
+        target_type TEXT NOT NULL CHECK (target_type IN ('question', 'answer')),
+        target_id TEXT NOT NULL,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        reason TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+        created_at ${ddl.timestamp},
+        UNIQUE(target_type, target_id, user_id)
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_qa_reports_target ON qa_reports(target_type, target_id, status)');
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        type TEXT NOT NULL DEFAULT 'info' CHECK (type IN ('info', 'success', 'warning', 'error')),
+        title TEXT NOT NULL,
+        message TEXT NOT NULL,
+        is_read ${ddl.boolean(false)},
+        action_url TEXT,
+        action_text TEXT,
+        created_at ${ddl.timestamp},
+        expires_at TEXT
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, is_read, created_at)');
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS notifications');
+    await db.exec('DROP TABLE IF EXISTS qa_reports');
+    await db.exec('DROP TABLE IF EXISTS qa_votes');
+    await db.exec('DROP TABLE IF EXISTS product_answers');
+    await db.exec('DROP TABLE IF EXISTS product_questions');
+  }
+};
+
+export default migration;
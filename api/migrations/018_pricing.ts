@@ -0,0 +1,66 @@
+import type { Migration } from '../config/migrations.js';
+
+// Every change to a product's price is recorded with the previous price and
+// why it changed. Sales are scheduled with a start, an end and a sale price;
+// while one runs the product's price is the sale price and compare_at_price
+// holds the regular price to show as "was" and to restore afterwards.
+// Wishlist entries can ask for an alert when the price drops, optionally
+// only below a target price.
+const migration: Migration = {
+  version: 18,
+  name: 'pricing',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS product_price_history (
+        id ${ddl.id},
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        price ${ddl.decimal} NOT NULL,
+        previous_price ${ddl.decimal} NOT NULL,
+        reason TEXT NOT NULL CHECK (reason IN ('manual', 'import', 'sale_start', 'sale_end')),
+        sale_id TEXT,
+        changed_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        created_at ${ddl.timestamp}
+      )
+    `);
+    await db.exec(
+      'CREATE INDEX IF NOT EXISTS idx_product_price_history_product ON product_price_history(product_id, created_at)'
+    );
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS product_sales (
+        id ${ddl.id},
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        sale_price ${ddl.decimal} NOT NULL,
+        starts_at TEXT NOT NULL,
+        ends_at TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'active', 'ended', 'cancelled')),
+        regular_price ${ddl.decimal},
+        created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+        created_at ${ddl.timestamp},
+        updated_at ${ddl.timestamp}
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_product_sales_status ON product_sales(status, starts_at)');
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_product_sales_product ON product_sales(product_id, status)');
+
+    await db.exec(`ALTER TABLE products ADD COLUMN compare_at_price ${ddl.decimal}`);
+
+    await db.exec(`ALTER TABLE wishlist_items ADD COLUMN price_alert ${ddl.boolean(false)}`);
+    await db.exec(`ALTER TABLE wishlist_items ADD COLUMN price_alert_target ${ddl.decimal}`);
+    await db.exec(`ALTER TABLE wishlist_items ADD COLUMN price_alert_notified_price ${ddl.decimal}`);
+  },
+
+  down: async (db) => {
+    await db.exec('ALTER TABLE wishlist_items DROP COLUMN price_alert_notified_price');
+    await db.exec('ALTER TABLE wishlist_items DROP COLUMN price_alert_target');
+    await db.exec('ALTER TABLE wishlist_items DROP COLUMN price_alert');
+    await db.exec('ALTER TABLE products DROP COLUMN compare_at_price');
+    await db.exec('DROP TABLE IF EXISTS product_sales');
+    await db.exec('DROP TABLE IF EXISTS product_price_history');
+  }
+};
+
+export default migration;
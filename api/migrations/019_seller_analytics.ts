@@ -0,0 +1,33 @@
+import type { Migration } from '../config/migrations.js';
+
+// Seller storefronts and analytics. Product page views are counted per product
+// and day (a row per day with views, never per visit) to measure how views
+// turn into orders. Sellers can feature products at the top of their
+// storefront.
+const migration: Migration = {
+  version: 19,
+  name: 'seller_analytics',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS product_view_counts (
+        product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        day TEXT NOT NULL,
+        views INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (product_id, day)
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_product_view_counts_day ON product_view_counts(day)');
+
+    await db.exec(`ALTER TABLE products ADD COLUMN is_featured ${ddl.boolean(false)}`);
+  },
+
+  down: async (db) => {
+    await db.exec('ALTER TABLE products DROP COLUMN is_featured');
+    await db.exec('DROP TABLE IF EXISTS product_view_counts');
+  }
+};
+
+export default migration;
@@ -0,0 +1,47 @@
+import type { Migration } from '../config/migrations.js';
+
+// Server-side sessions. Each login starts a session whose refresh tokens form
+// one family: refreshing uses up the token presented and issues the next one.
+// Only SHA-256 hashes of refresh tokens are stored. Used tokens are kept
+// until they expire so that presenting one again (a stolen copy) can be
+// detected and the session revoked. Access tokens name their session and
+// stop working once it is revoked.
+const migration: Migration = {
+  version: 20,
+  name: 'auth_sessions',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at ${ddl.timestamp},
+        last_used_at TEXT,
+        revoked_at TEXT,
+        revoked_reason TEXT CHECK (revoked_reason IN ('logout', 'logout_all', 'token_reuse', 'password_change'))
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions(user_id, revoked_at)');
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        id ${ddl.id},
+        session_id TEXT NOT NULL REFERENCES auth_sessions(id) ON DELETE CASCADE,
+        token_hash TEXT NOT NULL UNIQUE,
+        created_at ${ddl.timestamp},
+        expires_at TEXT NOT NULL,
+        used_at TEXT
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session ON refresh_tokens(session_id)');
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS refresh_tokens');
+    await db.exec('DROP TABLE IF EXISTS auth_sessions');
+  }
+};
+
+export default migration;
@@ -0,0 +1,22 @@
+import type { Migration } from '../config/migrations.js';
+
+// Where each session signed in from: the browser's user agent and the client
+// IP, the latter kept current as the session is used. Users list and revoke
+// their sessions, and a login from a user agent never seen for the user
+// raises a notification.
+const migration: Migration = {
+  version: 21,
+  name: 'session_devices',
+
+  up: async (db) => {
+    await db.exec('ALTER TABLE auth_sessions ADD COLUMN user_agent TEXT');
+    await db.exec('ALTER TABLE auth_sessions ADD COLUMN ip_address TEXT');
+  },
+
+  down: async (db) => {
+    await db.exec('ALTER TABLE auth_sessions DROP COLUMN ip_address');
+    await db.exec('ALTER TABLE auth_sessions DROP COLUMN user_agent');
+  }
+};
+
+export default migration;
@@ -0,0 +1,32 @@
+import type { Migration } from '../config/migrations.js';
+
+// Single-use tokens mailed to users: confirming their email address and
+// resetting a forgotten password. The token handed out is the row id signed
+// with a server secret, so ids cannot be guessed or forged; used_at makes it
+// work once.
+const migration: Migration = {
+  version: 22,
+  name: 'account_tokens',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS account_tokens (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        purpose TEXT NOT NULL CHECK (purpose IN ('email_verification', 'password_reset')),
+        created_at ${ddl.timestamp},
+        expires_at TEXT NOT NULL,
+        used_at TEXT
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_account_tokens_user ON account_tokens(user_id, purpose)');
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS account_tokens');
+  }
+};
+
+export default migration;
@@ -0,0 +1,68 @@
+import type { Migration } from '../config/migrations.js';
+
+// Optional TOTP two-factor authentication. The shared secret is stored
+// encrypted, as authenticator codes can only be checked against the secret
+// itself; a secret waits in two_factor_pending_secret until the user proves
+// their app produces codes for it. two_factor_last_step stops a code from
+// being used twice. Recovery codes are stored hashed and work once each.
+// A password login on a protected account opens a challenge that the second
+// factor completes. Platform-wide switches, such as requiring two-factor
+// authentication from admins, live in platform_settings.
+const migration: Migration = {
+  version: 23,
+  name: 'two_factor',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`ALTER TABLE users ADD COLUMN two_factor_enabled ${ddl.boolean(false)}`);
+    await db.exec('ALTER TABLE users ADD COLUMN two_factor_enabled_at TEXT');
+    await db.exec('ALTER TABLE users ADD COLUMN two_factor_secret TEXT');
+    await db.exec('ALTER TABLE users ADD COLUMN two_factor_pending_secret TEXT');
+    await db.exec('ALTER TABLE users ADD COLUMN two_factor_last_step INTEGER');
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        code_hash TEXT NOT NULL,
+        created_at ${ddl.timestamp},
+        used_at TEXT
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user ON two_factor_recovery_codes(user_id)');
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS two_factor_challenges (
+        id ${ddl.id},
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at ${ddl.timestamp},
+        expires_at TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        completed_at TEXT
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS platform_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at ${ddl.timestamp},
+        updated_by TEXT REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+  },
+
+  down: async (db) => {
+    await db.exec('DROP TABLE IF EXISTS platform_settings');
+    await db.exec('DROP TABLE IF EXISTS two_factor_challenges');
+    await db.exec('DROP TABLE IF EXISTS two_factor_recovery_codes');
+    await db.exec('ALTER TABLE users DROP COLUMN two_factor_last_step');
+    await db.exec('ALTER TABLE users DROP COLUMN two_factor_pending_secret');
+    await db.exec('ALTER TABLE users DROP COLUMN two_factor_secret');
+    await db.exec('ALTER TABLE users DROP COLUMN two_factor_enabled_at');
+    await db.exec('ALTER TABLE users DROP COLUMN two_factor_enabled');
+  }
+};
+
+export default migration;
@@ -0,0 +1,78 @@
+import type { Migration, MigrationClient } from '../config/migrations.js';
+
+// Recreates account_tokens accepting only `purposes`, keeping the tokens
+// that still fit
+const rebuildAccountTokens = async (db: MigrationClient, purposes: string[]) => {
+  const { ddl } = db.dialect;
+  const list = purposes.map(purpose => `'${purpose}'`).join(', ');
+
+  await db.exec(`
+    CREATE TABLE account_tokens_new (
+      id ${ddl.id},
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      purpose TEXT NOT NULL CHECK (purpose IN (${list})),
+      created_at ${ddl.timestamp},
+      expires_at TEXT NOT NULL,
+      used_at TEXT
+    )
+  `);
+  await db.exec(`
+    INSERT INTO account_tokens_new (id, user_id, purpose, created_at, expires_at, used_at)
+    SELECT id, user_id, purpose, created_at, expires_at, used_at FROM account_tokens
+    WHERE purpose IN (${list})
+  `);
+  await db.exec('DROP TABLE account_tokens');
+  await db.exec('ALTER TABLE account_tokens_new RENAME TO account_tokens');
+  await db.exec('CREATE INDEX IF NOT EXISTS idx_account_tokens_user ON account_tokens(user_id, purpose)');
+};
+
+// Failed sign-ins are counted per account (by email, whether or not it
+// exists) and per client IP in login_throttles. Past a few failures each one
+// blocks further attempts for a growing delay; enough of them lock the
+// subject for longer (`locked`). Lockouts and unlocks are written to
+// security_events for admins. Locked accounts get an emailed unlock link,
+// which needs a new account_tokens purpose; the CHECK constraint means
+// rebuilding that table.
+const migration: Migration = {
+  version: 24,
+  name: 'login_protection',
+
+  up: async (db) => {
+    const { ddl } = db.dialect;
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS login_throttles (
+        scope TEXT NOT NULL CHECK (scope IN ('account', 'ip')),
+        subject TEXT NOT NULL,
+        failures INTEGER NOT NULL DEFAULT 0,
+        last_failed_at TEXT,
+        blocked_until TEXT,
+        locked ${ddl.boolean(false)},
+        PRIMARY KEY (scope, subject)
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS security_events (
+        id ${ddl.id},
+        event_type TEXT NOT NULL CHECK (event_type IN ('account_locked', 'account_unlocked', 'ip_blocked')),
+        user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+        email TEXT,
+        ip_address TEXT,
+        details ${ddl.json('{}')},
+        created_at ${ddl.timestamp}
+      )
+    `);
+    await db.exec('CREATE INDEX IF NOT EXISTS idx_security_events_created ON security_events(created_at)');
+
+    await rebuildAccountTokens(db, ['email_verification', 'password_reset', 'account_unlock']);
+  },
+
+  down: async (db) => {
+    await rebuildAccountTokens(db, ['email_verification', 'password_reset']);
+    await db.exec('DROP TABLE IF EXISTS security_events');
+    await db.exec('DROP TABLE IF EXISTS login_throttles');
+  }
+};
+
+export default migration;
@@ -0,0 +1,26 @@
+import type { Migration } from '../config/migrations.js';
+
+// A session lasts as long as its newest refresh token: past that it cannot
+// be renewed, so it no longer lists as active and its access tokens are
+// refused. Existing sessions take the expiry of their newest token; those
+// without any ended when they were created.
+const migration: Migration = {
+  version: 25,
+  name: 'session_expiry',
+
+  up: async (db) => {
+    await db.exec('ALTER TABLE auth_sessions ADD COLUMN expires_at TEXT');
+    await db.exec(`
+      UPDATE auth_sessions SET expires_at = COALESCE(
+        (SELECT MAX(t.expires_at) FROM refresh_tokens t WHERE t.session_id = auth_sessions.id),
+        CAST(created_at AS TEXT)
+      )
+    `);
+  },
+
+  down: async (db) => {
+    await db.exec('ALTER TABLE auth_sessions DROP COLUMN expires_at');
+  }
+};
+
+export default migration;
@@ -0,0 +1,56 @@
+import type { Migration } from '../config/migrations.js';
+import initialSchema from './001_initial_schema.js';
+import apiSchemaAlignment from './002_api_schema_alignment.js';
+import stockReservations from './003_stock_reservations.js';
+import payments from './004_payments.js';
+import orderStatusHistory from './005_order_status_history.js';
+import orderReturns from './006_order_returns.js';
+import coupons from './007_coupons.js';
+import carts from './008_carts.js';
+import entitlements from './009_entitlements.js';
+import sellerOrders from './010_seller_orders.js';
+import productVariants from './011_product_variants.js';
+import productReviews from './012_product_reviews.js';
+import productSkus from './013_product_skus.js';
+import taxShipping from './014_tax_shipping.js';
+import invoices from './015_invoices.js';
+import recommendations from './016_recommendations.js';
+import productQuestions from './017_product_questions.js';
+import pricing from './018_pricing.js';
+import sellerAnalytics from './019_seller_analytics.js';
+import authSessions from './020_auth_sessions.js';
+import sessionDevices from './021_session_devices.js';
+import accountTokens from './022_account_tokens.js';
+import twoFactor from './023_two_factor.js';
+import loginProtection from './024_login_protection.js';
+import sessionExpiry from './025_session_expiry.js';
+
+// Ordered registry of schema migrations. Add new files as NNN_description.ts
+// and register them here; versions must be unique and never renumbered.
+export const migrations: Migration[] = [
+  initialSchema,
+  apiSchemaAlignment,
+  stockReservations,
+  payments,
+  orderStatusHistory,
+  orderReturns,
+  coupons,
+  carts,
+  entitlements,
+  sellerOrders,
+  productVariants,
+  productReviews,
+  productSkus,
+  taxShipping,
+  invoices,
+  recommendations,
+  productQuestions,
+  pricing,
+  sellerAnalytics,
+  authSessions,
+  sessionDevices,
+  accountTokens,
+  twoFactor,
+  loginProtection,
+  sessionExpiry
+];
@@ -0,0 +1,68 @@
+import { randomUUID } from 'crypto';
+import { query } from '../config/database.js';
+import { toIsoString, TimestampColumn } from './helpers.js';
+
+export type AccountTokenPurpose = 'email_verification' | 'password_reset' | 'account_unlock';
+
+export interface AccountToken {
+  id: string;
+  userId: string;
+  purpose: AccountTokenPurpose;
+  createdAt: string;
+  expiresAt: string;
+  usedAt?: string;
+}
+
+const TOKEN_COLUMNS = 'id, user_id, purpose, created_at, expires_at, used_at';
+
+interface AccountTokenRow {
+  id: string;
+  user_id: string;
+  purpose: AccountToken['purpose'];
+  created_at: TimestampColumn;
+  expires_at: TimestampColumn;
+  used_at: TimestampColumn | null;
+}
+
+const toAccountToken = (row: AccountTokenRow): AccountToken => ({
+  id: row.id,
+  userId: row.user_id,
+  purpose: row.purpose,
+  createdAt: toIsoString(row.created_at),
+  expiresAt: toIsoString(row.expires_at),
+  usedAt: row.used_at ? toIsoString(row.used_at) : undefined
+});
+
+export const AccountTokensRepo = {
+  async findById(id: string): Promise<AccountToken | null> {
+    const result = await query<AccountTokenRow>(`SELECT ${TOKEN_COLUMNS} FROM account_tokens WHERE id = $1`, [id]);
+    return result.rows.length > 0 ? toAccountToken(result.rows[0]) : null;
+  },
+
+  async create(userId: string, purpose: AccountTokenPurpose, expiresAt: string): Promise<AccountToken> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO account_tokens (id, user_id, purpose, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [id, userId, purpose, new Date().toISOString(), expiresAt]
+    );
+    return (await AccountTokensRepo.findById(id))!;
+  },
+
+  // Uses the token up; returns false when it already was
+  async markUsed(id: string): Promise<boolean> {
+    const result = await query(
+      'UPDATE account_tokens SET used_at = $1 WHERE id = $2 AND used_at IS NULL',
+      [new Date().toISOString(), id]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Drops the user's unused tokens for a purpose, so only the latest one mailed works
+  async discardUnused(userId: string, purpose: AccountTokenPurpose): Promise<void> {
+    await query(
+      'DELETE FROM account_tokens WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL',
+      [userId, purpose]
+    );
+  }
+};
@@ -0,0 +1,313 @@
+import { randomUUID } from 'crypto';
+import { query, dialect, transaction } from '../config/database.js';
+import { AtticObject, ObjectLink } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, buildUpdate,
+  toNumber, toInteger, toStringArray, toIsoString,
+  BooleanColumn, NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export type Vector3 = { x: number; y: number; z: number };
+
+export type AtticObjectSort = 'newest' | 'oldest' | 'name_asc' | 'name_desc' | 'category';
+
+export interface AtticObjectFilters {
+  category?: string;
+  search?: string;
+  sort?: AtticObjectSort;
+}
+
+export interface CreateAtticObjectInput {
+  ownerId: string;
+  name: string;
+  description?: string | null;
+  category?: string | null;
+  modelUrl: string;
+  textures?: string[];
+  thumbnailUrl?: string | null;
+  position?: Partial<Vector3>;
+  rotation?: Partial<Vector3>;
+  scale?: Partial<Vector3>;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface UpdateAtticObjectInput {
+  name?: string;
+  description?: string;
+  category?: string;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  isVisible?: boolean;
+  position?: Partial<Vector3>;
+  rotation?: Partial<Vector3>;
+  scale?: Partial<Vector3>;
+}
+
+export interface ObjectTransform {
+  id: string;
+  position: Vector3;
+  rotation?: Partial<Vector3>;
+  scale?: Partial<Vector3>;
+}
+
+const OBJECT_COLUMNS = `id, owner_id, name, description, category, model_url, texture_url, thumbnail_url,
+  position_x, position_y, position_z, rotation_x, rotation_y, rotation_z,
+  scale_x, scale_y, scale_z, tags, metadata, is_visible, created_at, updated_at`;
+
+const ORDER_BY: Record<AtticObjectSort, string> = {
+  newest: 'created_at DESC',
+  oldest: 'created_at ASC',
+  name_asc: 'name ASC',
+  name_desc: 'name DESC',
+  category: 'category ASC, created_at DESC'
+};
+
+const TRANSFORMS = ['position', 'rotation', 'scale'] as const;
+
+type TransformColumn = `${typeof TRANSFORMS[number]}_${'x' | 'y' | 'z'}`;
+
+interface AtticObjectRow extends Record<TransformColumn, NumericColumn> {
+  metadata: unknown;
+  texture_url: unknown;
+  id: string;
+  name: string;
+  category: string;
+  description: string | null;
+  model_url: string | null;
+  thumbnail_url: string | null;
+  tags: unknown;
+  is_visible: BooleanColumn;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+  owner_id: string;
+}
+
+const toVector = (
+  row: AtticObjectRow,
+  prefix: typeof TRANSFORMS[number],
+  fallback: number
+): Vector3 => ({
+  x: toNumber(row[`${prefix}_x`], fallback),
+  y: toNumber(row[`${prefix}_y`], fallback),
+  z: toNumber(row[`${prefix}_z`], fallback)
+});
+
+const toAtticObject = (row: AtticObjectRow, links: ObjectLink[] = []): AtticObject => {
+  const metadata = dialect.parseJson<Record<string, unknown>>(row.metadata, {});
+  const textures = toStringArray(row.texture_url);
+
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.category,
+    description: row.description ?? undefined,
+    position: toVector(row, 'position', 0),
+    rotation: toVector(row, 'rotation', 0),
+    scale: toVector(row, 'scale', 1),
+    color: typeof metadata.color === 'string' ? metadata.color : '#ffffff',
+    model: row.model_url ?? undefined,
+    texture: textures[0],
+    textures,
+    thumbnail: row.thumbnail_url ?? undefined,
+    tags: toStringArray(row.tags),
+    metadata,
+    isVisible: dialect.parseBoolean(row.is_visible),
+    links,
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at),
+    userId: row.owner_id
+  };
+};
+
+interface ObjectLinkRow {
+  id: string;
+  from_object_id: string;
+  to_object_id: string;
+  link_type: ObjectLink['linkType'];
+  created_at: TimestampColumn;
+}
+
+const toObjectLink = (row: ObjectLinkRow): ObjectLink => ({
+  id: row.id,
+  sourceObjectId: row.from_object_id,
+  targetObjectId: row.to_object_id,
+  linkType: row.link_type,
+  createdAt: toIsoString(row.created_at)
+});
+
+// Column assignments for the axes present in a partial transform
+const transformAssignments = (changes: UpdateAtticObjectInput, params: unknown[]) => {
+  const assignments: string[] = [];
+  for (const transform of TRANSFORMS) {
+    const vector = changes[transform];
+    if (!vector) continue;
+    for (const axis of ['x', 'y', 'z'] as const) {
+      if (vector[axis] === undefined) continue;
+      params.push(toNumber(vector[axis]));
+      assignments.push(`${transform}_${axis} = $${params.length}`);
+    }
+  }
+  return assignments;
+};
+
+export const AtticObjectsRepo = {
+  async list(ownerId: string, filters: AtticObjectFilters = {}, options: PageOptions = {}): Promise<Page<AtticObject>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions();
+
+    where.add(p => `owner_id = ${p}`, ownerId);
+    if (filters.category) {
+      where.add(p => `category = ${p}`, filters.category);
+    }
+    if (filters.search) {
+      where.add(p => `(
+        ${dialect.ilike('name', p)} OR
+        ${dialect.ilike('description', p)} OR
+        ${dialect.ilike(dialect.jsonText('tags'), p)}
+      )`, `%${filters.search}%`);
+    }
+
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM attic_objects ${where.where()}`,
+      where.params
+    );
+
+    const result = await query<AtticObjectRow>(
+      `SELECT ${OBJECT_COLUMNS}
+       FROM attic_objects
+       ${where.where()}
+       ORDER BY ${ORDER_BY[filters.sort || 'newest']}
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: result.rows.map(row => toAtticObject(row)),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  // Every visible object in placement order, for rendering the 3D scene
+  async listVisible(ownerId: string): Promise<AtticObject[]> {
+    const result = await query<AtticObjectRow>(
+      `SELECT ${OBJECT_COLUMNS}
+       FROM attic_objects
+       WHERE owner_id = $1 AND is_visible = true
+       ORDER BY created_at ASC`,
+      [ownerId]
+    );
+    return result.rows.map(row => toAtticObject(row));
+  },
+
+  // Object with its links, scoped to the owner
+  async findById(id: string, ownerId: string): Promise<AtticObject | null> {
+    const result = await query<AtticObjectRow>(
+      `SELECT ${OBJECT_COLUMNS} FROM attic_objects WHERE id = $1 AND owner_id = $2`,
+      [id, ownerId]
+    );
+    if (result.rows.length === 0) return null;
+
+    const linksResult = await query<ObjectLinkRow>(
+      `SELECT id, from_object_id, to_object_id, link_type, created_at
+       FROM object_links
+       WHERE from_object_id = $1 OR to_object_id = $1
+       ORDER BY created_at DESC`,
+      [id]
+    );
+
+    return toAtticObject(result.rows[0], linksResult.rows.map(toObjectLink));
+  },
+
+  async ownsAll(ids: string[], ownerId: string): Promise<boolean> {
+    const unique = [...new Set(ids)];
+    const result = await query(
+      `SELECT COUNT(*) as total FROM attic_objects WHERE ${dialect.inArray('id', '$1')} AND owner_id = $2`,
+      [unique, ownerId]
+    );
+    return toInteger(result.rows[0].total) === unique.length;
+  },
+
+  async create(input: CreateAtticObjectInput): Promise<AtticObject> {
+    const id = randomUUID();
+    const position = { x: 0, y: 0, z: 0, ...input.position };
+    const rotation = { x: 0, y: 0, z: 0, ...input.rotation };
+    const scale = { x: 1, y: 1, z: 1, ...input.scale };
+
+    await query(
+      `INSERT INTO attic_objects (
+        id, owner_id, name, description, category, model_url, texture_url, thumbnail_url,
+        position_x, position_y, position_z, rotation_x, rotation_y, rotation_z,
+        scale_x, scale_y, scale_z, tags, metadata
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)`,
+      [
+        id, input.ownerId, input.name, input.description || null, input.category || 'other',
+        input.modelUrl, JSON.stringify(input.textures || []), input.thumbnailUrl || null,
+        toNumber(position.x), toNumber(position.y), toNumber(position.z),
+        toNumber(rotation.x), toNumber(rotation.y), toNumber(rotation.z),
+        toNumber(scale.x, 1), toNumber(scale.y, 1), toNumber(scale.z, 1),
+        JSON.stringify(input.tags || []), JSON.stringify(input.metadata || {})
+      ]
+    );
+
+    return (await AtticObjectsRepo.findById(id, input.ownerId))!;
+  },
+
+  // Returns null when the object does not exist or belongs to someone else
+  async update(id: string, ownerId: string, changes: UpdateAtticObjectInput): Promise<AtticObject | null> {
+    const { assignments, params } = buildUpdate(changes as Record<string, unknown>, {
+      name: 'name',
+      description: 'description',
+      category: 'category',
+      tags: 'tags',
+      metadata: 'metadata',
+      isVisible: 'is_visible'
+    }, ['tags', 'metadata']);
+    assignments.push(...transformAssignments(changes, params));
+
+    if (assignments.length > 0) {
+      params.push(id, ownerId);
+      await query(
+        `UPDATE attic_objects
+         SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${params.length - 1} AND owner_id = $${params.length}`,
+        params
+      );
+    }
+
+    return AtticObjectsRepo.findById(id, ownerId);
+  },
+
+  // Links go with the object (ON DELETE CASCADE)
+  async delete(id: string, ownerId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM attic_objects WHERE id = $1 AND owner_id = $2',
+      [id, ownerId]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Bulk transform update for a saved scene; all or nothing
+  saveTransforms(ownerId: string, transforms: ObjectTransform[]): Promise<void> {
+    return transaction(async () => {
+      for (const { id, position, rotation, scale } of transforms) {
+        await query(
+          `UPDATE attic_objects
+           SET position_x = $1, position_y = $2, position_z = $3,
+               rotation_x = $4, rotation_y = $5, rotation_z = $6,
+               scale_x = $7, scale_y = $8, scale_z = $9,
+               updated_at = CURRENT_TIMESTAMP
+           WHERE id = $10 AND owner_id = $11`,
+          [
+            position.x, position.y, position.z,
+            rotation?.x || 0, rotation?.y || 0, rotation?.z || 0,
+            scale?.x || 1, scale?.y || 1, scale?.z || 1,
+            id, ownerId
+          ]
+        );
+      }
+    });
+  }
+};
@@ -0,0 +1,185 @@
+import { randomUUID } from 'crypto';
+import { query } from '../config/database.js';
+import { AuthSession, SessionRevokeReason } from '../types.js';
+import { toInteger, toIsoString, TimestampColumn } from './helpers.js';
+
+// Where a login came from, as the request tells it
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// A stored refresh token, looked up by hash, with the state of its session
+export interface RefreshTokenRecord {
+  id: string;
+  sessionId: string;
+  userId: string;
+  expiresAt: string;
+  usedAt?: string;
+  sessionRevokedAt?: string;
+}
+
+const SESSION_COLUMNS = `s.id, s.user_id, s.created_at, s.last_used_at, s.expires_at, s.revoked_at,
+  s.revoked_reason, s.user_agent, s.ip_address`;
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  created_at: TimestampColumn;
+  last_used_at: TimestampColumn | null;
+  expires_at: TimestampColumn;
+  revoked_at: TimestampColumn | null;
+  revoked_reason: AuthSession['revokedReason'] | null;
+  user_agent: string | null;
+  ip_address: string | null;
+}
+
+const toSession = (row: SessionRow): AuthSession => ({
+  id: row.id,
+  userId: row.user_id,
+  createdAt: toIsoString(row.created_at),
+  lastUsedAt: row.last_used_at ? toIsoString(row.last_used_at) : undefined,
+  expiresAt: toIsoString(row.expires_at),
+  revokedAt: row.revoked_at ? toIsoString(row.revoked_at) : undefined,
+  revokedReason: row.revoked_reason ?? undefined,
+  userAgent: row.user_agent ?? undefined,
+  ipAddress: row.ip_address ?? undefined
+});
+
+export const AuthSessionsRepo = {
+  async findById(id: string): Promise<AuthSession | null> {
+    const result = await query<SessionRow>(`SELECT ${SESSION_COLUMNS} FROM auth_sessions s WHERE s.id = $1`, [id]);
+    return result.rows.length > 0 ? toSession(result.rows[0]) : null;
+  },
+
+  // The user's live sessions, most recently used first
+  async listActiveByUser(userId: string): Promise<AuthSession[]> {
+    const result = await query<SessionRow>(
+      `SELECT ${SESSION_COLUMNS} FROM auth_sessions s
+       WHERE s.user_id = $1 AND s.revoked_at IS NULL AND s.expires_at > $2
+       ORDER BY s.last_used_at DESC`,
+      [userId, new Date().toISOString()]
+    );
+    return result.rows.map(toSession);
+  },
+
+  // How many sessions the user ever had, revoked ones included, and how many
+  // of those came from the given user agent
+  async countByUserAgent(userId: string, userAgent: string): Promise<{ total: number; matching: number }> {
+    const result = await query(
+      `SELECT COUNT(*) AS total, COUNT(CASE WHEN user_agent = $2 THEN 1 END) AS matching
+       FROM auth_sessions WHERE user_id = $1`,
+      [userId, userAgent]
+    );
+    return { total: toInteger(result.rows[0].total), matching: toInteger(result.rows[0].matching) };
+  },
+
+  async create(userId: string, { userAgent, ipAddress }: SessionClient, expiresAt: string): Promise<AuthSession> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    await query(
+      `INSERT INTO auth_sessions (id, user_id, created_at, last_used_at, expires_at, user_agent, ip_address)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [id, userId, now, now, expiresAt, userAgent ?? null, ipAddress ?? null]
+    );
+    return (await AuthSessionsRepo.findById(id))!;
+  },
+
+  // True when the session exists, has not been revoked and has not expired
+  async isActive(id: string): Promise<boolean> {
+    const result = await query(
+      'SELECT 1 FROM auth_sessions WHERE id = $1 AND revoked_at IS NULL AND expires_at > $2',
+      [id, new Date().toISOString()]
+    );
+    return result.rows.length > 0;
+  },
+
+  // Keeps the session alive until its newest refresh token expires
+  async extend(id: string, expiresAt: string): Promise<void> {
+    await query('UPDATE auth_sessions SET expires_at = $1 WHERE id = $2', [expiresAt, id]);
+  },
+
+  // Marks the session as seen now, from the given IP when known
+  async touch(id: string, ipAddress?: string): Promise<void> {
+    await query(
+      'UPDATE auth_sessions SET last_used_at = $1, ip_address = COALESCE($2, ip_address) WHERE id = $3',
+      [new Date().toISOString(), ipAddress ?? null, id]
+    );
+  },
+
+  // Returns false when the session was already revoked
+  async revoke(id: string, reason: SessionRevokeReason): Promise<boolean> {
+    const result = await query(
+      'UPDATE auth_sessions SET revoked_at = $1, revoked_reason = $2 WHERE id = $3 AND revoked_at IS NULL',
+      [new Date().toISOString(), reason, id]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Revokes every live session of the user, but the one kept if given;
+  // returns how many were revoked
+  async revokeAllForUser(userId: string, reason: SessionRevokeReason, keepSessionId?: string): Promise<number> {
+    const result = await query(
+      `UPDATE auth_sessions SET revoked_at = $1, revoked_reason = $2
+       WHERE user_id = $3 AND revoked_at IS NULL AND id != $4`,
+      [new Date().toISOString(), reason, userId, keepSessionId ?? '']
+    );
+    return result.rowCount;
+  }
+};
+
+export const RefreshTokensRepo = {
+  async findByHash(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const result = await query<{
+      id: string;
+      session_id: string;
+      expires_at: TimestampColumn;
+      used_at: TimestampColumn | null;
+      user_id: string;
+      revoked_at: TimestampColumn | null;
+    }>(
+      `SELECT t.id, t.session_id, t.expires_at, t.used_at, s.user_id, s.revoked_at
+       FROM refresh_tokens t
+       JOIN auth_sessions s ON t.session_id = s.id
+       WHERE t.token_hash = $1`,
+      [tokenHash]
+    );
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      userId: row.user_id,
+      expiresAt: toIsoString(row.expires_at),
+      usedAt: row.used_at ? toIsoString(row.used_at) : undefined,
+      sessionRevokedAt: row.revoked_at ? toIsoString(row.revoked_at) : undefined
+    };
+  },
+
+  async create(sessionId: string, tokenHash: string, expiresAt: string): Promise<void> {
+    await query(
+      `INSERT INTO refresh_tokens (id, session_id, token_hash, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [randomUUID(), sessionId, tokenHash, new Date().toISOString(), expiresAt]
+    );
+  },
+
+  // Uses the token up; returns false when it already was (a concurrent
+  // refresh got there first, or the token is being replayed)
+  async markUsed(id: string): Promise<boolean> {
+    const result = await query(
+      'UPDATE refresh_tokens SET used_at = $1 WHERE id = $2 AND used_at IS NULL',
+      [new Date().toISOString(), id]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Expired tokens can no longer be replayed, so they need not be kept
+  async deleteExpired(sessionId: string): Promise<void> {
+    await query(
+      'DELETE FROM refresh_tokens WHERE session_id = $1 AND expires_at < $2',
+      [sessionId, new Date().toISOString()]
+    );
+  }
+};
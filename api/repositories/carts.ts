@@ -0,0 +1,97 @@
+import { randomUUID } from 'crypto';
+import { query } from '../config/database.js';
+import { toNumber, toInteger, toIsoString, NumericColumn, TimestampColumn } from './helpers.js';
+
+// A stored cart row; the cart service joins it with the live product
+export interface CartLine {
+  productId: string;
+  // Set for products sold through variants
+  variantId?: string;
+  quantity: number;
+  // Price the buyer last saw for the product
+  unitPrice: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const CART_LINE_COLUMNS = 'product_id, variant_id, quantity, unit_price, created_at, updated_at';
+
+// A line is one product, or one variant of it; NULL variants compare equal
+const SAME_LINE = "user_id = $1 AND product_id = $2 AND COALESCE(variant_id, '') = COALESCE($3, '')";
+
+interface CartLineRow {
+  product_id: string;
+  variant_id: string | null;
+  quantity: NumericColumn;
+  unit_price: NumericColumn;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+}
+
+const toCartLine = (row: CartLineRow): CartLine => ({
+  productId: row.product_id,
+  variantId: row.variant_id ?? undefined,
+  quantity: toInteger(row.quantity),
+  unitPrice: toNumber(row.unit_price),
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at)
+});
+
+export const CartsRepo = {
+  // Oldest first, in the order items were added
+  async listByUser(userId: string): Promise<CartLine[]> {
+    const result = await query<CartLineRow>(
+      `SELECT ${CART_LINE_COLUMNS}
+       FROM cart_items
+       WHERE user_id = $1
+       ORDER BY created_at ASC`,
+      [userId]
+    );
+    return result.rows.map(toCartLine);
+  },
+
+  async findLine(userId: string, productId: string, variantId?: string | null): Promise<CartLine | null> {
+    const result = await query<CartLineRow>(
+      `SELECT ${CART_LINE_COLUMNS} FROM cart_items WHERE ${SAME_LINE}`,
+      [userId, productId, variantId || null]
+    );
+    return result.rows.length > 0 ? toCartLine(result.rows[0]) : null;
+  },
+
+  // Inserts the line or replaces its quantity and price. Millisecond
+  // timestamps keep lines added in quick succession in order.
+  async setLine(
+    userId: string,
+    productId: string,
+    variantId: string | null | undefined,
+    quantity: number,
+    unitPrice: number
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const updated = await query(
+      `UPDATE cart_items
+       SET quantity = $4, unit_price = $5, updated_at = $6
+       WHERE ${SAME_LINE}`,
+      [userId, productId, variantId || null, quantity, unitPrice, now]
+    );
+    if (updated.rowCount > 0) return;
+
+    await query(
+      `INSERT INTO cart_items (id, user_id, product_id, variant_id, quantity, unit_price, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $7)`,
+      [randomUUID(), userId, productId, variantId || null, quantity, unitPrice, now]
+    );
+  },
+
+  async removeLine(userId: string, productId: string, variantId?: string | null): Promise<boolean> {
+    const result = await query(
+      `DELETE FROM cart_items WHERE ${SAME_LINE}`,
+      [userId, productId, variantId || null]
+    );
+    return result.rowCount > 0;
+  },
+
+  async clear(userId: string): Promise<void> {
+    await query('DELETE FROM cart_items WHERE user_id = $1', [userId]);
+  }
+};
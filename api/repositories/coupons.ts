@@ -0,0 +1,250 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { Coupon, DiscountType } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, buildUpdate,
+  toNumber, toInteger, toStringArray, toIsoString,
+  BooleanColumn, NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export interface CouponFilters {
+  isActive?: boolean;
+  search?: string;
+}
+
+export interface CreateCouponInput {
+  code: string;
+  description?: string | null;
+  discountType: DiscountType;
+  discountValue: number;
+  productIds?: string[];
+  categories?: string[];
+  minOrderAmount?: number | null;
+  maxUses?: number | null;
+  maxUsesPerUser?: number | null;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  isStackable?: boolean;
+  isActive?: boolean;
+  createdBy?: string | null;
+}
+
+export type UpdateCouponInput = Partial<Omit<CreateCouponInput, 'createdBy'>>;
+
+export interface CouponUsage {
+  orders: number;
+  totalDiscount: number;
+}
+
+const COUPON_COLUMNS = `id, code, description, discount_type, discount_value, product_ids, categories,
+  min_order_amount, max_uses, max_uses_per_user, times_used, starts_at, expires_at,
+  is_stackable, is_active, created_at, updated_at`;
+
+const JSON_FIELDS = ['productIds', 'categories'];
+
+const toOptionalNumber = (value: unknown) =>
+  value === null || value === undefined ? undefined : toNumber(value);
+
+interface CouponRow {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: Coupon['discountType'];
+  discount_value: NumericColumn;
+  product_ids: unknown;
+  categories: unknown;
+  min_order_amount: NumericColumn | null;
+  max_uses: NumericColumn | null;
+  max_uses_per_user: NumericColumn | null;
+  times_used: NumericColumn;
+  starts_at: TimestampColumn | null;
+  expires_at: TimestampColumn | null;
+  is_stackable: BooleanColumn;
+  is_active: BooleanColumn;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+}
+
+const toCoupon = (row: CouponRow): Coupon => ({
+  id: row.id,
+  code: row.code,
+  description: row.description ?? undefined,
+  discountType: row.discount_type,
+  discountValue: toNumber(row.discount_value),
+  productIds: toStringArray(row.product_ids),
+  categories: toStringArray(row.categories),
+  minOrderAmount: toOptionalNumber(row.min_order_amount),
+  maxUses: toOptionalNumber(row.max_uses),
+  maxUsesPerUser: toOptionalNumber(row.max_uses_per_user),
+  timesUsed: toInteger(row.times_used),
+  startsAt: row.starts_at ? toIsoString(row.starts_at) : undefined,
+  expiresAt: row.expires_at ? toIsoString(row.expires_at) : undefined,
+  isStackable: dialect.parseBoolean(row.is_stackable),
+  isActive: dialect.parseBoolean(row.is_active),
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at)
+});
+
+// Codes are matched case-insensitively and stored upper-case
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+export const CouponsRepo = {
+  async list(filters: CouponFilters = {}, options: PageOptions = {}): Promise<Page<Coupon>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions();
+
+    if (filters.isActive !== undefined) {
+      where.add(p => `is_active = ${p}`, filters.isActive);
+    }
+    if (filters.search) {
+      where.add(p => `(${dialect.ilike('code', p)} OR ${dialect.ilike('description', p)})`, `%${filters.search}%`);
+    }
+
+    const countResult = await query(`SELECT COUNT(*) as total FROM coupons ${where.where()}`, where.params);
+
+    const result = await query<CouponRow>(
+      `SELECT ${COUPON_COLUMNS}
+       FROM coupons
+       ${where.where()}
+       ORDER BY created_at DESC
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: result.rows.map(toCoupon),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  async findById(id: string): Promise<Coupon | null> {
+    const result = await query<CouponRow>(`SELECT ${COUPON_COLUMNS} FROM coupons WHERE id = $1`, [id]);
+    return result.rows.length > 0 ? toCoupon(result.rows[0]) : null;
+  },
+
+  async findByCode(code: string): Promise<Coupon | null> {
+    const result = await query<CouponRow>(
+      `SELECT ${COUPON_COLUMNS} FROM coupons WHERE code = $1`,
+      [normalizeCouponCode(code)]
+    );
+    return result.rows.length > 0 ? toCoupon(result.rows[0]) : null;
+  },
+
+  async create(input: CreateCouponInput): Promise<Coupon> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO coupons (
+        id, code, description, discount_type, discount_value, product_ids, categories,
+        min_order_amount, max_uses, max_uses_per_user, starts_at, expires_at,
+        is_stackable, is_active, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+      [
+        id, normalizeCouponCode(input.code), input.description || null, input.discountType, input.discountValue,
+        JSON.stringify(input.productIds || []), JSON.stringify(input.categories || []),
+        input.minOrderAmount ?? null, input.maxUses ?? null, input.maxUsesPerUser ?? null,
+        input.startsAt || null, input.expiresAt || null,
+        input.isStackable ?? false, input.isActive ?? true, input.createdBy || null
+      ]
+    );
+    return (await CouponsRepo.findById(id))!;
+  },
+
+  async update(id: string, changes: UpdateCouponInput): Promise<Coupon | null> {
+    const { assignments, params } = buildUpdate(
+      { ...changes, code: changes.code !== undefined ? normalizeCouponCode(changes.code) : undefined },
+      {
+        code: 'code',
+        description: 'description',
+        discountType: 'discount_type',
+        discountValue: 'discount_value',
+        productIds: 'product_ids',
+        categories: 'categories',
+        minOrderAmount: 'min_order_amount',
+        maxUses: 'max_uses',
+        maxUsesPerUser: 'max_uses_per_user',
+        startsAt: 'starts_at',
+        expiresAt: 'expires_at',
+        isStackable: 'is_stackable',
+        isActive: 'is_active'
+      },
+      JSON_FIELDS
+    );
+
+    if (assignments.length > 0) {
+      params.push(id);
+      await query(
+        `UPDATE coupons
+         SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${params.length}`,
+        params
+      );
+    }
+
+    return CouponsRepo.findById(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    await query('DELETE FROM coupons WHERE id = $1', [id]);
+  },
+
+  // Counts one use unless the global limit is reached; returns false when it is
+  async claimUse(id: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE coupons
+       SET times_used = times_used + 1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND (max_uses IS NULL OR times_used < max_uses)`,
+      [id]
+    );
+    return result.rowCount > 0;
+  },
+
+  async countUserRedemptions(couponId: string, userId: string): Promise<number> {
+    const result = await query(
+      'SELECT COUNT(*) as total FROM coupon_redemptions WHERE coupon_id = $1 AND user_id = $2',
+      [couponId, userId]
+    );
+    return toInteger(result.rows[0].total);
+  },
+
+  async recordRedemption(couponId: string, orderId: string, userId: string, amount: number): Promise<void> {
+    await query(
+      `INSERT INTO coupon_redemptions (id, coupon_id, order_id, user_id, amount)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [randomUUID(), couponId, orderId, userId, amount]
+    );
+  },
+
+  // Gives back the uses taken by an order; returns the coupons released
+  async releaseByOrder(orderId: string): Promise<string[]> {
+    const result = await query(
+      'DELETE FROM coupon_redemptions WHERE order_id = $1 RETURNING coupon_id',
+      [orderId]
+    );
+    const couponIds = result.rows.map(row => row.coupon_id as string);
+
+    for (const couponId of couponIds) {
+      await query(
+        `UPDATE coupons
+         SET times_used = ${dialect.greatest('times_used - 1', '0')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [couponId]
+      );
+    }
+    return couponIds;
+  },
+
+  async getUsage(id: string): Promise<CouponUsage> {
+    const result = await query(
+      `SELECT COUNT(*) as orders, COALESCE(SUM(amount), 0) as total_discount
+       FROM coupon_redemptions
+       WHERE coupon_id = $1`,
+      [id]
+    );
+    return {
+      orders: toInteger(result.rows[0].orders),
+      totalDiscount: toNumber(result.rows[0].total_discount)
+    };
+  }
+};
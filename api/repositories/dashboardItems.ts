@@ -0,0 +1,209 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { DashboardItem } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, buildUpdate,
+  toInteger, toStringArray, toIsoString,
+  BooleanColumn, NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export type DashboardItemSort = 'relevance' | 'newest' | 'oldest' | 'name_asc' | 'name_desc' | 'type';
+
+export interface DashboardItemFilters {
+  type?: string;
+  category?: string;
+  search?: string;
+  favoritesOnly?: boolean;
+  dateFrom?: string;
+  dateTo?: string;
+  sort?: DashboardItemSort;
+}
+
+export interface CreateDashboardItemInput {
+  userId: string;
+  name: string;
+  type: DashboardItem['type'];
+  description?: string | null;
+  category?: string | null;
+  url?: string | null;
+  thumbnail?: string | null;
+  size?: number | null;
+  mimeType?: string | null;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface UpdateDashboardItemInput {
+  name?: string;
+  description?: string;
+  category?: string;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  isStarred?: boolean;
+}
+
+const ITEM_COLUMNS = `id, user_id, title, description, item_type, category, file_url, thumbnail_url,
+  file_size, mime_type, tags, metadata, is_favorite, created_at, updated_at`;
+
+const ORDER_BY: Record<DashboardItemSort, string> = {
+  relevance: 'created_at DESC',
+  newest: 'created_at DESC',
+  oldest: 'created_at ASC',
+  name_asc: 'title ASC',
+  name_desc: 'title DESC',
+  type: 'item_type ASC, created_at DESC'
+};
+
+interface DashboardItemRow {
+  id: string;
+  title: string;
+  item_type: DashboardItem['type'];
+  file_size: NumericColumn;
+  file_url: string | null;
+  thumbnail_url: string | null;
+  tags: unknown;
+  is_favorite: BooleanColumn;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+  user_id: string;
+  description: string | null;
+  category: string | null;
+  mime_type: string | null;
+  metadata: unknown;
+}
+
+const toDashboardItem = (row: DashboardItemRow): DashboardItem => ({
+  id: row.id,
+  name: row.title,
+  type: row.item_type,
+  size: toInteger(row.file_size),
+  url: row.file_url ?? undefined,
+  thumbnail: row.thumbnail_url ?? undefined,
+  tags: toStringArray(row.tags),
+  isStarred: dialect.parseBoolean(row.is_favorite),
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at),
+  userId: row.user_id,
+  description: row.description ?? undefined,
+  category: row.category ?? undefined,
+  mimeType: row.mime_type ?? undefined,
+  metadata: dialect.parseJson<Record<string, unknown>>(row.metadata, {})
+});
+
+export const DashboardItemsRepo = {
+  async list(userId: string, filters: DashboardItemFilters = {}, options: PageOptions = {}): Promise<Page<DashboardItem>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions();
+
+    where.add(p => `user_id = ${p}`, userId);
+    if (filters.search) {
+      where.add(p => `(
+        ${dialect.ilike('title', p)} OR
+        ${dialect.ilike('description', p)} OR
+        ${dialect.ilike(dialect.jsonText('tags'), p)}
+      )`, `%${filters.search}%`);
+    }
+    if (filters.type) {
+      where.add(p => `item_type = ${p}`, filters.type);
+    }
+    if (filters.category) {
+      where.add(p => `category = ${p}`, filters.category);
+    }
+    if (filters.favoritesOnly) {
+      where.raw('is_favorite = true');
+    }
+    if (filters.dateFrom) {
+      where.add(p => `created_at >= ${p}`, filters.dateFrom);
+    }
+    if (filters.dateTo) {
+      where.add(p => `created_at <= ${p}`, filters.dateTo);
+    }
+
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM dashboard_items ${where.where()}`,
+      where.params
+    );
+
+    const result = await query<DashboardItemRow>(
+      `SELECT ${ITEM_COLUMNS}
+       FROM dashboard_items
+       ${where.where()}
+       ORDER BY ${ORDER_BY[filters.sort || 'newest']}
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: result.rows.map(toDashboardItem),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  async findById(id: string, userId: string): Promise<DashboardItem | null> {
+    const result = await query<DashboardItemRow>(
+      `SELECT ${ITEM_COLUMNS} FROM dashboard_items WHERE id = $1 AND user_id = $2`,
+      [id, userId]
+    );
+    return result.rows.length > 0 ? toDashboardItem(result.rows[0]) : null;
+  },
+
+  async create(input: CreateDashboardItemInput): Promise<DashboardItem> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO dashboard_items (
+        id, user_id, title, description, item_type, category, file_url, thumbnail_url,
+        file_size, mime_type, tags, metadata
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        id, input.userId, input.name, input.description || null, input.type, input.category || null,
+        input.url || null, input.thumbnail || null, input.size ?? null, input.mimeType || null,
+        JSON.stringify(input.tags || []), JSON.stringify(input.metadata || {})
+      ]
+    );
+    return (await DashboardItemsRepo.findById(id, input.userId))!;
+  },
+
+  // Returns null when the item does not exist or belongs to someone else
+  async update(id: string, userId: string, changes: UpdateDashboardItemInput): Promise<DashboardItem | null> {
+    const { assignments, params } = buildUpdate(changes as Record<string, unknown>, {
+      name: 'title',
+      description: 'description',
+      category: 'category',
+      tags: 'tags',
+      metadata: 'metadata',
+      isStarred: 'is_favorite'
+    }, ['tags', 'metadata']);
+
+    if (assignments.length > 0) {
+      params.push(id, userId);
+      await query(
+        `UPDATE dashboard_items
+         SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${params.length - 1} AND user_id = $${params.length}`,
+        params
+      );
+    }
+
+    return DashboardItemsRepo.findById(id, userId);
+  },
+
+  async toggleStar(id: string, userId: string): Promise<DashboardItem | null> {
+    const result = await query(
+      `UPDATE dashboard_items
+       SET is_favorite = NOT is_favorite, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2`,
+      [id, userId]
+    );
+    return result.rowCount > 0 ? DashboardItemsRepo.findById(id, userId) : null;
+  },
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM dashboard_items WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    return result.rowCount > 0;
+  }
+};
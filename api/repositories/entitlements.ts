@@ -0,0 +1,148 @@
+import { randomUUID } from 'crypto';
+import { query } from '../config/database.js';
+import { Entitlement } from '../types.js';
+import { toInteger, toStringArray, toIsoString, NumericColumn, TimestampColumn } from './helpers.js';
+
+export interface CreateEntitlementInput {
+  orderId: string;
+  orderItemId: string;
+  userId: string;
+  productId: string;
+  seats: number;
+  downloadLimit?: number | null;
+  licenseKey?: string | null;
+}
+
+const ENTITLEMENT_COLUMNS = `e.id, e.order_id, e.order_item_id, e.user_id, e.product_id, e.seats, e.status,
+  e.download_limit, e.download_count, e.last_downloaded_at, e.license_key, e.revoked_at, e.revoke_reason,
+  e.created_at, p.name as product_name, p.image_url as product_image, p.image_urls as product_images`;
+
+const ENTITLEMENT_FROM = 'entitlements e LEFT JOIN products p ON e.product_id = p.id';
+
+interface EntitlementRow {
+  id: string;
+  order_id: string;
+  order_item_id: string;
+  user_id: string;
+  product_id: string;
+  product_name: string | null;
+  product_images: unknown;
+  product_image: string | null;
+  seats: NumericColumn;
+  status: Entitlement['status'];
+  download_limit: NumericColumn | null;
+  download_count: NumericColumn;
+  last_downloaded_at: TimestampColumn | null;
+  license_key: string | null;
+  revoked_at: TimestampColumn | null;
+  revoke_reason: string | null;
+  created_at: TimestampColumn;
+}
+
+const toEntitlement = (row: EntitlementRow): Entitlement => ({
+  id: row.id,
+  orderId: row.order_id,
+  orderItemId: row.order_item_id,
+  userId: row.user_id,
+  productId: row.product_id,
+  productName: row.product_name ?? '',
+  productImage: toStringArray(row.product_images)[0] ?? row.product_image ?? undefined,
+  seats: toInteger(row.seats),
+  status: row.status,
+  downloadLimit: row.download_limit === null || row.download_limit === undefined ? undefined : toInteger(row.download_limit),
+  downloadCount: toInteger(row.download_count),
+  lastDownloadedAt: row.last_downloaded_at ? toIsoString(row.last_downloaded_at) : undefined,
+  licenseKey: row.license_key ?? undefined,
+  revokedAt: row.revoked_at ? toIsoString(row.revoked_at) : undefined,
+  revokeReason: row.revoke_reason ?? undefined,
+  createdAt: toIsoString(row.created_at)
+});
+
+export const EntitlementsRepo = {
+  // Newest purchases first
+  async listByUser(userId: string): Promise<Entitlement[]> {
+    const result = await query<EntitlementRow>(
+      `SELECT ${ENTITLEMENT_COLUMNS} FROM ${ENTITLEMENT_FROM} WHERE e.user_id = $1 ORDER BY e.created_at DESC`,
+      [userId]
+    );
+    return result.rows.map(toEntitlement);
+  },
+
+  async listByOrder(orderId: string): Promise<Entitlement[]> {
+    const result = await query<EntitlementRow>(
+      `SELECT ${ENTITLEMENT_COLUMNS} FROM ${ENTITLEMENT_FROM} WHERE e.order_id = $1 ORDER BY e.created_at ASC`,
+      [orderId]
+    );
+    return result.rows.map(toEntitlement);
+  },
+
+  async findById(id: string): Promise<Entitlement | null> {
+    const result = await query<EntitlementRow>(
+      `SELECT ${ENTITLEMENT_COLUMNS} FROM ${ENTITLEMENT_FROM} WHERE e.id = $1`,
+      [id]
+    );
+    return result.rows.length > 0 ? toEntitlement(result.rows[0]) : null;
+  },
+
+  async findByOrderItem(orderItemId: string): Promise<Entitlement | null> {
+    const result = await query<EntitlementRow>(
+      `SELECT ${ENTITLEMENT_COLUMNS} FROM ${ENTITLEMENT_FROM} WHERE e.order_item_id = $1`,
+      [orderItemId]
+    );
+    return result.rows.length > 0 ? toEntitlement(result.rows[0]) : null;
+  },
+
+  async findByLicenseKey(licenseKey: string): Promise<Entitlement | null> {
+    const result = await query<EntitlementRow>(
+      `SELECT ${ENTITLEMENT_COLUMNS} FROM ${ENTITLEMENT_FROM} WHERE e.license_key = $1`,
+      [licenseKey]
+    );
+    return result.rows.length > 0 ? toEntitlement(result.rows[0]) : null;
+  },
+
+  async create(input: CreateEntitlementInput): Promise<Entitlement> {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    await query(
+      `INSERT INTO entitlements (
+        id, order_id, order_item_id, user_id, product_id, seats, download_limit, license_key, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $9)`,
+      [
+        id, input.orderId, input.orderItemId, input.userId, input.productId, input.seats,
+        input.downloadLimit ?? null, input.licenseKey || null, now
+      ]
+    );
+    return (await EntitlementsRepo.findById(id))!;
+  },
+
+  // Counts one download unless the entitlement is revoked or out of
+  // downloads; returns false when it is
+  async claimDownload(id: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE entitlements
+       SET download_count = download_count + 1, last_downloaded_at = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'active' AND (download_limit IS NULL OR download_count < download_limit)`,
+      [id, new Date().toISOString()]
+    );
+    return result.rowCount > 0;
+  },
+
+  async setSeats(id: string, seats: number): Promise<void> {
+    await query(
+      'UPDATE entitlements SET seats = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [seats, id]
+    );
+  },
+
+  // Returns how many active entitlements were revoked
+  async revoke(filter: { id: string } | { orderId: string }, reason: string): Promise<number> {
+    const [column, value] = 'id' in filter ? ['id', filter.id] : ['order_id', filter.orderId];
+    const result = await query(
+      `UPDATE entitlements
+       SET status = 'revoked', revoked_at = $1, revoke_reason = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE ${column} = $3 AND status = 'active'`,
+      [new Date().toISOString(), reason, value]
+    );
+    return result.rowCount;
+  }
+};
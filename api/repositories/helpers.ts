@@ -0,0 +1,105 @@
+import { dialect } from '../config/database.js';
+import { Address } from '../types.js';
+
+// Column values as the drivers return them: pg gives Date objects, and
+// NUMERIC columns as strings; SQLite gives timestamps as text and booleans as 0/1
+export type TimestampColumn = string | Date;
+export type NumericColumn = string | number;
+export type BooleanColumn = boolean | number;
+
+export interface PageOptions {
+  page?: number;
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Normalized page/limit plus the matching OFFSET
+export const resolvePage = ({ page = 1, limit = 20 }: PageOptions = {}) => {
+  const safePage = Math.max(1, Number(page) || 1);
+  const safeLimit = Math.max(1, Number(limit) || 20);
+  return { page: safePage, limit: safeLimit, offset: (safePage - 1) * safeLimit };
+};
+
+// Collects WHERE conditions and their parameters so each repository can build
+// filters without tracking `$n` indexes by hand
+export const createConditions = (initial: string[] = []) => {
+  const conditions = [...initial];
+  const params: unknown[] = [];
+
+  const bind = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  return {
+    params,
+    bind,
+    // `build` receives the placeholder for `value`
+    add: (build: (placeholder: string) => string, value: unknown) => {
+      conditions.push(build(bind(value)));
+    },
+    raw: (condition: string) => {
+      conditions.push(condition);
+    },
+    where: () => (conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '')
+  };
+};
+
+// SET clause for the fields present in `changes`. `columns` maps domain field
+// names to columns; fields listed in `jsonFields` are stored as JSON text
+// (arrays would otherwise bind as Postgres arrays).
+export const buildUpdate = (
+  changes: Record<string, unknown>,
+  columns: Record<string, string>,
+  jsonFields: string[] = []
+) => {
+  const assignments: string[] = [];
+  const params: unknown[] = [];
+
+  for (const [field, column] of Object.entries(columns)) {
+    const value = changes[field];
+    if (value === undefined) continue;
+    params.push(jsonFields.includes(field) ? JSON.stringify(value) : value);
+    assignments.push(`${column} = $${params.length}`);
+  }
+
+  return { assignments, params };
+};
+
+export const toNumber = (value: unknown, fallback = 0): number => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export const toInteger = (value: unknown, fallback = 0): number => {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value), 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export const toStringArray = (value: unknown): string[] =>
+  dialect.parseJson<string[]>(value, []);
+
+// Timestamps come back as Date objects from pg and as text from SQLite
+export const toIsoString = (value: unknown): string => {
+  if (value instanceof Date) return value.toISOString();
+  return value ? String(value) : '';
+};
+
+// Addresses are accepted with `postal_code` from the API and `zipCode` from the UI
+export const toAddress = (value: unknown): Address | undefined => {
+  const address = dialect.parseJson<Partial<Record<string, string>> | null>(value, null);
+  if (!address) return undefined;
+  return {
+    street: address.street ?? '',
+    city: address.city ?? '',
+    state: address.state ?? '',
+    zipCode: address.zipCode ?? address.postal_code ?? '',
+    country: address.country ?? ''
+  };
+};
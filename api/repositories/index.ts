@@ -0,0 +1,37 @@
+// Repository layer: each module owns the SQL, row mapping, filtering and
+// pagination for one aggregate and returns the shared domain types.
+export * from './helpers.js';
+export * from './users.js';
+export * from './authSessions.js';
+export * from './accountTokens.js';
+export * from './twoFactor.js';
+export * from './platformSettings.js';
+export * from './loginThrottles.js';
+export * from './securityEvents.js';
+export * from './products.js';
+export * from './productVariants.js';
+export * from './productReviews.js';
+export * from './productQuestions.js';
+export * from './productPricing.js';
+export * from './orders.js';
+export * from './orderHistory.js';
+export * from './stockReservations.js';
+export * from './payments.js';
+export * from './orderReturns.js';
+export * from './coupons.js';
+export * from './taxRules.js';
+export * from './shippingZones.js';
+export * from './carts.js';
+export * from './wishlists.js';
+export * from './recommendations.js';
+export * from './productFiles.js';
+export * from './entitlements.js';
+export * from './sellerOrders.js';
+export * from './sellerLedger.js';
+export * from './sellerPayouts.js';
+export * from './sellerAnalytics.js';
+export * from './invoices.js';
+export * from './posts.js';
+export * from './atticObjects.js';
+export * from './dashboardItems.js';
+export * from './notifications.js';
@@ -0,0 +1,164 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { Invoice, InvoiceLine, InvoiceType } from '../types.js';
+import { toNumber, toInteger, toIsoString, NumericColumn, TimestampColumn } from './helpers.js';
+
+export interface CreateInvoiceInput {
+  number: string;
+  type: InvoiceType;
+  sellerId: string;
+  orderId: string;
+  sellerOrderId?: string | null;
+  creditedInvoiceId?: string | null;
+  reason?: string | null;
+  lines: InvoiceLine[];
+  subtotalAmount: number;
+  discountAmount: number;
+  shippingAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  currency: string;
+}
+
+// What the credit notes of an invoice add up to
+export interface CreditedAmounts {
+  subtotalAmount: number;
+  discountAmount: number;
+  shippingAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+const INVOICE_COLUMNS = `i.id, i.number, i.type, i.seller_id, i.order_id, i.seller_order_id, i.credited_invoice_id,
+  i.reason, i.lines, i.subtotal_amount, i.discount_amount, i.shipping_amount, i.tax_amount, i.total_amount,
+  i.currency, i.issued_at, u.full_name as seller_name, ci.number as credited_invoice_number`;
+
+const INVOICE_FROM = `invoices i
+  LEFT JOIN users u ON i.seller_id = u.id
+  LEFT JOIN invoices ci ON i.credited_invoice_id = ci.id`;
+
+interface InvoiceRow {
+  id: string;
+  number: string;
+  type: Invoice['type'];
+  seller_id: string;
+  seller_name: string | null;
+  order_id: string;
+  seller_order_id: string | null;
+  credited_invoice_id: string | null;
+  credited_invoice_number: string | null;
+  reason: string | null;
+  lines: unknown;
+  subtotal_amount: NumericColumn;
+  discount_amount: NumericColumn;
+  shipping_amount: NumericColumn;
+  tax_amount: NumericColumn;
+  total_amount: NumericColumn;
+  currency: string;
+  issued_at: TimestampColumn;
+}
+
+const toInvoice = (row: InvoiceRow): Invoice => ({
+  id: row.id,
+  number: row.number,
+  type: row.type,
+  sellerId: row.seller_id,
+  sellerName: row.seller_name ?? undefined,
+  orderId: row.order_id,
+  sellerOrderId: row.seller_order_id ?? undefined,
+  creditedInvoiceId: row.credited_invoice_id ?? undefined,
+  creditedInvoiceNumber: row.credited_invoice_number ?? undefined,
+  reason: row.reason ?? undefined,
+  lines: dialect.parseJson<InvoiceLine[]>(row.lines, []),
+  subtotalAmount: toNumber(row.subtotal_amount),
+  discountAmount: toNumber(row.discount_amount),
+  shippingAmount: toNumber(row.shipping_amount),
+  taxAmount: toNumber(row.tax_amount),
+  totalAmount: toNumber(row.total_amount),
+  currency: row.currency,
+  issuedAt: toIsoString(row.issued_at)
+});
+
+export const InvoicesRepo = {
+  async findById(id: string): Promise<Invoice | null> {
+    const result = await query<InvoiceRow>(`SELECT ${INVOICE_COLUMNS} FROM ${INVOICE_FROM} WHERE i.id = $1`, [id]);
+    return result.rows.length > 0 ? toInvoice(result.rows[0]) : null;
+  },
+
+  // Invoices and credit notes of an order, in the order they were issued
+  async listByOrder(orderId: string): Promise<Invoice[]> {
+    const result = await query<InvoiceRow>(
+      `SELECT ${INVOICE_COLUMNS} FROM ${INVOICE_FROM}
+       WHERE i.order_id = $1
+       ORDER BY i.issued_at, i.type DESC, i.number`,
+      [orderId]
+    );
+    return result.rows.map(toInvoice);
+  },
+
+  async findBySellerOrder(sellerOrderId: string): Promise<Invoice | null> {
+    const result = await query<InvoiceRow>(
+      `SELECT ${INVOICE_COLUMNS} FROM ${INVOICE_FROM} WHERE i.seller_order_id = $1 AND i.type = 'invoice'`,
+      [sellerOrderId]
+    );
+    return result.rows.length > 0 ? toInvoice(result.rows[0]) : null;
+  },
+
+  async sumCredited(invoiceId: string): Promise<CreditedAmounts> {
+    const result = await query(
+      `SELECT COALESCE(SUM(subtotal_amount), 0) as subtotal_amount,
+              COALESCE(SUM(discount_amount), 0) as discount_amount,
+              COALESCE(SUM(shipping_amount), 0) as shipping_amount,
+              COALESCE(SUM(tax_amount), 0) as tax_amount,
+              COALESCE(SUM(total_amount), 0) as total_amount
+       FROM invoices
+       WHERE credited_invoice_id = $1`,
+      [invoiceId]
+    );
+    const row = result.rows[0];
+    return {
+      subtotalAmount: toNumber(row.subtotal_amount),
+      discountAmount: toNumber(row.discount_amount),
+      shippingAmount: toNumber(row.shipping_amount),
+      taxAmount: toNumber(row.tax_amount),
+      totalAmount: toNumber(row.total_amount)
+    };
+  },
+
+  // Draws the seller's next number in the series. Must run inside the
+  // transaction that creates the document: the counter row stays locked
+  // until it commits, so a rolled back document gives its number back.
+  async nextNumber(sellerId: string, series: string): Promise<number> {
+    await query(
+      `INSERT INTO invoice_sequences (seller_id, series, last_number) VALUES ($1, $2, 0)
+       ON CONFLICT (seller_id, series) DO NOTHING`,
+      [sellerId, series]
+    );
+    await query(
+      'UPDATE invoice_sequences SET last_number = last_number + 1 WHERE seller_id = $1 AND series = $2',
+      [sellerId, series]
+    );
+    const result = await query(
+      'SELECT last_number FROM invoice_sequences WHERE seller_id = $1 AND series = $2',
+      [sellerId, series]
+    );
+    return toInteger(result.rows[0].last_number);
+  },
+
+  async create(input: CreateInvoiceInput): Promise<Invoice> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO invoices (
+        id, number, type, seller_id, order_id, seller_order_id, credited_invoice_id, reason, lines,
+        subtotal_amount, discount_amount, shipping_amount, tax_amount, total_amount, currency
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+      [
+        id, input.number, input.type, input.sellerId, input.orderId, input.sellerOrderId ?? null,
+        input.creditedInvoiceId ?? null, input.reason ?? null, JSON.stringify(input.lines),
+        input.subtotalAmount, input.discountAmount, input.shippingAmount, input.taxAmount, input.totalAmount,
+        input.currency
+      ]
+    );
+    return (await InvoicesRepo.findById(id))!;
+  }
+};
@@ -0,0 +1,84 @@
+import { dialect, query } from '../config/database.js';
+import { toInteger, toIsoString, BooleanColumn, NumericColumn, TimestampColumn } from './helpers.js';
+
+// Failed sign-ins are tracked per account (its email) and per client IP
+export type LoginThrottleScope = 'account' | 'ip';
+
+export interface LoginThrottle {
+  scope: LoginThrottleScope;
+  subject: string;
+  failures: number;
+  lastFailedAt?: string;
+  // No sign-in is attempted for the subject before this time
+  blockedUntil?: string;
+  // The block is a lockout rather than a backoff delay
+  locked: boolean;
+}
+
+interface LoginThrottleRow {
+  scope: LoginThrottle['scope'];
+  subject: string;
+  failures: NumericColumn;
+  last_failed_at: TimestampColumn | null;
+  blocked_until: TimestampColumn | null;
+  locked: BooleanColumn;
+}
+
+const toLoginThrottle = (row: LoginThrottleRow): LoginThrottle => ({
+  scope: row.scope,
+  subject: row.subject,
+  failures: toInteger(row.failures),
+  lastFailedAt: row.last_failed_at ? toIsoString(row.last_failed_at) : undefined,
+  blockedUntil: row.blocked_until ? toIsoString(row.blocked_until) : undefined,
+  locked: dialect.parseBoolean(row.locked)
+});
+
+export const LoginThrottlesRepo = {
+  async find(scope: LoginThrottleScope, subject: string): Promise<LoginThrottle | null> {
+    const result = await query<LoginThrottleRow>(
+      `SELECT scope, subject, failures, last_failed_at, blocked_until, locked
+       FROM login_throttles WHERE scope = $1 AND subject = $2`,
+      [scope, subject]
+    );
+    return result.rows.length > 0 ? toLoginThrottle(result.rows[0]) : null;
+  },
+
+  // Counts a failure and returns how many the subject has. Failures from
+  // before `windowStart` no longer count.
+  async recordFailure(scope: LoginThrottleScope, subject: string, windowStart: string): Promise<number> {
+    const result = await query(
+      `INSERT INTO login_throttles (scope, subject, failures, last_failed_at, locked)
+       VALUES ($1, $2, 1, $3, false)
+       ON CONFLICT (scope, subject) DO UPDATE
+       SET failures = CASE
+             WHEN login_throttles.last_failed_at IS NULL OR login_throttles.last_failed_at < $4 THEN 1
+             ELSE login_throttles.failures + 1
+           END,
+           last_failed_at = excluded.last_failed_at
+       RETURNING failures`,
+      [scope, subject, new Date().toISOString(), windowStart]
+    );
+    return toInteger(result.rows[0].failures);
+  },
+
+  // Delays the subject's next attempt
+  async blockUntil(scope: LoginThrottleScope, subject: string, until: string): Promise<void> {
+    await query(
+      'UPDATE login_throttles SET blocked_until = $1, locked = false WHERE scope = $2 AND subject = $3',
+      [until, scope, subject]
+    );
+  },
+
+  // Locks the subject out; its failures start over once the lock ends
+  async lockUntil(scope: LoginThrottleScope, subject: string, until: string): Promise<void> {
+    await query(
+      'UPDATE login_throttles SET blocked_until = $1, locked = true, failures = 0 WHERE scope = $2 AND subject = $3',
+      [until, scope, subject]
+    );
+  },
+
+  // Forgets the subject's failures and lifts any block
+  async clear(scope: LoginThrottleScope, subject: string): Promise<void> {
+    await query('DELETE FROM login_throttles WHERE scope = $1 AND subject = $2', [scope, subject]);
+  }
+};
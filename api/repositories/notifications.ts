@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { Notification } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, toInteger, toIsoString, BooleanColumn,
+  TimestampColumn
+} from './helpers.js';
+
+export type CreateNotificationInput = Omit<Notification, 'id' | 'isRead' | 'createdAt'>;
+
+const NOTIFICATION_COLUMNS = `n.id, n.user_id, n.type, n.title, n.message, n.is_read, n.action_url, n.action_text,
+  n.created_at, n.expires_at`;
+
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  type: Notification['type'];
+  title: string;
+  message: string;
+  is_read: BooleanColumn;
+  action_url: string | null;
+  action_text: string | null;
+  created_at: TimestampColumn;
+  expires_at: TimestampColumn | null;
+}
+
+const toNotification = (row: NotificationRow): Notification => ({
+  id: row.id,
+  userId: row.user_id,
+  type: row.type,
+  title: row.title,
+  message: row.message,
+  isRead: dialect.parseBoolean(row.is_read),
+  actionUrl: row.action_url ?? undefined,
+  actionText: row.action_text ?? undefined,
+  createdAt: toIsoString(row.created_at),
+  expiresAt: row.expires_at ? toIsoString(row.expires_at) : undefined
+});
+
+export const NotificationsRepo = {
+  // Newest first; expired notifications are kept but no longer listed
+  async listByUser(userId: string, { unreadOnly = false } = {}, options: PageOptions = {}): Promise<Page<Notification>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions();
+    where.add(p => `n.user_id = ${p}`, userId);
+    where.add(p => `(n.expires_at IS NULL OR n.expires_at > ${p})`, new Date().toISOString());
+    if (unreadOnly) {
+      where.raw('n.is_read = false');
+    }
+
+    const countResult = await query(`SELECT COUNT(*) as total FROM notifications n ${where.where()}`, where.params);
+    const result = await query<NotificationRow>(
+      `SELECT ${NOTIFICATION_COLUMNS} FROM notifications n
+       ${where.where()}
+       ORDER BY n.created_at DESC
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: result.rows.map(toNotification),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  async countUnread(userId: string): Promise<number> {
+    const result = await query(
+      `SELECT COUNT(*) as total FROM notifications n
+       WHERE n.user_id = $1 AND n.is_read = false AND (n.expires_at IS NULL OR n.expires_at > $2)`,
+      [userId, new Date().toISOString()]
+    );
+    return toInteger(result.rows[0].total);
+  },
+
+  async findById(id: string): Promise<Notification | null> {
+    const result = await query<NotificationRow>(
+      `SELECT ${NOTIFICATION_COLUMNS} FROM notifications n WHERE n.id = $1`,
+      [id]
+    );
+    return result.rows.length > 0 ? toNotification(result.rows[0]) : null;
+  },
+
+  async create(input: CreateNotificationInput): Promise<Notification> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO notifications (id, user_id, type, title, message, action_url, action_text, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        id, input.userId, input.type, input.title, input.message, input.actionUrl || null, input.actionText || null,
+        new Date().toISOString(), input.expiresAt || null
+      ]
+    );
+    return (await NotificationsRepo.findById(id))!;
+  },
+
+  // Returns false when the notification is not the user's
+  async markRead(id: string, userId: string): Promise<boolean> {
+    const result = await query(
+      'UPDATE notifications SET is_read = true WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    return result.rowCount > 0;
+  },
+
+  async markAllRead(userId: string): Promise<number> {
+    const result = await query(
+      'UPDATE notifications SET is_read = true WHERE user_id = $1 AND is_read = false',
+      [userId]
+    );
+    return result.rowCount;
+  }
+};
@@ -0,0 +1,71 @@
+import { randomUUID } from 'crypto';
+import { query } from '../config/database.js';
+import { OrderStatusChange } from '../types.js';
+import { toIsoString, TimestampColumn } from './helpers.js';
+
+export interface RecordStatusChangeInput {
+  orderId: string;
+  field: OrderStatusChange['field'];
+  fromStatus?: string | null;
+  toStatus: string;
+  actorId?: string | null;
+  note?: string | null;
+}
+
+// API field names to stored column values
+const FIELD_COLUMN: Record<OrderStatusChange['field'], string> = {
+  status: 'status',
+  paymentStatus: 'payment_status'
+};
+
+interface StatusChangeRow {
+  id: string;
+  order_id: string;
+  field: string;
+  from_status: string | null;
+  to_status: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  note: string | null;
+  created_at: TimestampColumn;
+}
+
+const toStatusChange = (row: StatusChangeRow): OrderStatusChange => ({
+  id: row.id,
+  orderId: row.order_id,
+  field: row.field === 'payment_status' ? 'paymentStatus' : 'status',
+  fromStatus: row.from_status ?? undefined,
+  toStatus: row.to_status,
+  actorId: row.actor_id ?? undefined,
+  actorName: row.actor_name ?? undefined,
+  note: row.note ?? undefined,
+  createdAt: toIsoString(row.created_at)
+});
+
+export const OrderHistoryRepo = {
+  // Millisecond timestamps keep several changes made in one request in order
+  async record(input: RecordStatusChangeInput): Promise<void> {
+    await query(
+      `INSERT INTO order_status_history (id, order_id, field, from_status, to_status, actor_id, note, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        randomUUID(), input.orderId, FIELD_COLUMN[input.field], input.fromStatus || null,
+        input.toStatus, input.actorId || null, input.note || null, new Date().toISOString()
+      ]
+    );
+  },
+
+  // Oldest first, for rendering as a timeline
+  async listByOrder(orderId: string): Promise<OrderStatusChange[]> {
+    const result = await query<StatusChangeRow>(
+      `SELECT h.id, h.order_id, h.field, h.from_status, h.to_status, h.actor_id, h.note, h.created_at,
+              u.full_name as actor_name
+       FROM order_status_history h
+       LEFT JOIN users u ON h.actor_id = u.id
+       WHERE h.order_id = $1
+       ORDER BY h.created_at ASC`,
+      [orderId]
+    );
+    return result.rows.map(toStatusChange);
+  }
+};
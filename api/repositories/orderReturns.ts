@@ -0,0 +1,192 @@
+import { randomUUID } from 'crypto';
+import { query } from '../config/database.js';
+import { OrderReturn, ReturnStatus } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, toNumber, toInteger, toIsoString,
+  NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export interface ReturnFilters {
+  orderId?: string;
+  userId?: string;
+  sellerId?: string;
+  status?: ReturnStatus;
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+export interface CreateReturnInput {
+  orderId: string;
+  orderItemId: string;
+  userId: string;
+  quantity: number;
+  reason: string;
+}
+
+export interface ReturnResolution {
+  status: Exclude<ReturnStatus, 'requested'>;
+  resolvedBy: string;
+  refundAmount?: number | null;
+  paymentId?: string | null;
+  note?: string | null;
+}
+
+const RETURN_COLUMNS = `r.id, r.order_id, r.order_item_id, r.user_id, r.quantity, r.reason, r.status,
+  r.refund_amount, r.payment_id, r.resolution_note, r.resolved_by, r.resolved_at,
+  r.created_at, r.updated_at,
+  oi.product_id, p.name as product_name,
+  COALESCE(oi.seller_id, p.seller_id) as seller_id,
+  u.full_name as customer_name`;
+
+const RETURN_JOINS = `FROM order_returns r
+  JOIN order_items oi ON r.order_item_id = oi.id
+  JOIN products p ON oi.product_id = p.id
+  JOIN users u ON r.user_id = u.id`;
+
+interface OrderReturnRow {
+  id: string;
+  order_id: string;
+  order_item_id: string;
+  user_id: string;
+  product_id: string | null;
+  product_name: string | null;
+  seller_id: string | null;
+  customer_name: string | null;
+  quantity: NumericColumn;
+  reason: string;
+  status: OrderReturn['status'];
+  refund_amount: NumericColumn | null;
+  payment_id: string | null;
+  resolution_note: string | null;
+  resolved_by: string | null;
+  resolved_at: TimestampColumn | null;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+}
+
+const toOrderReturn = (row: OrderReturnRow): OrderReturn => ({
+  id: row.id,
+  orderId: row.order_id,
+  orderItemId: row.order_item_id,
+  userId: row.user_id,
+  productId: row.product_id ?? undefined,
+  productName: row.product_name ?? undefined,
+  sellerId: row.seller_id ?? undefined,
+  customerName: row.customer_name ?? undefined,
+  quantity: toInteger(row.quantity),
+  reason: row.reason,
+  status: row.status,
+  refundAmount: row.refund_amount !== null && row.refund_amount !== undefined ? toNumber(row.refund_amount) : undefined,
+  paymentId: row.payment_id ?? undefined,
+  resolutionNote: row.resolution_note ?? undefined,
+  resolvedBy: row.resolved_by ?? undefined,
+  resolvedAt: row.resolved_at ? toIsoString(row.resolved_at) : undefined,
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at)
+});
+
+export const OrderReturnsRepo = {
+  async list(filters: ReturnFilters = {}, options: PageOptions = {}): Promise<Page<OrderReturn>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions();
+
+    if (filters.orderId) {
+      where.add(p => `r.order_id = ${p}`, filters.orderId);
+    }
+    if (filters.userId) {
+      where.add(p => `r.user_id = ${p}`, filters.userId);
+    }
+    if (filters.sellerId) {
+      where.add(p => `COALESCE(oi.seller_id, p.seller_id) = ${p}`, filters.sellerId);
+    }
+    if (filters.status) {
+      where.add(p => `r.status = ${p}`, filters.status);
+    }
+    if (filters.createdFrom) {
+      where.add(p => `r.created_at >= ${p}`, filters.createdFrom);
+    }
+    if (filters.createdTo) {
+      where.add(p => `r.created_at <= ${p}`, filters.createdTo);
+    }
+
+    const countResult = await query(
+      `SELECT COUNT(*) as total ${RETURN_JOINS} ${where.where()}`,
+      where.params
+    );
+
+    const result = await query<OrderReturnRow>(
+      `SELECT ${RETURN_COLUMNS}
+       ${RETURN_JOINS}
+       ${where.where()}
+       ORDER BY r.created_at DESC
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: result.rows.map(toOrderReturn),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  async findById(id: string): Promise<OrderReturn | null> {
+    const result = await query<OrderReturnRow>(`SELECT ${RETURN_COLUMNS} ${RETURN_JOINS} WHERE r.id = $1`, [id]);
+    return result.rows.length > 0 ? toOrderReturn(result.rows[0]) : null;
+  },
+
+  // Oldest first
+  async listByOrder(orderId: string): Promise<OrderReturn[]> {
+    const result = await query<OrderReturnRow>(
+      `SELECT ${RETURN_COLUMNS} ${RETURN_JOINS} WHERE r.order_id = $1 ORDER BY r.created_at`,
+      [orderId]
+    );
+    return result.rows.map(toOrderReturn);
+  },
+
+  // Units of the line already claimed by open or approved returns
+  async countClaimedQuantity(orderItemId: string): Promise<number> {
+    const result = await query(
+      `SELECT COALESCE(SUM(quantity), 0) as claimed
+       FROM order_returns
+       WHERE order_item_id = $1 AND status != 'rejected'`,
+      [orderItemId]
+    );
+    return toInteger(result.rows[0].claimed);
+  },
+
+  async create(input: CreateReturnInput): Promise<OrderReturn> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO order_returns (id, order_id, order_item_id, user_id, quantity, reason)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [id, input.orderId, input.orderItemId, input.userId, input.quantity, input.reason]
+    );
+    return (await OrderReturnsRepo.findById(id))!;
+  },
+
+  // Compare-and-set from `requested`; returns false when the request was
+  // already resolved by someone else
+  async resolve(id: string, resolution: ReturnResolution): Promise<boolean> {
+    const result = await query(
+      `UPDATE order_returns
+       SET status = $1, refund_amount = $2, payment_id = $3, resolution_note = $4,
+           resolved_by = $5, resolved_at = $6, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $7 AND status = 'requested'`,
+      [
+        resolution.status, resolution.refundAmount ?? null, resolution.paymentId || null,
+        resolution.note || null, resolution.resolvedBy, new Date().toISOString(), id
+      ]
+    );
+    return result.rowCount > 0;
+  },
+
+  // The gateway payment is only known once the refund has gone through
+  async setPayment(id: string, paymentId: string): Promise<void> {
+    await query(
+      'UPDATE order_returns SET payment_id = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [paymentId, id]
+    );
+  }
+};
@@ -0,0 +1,352 @@
+import { randomUUID } from 'crypto';
+import { query, dialect, transaction } from '../config/database.js';
+import { Order, OrderItem, OrderDiscount, OrderTax } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, toNumber, toInteger, toStringArray, toIsoString, toAddress,
+  BooleanColumn, NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export interface OrderFilters {
+  userId?: string;
+  status?: string;
+  paymentStatus?: string;
+}
+
+export interface CreateOrderItemInput {
+  productId: string;
+  variantId?: string;
+  sku?: string;
+  variantOptions?: Record<string, string>;
+  sellerId?: string;
+  quantity: number;
+  unitPrice: number;
+  // This line's share of the order's discounts
+  discountAmount?: number;
+  taxRate?: number;
+  taxAmount?: number;
+}
+
+// Stored as sent; its country and state also decide shipping and tax
+export interface OrderAddressInput {
+  country: string;
+  state?: string;
+  [field: string]: unknown;
+}
+
+export interface CreateOrderInput {
+  userId: string;
+  items: CreateOrderItemInput[];
+  paymentMethod: string;
+  shippingAddress: OrderAddressInput;
+  billingAddress?: Record<string, unknown> | null;
+  notes?: string | null;
+  discounts?: OrderDiscount[];
+  shippingAmount?: number;
+  shippingZone?: string;
+  taxes?: OrderTax[];
+}
+
+const ORDER_COLUMNS = `o.id, o.user_id, o.total_amount, o.subtotal_amount, o.discount_amount, o.discounts,
+  o.shipping_amount, o.shipping_zone, o.tax_amount, o.taxes, o.status, o.payment_method,
+  o.payment_status, o.payment_intent_id, o.refunded_amount, o.shipping_address, o.billing_address, o.notes,
+  o.tracking_number, o.estimated_delivery, o.created_at, o.updated_at,
+  u.username, u.full_name, u.email,
+  (SELECT COUNT(*) FROM order_items oi WHERE oi.order_id = o.id) as item_count,
+  (SELECT MIN(sr.expires_at) FROM stock_reservations sr
+   WHERE sr.order_id = o.id AND sr.status = 'active') as reservation_expires_at`;
+
+interface OrderItemRow {
+  variant_image_urls: unknown;
+  image_urls: unknown;
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  sku: string | null;
+  variant_options: unknown;
+  product_name: string | null;
+  image_url: string | null;
+  quantity: NumericColumn;
+  unit_price: NumericColumn;
+  total_price: NumericColumn;
+  discount_amount: NumericColumn;
+  tax_rate: NumericColumn;
+  tax_amount: NumericColumn;
+  category: string | null;
+  is_digital: BooleanColumn;
+  seller_id: string | null;
+  seller_name: string | null;
+  returned_quantity: NumericColumn;
+  seller_order_id: string | null;
+}
+
+const toOrderItem = (row: OrderItemRow): OrderItem => {
+  // A variant's own images take precedence over the product's
+  const images = [...toStringArray(row.variant_image_urls), ...toStringArray(row.image_urls)];
+  return {
+    id: row.id,
+    productId: row.product_id,
+    variantId: row.variant_id ?? undefined,
+    sku: row.sku ?? undefined,
+    variantOptions: row.variant_id ? dialect.parseJson<Record<string, string>>(row.variant_options, {}) : undefined,
+    productName: row.product_name ?? '',
+    productImage: images[0] ?? row.image_url ?? '',
+    quantity: toInteger(row.quantity),
+    price: toNumber(row.unit_price),
+    totalPrice: toNumber(row.total_price),
+    discountAmount: toNumber(row.discount_amount),
+    taxRate: toNumber(row.tax_rate),
+    taxAmount: toNumber(row.tax_amount),
+    category: row.category ?? undefined,
+    isDigital: dialect.parseBoolean(row.is_digital),
+    sellerId: row.seller_id ?? undefined,
+    sellerName: row.seller_name ?? undefined,
+    returnedQuantity: toInteger(row.returned_quantity),
+    sellerOrderId: row.seller_order_id ?? undefined
+  };
+};
+
+interface OrderRow {
+  id: string;
+  user_id: string;
+  total_amount: NumericColumn;
+  subtotal_amount: NumericColumn;
+  discount_amount: NumericColumn;
+  discounts: unknown;
+  shipping_amount: NumericColumn;
+  shipping_zone: string | null;
+  tax_amount: NumericColumn;
+  taxes: unknown;
+  status: Order['status'];
+  shipping_address: unknown;
+  billing_address: unknown;
+  payment_method: string | null;
+  payment_status: Order['paymentStatus'];
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+  tracking_number: string | null;
+  estimated_delivery: string | null;
+  payment_intent_id: string | null;
+  refunded_amount: NumericColumn;
+  notes: string | null;
+  item_count: NumericColumn;
+  reservation_expires_at: TimestampColumn | null;
+  username: string;
+  full_name: string;
+  email: string;
+}
+
+const toOrder = (row: OrderRow, items: OrderItem[] = []): Order => ({
+  id: row.id,
+  userId: row.user_id,
+  items,
+  totalAmount: toNumber(row.total_amount),
+  subtotalAmount: toNumber(row.subtotal_amount, toNumber(row.total_amount)),
+  discountAmount: toNumber(row.discount_amount),
+  discounts: dialect.parseJson<OrderDiscount[]>(row.discounts, []),
+  shippingAmount: toNumber(row.shipping_amount),
+  shippingZone: row.shipping_zone ?? undefined,
+  taxAmount: toNumber(row.tax_amount),
+  taxes: dialect.parseJson<OrderTax[]>(row.taxes, []),
+  status: row.status,
+  shippingAddress: toAddress(row.shipping_address)!,
+  billingAddress: toAddress(row.billing_address),
+  paymentMethod: row.payment_method ?? '',
+  paymentStatus: row.payment_status,
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at),
+  trackingNumber: row.tracking_number ?? undefined,
+  estimatedDelivery: row.estimated_delivery ?? undefined,
+  paymentIntentId: row.payment_intent_id ?? undefined,
+  refundedAmount: toNumber(row.refunded_amount),
+  notes: row.notes ?? undefined,
+  itemCount: toInteger(row.item_count),
+  reservationExpiresAt: row.reservation_expires_at ? toIsoString(row.reservation_expires_at) : undefined,
+  customer: row.username !== undefined
+    ? { username: row.username, full_name: row.full_name, email: row.email }
+    : undefined
+});
+
+const findItems = async (orderId: string): Promise<OrderItem[]> => {
+  const result = await query<OrderItemRow>(
+    `SELECT oi.id, oi.product_id, oi.quantity, oi.unit_price, oi.total_price, oi.discount_amount, oi.returned_quantity,
+            oi.tax_rate, oi.tax_amount,
+            oi.seller_order_id, COALESCE(oi.seller_id, p.seller_id) as seller_id,
+            oi.variant_id, oi.sku, oi.variant_options, v.image_urls as variant_image_urls,
+            p.name as product_name, p.image_url, p.image_urls, p.category, p.is_digital,
+            u.full_name as seller_name
+     FROM order_items oi
+     JOIN products p ON oi.product_id = p.id
+     LEFT JOIN product_variants v ON oi.variant_id = v.id
+     LEFT JOIN users u ON COALESCE(oi.seller_id, p.seller_id) = u.id
+     WHERE oi.order_id = $1
+     ORDER BY oi.created_at`,
+    [orderId]
+  );
+  return result.rows.map(toOrderItem);
+};
+
+export const OrdersRepo = {
+  async list(filters: OrderFilters = {}, options: PageOptions = {}): Promise<Page<Order>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions();
+
+    if (filters.userId) {
+      where.add(p => `o.user_id = ${p}`, filters.userId);
+    }
+    if (filters.status) {
+      where.add(p => `o.status = ${p}`, filters.status);
+    }
+    if (filters.paymentStatus) {
+      where.add(p => `o.payment_status = ${p}`, filters.paymentStatus);
+    }
+
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM orders o ${where.where()}`,
+      where.params
+    );
+
+    const result = await query<OrderRow>(
+      `SELECT ${ORDER_COLUMNS}
+       FROM orders o
+       JOIN users u ON o.user_id = u.id
+       ${where.where()}
+       ORDER BY o.created_at DESC
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: result.rows.map(row => toOrder(row)),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  // Full order with its line items
+  async findById(id: string): Promise<Order | null> {
+    const result = await query<OrderRow>(
+      `SELECT ${ORDER_COLUMNS}
+       FROM orders o
+       JOIN users u ON o.user_id = u.id
+       WHERE o.id = $1`,
+      [id]
+    );
+    if (result.rows.length === 0) return null;
+
+    return toOrder(result.rows[0], await findItems(id));
+  },
+
+  // Writes the order and its items atomically; the totals are derived from
+  // the items plus the shipping
+  async create(input: CreateOrderInput): Promise<Order> {
+    const orderId = randomUUID();
+    const subtotalAmount = input.items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+    const discountAmount = input.items.reduce((sum, item) => sum + (item.discountAmount || 0), 0);
+    const taxAmount = Math.round(input.items.reduce((sum, item) => sum + (item.taxAmount || 0), 0) * 100) / 100;
+    const shippingAmount = input.shippingAmount || 0;
+    const totalAmount = Math.round((subtotalAmount - discountAmount + shippingAmount + taxAmount) * 100) / 100;
+
+    await transaction(async () => {
+      await query(
+        `INSERT INTO orders (
+          id, user_id, total_amount, subtotal_amount, discount_amount, discounts, status,
+          payment_method, payment_status, shipping_address, billing_address, notes,
+          shipping_amount, shipping_zone, tax_amount, taxes
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
+        [
+          orderId, input.userId, totalAmount, subtotalAmount, discountAmount,
+          JSON.stringify(input.discounts || []), 'pending', input.paymentMethod, 'pending',
+          JSON.stringify(input.shippingAddress),
+          input.billingAddress ? JSON.stringify(input.billingAddress) : null,
+          input.notes || null,
+          shippingAmount, input.shippingZone || null, taxAmount, JSON.stringify(input.taxes || [])
+        ]
+      );
+
+      for (const item of input.items) {
+        await query(
+          `INSERT INTO order_items (
+            id, order_id, product_id, variant_id, sku, variant_options, seller_id,
+            quantity, unit_price, total_price, discount_amount, tax_rate, tax_amount
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+          [
+            randomUUID(), orderId, item.productId, item.variantId || null, item.sku || null,
+            JSON.stringify(item.variantOptions || {}), item.sellerId || null,
+            item.quantity, item.unitPrice, item.unitPrice * item.quantity, item.discountAmount || 0,
+            item.taxRate || 0, item.taxAmount || 0
+          ]
+        );
+      }
+    });
+
+    return (await OrdersRepo.findById(orderId))!;
+  },
+
+  // Compare-and-set on the current status so concurrent transitions cannot
+  // both win; returns false when the order was no longer in `from`
+  async transitionStatus(
+    id: string,
+    from: Order['status'],
+    to: Order['status'],
+    { trackingNumber }: { trackingNumber?: string | null } = {}
+  ): Promise<boolean> {
+    const result = await query(
+      `UPDATE orders
+       SET status = $1, tracking_number = COALESCE($2, tracking_number), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3 AND status = $4`,
+      [to, trackingNumber || null, id, from]
+    );
+    return result.rowCount > 0;
+  },
+
+  async transitionPaymentStatus(
+    id: string,
+    from: Order['paymentStatus'],
+    to: Order['paymentStatus'],
+    paymentIntentId?: string | null
+  ): Promise<boolean> {
+    const result = await query(
+      `UPDATE orders
+       SET payment_status = $1,
+           payment_intent_id = COALESCE($2, payment_intent_id),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3 AND payment_status = $4`,
+      [to, paymentIntentId || null, id, from]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Adds to the order's refunded total, never beyond what was charged
+  async addRefund(id: string, amount: number): Promise<void> {
+    await query(
+      `UPDATE orders
+       SET refunded_amount = CASE
+             WHEN refunded_amount + $1 > total_amount THEN total_amount
+             ELSE refunded_amount + $1
+           END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2`,
+      [amount, id]
+    );
+  },
+
+  async addReturnedQuantity(itemId: string, quantity: number): Promise<void> {
+    await query(
+      'UPDATE order_items SET returned_quantity = returned_quantity + $1 WHERE id = $2',
+      [quantity, itemId]
+    );
+  },
+
+  // Whether the user has a paid order containing the product
+  async hasPaidItem(userId: string, productId: string): Promise<boolean> {
+    const result = await query(
+      `SELECT 1 FROM order_items oi
+       JOIN orders o ON oi.order_id = o.id
+       WHERE o.user_id = $1 AND oi.product_id = $2 AND o.payment_status = 'paid'
+       LIMIT 1`,
+      [userId, productId]
+    );
+    return result.rows.length > 0;
+  }
+};
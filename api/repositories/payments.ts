@@ -0,0 +1,97 @@
+import { randomUUID } from 'crypto';
+import { query } from '../config/database.js';
+import { Payment, PaymentStatus } from '../types.js';
+import { toNumber, toIsoString, NumericColumn, TimestampColumn } from './helpers.js';
+
+export interface CreatePaymentInput {
+  orderId: string;
+  provider: string;
+  providerIntentId: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+}
+
+export interface PaymentStatusChange {
+  status: PaymentStatus;
+  failureReason?: string | null;
+  refundedAmount?: number;
+}
+
+const PAYMENT_COLUMNS = `id, order_id, provider, provider_intent_id, amount, currency, status,
+  refunded_amount, failure_reason, created_at, updated_at`;
+
+interface PaymentRow {
+  id: string;
+  order_id: string;
+  provider: string;
+  provider_intent_id: string;
+  amount: NumericColumn;
+  currency: string;
+  status: Payment['status'];
+  refunded_amount: NumericColumn;
+  failure_reason: string | null;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+}
+
+const toPayment = (row: PaymentRow): Payment => ({
+  id: row.id,
+  orderId: row.order_id,
+  provider: row.provider,
+  providerIntentId: row.provider_intent_id,
+  amount: toNumber(row.amount),
+  currency: row.currency,
+  status: row.status,
+  refundedAmount: toNumber(row.refunded_amount),
+  failureReason: row.failure_reason ?? undefined,
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at)
+});
+
+export const PaymentsRepo = {
+  async findById(id: string): Promise<Payment | null> {
+    const result = await query<PaymentRow>(`SELECT ${PAYMENT_COLUMNS} FROM payments WHERE id = $1`, [id]);
+    return result.rows.length > 0 ? toPayment(result.rows[0]) : null;
+  },
+
+  async findByProviderIntent(provider: string, providerIntentId: string): Promise<Payment | null> {
+    const result = await query<PaymentRow>(
+      `SELECT ${PAYMENT_COLUMNS} FROM payments WHERE provider = $1 AND provider_intent_id = $2`,
+      [provider, providerIntentId]
+    );
+    return result.rows.length > 0 ? toPayment(result.rows[0]) : null;
+  },
+
+  // Newest first
+  async listByOrder(orderId: string): Promise<Payment[]> {
+    const result = await query<PaymentRow>(
+      `SELECT ${PAYMENT_COLUMNS} FROM payments WHERE order_id = $1 ORDER BY created_at DESC`,
+      [orderId]
+    );
+    return result.rows.map(toPayment);
+  },
+
+  async create(input: CreatePaymentInput): Promise<Payment> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO payments (id, order_id, provider, provider_intent_id, amount, currency, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [id, input.orderId, input.provider, input.providerIntentId, input.amount, input.currency, input.status]
+    );
+    return (await PaymentsRepo.findById(id))!;
+  },
+
+  async updateStatus(id: string, change: PaymentStatusChange): Promise<Payment | null> {
+    await query(
+      `UPDATE payments
+       SET status = $1,
+           failure_reason = $2,
+           refunded_amount = COALESCE($3, refunded_amount),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4`,
+      [change.status, change.failureReason || null, change.refundedAmount ?? null, id]
+    );
+    return PaymentsRepo.findById(id);
+  }
+};
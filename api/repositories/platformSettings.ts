@@ -0,0 +1,19 @@
+import { query } from '../config/database.js';
+
+// Platform-wide switches that admins change at runtime, stored as JSON by key
+export const PlatformSettingsRepo = {
+  async get<T>(key: string, fallback: T): Promise<T> {
+    const result = await query<{ value: string }>('SELECT value FROM platform_settings WHERE key = $1', [key]);
+    return result.rows.length > 0 ? JSON.parse(result.rows[0].value) as T : fallback;
+  },
+
+  async set(key: string, value: unknown, updatedBy: string): Promise<void> {
+    await query(
+      `INSERT INTO platform_settings (key, value, updated_at, updated_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (key) DO UPDATE
+       SET value = excluded.value, updated_at = excluded.updated_at, updated_by = excluded.updated_by`,
+      [key, JSON.stringify(value), new Date().toISOString(), updatedBy]
+    );
+  }
+};
@@ -0,0 +1,225 @@
+import { randomUUID } from 'crypto';
+import { query, dialect, transaction } from '../config/database.js';
+import { Post } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, toInteger, toStringArray, toIsoString,
+  BooleanColumn, NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export type FeedType = 'all' | 'following' | 'trending';
+
+export interface PostFilters {
+  feed?: FeedType;
+  authorId?: string;
+  // Defaults to active posts only; `null` lists every post (admin)
+  isActive?: boolean | null;
+  // Used by the following feed and to resolve `isLiked`
+  viewerId?: string;
+}
+
+export interface CreatePostInput {
+  authorId: string;
+  content: string;
+  images?: string[];
+  videoUrl?: string | null;
+}
+
+const POST_COLUMNS = `p.id, p.author_id, p.content, p.image_url, p.image_urls, p.video_url,
+  p.likes_count, p.comments_count, p.shares_count, p.is_active, p.created_at, p.updated_at,
+  u.username, u.full_name, u.avatar_url, u.is_verified`;
+
+interface PostRow {
+  image_urls: unknown;
+  id: string;
+  author_id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  username: string | null;
+  is_verified: BooleanColumn;
+  content: string;
+  image_url: string | null;
+  video_url: string | null;
+  likes_count: NumericColumn;
+  comments_count: NumericColumn;
+  shares_count: NumericColumn;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+  is_active: BooleanColumn;
+}
+
+const toPost = (row: PostRow): Post => {
+  const images = toStringArray(row.image_urls);
+  return {
+    id: row.id,
+    authorId: row.author_id,
+    authorName: row.full_name ?? '',
+    authorAvatar: row.avatar_url ?? undefined,
+    authorUsername: row.username ?? undefined,
+    authorVerified: dialect.parseBoolean(row.is_verified),
+    content: row.content,
+    images: images.length > 0 || !row.image_url ? images : [row.image_url],
+    videoUrl: row.video_url ?? undefined,
+    likes: toInteger(row.likes_count),
+    comments: [],
+    commentsCount: toInteger(row.comments_count),
+    shares: toInteger(row.shares_count),
+    isLiked: false,
+    isBookmarked: false,
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at),
+    tags: [],
+    visibility: 'public',
+    isActive: dialect.parseBoolean(row.is_active)
+  };
+};
+
+// Sets `isLiked` for the signed-in viewer
+const markLiked = async (posts: Post[], viewerId?: string): Promise<Post[]> => {
+  if (!viewerId || posts.length === 0) return posts;
+
+  const result = await query(
+    `SELECT post_id FROM likes WHERE user_id = $1 AND ${dialect.inArray('post_id', '$2')}`,
+    [viewerId, posts.map(post => post.id)]
+  );
+  const likedPostIds = new Set(result.rows.map(row => row.post_id));
+
+  return posts.map(post => ({ ...post, isLiked: likedPostIds.has(post.id) }));
+};
+
+export const PostsRepo = {
+  async list(filters: PostFilters = {}, options: PageOptions = {}): Promise<Page<Post>> {
+    const { page, limit, offset } = resolvePage(options);
+    const { feed = 'all', viewerId } = filters;
+    const where = createConditions();
+
+    if (filters.isActive === undefined) {
+      where.raw('p.is_active = true');
+      where.raw('u.is_active = true');
+    } else if (filters.isActive !== null) {
+      where.add(p => `p.is_active = ${p}`, filters.isActive);
+    }
+
+    if (filters.authorId) {
+      where.add(p => `p.author_id = ${p}`, filters.authorId);
+    }
+
+    if (feed === 'following' && viewerId) {
+      where.add(p => `(p.author_id = ${p} OR p.author_id IN (
+        SELECT following_id FROM follows WHERE follower_id = ${p}
+      ))`, viewerId);
+    } else if (feed === 'trending') {
+      // Trending posts: high engagement in last 24 hours
+      where.raw(`p.created_at >= ${dialect.since(24, 'hours')}`);
+      where.raw('(p.likes_count + p.comments_count) > 0');
+    }
+
+    const countResult = await query(
+      `SELECT COUNT(*) as total
+       FROM posts p
+       JOIN users u ON p.author_id = u.id
+       ${where.where()}`,
+      where.params
+    );
+
+    const orderBy = feed === 'trending'
+      ? '(p.likes_count + p.comments_count) DESC, p.created_at DESC'
+      : 'p.created_at DESC';
+
+    const result = await query<PostRow>(
+      `SELECT ${POST_COLUMNS}
+       FROM posts p
+       JOIN users u ON p.author_id = u.id
+       ${where.where()}
+       ORDER BY ${orderBy}
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: await markLiked(result.rows.map(toPost), viewerId),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  // Active post by an active author
+  async findById(id: string, viewerId?: string): Promise<Post | null> {
+    const result = await query<PostRow>(
+      `SELECT ${POST_COLUMNS}
+       FROM posts p
+       JOIN users u ON p.author_id = u.id
+       WHERE p.id = $1 AND p.is_active = true AND u.is_active = true`,
+      [id]
+    );
+    if (result.rows.length === 0) return null;
+
+    const [post] = await markLiked([toPost(result.rows[0])], viewerId);
+    return post;
+  },
+
+  async create(input: CreatePostInput): Promise<Post> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO posts (id, author_id, content, image_urls, video_url)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [id, input.authorId, input.content, JSON.stringify(input.images || []), input.videoUrl || null]
+    );
+    return (await PostsRepo.findById(id))!;
+  },
+
+  async updateContent(id: string, content: string, viewerId?: string): Promise<Post | null> {
+    await query(
+      'UPDATE posts SET content = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [content, id]
+    );
+    return PostsRepo.findById(id, viewerId);
+  },
+
+  async softDelete(id: string): Promise<void> {
+    await query(
+      'UPDATE posts SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id]
+    );
+  },
+
+  async isLikedBy(postId: string, userId: string): Promise<boolean> {
+    const result = await query(
+      'SELECT id FROM likes WHERE user_id = $1 AND post_id = $2',
+      [userId, postId]
+    );
+    return result.rows.length > 0;
+  },
+
+  // Adds the like and bumps the counter together; returns the new count
+  like(postId: string, userId: string): Promise<number> {
+    return transaction(async () => {
+      await query(
+        'INSERT INTO likes (id, user_id, post_id) VALUES ($1, $2, $3)',
+        [randomUUID(), userId, postId]
+      );
+      const result = await query(
+        'UPDATE posts SET likes_count = likes_count + 1 WHERE id = $1 RETURNING likes_count',
+        [postId]
+      );
+      return toInteger(result.rows[0].likes_count);
+    });
+  },
+
+  // Returns the new count, or null when the user had not liked the post
+  unlike(postId: string, userId: string): Promise<number | null> {
+    return transaction(async () => {
+      const deleteResult = await query(
+        'DELETE FROM likes WHERE user_id = $1 AND post_id = $2',
+        [userId, postId]
+      );
+      if (deleteResult.rowCount === 0) return null;
+
+      const result = await query(
+        'UPDATE posts SET likes_count = likes_count - 1 WHERE id = $1 RETURNING likes_count',
+        [postId]
+      );
+      return toInteger(result.rows[0].likes_count);
+    });
+  }
+};
@@ -0,0 +1,81 @@
+import { randomUUID } from 'crypto';
+import { query } from '../config/database.js';
+import { ProductFile } from '../types.js';
+import { toInteger, toIsoString, NumericColumn, TimestampColumn } from './helpers.js';
+
+// Where the file lives in the delivery store; never sent to clients
+export interface StoredProductFile extends ProductFile {
+  storageKey: string;
+}
+
+export interface CreateProductFileInput {
+  productId: string;
+  fileName: string;
+  storageKey: string;
+  contentType?: string | null;
+  sizeBytes: number;
+}
+
+const FILE_COLUMNS = 'id, product_id, file_name, storage_key, content_type, size_bytes, created_at';
+
+interface ProductFileRow {
+  id: string;
+  product_id: string;
+  file_name: string;
+  storage_key: string;
+  content_type: string | null;
+  size_bytes: NumericColumn;
+  created_at: TimestampColumn;
+}
+
+const toProductFile = (row: ProductFileRow): StoredProductFile => ({
+  id: row.id,
+  productId: row.product_id,
+  fileName: row.file_name,
+  storageKey: row.storage_key,
+  contentType: row.content_type ?? undefined,
+  sizeBytes: toInteger(row.size_bytes),
+  createdAt: toIsoString(row.created_at)
+});
+
+// Drops the storage key for API responses
+export const toPublicFile = (file: StoredProductFile): ProductFile => ({
+  id: file.id,
+  productId: file.productId,
+  fileName: file.fileName,
+  contentType: file.contentType,
+  sizeBytes: file.sizeBytes,
+  createdAt: file.createdAt
+});
+
+export const ProductFilesRepo = {
+  async listByProduct(productId: string): Promise<StoredProductFile[]> {
+    const result = await query<ProductFileRow>(
+      `SELECT ${FILE_COLUMNS} FROM product_files WHERE product_id = $1 ORDER BY created_at ASC`,
+      [productId]
+    );
+    return result.rows.map(toProductFile);
+  },
+
+  async findById(id: string): Promise<StoredProductFile | null> {
+    const result = await query<ProductFileRow>(`SELECT ${FILE_COLUMNS} FROM product_files WHERE id = $1`, [id]);
+    return result.rows.length > 0 ? toProductFile(result.rows[0]) : null;
+  },
+
+  async create(input: CreateProductFileInput): Promise<StoredProductFile> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO product_files (id, product_id, file_name, storage_key, content_type, size_bytes, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        id, input.productId, input.fileName, input.storageKey, input.contentType || null,
+        input.sizeBytes, new Date().toISOString()
+      ]
+    );
+    return (await ProductFilesRepo.findById(id))!;
+  },
+
+  async delete(id: string): Promise<void> {
+    await query('DELETE FROM product_files WHERE id = $1', [id]);
+  }
+};
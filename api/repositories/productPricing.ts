@@ -0,0 +1,187 @@
+import { randomUUID } from 'crypto';
+import { query } from '../config/database.js';
+import { PriceChangeReason, PriceHistoryEntry, ProductSale, SaleStatus } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, toNumber, toInteger, toIsoString, NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export interface PriceChangeInput {
+  productId: string;
+  price: number;
+  previousPrice: number;
+  reason: PriceChangeReason;
+  saleId?: string | null;
+  changedBy?: string | null;
+}
+
+export interface CreateSaleInput {
+  productId: string;
+  salePrice: number;
+  startsAt: string;
+  endsAt: string;
+  createdBy: string;
+}
+
+const SALE_COLUMNS = `s.id, s.product_id, s.sale_price, s.starts_at, s.ends_at, s.status, s.regular_price,
+  s.created_by, s.created_at, s.updated_at`;
+
+// Sales that have not run their course
+const OPEN_STATUSES = "('scheduled', 'active')";
+
+interface HistoryEntryRow {
+  id: string;
+  product_id: string;
+  price: NumericColumn;
+  previous_price: NumericColumn;
+  reason: PriceHistoryEntry['reason'];
+  sale_id: string | null;
+  changed_by: string | null;
+  created_at: TimestampColumn;
+}
+
+const toHistoryEntry = (row: HistoryEntryRow): PriceHistoryEntry => ({
+  id: row.id,
+  productId: row.product_id,
+  price: toNumber(row.price),
+  previousPrice: toNumber(row.previous_price),
+  reason: row.reason,
+  saleId: row.sale_id ?? undefined,
+  changedBy: row.changed_by ?? undefined,
+  createdAt: toIsoString(row.created_at)
+});
+
+interface SaleRow {
+  id: string;
+  product_id: string;
+  sale_price: NumericColumn;
+  starts_at: TimestampColumn;
+  ends_at: TimestampColumn;
+  status: ProductSale['status'];
+  regular_price: NumericColumn | null;
+  created_by: string | null;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+}
+
+const toSale = (row: SaleRow): ProductSale => ({
+  id: row.id,
+  productId: row.product_id,
+  salePrice: toNumber(row.sale_price),
+  startsAt: toIsoString(row.starts_at),
+  endsAt: toIsoString(row.ends_at),
+  status: row.status,
+  regularPrice: row.regular_price === null || row.regular_price === undefined ? undefined : toNumber(row.regular_price),
+  createdBy: row.created_by ?? undefined,
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at)
+});
+
+export const PriceHistoryRepo = {
+  // Newest first
+  async listByProduct(productId: string, options: PageOptions = {}): Promise<Page<PriceHistoryEntry>> {
+    const { page, limit, offset } = resolvePage(options);
+    const countResult = await query(
+      'SELECT COUNT(*) as total FROM product_price_history WHERE product_id = $1',
+      [productId]
+    );
+    const result = await query<HistoryEntryRow>(
+      `SELECT id, product_id, price, previous_price, reason, sale_id, changed_by, created_at
+       FROM product_price_history
+       WHERE product_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2 OFFSET $3`,
+      [productId, limit, offset]
+    );
+
+    return {
+      items: result.rows.map(toHistoryEntry),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  async record(input: PriceChangeInput): Promise<void> {
+    await query(
+      `INSERT INTO product_price_history (id, product_id, price, previous_price, reason, sale_id, changed_by, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        randomUUID(), input.productId, input.price, input.previousPrice, input.reason,
+        input.saleId || null, input.changedBy || null, new Date().toISOString()
+      ]
+    );
+  }
+};
+
+export const ProductSalesRepo = {
+  async findById(id: string): Promise<ProductSale | null> {
+    const result = await query<SaleRow>(`SELECT ${SALE_COLUMNS} FROM product_sales s WHERE s.id = $1`, [id]);
+    return result.rows.length > 0 ? toSale(result.rows[0]) : null;
+  },
+
+  // Latest start first
+  async listByProduct(productId: string): Promise<ProductSale[]> {
+    const result = await query<SaleRow>(
+      `SELECT ${SALE_COLUMNS} FROM product_sales s WHERE s.product_id = $1 ORDER BY s.starts_at DESC`,
+      [productId]
+    );
+    return result.rows.map(toSale);
+  },
+
+  // Scheduled or running sales of the product overlapping [startsAt, endsAt)
+  async findOverlapping(productId: string, startsAt: string, endsAt: string): Promise<ProductSale | null> {
+    const result = await query<SaleRow>(
+      `SELECT ${SALE_COLUMNS} FROM product_sales s
+       WHERE s.product_id = $1 AND s.status IN ${OPEN_STATUSES} AND s.starts_at < $3 AND s.ends_at > $2
+       LIMIT 1`,
+      [productId, startsAt, endsAt]
+    );
+    return result.rows.length > 0 ? toSale(result.rows[0]) : null;
+  },
+
+  async findActive(productId: string): Promise<ProductSale | null> {
+    const result = await query<SaleRow>(
+      `SELECT ${SALE_COLUMNS} FROM product_sales s WHERE s.product_id = $1 AND s.status = 'active'`,
+      [productId]
+    );
+    return result.rows.length > 0 ? toSale(result.rows[0]) : null;
+  },
+
+  // Scheduled sales whose start has come and running sales whose end has
+  // passed, oldest first
+  async listDue(now: string): Promise<ProductSale[]> {
+    const result = await query<SaleRow>(
+      `SELECT ${SALE_COLUMNS} FROM product_sales s
+       WHERE (s.status = 'scheduled' AND s.starts_at <= $1) OR (s.status = 'active' AND s.ends_at <= $1)
+       ORDER BY s.starts_at`,
+      [now]
+    );
+    return result.rows.map(toSale);
+  },
+
+  async create(input: CreateSaleInput): Promise<ProductSale> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO product_sales (id, product_id, sale_price, starts_at, ends_at, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [id, input.productId, input.salePrice, input.startsAt, input.endsAt, input.createdBy]
+    );
+    return (await ProductSalesRepo.findById(id))!;
+  },
+
+  // Compare-and-set from `from`; returns false when the sale moved meanwhile
+  async transitionStatus(
+    id: string,
+    from: SaleStatus,
+    to: SaleStatus,
+    { regularPrice }: { regularPrice?: number } = {}
+  ): Promise<boolean> {
+    const result = await query(
+      `UPDATE product_sales
+       SET status = $1, regular_price = COALESCE($2, regular_price), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3 AND status = $4`,
+      [to, regularPrice ?? null, id, from]
+    );
+    return result.rowCount > 0;
+  }
+};
@@ -0,0 +1,380 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { ProductAnswer, ProductQuestion, QaReport, QaStatus, QaTarget } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, toInteger, toIsoString, BooleanColumn,
+  NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export type QuestionSort = 'newest' | 'top';
+
+export interface QuestionFilters {
+  productId?: string;
+  status?: QaStatus;
+  // true: answered by the seller; false: not yet
+  answeredBySeller?: boolean;
+  // Only questions with reports (against them or their answers) waiting for a moderator
+  reportedOnly?: boolean;
+  sort?: QuestionSort;
+  // Fills in `hasUpvoted` for this user
+  viewerId?: string;
+  // Answers other than published ones are only shown to moderators
+  includeHiddenAnswers?: boolean;
+}
+
+export interface QaModeration {
+  status: QaStatus;
+  moderatedBy: string;
+  note?: string | null;
+}
+
+const TABLES: Record<QaTarget, string> = {
+  question: 'product_questions',
+  answer: 'product_answers'
+};
+
+const QUESTION_COLUMNS = `q.id, q.product_id, q.user_id, q.question, q.status, q.upvote_count, q.report_count,
+  q.moderation_note, q.moderated_at, q.created_at, q.updated_at,
+  p.name as product_name, u.username, u.full_name, u.avatar_url,
+  (SELECT COUNT(*) FROM product_answers a WHERE a.question_id = q.id AND a.status = 'published') as answer_count,
+  EXISTS (
+    SELECT 1 FROM product_answers a
+    WHERE a.question_id = q.id AND a.status = 'published' AND a.is_seller_answer = true
+  ) as seller_answered`;
+
+const QUESTION_JOINS = `FROM product_questions q
+  JOIN products p ON q.product_id = p.id
+  JOIN users u ON q.user_id = u.id`;
+
+const QUESTION_ORDER: Record<QuestionSort, string> = {
+  newest: 'q.created_at DESC',
+  top: 'q.upvote_count DESC, q.created_at DESC'
+};
+
+const ANSWER_COLUMNS = `a.id, a.question_id, a.user_id, a.answer, a.is_seller_answer, a.status, a.upvote_count,
+  a.report_count, a.moderation_note, a.moderated_at, a.created_at, a.updated_at,
+  u.username, u.full_name, u.avatar_url`;
+
+const ANSWER_JOINS = `FROM product_answers a
+  JOIN users u ON a.user_id = u.id`;
+
+// NULL when there is no viewer to ask about
+const upvoted = (value: unknown) =>
+  value === null || value === undefined ? undefined : dialect.parseBoolean(value);
+
+interface AnswerRow {
+  id: string;
+  question_id: string;
+  user_id: string;
+  username: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+  answer: string;
+  is_seller_answer: BooleanColumn;
+  status: ProductAnswer['status'];
+  upvote_count: NumericColumn;
+  report_count: NumericColumn;
+  moderation_note: string | null;
+  moderated_at: TimestampColumn | null;
+  has_upvoted: BooleanColumn | null;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+}
+
+const toAnswer = (row: AnswerRow): ProductAnswer => ({
+  id: row.id,
+  questionId: row.question_id,
+  userId: row.user_id,
+  username: row.username ?? undefined,
+  userFullName: row.full_name ?? undefined,
+  userAvatar: row.avatar_url ?? undefined,
+  answer: row.answer,
+  isSellerAnswer: dialect.parseBoolean(row.is_seller_answer),
+  status: row.status,
+  upvoteCount: toInteger(row.upvote_count),
+  reportCount: toInteger(row.report_count),
+  moderationNote: row.moderation_note ?? undefined,
+  moderatedAt: row.moderated_at ? toIsoString(row.moderated_at) : undefined,
+  hasUpvoted: upvoted(row.has_upvoted),
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at)
+});
+
+interface QuestionRow {
+  id: string;
+  product_id: string;
+  product_name: string | null;
+  user_id: string;
+  username: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+  question: string;
+  status: ProductQuestion['status'];
+  upvote_count: NumericColumn;
+  report_count: NumericColumn;
+  answer_count: NumericColumn;
+  seller_answered: BooleanColumn;
+  moderation_note: string | null;
+  moderated_at: TimestampColumn | null;
+  has_upvoted: BooleanColumn | null;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+}
+
+const toQuestion = (row: QuestionRow, answers: ProductAnswer[] = []): ProductQuestion => ({
+  id: row.id,
+  productId: row.product_id,
+  productName: row.product_name ?? undefined,
+  userId: row.user_id,
+  username: row.username ?? undefined,
+  userFullName: row.full_name ?? undefined,
+  userAvatar: row.avatar_url ?? undefined,
+  question: row.question,
+  status: row.status,
+  upvoteCount: toInteger(row.upvote_count),
+  reportCount: toInteger(row.report_count),
+  answerCount: toInteger(row.answer_count),
+  isAnsweredBySeller: dialect.parseBoolean(row.seller_answered),
+  answers,
+  moderationNote: row.moderation_note ?? undefined,
+  moderatedAt: row.moderated_at ? toIsoString(row.moderated_at) : undefined,
+  hasUpvoted: upvoted(row.has_upvoted),
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at)
+});
+
+interface ReportRow {
+  id: string;
+  target_type: QaReport['targetType'];
+  target_id: string;
+  user_id: string;
+  username: string | null;
+  reason: string;
+  status: QaReport['status'];
+  created_at: TimestampColumn;
+}
+
+const toReport = (row: ReportRow): QaReport => ({
+  id: row.id,
+  targetType: row.target_type,
+  targetId: row.target_id,
+  userId: row.user_id,
+  username: row.username ?? undefined,
+  reason: row.reason,
+  status: row.status,
+  createdAt: toIsoString(row.created_at)
+});
+
+// Seller answers first, then the most upvoted
+const listAnswers = async (
+  questionIds: string[],
+  { viewerId, includeHidden = false }: { viewerId?: string; includeHidden?: boolean }
+): Promise<Map<string, ProductAnswer[]>> => {
+  const answers = new Map<string, ProductAnswer[]>();
+  if (questionIds.length === 0) {
+    return answers;
+  }
+
+  const where = createConditions();
+  where.raw(dialect.inArray('a.question_id', where.bind(questionIds)));
+  where.raw('u.is_active = true');
+  if (!includeHidden) {
+    where.raw("a.status = 'published'");
+  }
+  const vote = viewerId
+    ? `EXISTS (SELECT 1 FROM qa_votes v WHERE v.target_type = 'answer' AND v.target_id = a.id AND v.user_id = ${where.bind(viewerId)})`
+    : 'NULL';
+
+  const result = await query<AnswerRow>(
+    `SELECT ${ANSWER_COLUMNS}, ${vote} as has_upvoted
+     ${ANSWER_JOINS}
+     ${where.where()}
+     ORDER BY a.is_seller_answer DESC, a.upvote_count DESC, a.created_at ASC`,
+    where.params
+  );
+
+  for (const row of result.rows) {
+    const answer = toAnswer(row);
+    const entries = answers.get(answer.questionId) ?? [];
+    entries.push(answer);
+    answers.set(answer.questionId, entries);
+  }
+  return answers;
+};
+
+export const ProductQuestionsRepo = {
+  // Questions with their answers
+  async list(filters: QuestionFilters = {}, options: PageOptions = {}): Promise<Page<ProductQuestion>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions(['u.is_active = true']);
+
+    if (filters.productId) {
+      where.add(p => `q.product_id = ${p}`, filters.productId);
+    }
+    if (filters.status) {
+      where.add(p => `q.status = ${p}`, filters.status);
+    }
+    if (filters.answeredBySeller !== undefined) {
+      where.raw(`${filters.answeredBySeller ? '' : 'NOT '}EXISTS (
+        SELECT 1 FROM product_answers sa
+        WHERE sa.question_id = q.id AND sa.status = 'published' AND sa.is_seller_answer = true
+      )`);
+    }
+    if (filters.reportedOnly) {
+      where.raw(`(
+        EXISTS (SELECT 1 FROM qa_reports r WHERE r.target_type = 'question' AND r.target_id = q.id AND r.status = 'open')
+        OR EXISTS (
+          SELECT 1 FROM qa_reports r JOIN product_answers ra ON r.target_id = ra.id
+          WHERE r.target_type = 'answer' AND ra.question_id = q.id AND r.status = 'open'
+        )
+      )`);
+    }
+
+    const countResult = await query(`SELECT COUNT(*) as total ${QUESTION_JOINS} ${where.where()}`, where.params);
+
+    const vote = filters.viewerId
+      ? `EXISTS (SELECT 1 FROM qa_votes v WHERE v.target_type = 'question' AND v.target_id = q.id AND v.user_id = ${where.bind(filters.viewerId)})`
+      : 'NULL';
+    const result = await query<QuestionRow>(
+      `SELECT ${QUESTION_COLUMNS}, ${vote} as has_upvoted
+       ${QUESTION_JOINS}
+       ${where.where()}
+       ORDER BY ${QUESTION_ORDER[filters.sort ?? 'newest']}
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    const answers = await listAnswers(result.rows.map(row => row.id), {
+      viewerId: filters.viewerId,
+      includeHidden: filters.includeHiddenAnswers
+    });
+
+    return {
+      items: result.rows.map(row => toQuestion(row, answers.get(row.id))),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  // With its published answers
+  async findById(id: string): Promise<ProductQuestion | null> {
+    const result = await query<QuestionRow>(`SELECT ${QUESTION_COLUMNS} ${QUESTION_JOINS} WHERE q.id = $1`, [id]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const answers = await listAnswers([id], {});
+    return toQuestion(result.rows[0], answers.get(id));
+  },
+
+  async findAnswerById(id: string): Promise<ProductAnswer | null> {
+    const result = await query<AnswerRow>(`SELECT ${ANSWER_COLUMNS} ${ANSWER_JOINS} WHERE a.id = $1`, [id]);
+    return result.rows.length > 0 ? toAnswer(result.rows[0]) : null;
+  },
+
+  async create(productId: string, userId: string, question: string): Promise<ProductQuestion> {
+    const id = randomUUID();
+    await query(
+      'INSERT INTO product_questions (id, product_id, user_id, question) VALUES ($1, $2, $3, $4)',
+      [id, productId, userId, question]
+    );
+    return (await ProductQuestionsRepo.findById(id))!;
+  },
+
+  async createAnswer(questionId: string, userId: string, answer: string, isSellerAnswer: boolean): Promise<ProductAnswer> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO product_answers (id, question_id, user_id, answer, is_seller_answer)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [id, questionId, userId, answer, isSellerAnswer]
+    );
+    return (await ProductQuestionsRepo.findAnswerById(id))!;
+  },
+
+  // Votes and reports point at the target by id only, so they go too
+  async delete(target: QaTarget, id: string): Promise<void> {
+    const ids = target === 'question'
+      ? [id, ...(await query('SELECT id FROM product_answers WHERE question_id = $1', [id])).rows.map(row => row.id)]
+      : [id];
+    await query(`DELETE FROM qa_votes WHERE ${dialect.inArray('target_id', '$1')}`, [ids]);
+    await query(`DELETE FROM qa_reports WHERE ${dialect.inArray('target_id', '$1')}`, [ids]);
+    await query(`DELETE FROM ${TABLES[target]} WHERE id = $1`, [id]);
+  },
+
+  // Compare-and-set from `from`; returns false when the target moved meanwhile
+  async transitionStatus(target: QaTarget, id: string, from: QaStatus, moderation: QaModeration): Promise<boolean> {
+    const result = await query(
+      `UPDATE ${TABLES[target]}
+       SET status = $1, moderated_by = $2, moderation_note = $3, moderated_at = $4, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5 AND status = $6`,
+      [moderation.status, moderation.moderatedBy, moderation.note || null, new Date().toISOString(), id, from]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Moves an automatically flagged target without recording a moderator
+  async flag(target: QaTarget, id: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE ${TABLES[target]} SET status = 'flagged', updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'published'`,
+      [id]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Adds or takes back the user's upvote and keeps the counter in step
+  async setUpvote(target: QaTarget, id: string, userId: string, upvote: boolean): Promise<void> {
+    const previous = await query(
+      'DELETE FROM qa_votes WHERE target_type = $1 AND target_id = $2 AND user_id = $3',
+      [target, id, userId]
+    );
+    if (upvote) {
+      await query(
+        'INSERT INTO qa_votes (target_type, target_id, user_id) VALUES ($1, $2, $3)',
+        [target, id, userId]
+      );
+    }
+
+    const delta = Number(upvote) - Number(previous.rowCount > 0);
+    if (delta !== 0) {
+      await query(`UPDATE ${TABLES[target]} SET upvote_count = upvote_count + $1 WHERE id = $2`, [delta, id]);
+    }
+  },
+
+  // One report per user and target; returns false for a repeat report
+  async addReport(target: QaTarget, id: string, userId: string, reason: string): Promise<boolean> {
+    const existing = await query(
+      'SELECT id FROM qa_reports WHERE target_type = $1 AND target_id = $2 AND user_id = $3',
+      [target, id, userId]
+    );
+    if (existing.rows.length > 0) {
+      return false;
+    }
+
+    await query(
+      'INSERT INTO qa_reports (id, target_type, target_id, user_id, reason) VALUES ($1, $2, $3, $4, $5)',
+      [randomUUID(), target, id, userId, reason]
+    );
+    await query(`UPDATE ${TABLES[target]} SET report_count = report_count + 1 WHERE id = $1`, [id]);
+    return true;
+  },
+
+  async listReports(target: QaTarget, id: string): Promise<QaReport[]> {
+    const result = await query<ReportRow>(
+      `SELECT r.id, r.target_type, r.target_id, r.user_id, r.reason, r.status, r.created_at, u.username
+       FROM qa_reports r
+       JOIN users u ON r.user_id = u.id
+       WHERE r.target_type = $1 AND r.target_id = $2
+       ORDER BY r.created_at`,
+      [target, id]
+    );
+    return result.rows.map(toReport);
+  },
+
+  async resolveReports(target: QaTarget, id: string): Promise<void> {
+    await query(
+      "UPDATE qa_reports SET status = 'resolved' WHERE target_type = $1 AND target_id = $2 AND status = 'open'",
+      [target, id]
+    );
+  }
+};
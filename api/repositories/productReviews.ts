@@ -0,0 +1,324 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { ProductReview, ReviewReport, ReviewStatus, ReviewVote } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, buildUpdate, toNumber, toInteger, toIsoString,
+  BooleanColumn, NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export type ReviewSort = 'newest' | 'helpful' | 'rating_high' | 'rating_low';
+
+export interface ReviewFilters {
+  productId?: string;
+  status?: ReviewStatus;
+  rating?: number;
+  verifiedOnly?: boolean;
+  // Only reviews with reports waiting for a moderator
+  reportedOnly?: boolean;
+  sort?: ReviewSort;
+  // Fills in `myVote` for this user
+  viewerId?: string;
+}
+
+export interface CreateReviewInput {
+  productId: string;
+  userId: string;
+  rating: number;
+  title?: string | null;
+  review?: string | null;
+  isVerifiedPurchase: boolean;
+}
+
+export type UpdateReviewInput = Partial<Pick<CreateReviewInput, 'rating' | 'title' | 'review' | 'isVerifiedPurchase'>>;
+
+export interface ReviewModeration {
+  status: ReviewStatus;
+  moderatedBy: string;
+  note?: string | null;
+}
+
+const REVIEW_COLUMNS = `r.id, r.product_id, r.user_id, r.rating, r.title, r.review, r.is_verified_purchase,
+  r.status, r.helpful_count, r.not_helpful_count, r.report_count, r.seller_reply, r.seller_replied_at,
+  r.moderation_note, r.moderated_at, r.created_at, r.updated_at,
+  p.name as product_name, u.username, u.full_name, u.avatar_url`;
+
+const REVIEW_JOINS = `FROM product_ratings r
+  JOIN products p ON r.product_id = p.id
+  JOIN users u ON r.user_id = u.id`;
+
+const REVIEW_ORDER: Record<ReviewSort, string> = {
+  newest: 'r.created_at DESC',
+  helpful: 'r.helpful_count DESC, r.created_at DESC',
+  rating_high: 'r.rating DESC, r.created_at DESC',
+  rating_low: 'r.rating ASC, r.created_at DESC'
+};
+
+interface ReviewRow {
+  id: string;
+  product_id: string;
+  product_name: string | null;
+  user_id: string;
+  username: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+  rating: NumericColumn;
+  title: string | null;
+  review: string | null;
+  is_verified_purchase: BooleanColumn;
+  status: ProductReview['status'];
+  helpful_count: NumericColumn;
+  not_helpful_count: NumericColumn;
+  report_count: NumericColumn;
+  seller_reply: string | null;
+  seller_replied_at: TimestampColumn | null;
+  moderation_note: string | null;
+  moderated_at: TimestampColumn | null;
+  my_vote: BooleanColumn | null;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+}
+
+const toReview = (row: ReviewRow): ProductReview => ({
+  id: row.id,
+  productId: row.product_id,
+  productName: row.product_name ?? undefined,
+  userId: row.user_id,
+  username: row.username ?? undefined,
+  userFullName: row.full_name ?? undefined,
+  userAvatar: row.avatar_url ?? undefined,
+  rating: toNumber(row.rating),
+  title: row.title ?? undefined,
+  review: row.review ?? undefined,
+  isVerifiedPurchase: dialect.parseBoolean(row.is_verified_purchase),
+  status: row.status,
+  helpfulCount: toInteger(row.helpful_count),
+  notHelpfulCount: toInteger(row.not_helpful_count),
+  reportCount: toInteger(row.report_count),
+  sellerReply: row.seller_reply ?? undefined,
+  sellerRepliedAt: row.seller_replied_at ? toIsoString(row.seller_replied_at) : undefined,
+  moderationNote: row.moderation_note ?? undefined,
+  moderatedAt: row.moderated_at ? toIsoString(row.moderated_at) : undefined,
+  myVote: row.my_vote === null || row.my_vote === undefined
+    ? undefined
+    : dialect.parseBoolean(row.my_vote) ? 'helpful' : 'not_helpful',
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at)
+});
+
+interface ReportRow {
+  id: string;
+  review_id: string;
+  user_id: string;
+  username: string | null;
+  reason: string;
+  status: ReviewReport['status'];
+  created_at: TimestampColumn;
+}
+
+const toReport = (row: ReportRow): ReviewReport => ({
+  id: row.id,
+  reviewId: row.review_id,
+  userId: row.user_id,
+  username: row.username ?? undefined,
+  reason: row.reason,
+  status: row.status,
+  createdAt: toIsoString(row.created_at)
+});
+
+export const ProductReviewsRepo = {
+  async list(filters: ReviewFilters = {}, options: PageOptions = {}): Promise<Page<ProductReview>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions(['u.is_active = true']);
+
+    if (filters.productId) {
+      where.add(p => `r.product_id = ${p}`, filters.productId);
+    }
+    if (filters.status) {
+      where.add(p => `r.status = ${p}`, filters.status);
+    }
+    if (filters.rating !== undefined) {
+      where.add(p => `r.rating = ${p}`, filters.rating);
+    }
+    if (filters.verifiedOnly) {
+      where.raw('r.is_verified_purchase = true');
+    }
+    if (filters.reportedOnly) {
+      where.raw("EXISTS (SELECT 1 FROM review_reports rr WHERE rr.review_id = r.id AND rr.status = 'open')");
+    }
+
+    const countResult = await query(`SELECT COUNT(*) as total ${REVIEW_JOINS} ${where.where()}`, where.params);
+
+    const vote = filters.viewerId
+      ? `(SELECT is_helpful FROM review_votes v WHERE v.review_id = r.id AND v.user_id = ${where.bind(filters.viewerId)})`
+      : 'NULL';
+    const result = await query<ReviewRow>(
+      `SELECT ${REVIEW_COLUMNS}, ${vote} as my_vote
+       ${REVIEW_JOINS}
+       ${where.where()}
+       ORDER BY ${REVIEW_ORDER[filters.sort ?? 'newest']}
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: result.rows.map(toReview),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  async findById(id: string): Promise<ProductReview | null> {
+    const result = await query<ReviewRow>(`SELECT ${REVIEW_COLUMNS} ${REVIEW_JOINS} WHERE r.id = $1`, [id]);
+    return result.rows.length > 0 ? toReview(result.rows[0]) : null;
+  },
+
+  async findByUserAndProduct(userId: string, productId: string): Promise<ProductReview | null> {
+    const result = await query<ReviewRow>(
+      `SELECT ${REVIEW_COLUMNS} ${REVIEW_JOINS} WHERE r.user_id = $1 AND r.product_id = $2`,
+      [userId, productId]
+    );
+    return result.rows.length > 0 ? toReview(result.rows[0]) : null;
+  },
+
+  async create(input: CreateReviewInput): Promise<ProductReview> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO product_ratings (id, product_id, user_id, rating, title, review, is_verified_purchase)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        id, input.productId, input.userId, input.rating, input.title || null, input.review || null,
+        input.isVerifiedPurchase
+      ]
+    );
+    return (await ProductReviewsRepo.findById(id))!;
+  },
+
+  async update(id: string, changes: UpdateReviewInput): Promise<ProductReview | null> {
+    const { assignments, params } = buildUpdate(changes, {
+      rating: 'rating',
+      title: 'title',
+      review: 'review',
+      isVerifiedPurchase: 'is_verified_purchase'
+    });
+
+    if (assignments.length > 0) {
+      params.push(id);
+      await query(
+        `UPDATE product_ratings
+         SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${params.length}`,
+        params
+      );
+    }
+
+    return ProductReviewsRepo.findById(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    await query('DELETE FROM product_ratings WHERE id = $1', [id]);
+  },
+
+  // A null reply removes it
+  async setReply(id: string, reply: string | null): Promise<ProductReview | null> {
+    await query(
+      `UPDATE product_ratings
+       SET seller_reply = $1, seller_replied_at = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3`,
+      [reply, reply ? new Date().toISOString() : null, id]
+    );
+    return ProductReviewsRepo.findById(id);
+  },
+
+  // Compare-and-set from `from`; returns false when the review moved meanwhile
+  async transitionStatus(id: string, from: ReviewStatus, moderation: ReviewModeration): Promise<boolean> {
+    const result = await query(
+      `UPDATE product_ratings
+       SET status = $1, moderated_by = $2, moderation_note = $3, moderated_at = $4, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5 AND status = $6`,
+      [moderation.status, moderation.moderatedBy, moderation.note || null, new Date().toISOString(), id, from]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Moves an automatically flagged review without recording a moderator
+  async flag(id: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE product_ratings SET status = 'flagged', updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'published'`,
+      [id]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Records or changes the user's vote and keeps the counters in step
+  async vote(reviewId: string, userId: string, vote: ReviewVote | null): Promise<void> {
+    const previous = await query(
+      'DELETE FROM review_votes WHERE review_id = $1 AND user_id = $2 RETURNING is_helpful',
+      [reviewId, userId]
+    );
+    const deltas: Record<ReviewVote, number> = { helpful: 0, not_helpful: 0 };
+    if (previous.rows.length > 0) {
+      deltas[dialect.parseBoolean(previous.rows[0].is_helpful) ? 'helpful' : 'not_helpful']--;
+    }
+    if (vote) {
+      await query(
+        'INSERT INTO review_votes (review_id, user_id, is_helpful) VALUES ($1, $2, $3)',
+        [reviewId, userId, vote === 'helpful']
+      );
+      deltas[vote]++;
+    }
+
+    await query(
+      `UPDATE product_ratings
+       SET helpful_count = helpful_count + $1, not_helpful_count = not_helpful_count + $2
+       WHERE id = $3`,
+      [deltas.helpful, deltas.not_helpful, reviewId]
+    );
+  },
+
+  // One report per user and review; returns false for a repeat report
+  async addReport(reviewId: string, userId: string, reason: string): Promise<boolean> {
+    const existing = await query(
+      'SELECT id FROM review_reports WHERE review_id = $1 AND user_id = $2',
+      [reviewId, userId]
+    );
+    if (existing.rows.length > 0) {
+      return false;
+    }
+
+    await query(
+      'INSERT INTO review_reports (id, review_id, user_id, reason) VALUES ($1, $2, $3, $4)',
+      [randomUUID(), reviewId, userId, reason]
+    );
+    await query('UPDATE product_ratings SET report_count = report_count + 1 WHERE id = $1', [reviewId]);
+    return true;
+  },
+
+  async listReports(reviewId: string): Promise<ReviewReport[]> {
+    const result = await query<ReportRow>(
+      `SELECT rr.id, rr.review_id, rr.user_id, rr.reason, rr.status, rr.created_at, u.username
+       FROM review_reports rr
+       JOIN users u ON rr.user_id = u.id
+       WHERE rr.review_id = $1
+       ORDER BY rr.created_at`,
+      [reviewId]
+    );
+    return result.rows.map(toReport);
+  },
+
+  async resolveReports(reviewId: string): Promise<void> {
+    await query("UPDATE review_reports SET status = 'resolved' WHERE review_id = $1 AND status = 'open'", [reviewId]);
+  },
+
+  // Reviews written before the purchase earn their badge once the order is paid
+  async markVerifiedForOrder(orderId: string): Promise<void> {
+    await query(
+      `UPDATE product_ratings SET is_verified_purchase = true
+       WHERE is_verified_purchase = false
+         AND user_id = (SELECT user_id FROM orders WHERE id = $1)
+         AND product_id IN (SELECT product_id FROM order_items WHERE order_id = $1)`,
+      [orderId]
+    );
+  }
+};
@@ -0,0 +1,188 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { ProductVariant } from '../types.js';
+import { buildUpdate, toNumber, toInteger, toStringArray, BooleanColumn, NumericColumn } from './helpers.js';
+
+export interface CreateVariantInput {
+  productId: string;
+  sku: string;
+  options: Record<string, string>;
+  price: number;
+  stockQuantity?: number;
+  images?: string[];
+}
+
+export type UpdateVariantInput = Partial<Omit<CreateVariantInput, 'productId'>> & { isActive?: boolean };
+
+const VARIANT_COLUMNS = `v.id, v.product_id, v.sku, v.options, v.price, v.stock_quantity, v.image_urls,
+  v.is_active, p.is_digital`;
+
+const JSON_FIELDS = ['options', 'images'];
+
+interface VariantRow {
+  stock_quantity: NumericColumn;
+  id: string;
+  product_id: string;
+  sku: string;
+  options: unknown;
+  price: NumericColumn;
+  is_digital: BooleanColumn;
+  image_urls: unknown;
+  is_active: BooleanColumn;
+}
+
+const toVariant = (row: VariantRow): ProductVariant => {
+  const stockQuantity = toInteger(row.stock_quantity);
+  return {
+    id: row.id,
+    productId: row.product_id,
+    sku: row.sku,
+    options: dialect.parseJson<Record<string, string>>(row.options, {}),
+    price: toNumber(row.price),
+    stockQuantity,
+    inStock: dialect.parseBoolean(row.is_digital) || stockQuantity > 0,
+    images: toStringArray(row.image_urls),
+    isActive: dialect.parseBoolean(row.is_active)
+  };
+};
+
+export const ProductVariantsRepo = {
+  // In the order they were created
+  async listByProduct(productId: string, { includeInactive = false } = {}): Promise<ProductVariant[]> {
+    const result = await query<VariantRow>(
+      `SELECT ${VARIANT_COLUMNS}
+       FROM product_variants v
+       JOIN products p ON v.product_id = p.id
+       WHERE v.product_id = $1${includeInactive ? '' : ' AND v.is_active = true'}
+       ORDER BY v.created_at, v.sku`,
+      [productId]
+    );
+    return result.rows.map(toVariant);
+  },
+
+  async findById(id: string): Promise<ProductVariant | null> {
+    const result = await query<VariantRow>(
+      `SELECT ${VARIANT_COLUMNS} FROM product_variants v JOIN products p ON v.product_id = p.id WHERE v.id = $1`,
+      [id]
+    );
+    return result.rows.length > 0 ? toVariant(result.rows[0]) : null;
+  },
+
+  // Includes inactive variants so callers can tell "missing" from "unavailable"
+  async findByIds(ids: string[]): Promise<ProductVariant[]> {
+    if (ids.length === 0) return [];
+    const result = await query<VariantRow>(
+      `SELECT ${VARIANT_COLUMNS}
+       FROM product_variants v
+       JOIN products p ON v.product_id = p.id
+       WHERE ${dialect.inArray('v.id', '$1')}`,
+      [ids]
+    );
+    return result.rows.map(toVariant);
+  },
+
+  async findBySku(sku: string): Promise<ProductVariant | null> {
+    const result = await query<VariantRow>(
+      `SELECT ${VARIANT_COLUMNS} FROM product_variants v JOIN products p ON v.product_id = p.id WHERE v.sku = $1`,
+      [sku]
+    );
+    return result.rows.length > 0 ? toVariant(result.rows[0]) : null;
+  },
+
+  async create(input: CreateVariantInput): Promise<ProductVariant> {
+    const id = randomUUID();
+    // Millisecond timestamps keep variants created together in order
+    const now = new Date().toISOString();
+    await query(
+      `INSERT INTO product_variants (id, product_id, sku, options, price, stock_quantity, image_urls, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $8)`,
+      [
+        id, input.productId, input.sku, JSON.stringify(input.options), input.price,
+        input.stockQuantity ?? 0, JSON.stringify(input.images || []), now
+      ]
+    );
+    return (await ProductVariantsRepo.findById(id))!;
+  },
+
+  async update(id: string, changes: UpdateVariantInput): Promise<ProductVariant | null> {
+    const { assignments, params } = buildUpdate(changes as Record<string, unknown>, {
+      sku: 'sku',
+      options: 'options',
+      price: 'price',
+      stockQuantity: 'stock_quantity',
+      images: 'image_urls',
+      isActive: 'is_active'
+    }, JSON_FIELDS);
+
+    if (assignments.length > 0) {
+      params.push(id);
+      await query(
+        `UPDATE product_variants
+         SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${params.length}`,
+        params
+      );
+    }
+
+    return ProductVariantsRepo.findById(id);
+  },
+
+  // Sets the product's price to its cheapest active variant and its stock to
+  // the total of its active variants
+  async syncProduct(productId: string): Promise<void> {
+    await query(
+      `UPDATE products
+       SET price = COALESCE(
+             (SELECT MIN(price) FROM product_variants WHERE product_id = $1 AND is_active = true),
+             price
+           ),
+           stock_quantity = COALESCE(
+             (SELECT SUM(stock_quantity) FROM product_variants WHERE product_id = $1 AND is_active = true),
+             0
+           ),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [productId]
+    );
+  },
+
+  // Like ProductsRepo.reserveStock, for one variant; the product's total
+  // follows. Returns false when the variant has too little stock left.
+  async reserveStock(id: string, quantity: number): Promise<boolean> {
+    const result = await query(
+      `UPDATE product_variants
+       SET stock_quantity = stock_quantity - $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2 AND stock_quantity >= $1
+       RETURNING product_id`,
+      [quantity, id]
+    );
+    if (result.rows.length === 0) return false;
+
+    await query(
+      `UPDATE products
+       SET stock_quantity = ${dialect.greatest('stock_quantity - $1', '0')}, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2`,
+      [quantity, result.rows[0].product_id]
+    );
+    return true;
+  },
+
+  async restoreStock(id: string, quantity: number): Promise<void> {
+    const result = await query(
+      `UPDATE product_variants
+       SET stock_quantity = stock_quantity + $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2
+       RETURNING product_id, is_active`,
+      [quantity, id]
+    );
+    // Stock of a retired variant does not count towards the product
+    if (result.rows.length === 0 || !dialect.parseBoolean(result.rows[0].is_active)) return;
+
+    await query(
+      `UPDATE products
+       SET stock_quantity = stock_quantity + $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2`,
+      [quantity, result.rows[0].product_id]
+    );
+  }
+};
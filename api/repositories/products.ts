@@ -0,0 +1,407 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { Product, ProductOption } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, buildUpdate,
+  toNumber, toInteger, toStringArray, toIsoString,
+  BooleanColumn, NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export type ProductSort = 'relevance' | 'newest' | 'oldest' | 'price_low' | 'price_high' | 'popular' | 'rating';
+
+export interface ProductFilters {
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  search?: string;
+  sellerId?: string;
+  // Option name to value; matches products with an active variant having all
+  // of them, and the price range then applies to that variant's price
+  variantOptions?: Record<string, string>;
+  sort?: ProductSort;
+}
+
+export interface CreateProductInput {
+  sellerId: string;
+  sku?: string | null;
+  name: string;
+  description: string;
+  category: string;
+  price: number;
+  images?: string[];
+  tags?: string[];
+  requirements?: string[];
+  features?: string[];
+  // Physical products draw down stockQuantity when ordered; digital ones never run out
+  isDigital?: boolean;
+  stockQuantity?: number;
+  // Shipping weight in kg
+  weight?: number | null;
+  // Null for unlimited downloads
+  downloadLimit?: number | null;
+  issuesLicenseKeys?: boolean;
+  options?: ProductOption[];
+  isFeatured?: boolean;
+}
+
+export type UpdateProductInput = Partial<Omit<CreateProductInput, 'sellerId'>> & { isActive?: boolean };
+
+const PRODUCT_COLUMNS = `p.id, p.sku, p.name, p.description, p.category, p.price, p.compare_at_price, p.rating, p.review_count,
+  p.sales_count, p.stock_quantity, p.weight, p.is_digital, p.is_active, p.image_url, p.image_urls,
+  p.tags, p.preview_urls, p.requirements, p.features, p.download_limit, p.issues_license_keys,
+  p.options, p.is_featured, p.seller_id, p.created_at, p.updated_at,
+  u.username as seller_username, u.full_name as seller_name, u.avatar_url as seller_avatar`;
+
+const ORDER_BY: Record<ProductSort, string> = {
+  relevance: 'p.created_at DESC',
+  newest: 'p.created_at DESC',
+  oldest: 'p.created_at ASC',
+  price_low: 'p.price ASC, p.created_at DESC',
+  price_high: 'p.price DESC, p.created_at DESC',
+  popular: 'p.sales_count DESC, p.created_at DESC',
+  rating: 'p.rating DESC, p.created_at DESC'
+};
+
+interface ProductRow {
+  image_urls: unknown;
+  is_digital: BooleanColumn;
+  stock_quantity: NumericColumn;
+  id: string;
+  sku: string | null;
+  name: string;
+  description: string | null;
+  price: NumericColumn;
+  compare_at_price: NumericColumn | null;
+  category: string;
+  tags: unknown;
+  image_url: string | null;
+  rating: NumericColumn;
+  review_count: NumericColumn;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+  seller_id: string;
+  seller_name: string | null;
+  seller_username: string | null;
+  seller_avatar: string | null;
+  sales_count: NumericColumn;
+  is_featured: BooleanColumn;
+  weight: NumericColumn | null;
+  is_active: BooleanColumn;
+  preview_urls: unknown;
+  requirements: unknown;
+  features: unknown;
+  download_limit: NumericColumn | null;
+  issues_license_keys: BooleanColumn;
+  options: unknown;
+}
+
+const toProduct = (row: ProductRow): Product => {
+  const images = toStringArray(row.image_urls);
+  const isDigital = dialect.parseBoolean(row.is_digital);
+  const stockQuantity = toInteger(row.stock_quantity);
+
+  return {
+    id: row.id,
+    sku: row.sku ?? undefined,
+    name: row.name,
+    description: row.description ?? '',
+    price: toNumber(row.price),
+    compareAtPrice: row.compare_at_price === null || row.compare_at_price === undefined ? undefined : toNumber(row.compare_at_price),
+    category: row.category,
+    tags: toStringArray(row.tags),
+    // Baseline rows only have the single image_url column
+    images: images.length > 0 || !row.image_url ? images : [row.image_url],
+    inStock: isDigital || stockQuantity > 0,
+    stockQuantity,
+    rating: toNumber(row.rating),
+    reviewCount: toInteger(row.review_count),
+    createdAt: toIsoString(row.created_at),
+    updatedAt: toIsoString(row.updated_at),
+    sellerId: row.seller_id,
+    sellerName: row.seller_name ?? '',
+    sellerUsername: row.seller_username ?? undefined,
+    sellerAvatar: row.seller_avatar ?? undefined,
+    salesCount: toInteger(row.sales_count),
+    isFeatured: dialect.parseBoolean(row.is_featured),
+    isDigital,
+    weight: row.weight === null || row.weight === undefined ? undefined : toNumber(row.weight),
+    isActive: dialect.parseBoolean(row.is_active),
+    previewUrls: toStringArray(row.preview_urls),
+    requirements: toStringArray(row.requirements),
+    features: toStringArray(row.features),
+    downloadLimit: row.download_limit === null || row.download_limit === undefined ? undefined : toInteger(row.download_limit),
+    issuesLicenseKeys: dialect.parseBoolean(row.issues_license_keys),
+    options: dialect.parseJson<ProductOption[]>(row.options, [])
+  };
+};
+
+const JSON_FIELDS = ['images', 'tags', 'requirements', 'features', 'options'];
+
+export const ProductsRepo = {
+  // Active products from active sellers
+  async list(filters: ProductFilters = {}, options: PageOptions = {}): Promise<Page<Product>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions(['p.is_active = true', 'u.is_active = true']);
+
+    if (filters.sellerId) {
+      where.add(p => `p.seller_id = ${p}`, filters.sellerId);
+    }
+    if (filters.category) {
+      where.add(p => `p.category = ${p}`, filters.category);
+    }
+    const variantOptions = Object.entries(filters.variantOptions ?? {});
+    if (variantOptions.length > 0) {
+      const conditions = variantOptions.map(([name, value]) =>
+        `${dialect.jsonField('v.options', where.bind(name))} = ${where.bind(value)}`
+      );
+      if (filters.minPrice !== undefined) {
+        conditions.push(`v.price >= ${where.bind(filters.minPrice)}`);
+      }
+      if (filters.maxPrice !== undefined) {
+        conditions.push(`v.price <= ${where.bind(filters.maxPrice)}`);
+      }
+      where.raw(`EXISTS (
+        SELECT 1 FROM product_variants v
+        WHERE v.product_id = p.id AND v.is_active = true AND ${conditions.join(' AND ')}
+      )`);
+    } else {
+      if (filters.minPrice !== undefined) {
+        where.add(p => `p.price >= ${p}`, filters.minPrice);
+      }
+      if (filters.maxPrice !== undefined) {
+        where.add(p => `p.price <= ${p}`, filters.maxPrice);
+      }
+    }
+    if (filters.minRating !== undefined) {
+      where.add(p => `p.rating >= ${p}`, filters.minRating);
+    }
+    if (filters.search) {
+      where.add(p => `(
+        ${dialect.ilike('p.name', p)} OR
+        ${dialect.ilike('p.description', p)} OR
+        ${dialect.ilike(dialect.jsonText('p.tags'), p)}
+      )`, `%${filters.search}%`);
+    }
+
+    const countResult = await query(
+      `SELECT COUNT(*) as total
+       FROM products p
+       JOIN users u ON p.seller_id = u.id
+       ${where.where()}`,
+      where.params
+    );
+
+    const result = await query<ProductRow>(
+      `SELECT ${PRODUCT_COLUMNS}
+       FROM products p
+       JOIN users u ON p.seller_id = u.id
+       ${where.where()}
+       ORDER BY ${ORDER_BY[filters.sort || 'newest']}
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: result.rows.map(toProduct),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  async findById(id: string, { includeInactive = false } = {}): Promise<Product | null> {
+    const result = await query<ProductRow>(
+      `SELECT ${PRODUCT_COLUMNS}
+       FROM products p
+       LEFT JOIN users u ON p.seller_id = u.id
+       WHERE p.id = $1${includeInactive ? '' : ' AND p.is_active = true'}`,
+      [id]
+    );
+    return result.rows.length > 0 ? toProduct(result.rows[0]) : null;
+  },
+
+  // Includes inactive products so callers can tell "missing" from "unavailable"
+  async findByIds(ids: string[]): Promise<Product[]> {
+    if (ids.length === 0) return [];
+    const result = await query<ProductRow>(
+      `SELECT ${PRODUCT_COLUMNS}
+       FROM products p
+       LEFT JOIN users u ON p.seller_id = u.id
+       WHERE ${dialect.inArray('p.id', '$1')}`,
+      [ids]
+    );
+    return result.rows.map(toProduct);
+  },
+
+  // A seller's products with the given SKUs, inactive ones included
+  async findBySkus(sellerId: string, skus: string[]): Promise<Product[]> {
+    if (skus.length === 0) return [];
+    const result = await query<ProductRow>(
+      `SELECT ${PRODUCT_COLUMNS}
+       FROM products p
+       LEFT JOIN users u ON p.seller_id = u.id
+       WHERE p.seller_id = $1 AND ${dialect.inArray('p.sku', '$2')}`,
+      [sellerId, skus]
+    );
+    return result.rows.map(toProduct);
+  },
+
+  // Every active product of the seller, oldest first (catalog export)
+  async listAllBySeller(sellerId: string): Promise<Product[]> {
+    const result = await query<ProductRow>(
+      `SELECT ${PRODUCT_COLUMNS}
+       FROM products p
+       LEFT JOIN users u ON p.seller_id = u.id
+       WHERE p.seller_id = $1 AND p.is_active = true
+       ORDER BY p.created_at ASC`,
+      [sellerId]
+    );
+    return result.rows.map(toProduct);
+  },
+
+  // Featured products first, then the best sellers
+  async listFeatured(sellerId: string, limit: number): Promise<Product[]> {
+    const result = await query<ProductRow>(
+      `SELECT ${PRODUCT_COLUMNS}
+       FROM products p
+       LEFT JOIN users u ON p.seller_id = u.id
+       WHERE p.seller_id = $1 AND p.is_active = true
+       ORDER BY p.is_featured DESC, p.sales_count DESC, p.created_at DESC
+       LIMIT $2`,
+      [sellerId, limit]
+    );
+    return result.rows.map(toProduct);
+  },
+
+  // Totals over a seller's active products; the rating is weighted by reviews
+  async summarizeBySeller(sellerId: string): Promise<{ productCount: number; salesCount: number; rating: number; reviewCount: number }> {
+    const result = await query(
+      `SELECT COUNT(*) as product_count,
+              COALESCE(SUM(sales_count), 0) as sales_count,
+              COALESCE(SUM(review_count), 0) as review_count,
+              COALESCE(SUM(rating * review_count), 0) as rating_total
+       FROM products
+       WHERE seller_id = $1 AND is_active = true`,
+      [sellerId]
+    );
+    const row = result.rows[0];
+    const reviewCount = toInteger(row.review_count);
+
+    return {
+      productCount: toInteger(row.product_count),
+      salesCount: toInteger(row.sales_count),
+      rating: reviewCount > 0 ? Math.round(toNumber(row.rating_total) / reviewCount * 100) / 100 : 0,
+      reviewCount
+    };
+  },
+
+  async create(input: CreateProductInput): Promise<Product> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO products (
+        id, seller_id, name, description, category, price, is_digital, stock_quantity,
+        image_urls, tags, requirements, features, download_limit, issues_license_keys, options, sku, weight, is_featured
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)`,
+      [
+        id, input.sellerId, input.name, input.description, input.category, input.price,
+        input.isDigital ?? true, input.stockQuantity ?? 0,
+        JSON.stringify(input.images || []), JSON.stringify(input.tags || []),
+        JSON.stringify(input.requirements || []), JSON.stringify(input.features || []),
+        input.downloadLimit ?? null, input.issuesLicenseKeys ?? false, JSON.stringify(input.options || []),
+        input.sku || null, input.weight ?? null, input.isFeatured ?? false
+      ]
+    );
+    return (await ProductsRepo.findById(id))!;
+  },
+
+  async update(id: string, changes: UpdateProductInput): Promise<Product | null> {
+    const { assignments, params } = buildUpdate(changes as Record<string, unknown>, {
+      sku: 'sku',
+      name: 'name',
+      description: 'description',
+      category: 'category',
+      price: 'price',
+      images: 'image_urls',
+      tags: 'tags',
+      requirements: 'requirements',
+      features: 'features',
+      isDigital: 'is_digital',
+      stockQuantity: 'stock_quantity',
+      weight: 'weight',
+      downloadLimit: 'download_limit',
+      issuesLicenseKeys: 'issues_license_keys',
+      options: 'options',
+      isFeatured: 'is_featured',
+      isActive: 'is_active'
+    }, JSON_FIELDS);
+
+    if (assignments.length > 0) {
+      params.push(id);
+      await query(
+        `UPDATE products
+         SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${params.length}`,
+        params
+      );
+    }
+
+    return ProductsRepo.findById(id);
+  },
+
+  async softDelete(id: string): Promise<void> {
+    await query(
+      'UPDATE products SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id]
+    );
+  },
+
+  async incrementSalesCount(id: string, quantity: number): Promise<void> {
+    await query(
+      'UPDATE products SET sales_count = sales_count + $1 WHERE id = $2',
+      [quantity, id]
+    );
+  },
+
+  // Takes stock for a physical product only if enough is left; returns false
+  // when the conditional decrement matched nothing (oversell)
+  async reserveStock(id: string, quantity: number): Promise<boolean> {
+    const result = await query(
+      `UPDATE products
+       SET stock_quantity = stock_quantity - $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2 AND stock_quantity >= $1`,
+      [quantity, id]
+    );
+    return result.rowCount > 0;
+  },
+
+  async restoreStock(id: string, quantity: number): Promise<void> {
+    await query(
+      `UPDATE products
+       SET stock_quantity = stock_quantity + $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2`,
+      [quantity, id]
+    );
+  },
+
+  // Applies a change to the published reviews of the product (one more or
+  // fewer review, and the change in their rating total) to the cached average
+  // A null compareAtPrice means no sale is running
+  async setPrice(id: string, price: number, compareAtPrice: number | null): Promise<void> {
+    await query(
+      'UPDATE products SET price = $1, compare_at_price = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3',
+      [price, compareAtPrice, id]
+    );
+  },
+
+  async adjustRating(id: string, countDelta: number, totalDelta: number): Promise<void> {
+    await query(
+      `UPDATE products
+       SET review_count = review_count + $1,
+           rating_total = rating_total + $2,
+           rating = CASE WHEN review_count + $1 > 0 THEN ROUND((rating_total + $2) / (review_count + $1), 2) ELSE 0 END
+       WHERE id = $3`,
+      [countDelta, totalDelta, id]
+    );
+  }
+};
@@ -0,0 +1,196 @@
+import { query } from '../config/database.js';
+import { RecommendationReason } from '../types.js';
+import { toNumber, toInteger, toStringArray, NumericColumn } from './helpers.js';
+
+// A stored recommendation before the product is loaded
+export interface ScoredProduct {
+  productId: string;
+  score: number;
+  reason: RecommendationReason;
+}
+
+export interface CoPurchase {
+  productId: string;
+  relatedProductId: string;
+  // Paid orders containing both products
+  orders: number;
+}
+
+// What the recommender needs to know about an active product
+export interface CatalogEntry {
+  id: string;
+  sellerId: string;
+  category: string;
+  tags: string[];
+}
+
+export interface UserSignals {
+  userId: string;
+  purchased: string[];
+  wishlisted: string[];
+  // Tags of the study routes the user is enrolled in
+  studyRouteTags: string[];
+}
+
+// Orders that count as a purchase
+const PURCHASED = "o.payment_status = 'paid'";
+
+interface ScoredProductRow {
+  product_id: string;
+  score: NumericColumn;
+  reason: ScoredProduct['reason'];
+}
+
+const toScoredProduct = (row: ScoredProductRow): ScoredProduct => ({
+  productId: row.product_id,
+  score: toNumber(row.score),
+  reason: row.reason
+});
+
+const signalsOf = (signals: Map<string, UserSignals>, userId: string) => {
+  let entry = signals.get(userId);
+  if (!entry) {
+    entry = { userId, purchased: [], wishlisted: [], studyRouteTags: [] };
+    signals.set(userId, entry);
+  }
+  return entry;
+};
+
+export const RecommendationsRepo = {
+  async listCoPurchases(): Promise<CoPurchase[]> {
+    const result = await query<{ product_id: string; related_product_id: string; orders: NumericColumn }>(
+      `SELECT a.product_id, b.product_id as related_product_id, COUNT(DISTINCT a.order_id) as orders
+       FROM order_items a
+       JOIN order_items b ON a.order_id = b.order_id AND a.product_id <> b.product_id
+       JOIN orders o ON a.order_id = o.id
+       WHERE ${PURCHASED}
+       GROUP BY a.product_id, b.product_id`
+    );
+    return result.rows.map(row => ({
+      productId: row.product_id,
+      relatedProductId: row.related_product_id,
+      orders: toInteger(row.orders)
+    }));
+  },
+
+  // Paid orders containing each product
+  async countOrdersByProduct(): Promise<Map<string, number>> {
+    const result = await query<{ product_id: string; orders: NumericColumn }>(
+      `SELECT oi.product_id, COUNT(DISTINCT oi.order_id) as orders
+       FROM order_items oi
+       JOIN orders o ON oi.order_id = o.id
+       WHERE ${PURCHASED}
+       GROUP BY oi.product_id`
+    );
+    return new Map(result.rows.map(row => [row.product_id, toInteger(row.orders)]));
+  },
+
+  // Active products from active sellers
+  async listCatalog(): Promise<CatalogEntry[]> {
+    const result = await query<{ id: string; seller_id: string; category: string; tags: unknown }>(
+      `SELECT p.id, p.seller_id, p.category, p.tags
+       FROM products p
+       JOIN users u ON p.seller_id = u.id
+       WHERE p.is_active = true AND u.is_active = true`
+    );
+    return result.rows.map(row => ({
+      id: row.id,
+      sellerId: row.seller_id,
+      category: row.category,
+      tags: toStringArray(row.tags)
+    }));
+  },
+
+  // Every user with at least one purchase, wishlist entry or enrollment
+  async listUserSignals(): Promise<UserSignals[]> {
+    const [purchases, wishlists, enrollments] = await Promise.all([
+      query<{ user_id: string; product_id: string }>(
+        `SELECT DISTINCT o.user_id, oi.product_id
+         FROM order_items oi
+         JOIN orders o ON oi.order_id = o.id
+         WHERE ${PURCHASED}`
+      ),
+      query<{ user_id: string; product_id: string }>('SELECT user_id, product_id FROM wishlist_items'),
+      query<{ user_id: string; tags: unknown }>(
+        `SELECT e.user_id, sr.tags
+         FROM user_enrollments e
+         JOIN study_routes sr ON e.study_route_id = sr.id`
+      )
+    ]);
+
+    const signals = new Map<string, UserSignals>();
+    for (const row of purchases.rows) {
+      signalsOf(signals, row.user_id).purchased.push(row.product_id);
+    }
+    for (const row of wishlists.rows) {
+      signalsOf(signals, row.user_id).wishlisted.push(row.product_id);
+    }
+    for (const row of enrollments.rows) {
+      signalsOf(signals, row.user_id).studyRouteTags.push(...toStringArray(row.tags));
+    }
+    return [...signals.values()];
+  },
+
+  async listPurchased(userId: string): Promise<string[]> {
+    const result = await query<{ product_id: string }>(
+      `SELECT DISTINCT oi.product_id
+       FROM order_items oi
+       JOIN orders o ON oi.order_id = o.id
+       WHERE o.user_id = $1 AND ${PURCHASED}`,
+      [userId]
+    );
+    return result.rows.map(row => row.product_id);
+  },
+
+  // Best first; inactive products are left for the caller to skip
+  async listRelated(productId: string, limit: number): Promise<ScoredProduct[]> {
+    const result = await query<ScoredProductRow>(
+      `SELECT related_product_id as product_id, score, reason
+       FROM product_recommendations
+       WHERE product_id = $1
+       ORDER BY score DESC
+       LIMIT $2`,
+      [productId, limit]
+    );
+    return result.rows.map(toScoredProduct);
+  },
+
+  async listForUser(userId: string, limit: number): Promise<ScoredProduct[]> {
+    const result = await query<ScoredProductRow>(
+      `SELECT product_id, score, reason
+       FROM user_recommendations
+       WHERE user_id = $1
+       ORDER BY score DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    return result.rows.map(toScoredProduct);
+  },
+
+  // Replace the whole precomputed set; run inside a transaction so readers
+  // never see it half written
+  async replaceRelated(related: Map<string, ScoredProduct[]>): Promise<void> {
+    await query('DELETE FROM product_recommendations');
+    for (const [productId, entries] of related) {
+      for (const entry of entries) {
+        await query(
+          `INSERT INTO product_recommendations (product_id, related_product_id, score, reason)
+           VALUES ($1, $2, $3, $4)`,
+          [productId, entry.productId, entry.score, entry.reason]
+        );
+      }
+    }
+  },
+
+  async replaceForUsers(recommendations: Map<string, ScoredProduct[]>): Promise<void> {
+    await query('DELETE FROM user_recommendations');
+    for (const [userId, entries] of recommendations) {
+      for (const entry of entries) {
+        await query(
+          'INSERT INTO user_recommendations (user_id, product_id, score, reason) VALUES ($1, $2, $3, $4)',
+          [userId, entry.productId, entry.score, entry.reason]
+        );
+      }
+    }
+  }
+};
@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto';
+import { dialect, query } from '../config/database.js';
+import { SecurityEvent, SecurityEventType } from '../types.js';
+import {
+  createConditions, Page, PageOptions, resolvePage, toInteger, toIsoString, TimestampColumn
+} from './helpers.js';
+
+export interface NewSecurityEvent {
+  type: SecurityEventType;
+  userId?: string;
+  email?: string;
+  ipAddress?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface SecurityEventFilters {
+  type?: SecurityEventType;
+  userId?: string;
+}
+
+const SECURITY_EVENT_COLUMNS = 'id, event_type, user_id, email, ip_address, details, created_at';
+
+interface SecurityEventRow {
+  id: string;
+  event_type: SecurityEvent['type'];
+  user_id: string | null;
+  email: string | null;
+  ip_address: string | null;
+  details: unknown;
+  created_at: TimestampColumn;
+}
+
+const toSecurityEvent = (row: SecurityEventRow): SecurityEvent => ({
+  id: row.id,
+  type: row.event_type,
+  userId: row.user_id ?? undefined,
+  email: row.email ?? undefined,
+  ipAddress: row.ip_address ?? undefined,
+  details: dialect.parseJson<Record<string, unknown>>(row.details, {}),
+  createdAt: toIsoString(row.created_at)
+});
+
+export const SecurityEventsRepo = {
+  async create(event: NewSecurityEvent): Promise<void> {
+    await query(
+      `INSERT INTO security_events (id, event_type, user_id, email, ip_address, details, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        randomUUID(),
+        event.type,
+        event.userId ?? null,
+        event.email ?? null,
+        event.ipAddress ?? null,
+        JSON.stringify(event.details ?? {}),
+        new Date().toISOString()
+      ]
+    );
+  },
+
+  // Newest first
+  async list(filters: SecurityEventFilters = {}, options: PageOptions = {}): Promise<Page<SecurityEvent>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions();
+    if (filters.type) {
+      where.add(p => `event_type = ${p}`, filters.type);
+    }
+    if (filters.userId) {
+      where.add(p => `user_id = ${p}`, filters.userId);
+    }
+
+    const countResult = await query(`SELECT COUNT(*) as total FROM security_events ${where.where()}`, where.params);
+    const result = await query<SecurityEventRow>(
+      `SELECT ${SECURITY_EVENT_COLUMNS} FROM security_events
+       ${where.where()}
+       ORDER BY created_at DESC
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: result.rows.map(toSecurityEvent),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  }
+};
@@ -0,0 +1,148 @@
+import { query } from '../config/database.js';
+import { SellerProductPerformance } from '../types.js';
+import { toNumber, toInteger, toIsoString, NumericColumn } from './helpers.js';
+
+// Whole days, from the first up to and including the last (YYYY-MM-DD, UTC)
+export interface DayRange {
+  startDate: string;
+  endDate: string;
+}
+
+export interface DailySales {
+  date: string;
+  revenue: number;
+  orders: number;
+  refundedAmount: number;
+}
+
+export interface DailyViews {
+  date: string;
+  views: number;
+}
+
+// Orders count once paid, and keep counting when refunded later
+const PAID_STATUSES = "('paid', 'refunded')";
+
+const toDay = (value: unknown) => toIsoString(value).slice(0, 10);
+
+// The day after `date`, as the exclusive upper bound of a timestamp range
+const dayAfter = (date: string) => {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+};
+
+interface PerformanceRow {
+  views: NumericColumn;
+  orders: NumericColumn;
+  id: string;
+  name: string;
+  units: NumericColumn;
+  revenue: NumericColumn;
+}
+
+const toPerformance = (row: PerformanceRow): SellerProductPerformance => {
+  const views = toInteger(row.views);
+  const orders = toInteger(row.orders);
+
+  return {
+    productId: row.id,
+    productName: row.name,
+    views,
+    orders,
+    unitsSold: toInteger(row.units),
+    revenue: Math.round(toNumber(row.revenue) * 100) / 100,
+    conversionRate: views > 0 ? Math.min(1, Math.round(orders / views * 10000) / 10000) : 0
+  };
+};
+
+export const ProductViewsRepo = {
+  // Adds a view to the product's count for today
+  async record(productId: string): Promise<void> {
+    await query(
+      `INSERT INTO product_view_counts (product_id, day, views)
+       VALUES ($1, $2, 1)
+       ON CONFLICT (product_id, day) DO UPDATE SET views = product_view_counts.views + 1`,
+      [productId, new Date().toISOString().slice(0, 10)]
+    );
+  }
+};
+
+export const SellerAnalyticsRepo = {
+  // The seller's paid orders per day they were placed; days without any are left out
+  async dailySales(sellerId: string, { startDate, endDate }: DayRange): Promise<DailySales[]> {
+    const result = await query(
+      `SELECT DATE(so.created_at) as day,
+              COUNT(*) as orders,
+              COALESCE(SUM(so.total_amount), 0) as revenue,
+              COALESCE(SUM(so.refunded_amount), 0) as refunded
+       FROM seller_orders so
+       JOIN orders o ON so.order_id = o.id
+       WHERE so.seller_id = $1 AND o.payment_status IN ${PAID_STATUSES}
+         AND so.created_at >= $2 AND so.created_at < $3
+       GROUP BY DATE(so.created_at)
+       ORDER BY DATE(so.created_at)`,
+      [sellerId, startDate, dayAfter(endDate)]
+    );
+    return result.rows.map(row => ({
+      date: toDay(row.day),
+      revenue: toNumber(row.revenue),
+      orders: toInteger(row.orders),
+      refundedAmount: toNumber(row.refunded)
+    }));
+  },
+
+  // Views of the seller's product pages per day; days without any are left out
+  async dailyViews(sellerId: string, { startDate, endDate }: DayRange): Promise<DailyViews[]> {
+    const result = await query<{ day: string; views: NumericColumn }>(
+      `SELECT vc.day, SUM(vc.views) as views
+       FROM product_view_counts vc
+       JOIN products p ON vc.product_id = p.id
+       WHERE p.seller_id = $1 AND vc.day >= $2 AND vc.day <= $3
+       GROUP BY vc.day
+       ORDER BY vc.day`,
+      [sellerId, startDate, endDate]
+    );
+    return result.rows.map(row => ({ date: row.day, views: toInteger(row.views) }));
+  },
+
+  // Products viewed or sold in the range, best sellers first; all of them
+  // when no limit is given
+  async productPerformance(sellerId: string, { startDate, endDate }: DayRange, limit?: number): Promise<SellerProductPerformance[]> {
+    const params: unknown[] = [sellerId, startDate, dayAfter(endDate), startDate, endDate];
+    if (limit !== undefined) {
+      params.push(limit);
+    }
+
+    const result = await query<PerformanceRow>(
+      `SELECT p.id, p.name,
+              COALESCE(sales.orders, 0) as orders,
+              COALESCE(sales.units, 0) as units,
+              COALESCE(sales.revenue, 0) as revenue,
+              COALESCE(viewed.views, 0) as views
+       FROM products p
+       LEFT JOIN (
+         SELECT oi.product_id,
+                COUNT(DISTINCT oi.order_id) as orders,
+                SUM(oi.quantity) as units,
+                SUM(oi.total_price - COALESCE(oi.discount_amount, 0)) as revenue
+         FROM order_items oi
+         JOIN orders o ON oi.order_id = o.id
+         WHERE oi.seller_id = $1 AND o.payment_status IN ${PAID_STATUSES}
+           AND o.created_at >= $2 AND o.created_at < $3
+         GROUP BY oi.product_id
+       ) sales ON sales.product_id = p.id
+       LEFT JOIN (
+         SELECT product_id, SUM(views) as views
+         FROM product_view_counts
+         WHERE day >= $4 AND day <= $5
+         GROUP BY product_id
+       ) viewed ON viewed.product_id = p.id
+       WHERE p.seller_id = $1 AND (sales.orders > 0 OR viewed.views > 0)
+       ORDER BY revenue DESC, views DESC, p.name ASC
+       ${limit !== undefined ? 'LIMIT $6' : ''}`,
+      params
+    );
+    return result.rows.map(toPerformance);
+  }
+};
@@ -0,0 +1,153 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { LedgerEntryType, SellerLedgerEntry } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, toNumber, toInteger, toIsoString,
+  NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export interface LedgerFilters {
+  type?: LedgerEntryType;
+}
+
+export interface RecordLedgerEntryInput {
+  sellerId: string;
+  type: LedgerEntryType;
+  amount: number;
+  sellerOrderId?: string | null;
+  payoutId?: string | null;
+  description?: string | null;
+}
+
+export interface LedgerBalances {
+  available: number;
+  pending: number;
+}
+
+// Seller orders whose earnings can be paid out: delivered ones, and cancelled
+// ones (fully reversed, so they only settle to zero)
+const SETTLED_STATUSES = ['delivered', 'cancelled'];
+
+interface LedgerEntryRow {
+  id: string;
+  seller_id: string;
+  type: SellerLedgerEntry['type'];
+  amount: NumericColumn;
+  seller_order_id: string | null;
+  order_id: string | null;
+  payout_id: string | null;
+  description: string | null;
+  created_at: TimestampColumn;
+}
+
+const toLedgerEntry = (row: LedgerEntryRow): SellerLedgerEntry => ({
+  id: row.id,
+  sellerId: row.seller_id,
+  type: row.type,
+  amount: toNumber(row.amount),
+  sellerOrderId: row.seller_order_id ?? undefined,
+  orderId: row.order_id ?? undefined,
+  payoutId: row.payout_id ?? undefined,
+  description: row.description ?? undefined,
+  createdAt: toIsoString(row.created_at)
+});
+
+export const SellerLedgerRepo = {
+  async list(sellerId: string, filters: LedgerFilters = {}, options: PageOptions = {}): Promise<Page<SellerLedgerEntry>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions();
+
+    where.add(p => `le.seller_id = ${p}`, sellerId);
+    if (filters.type) {
+      where.add(p => `le.type = ${p}`, filters.type);
+    }
+
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM seller_ledger_entries le ${where.where()}`,
+      where.params
+    );
+
+    const result = await query<LedgerEntryRow>(
+      `SELECT le.id, le.seller_id, le.type, le.amount, le.seller_order_id, le.payout_id,
+              le.description, le.created_at, so.order_id
+       FROM seller_ledger_entries le
+       LEFT JOIN seller_orders so ON le.seller_order_id = so.id
+       ${where.where()}
+       ORDER BY le.created_at DESC
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: result.rows.map(toLedgerEntry),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  async record(input: RecordLedgerEntryInput): Promise<void> {
+    // Millisecond timestamps keep entries written in one transaction in order
+    await query(
+      `INSERT INTO seller_ledger_entries (id, seller_id, type, amount, seller_order_id, payout_id, description, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        randomUUID(), input.sellerId, input.type, input.amount, input.sellerOrderId || null,
+        input.payoutId || null, input.description || null, new Date().toISOString()
+      ]
+    );
+  },
+
+  // Sum of the seller's entries of each type
+  async sumByType(sellerId: string): Promise<Partial<Record<LedgerEntryType, number>>> {
+    const result = await query(
+      `SELECT type, COALESCE(SUM(amount), 0) as total
+       FROM seller_ledger_entries
+       WHERE seller_id = $1
+       GROUP BY type`,
+      [sellerId]
+    );
+    return Object.fromEntries(result.rows.map(row => [row.type, toNumber(row.total)]));
+  },
+
+  async sumForSellerOrder(sellerOrderId: string, type: LedgerEntryType): Promise<number> {
+    const result = await query(
+      `SELECT COALESCE(SUM(amount), 0) as total
+       FROM seller_ledger_entries
+       WHERE seller_order_id = $1 AND type = $2`,
+      [sellerOrderId, type]
+    );
+    return toNumber(result.rows[0].total);
+  },
+
+  // Entries without a seller order (payouts) always count as available
+  async balances(sellerId: string): Promise<LedgerBalances> {
+    const result = await query(
+      `SELECT
+         COALESCE(SUM(CASE WHEN so.id IS NULL OR ${dialect.inArray('so.status', '$2')} THEN le.amount ELSE 0 END), 0) as available,
+         COALESCE(SUM(CASE WHEN so.id IS NOT NULL AND NOT ${dialect.inArray('so.status', '$2')} THEN le.amount ELSE 0 END), 0) as pending
+       FROM seller_ledger_entries le
+       LEFT JOIN seller_orders so ON le.seller_order_id = so.id
+       WHERE le.seller_id = $1`,
+      [sellerId, SETTLED_STATUSES]
+    );
+    return {
+      available: toNumber(result.rows[0].available),
+      pending: toNumber(result.rows[0].pending)
+    };
+  },
+
+  // Available balance of every seller owed at least `minimum`
+  async listAvailableBalances(minimum: number): Promise<Array<{ sellerId: string; amount: number }>> {
+    const result = await query<{ seller_id: string; available: NumericColumn }>(
+      `SELECT le.seller_id, SUM(le.amount) as available
+       FROM seller_ledger_entries le
+       LEFT JOIN seller_orders so ON le.seller_order_id = so.id
+       WHERE so.id IS NULL OR ${dialect.inArray('so.status', '$1')}
+       GROUP BY le.seller_id
+       HAVING SUM(le.amount) >= $2 AND SUM(le.amount) > 0`,
+      [SETTLED_STATUSES, minimum]
+    );
+    return result.rows.map(row => ({ sellerId: row.seller_id, amount: Math.round(toNumber(row.available) * 100) / 100 }));
+  }
+};
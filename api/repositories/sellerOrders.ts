@@ -0,0 +1,180 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { SellerOrder } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, toNumber, toIsoString, toInteger, toAddress,
+  NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export interface SellerOrderFilters {
+  sellerId?: string;
+  status?: string;
+}
+
+export interface CreateSellerOrderInput {
+  orderId: string;
+  sellerId: string;
+  subtotalAmount: number;
+  discountAmount: number;
+  totalAmount: number;
+  commissionRate: number;
+  commissionAmount: number;
+}
+
+const SELLER_ORDER_COLUMNS = `so.id, so.order_id, so.seller_id, so.status, so.subtotal_amount, so.discount_amount,
+  so.total_amount, so.commission_rate, so.commission_amount, so.refunded_amount, so.tracking_number,
+  so.created_at, so.updated_at, s.full_name as seller_name,
+  o.payment_status, o.shipping_address, c.full_name as customer_name`;
+
+const SELLER_ORDER_FROM = `seller_orders so
+  JOIN orders o ON so.order_id = o.id
+  LEFT JOIN users s ON so.seller_id = s.id
+  LEFT JOIN users c ON o.user_id = c.id`;
+
+interface SellerOrderRow {
+  id: string;
+  order_id: string;
+  seller_id: string;
+  seller_name: string | null;
+  status: SellerOrder['status'];
+  subtotal_amount: NumericColumn;
+  discount_amount: NumericColumn;
+  total_amount: NumericColumn;
+  commission_rate: NumericColumn;
+  commission_amount: NumericColumn;
+  refunded_amount: NumericColumn;
+  tracking_number: string | null;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+  payment_status: SellerOrder['paymentStatus'] | null;
+  shipping_address: unknown;
+  customer_name: string | null;
+}
+
+const toSellerOrder = (row: SellerOrderRow): SellerOrder => ({
+  id: row.id,
+  orderId: row.order_id,
+  sellerId: row.seller_id,
+  sellerName: row.seller_name ?? undefined,
+  status: row.status,
+  subtotalAmount: toNumber(row.subtotal_amount),
+  discountAmount: toNumber(row.discount_amount),
+  totalAmount: toNumber(row.total_amount),
+  commissionRate: toNumber(row.commission_rate),
+  commissionAmount: toNumber(row.commission_amount),
+  refundedAmount: toNumber(row.refunded_amount),
+  trackingNumber: row.tracking_number ?? undefined,
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at),
+  paymentStatus: row.payment_status ?? undefined,
+  shippingAddress: toAddress(row.shipping_address),
+  customerName: row.customer_name ?? undefined
+});
+
+export const SellerOrdersRepo = {
+  async list(filters: SellerOrderFilters = {}, options: PageOptions = {}): Promise<Page<SellerOrder>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions();
+
+    if (filters.sellerId) {
+      where.add(p => `so.seller_id = ${p}`, filters.sellerId);
+    }
+    if (filters.status) {
+      where.add(p => `so.status = ${p}`, filters.status);
+    }
+
+    const countResult = await query(`SELECT COUNT(*) as total FROM seller_orders so ${where.where()}`, where.params);
+
+    const result = await query<SellerOrderRow>(
+      `SELECT ${SELLER_ORDER_COLUMNS}
+       FROM ${SELLER_ORDER_FROM}
+       ${where.where()}
+       ORDER BY so.created_at DESC
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: result.rows.map(toSellerOrder),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  async findById(id: string): Promise<SellerOrder | null> {
+    const result = await query<SellerOrderRow>(
+      `SELECT ${SELLER_ORDER_COLUMNS} FROM ${SELLER_ORDER_FROM} WHERE so.id = $1`,
+      [id]
+    );
+    return result.rows.length > 0 ? toSellerOrder(result.rows[0]) : null;
+  },
+
+  async listByOrder(orderId: string): Promise<SellerOrder[]> {
+    const result = await query<SellerOrderRow>(
+      `SELECT ${SELLER_ORDER_COLUMNS} FROM ${SELLER_ORDER_FROM} WHERE so.order_id = $1 ORDER BY s.full_name`,
+      [orderId]
+    );
+    return result.rows.map(toSellerOrder);
+  },
+
+  // Creates the seller order and attaches the seller's lines of the order to it
+  async create(input: CreateSellerOrderInput): Promise<SellerOrder> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO seller_orders (
+        id, order_id, seller_id, subtotal_amount, discount_amount, total_amount, commission_rate, commission_amount
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        id, input.orderId, input.sellerId, input.subtotalAmount, input.discountAmount, input.totalAmount,
+        input.commissionRate, input.commissionAmount
+      ]
+    );
+    await query(
+      'UPDATE order_items SET seller_order_id = $1 WHERE order_id = $2 AND seller_id = $3',
+      [id, input.orderId, input.sellerId]
+    );
+    return (await SellerOrdersRepo.findById(id))!;
+  },
+
+  // Compare-and-set like OrdersRepo.transitionStatus
+  async transitionStatus(
+    id: string,
+    from: SellerOrder['status'],
+    to: SellerOrder['status'],
+    { trackingNumber }: { trackingNumber?: string | null } = {}
+  ): Promise<boolean> {
+    const result = await query(
+      `UPDATE seller_orders
+       SET status = $1, tracking_number = COALESCE($2, tracking_number), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $3 AND status = $4`,
+      [to, trackingNumber || null, id, from]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Moves every seller order of the order still in one of `from` to `to`
+  async advanceByOrder(orderId: string, from: SellerOrder['status'][], to: SellerOrder['status']): Promise<void> {
+    if (from.length === 0) return;
+    await query(
+      `UPDATE seller_orders
+       SET status = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE order_id = $2 AND ${dialect.inArray('status', '$3')}`,
+      [to, orderId, from]
+    );
+  },
+
+  // Adds to the seller order's refunded total, never beyond its total
+  async addRefund(id: string, amount: number): Promise<void> {
+    await query(
+      `UPDATE seller_orders
+       SET refunded_amount = CASE
+             WHEN refunded_amount + $1 > total_amount THEN total_amount
+             ELSE refunded_amount + $1
+           END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2`,
+      [amount, id]
+    );
+  }
+};
@@ -0,0 +1,123 @@
+import { randomUUID } from 'crypto';
+import { query } from '../config/database.js';
+import { PayoutStatus, SellerPayout } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, toNumber, toInteger, toIsoString,
+  NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export interface PayoutFilters {
+  sellerId?: string;
+  status?: PayoutStatus;
+  batchId?: string;
+}
+
+export interface CreatePayoutInput {
+  batchId: string;
+  sellerId: string;
+  amount: number;
+  createdBy?: string | null;
+}
+
+const PAYOUT_COLUMNS = `sp.id, sp.batch_id, sp.seller_id, sp.amount, sp.status, sp.reference,
+  sp.created_at, sp.settled_at, u.full_name as seller_name`;
+
+interface PayoutRow {
+  id: string;
+  batch_id: string;
+  seller_id: string;
+  seller_name: string | null;
+  amount: NumericColumn;
+  status: SellerPayout['status'];
+  reference: string | null;
+  created_at: TimestampColumn;
+  settled_at: TimestampColumn | null;
+}
+
+const toPayout = (row: PayoutRow): SellerPayout => ({
+  id: row.id,
+  batchId: row.batch_id,
+  sellerId: row.seller_id,
+  sellerName: row.seller_name ?? undefined,
+  amount: toNumber(row.amount),
+  status: row.status,
+  reference: row.reference ?? undefined,
+  createdAt: toIsoString(row.created_at),
+  settledAt: row.settled_at ? toIsoString(row.settled_at) : undefined
+});
+
+export const SellerPayoutsRepo = {
+  async list(filters: PayoutFilters = {}, options: PageOptions = {}): Promise<Page<SellerPayout>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions();
+
+    if (filters.sellerId) {
+      where.add(p => `sp.seller_id = ${p}`, filters.sellerId);
+    }
+    if (filters.status) {
+      where.add(p => `sp.status = ${p}`, filters.status);
+    }
+    if (filters.batchId) {
+      where.add(p => `sp.batch_id = ${p}`, filters.batchId);
+    }
+
+    const countResult = await query(`SELECT COUNT(*) as total FROM seller_payouts sp ${where.where()}`, where.params);
+
+    const result = await query<PayoutRow>(
+      `SELECT ${PAYOUT_COLUMNS}
+       FROM seller_payouts sp
+       LEFT JOIN users u ON sp.seller_id = u.id
+       ${where.where()}
+       ORDER BY sp.created_at DESC
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: result.rows.map(toPayout),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  async findById(id: string): Promise<SellerPayout | null> {
+    const result = await query<PayoutRow>(
+      `SELECT ${PAYOUT_COLUMNS} FROM seller_payouts sp LEFT JOIN users u ON sp.seller_id = u.id WHERE sp.id = $1`,
+      [id]
+    );
+    return result.rows.length > 0 ? toPayout(result.rows[0]) : null;
+  },
+
+  async create(input: CreatePayoutInput): Promise<SellerPayout> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO seller_payouts (id, batch_id, seller_id, amount, created_by)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [id, input.batchId, input.sellerId, input.amount, input.createdBy || null]
+    );
+    return (await SellerPayoutsRepo.findById(id))!;
+  },
+
+  // Settles a pending payout; returns false when it was already settled
+  async settle(id: string, status: Exclude<PayoutStatus, 'pending'>, reference?: string | null): Promise<boolean> {
+    const result = await query(
+      `UPDATE seller_payouts
+       SET status = $1, reference = COALESCE($2, reference), settled_at = $3
+       WHERE id = $4 AND status = 'pending'`,
+      [status, reference || null, new Date().toISOString(), id]
+    );
+    return result.rowCount > 0;
+  },
+
+  async sumByStatus(sellerId: string): Promise<Partial<Record<PayoutStatus, number>>> {
+    const result = await query(
+      `SELECT status, COALESCE(SUM(amount), 0) as total
+       FROM seller_payouts
+       WHERE seller_id = $1
+       GROUP BY status`,
+      [sellerId]
+    );
+    return Object.fromEntries(result.rows.map(row => [row.status, toNumber(row.total)]));
+  }
+};
@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { ShippingBasis, ShippingRate, ShippingZone } from '../types.js';
+import {
+  createConditions, buildUpdate, toStringArray, toIsoString, BooleanColumn, TimestampColumn
+} from './helpers.js';
+import { normalizeCountry } from './taxRules.js';
+
+export interface CreateShippingZoneInput {
+  name: string;
+  countries?: string[];
+  basis?: ShippingBasis;
+  rates: ShippingRate[];
+  isActive?: boolean;
+}
+
+export type UpdateShippingZoneInput = Partial<CreateShippingZoneInput>;
+
+const SHIPPING_ZONE_COLUMNS = `id, name, countries, basis, rates, is_active, created_at, updated_at`;
+
+const JSON_FIELDS = ['countries', 'rates'];
+
+interface ShippingZoneRow {
+  id: string;
+  name: string;
+  countries: unknown;
+  basis: ShippingZone['basis'];
+  rates: unknown;
+  is_active: BooleanColumn;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+}
+
+const toShippingZone = (row: ShippingZoneRow): ShippingZone => ({
+  id: row.id,
+  name: row.name,
+  countries: toStringArray(row.countries),
+  basis: row.basis,
+  rates: dialect.parseJson<ShippingRate[]>(row.rates, []),
+  isActive: dialect.parseBoolean(row.is_active),
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at)
+});
+
+// Brackets are kept in ascending order with the open-ended one last
+const sortRates = (rates: ShippingRate[]) =>
+  [...rates].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+
+export const ShippingZonesRepo = {
+  async list({ isActive }: { isActive?: boolean } = {}): Promise<ShippingZone[]> {
+    const where = createConditions();
+
+    if (isActive !== undefined) {
+      where.add(p => `is_active = ${p}`, isActive);
+    }
+
+    const result = await query<ShippingZoneRow>(
+      `SELECT ${SHIPPING_ZONE_COLUMNS}
+       FROM shipping_zones
+       ${where.where()}
+       ORDER BY created_at`,
+      where.params
+    );
+    return result.rows.map(toShippingZone);
+  },
+
+  async findById(id: string): Promise<ShippingZone | null> {
+    const result = await query<ShippingZoneRow>(
+      `SELECT ${SHIPPING_ZONE_COLUMNS} FROM shipping_zones WHERE id = $1`,
+      [id]
+    );
+    return result.rows.length > 0 ? toShippingZone(result.rows[0]) : null;
+  },
+
+  async create(input: CreateShippingZoneInput): Promise<ShippingZone> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO shipping_zones (id, name, countries, basis, rates, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        id, input.name, JSON.stringify((input.countries || []).map(normalizeCountry)),
+        input.basis ?? 'price', JSON.stringify(sortRates(input.rates)), input.isActive ?? true
+      ]
+    );
+    return (await ShippingZonesRepo.findById(id))!;
+  },
+
+  async update(id: string, changes: UpdateShippingZoneInput): Promise<ShippingZone | null> {
+    const { assignments, params } = buildUpdate(
+      {
+        ...changes,
+        countries: changes.countries?.map(normalizeCountry),
+        rates: changes.rates && sortRates(changes.rates)
+      },
+      {
+        name: 'name',
+        countries: 'countries',
+        basis: 'basis',
+        rates: 'rates',
+        isActive: 'is_active'
+      },
+      JSON_FIELDS
+    );
+
+    if (assignments.length > 0) {
+      params.push(id);
+      await query(
+        `UPDATE shipping_zones
+         SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${params.length}`,
+        params
+      );
+    }
+
+    return ShippingZonesRepo.findById(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    await query('DELETE FROM shipping_zones WHERE id = $1', [id]);
+  }
+};
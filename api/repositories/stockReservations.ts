@@ -0,0 +1,102 @@
+import { randomUUID } from 'crypto';
+import { query } from '../config/database.js';
+import { toInteger, toIsoString, NumericColumn, TimestampColumn } from './helpers.js';
+
+export type ReservationStatus = 'active' | 'committed' | 'released' | 'expired';
+
+export interface StockReservation {
+  id: string;
+  orderId: string;
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  status: ReservationStatus;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface CreateReservationInput {
+  orderId: string;
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  expiresAt: Date;
+}
+
+const RESERVATION_COLUMNS = 'id, order_id, product_id, variant_id, quantity, status, expires_at, created_at';
+
+interface ReservationRow {
+  id: string;
+  order_id: string;
+  product_id: string;
+  variant_id: string | null;
+  quantity: NumericColumn;
+  status: StockReservation['status'];
+  expires_at: TimestampColumn;
+  created_at: TimestampColumn;
+}
+
+const toReservation = (row: ReservationRow): StockReservation => ({
+  id: row.id,
+  orderId: row.order_id,
+  productId: row.product_id,
+  variantId: row.variant_id ?? undefined,
+  quantity: toInteger(row.quantity),
+  status: row.status,
+  expiresAt: toIsoString(row.expires_at),
+  createdAt: toIsoString(row.created_at)
+});
+
+// `active` rows hold stock for an unpaid order; `committed` ones were sold
+export const StockReservationsRepo = {
+  async create(input: CreateReservationInput): Promise<StockReservation> {
+    const id = randomUUID();
+    const result = await query<ReservationRow>(
+      `INSERT INTO stock_reservations (id, order_id, product_id, variant_id, quantity, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${RESERVATION_COLUMNS}`,
+      [id, input.orderId, input.productId, input.variantId || null, input.quantity, input.expiresAt.toISOString()]
+    );
+    return toReservation(result.rows[0]);
+  },
+
+  async listActiveByOrder(orderId: string): Promise<StockReservation[]> {
+    const result = await query<ReservationRow>(
+      `SELECT ${RESERVATION_COLUMNS}
+       FROM stock_reservations
+       WHERE order_id = $1 AND status = 'active'
+       ORDER BY created_at`,
+      [orderId]
+    );
+    return result.rows.map(toReservation);
+  },
+
+  // Active reservations past their deadline, oldest first
+  async listExpired(now: Date = new Date()): Promise<StockReservation[]> {
+    const result = await query<ReservationRow>(
+      `SELECT ${RESERVATION_COLUMNS}
+       FROM stock_reservations
+       WHERE status = 'active' AND expires_at <= $1
+       ORDER BY expires_at`,
+      [now.toISOString()]
+    );
+    return result.rows.map(toReservation);
+  },
+
+  // Moves the order's reservations in `from` (default: those still holding
+  // stock) to a terminal status and returns the rows that moved
+  async settleByOrder(
+    orderId: string,
+    status: Exclude<ReservationStatus, 'active'>,
+    from: ReservationStatus = 'active'
+  ): Promise<StockReservation[]> {
+    const result = await query<ReservationRow>(
+      `UPDATE stock_reservations
+       SET status = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE order_id = $2 AND status = $3
+       RETURNING ${RESERVATION_COLUMNS}`,
+      [status, orderId, from]
+    );
+    return result.rows.map(toReservation);
+  }
+};
@@ -0,0 +1,126 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { TaxRule, TaxScope } from '../types.js';
+import {
+  createConditions, buildUpdate, toNumber, toIsoString, BooleanColumn, NumericColumn,
+  TimestampColumn
+} from './helpers.js';
+
+export interface TaxRuleFilters {
+  country?: string;
+  isActive?: boolean;
+}
+
+export interface CreateTaxRuleInput {
+  name: string;
+  country: string;
+  region?: string | null;
+  category?: string | null;
+  appliesTo?: TaxScope;
+  rate: number;
+  isActive?: boolean;
+}
+
+export type UpdateTaxRuleInput = Partial<CreateTaxRuleInput>;
+
+const TAX_RULE_COLUMNS = `id, name, country, region, category, applies_to, rate, is_active, created_at, updated_at`;
+
+interface TaxRuleRow {
+  id: string;
+  name: string;
+  country: string;
+  region: string | null;
+  category: string | null;
+  applies_to: TaxRule['appliesTo'];
+  rate: NumericColumn;
+  is_active: BooleanColumn;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+}
+
+const toTaxRule = (row: TaxRuleRow): TaxRule => ({
+  id: row.id,
+  name: row.name,
+  country: row.country,
+  region: row.region ?? undefined,
+  category: row.category ?? undefined,
+  appliesTo: row.applies_to,
+  rate: toNumber(row.rate),
+  isActive: dialect.parseBoolean(row.is_active),
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at)
+});
+
+// Countries are stored as upper-case ISO codes
+export const normalizeCountry = (country: string) => country.trim().toUpperCase();
+
+export const TaxRulesRepo = {
+  async list(filters: TaxRuleFilters = {}): Promise<TaxRule[]> {
+    const where = createConditions();
+
+    if (filters.country) {
+      where.add(p => `country = ${p}`, normalizeCountry(filters.country));
+    }
+    if (filters.isActive !== undefined) {
+      where.add(p => `is_active = ${p}`, filters.isActive);
+    }
+
+    const result = await query<TaxRuleRow>(
+      `SELECT ${TAX_RULE_COLUMNS}
+       FROM tax_rules
+       ${where.where()}
+       ORDER BY country, region, category, created_at`,
+      where.params
+    );
+    return result.rows.map(toTaxRule);
+  },
+
+  async findById(id: string): Promise<TaxRule | null> {
+    const result = await query<TaxRuleRow>(`SELECT ${TAX_RULE_COLUMNS} FROM tax_rules WHERE id = $1`, [id]);
+    return result.rows.length > 0 ? toTaxRule(result.rows[0]) : null;
+  },
+
+  async create(input: CreateTaxRuleInput): Promise<TaxRule> {
+    const id = randomUUID();
+    await query(
+      `INSERT INTO tax_rules (id, name, country, region, category, applies_to, rate, is_active)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        id, input.name, normalizeCountry(input.country), input.region || null, input.category || null,
+        input.appliesTo ?? 'all', input.rate, input.isActive ?? true
+      ]
+    );
+    return (await TaxRulesRepo.findById(id))!;
+  },
+
+  async update(id: string, changes: UpdateTaxRuleInput): Promise<TaxRule | null> {
+    const { assignments, params } = buildUpdate(
+      { ...changes, country: changes.country !== undefined ? normalizeCountry(changes.country) : undefined },
+      {
+        name: 'name',
+        country: 'country',
+        region: 'region',
+        category: 'category',
+        appliesTo: 'applies_to',
+        rate: 'rate',
+        isActive: 'is_active'
+      }
+    );
+
+    if (assignments.length > 0) {
+      params.push(id);
+      await query(
+        `UPDATE tax_rules
+         SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${params.length}`,
+        params
+      );
+    }
+
+    return TaxRulesRepo.findById(id);
+  },
+
+  async delete(id: string): Promise<void> {
+    await query('DELETE FROM tax_rules WHERE id = $1', [id]);
+  }
+};
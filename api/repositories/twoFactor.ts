@@ -0,0 +1,170 @@
+import { randomUUID } from 'crypto';
+import { query } from '../config/database.js';
+import { toInteger, toIsoString, NumericColumn, TimestampColumn } from './helpers.js';
+
+// A user's two-factor setup; the secrets are encrypted
+export interface TwoFactorState {
+  enabledAt?: string;
+  secret?: string;
+  pendingSecret?: string;
+  lastStep?: number;
+}
+
+export interface TwoFactorChallengeRecord {
+  id: string;
+  userId: string;
+  expiresAt: string;
+  attempts: number;
+  completedAt?: string;
+}
+
+export const TwoFactorRepo = {
+  async getState(userId: string): Promise<TwoFactorState | null> {
+    const result = await query<{
+      two_factor_enabled_at: TimestampColumn | null;
+      two_factor_secret: string | null;
+      two_factor_pending_secret: string | null;
+      two_factor_last_step: NumericColumn | null;
+    }>(
+      `SELECT two_factor_enabled_at, two_factor_secret, two_factor_pending_secret, two_factor_last_step
+       FROM users WHERE id = $1`,
+      [userId]
+    );
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      enabledAt: row.two_factor_enabled_at ? toIsoString(row.two_factor_enabled_at) : undefined,
+      secret: row.two_factor_secret ?? undefined,
+      pendingSecret: row.two_factor_pending_secret ?? undefined,
+      lastStep: row.two_factor_last_step ? toInteger(row.two_factor_last_step) : undefined
+    };
+  },
+
+  async setPendingSecret(userId: string, pendingSecret: string): Promise<void> {
+    await query('UPDATE users SET two_factor_pending_secret = $1 WHERE id = $2', [pendingSecret, userId]);
+  },
+
+  // Turns the pending secret into the active one; false when none is pending
+  async enable(userId: string, lastStep: number): Promise<boolean> {
+    const result = await query(
+      `UPDATE users
+       SET two_factor_enabled = true, two_factor_enabled_at = $1,
+           two_factor_secret = two_factor_pending_secret, two_factor_pending_secret = NULL,
+           two_factor_last_step = $2
+       WHERE id = $3 AND two_factor_pending_secret IS NOT NULL`,
+      [new Date().toISOString(), lastStep, userId]
+    );
+    return result.rowCount > 0;
+  },
+
+  async disable(userId: string): Promise<void> {
+    await query(
+      `UPDATE users
+       SET two_factor_enabled = false, two_factor_enabled_at = NULL, two_factor_secret = NULL,
+           two_factor_pending_secret = NULL, two_factor_last_step = NULL
+       WHERE id = $1`,
+      [userId]
+    );
+  },
+
+  // Records the step of an accepted code; false when that step or a later
+  // one was already used, i.e. the code is being replayed
+  async claimStep(userId: string, step: number): Promise<boolean> {
+    const result = await query(
+      `UPDATE users SET two_factor_last_step = $1
+       WHERE id = $2 AND (two_factor_last_step IS NULL OR two_factor_last_step < $1)`,
+      [step, userId]
+    );
+    return result.rowCount > 0;
+  }
+};
+
+export const RecoveryCodesRepo = {
+  // Swaps the user's codes for a new set
+  async replaceAll(userId: string, codeHashes: string[]): Promise<void> {
+    await query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+    const now = new Date().toISOString();
+    for (const codeHash of codeHashes) {
+      await query(
+        'INSERT INTO two_factor_recovery_codes (id, user_id, code_hash, created_at) VALUES ($1, $2, $3, $4)',
+        [randomUUID(), userId, codeHash, now]
+      );
+    }
+  },
+
+  async deleteAll(userId: string): Promise<void> {
+    await query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+  },
+
+  async countUnused(userId: string): Promise<number> {
+    const result = await query(
+      'SELECT COUNT(*) AS count FROM two_factor_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+      [userId]
+    );
+    return toInteger(result.rows[0].count);
+  },
+
+  // Uses up the matching code; false when the user has no such unused code
+  async redeem(userId: string, codeHash: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE two_factor_recovery_codes SET used_at = $1
+       WHERE user_id = $2 AND code_hash = $3 AND used_at IS NULL`,
+      [new Date().toISOString(), userId, codeHash]
+    );
+    return result.rowCount > 0;
+  }
+};
+
+interface ChallengeRow {
+  id: string;
+  user_id: string;
+  expires_at: TimestampColumn;
+  attempts: NumericColumn;
+  completed_at: TimestampColumn | null;
+}
+
+const toChallenge = (row: ChallengeRow): TwoFactorChallengeRecord => ({
+  id: row.id,
+  userId: row.user_id,
+  expiresAt: toIsoString(row.expires_at),
+  attempts: toInteger(row.attempts),
+  completedAt: row.completed_at ? toIsoString(row.completed_at) : undefined
+});
+
+export const TwoFactorChallengesRepo = {
+  async findById(id: string): Promise<TwoFactorChallengeRecord | null> {
+    const result = await query<ChallengeRow>(
+      'SELECT id, user_id, expires_at, attempts, completed_at FROM two_factor_challenges WHERE id = $1',
+      [id]
+    );
+    return result.rows.length > 0 ? toChallenge(result.rows[0]) : null;
+  },
+
+  async create(userId: string, expiresAt: string): Promise<TwoFactorChallengeRecord> {
+    const id = randomUUID();
+    await query(
+      'INSERT INTO two_factor_challenges (id, user_id, created_at, expires_at) VALUES ($1, $2, $3, $4)',
+      [id, userId, new Date().toISOString(), expiresAt]
+    );
+    return (await TwoFactorChallengesRepo.findById(id))!;
+  },
+
+  async recordAttempt(id: string): Promise<void> {
+    await query('UPDATE two_factor_challenges SET attempts = attempts + 1 WHERE id = $1', [id]);
+  },
+
+  // Closes the challenge; false when it already was
+  async complete(id: string): Promise<boolean> {
+    const result = await query(
+      'UPDATE two_factor_challenges SET completed_at = $1 WHERE id = $2 AND completed_at IS NULL',
+      [new Date().toISOString(), id]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Challenges are only good for minutes; old ones are dropped as new ones open
+  async deleteExpired(): Promise<void> {
+    await query('DELETE FROM two_factor_challenges WHERE expires_at < $1', [new Date().toISOString()]);
+  }
+};
@@ -0,0 +1,349 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { User } from '../types.js';
+import {
+  PageOptions, Page, resolvePage, createConditions, buildUpdate, toInteger, toIsoString,
+  BooleanColumn, NumericColumn, TimestampColumn
+} from './helpers.js';
+
+export interface CreateUserInput {
+  username: string;
+  email: string;
+  passwordHash: string;
+  fullName: string;
+}
+
+export interface UpdateProfileInput {
+  fullName?: string;
+  bio?: string;
+  location?: string;
+  website?: string;
+}
+
+export interface UserFilters {
+  search?: string;
+  role?: string;
+  isActive?: boolean;
+  // Include email and last login (admin listings)
+  includePrivate?: boolean;
+}
+
+export type FollowUser = User & { followedAt: string };
+
+// Safe to show to other users
+const PUBLIC_USER_COLUMNS = `users.id, users.username, users.full_name, users.avatar_url,
+  users.bio, users.location, users.website, users.role, users.is_verified, users.is_active,
+  users.created_at, users.updated_at`;
+
+const USER_COLUMNS = `${PUBLIC_USER_COLUMNS}, users.email, users.subscription_type,
+  users.email_verified, users.two_factor_enabled, users.last_login`;
+
+const COUNT_COLUMNS = `
+  (SELECT COUNT(*) FROM posts WHERE author_id = users.id) as posts_count,
+  (SELECT COUNT(*) FROM follows WHERE following_id = users.id) as followers_count,
+  (SELECT COUNT(*) FROM follows WHERE follower_id = users.id) as following_count`;
+
+const optionalCount = (value: unknown) =>
+  value === undefined || value === null ? undefined : toInteger(value);
+
+interface UserRow {
+  id: string;
+  email: string | null;
+  full_name: string;
+  username: string;
+  avatar_url: string | null;
+  role: User['role'];
+  is_active: BooleanColumn;
+  subscription_type: User['subscription_type'] | null;
+  created_at: TimestampColumn;
+  updated_at: TimestampColumn;
+  last_login: TimestampColumn | null;
+  bio: string | null;
+  location: string | null;
+  website: string | null;
+  is_verified: BooleanColumn;
+  email_verified: BooleanColumn;
+  two_factor_enabled: BooleanColumn;
+  // Only selected with the profile counts
+  posts_count?: NumericColumn;
+  followers_count?: NumericColumn;
+  following_count?: NumericColumn;
+}
+
+const toUser = (row: UserRow): User => ({
+  id: row.id,
+  email: row.email ?? undefined,
+  name: row.full_name,
+  full_name: row.full_name,
+  username: row.username,
+  avatar: row.avatar_url ?? undefined,
+  avatar_url: row.avatar_url ?? undefined,
+  role: row.role,
+  isActive: dialect.parseBoolean(row.is_active),
+  subscription_type: row.subscription_type ?? undefined,
+  createdAt: toIsoString(row.created_at),
+  updatedAt: toIsoString(row.updated_at),
+  lastLogin: row.last_login ? toIsoString(row.last_login) : undefined,
+  bio: row.bio ?? undefined,
+  location: row.location ?? undefined,
+  website: row.website ?? undefined,
+  isVerified: dialect.parseBoolean(row.is_verified),
+  emailVerified: row.email_verified === undefined ? undefined : dialect.parseBoolean(row.email_verified),
+  twoFactorEnabled: row.two_factor_enabled === undefined ? undefined : dialect.parseBoolean(row.two_factor_enabled),
+  postsCount: optionalCount(row.posts_count),
+  followersCount: optionalCount(row.followers_count),
+  followingCount: optionalCount(row.following_count)
+});
+
+// Sets `isFollowing` on each user for the signed-in viewer
+const markFollowing = async <T extends User>(users: T[], viewerId?: string): Promise<T[]> => {
+  const ids = users.filter(user => user.id !== viewerId).map(user => user.id);
+  if (!viewerId || ids.length === 0) return users;
+
+  const result = await query(
+    `SELECT following_id FROM follows
+     WHERE follower_id = $1 AND ${dialect.inArray('following_id', '$2')}`,
+    [viewerId, ids]
+  );
+  const followingIds = new Set(result.rows.map(row => row.following_id));
+
+  return users.map(user =>
+    user.id === viewerId ? user : { ...user, isFollowing: followingIds.has(user.id) }
+  );
+};
+
+const listFollowRelation = async (
+  userId: string,
+  direction: 'followers' | 'following',
+  options: PageOptions,
+  viewerId?: string
+): Promise<Page<FollowUser>> => {
+  const { page, limit, offset } = resolvePage(options);
+  const [matchColumn, joinColumn] = direction === 'followers'
+    ? ['following_id', 'follower_id']
+    : ['follower_id', 'following_id'];
+
+  const countResult = await query(
+    `SELECT COUNT(*) as total FROM follows WHERE ${matchColumn} = $1`,
+    [userId]
+  );
+
+  const result = await query<UserRow & { followed_at: TimestampColumn }>(
+    `SELECT ${PUBLIC_USER_COLUMNS}, f.created_at as followed_at
+     FROM follows f
+     JOIN users ON f.${joinColumn} = users.id
+     WHERE f.${matchColumn} = $1 AND users.is_active = true
+     ORDER BY f.created_at DESC
+     LIMIT $2 OFFSET $3`,
+    [userId, limit, offset]
+  );
+
+  const users = result.rows.map(row => ({ ...toUser(row), followedAt: toIsoString(row.followed_at) }));
+
+  return {
+    items: await markFollowing(users, viewerId),
+    total: toInteger(countResult.rows[0].total),
+    page,
+    limit
+  };
+};
+
+export const UsersRepo = {
+  async findById(id: string, { activeOnly = false } = {}): Promise<User | null> {
+    const result = await query<UserRow>(
+      `SELECT ${USER_COLUMNS} FROM users WHERE id = $1${activeOnly ? ' AND is_active = true' : ''}`,
+      [id]
+    );
+    return result.rows.length > 0 ? toUser(result.rows[0]) : null;
+  },
+
+  // Public profile by id or username, with social counters
+  async findProfile(identifier: string, viewerId?: string): Promise<User | null> {
+    const result = await query<UserRow>(
+      `SELECT ${PUBLIC_USER_COLUMNS}, ${COUNT_COLUMNS}
+       FROM users
+       WHERE (id = $1 OR username = $1) AND is_active = true`,
+      [identifier]
+    );
+    if (result.rows.length === 0) return null;
+
+    const [user] = await markFollowing([toUser(result.rows[0])], viewerId);
+    return user;
+  },
+
+  async findByEmail(email: string): Promise<User | null> {
+    const result = await query<UserRow>(`SELECT ${USER_COLUMNS} FROM users WHERE email = $1`, [email]);
+    return result.rows.length > 0 ? toUser(result.rows[0]) : null;
+  },
+
+  // The only lookup that exposes the password hash, for credential checks
+  async findCredentialsByEmail(email: string): Promise<{ user: User; passwordHash: string } | null> {
+    const result = await query<UserRow & { password_hash: string }>(
+      `SELECT ${USER_COLUMNS}, users.password_hash FROM users WHERE email = $1`,
+      [email]
+    );
+    if (result.rows.length === 0) return null;
+    return { user: toUser(result.rows[0]), passwordHash: result.rows[0].password_hash };
+  },
+
+  async getPasswordHash(id: string): Promise<string | null> {
+    const result = await query<{ password_hash: string }>('SELECT password_hash FROM users WHERE id = $1', [id]);
+    return result.rows.length > 0 ? result.rows[0].password_hash : null;
+  },
+
+  async existsByEmailOrUsername(email: string, username: string): Promise<boolean> {
+    const result = await query(
+      'SELECT id FROM users WHERE email = $1 OR username = $2',
+      [email, username]
+    );
+    return result.rows.length > 0;
+  },
+
+  async create(input: CreateUserInput): Promise<User> {
+    const result = await query<UserRow>(
+      `INSERT INTO users (id, username, email, password_hash, full_name)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${USER_COLUMNS}`,
+      [randomUUID(), input.username, input.email, input.passwordHash, input.fullName]
+    );
+    return toUser(result.rows[0]);
+  },
+
+  async updateProfile(id: string, changes: UpdateProfileInput): Promise<User | null> {
+    const { assignments, params } = buildUpdate(changes as Record<string, unknown>, {
+      fullName: 'full_name',
+      bio: 'bio',
+      location: 'location',
+      website: 'website'
+    });
+
+    if (assignments.length === 0) return UsersRepo.findById(id);
+
+    params.push(id);
+    const result = await query<UserRow>(
+      `UPDATE users
+       SET ${assignments.join(', ')}, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $${params.length}
+       RETURNING ${USER_COLUMNS}`,
+      params
+    );
+    return result.rows.length > 0 ? toUser(result.rows[0]) : null;
+  },
+
+  async updateAvatar(id: string, avatarUrl: string): Promise<User | null> {
+    const result = await query<UserRow>(
+      `UPDATE users SET avatar_url = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2
+       RETURNING ${USER_COLUMNS}`,
+      [avatarUrl, id]
+    );
+    return result.rows.length > 0 ? toUser(result.rows[0]) : null;
+  },
+
+  async updatePassword(id: string, passwordHash: string): Promise<void> {
+    await query(
+      'UPDATE users SET password_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [passwordHash, id]
+    );
+  },
+
+  async setEmailVerified(id: string): Promise<User | null> {
+    const result = await query<UserRow>(
+      `UPDATE users SET email_verified = true, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING ${USER_COLUMNS}`,
+      [id]
+    );
+    return result.rows.length > 0 ? toUser(result.rows[0]) : null;
+  },
+
+  async touchLastLogin(id: string): Promise<void> {
+    await query('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+  },
+
+  async setActive(id: string, isActive: boolean): Promise<User | null> {
+    const result = await query<UserRow>(
+      `UPDATE users SET is_active = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2
+       RETURNING ${USER_COLUMNS}`,
+      [isActive, id]
+    );
+    return result.rows.length > 0 ? toUser(result.rows[0]) : null;
+  },
+
+  async list(filters: UserFilters = {}, options: PageOptions = {}, viewerId?: string): Promise<Page<User>> {
+    const { page, limit, offset } = resolvePage(options);
+    const where = createConditions();
+
+    if (filters.isActive !== undefined) {
+      where.add(p => `is_active = ${p}`, filters.isActive);
+    }
+    if (filters.role) {
+      where.add(p => `role = ${p}`, filters.role);
+    }
+    let searchParam: string | null = null;
+    if (filters.search) {
+      where.add(p => {
+        searchParam = p;
+        return `(${dialect.ilike('username', p)} OR ${dialect.ilike('full_name', p)})`;
+      }, `%${filters.search}%`);
+    }
+
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM users ${where.where()}`,
+      where.params
+    );
+
+    // Searches rank username matches ahead of full-name matches
+    const orderBy = searchParam
+      ? `CASE WHEN ${dialect.ilike('username', searchParam)} THEN 1 ELSE 2 END, followers_count DESC, created_at DESC`
+      : 'created_at DESC';
+
+    const result = await query<UserRow>(
+      `SELECT ${filters.includePrivate ? USER_COLUMNS : PUBLIC_USER_COLUMNS}, ${COUNT_COLUMNS}
+       FROM users ${where.where()}
+       ORDER BY ${orderBy}
+       LIMIT ${where.bind(limit)} OFFSET ${where.bind(offset)}`,
+      where.params
+    );
+
+    return {
+      items: await markFollowing(result.rows.map(toUser), viewerId),
+      total: toInteger(countResult.rows[0].total),
+      page,
+      limit
+    };
+  },
+
+  async isFollowing(followerId: string, followingId: string): Promise<boolean> {
+    const result = await query(
+      'SELECT id FROM follows WHERE follower_id = $1 AND following_id = $2',
+      [followerId, followingId]
+    );
+    return result.rows.length > 0;
+  },
+
+  async follow(followerId: string, followingId: string): Promise<void> {
+    await query(
+      'INSERT INTO follows (id, follower_id, following_id) VALUES ($1, $2, $3)',
+      [randomUUID(), followerId, followingId]
+    );
+  },
+
+  // Returns false when there was no follow relationship to remove
+  async unfollow(followerId: string, followingId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM follows WHERE follower_id = $1 AND following_id = $2',
+      [followerId, followingId]
+    );
+    return result.rowCount > 0;
+  },
+
+  listFollowers(userId: string, options: PageOptions = {}, viewerId?: string) {
+    return listFollowRelation(userId, 'followers', options, viewerId);
+  },
+
+  listFollowing(userId: string, options: PageOptions = {}, viewerId?: string) {
+    return listFollowRelation(userId, 'following', options, viewerId);
+  }
+};
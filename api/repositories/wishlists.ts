@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import { query, dialect } from '../config/database.js';
+import { PriceAlert } from '../types.js';
+import { toNumber, toIsoString, BooleanColumn, NumericColumn, TimestampColumn } from './helpers.js';
+
+export interface WishlistEntry {
+  productId: string;
+  createdAt: string;
+  priceAlert?: PriceAlert;
+}
+
+// A user to tell about a price drop
+export interface PriceAlertSubscriber extends PriceAlert {
+  userId: string;
+}
+
+const optionalNumber = (value: unknown) => (value === null || value === undefined ? undefined : toNumber(value));
+
+interface PriceAlertRow {
+  price_alert_target: NumericColumn | null;
+  price_alert_notified_price: NumericColumn | null;
+}
+
+interface WishlistItemRow extends PriceAlertRow {
+  product_id: string;
+  created_at: TimestampColumn;
+  price_alert: BooleanColumn;
+}
+
+const toPriceAlert = (row: PriceAlertRow): PriceAlert => ({
+  targetPrice: optionalNumber(row.price_alert_target),
+  notifiedPrice: optionalNumber(row.price_alert_notified_price)
+});
+
+export const WishlistsRepo = {
+  // Most recently added first
+  async listByUser(userId: string): Promise<WishlistEntry[]> {
+    const result = await query<WishlistItemRow>(
+      `SELECT product_id, created_at, price_alert, price_alert_target, price_alert_notified_price
+       FROM wishlist_items
+       WHERE user_id = $1
+       ORDER BY created_at DESC`,
+      [userId]
+    );
+    return result.rows.map(row => ({
+      productId: row.product_id,
+      createdAt: toIsoString(row.created_at),
+      priceAlert: dialect.parseBoolean(row.price_alert) ? toPriceAlert(row) : undefined
+    }));
+  },
+
+  // Returns false when the product was already on the list
+  async add(userId: string, productId: string): Promise<boolean> {
+    const result = await query(
+      `INSERT INTO wishlist_items (id, user_id, product_id, created_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, product_id) DO NOTHING`,
+      [randomUUID(), userId, productId, new Date().toISOString()]
+    );
+    return result.rowCount > 0;
+  },
+
+  async remove(userId: string, productId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM wishlist_items WHERE user_id = $1 AND product_id = $2',
+      [userId, productId]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Turns the alert on (or changes its target); returns false when the
+  // product is not on the wishlist
+  async setPriceAlert(userId: string, productId: string, targetPrice: number | null): Promise<boolean> {
+    const result = await query(
+      `UPDATE wishlist_items
+       SET price_alert = true, price_alert_target = $1, price_alert_notified_price = NULL
+       WHERE user_id = $2 AND product_id = $3`,
+      [targetPrice, userId, productId]
+    );
+    return result.rowCount > 0;
+  },
+
+  async clearPriceAlert(userId: string, productId: string): Promise<boolean> {
+    const result = await query(
+      `UPDATE wishlist_items
+       SET price_alert = false, price_alert_target = NULL, price_alert_notified_price = NULL
+       WHERE user_id = $1 AND product_id = $2 AND price_alert = true`,
+      [userId, productId]
+    );
+    return result.rowCount > 0;
+  },
+
+  // Alerts that `price` satisfies and that have not announced it (or a lower price) yet
+  async listPriceAlertSubscribers(productId: string, price: number): Promise<PriceAlertSubscriber[]> {
+    const result = await query<PriceAlertRow & { user_id: string }>(
+      `SELECT user_id, price_alert_target, price_alert_notified_price
+       FROM wishlist_items
+       WHERE product_id = $1 AND price_alert = true
+         AND (price_alert_target IS NULL OR price_alert_target >= $2)
+         AND (price_alert_notified_price IS NULL OR price_alert_notified_price > $2)`,
+      [productId, price]
+    );
+    return result.rows.map(row => ({ userId: row.user_id, ...toPriceAlert(row) }));
+  },
+
+  async markPriceAlerted(userId: string, productId: string, price: number): Promise<void> {
+    await query(
+      'UPDATE wishlist_items SET price_alert_notified_price = $1 WHERE user_id = $2 AND product_id = $3',
+      [price, userId, productId]
+    );
+  },
+
+  // After a rise, alerts that announced a lower price may announce it again
+  async rearmPriceAlerts(productId: string, price: number): Promise<void> {
+    await query(
+      `UPDATE wishlist_items SET price_alert_notified_price = NULL
+       WHERE product_id = $1 AND price_alert_notified_price < $2`,
+      [productId, price]
+    );
+  }
+};
@@ -4,7 +4,7 @@ import multer from 'multer';
 import { authenticateToken } from '../middleware/auth.js';
 import { validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse } from '../middleware/errorHandler.js';
 import { query as dbQuery } from '../config/database.js';
-import { AtticObject } from '../types.js';
+import { AtticObjectsRepo, AtticObjectSort } from '../repositories/index.js';
 
 const router = express.Router();
 
@@ -66,98 +66,18 @@ router.get('/',
       page = 1,
       limit = 20
     } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
 
-    // Build WHERE clause
-    let whereConditions = ['user_id = $1'];
-    const queryParams: any[] = [userId];
-    let paramIndex = 2;
-
-    if (category) {
-      whereConditions.push(`category = $${paramIndex}`);
-      queryParams.push(category);
-      paramIndex++;
-    }
-
-    if (search) {
-      whereConditions.push(`(
-        name ILIKE $${paramIndex} OR 
-        description ILIKE $${paramIndex} OR 
-        tags::text ILIKE $${paramIndex}
-      )`);
-      queryParams.push(`%${search}%`);
-      paramIndex++;
-    }
-
-    const whereClause = whereConditions.join(' AND ');
-
-    // Build ORDER BY clause
-    let orderBy = 'created_at DESC';
-    switch (sort) {
-      case 'oldest':
-        orderBy = 'created_at ASC';
-        break;
-      case 'name_asc':
-        orderBy = 'name ASC';
-        break;
-      case 'name_desc':
-        orderBy = 'name DESC';
-        break;
-      case 'category':
-        orderBy = 'category ASC, created_at DESC';
-        break;
-    }
-
-    // Get total count
-    const countResult = await dbQuery(
-      `SELECT COUNT(*) as total FROM attic_objects WHERE ${whereClause}`,
-      queryParams
-    );
-    const total = parseInt(countResult.rows[0].total);
-
-    // Get attic objects
-    const result = await dbQuery(
-      `SELECT id, name, description, category, model_url, texture_url, thumbnail_url,
-              position_x, position_y, position_z, rotation_x, rotation_y, rotation_z,
-              scale_x, scale_y, scale_z, tags, metadata, is_visible, created_at, updated_at
-       FROM attic_objects
-       WHERE ${whereClause}
-       ORDER BY ${orderBy}
-       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
-      [...queryParams, Number(limit), offset]
-    );
-
-    const objects = result.rows.map(row => ({
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      category: row.category,
-      model_url: row.model_url,
-      texture_url: row.texture_url,
-      thumbnail_url: row.thumbnail_url,
-      position: {
-        x: parseFloat(row.position_x),
-        y: parseFloat(row.position_y),
-        z: parseFloat(row.position_z)
-      },
-      rotation: {
-        x: parseFloat(row.rotation_x),
-        y: parseFloat(row.rotation_y),
-        z: parseFloat(row.rotation_z)
-      },
-      scale: {
-        x: parseFloat(row.scale_x),
-        y: parseFloat(row.scale_y),
-        z: parseFloat(row.scale_z)
+    const objects = await AtticObjectsRepo.list(
+      userId,
+      {
+        category: category as string | undefined,
+        search: search as string | undefined,
+        sort: sort as AtticObjectSort
       },
-      tags: row.tags,
-      metadata: row.metadata,
-      is_visible: row.is_visible,
-      created_at: row.created_at,
-      updated_at: row.updated_at
-    }));
+      { page: Number(page), limit: Number(limit) }
+    );
 
-    sendPaginatedResponse(res, objects, total, Number(page), Number(limit), 'Attic objects retrieved successfully');
+    sendPaginatedResponse(res, objects.items, objects.total, objects.page, objects.limit, 'Attic objects retrieved successfully');
   })
 );
 
@@ -174,50 +94,12 @@ router.get('/:id',
     const { id } = req.params;
     const userId = req.user!.id;
 
-    const result = await dbQuery(
-      `SELECT id, name, description, category, model_url, texture_url, thumbnail_url,
-              position_x, position_y, position_z, rotation_x, rotation_y, rotation_z,
-              scale_x, scale_y, scale_z, tags, metadata, is_visible, created_at, updated_at
-       FROM attic_objects
-       WHERE id = $1 AND user_id = $2`,
-      [id, userId]
-    );
+    const object = await AtticObjectsRepo.findById(id, userId);
 
-    if (result.rows.length === 0) {
+    if (!object) {
       return res.status(404).json({ error: 'Attic object not found' });
     }
 
-    const row = result.rows[0];
-    const object = {
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      category: row.category,
-      model_url: row.model_url,
-      texture_url: row.texture_url,
-      thumbnail_url: row.thumbnail_url,
-      position: {
-        x: parseFloat(row.position_x),
-        y: parseFloat(row.position_y),
-        z: parseFloat(row.position_z)
-      },
-      rotation: {
-        x: parseFloat(row.rotation_x),
-        y: parseFloat(row.rotation_y),
-        z: parseFloat(row.rotation_z)
-      },
-      scale: {
-        x: parseFloat(row.scale_x),
-        y: parseFloat(row.scale_y),
-        z: parseFloat(row.scale_z)
-      },
-      tags: row.tags,
-      metadata: row.metadata,
-      is_visible: row.is_visible,
-      created_at: row.created_at,
-      updated_at: row.updated_at
-    };
-
     sendSuccess(res, object, 'Attic object retrieved successfully');
   })
 );
@@ -332,31 +214,22 @@ router.post('/upload',
       thumbnailUrl = `https://api.desvandigital.com/uploads/thumbnails/${userId}_${Date.now()}_${thumbnailFile.originalname}`;
     }
 
-    const result = await dbQuery(
-      `INSERT INTO attic_objects (
-        user_id, name, description, category, model_url, texture_url, thumbnail_url,
-        position_x, position_y, position_z, rotation_x, rotation_y, rotation_z,
-        scale_x, scale_y, scale_z, tags, metadata
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
-      RETURNING id, name, model_url, created_at`,
-      [
-        userId, name, description || null, category || null,
-        modelUrl, JSON.stringify(textureUrls), thumbnailUrl,
-        parseFloat(position_x), parseFloat(position_y), parseFloat(position_z),
-        parseFloat(rotation_x), parseFloat(rotation_y), parseFloat(rotation_z),
-        parseFloat(scale_x), parseFloat(scale_y), parseFloat(scale_z),
-        JSON.stringify(tags || []), JSON.stringify(metadata || {})
-      ]
-    );
-
-    const object = result.rows[0];
+    const object = await AtticObjectsRepo.create({
+      ownerId: userId,
+      name,
+      description,
+      category,
+      modelUrl,
+      textures: textureUrls,
+      thumbnailUrl,
+      position: { x: parseFloat(position_x), y: parseFloat(position_y), z: parseFloat(position_z) },
+      rotation: { x: parseFloat(rotation_x), y: parseFloat(rotation_y), z: parseFloat(rotation_z) },
+      scale: { x: parseFloat(scale_x), y: parseFloat(scale_y), z: parseFloat(scale_z) },
+      tags,
+      metadata
+    });
 
-    sendSuccess(res, {
-      id: object.id,
-      name: object.name,
-      model_url: object.model_url,
-      created_at: object.created_at
-    }, '3D object uploaded successfully', 201);
+    sendSuccess(res, object, '3D object uploaded successfully', 201);
   })
 );
 
@@ -424,51 +297,20 @@ router.post('/',
     } = req.body;
     const userId = req.user!.id;
 
-    const result = await dbQuery(
-      `INSERT INTO attic_objects (
-        user_id, name, description, category, model_url, texture_url, thumbnail_url,
-        position_x, position_y, position_z, rotation_x, rotation_y, rotation_z,
-        scale_x, scale_y, scale_z, tags, metadata
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
-      RETURNING id, name, description, category, model_url, texture_url, thumbnail_url,
-                position_x, position_y, position_z, rotation_x, rotation_y, rotation_z,
-                scale_x, scale_y, scale_z, created_at`,
-      [
-        userId, name, description || null, category || null,
-        model_url, JSON.stringify(texture_url || []), thumbnail_url || null,
-        position.x, position.y, position.z,
-        rotation.x, rotation.y, rotation.z,
-        scale.x, scale.y, scale.z,
-        JSON.stringify(tags || []), JSON.stringify(metadata || {})
-      ]
-    );
-
-    const row = result.rows[0];
-    const object = {
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      category: row.category,
-      model_url: row.model_url,
-      texture_url: JSON.parse(row.texture_url),
-      thumbnail_url: row.thumbnail_url,
-      position: {
-        x: parseFloat(row.position_x),
-        y: parseFloat(row.position_y),
-        z: parseFloat(row.position_z)
-      },
-      rotation: {
-        x: parseFloat(row.rotation_x),
-        y: parseFloat(row.rotation_y),
-        z: parseFloat(row.rotation_z)
-      },
-      scale: {
-        x: parseFloat(row.scale_x),
-        y: parseFloat(row.scale_y),
-        z: parseFloat(row.scale_z)
-      },
-      created_at: row.created_at
-    };
+    const object = await AtticObjectsRepo.create({
+      ownerId: userId,
+      name,
+      description,
+      category,
+      modelUrl: model_url,
+      textures: texture_url,
+      thumbnailUrl: thumbnail_url,
+      position,
+      rotation,
+      scale,
+      tags,
+      metadata
+    });
 
     sendSuccess(res, object, 'Attic object created successfully', 201);
   })
@@ -523,105 +365,18 @@ router.put('/:id',
     const { id } = req.params;
     const userId = req.user!.id;
 
-    // Check if object exists and belongs to user
-    const existingResult = await dbQuery(
-      'SELECT id FROM attic_objects WHERE id = $1 AND user_id = $2',
-      [id, userId]
-    );
-
-    if (existingResult.rows.length === 0) {
-      return res.status(404).json({ error: 'Attic object not found' });
-    }
-
-    // Build update query
-    const updateFields = [];
-    const queryParams = [];
-    let paramIndex = 1;
-
-    const simpleFields = ['name', 'description', 'category', 'tags', 'metadata', 'is_visible'];
-
-    for (const field of simpleFields) {
-      if (req.body[field] !== undefined) {
-        updateFields.push(`${field} = $${paramIndex}`);
-        
-        if (['tags', 'metadata'].includes(field)) {
-          queryParams.push(JSON.stringify(req.body[field]));
-        } else {
-          queryParams.push(req.body[field]);
-        }
-        paramIndex++;
-      }
-    }
-
-    // Handle position, rotation, scale objects
-    const transformFields = ['position', 'rotation', 'scale'];
-    for (const field of transformFields) {
-      if (req.body[field]) {
-        const obj = req.body[field];
-        if (obj.x !== undefined) {
-          updateFields.push(`${field}_x = $${paramIndex}`);
-          queryParams.push(parseFloat(obj.x));
-          paramIndex++;
-        }
-        if (obj.y !== undefined) {
-          updateFields.push(`${field}_y = $${paramIndex}`);
-          queryParams.push(parseFloat(obj.y));
-          paramIndex++;
-        }
-        if (obj.z !== undefined) {
-          updateFields.push(`${field}_z = $${paramIndex}`);
-          queryParams.push(parseFloat(obj.z));
-          paramIndex++;
-        }
-      }
-    }
+    const { name, description, category, tags, metadata, is_visible, position, rotation, scale } = req.body;
+    const changes = { name, description, category, tags, metadata, isVisible: is_visible, position, rotation, scale };
 
-    if (updateFields.length === 0) {
+    if (Object.values(changes).every(value => value === undefined)) {
       return res.status(400).json({ error: 'No valid fields to update' });
     }
 
-    updateFields.push(`updated_at = CURRENT_TIMESTAMP`);
-    queryParams.push(id);
+    const object = await AtticObjectsRepo.update(id, userId, changes);
 
-    const result = await dbQuery(
-      `UPDATE attic_objects 
-       SET ${updateFields.join(', ')}
-       WHERE id = $${paramIndex}
-       RETURNING id, name, description, category, model_url, texture_url, thumbnail_url,
-                 position_x, position_y, position_z, rotation_x, rotation_y, rotation_z,
-                 scale_x, scale_y, scale_z, tags, metadata, is_visible, updated_at`,
-      queryParams
-    );
-
-    const row = result.rows[0];
-    const object = {
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      category: row.category,
-      model_url: row.model_url,
-      texture_url: JSON.parse(row.texture_url || '[]'),
-      thumbnail_url: row.thumbnail_url,
-      position: {
-        x: parseFloat(row.position_x),
-        y: parseFloat(row.position_y),
-        z: parseFloat(row.position_z)
-      },
-      rotation: {
-        x: parseFloat(row.rotation_x),
-        y: parseFloat(row.rotation_y),
-        z: parseFloat(row.rotation_z)
-      },
-      scale: {
-        x: parseFloat(row.scale_x),
-        y: parseFloat(row.scale_y),
-        z: parseFloat(row.scale_z)
-      },
-      tags: row.tags,
-      metadata: row.metadata,
-      is_visible: row.is_visible,
-      updated_at: row.updated_at
-    };
+    if (!object) {
+      return res.status(404).json({ error: 'Attic object not found' });
+    }
 
     sendSuccess(res, object, 'Attic object updated successfully');
   })
@@ -640,28 +395,13 @@ router.delete('/:id',
     const { id } = req.params;
     const userId = req.user!.id;
 
-    // Check if object exists and belongs to user
-    const existingResult = await dbQuery(
-      'SELECT id FROM attic_objects WHERE id = $1 AND user_id = $2',
-      [id, userId]
-    );
+    // Related object links are removed by ON DELETE CASCADE
+    const deleted = await AtticObjectsRepo.delete(id, userId);
 
-    if (existingResult.rows.length === 0) {
+    if (!deleted) {
       return res.status(404).json({ error: 'Attic object not found' });
     }
 
-    // Delete related object links first
-    await dbQuery(
-      'DELETE FROM object_links WHERE source_object_id = $1 OR target_object_id = $1',
-      [id]
-    );
-
-    // Delete the object
-    await dbQuery(
-      'DELETE FROM attic_objects WHERE id = $1',
-      [id]
-    );
-
     sendSuccess(res, null, 'Attic object deleted successfully');
   })
 );
@@ -680,12 +420,7 @@ router.get('/:id/links',
     const userId = req.user!.id;
 
     // Verify object belongs to user
-    const objectResult = await dbQuery(
-      'SELECT id FROM attic_objects WHERE id = $1 AND user_id = $2',
-      [id, userId]
-    );
-
-    if (objectResult.rows.length === 0) {
+    if (!(await AtticObjectsRepo.ownsAll([id], userId))) {
       return res.status(404).json({ error: 'Attic object not found' });
     }
 
@@ -747,13 +482,7 @@ router.post('/:id/links',
     const userId = req.user!.id;
 
     // Verify both objects exist and belong to user
-    const objectsResult = await dbQuery(
-      `SELECT id FROM attic_objects 
-       WHERE id IN ($1, $2) AND user_id = $3`,
-      [sourceObjectId, target_object_id, userId]
-    );
-
-    if (objectsResult.rows.length !== 2) {
+    if (!(await AtticObjectsRepo.ownsAll([sourceObjectId, target_object_id], userId))) {
       return res.status(404).json({ error: 'One or both objects not found' });
     }
 
@@ -833,42 +562,7 @@ router.get('/scene/load',
   asyncHandler(async (req, res) => {
     const userId = req.user!.id;
 
-    const result = await dbQuery(
-      `SELECT id, name, description, category, model_url, texture_url, thumbnail_url,
-              position_x, position_y, position_z, rotation_x, rotation_y, rotation_z,
-              scale_x, scale_y, scale_z, tags, metadata
-       FROM attic_objects
-       WHERE user_id = $1 AND is_visible = true
-       ORDER BY created_at ASC`,
-      [userId]
-    );
-
-    const objects = result.rows.map(row => ({
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      category: row.category,
-      model_url: row.model_url,
-      texture_url: JSON.parse(row.texture_url || '[]'),
-      thumbnail_url: row.thumbnail_url,
-      position: {
-        x: parseFloat(row.position_x),
-        y: parseFloat(row.position_y),
-        z: parseFloat(row.position_z)
-      },
-      rotation: {
-        x: parseFloat(row.rotation_x),
-        y: parseFloat(row.rotation_y),
-        z: parseFloat(row.rotation_z)
-      },
-      scale: {
-        x: parseFloat(row.scale_x),
-        y: parseFloat(row.scale_y),
-        z: parseFloat(row.scale_z)
-      },
-      tags: row.tags,
-      metadata: row.metadata
-    }));
+    const objects = await AtticObjectsRepo.listVisible(userId);
 
     sendSuccess(res, {
       objects,
@@ -906,36 +600,12 @@ router.post('/scene/save',
 
     // Verify all objects belong to the user
     const objectIds = objects.map((obj: any) => obj.id);
-    const verifyResult = await dbQuery(
-      `SELECT id FROM attic_objects WHERE id = ANY($1) AND user_id = $2`,
-      [objectIds, userId]
-    );
-
-    if (verifyResult.rows.length !== objectIds.length) {
+    if (!(await AtticObjectsRepo.ownsAll(objectIds, userId))) {
       return res.status(404).json({ error: 'One or more objects not found' });
     }
 
     // Update each object's transform
-    const updatePromises = objects.map((obj: any) => {
-      const { id, position, rotation, scale } = obj;
-      
-      return dbQuery(
-        `UPDATE attic_objects 
-         SET position_x = $1, position_y = $2, position_z = $3,
-             rotation_x = $4, rotation_y = $5, rotation_z = $6,
-             scale_x = $7, scale_y = $8, scale_z = $9,
-             updated_at = CURRENT_TIMESTAMP
-         WHERE id = $10`,
-        [
-          position.x, position.y, position.z,
-          rotation?.x || 0, rotation?.y || 0, rotation?.z || 0,
-          scale?.x || 1, scale?.y || 1, scale?.z || 1,
-          id
-        ]
-      );
-    });
-
-    await Promise.all(updatePromises);
+    await AtticObjectsRepo.saveTransforms(userId, objects);
 
     sendSuccess(res, {
       updated_objects: objects.length
@@ -1,13 +1,33 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
-import { body, validationResult } from 'express-validator';
-import { query } from '../config/database.js';
-import { generateToken, generateRefreshToken, verifyRefreshToken, authenticateToken } from '../middleware/auth.js';
-import { asyncHandler, successResponse, CustomValidationError, ConflictError, AuthenticationError, NotFoundError } from '../middleware/errorHandler.js';
-import { User, AuthResponse } from '../types.js';
+import { body, param, query, validationResult } from 'express-validator';
+import { SecurityEventsRepo, SessionClient, UsersRepo } from '../repositories/index.js';
+import { authenticateToken, requireRole } from '../middleware/auth.js';
+import {
+  asyncHandler, successResponse, sendPaginatedResponse, CustomValidationError, ConflictError, AuthenticationError, NotFoundError
+} from '../middleware/errorHandler.js';
+import {
+  endAllSessions, endSession, endUserSession, listSessions, refreshSession, startLoginSession, startSession
+} from '../services/authSessions.js';
+import { requestPasswordReset, resetPassword, sendVerificationEmail, verifyEmail } from '../services/accountEmails.js';
+import {
+  assertLoginAllowed, clearAccountLockout, LoginAttempt, recordLoginFailure, unlockAccount
+} from '../services/loginProtection.js';
+import {
+  beginTwoFactorSetup, completeLoginChallenge, disableTwoFactor, enableTwoFactor, findLoginChallengeUser,
+  getAdminTwoFactorPolicy, getTwoFactorStatus, isTwoFactorRequired, openLoginChallenge, regenerateRecoveryCodes,
+  SecondFactor, setAdminTwoFactorPolicy
+} from '../services/twoFactor.js';
+import { SecurityEventType, User } from '../types.js';
 
 const router = express.Router();
 
+// The browser and address a session is started or refreshed from
+const sessionClient = (req: express.Request): SessionClient => ({
+  userAgent: req.get('User-Agent'),
+  ipAddress: req.ip
+});
+
 // Validation rules
 const registerValidation = [
   body('username')
@@ -30,6 +50,48 @@ const registerValidation = [
     .trim()
 ];
 
+// The signed-in user as stored, rather than the token's summary of them
+const loadCurrentUser = async (req: express.Request): Promise<User> => {
+  const user = await UsersRepo.findById(req.user!.id, { activeOnly: true });
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+  return user;
+};
+
+// Issues the session of a completed login, flagging accounts whose role
+// needs two-factor authentication they have not set up. Only a completed
+// login (second factor included) forgets the account's failed attempts.
+const finishLogin = async (req: express.Request, user: User) => {
+  await clearAccountLockout(user.email);
+  await UsersRepo.touchLastLogin(user.id);
+
+  const authResponse = await startLoginSession(user, sessionClient(req));
+  if (!user.twoFactorEnabled && await isTwoFactorRequired(user)) {
+    authResponse.twoFactorSetupRequired = true;
+  }
+  return authResponse;
+};
+
+const secondFactorValidation = [
+  body('code').optional().isString().withMessage('Code must be a string'),
+  body('recoveryCode').optional().isString().withMessage('Recovery code must be a string')
+];
+
+const readSecondFactor = (req: express.Request): SecondFactor => {
+  const { code, recoveryCode } = req.body;
+  if (!code && !recoveryCode) {
+    throw new CustomValidationError('An authentication code or a recovery code is required');
+  }
+  return { code, recoveryCode };
+};
+
+const newPasswordValidation = (field: string) => body(field)
+  .isLength({ min: 6 })
+  .withMessage('New password must be at least 6 characters long')
+  .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+  .withMessage('New password must contain at least one uppercase letter, one lowercase letter, and one number');
+
 const loginValidation = [
   body('email')
     .isEmail()
@@ -50,12 +112,7 @@ router.post('/register', registerValidation, asyncHandler(async (req, res) => {
   const { username, email, password, full_name } = req.body;
 
   // Check if user already exists
-  const existingUser = await query(
-    'SELECT id FROM users WHERE email = $1 OR username = $2',
-    [email, username]
-  );
-
-  if (existingUser.rows.length > 0) {
+  if (await UsersRepo.existsByEmailOrUsername(email, username)) {
     throw new ConflictError('User with this email or username already exists');
   }
 
@@ -64,32 +121,19 @@ router.post('/register', registerValidation, asyncHandler(async (req, res) => {
   const passwordHash = await bcrypt.hash(password, saltRounds);
 
   // Create user
-  const result = await query(
-    `INSERT INTO users (username, email, password_hash, full_name)
-     VALUES ($1, $2, $3, $4)
-     RETURNING id, username, email, full_name, role, subscription_type, created_at, updated_at`,
-    [username, email, passwordHash, full_name]
-  );
-
-  const user = result.rows[0] as User;
-
-  // Generate tokens
-  const token = generateToken({
-    id: user.id,
-    email: user.email,
-    role: user.role
+  const user = await UsersRepo.create({
+    username,
+    email,
+    passwordHash,
+    fullName: full_name
   });
 
-  const refreshToken = generateRefreshToken({
-    id: user.id,
-    email: user.email
-  });
+  // Ask the user to confirm their address; a mail failure does not undo the signup
+  await sendVerificationEmail(user)
+    .catch(error => console.error('Failed to send verification email:', error));
 
-  const authResponse: AuthResponse = {
-    user,
-    token,
-    refreshToken
-  };
+  // Start a session and issue its tokens
+  const authResponse = await startSession(user, sessionClient(req));
 
   successResponse(res, authResponse, 'User registered successfully', 201);
 }));
@@ -102,146 +146,138 @@ router.post('/login', loginValidation, asyncHandler(async (req, res) => {
   }
 
   const { email, password } = req.body;
+  const attempt: LoginAttempt = { email, ipAddress: req.ip };
+
+  // Accounts and IPs with too many recent failures have to wait
+  await assertLoginAllowed(attempt);
 
   // Find user
-  const result = await query(
-    `SELECT id, username, email, password_hash, full_name, avatar_url, role, subscription_type, 
-            is_active, created_at, updated_at
-     FROM users WHERE email = $1`,
-    [email]
-  );
+  const credentials = await UsersRepo.findCredentialsByEmail(email);
 
-  if (result.rows.length === 0) {
+  if (!credentials) {
+    await recordLoginFailure(attempt);
     throw new AuthenticationError('Invalid email or password');
   }
 
-  const user = result.rows[0];
+  const { user, passwordHash } = credentials;
 
   // Check if user is active
-  if (!user.is_active) {
+  if (!user.isActive) {
     throw new AuthenticationError('Account is deactivated');
   }
 
   // Verify password
-  const isValidPassword = await bcrypt.compare(password, user.password_hash);
+  const isValidPassword = await bcrypt.compare(password, passwordHash);
   if (!isValidPassword) {
+    await recordLoginFailure(attempt);
     throw new AuthenticationError('Invalid email or password');
   }
 
-  // Update last login
-  await query(
-    'UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = $1',
-    [user.id]
-  );
-
-  // Remove password hash from response
-  const { password_hash, ...userWithoutPassword } = user;
+  // With two-factor authentication on, the password only opens a challenge
+  if (user.twoFactorEnabled) {
+    const challenge = await openLoginChallenge(user);
+    successResponse(res, challenge, 'Two-factor authentication required');
+    return;
+  }
 
-  // Generate tokens
-  const token = generateToken({
-    id: user.id,
-    email: user.email,
-    role: user.role
-  });
+  successResponse(res, await finishLogin(req, user), 'Login successful');
+}));
 
-  const refreshToken = generateRefreshToken({
-    id: user.id,
-    email: user.email
-  });
+// Second login step: the challenge from /login and a code from the
+// authenticator app or a recovery code
+router.post('/login/2fa', [
+  body('challengeToken').isUUID().withMessage('Invalid challenge token'),
+  ...secondFactorValidation
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomValidationError('Validation failed');
+  }
 
-  const authResponse: AuthResponse = {
-    user: userWithoutPassword as User,
-    token,
-    refreshToken
-  };
+  // Wrong codes count against the account and the IP like wrong passwords
+  const challengeUser = await findLoginChallengeUser(req.body.challengeToken);
+  const attempt: LoginAttempt = { email: challengeUser?.email, ipAddress: req.ip };
+  await assertLoginAllowed(attempt);
+
+  const user = await completeLoginChallenge(req.body.challengeToken, readSecondFactor(req))
+    .catch(async (error) => {
+      if (error instanceof AuthenticationError) {
+        await recordLoginFailure(attempt);
+      }
+      throw error;
+    });
 
-  successResponse(res, authResponse, 'Login successful');
+  successResponse(res, await finishLogin(req, user), 'Login successful');
 }));
 
-// Refresh token
+// Refresh token: the token presented is used up and replaced. Presenting
+// one that was already used revokes its session.
 router.post('/refresh', asyncHandler(async (req, res) => {
   const { refreshToken } = req.body;
 
-  if (!refreshToken) {
+  if (!refreshToken || typeof refreshToken !== 'string') {
     throw new AuthenticationError('Refresh token required');
   }
 
-  try {
-    const decoded = verifyRefreshToken(refreshToken);
-
-    // Find user
-    const result = await query(
-      `SELECT id, username, email, full_name, avatar_url, role, subscription_type, 
-              is_active, created_at, updated_at
-       FROM users WHERE id = $1 AND is_active = true`,
-      [decoded.userId]
-    );
-
-    if (result.rows.length === 0) {
-      throw new NotFoundError('User not found or inactive');
-    }
-
-    const user = result.rows[0] as User;
+  const authResponse = await refreshSession(refreshToken, sessionClient(req));
 
-    // Generate new tokens
-    const newToken = generateToken({
-      id: user.id,
-      email: user.email,
-      role: user.role
-    });
-
-    const newRefreshToken = generateRefreshToken({
-      id: user.id,
-      email: user.email
-    });
-
-    const authResponse: AuthResponse = {
-      user,
-      token: newToken,
-      refreshToken: newRefreshToken
-    };
-
-    successResponse(res, authResponse, 'Token refreshed successfully');
-  } catch (error) {
-    throw new AuthenticationError('Invalid refresh token');
-  }
+  successResponse(res, authResponse, 'Token refreshed successfully');
 }));
 
 // Get current user profile
 router.get('/me', authenticateToken, asyncHandler(async (req, res) => {
   const userId = req.user?.id;
 
-  const result = await query(
-    `SELECT id, username, email, full_name, avatar_url, bio, location, website, 
-            social_links, role, subscription_type, created_at, updated_at
-     FROM users WHERE id = $1 AND is_active = true`,
-    [userId]
-  );
+  const user = await UsersRepo.findById(userId!, { activeOnly: true });
 
-  if (result.rows.length === 0) {
+  if (!user) {
     throw new NotFoundError('User not found');
   }
 
-  const user = result.rows[0] as User;
   successResponse(res, user, 'User profile retrieved successfully');
 }));
 
-// Logout (client-side token removal)
+// Logout: revokes this session, so its access and refresh tokens stop working
 router.post('/logout', authenticateToken, asyncHandler(async (req, res) => {
-  // In a more sophisticated setup, you might want to blacklist the token
-  // For now, we'll just return success and let the client remove the token
+  await endSession(req.sessionId!);
+
   successResponse(res, null, 'Logged out successfully');
 }));
 
+// Log out everywhere: revokes every session of the user, this one included
+router.post('/logout-all', authenticateToken, asyncHandler(async (req, res) => {
+  const revoked = await endAllSessions(req.user!.id, 'logout_all');
+
+  successResponse(res, { revoked }, 'Logged out of all sessions successfully');
+}));
+
+// List the devices the user is signed in on
+router.get('/sessions', authenticateToken, asyncHandler(async (req, res) => {
+  const sessions = await listSessions(req.user!.id, req.sessionId);
+
+  successResponse(res, sessions, 'Sessions retrieved successfully');
+}));
+
+// Sign out one of the user's sessions
+router.delete('/sessions/:id', [
+  authenticateToken,
+  param('id').isUUID().withMessage('Invalid session ID')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomValidationError('Validation failed');
+  }
+
+  await endUserSession(req.user!.id, req.params.id);
+
+  successResponse(res, null, 'Session revoked successfully');
+}));
+
 // Change password
 router.put('/change-password', [
   authenticateToken,
   body('currentPassword').notEmpty().withMessage('Current password is required'),
-  body('newPassword')
-    .isLength({ min: 6 })
-    .withMessage('New password must be at least 6 characters long')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
-    .withMessage('New password must contain at least one uppercase letter, one lowercase letter, and one number')
+  newPasswordValidation('newPassword')
 ], asyncHandler(async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
@@ -252,17 +288,12 @@ router.put('/change-password', [
   const userId = req.user?.id;
 
   // Get current password hash
-  const result = await query(
-    'SELECT password_hash FROM users WHERE id = $1',
-    [userId]
-  );
+  const password_hash = await UsersRepo.getPasswordHash(userId!);
 
-  if (result.rows.length === 0) {
+  if (!password_hash) {
     throw new NotFoundError('User not found');
   }
 
-  const { password_hash } = result.rows[0];
-
   // Verify current password
   const isValidPassword = await bcrypt.compare(currentPassword, password_hash);
   if (!isValidPassword) {
@@ -274,12 +305,202 @@ router.put('/change-password', [
   const newPasswordHash = await bcrypt.hash(newPassword, saltRounds);
 
   // Update password
-  await query(
-    'UPDATE users SET password_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-    [newPasswordHash, userId]
-  );
+  await UsersRepo.updatePassword(userId!, newPasswordHash);
+
+  // Sign out every other session, which may belong to whoever knew the old password
+  await endAllSessions(userId!, 'password_change', req.sessionId);
 
   successResponse(res, null, 'Password changed successfully');
 }));
 
-export default router;
\ No newline at end of file
+// Confirm the email address with the token from the verification email
+router.post('/verify-email', [
+  body('token').isString().notEmpty().withMessage('Verification token is required')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomValidationError('Validation failed');
+  }
+
+  const user = await verifyEmail(req.body.token);
+
+  successResponse(res, user, 'Email verified successfully');
+}));
+
+// Send the verification email again, replacing the previous link
+router.post('/verify-email/resend', authenticateToken, asyncHandler(async (req, res) => {
+  await sendVerificationEmail(await loadCurrentUser(req));
+
+  successResponse(res, null, 'Verification email sent');
+}));
+
+// Mail a password reset link. The answer is the same whether or not the
+// address has an account.
+router.post('/forgot-password', [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomValidationError('Validation failed');
+  }
+
+  await requestPasswordReset(req.body.email);
+
+  successResponse(res, null, 'If an account exists for that email, a password reset link is on its way');
+}));
+
+// Set a new password with the token from the reset email; every session of
+// the account is signed out
+router.post('/reset-password', [
+  body('token').isString().notEmpty().withMessage('Reset token is required'),
+  newPasswordValidation('newPassword')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomValidationError('Validation failed');
+  }
+
+  const saltRounds = 12;
+  const passwordHash = await bcrypt.hash(req.body.newPassword, saltRounds);
+
+  const user = await resetPassword(req.body.token, passwordHash);
+  // Proving access to the mailbox also ends a lockout
+  await clearAccountLockout(user.email);
+
+  successResponse(res, null, 'Password reset successfully, please log in');
+}));
+
+// Lift a lockout early with the link from the lockout email
+router.post('/unlock-account', [
+  body('token').isString().notEmpty().withMessage('Unlock token is required')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomValidationError('Validation failed');
+  }
+
+  await unlockAccount(req.body.token, req.ip);
+
+  successResponse(res, null, 'Account unlocked, you can sign in again');
+}));
+
+// Two-factor authentication status of the signed-in user
+router.get('/2fa', authenticateToken, asyncHandler(async (req, res) => {
+  const status = await getTwoFactorStatus(await loadCurrentUser(req));
+
+  successResponse(res, status, 'Two-factor status retrieved successfully');
+}));
+
+// Start enrolling: a new secret and the URI for the authenticator app's QR code
+router.post('/2fa/setup', authenticateToken, asyncHandler(async (req, res) => {
+  const setup = await beginTwoFactorSetup(await loadCurrentUser(req));
+
+  successResponse(res, setup, 'Scan the QR code with your authenticator app');
+}));
+
+// Finish enrolling with a code from the app; the recovery codes are only shown here
+router.post('/2fa/enable', [
+  authenticateToken,
+  body('code').isString().notEmpty().withMessage('Authentication code is required')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomValidationError('Validation failed');
+  }
+
+  const recoveryCodes = await enableTwoFactor(await loadCurrentUser(req), req.body.code);
+
+  successResponse(res, { recoveryCodes }, 'Two-factor authentication enabled');
+}));
+
+// Turn two-factor authentication off; takes the password and a second factor
+router.post('/2fa/disable', [
+  authenticateToken,
+  body('password').notEmpty().withMessage('Password is required'),
+  ...secondFactorValidation
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomValidationError('Validation failed');
+  }
+
+  const user = await loadCurrentUser(req);
+  const passwordHash = await UsersRepo.getPasswordHash(user.id);
+  if (!passwordHash || !await bcrypt.compare(req.body.password, passwordHash)) {
+    throw new AuthenticationError('Password is incorrect');
+  }
+
+  await disableTwoFactor(user, readSecondFactor(req));
+
+  successResponse(res, null, 'Two-factor authentication disabled');
+}));
+
+// Replace the recovery codes, e.g. when most are used up
+router.post('/2fa/recovery-codes', [
+  authenticateToken,
+  body('code').isString().notEmpty().withMessage('Authentication code is required')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomValidationError('Validation failed');
+  }
+
+  const recoveryCodes = await regenerateRecoveryCodes(await loadCurrentUser(req), req.body.code);
+
+  successResponse(res, { recoveryCodes }, 'Recovery codes regenerated');
+}));
+
+// Admin: whether admins must use two-factor authentication
+router.get('/2fa/admin-policy', authenticateToken, requireRole(['admin']), asyncHandler(async (req, res) => {
+  const required = await getAdminTwoFactorPolicy();
+
+  successResponse(res, { required }, 'Admin two-factor policy retrieved successfully');
+}));
+
+// Admin: require two-factor authentication from every admin, or stop requiring it
+router.put('/2fa/admin-policy', [
+  authenticateToken,
+  requireRole(['admin']),
+  body('required').isBoolean().withMessage('required must be a boolean')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomValidationError('Validation failed');
+  }
+
+  const required = req.body.required === true || req.body.required === 'true';
+  await setAdminTwoFactorPolicy(await loadCurrentUser(req), required);
+
+  successResponse(res, { required }, 'Admin two-factor policy updated successfully');
+}));
+
+// Admin: security log of lockouts and unlocks, newest first
+router.get('/security-events', [
+  authenticateToken,
+  requireRole(['admin']),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('type')
+    .optional()
+    .isIn(['account_locked', 'account_unlocked', 'ip_blocked'])
+    .withMessage('Invalid event type'),
+  query('userId').optional().isUUID().withMessage('Invalid user ID')
+], asyncHandler(async (req, res) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw new CustomValidationError('Validation failed');
+  }
+
+  const { page = 1, limit = 20, type, userId } = req.query;
+  const events = await SecurityEventsRepo.list(
+    { type: type as SecurityEventType | undefined, userId: userId ? String(userId) : undefined },
+    { page: Number(page), limit: Number(limit) }
+  );
+
+  sendPaginatedResponse(res, events.items, events.total, events.page, events.limit, 'Security events retrieved successfully');
+}));
+
+export default router;
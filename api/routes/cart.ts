@@ -0,0 +1,115 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { authenticateToken } from '../middleware/auth.js';
+import { lineItemRules, parseLineItems } from '../middleware/lineItems.js';
+import { validateRequest, asyncHandler, sendSuccess } from '../middleware/errorHandler.js';
+import { addToCart, clearCart, getCart, mergeCart, removeFromCart, setCartQuantity } from '../services/cart.js';
+
+const router = express.Router();
+
+const productIdParam = param('productId')
+  .isUUID()
+  .withMessage('Invalid product ID');
+
+// Picks the line of a product sold through variants
+const variantIdQuery = query('variant_id')
+  .optional()
+  .isUUID()
+  .withMessage('Invalid variant ID');
+
+// Get the signed-in user's cart, revalidated against current prices and stock
+router.get('/',
+  authenticateToken,
+  asyncHandler(async (req, res) => {
+    const cart = await getCart(req.user!.id);
+
+    sendSuccess(res, cart, 'Cart retrieved successfully');
+  })
+);
+
+// Add a product (or more units of it) to the cart
+router.post('/items',
+  authenticateToken,
+  [
+    body('product_id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    body('variant_id')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid variant ID'),
+    body('quantity')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Quantity must be a positive integer'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { product_id, variant_id, quantity = 1 } = req.body;
+
+    const cart = await addToCart(req.user!.id, product_id, variant_id, Number(quantity));
+
+    sendSuccess(res, cart, 'Product added to cart');
+  })
+);
+
+// Set the quantity of a product (or one of its variants) in the cart (0 removes it)
+router.put('/items/:productId',
+  authenticateToken,
+  [
+    productIdParam,
+    variantIdQuery,
+    body('quantity')
+      .isInt({ min: 0 })
+      .withMessage('Quantity must be a non-negative integer'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const cart = await setCartQuantity(
+      req.user!.id,
+      req.params.productId,
+      req.query.variant_id as string | undefined,
+      Number(req.body.quantity)
+    );
+
+    sendSuccess(res, cart, 'Cart updated successfully');
+  })
+);
+
+// Remove a product from the cart
+router.delete('/items/:productId',
+  authenticateToken,
+  [productIdParam, variantIdQuery],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const cart = await removeFromCart(req.user!.id, req.params.productId, req.query.variant_id as string | undefined);
+
+    sendSuccess(res, cart, 'Product removed from cart');
+  })
+);
+
+// Merge the cart kept on the device before signing in
+router.post('/merge',
+  authenticateToken,
+  [
+    ...lineItemRules({ max: 100 }, 'Items must be an array of at most 100 entries'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const cart = await mergeCart(req.user!.id, parseLineItems(req.body.items));
+
+    sendSuccess(res, cart, 'Cart merged successfully');
+  })
+);
+
+// Empty the cart
+router.delete('/',
+  authenticateToken,
+  asyncHandler(async (req, res) => {
+    await clearCart(req.user!.id);
+
+    sendSuccess(res, null, 'Cart cleared successfully');
+  })
+);
+
+export default router;
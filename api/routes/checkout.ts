@@ -0,0 +1,354 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { authenticateToken, optionalAuth, requireRole } from '../middleware/auth.js';
+import { lineItemRules, parseLineItems } from '../middleware/lineItems.js';
+import { validateRequest, asyncHandler, sendSuccess } from '../middleware/errorHandler.js';
+import {
+  ShippingZonesRepo, TaxRulesRepo, UpdateShippingZoneInput, UpdateTaxRuleInput
+} from '../repositories/index.js';
+import { quoteCheckout } from '../services/checkout.js';
+import { resolveLines } from '../services/variants.js';
+import { ShippingBasis, ShippingRate, TaxScope } from '../types.js';
+
+const router = express.Router();
+
+const COUNTRY_CODE = /^[A-Za-z]{2}$/;
+
+// Shared by tax rule create (required fields) and update (everything optional)
+const taxRuleValidation = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+
+  return [
+    field('name')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Name must be between 1 and 100 characters'),
+    field('country')
+      .matches(COUNTRY_CODE)
+      .withMessage('Country must be a two-letter ISO code'),
+    field('rate')
+      .isFloat({ min: 0, max: 100 })
+      .withMessage('Rate must be a percentage between 0 and 100'),
+    body('region')
+      .optional({ values: 'null' })
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Region must be between 1 and 100 characters'),
+    body('category')
+      .optional({ values: 'null' })
+      .isIn(['digital_art', 'templates', 'courses', 'tools', 'other'])
+      .withMessage('Invalid category'),
+    body('applies_to')
+      .optional()
+      .isIn(['all', 'physical', 'digital'])
+      .withMessage('applies_to must be all, physical or digital'),
+    body('is_active')
+      .optional()
+      .isBoolean()
+      .withMessage('is_active must be a boolean'),
+  ];
+};
+
+// Shared by shipping zone create (required fields) and update (everything optional)
+const shippingZoneValidation = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+
+  return [
+    field('name')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Name must be between 1 and 100 characters'),
+    field('rates')
+      .isArray({ min: 1, max: 20 })
+      .withMessage('Between 1 and 20 rates are required')
+      .custom((rates: ShippingZonePayload['rates'] = []) => {
+        const bounds = rates.map(rate => rate?.up_to ?? null);
+        return bounds.filter(bound => bound === null).length <= 1 && new Set(bounds).size === bounds.length;
+      })
+      .withMessage('Rates need distinct upper bounds and at most one without a bound'),
+    body('rates.*.up_to')
+      .optional({ values: 'null' })
+      .isFloat({ gt: 0 })
+      .withMessage('Rate upper bounds must be positive numbers'),
+    body('rates.*.amount')
+      .isFloat({ min: 0 })
+      .withMessage('Rate amounts must be non-negative numbers'),
+    body('countries')
+      .optional()
+      .isArray()
+      .withMessage('Countries must be an array'),
+    body('countries.*')
+      .matches(COUNTRY_CODE)
+      .withMessage('Countries must be two-letter ISO codes'),
+    body('basis')
+      .optional()
+      .isIn(['weight', 'price'])
+      .withMessage('Basis must be weight or price'),
+    body('is_active')
+      .optional()
+      .isBoolean()
+      .withMessage('is_active must be a boolean'),
+  ];
+};
+
+interface TaxRulePayload {
+  name?: string;
+  country?: string;
+  region?: string | null;
+  category?: string | null;
+  applies_to?: TaxScope;
+  rate?: number | string;
+  is_active?: boolean | string;
+}
+
+interface ShippingZonePayload {
+  name?: string;
+  countries?: string[];
+  basis?: ShippingBasis;
+  rates?: { up_to?: number | string | null; amount: number | string }[];
+  is_active?: boolean | string;
+}
+
+const booleanOf = (value: unknown) => (value === undefined ? undefined : String(value) === 'true');
+
+// Request body to repository input; absent fields stay undefined, explicit
+// nulls widen the rule to the whole country or every category
+const toTaxRuleInput = (payload: TaxRulePayload): UpdateTaxRuleInput => ({
+  name: payload.name,
+  country: payload.country,
+  region: payload.region,
+  category: payload.category,
+  appliesTo: payload.applies_to,
+  rate: payload.rate !== undefined ? Number(payload.rate) : undefined,
+  isActive: booleanOf(payload.is_active)
+});
+
+const toShippingZoneInput = (payload: ShippingZonePayload): UpdateShippingZoneInput => ({
+  name: payload.name,
+  countries: payload.countries,
+  basis: payload.basis,
+  rates: payload.rates?.map((rate): ShippingRate => ({
+    upTo: rate.up_to === undefined || rate.up_to === null ? null : Number(rate.up_to),
+    amount: Number(rate.amount)
+  })),
+  isActive: booleanOf(payload.is_active)
+});
+
+// Price a cart for an address before placing the order: subtotal, coupon
+// discounts, shipping and tax (signed-in users also get per-user coupon limits checked)
+router.post('/quote',
+  optionalAuth,
+  [
+    ...lineItemRules({ min: 1 }, 'Cart must contain at least one item'),
+    body('shipping_address')
+      .isObject()
+      .withMessage('Shipping address is required'),
+    body('shipping_address.country')
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Country must be between 2 and 100 characters'),
+    body('shipping_address.state')
+      .optional()
+      .isLength({ max: 100 })
+      .withMessage('State must be less than 100 characters'),
+    body('coupon_codes')
+      .optional()
+      .isArray({ max: 5 })
+      .withMessage('At most 5 coupon codes can be applied'),
+    body('coupon_codes.*')
+      .isString()
+      .isLength({ min: 1, max: 32 })
+      .withMessage('Invalid coupon code'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { items, shipping_address, coupon_codes } = req.body;
+
+    const lines = await resolveLines(parseLineItems(items));
+
+    if (lines.some(line => !line.product.isActive)) {
+      return res.status(400).json({ error: 'Some products are no longer available' });
+    }
+
+    const quote = await quoteCheckout({
+      lines,
+      couponCodes: coupon_codes,
+      shippingAddress: shipping_address,
+      userId: req.user?.id
+    });
+
+    sendSuccess(res, quote, 'Checkout quoted successfully');
+  })
+);
+
+// Get the tax rules (admin only)
+router.get('/tax-rules',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    query('country')
+      .optional()
+      .matches(COUNTRY_CODE)
+      .withMessage('Country must be a two-letter ISO code'),
+    query('is_active')
+      .optional()
+      .isBoolean()
+      .withMessage('is_active must be a boolean'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { country, is_active } = req.query;
+
+    const rules = await TaxRulesRepo.list({
+      country: country as string | undefined,
+      isActive: is_active !== undefined ? is_active === 'true' : undefined
+    });
+
+    sendSuccess(res, rules, 'Tax rules retrieved successfully');
+  })
+);
+
+// Create a tax rule (admin only)
+router.post('/tax-rules',
+  authenticateToken,
+  requireRole(['admin']),
+  taxRuleValidation(false),
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const rule = await TaxRulesRepo.create({
+      ...toTaxRuleInput(req.body),
+      name: req.body.name,
+      country: req.body.country,
+      rate: Number(req.body.rate)
+    });
+
+    sendSuccess(res, rule, 'Tax rule created successfully', 201);
+  })
+);
+
+// Update a tax rule (admin only)
+router.put('/tax-rules/:id',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid tax rule ID'),
+    ...taxRuleValidation(true),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const existing = await TaxRulesRepo.findById(req.params.id);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Tax rule not found' });
+    }
+
+    const rule = await TaxRulesRepo.update(existing.id, toTaxRuleInput(req.body));
+
+    sendSuccess(res, rule, 'Tax rule updated successfully');
+  })
+);
+
+// Delete a tax rule (admin only); orders keep the tax they were charged
+router.delete('/tax-rules/:id',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid tax rule ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const existing = await TaxRulesRepo.findById(req.params.id);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Tax rule not found' });
+    }
+
+    await TaxRulesRepo.delete(existing.id);
+
+    sendSuccess(res, null, 'Tax rule deleted successfully');
+  })
+);
+
+// Get the shipping zones (admin only)
+router.get('/shipping-zones',
+  authenticateToken,
+  requireRole(['admin']),
+  asyncHandler(async (req, res) => {
+    const zones = await ShippingZonesRepo.list();
+
+    sendSuccess(res, zones, 'Shipping zones retrieved successfully');
+  })
+);
+
+// Create a shipping zone (admin only)
+router.post('/shipping-zones',
+  authenticateToken,
+  requireRole(['admin']),
+  shippingZoneValidation(false),
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const input = toShippingZoneInput(req.body);
+    const zone = await ShippingZonesRepo.create({
+      ...input,
+      name: req.body.name,
+      rates: input.rates!
+    });
+
+    sendSuccess(res, zone, 'Shipping zone created successfully', 201);
+  })
+);
+
+// Update a shipping zone (admin only)
+router.put('/shipping-zones/:id',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid shipping zone ID'),
+    ...shippingZoneValidation(true),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const existing = await ShippingZonesRepo.findById(req.params.id);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Shipping zone not found' });
+    }
+
+    const zone = await ShippingZonesRepo.update(existing.id, toShippingZoneInput(req.body));
+
+    sendSuccess(res, zone, 'Shipping zone updated successfully');
+  })
+);
+
+// Delete a shipping zone (admin only)
+router.delete('/shipping-zones/:id',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid shipping zone ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const existing = await ShippingZonesRepo.findById(req.params.id);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Shipping zone not found' });
+    }
+
+    await ShippingZonesRepo.delete(existing.id);
+
+    sendSuccess(res, null, 'Shipping zone deleted successfully');
+  })
+);
+
+export default router;
@@ -0,0 +1,305 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { authenticateToken, optionalAuth, requireRole } from '../middleware/auth.js';
+import { lineItemRules, parseLineItems } from '../middleware/lineItems.js';
+import { validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse } from '../middleware/errorHandler.js';
+import { CouponsRepo, UpdateCouponInput } from '../repositories/index.js';
+import { priceLines } from '../services/discounts.js';
+import { getUnitPrice, resolveLines } from '../services/variants.js';
+import { DiscountType } from '../types.js';
+
+const router = express.Router();
+
+// Shared by create (required fields) and update (everything optional)
+const couponValidation = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+
+  return [
+    field('code')
+      .matches(/^[A-Za-z0-9_-]{3,32}$/)
+      .withMessage('Code must be 3-32 letters, numbers, dashes or underscores'),
+    field('discount_type')
+      .isIn(['percentage', 'fixed'])
+      .withMessage('Invalid discount type'),
+    field('discount_value')
+      .isFloat({ gt: 0 })
+      .withMessage('Discount value must be a positive number')
+      .custom((value, { req }) => req.body.discount_type !== 'percentage' || Number(value) <= 100)
+      .withMessage('Percentage discounts cannot exceed 100'),
+    body('description')
+      .optional({ values: 'null' })
+      .isLength({ max: 500 })
+      .withMessage('Description must be less than 500 characters'),
+    body('product_ids')
+      .optional()
+      .isArray()
+      .withMessage('Product IDs must be an array'),
+    body('product_ids.*')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    body('categories')
+      .optional()
+      .isArray()
+      .withMessage('Categories must be an array'),
+    body('categories.*')
+      .isIn(['digital_art', 'templates', 'courses', 'tools', 'other'])
+      .withMessage('Invalid category'),
+    body('min_order_amount')
+      .optional({ values: 'null' })
+      .isFloat({ min: 0 })
+      .withMessage('Minimum order amount must be a positive number'),
+    body('max_uses')
+      .optional({ values: 'null' })
+      .isInt({ min: 1 })
+      .withMessage('Max uses must be a positive integer'),
+    body('max_uses_per_user')
+      .optional({ values: 'null' })
+      .isInt({ min: 1 })
+      .withMessage('Max uses per user must be a positive integer'),
+    body('starts_at')
+      .optional({ values: 'null' })
+      .isISO8601()
+      .withMessage('Invalid start date'),
+    body('expires_at')
+      .optional({ values: 'null' })
+      .isISO8601()
+      .withMessage('Invalid expiry date'),
+    body('is_stackable')
+      .optional()
+      .isBoolean()
+      .withMessage('is_stackable must be a boolean'),
+    body('is_active')
+      .optional()
+      .isBoolean()
+      .withMessage('is_active must be a boolean'),
+  ];
+};
+
+type NullableNumber = number | string | null;
+
+interface CouponPayload {
+  code?: string;
+  description?: string | null;
+  discount_type?: DiscountType;
+  discount_value?: number | string;
+  product_ids?: string[];
+  categories?: string[];
+  min_order_amount?: NullableNumber;
+  max_uses?: NullableNumber;
+  max_uses_per_user?: NullableNumber;
+  starts_at?: string | null;
+  expires_at?: string | null;
+  is_stackable?: boolean;
+  is_active?: boolean;
+}
+
+// Request body to repository input; absent fields stay undefined, explicit
+// nulls clear optional limits
+const toCouponInput = (payload: CouponPayload): UpdateCouponInput => {
+  const numberOrNull = (value: unknown) =>
+    value === undefined ? undefined : value === null ? null : Number(value);
+
+  return {
+    code: payload.code,
+    description: payload.description,
+    discountType: payload.discount_type,
+    discountValue: payload.discount_value !== undefined ? Number(payload.discount_value) : undefined,
+    productIds: payload.product_ids,
+    categories: payload.categories,
+    minOrderAmount: numberOrNull(payload.min_order_amount),
+    maxUses: numberOrNull(payload.max_uses),
+    maxUsesPerUser: numberOrNull(payload.max_uses_per_user),
+    startsAt: payload.starts_at,
+    expiresAt: payload.expires_at,
+    isStackable: payload.is_stackable,
+    isActive: payload.is_active
+  };
+};
+
+// Preview the discounts of a cart (signed-in users also get per-user limits checked)
+router.post('/quote',
+  optionalAuth,
+  [
+    body('codes')
+      .isArray({ min: 1, max: 5 })
+      .withMessage('Between 1 and 5 coupon codes are required'),
+    body('codes.*')
+      .isString()
+      .isLength({ min: 1, max: 32 })
+      .withMessage('Invalid coupon code'),
+    ...lineItemRules({ min: 1 }, 'Cart must contain at least one item'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { codes, items } = req.body;
+
+    const lines = await resolveLines(parseLineItems(items));
+
+    const { subtotal, discountAmount, total, discounts } = await priceLines(
+      codes,
+      lines.map(({ product, variant, quantity }) => ({
+        productId: product.id,
+        category: product.category,
+        unitPrice: getUnitPrice(product, variant),
+        quantity
+      })),
+      { userId: req.user?.id }
+    );
+
+    sendSuccess(res, { subtotal, discountAmount, total, discounts }, 'Coupons applied successfully');
+  })
+);
+
+// Get all coupons (admin only)
+router.get('/',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    query('is_active')
+      .optional()
+      .isBoolean()
+      .withMessage('is_active must be a boolean'),
+    query('search')
+      .optional()
+      .isLength({ max: 100 })
+      .withMessage('Search must be less than 100 characters'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { is_active, search, page = 1, limit = 20 } = req.query;
+
+    const coupons = await CouponsRepo.list(
+      {
+        isActive: is_active !== undefined ? is_active === 'true' : undefined,
+        search: search as string | undefined
+      },
+      { page: Number(page), limit: Number(limit) }
+    );
+
+    sendPaginatedResponse(res, coupons.items, coupons.total, coupons.page, coupons.limit, 'Coupons retrieved successfully');
+  })
+);
+
+// Get a coupon with its usage report (admin only)
+router.get('/:id',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid coupon ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const coupon = await CouponsRepo.findById(req.params.id);
+
+    if (!coupon) {
+      return res.status(404).json({ error: 'Coupon not found' });
+    }
+
+    const usage = await CouponsRepo.getUsage(coupon.id);
+
+    sendSuccess(res, { ...coupon, usage }, 'Coupon retrieved successfully');
+  })
+);
+
+// Create coupon (admin only)
+router.post('/',
+  authenticateToken,
+  requireRole(['admin']),
+  couponValidation(false),
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    if (await CouponsRepo.findByCode(req.body.code)) {
+      return res.status(409).json({ error: 'A coupon with this code already exists' });
+    }
+
+    const input = toCouponInput(req.body);
+    const coupon = await CouponsRepo.create({
+      ...input,
+      code: req.body.code,
+      discountType: req.body.discount_type,
+      discountValue: Number(req.body.discount_value),
+      createdBy: req.user!.id
+    });
+
+    sendSuccess(res, coupon, 'Coupon created successfully', 201);
+  })
+);
+
+// Update coupon (admin only)
+router.put('/:id',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid coupon ID'),
+    ...couponValidation(true),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const existing = await CouponsRepo.findById(req.params.id);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Coupon not found' });
+    }
+
+    if (req.body.code) {
+      const clash = await CouponsRepo.findByCode(req.body.code);
+      if (clash && clash.id !== existing.id) {
+        return res.status(409).json({ error: 'A coupon with this code already exists' });
+      }
+    }
+
+    // A percentage cap only makes sense against the type the coupon will end up with
+    const discountType = req.body.discount_type ?? existing.discountType;
+    const discountValue = req.body.discount_value !== undefined ? Number(req.body.discount_value) : existing.discountValue;
+    if (discountType === 'percentage' && discountValue > 100) {
+      return res.status(400).json({ error: 'Percentage discounts cannot exceed 100' });
+    }
+
+    const coupon = await CouponsRepo.update(existing.id, toCouponInput(req.body));
+
+    sendSuccess(res, coupon, 'Coupon updated successfully');
+  })
+);
+
+// Delete coupon (admin only). Coupons that were used are deactivated instead
+// so past orders keep their discount report.
+router.delete('/:id',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid coupon ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const existing = await CouponsRepo.findById(req.params.id);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Coupon not found' });
+    }
+
+    if ((await CouponsRepo.getUsage(existing.id)).orders > 0) {
+      await CouponsRepo.update(existing.id, { isActive: false });
+      return sendSuccess(res, null, 'Coupon has been used and was deactivated instead');
+    }
+
+    await CouponsRepo.delete(existing.id);
+
+    sendSuccess(res, null, 'Coupon deleted successfully');
+  })
+);
+
+export default router;
@@ -3,8 +3,8 @@ import { body, param, query } from 'express-validator';
 import multer from 'multer';
 import { authenticateToken } from '../middleware/auth.js';
 import { validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse } from '../middleware/errorHandler.js';
-import { query as dbQuery } from '../config/database.js';
-import { DashboardItem } from '../types.js';
+import { query as dbQuery, dialect } from '../config/database.js';
+import { DashboardItemsRepo, DashboardItemSort, NumericColumn, toInteger } from '../repositories/index.js';
 
 const router = express.Router();
 
@@ -38,7 +38,7 @@ router.get('/',
   [
     query('type')
       .optional()
-      .isIn(['image', 'video', 'audio', 'document', 'note', 'link', 'other'])
+      .isIn(['note', 'image', 'video', 'audio', 'document'])
       .withMessage('Invalid item type'),
     query('category')
       .optional()
@@ -72,90 +72,19 @@ router.get('/',
       page = 1,
       limit = 20
     } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
 
-    // Build WHERE clause
-    let whereConditions = ['user_id = $1'];
-    const queryParams: any[] = [userId];
-    let paramIndex = 2;
-
-    if (type) {
-      whereConditions.push(`type = $${paramIndex}`);
-      queryParams.push(type);
-      paramIndex++;
-    }
-
-    if (category) {
-      whereConditions.push(`category = $${paramIndex}`);
-      queryParams.push(category);
-      paramIndex++;
-    }
-
-    if (search) {
-      whereConditions.push(`(
-        title ILIKE $${paramIndex} OR 
-        description ILIKE $${paramIndex} OR 
-        tags::text ILIKE $${paramIndex}
-      )`);
-      queryParams.push(`%${search}%`);
-      paramIndex++;
-    }
-
-    const whereClause = whereConditions.join(' AND ');
-
-    // Build ORDER BY clause
-    let orderBy = 'created_at DESC';
-    switch (sort) {
-      case 'oldest':
-        orderBy = 'created_at ASC';
-        break;
-      case 'name_asc':
-        orderBy = 'title ASC';
-        break;
-      case 'name_desc':
-        orderBy = 'title DESC';
-        break;
-      case 'type':
-        orderBy = 'type ASC, created_at DESC';
-        break;
-    }
-
-    // Get total count
-    const countResult = await dbQuery(
-      `SELECT COUNT(*) as total FROM dashboard_items WHERE ${whereClause}`,
-      queryParams
+    const items = await DashboardItemsRepo.list(
+      userId,
+      {
+        type: type as string | undefined,
+        category: category as string | undefined,
+        search: search as string | undefined,
+        sort: sort as DashboardItemSort
+      },
+      { page: Number(page), limit: Number(limit) }
     );
-    const total = parseInt(countResult.rows[0].total);
 
-    // Get dashboard items
-    const result = await dbQuery(
-      `SELECT id, title, description, type, category, file_url, thumbnail_url,
-              file_size, mime_type, tags, metadata, is_favorite, created_at, updated_at
-       FROM dashboard_items
-       WHERE ${whereClause}
-       ORDER BY ${orderBy}
-       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
-      [...queryParams, Number(limit), offset]
-    );
-
-    const items = result.rows.map(row => ({
-      id: row.id,
-      title: row.title,
-      description: row.description,
-      type: row.type,
-      category: row.category,
-      file_url: row.file_url,
-      thumbnail_url: row.thumbnail_url,
-      file_size: row.file_size,
-      mime_type: row.mime_type,
-      tags: row.tags,
-      metadata: row.metadata,
-      is_favorite: row.is_favorite,
-      created_at: row.created_at,
-      updated_at: row.updated_at
-    }));
-
-    sendPaginatedResponse(res, items, total, Number(page), Number(limit), 'Dashboard items retrieved successfully');
+    sendPaginatedResponse(res, items.items, items.total, items.page, items.limit, 'Dashboard items retrieved successfully');
   })
 );
 
@@ -172,36 +101,13 @@ router.get('/:id',
     const { id } = req.params;
     const userId = req.user!.id;
 
-    const result = await dbQuery(
-      `SELECT id, title, description, type, category, file_url, thumbnail_url,
-              file_size, mime_type, tags, metadata, is_favorite, created_at, updated_at
-       FROM dashboard_items
-       WHERE id = $1 AND user_id = $2`,
-      [id, userId]
-    );
+    const item = await DashboardItemsRepo.findById(id, userId);
 
-    if (result.rows.length === 0) {
+    if (!item) {
       return res.status(404).json({ error: 'Dashboard item not found' });
     }
 
-    const item = result.rows[0];
-
-    sendSuccess(res, {
-      id: item.id,
-      title: item.title,
-      description: item.description,
-      type: item.type,
-      category: item.category,
-      file_url: item.file_url,
-      thumbnail_url: item.thumbnail_url,
-      file_size: item.file_size,
-      mime_type: item.mime_type,
-      tags: item.tags,
-      metadata: item.metadata,
-      is_favorite: item.is_favorite,
-      created_at: item.created_at,
-      updated_at: item.updated_at
-    }, 'Dashboard item retrieved successfully');
+    sendSuccess(res, item, 'Dashboard item retrieved successfully');
   })
 );
 
@@ -218,7 +124,7 @@ router.post('/upload',
       .isLength({ max: 1000 })
       .withMessage('Description must be less than 1000 characters'),
     body('type')
-      .isIn(['image', 'video', 'audio', 'document', 'note', 'link', 'other'])
+      .isIn(['note', 'image', 'video', 'audio', 'document'])
       .withMessage('Invalid item type'),
     body('category')
       .optional()
@@ -263,28 +169,21 @@ router.post('/upload',
       }
     }
 
-    const result = await dbQuery(
-      `INSERT INTO dashboard_items (
-        user_id, title, description, type, category, file_url, thumbnail_url,
-        file_size, mime_type, tags, metadata
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-      RETURNING id, title, type, file_url, created_at`,
-      [
-        userId, title, description || null, type, category || null,
-        fileUrl, thumbnailUrl, fileSize, mimeType,
-        JSON.stringify(tags || []), JSON.stringify(metadata || {})
-      ]
-    );
-
-    const item = result.rows[0];
+    const item = await DashboardItemsRepo.create({
+      userId,
+      name: title,
+      description,
+      type,
+      category,
+      url: fileUrl,
+      thumbnail: thumbnailUrl,
+      size: fileSize,
+      mimeType,
+      tags,
+      metadata
+    });
 
-    sendSuccess(res, {
-      id: item.id,
-      title: item.title,
-      type: item.type,
-      file_url: item.file_url,
-      created_at: item.created_at
-    }, 'Dashboard item uploaded successfully', 201);
+    sendSuccess(res, item, 'Dashboard item uploaded successfully', 201);
   })
 );
 
@@ -300,7 +199,7 @@ router.post('/',
       .isLength({ max: 1000 })
       .withMessage('Description must be less than 1000 characters'),
     body('type')
-      .isIn(['image', 'video', 'audio', 'document', 'note', 'link', 'other'])
+      .isIn(['note', 'image', 'video', 'audio', 'document'])
       .withMessage('Invalid item type'),
     body('category')
       .optional()
@@ -332,19 +231,16 @@ router.post('/',
     } = req.body;
     const userId = req.user!.id;
 
-    const result = await dbQuery(
-      `INSERT INTO dashboard_items (
-        user_id, title, description, type, category, file_url,
-        tags, metadata
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      RETURNING id, title, description, type, category, file_url, created_at`,
-      [
-        userId, title, description || null, type, category || null,
-        file_url || null, JSON.stringify(tags || []), JSON.stringify(metadata || {})
-      ]
-    );
-
-    const item = result.rows[0];
+    const item = await DashboardItemsRepo.create({
+      userId,
+      name: title,
+      description,
+      type,
+      category,
+      url: file_url,
+      tags,
+      metadata
+    });
 
     sendSuccess(res, item, 'Dashboard item created successfully', 201);
   })
@@ -387,53 +283,18 @@ router.put('/:id',
     const { id } = req.params;
     const userId = req.user!.id;
 
-    // Check if item exists and belongs to user
-    const existingResult = await dbQuery(
-      'SELECT id FROM dashboard_items WHERE id = $1 AND user_id = $2',
-      [id, userId]
-    );
+    const { title, description, category, tags, metadata, is_favorite } = req.body;
+    const changes = { name: title, description, category, tags, metadata, isStarred: is_favorite };
 
-    if (existingResult.rows.length === 0) {
-      return res.status(404).json({ error: 'Dashboard item not found' });
-    }
-
-    // Build update query
-    const updateFields = [];
-    const queryParams = [];
-    let paramIndex = 1;
-
-    const allowedFields = ['title', 'description', 'category', 'tags', 'metadata', 'is_favorite'];
-
-    for (const field of allowedFields) {
-      if (req.body[field] !== undefined) {
-        updateFields.push(`${field} = $${paramIndex}`);
-        
-        if (['tags', 'metadata'].includes(field)) {
-          queryParams.push(JSON.stringify(req.body[field]));
-        } else {
-          queryParams.push(req.body[field]);
-        }
-        paramIndex++;
-      }
-    }
-
-    if (updateFields.length === 0) {
+    if (Object.values(changes).every(value => value === undefined)) {
       return res.status(400).json({ error: 'No valid fields to update' });
     }
 
-    updateFields.push(`updated_at = CURRENT_TIMESTAMP`);
-    queryParams.push(id);
+    const item = await DashboardItemsRepo.update(id, userId, changes);
 
-    const result = await dbQuery(
-      `UPDATE dashboard_items 
-       SET ${updateFields.join(', ')}
-       WHERE id = $${paramIndex}
-       RETURNING id, title, description, type, category, file_url, 
-                 tags, metadata, is_favorite, updated_at`,
-      queryParams
-    );
-
-    const item = result.rows[0];
+    if (!item) {
+      return res.status(404).json({ error: 'Dashboard item not found' });
+    }
 
     sendSuccess(res, item, 'Dashboard item updated successfully');
   })
@@ -452,21 +313,12 @@ router.delete('/:id',
     const { id } = req.params;
     const userId = req.user!.id;
 
-    // Check if item exists and belongs to user
-    const existingResult = await dbQuery(
-      'SELECT id FROM dashboard_items WHERE id = $1 AND user_id = $2',
-      [id, userId]
-    );
+    const deleted = await DashboardItemsRepo.delete(id, userId);
 
-    if (existingResult.rows.length === 0) {
+    if (!deleted) {
       return res.status(404).json({ error: 'Dashboard item not found' });
     }
 
-    await dbQuery(
-      'DELETE FROM dashboard_items WHERE id = $1',
-      [id]
-    );
-
     sendSuccess(res, null, 'Dashboard item deleted successfully');
   })
 );
@@ -484,30 +336,13 @@ router.patch('/:id/favorite',
     const { id } = req.params;
     const userId = req.user!.id;
 
-    // Check if item exists and belongs to user
-    const existingResult = await dbQuery(
-      'SELECT id, is_favorite FROM dashboard_items WHERE id = $1 AND user_id = $2',
-      [id, userId]
-    );
+    const item = await DashboardItemsRepo.toggleStar(id, userId);
 
-    if (existingResult.rows.length === 0) {
+    if (!item) {
       return res.status(404).json({ error: 'Dashboard item not found' });
     }
 
-    const currentFavorite = existingResult.rows[0].is_favorite;
-    const newFavorite = !currentFavorite;
-
-    const result = await dbQuery(
-      `UPDATE dashboard_items 
-       SET is_favorite = $1, updated_at = CURRENT_TIMESTAMP
-       WHERE id = $2
-       RETURNING id, is_favorite`,
-      [newFavorite, id]
-    );
-
-    const item = result.rows[0];
-
-    sendSuccess(res, item, `Item ${newFavorite ? 'added to' : 'removed from'} favorites`);
+    sendSuccess(res, item, `Item ${item.isStarred ? 'added to' : 'removed from'} favorites`);
   })
 );
 
@@ -518,11 +353,11 @@ router.get('/stats/summary',
     const userId = req.user!.id;
 
     // Get item counts by type
-    const typeStatsResult = await dbQuery(
-      `SELECT type, COUNT(*) as count
+    const typeStatsResult = await dbQuery<{ item_type: string; count: NumericColumn }>(
+      `SELECT item_type, COUNT(*) as count
        FROM dashboard_items
        WHERE user_id = $1
-       GROUP BY type
+       GROUP BY item_type
        ORDER BY count DESC`,
       [userId]
     );
@@ -539,7 +374,7 @@ router.get('/stats/summary',
     const recentResult = await dbQuery(
       `SELECT COUNT(*) as recent_uploads
        FROM dashboard_items
-       WHERE user_id = $1 AND created_at >= CURRENT_DATE - INTERVAL '7 days'`,
+       WHERE user_id = $1 AND created_at >= ${dialect.since(7, 'days')}`,
       [userId]
     );
 
@@ -551,8 +386,8 @@ router.get('/stats/summary',
       [userId]
     );
 
-    const typeStats = typeStatsResult.rows.reduce((acc, row) => {
-      acc[row.type] = parseInt(row.count);
+    const typeStats = typeStatsResult.rows.reduce<Record<string, number>>((acc, row) => {
+      acc[row.item_type] = toInteger(row.count);
       return acc;
     }, {});
 
@@ -561,9 +396,9 @@ router.get('/stats/summary',
     sendSuccess(res, {
       total_items: totalItems,
       type_breakdown: typeStats,
-      total_storage_bytes: parseInt(storageResult.rows[0].total_storage),
-      recent_uploads: parseInt(recentResult.rows[0].recent_uploads),
-      favorites_count: parseInt(favoritesResult.rows[0].favorites_count)
+      total_storage_bytes: toInteger(storageResult.rows[0].total_storage),
+      recent_uploads: toInteger(recentResult.rows[0].recent_uploads),
+      favorites_count: toInteger(favoritesResult.rows[0].favorites_count)
     }, 'Dashboard statistics retrieved successfully');
   })
 );
@@ -585,7 +420,7 @@ router.get('/categories/list',
 
     const categories = result.rows.map(row => ({
       name: row.category,
-      count: parseInt(row.count)
+      count: toInteger(row.count)
     }));
 
     sendSuccess(res, categories, 'Categories retrieved successfully');
@@ -601,7 +436,7 @@ router.get('/search/advanced',
       .withMessage('Search query must be between 1 and 100 characters'),
     query('type')
       .optional()
-      .isIn(['image', 'video', 'audio', 'document', 'note', 'link', 'other'])
+      .isIn(['note', 'image', 'video', 'audio', 'document'])
       .withMessage('Invalid item type'),
     query('category')
       .optional()
@@ -646,105 +481,22 @@ router.get('/search/advanced',
       page = 1,
       limit = 20
     } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
-
-    // Build WHERE clause
-    let whereConditions = ['user_id = $1'];
-    const queryParams: any[] = [userId];
-    let paramIndex = 2;
-
-    // Search query
-    whereConditions.push(`(
-      title ILIKE $${paramIndex} OR 
-      description ILIKE $${paramIndex} OR 
-      tags::text ILIKE $${paramIndex}
-    )`);
-    queryParams.push(`%${q}%`);
-    paramIndex++;
-
-    if (type) {
-      whereConditions.push(`type = $${paramIndex}`);
-      queryParams.push(type);
-      paramIndex++;
-    }
-
-    if (category) {
-      whereConditions.push(`category = $${paramIndex}`);
-      queryParams.push(category);
-      paramIndex++;
-    }
-
-    if (favorites_only === 'true') {
-      whereConditions.push('is_favorite = true');
-    }
-
-    if (date_from) {
-      whereConditions.push(`created_at >= $${paramIndex}`);
-      queryParams.push(date_from);
-      paramIndex++;
-    }
-
-    if (date_to) {
-      whereConditions.push(`created_at <= $${paramIndex}`);
-      queryParams.push(date_to);
-      paramIndex++;
-    }
-
-    const whereClause = whereConditions.join(' AND ');
-
-    // Build ORDER BY clause
-    let orderBy = 'created_at DESC'; // Default for relevance
-    switch (sort) {
-      case 'newest':
-        orderBy = 'created_at DESC';
-        break;
-      case 'oldest':
-        orderBy = 'created_at ASC';
-        break;
-      case 'name_asc':
-        orderBy = 'title ASC';
-        break;
-      case 'name_desc':
-        orderBy = 'title DESC';
-        break;
-    }
 
-    // Get total count
-    const countResult = await dbQuery(
-      `SELECT COUNT(*) as total FROM dashboard_items WHERE ${whereClause}`,
-      queryParams
+    const items = await DashboardItemsRepo.list(
+      userId,
+      {
+        search: q as string,
+        type: type as string | undefined,
+        category: category as string | undefined,
+        favoritesOnly: favorites_only === 'true',
+        dateFrom: date_from as string | undefined,
+        dateTo: date_to as string | undefined,
+        sort: sort as DashboardItemSort
+      },
+      { page: Number(page), limit: Number(limit) }
     );
-    const total = parseInt(countResult.rows[0].total);
-
-    // Get items
-    const result = await dbQuery(
-      `SELECT id, title, description, type, category, file_url, thumbnail_url,
-              file_size, mime_type, tags, metadata, is_favorite, created_at, updated_at
-       FROM dashboard_items
-       WHERE ${whereClause}
-       ORDER BY ${orderBy}
-       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
-      [...queryParams, Number(limit), offset]
-    );
-
-    const items = result.rows.map(row => ({
-      id: row.id,
-      title: row.title,
-      description: row.description,
-      type: row.type,
-      category: row.category,
-      file_url: row.file_url,
-      thumbnail_url: row.thumbnail_url,
-      file_size: row.file_size,
-      mime_type: row.mime_type,
-      tags: row.tags,
-      metadata: row.metadata,
-      is_favorite: row.is_favorite,
-      created_at: row.created_at,
-      updated_at: row.updated_at
-    }));
 
-    sendPaginatedResponse(res, items, total, Number(page), Number(limit), `Found ${total} items matching "${q}"`);
+    sendPaginatedResponse(res, items.items, items.total, items.page, items.limit, `Found ${items.total} items matching "${q}"`);
   })
 );
 
@@ -0,0 +1,122 @@
+import express from 'express';
+import { param, query } from 'express-validator';
+import { authenticateToken, isAdminActing } from '../middleware/auth.js';
+import { validateRequest, asyncHandler, sendSuccess } from '../middleware/errorHandler.js';
+import { EntitlementsRepo, ProductFilesRepo, toPublicFile } from '../repositories/index.js';
+import {
+  claimDownload, createDownloadLink, isValidDownloadSignature, resolveFilePath
+} from '../services/entitlements.js';
+import { Entitlement } from '../types.js';
+
+const router = express.Router();
+
+const withFiles = async (entitlement: Entitlement): Promise<Entitlement> => ({
+  ...entitlement,
+  files: (await ProductFilesRepo.listByProduct(entitlement.productId)).map(toPublicFile)
+});
+
+// Get the signed-in user's purchases of digital products ("My purchases")
+router.get('/',
+  authenticateToken,
+  asyncHandler(async (req, res) => {
+    const entitlements = await EntitlementsRepo.listByUser(req.user!.id);
+    const purchases = await Promise.all(entitlements.map(withFiles));
+
+    sendSuccess(res, purchases, 'Purchases retrieved successfully');
+  })
+);
+
+// Get a single entitlement (owner or admin only)
+router.get('/:id',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid entitlement ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const entitlement = await EntitlementsRepo.findById(req.params.id);
+
+    if (!entitlement) {
+      return res.status(404).json({ error: 'Purchase not found' });
+    }
+
+    if (entitlement.userId !== req.user!.id && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to view this purchase' });
+    }
+
+    sendSuccess(res, await withFiles(entitlement), 'Purchase retrieved successfully');
+  })
+);
+
+// Issue an expiring download link for one of the product's files (owner only)
+router.post('/:id/files/:fileId/link',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid entitlement ID'),
+    param('fileId')
+      .isUUID()
+      .withMessage('Invalid file ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const entitlement = await EntitlementsRepo.findById(req.params.id);
+    const file = await ProductFilesRepo.findById(req.params.fileId);
+
+    if (!entitlement || entitlement.userId !== req.user!.id) {
+      return res.status(404).json({ error: 'Purchase not found' });
+    }
+
+    if (!file) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const baseUrl = process.env.API_PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+    const link = createDownloadLink(entitlement, file, baseUrl);
+
+    sendSuccess(res, link, 'Download link created successfully', 201);
+  })
+);
+
+// Download through a signed link (no session: the signature is the credential)
+router.get('/:id/files/:fileId/download',
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid entitlement ID'),
+    param('fileId')
+      .isUUID()
+      .withMessage('Invalid file ID'),
+    query('expires')
+      .isInt()
+      .withMessage('Invalid download link'),
+    query('signature')
+      .isHexadecimal()
+      .withMessage('Invalid download link'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { id, fileId } = req.params;
+    const expires = Number(req.query.expires);
+
+    if (!isValidDownloadSignature(id, fileId, expires, String(req.query.signature))) {
+      return res.status(403).json({ error: 'Download link is invalid or has expired' });
+    }
+
+    const entitlement = await EntitlementsRepo.findById(id);
+    const file = await ProductFilesRepo.findById(fileId);
+
+    if (!entitlement || !file || file.productId !== entitlement.productId) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    await claimDownload(entitlement);
+
+    res.download(resolveFilePath(file), file.fileName);
+  })
+);
+
+export default router;
@@ -0,0 +1,29 @@
+import express from 'express';
+import { body } from 'express-validator';
+import { validateRequest, asyncHandler, sendSuccess } from '../middleware/errorHandler.js';
+import { verifyLicense } from '../services/entitlements.js';
+
+const router = express.Router();
+
+// Check a license key (public, for sellers' software). Pass product_id to make
+// sure the key belongs to that product.
+router.post('/verify',
+  [
+    body('license_key')
+      .isString()
+      .isLength({ min: 10, max: 64 })
+      .withMessage('Invalid license key'),
+    body('product_id')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid product ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const verification = await verifyLicense(req.body.license_key, req.body.product_id);
+
+    sendSuccess(res, verification, verification.valid ? 'License is valid' : 'License is not valid');
+  })
+);
+
+export default router;
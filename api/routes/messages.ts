@@ -3,7 +3,8 @@ import { body, param, query } from 'express-validator';
 import multer from 'multer';
 import { authenticateToken } from '../middleware/auth.js';
 import { validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse } from '../middleware/errorHandler.js';
-import { query as dbQuery } from '../config/database.js';
+import { query as dbQuery, dialect } from '../config/database.js';
+import { toInteger } from '../repositories/index.js';
 import { Message } from '../types.js';
 
 const router = express.Router();
@@ -59,8 +60,8 @@ router.get('/conversations',
         WHERE sender_id = $1 OR receiver_id = $1
         GROUP BY other_user_id
       ),
-      last_messages AS (
-        SELECT DISTINCT ON (cu.other_user_id)
+      ranked_messages AS (
+        SELECT
           cu.other_user_id,
           m.id,
           m.content,
@@ -68,14 +69,17 @@ router.get('/conversations',
           m.file_url,
           m.sender_id,
           m.is_read,
-          m.created_at
+          m.created_at,
+          ROW_NUMBER() OVER (PARTITION BY cu.other_user_id ORDER BY m.created_at DESC) as rn
         FROM conversation_users cu
         JOIN messages m ON (
           (m.sender_id = $1 AND m.receiver_id = cu.other_user_id) OR
           (m.sender_id = cu.other_user_id AND m.receiver_id = $1)
         )
         WHERE m.created_at = cu.last_message_time
-        ORDER BY cu.other_user_id, m.created_at DESC
+      ),
+      last_messages AS (
+        SELECT * FROM ranked_messages WHERE rn = 1
       )
       SELECT 
         u.id,
@@ -119,7 +123,7 @@ router.get('/conversations',
       WHERE u.is_active = true`,
       [userId]
     );
-    const total = parseInt(countResult.rows[0].total);
+    const total = toInteger(countResult.rows[0].total);
 
     const conversations = result.rows.map(row => ({
       user: {
@@ -139,7 +143,7 @@ router.get('/conversations',
         created_at: row.last_message_time,
         is_own: row.last_message_sender_id === userId
       } : null,
-      unread_count: parseInt(row.unread_count)
+      unread_count: toInteger(row.unread_count)
     }));
 
     sendPaginatedResponse(res, conversations, total, Number(page), Number(limit), 'Conversations retrieved successfully');
@@ -204,7 +208,7 @@ router.get('/conversation/:userId',
       `SELECT COUNT(*) as total FROM messages ${whereClause}`,
       queryParams
     );
-    const total = parseInt(countResult.rows[0].total);
+    const total = toInteger(countResult.rows[0].total);
 
     // Get messages
     const result = await dbQuery(
@@ -254,7 +258,7 @@ router.get('/conversation/:userId',
 
       if (unreadMessageIds.length > 0) {
         await dbQuery(
-          'UPDATE messages SET is_read = true WHERE id = ANY($1)',
+          `UPDATE messages SET is_read = true WHERE ${dialect.inArray('id', '$1')}`,
           [unreadMessageIds]
         );
         
@@ -501,7 +505,7 @@ router.get('/search',
 
     let whereClause = `WHERE (
       (m.sender_id = $1 OR m.receiver_id = $1)
-      AND m.content ILIKE $2
+      AND ${dialect.ilike('m.content', '$2')}
     )`;
     const queryParams = [currentUserId, `%${q}%`];
     let paramIndex = 3;
@@ -525,7 +529,7 @@ router.get('/search',
        ${whereClause} AND s.is_active = true AND r.is_active = true`,
       queryParams
     );
-    const total = parseInt(countResult.rows[0].total);
+    const total = toInteger(countResult.rows[0].total);
 
     // Get messages
     const result = await dbQuery(
@@ -581,7 +585,7 @@ router.get('/unread/count',
       [userId]
     );
 
-    const unreadCount = parseInt(result.rows[0].total);
+    const unreadCount = toInteger(result.rows[0].total);
 
     sendSuccess(res, { unread_count: unreadCount }, 'Unread count retrieved successfully');
   })
@@ -0,0 +1,81 @@
+import express from 'express';
+import { param, query } from 'express-validator';
+import { authenticateToken } from '../middleware/auth.js';
+import { validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse } from '../middleware/errorHandler.js';
+import { NotificationsRepo } from '../repositories/index.js';
+
+const router = express.Router();
+
+// Get the user's notifications, newest first
+router.get('/',
+  authenticateToken,
+  [
+    query('unread')
+      .optional()
+      .isBoolean()
+      .withMessage('unread must be a boolean'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { unread, page = 1, limit = 20 } = req.query;
+
+    const notifications = await NotificationsRepo.listByUser(
+      req.user!.id,
+      { unreadOnly: unread === 'true' },
+      { page: Number(page), limit: Number(limit) }
+    );
+
+    sendPaginatedResponse(
+      res, notifications.items, notifications.total, notifications.page, notifications.limit,
+      'Notifications retrieved successfully'
+    );
+  })
+);
+
+// Number of unread notifications, for badges
+router.get('/unread-count',
+  authenticateToken,
+  asyncHandler(async (req, res) => {
+    const count = await NotificationsRepo.countUnread(req.user!.id);
+
+    sendSuccess(res, { count }, 'Unread count retrieved successfully');
+  })
+);
+
+// Mark every notification as read
+router.post('/read-all',
+  authenticateToken,
+  asyncHandler(async (req, res) => {
+    const updated = await NotificationsRepo.markAllRead(req.user!.id);
+
+    sendSuccess(res, { updated }, 'Notifications marked as read');
+  })
+);
+
+// Mark one notification as read
+router.patch('/:id/read',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid notification ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    if (!(await NotificationsRepo.markRead(req.params.id, req.user!.id))) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    sendSuccess(res, null, 'Notification marked as read');
+  })
+);
+
+export default router;
@@ -1,9 +1,21 @@
 import express from 'express';
 import { body, param, query } from 'express-validator';
-import { authenticateToken, requireRole } from '../middleware/auth.js';
+import { authenticateToken, isAdminActing, requireRole } from '../middleware/auth.js';
+import { lineItemRules, parseLineItems } from '../middleware/lineItems.js';
 import { validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse } from '../middleware/errorHandler.js';
-import { query as dbQuery } from '../config/database.js';
-import { Order } from '../types.js';
+import { query as dbQuery, dialect } from '../config/database.js';
+import {
+  InvoicesRepo, OrdersRepo, OrderHistoryRepo, OrderReturnsRepo, SellerOrdersRepo, UsersRepo, toInteger, toNumber
+} from '../repositories/index.js';
+import { placeOrder, cancelOrder } from '../services/checkout.js';
+import { issueInvoices } from '../services/invoices.js';
+import { renderInvoicesHtml, renderInvoicesPdf } from '../services/invoiceDocument.js';
+import { openReturn, approveReturn, rejectReturn } from '../services/returns.js';
+import { resolveLines } from '../services/variants.js';
+import { ReturnStatus } from '../types.js';
+import {
+  changeOrderStatus, changePaymentStatus, getStatusTransitionError, getPaymentTransitionError
+} from '../services/orderLifecycle.js';
 
 const router = express.Router();
 
@@ -13,7 +25,7 @@ router.get('/',
   [
     query('status')
       .optional()
-      .isIn(['pending', 'processing', 'completed', 'cancelled', 'refunded'])
+      .isIn(['pending', 'processing', 'shipped', 'delivered', 'cancelled'])
       .withMessage('Invalid order status'),
     query('page')
       .optional()
@@ -28,56 +40,13 @@ router.get('/',
   asyncHandler(async (req, res) => {
     const userId = req.user!.id;
     const { status, page = 1, limit = 10 } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
 
-    // Build WHERE clause
-    let whereConditions = ['o.user_id = $1'];
-    const queryParams: any[] = [userId];
-    let paramIndex = 2;
-
-    if (status) {
-      whereConditions.push(`o.status = $${paramIndex}`);
-      queryParams.push(status);
-      paramIndex++;
-    }
-
-    const whereClause = whereConditions.join(' AND ');
-
-    // Get total count
-    const countResult = await dbQuery(
-      `SELECT COUNT(*) as total FROM orders o WHERE ${whereClause}`,
-      queryParams
+    const orders = await OrdersRepo.list(
+      { userId, status: status as string | undefined },
+      { page: Number(page), limit: Number(limit) }
     );
-    const total = parseInt(countResult.rows[0].total);
-
-    // Get orders
-    const result = await dbQuery(
-      `SELECT o.id, o.total_amount, o.status, o.payment_method, o.payment_status,
-              o.shipping_address, o.created_at, o.updated_at,
-              COUNT(oi.id) as item_count
-       FROM orders o
-       LEFT JOIN order_items oi ON o.id = oi.order_id
-       WHERE ${whereClause}
-       GROUP BY o.id, o.total_amount, o.status, o.payment_method, o.payment_status,
-                o.shipping_address, o.created_at, o.updated_at
-       ORDER BY o.created_at DESC
-       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
-      [...queryParams, Number(limit), offset]
-    );
-
-    const orders = result.rows.map(row => ({
-      id: row.id,
-      total_amount: parseFloat(row.total_amount),
-      status: row.status,
-      payment_method: row.payment_method,
-      payment_status: row.payment_status,
-      shipping_address: row.shipping_address,
-      item_count: parseInt(row.item_count),
-      created_at: row.created_at,
-      updated_at: row.updated_at
-    }));
 
-    sendPaginatedResponse(res, orders, total, Number(page), Number(limit), 'Orders retrieved successfully');
+    sendPaginatedResponse(res, orders.items, orders.total, orders.page, orders.limit, 'Orders retrieved successfully');
   })
 );
 
@@ -93,85 +62,124 @@ router.get('/:id',
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const userId = req.user!.id;
-    const userRole = req.user!.role;
 
     // Get order with items
-    const orderResult = await dbQuery(
-      `SELECT o.id, o.user_id, o.total_amount, o.status, o.payment_method, 
-              o.payment_status, o.payment_intent_id, o.shipping_address, 
-              o.billing_address, o.notes, o.created_at, o.updated_at,
-              u.username, u.full_name, u.email
-       FROM orders o
-       JOIN users u ON o.user_id = u.id
-       WHERE o.id = $1`,
-      [id]
-    );
+    const order = await OrdersRepo.findById(id);
 
-    if (orderResult.rows.length === 0) {
+    if (!order) {
       return res.status(404).json({ error: 'Order not found' });
     }
 
-    const orderRow = orderResult.rows[0];
-
     // Check permission
-    if (userRole !== 'admin' && orderRow.user_id !== userId) {
+    if (order.userId !== userId && !await isAdminActing(req)) {
       return res.status(403).json({ error: 'Not authorized to view this order' });
     }
 
-    // Get order items
-    const itemsResult = await dbQuery(
-      `SELECT oi.id, oi.quantity, oi.unit_price, oi.total_price,
-              p.id as product_id, p.name as product_name, p.image_urls,
-              p.category, p.seller_id,
-              u.username as seller_username, u.full_name as seller_name
-       FROM order_items oi
-       JOIN products p ON oi.product_id = p.id
-       JOIN users u ON p.seller_id = u.id
-       WHERE oi.order_id = $1
-       ORDER BY oi.created_at`,
-      [id]
-    );
+    const sellerOrders = await SellerOrdersRepo.listByOrder(order.id);
 
-    const items = itemsResult.rows.map(row => ({
-      id: row.id,
-      quantity: row.quantity,
-      unit_price: parseFloat(row.unit_price),
-      total_price: parseFloat(row.total_price),
-      product: {
-        id: row.product_id,
-        name: row.product_name,
-        image_urls: row.image_urls,
-        category: row.category,
-        seller: {
-          id: row.seller_id,
-          username: row.seller_username,
-          full_name: row.seller_name
-        }
-      }
+    sendSuccess(res, { ...order, sellerOrders }, 'Order retrieved successfully');
+  })
+);
+
+// Get order status history
+router.get('/:id/history',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid order ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const order = await OrdersRepo.findById(id);
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    if (order.userId !== req.user!.id && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to view this order' });
+    }
+
+    const history = await OrderHistoryRepo.listByOrder(id);
+
+    sendSuccess(res, history, 'Order history retrieved successfully');
+  })
+);
+
+// Get the invoices and credit notes of an order as JSON, HTML or PDF; one
+// document with invoice_id, otherwise every one the user may see. Sellers
+// only see their own.
+router.get('/:id/invoice',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid order ID'),
+    query('format')
+      .optional()
+      .isIn(['pdf', 'html', 'json'])
+      .withMessage('Format must be pdf, html or json'),
+    query('invoice_id')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid invoice ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { format = 'pdf', invoice_id } = req.query;
+    const userId = req.user!.id;
+    const order = await OrdersRepo.findById(id);
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    const canViewAll = order.userId === userId || await isAdminActing(req);
+    if (!canViewAll && !order.items.some(item => item.sellerId === userId)) {
+      return res.status(403).json({ error: 'Not authorized to view this order' });
+    }
+
+    // Orders paid before invoicing existed get their invoices on first request
+    if (order.paymentStatus === 'paid') {
+      await issueInvoices(order.id);
+    }
+
+    const invoices = (await InvoicesRepo.listByOrder(order.id))
+      .filter(invoice => canViewAll || invoice.sellerId === userId)
+      .filter(invoice => !invoice_id || invoice.id === invoice_id);
+
+    if (invoices.length === 0) {
+      return res.status(404).json({
+        error: invoice_id ? 'Invoice not found' : 'No invoice has been issued for this order yet'
+      });
+    }
+
+    if (format === 'json') {
+      return sendSuccess(res, invoices, 'Invoices retrieved successfully');
+    }
+
+    const users = new Map(
+      (await Promise.all([...new Set([order.userId, ...invoices.map(invoice => invoice.sellerId)])]
+        .map(partyId => UsersRepo.findById(partyId))))
+        .filter(user => user !== null)
+        .map(user => [user.id, user])
+    );
+    const sources = invoices.map(invoice => ({
+      invoice,
+      order,
+      seller: users.get(invoice.sellerId),
+      buyer: users.get(order.userId)
     }));
 
-    const order = {
-      id: orderRow.id,
-      user_id: orderRow.user_id,
-      total_amount: parseFloat(orderRow.total_amount),
-      status: orderRow.status,
-      payment_method: orderRow.payment_method,
-      payment_status: orderRow.payment_status,
-      payment_intent_id: orderRow.payment_intent_id,
-      shipping_address: orderRow.shipping_address,
-      billing_address: orderRow.billing_address,
-      notes: orderRow.notes,
-      created_at: orderRow.created_at,
-      updated_at: orderRow.updated_at,
-      items,
-      user: {
-        username: orderRow.username,
-        full_name: orderRow.full_name,
-        email: orderRow.email
-      }
-    };
+    if (format === 'html') {
+      return res.type('html').send(renderInvoicesHtml(sources));
+    }
 
-    sendSuccess(res, order, 'Order retrieved successfully');
+    const filename = invoices.length === 1 ? invoices[0].number : `invoices-${order.id.slice(0, 8)}`;
+    res.attachment(`${filename}.pdf`).type('application/pdf').send(renderInvoicesPdf(sources));
   })
 );
 
@@ -179,15 +187,7 @@ router.get('/:id',
 router.post('/',
   authenticateToken,
   [
-    body('items')
-      .isArray({ min: 1 })
-      .withMessage('Order must contain at least one item'),
-    body('items.*.product_id')
-      .isUUID()
-      .withMessage('Invalid product ID'),
-    body('items.*.quantity')
-      .isInt({ min: 1 })
-      .withMessage('Quantity must be a positive integer'),
+    ...lineItemRules({ min: 1 }, 'Order must contain at least one item'),
     body('payment_method')
       .isIn(['stripe', 'paypal', 'bank_transfer'])
       .withMessage('Invalid payment method'),
@@ -217,6 +217,14 @@ router.post('/',
       .optional()
       .isLength({ max: 500 })
       .withMessage('Notes must be less than 500 characters'),
+    body('coupon_codes')
+      .optional()
+      .isArray({ max: 5 })
+      .withMessage('At most 5 coupon codes can be applied'),
+    body('coupon_codes.*')
+      .isString()
+      .isLength({ min: 1, max: 32 })
+      .withMessage('Invalid coupon code'),
   ],
   validateRequest,
   asyncHandler(async (req, res) => {
@@ -225,99 +233,32 @@ router.post('/',
       payment_method,
       shipping_address,
       billing_address,
-      notes
+      notes,
+      coupon_codes
     } = req.body;
     const userId = req.user!.id;
 
-    // Validate products and calculate total
-    const productIds = items.map((item: any) => item.product_id);
-    const productsResult = await dbQuery(
-      `SELECT id, name, price, seller_id, is_active
-       FROM products
-       WHERE id = ANY($1::uuid[])`,
-      [productIds]
-    );
-
-    if (productsResult.rows.length !== productIds.length) {
-      return res.status(400).json({ error: 'One or more products not found' });
-    }
+    // Products with options must name one of their active variants
+    const lines = await resolveLines(parseLineItems(items));
 
     // Check if all products are active
-    const inactiveProducts = productsResult.rows.filter(p => !p.is_active);
-    if (inactiveProducts.length > 0) {
+    if (lines.some(line => !line.product.isActive)) {
       return res.status(400).json({ error: 'Some products are no longer available' });
     }
 
-    // Calculate total amount
-    let totalAmount = 0;
-    const orderItems = [];
-
-    for (const item of items) {
-      const product = productsResult.rows.find(p => p.id === item.product_id);
-      if (!product) continue;
-
-      const unitPrice = parseFloat(product.price);
-      const totalPrice = unitPrice * item.quantity;
-      totalAmount += totalPrice;
-
-      orderItems.push({
-        product_id: item.product_id,
-        quantity: item.quantity,
-        unit_price: unitPrice,
-        total_price: totalPrice,
-        seller_id: product.seller_id
-      });
-    }
-
-    // Create order
-    const orderResult = await dbQuery(
-      `INSERT INTO orders (
-        user_id, total_amount, status, payment_method, payment_status,
-        shipping_address, billing_address, notes
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      RETURNING id, total_amount, status, created_at`,
-      [
-        userId, totalAmount, 'pending', payment_method, 'pending',
-        JSON.stringify(shipping_address),
-        billing_address ? JSON.stringify(billing_address) : null,
-        notes || null
-      ]
-    );
-
-    const order = orderResult.rows[0];
-    const orderId = order.id;
-
-    // Create order items
-    const itemInsertPromises = orderItems.map(item =>
-      dbQuery(
-        `INSERT INTO order_items (
-          order_id, product_id, quantity, unit_price, total_price
-        ) VALUES ($1, $2, $3, $4, $5)
-        RETURNING id`,
-        [orderId, item.product_id, item.quantity, item.unit_price, item.total_price]
-      )
-    );
-
-    await Promise.all(itemInsertPromises);
-
-    // Update product sales count
-    const salesUpdatePromises = orderItems.map(item =>
-      dbQuery(
-        'UPDATE products SET sales_count = sales_count + $1 WHERE id = $2',
-        [item.quantity, item.product_id]
-      )
-    );
-
-    await Promise.all(salesUpdatePromises);
+    // Applies coupons, shipping and tax and reserves stock atomically;
+    // responds 409 when an item would oversell or a coupon ran out
+    const order = await placeOrder({
+      userId,
+      lines,
+      couponCodes: coupon_codes,
+      paymentMethod: payment_method,
+      shippingAddress: shipping_address,
+      billingAddress: billing_address,
+      notes
+    });
 
-    sendSuccess(res, {
-      id: orderId,
-      total_amount: totalAmount,
-      status: 'pending',
-      payment_method,
-      created_at: order.created_at,
-      items: orderItems.length
-    }, 'Order created successfully', 201);
+    sendSuccess(res, order, 'Order created successfully', 201);
   })
 );
 
@@ -330,55 +271,40 @@ router.patch('/:id/status',
       .isUUID()
       .withMessage('Invalid order ID'),
     body('status')
-      .isIn(['pending', 'processing', 'completed', 'cancelled', 'refunded'])
+      .isIn(['pending', 'processing', 'shipped', 'delivered', 'cancelled'])
       .withMessage('Invalid order status'),
     body('notes')
       .optional()
       .isLength({ max: 500 })
       .withMessage('Notes must be less than 500 characters'),
+    body('tracking_number')
+      .optional()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Tracking number must be between 1 and 100 characters'),
   ],
   validateRequest,
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    const { status, notes } = req.body;
+    const { status, notes, tracking_number } = req.body;
 
     // Check if order exists
-    const existingResult = await dbQuery(
-      'SELECT id, status FROM orders WHERE id = $1',
-      [id]
-    );
+    const existing = await OrdersRepo.findById(id);
 
-    if (existingResult.rows.length === 0) {
+    if (!existing) {
       return res.status(404).json({ error: 'Order not found' });
     }
 
-    const currentStatus = existingResult.rows[0].status;
-
     // Validate status transition
-    const validTransitions: { [key: string]: string[] } = {
-      'pending': ['processing', 'cancelled'],
-      'processing': ['completed', 'cancelled'],
-      'completed': ['refunded'],
-      'cancelled': [],
-      'refunded': []
-    };
-
-    if (!validTransitions[currentStatus].includes(status)) {
-      return res.status(400).json({ 
-        error: `Cannot change status from ${currentStatus} to ${status}` 
-      });
+    const refusal = getStatusTransitionError(existing, status);
+    if (refusal) {
+      return res.status(400).json({ error: refusal });
     }
 
-    // Update order status
-    const result = await dbQuery(
-      `UPDATE orders 
-       SET status = $1, notes = COALESCE($2, notes), updated_at = CURRENT_TIMESTAMP
-       WHERE id = $3
-       RETURNING id, status, updated_at`,
-      [status, notes || null, id]
-    );
-
-    const order = result.rows[0];
+    // Cancelling restocks the order and refunds it if it was paid
+    const context = { actorId: req.user!.id, note: notes, trackingNumber: tracking_number };
+    const order = status === 'cancelled'
+      ? await cancelOrder(id, context)
+      : await changeOrderStatus(id, status, context);
 
     sendSuccess(res, order, 'Order status updated successfully');
   })
@@ -393,7 +319,7 @@ router.patch('/:id/payment',
       .isUUID()
       .withMessage('Invalid order ID'),
     body('payment_status')
-      .isIn(['pending', 'processing', 'completed', 'failed', 'refunded'])
+      .isIn(['pending', 'processing', 'paid', 'failed', 'refunded'])
       .withMessage('Invalid payment status'),
     body('payment_intent_id')
       .optional()
@@ -405,28 +331,22 @@ router.patch('/:id/payment',
     const { id } = req.params;
     const { payment_status, payment_intent_id } = req.body;
 
-    // Check if order exists
-    const existingResult = await dbQuery(
-      'SELECT id FROM orders WHERE id = $1',
-      [id]
-    );
+    const existing = await OrdersRepo.findById(id);
 
-    if (existingResult.rows.length === 0) {
+    if (!existing) {
       return res.status(404).json({ error: 'Order not found' });
     }
 
-    // Update payment status
-    const result = await dbQuery(
-      `UPDATE orders 
-       SET payment_status = $1, 
-           payment_intent_id = COALESCE($2, payment_intent_id),
-           updated_at = CURRENT_TIMESTAMP
-       WHERE id = $3
-       RETURNING id, payment_status, payment_intent_id, updated_at`,
-      [payment_status, payment_intent_id || null, id]
-    );
+    const refusal = getPaymentTransitionError(existing, payment_status);
+    if (refusal) {
+      return res.status(400).json({ error: refusal });
+    }
 
-    const order = result.rows[0];
+    // Update payment status; marking it paid turns the held stock into a sale
+    const order = await changePaymentStatus(id, payment_status, {
+      actorId: req.user!.id,
+      paymentIntentId: payment_intent_id
+    });
 
     sendSuccess(res, order, 'Payment status updated successfully');
   })
@@ -449,42 +369,26 @@ router.patch('/:id/cancel',
     const { id } = req.params;
     const { reason } = req.body;
     const userId = req.user!.id;
-    const userRole = req.user!.role;
 
     // Check if order exists and user has permission
-    const existingResult = await dbQuery(
-      'SELECT user_id, status FROM orders WHERE id = $1',
-      [id]
-    );
+    const existing = await OrdersRepo.findById(id);
 
-    if (existingResult.rows.length === 0) {
+    if (!existing) {
       return res.status(404).json({ error: 'Order not found' });
     }
 
-    const { user_id: orderUserId, status } = existingResult.rows[0];
-
     // Check permission
-    if (userRole !== 'admin' && orderUserId !== userId) {
+    if (existing.userId !== userId && !await isAdminActing(req)) {
       return res.status(403).json({ error: 'Not authorized to cancel this order' });
     }
 
     // Check if order can be cancelled
-    if (!['pending', 'processing'].includes(status)) {
+    if (getStatusTransitionError(existing, 'cancelled')) {
       return res.status(400).json({ error: 'Order cannot be cancelled' });
     }
 
-    // Cancel order
-    const result = await dbQuery(
-      `UPDATE orders 
-       SET status = 'cancelled', 
-           notes = COALESCE($1, notes),
-           updated_at = CURRENT_TIMESTAMP
-       WHERE id = $2
-       RETURNING id, status, updated_at`,
-      [reason || null, id]
-    );
-
-    const order = result.rows[0];
+    // Cancel order: restocks it and refunds it if it was paid
+    const order = await cancelOrder(id, { actorId: userId, note: reason });
 
     sendSuccess(res, order, 'Order cancelled successfully');
   })
@@ -525,13 +429,13 @@ router.get('/admin/statistics',
           dateFilter = "WHERE created_at >= CURRENT_DATE";
           break;
         case 'week':
-          dateFilter = "WHERE created_at >= CURRENT_DATE - INTERVAL '7 days'";
+          dateFilter = `WHERE created_at >= ${dialect.since(7, 'days')}`;
           break;
         case 'month':
-          dateFilter = "WHERE created_at >= CURRENT_DATE - INTERVAL '30 days'";
+          dateFilter = `WHERE created_at >= ${dialect.since(30, 'days')}`;
           break;
         case 'year':
-          dateFilter = "WHERE created_at >= CURRENT_DATE - INTERVAL '365 days'";
+          dateFilter = `WHERE created_at >= ${dialect.since(365, 'days')}`;
           break;
       }
     }
@@ -540,22 +444,40 @@ router.get('/admin/statistics',
     const statsResult = await dbQuery(
       `SELECT 
          COUNT(*) as total_orders,
-         COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed_orders,
+         COUNT(CASE WHEN status = 'delivered' THEN 1 END) as completed_orders,
          COUNT(CASE WHEN status = 'pending' THEN 1 END) as pending_orders,
          COUNT(CASE WHEN status = 'cancelled' THEN 1 END) as cancelled_orders,
-         COALESCE(SUM(CASE WHEN status = 'completed' THEN total_amount ELSE 0 END), 0) as total_revenue,
-         COALESCE(AVG(CASE WHEN status = 'completed' THEN total_amount END), 0) as average_order_value
+         COALESCE(SUM(CASE WHEN status = 'delivered' THEN total_amount ELSE 0 END), 0) as total_revenue,
+         COALESCE(AVG(CASE WHEN status = 'delivered' THEN total_amount END), 0) as average_order_value,
+         COUNT(CASE WHEN refunded_amount > 0 THEN 1 END) as refunded_orders,
+         COALESCE(SUM(refunded_amount), 0) as total_refunded,
+         COUNT(CASE WHEN discount_amount > 0 THEN 1 END) as discounted_orders,
+         COALESCE(SUM(CASE WHEN status != 'cancelled' THEN discount_amount ELSE 0 END), 0) as total_discounts,
+         COALESCE(SUM(CASE WHEN status = 'delivered' THEN total_amount - refunded_amount ELSE 0 END), 0) as net_revenue
        FROM orders
        ${dateFilter}`,
       queryParams
     );
 
+    // Get return request statistics
+    const returnsResult = await dbQuery(
+      `SELECT 
+         COUNT(*) as total_returns,
+         COUNT(CASE WHEN status = 'requested' THEN 1 END) as open_returns,
+         COUNT(CASE WHEN status = 'approved' THEN 1 END) as approved_returns,
+         COUNT(CASE WHEN status = 'rejected' THEN 1 END) as rejected_returns,
+         COALESCE(SUM(CASE WHEN status = 'approved' THEN refund_amount ELSE 0 END), 0) as refunded_by_returns
+       FROM order_returns
+       ${dateFilter}`,
+      queryParams
+    );
+
     // Get daily revenue trend
     const trendResult = await dbQuery(
       `SELECT 
          DATE(created_at) as date,
          COUNT(*) as orders,
-         COALESCE(SUM(CASE WHEN status = 'completed' THEN total_amount ELSE 0 END), 0) as revenue
+         COALESCE(SUM(CASE WHEN status = 'delivered' THEN total_amount ELSE 0 END), 0) as revenue
        FROM orders
        ${dateFilter}
        GROUP BY DATE(created_at)
@@ -573,7 +495,7 @@ router.get('/admin/statistics',
        FROM order_items oi
        JOIN products p ON oi.product_id = p.id
        JOIN orders o ON oi.order_id = o.id
-       WHERE o.status = 'completed' ${dateFilter ? 'AND o.' + dateFilter.substring(6) : ''}
+       WHERE o.status = 'delivered' ${dateFilter ? 'AND o.' + dateFilter.substring(6) : ''}
        GROUP BY p.id, p.name, p.category
        ORDER BY total_sold DESC
        LIMIT 10`,
@@ -581,27 +503,40 @@ router.get('/admin/statistics',
     );
 
     const stats = statsResult.rows[0];
+    const returnStats = returnsResult.rows[0];
     const trend = trendResult.rows.map(row => ({
       date: row.date,
-      orders: parseInt(row.orders),
-      revenue: parseFloat(row.revenue)
+      orders: toInteger(row.orders),
+      revenue: toNumber(row.revenue)
     }));
     const topProducts = topProductsResult.rows.map(row => ({
       id: row.id,
       name: row.name,
       category: row.category,
-      total_sold: parseInt(row.total_sold),
-      total_revenue: parseFloat(row.total_revenue)
+      total_sold: toInteger(row.total_sold),
+      total_revenue: toNumber(row.total_revenue)
     }));
 
     sendSuccess(res, {
       summary: {
-        total_orders: parseInt(stats.total_orders),
-        completed_orders: parseInt(stats.completed_orders),
-        pending_orders: parseInt(stats.pending_orders),
-        cancelled_orders: parseInt(stats.cancelled_orders),
-        total_revenue: parseFloat(stats.total_revenue),
-        average_order_value: parseFloat(stats.average_order_value)
+        total_orders: toInteger(stats.total_orders),
+        completed_orders: toInteger(stats.completed_orders),
+        pending_orders: toInteger(stats.pending_orders),
+        cancelled_orders: toInteger(stats.cancelled_orders),
+        total_revenue: toNumber(stats.total_revenue),
+        average_order_value: toNumber(stats.average_order_value),
+        refunded_orders: toInteger(stats.refunded_orders),
+        total_refunded: toNumber(stats.total_refunded),
+        net_revenue: toNumber(stats.net_revenue),
+        discounted_orders: toInteger(stats.discounted_orders),
+        total_discounts: toNumber(stats.total_discounts)
+      },
+      returns: {
+        total_returns: toInteger(returnStats.total_returns),
+        open_returns: toInteger(returnStats.open_returns),
+        approved_returns: toInteger(returnStats.approved_returns),
+        rejected_returns: toInteger(returnStats.rejected_returns),
+        refunded_amount: toNumber(returnStats.refunded_by_returns)
       },
       trend,
       top_products: topProducts
@@ -616,11 +551,11 @@ router.get('/admin/all',
   [
     query('status')
       .optional()
-      .isIn(['pending', 'processing', 'completed', 'cancelled', 'refunded'])
+      .isIn(['pending', 'processing', 'shipped', 'delivered', 'cancelled'])
       .withMessage('Invalid order status'),
     query('payment_status')
       .optional()
-      .isIn(['pending', 'processing', 'completed', 'failed', 'refunded'])
+      .isIn(['pending', 'processing', 'paid', 'failed', 'refunded'])
       .withMessage('Invalid payment status'),
     query('user_id')
       .optional()
@@ -638,77 +573,252 @@ router.get('/admin/all',
   validateRequest,
   asyncHandler(async (req, res) => {
     const { status, payment_status, user_id, page = 1, limit = 20 } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
 
-    // Build WHERE clause
-    let whereConditions: string[] = [];
-    const queryParams: any[] = [];
-    let paramIndex = 1;
+    const orders = await OrdersRepo.list(
+      {
+        status: status as string | undefined,
+        paymentStatus: payment_status as string | undefined,
+        userId: user_id as string | undefined
+      },
+      { page: Number(page), limit: Number(limit) }
+    );
+
+    sendPaginatedResponse(res, orders.items, orders.total, orders.page, orders.limit, 'All orders retrieved successfully');
+  })
+);
+
+// Get all return requests (admin only)
+router.get('/admin/returns',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    query('status')
+      .optional()
+      .isIn(['requested', 'approved', 'rejected'])
+      .withMessage('Invalid return status'),
+    query('order_id')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid order ID'),
+    query('user_id')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid user ID'),
+    query('seller_id')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid seller ID'),
+    query('start_date')
+      .optional()
+      .isISO8601()
+      .withMessage('Invalid start date'),
+    query('end_date')
+      .optional()
+      .isISO8601()
+      .withMessage('Invalid end date'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { status, order_id, user_id, seller_id, start_date, end_date, page = 1, limit = 20 } = req.query;
+
+    const returns = await OrderReturnsRepo.list(
+      {
+        status: status as ReturnStatus | undefined,
+        orderId: order_id as string | undefined,
+        userId: user_id as string | undefined,
+        sellerId: seller_id as string | undefined,
+        createdFrom: start_date as string | undefined,
+        createdTo: end_date as string | undefined
+      },
+      { page: Number(page), limit: Number(limit) }
+    );
+
+    sendPaginatedResponse(res, returns.items, returns.total, returns.page, returns.limit, 'Return requests retrieved successfully');
+  })
+);
+
+// Get return requests for the current user's products
+router.get('/seller/returns',
+  authenticateToken,
+  [
+    query('status')
+      .optional()
+      .isIn(['requested', 'approved', 'rejected'])
+      .withMessage('Invalid return status'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage('Limit must be between 1 and 50'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { status, page = 1, limit = 10 } = req.query;
+
+    const returns = await OrderReturnsRepo.list(
+      { sellerId: req.user!.id, status: status as ReturnStatus | undefined },
+      { page: Number(page), limit: Number(limit) }
+    );
+
+    sendPaginatedResponse(res, returns.items, returns.total, returns.page, returns.limit, 'Return requests retrieved successfully');
+  })
+);
+
+// Get return requests of an order
+router.get('/:id/returns',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid order ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const order = await OrdersRepo.findById(id);
 
-    if (status) {
-      whereConditions.push(`o.status = $${paramIndex}`);
-      queryParams.push(status);
-      paramIndex++;
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
     }
 
-    if (payment_status) {
-      whereConditions.push(`o.payment_status = $${paramIndex}`);
-      queryParams.push(payment_status);
-      paramIndex++;
+    const canViewAll = order.userId === userId || await isAdminActing(req);
+    if (!canViewAll && !order.items.some(item => item.sellerId === userId)) {
+      return res.status(403).json({ error: 'Not authorized to view this order' });
     }
 
-    if (user_id) {
-      whereConditions.push(`o.user_id = $${paramIndex}`);
-      queryParams.push(user_id);
-      paramIndex++;
+    // Sellers only see returns of their own items
+    const returns = await OrderReturnsRepo.listByOrder(id);
+    const visible = canViewAll ? returns : returns.filter(orderReturn => orderReturn.sellerId === userId);
+
+    sendSuccess(res, visible, 'Return requests retrieved successfully');
+  })
+);
+
+// Request a return for an order item
+router.post('/:id/returns',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid order ID'),
+    body('order_item_id')
+      .isUUID()
+      .withMessage('Invalid order item ID'),
+    body('quantity')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Quantity must be a positive integer'),
+    body('reason')
+      .isLength({ min: 5, max: 1000 })
+      .withMessage('Reason must be between 5 and 1000 characters'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { order_item_id, quantity, reason } = req.body;
+
+    const order = await OrdersRepo.findById(id);
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
     }
 
-    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+    if (order.userId !== req.user!.id) {
+      return res.status(403).json({ error: 'Not authorized to return items of this order' });
+    }
 
-    // Get total count
-    const countResult = await dbQuery(
-      `SELECT COUNT(*) as total FROM orders o ${whereClause}`,
-      queryParams
-    );
-    const total = parseInt(countResult.rows[0].total);
-
-    // Get orders
-    const result = await dbQuery(
-      `SELECT o.id, o.user_id, o.total_amount, o.status, o.payment_method,
-              o.payment_status, o.created_at, o.updated_at,
-              u.username, u.full_name, u.email,
-              COUNT(oi.id) as item_count
-       FROM orders o
-       JOIN users u ON o.user_id = u.id
-       LEFT JOIN order_items oi ON o.id = oi.order_id
-       ${whereClause}
-       GROUP BY o.id, o.user_id, o.total_amount, o.status, o.payment_method,
-                o.payment_status, o.created_at, o.updated_at,
-                u.username, u.full_name, u.email
-       ORDER BY o.created_at DESC
-       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
-      [...queryParams, Number(limit), offset]
-    );
+    const orderReturn = await openReturn({
+      order,
+      orderItemId: order_item_id,
+      userId: req.user!.id,
+      quantity: quantity !== undefined ? Number(quantity) : undefined,
+      reason
+    });
 
-    const orders = result.rows.map(row => ({
-      id: row.id,
-      user_id: row.user_id,
-      total_amount: parseFloat(row.total_amount),
-      status: row.status,
-      payment_method: row.payment_method,
-      payment_status: row.payment_status,
-      item_count: parseInt(row.item_count),
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      user: {
-        username: row.username,
-        full_name: row.full_name,
-        email: row.email
-      }
-    }));
+    sendSuccess(res, orderReturn, 'Return requested successfully', 201);
+  })
+);
+
+// Approve a return request (item seller or admin)
+router.patch('/returns/:returnId/approve',
+  authenticateToken,
+  [
+    param('returnId')
+      .isUUID()
+      .withMessage('Invalid return ID'),
+    body('refund_amount')
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Refund amount must be a positive number'),
+    body('note')
+      .optional()
+      .isLength({ max: 500 })
+      .withMessage('Note must be less than 500 characters'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { refund_amount, note } = req.body;
+    const orderReturn = await OrderReturnsRepo.findById(req.params.returnId);
+
+    if (!orderReturn) {
+      return res.status(404).json({ error: 'Return request not found' });
+    }
+
+    if (orderReturn.sellerId !== req.user!.id && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to resolve this return' });
+    }
+
+    // Refunds the order (in full or in part) and takes the units back
+    const approved = await approveReturn(orderReturn, {
+      actorId: req.user!.id,
+      note,
+      refundAmount: refund_amount !== undefined ? Number(refund_amount) : undefined
+    });
+
+    sendSuccess(res, approved, 'Return approved successfully');
+  })
+);
+
+// Reject a return request (item seller or admin)
+router.patch('/returns/:returnId/reject',
+  authenticateToken,
+  [
+    param('returnId')
+      .isUUID()
+      .withMessage('Invalid return ID'),
+    body('note')
+      .optional()
+      .isLength({ max: 500 })
+      .withMessage('Note must be less than 500 characters'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const orderReturn = await OrderReturnsRepo.findById(req.params.returnId);
+
+    if (!orderReturn) {
+      return res.status(404).json({ error: 'Return request not found' });
+    }
+
+    if (orderReturn.sellerId !== req.user!.id && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to resolve this return' });
+    }
+
+    const rejected = await rejectReturn(orderReturn, { actorId: req.user!.id, note: req.body.note });
 
-    sendPaginatedResponse(res, orders, total, Number(page), Number(limit), 'All orders retrieved successfully');
+    sendSuccess(res, rejected, 'Return rejected');
   })
 );
 
-export default router;
\ No newline at end of file
+export default router;
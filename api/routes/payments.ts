@@ -0,0 +1,141 @@
+import express from 'express';
+import { body, param } from 'express-validator';
+import { authenticateToken, isAdminActing, requireRole } from '../middleware/auth.js';
+import { validateRequest, asyncHandler, sendSuccess } from '../middleware/errorHandler.js';
+import { OrdersRepo, PaymentsRepo } from '../repositories/index.js';
+import { createPayment, confirmPayment, refundPaymentWithCredit, handleWebhook } from '../services/payments/index.js';
+
+const router = express.Router();
+
+// Gateway webhooks (signed, no user session)
+router.post('/webhooks/:provider',
+  [
+    param('provider')
+      .isAlphanumeric()
+      .withMessage('Invalid payment provider'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { provider } = req.params;
+    const payload = req.rawBody ?? JSON.stringify(req.body);
+
+    await handleWebhook(provider, payload, req.get('X-Payment-Signature'));
+
+    sendSuccess(res, { received: true }, 'Webhook processed');
+  })
+);
+
+// Start paying for an order
+router.post('/intents',
+  authenticateToken,
+  [
+    body('order_id')
+      .isUUID()
+      .withMessage('Invalid order ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const order = await OrdersRepo.findById(req.body.order_id);
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    if (order.userId !== req.user!.id) {
+      return res.status(403).json({ error: 'Not authorized to pay for this order' });
+    }
+
+    const payment = await createPayment(order);
+
+    sendSuccess(res, payment, 'Payment intent created successfully', 201);
+  })
+);
+
+// Confirm (capture) a payment intent
+router.post('/:id/confirm',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid payment ID'),
+    body('simulate')
+      .optional()
+      .isIn(['success', 'failure', 'async'])
+      .withMessage('Invalid simulated outcome'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const payment = await PaymentsRepo.findById(req.params.id);
+    const order = payment && await OrdersRepo.findById(payment.orderId);
+
+    if (!payment || !order) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    if (order.userId !== req.user!.id) {
+      return res.status(403).json({ error: 'Not authorized to confirm this payment' });
+    }
+
+    const confirmed = await confirmPayment(payment, { simulate: req.body.simulate });
+
+    sendSuccess(res, confirmed, 'Payment confirmed');
+  })
+);
+
+// Refund a settled payment (admin only)
+router.post('/:id/refund',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid payment ID'),
+    body('amount')
+      .optional()
+      .isFloat({ gt: 0 })
+      .withMessage('Refund amount must be a positive number'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const payment = await PaymentsRepo.findById(req.params.id);
+
+    if (!payment) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    const { amount } = req.body;
+    const refunded = await refundPaymentWithCredit(payment, amount !== undefined ? Number(amount) : undefined, {
+      actorId: req.user!.id
+    });
+
+    sendSuccess(res, refunded, 'Payment refunded successfully');
+  })
+);
+
+// Payment attempts for an order, newest first
+router.get('/order/:orderId',
+  authenticateToken,
+  [
+    param('orderId')
+      .isUUID()
+      .withMessage('Invalid order ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const order = await OrdersRepo.findById(req.params.orderId);
+
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+
+    if (order.userId !== req.user!.id && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to view these payments' });
+    }
+
+    const payments = await PaymentsRepo.listByOrder(order.id);
+
+    sendSuccess(res, payments, 'Payments retrieved successfully');
+  })
+);
+
+export default router;
@@ -1,10 +1,10 @@
 import express from 'express';
 import { body, param, query } from 'express-validator';
 import multer from 'multer';
-import { authenticateToken, requireRole, optionalAuth } from '../middleware/auth.js';
+import { authenticateToken, isAdminActing, requireRole, optionalAuth, requireVerifiedEmail } from '../middleware/auth.js';
 import { validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse } from '../middleware/errorHandler.js';
 import { query as dbQuery } from '../config/database.js';
-import { Post } from '../types.js';
+import { PostsRepo, UsersRepo, FeedType, toInteger } from '../repositories/index.js';
 
 const router = express.Router();
 
@@ -44,89 +44,14 @@ router.get('/',
   validateRequest,
   asyncHandler(async (req, res) => {
     const { page = 1, limit = 20, type = 'all' } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
     const currentUserId = req.user?.id;
 
-    let whereClause = 'WHERE p.is_active = true';
-    const queryParams: any[] = [];
-    let paramIndex = 1;
-
-    // Filter by feed type
-    if (type === 'following' && currentUserId) {
-      whereClause += ` AND (p.author_id = $${paramIndex} OR p.author_id IN (
-        SELECT following_id FROM follows WHERE follower_id = $${paramIndex}
-      ))`;
-      queryParams.push(currentUserId);
-      paramIndex++;
-    } else if (type === 'trending') {
-      // Trending posts: high engagement in last 24 hours
-      whereClause += ` AND p.created_at >= NOW() - INTERVAL '24 hours'
-                       AND (p.likes_count + p.comments_count) > 0`;
-    }
-
-    // Get total count
-    const countResult = await dbQuery(
-      `SELECT COUNT(*) as total 
-       FROM posts p
-       JOIN users u ON p.author_id = u.id
-       ${whereClause} AND u.is_active = true`,
-      queryParams
-    );
-    const total = parseInt(countResult.rows[0].total);
-
-    // Get posts with author info
-    let orderBy = 'ORDER BY p.created_at DESC';
-    if (type === 'trending') {
-      orderBy = 'ORDER BY (p.likes_count + p.comments_count) DESC, p.created_at DESC';
-    }
-
-    const result = await dbQuery(
-      `SELECT p.id, p.content, p.image_urls, p.video_url, p.likes_count, 
-              p.comments_count, p.shares_count, p.is_active, p.created_at, p.updated_at,
-              u.id as author_id, u.username, u.full_name, u.avatar_url, u.is_verified
-       FROM posts p
-       JOIN users u ON p.author_id = u.id
-       ${whereClause} AND u.is_active = true
-       ${orderBy}
-       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
-      [...queryParams, Number(limit), offset]
+    const posts = await PostsRepo.list(
+      { feed: type as FeedType, viewerId: currentUserId },
+      { page: Number(page), limit: Number(limit) }
     );
 
-    const posts = result.rows.map(row => ({
-      id: row.id,
-      content: row.content,
-      image_urls: row.image_urls,
-      video_url: row.video_url,
-      likes_count: row.likes_count,
-      comments_count: row.comments_count,
-      shares_count: row.shares_count,
-      is_active: row.is_active,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      author: {
-        id: row.author_id,
-        username: row.username,
-        full_name: row.full_name,
-        avatar_url: row.avatar_url,
-        is_verified: row.is_verified
-      }
-    }));
-
-    // Check if current user liked each post
-    if (currentUserId && posts.length > 0) {
-      const postIds = posts.map(post => post.id);
-      const likesResult = await dbQuery(
-        'SELECT post_id FROM likes WHERE user_id = $1 AND post_id = ANY($2)',
-        [currentUserId, postIds]
-      );
-      
-      const likedPostIds = new Set(likesResult.rows.map(row => row.post_id));
-      posts.forEach(post => {
-        (post as any).is_liked = likedPostIds.has(post.id);
-      });
-    }
-
-    sendPaginatedResponse(res, posts, total, Number(page), Number(limit), 'Posts retrieved successfully');
+    sendPaginatedResponse(res, posts.items, posts.total, posts.page, posts.limit, 'Posts retrieved successfully');
   })
 );
 
@@ -143,50 +68,12 @@ router.get('/:postId',
     const { postId } = req.params;
     const currentUserId = req.user?.id;
 
-    const result = await dbQuery(
-      `SELECT p.id, p.content, p.image_urls, p.video_url, p.likes_count, 
-              p.comments_count, p.shares_count, p.is_active, p.created_at, p.updated_at,
-              u.id as author_id, u.username, u.full_name, u.avatar_url, u.is_verified
-       FROM posts p
-       JOIN users u ON p.author_id = u.id
-       WHERE p.id = $1 AND p.is_active = true AND u.is_active = true`,
-      [postId]
-    );
+    const post = await PostsRepo.findById(postId, currentUserId);
 
-    if (result.rows.length === 0) {
+    if (!post) {
       return res.status(404).json({ error: 'Post not found' });
     }
 
-    const row = result.rows[0];
-    const post = {
-      id: row.id,
-      content: row.content,
-      image_urls: row.image_urls,
-      video_url: row.video_url,
-      likes_count: row.likes_count,
-      comments_count: row.comments_count,
-      shares_count: row.shares_count,
-      is_active: row.is_active,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      author: {
-        id: row.author_id,
-        username: row.username,
-        full_name: row.full_name,
-        avatar_url: row.avatar_url,
-        is_verified: row.is_verified
-      }
-    };
-
-    // Check if current user liked this post
-    if (currentUserId) {
-      const likeResult = await dbQuery(
-        'SELECT id FROM likes WHERE user_id = $1 AND post_id = $2',
-        [currentUserId, postId]
-      );
-      (post as any).is_liked = likeResult.rows.length > 0;
-    }
-
     sendSuccess(res, post, 'Post retrieved successfully');
   })
 );
@@ -194,6 +81,7 @@ router.get('/:postId',
 // Create new post
 router.post('/',
   authenticateToken,
+  requireVerifiedEmail,
   upload.array('media', 5), // Allow up to 5 media files
   [
     body('content')
@@ -226,24 +114,12 @@ router.post('/',
     }
 
     // Create post
-    const result = await dbQuery(
-      `INSERT INTO posts (author_id, content, image_urls, video_url)
-       VALUES ($1, $2, $3, $4)
-       RETURNING id, author_id, content, image_urls, video_url, likes_count, 
-                 comments_count, shares_count, is_active, created_at, updated_at`,
-      [authorId, content, imageUrls.length > 0 ? imageUrls : null, videoUrl]
-    );
-
-    const post = result.rows[0];
-
-    // Get author info
-    const authorResult = await dbQuery(
-      'SELECT id, username, full_name, avatar_url, is_verified FROM users WHERE id = $1',
-      [authorId]
-    );
-
-    post.author = authorResult.rows[0];
-    post.is_liked = false;
+    const post = await PostsRepo.create({
+      authorId,
+      content,
+      images: imageUrls,
+      videoUrl
+    });
 
     sendSuccess(res, post, 'Post created successfully', 201);
   })
@@ -267,38 +143,18 @@ router.put('/:postId',
     const userId = req.user!.id;
 
     // Check if post exists and user owns it
-    const postResult = await dbQuery(
-      'SELECT author_id FROM posts WHERE id = $1 AND is_active = true',
-      [postId]
-    );
+    const existing = await PostsRepo.findById(postId);
 
-    if (postResult.rows.length === 0) {
+    if (!existing) {
       return res.status(404).json({ error: 'Post not found' });
     }
 
-    if (postResult.rows[0].author_id !== userId) {
+    if (existing.authorId !== userId) {
       return res.status(403).json({ error: 'Not authorized to edit this post' });
     }
 
     // Update post
-    const result = await dbQuery(
-      `UPDATE posts 
-       SET content = $1, updated_at = CURRENT_TIMESTAMP
-       WHERE id = $2
-       RETURNING id, author_id, content, image_urls, video_url, likes_count, 
-                 comments_count, shares_count, is_active, created_at, updated_at`,
-      [content, postId]
-    );
-
-    const post = result.rows[0];
-
-    // Get author info
-    const authorResult = await dbQuery(
-      'SELECT id, username, full_name, avatar_url, is_verified FROM users WHERE id = $1',
-      [post.author_id]
-    );
-
-    post.author = authorResult.rows[0];
+    const post = await PostsRepo.updateContent(postId, content, userId);
 
     sendSuccess(res, post, 'Post updated successfully');
   })
@@ -316,28 +172,21 @@ router.delete('/:postId',
   asyncHandler(async (req, res) => {
     const { postId } = req.params;
     const userId = req.user!.id;
-    const userRole = req.user!.role;
 
     // Check if post exists
-    const postResult = await dbQuery(
-      'SELECT author_id FROM posts WHERE id = $1 AND is_active = true',
-      [postId]
-    );
+    const existing = await PostsRepo.findById(postId);
 
-    if (postResult.rows.length === 0) {
+    if (!existing) {
       return res.status(404).json({ error: 'Post not found' });
     }
 
     // Check authorization (owner or admin)
-    if (postResult.rows[0].author_id !== userId && userRole !== 'admin') {
+    if (existing.authorId !== userId && !await isAdminActing(req)) {
       return res.status(403).json({ error: 'Not authorized to delete this post' });
     }
 
     // Soft delete post
-    await dbQuery(
-      'UPDATE posts SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
-      [postId]
-    );
+    await PostsRepo.softDelete(postId);
 
     sendSuccess(res, null, 'Post deleted successfully');
   })
@@ -357,49 +206,22 @@ router.post('/:postId/like',
     const userId = req.user!.id;
 
     // Check if post exists
-    const postResult = await dbQuery(
-      'SELECT id FROM posts WHERE id = $1 AND is_active = true',
-      [postId]
-    );
-
-    if (postResult.rows.length === 0) {
+    if (!(await PostsRepo.findById(postId))) {
       return res.status(404).json({ error: 'Post not found' });
     }
 
     // Check if already liked
-    const existingLike = await dbQuery(
-      'SELECT id FROM likes WHERE user_id = $1 AND post_id = $2',
-      [userId, postId]
-    );
-
-    if (existingLike.rows.length > 0) {
+    if (await PostsRepo.isLikedBy(postId, userId)) {
       return res.status(400).json({ error: 'Post already liked' });
     }
 
     // Add like and update count
-    await dbQuery('BEGIN');
-    
-    try {
-      await dbQuery(
-        'INSERT INTO likes (user_id, post_id) VALUES ($1, $2)',
-        [userId, postId]
-      );
-
-      const result = await dbQuery(
-        'UPDATE posts SET likes_count = likes_count + 1 WHERE id = $1 RETURNING likes_count',
-        [postId]
-      );
-
-      await dbQuery('COMMIT');
-
-      sendSuccess(res, { 
-        liked: true, 
-        likes_count: result.rows[0].likes_count 
-      }, 'Post liked successfully');
-    } catch (error) {
-      await dbQuery('ROLLBACK');
-      throw error;
-    }
+    const likesCount = await PostsRepo.like(postId, userId);
+
+    sendSuccess(res, { 
+      liked: true, 
+      likes_count: likesCount 
+    }, 'Post liked successfully');
   })
 );
 
@@ -417,34 +239,16 @@ router.delete('/:postId/like',
     const userId = req.user!.id;
 
     // Remove like and update count
-    await dbQuery('BEGIN');
-    
-    try {
-      const deleteResult = await dbQuery(
-        'DELETE FROM likes WHERE user_id = $1 AND post_id = $2',
-        [userId, postId]
-      );
-
-      if (deleteResult.rowCount === 0) {
-        await dbQuery('ROLLBACK');
-        return res.status(404).json({ error: 'Like not found' });
-      }
-
-      const result = await dbQuery(
-        'UPDATE posts SET likes_count = likes_count - 1 WHERE id = $1 RETURNING likes_count',
-        [postId]
-      );
-
-      await dbQuery('COMMIT');
+    const likesCount = await PostsRepo.unlike(postId, userId);
 
-      sendSuccess(res, { 
-        liked: false, 
-        likes_count: result.rows[0].likes_count 
-      }, 'Post unliked successfully');
-    } catch (error) {
-      await dbQuery('ROLLBACK');
-      throw error;
+    if (likesCount === null) {
+      return res.status(404).json({ error: 'Like not found' });
     }
+
+    sendSuccess(res, { 
+      liked: false, 
+      likes_count: likesCount 
+    }, 'Post unliked successfully');
   })
 );
 
@@ -471,12 +275,7 @@ router.get('/:postId/likes',
     const offset = (Number(page) - 1) * Number(limit);
 
     // Check if post exists
-    const postResult = await dbQuery(
-      'SELECT id FROM posts WHERE id = $1 AND is_active = true',
-      [postId]
-    );
-
-    if (postResult.rows.length === 0) {
+    if (!(await PostsRepo.findById(postId))) {
       return res.status(404).json({ error: 'Post not found' });
     }
 
@@ -485,7 +284,7 @@ router.get('/:postId/likes',
       'SELECT COUNT(*) as total FROM likes WHERE post_id = $1',
       [postId]
     );
-    const total = parseInt(countResult.rows[0].total);
+    const total = toInteger(countResult.rows[0].total);
 
     // Get likes with user info
     const result = await dbQuery(
@@ -523,59 +322,19 @@ router.get('/user/:userId',
   asyncHandler(async (req, res) => {
     const { userId } = req.params;
     const { page = 1, limit = 20 } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
     const currentUserId = req.user?.id;
 
     // Check if user exists
-    const userResult = await dbQuery(
-      'SELECT id, username, full_name, avatar_url, is_verified FROM users WHERE id = $1 AND is_active = true',
-      [userId]
-    );
-
-    if (userResult.rows.length === 0) {
+    if (!(await UsersRepo.findById(userId, { activeOnly: true }))) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const user = userResult.rows[0];
-
-    // Get total count
-    const countResult = await dbQuery(
-      'SELECT COUNT(*) as total FROM posts WHERE author_id = $1 AND is_active = true',
-      [userId]
-    );
-    const total = parseInt(countResult.rows[0].total);
-
-    // Get posts
-    const result = await dbQuery(
-      `SELECT id, content, image_urls, video_url, likes_count, 
-              comments_count, shares_count, is_active, created_at, updated_at
-       FROM posts
-       WHERE author_id = $1 AND is_active = true
-       ORDER BY created_at DESC
-       LIMIT $2 OFFSET $3`,
-      [userId, Number(limit), offset]
+    const posts = await PostsRepo.list(
+      { authorId: userId, viewerId: currentUserId },
+      { page: Number(page), limit: Number(limit) }
     );
 
-    const posts = result.rows.map(post => ({
-      ...post,
-      author: user
-    }));
-
-    // Check if current user liked each post
-    if (currentUserId && posts.length > 0) {
-      const postIds = posts.map(post => post.id);
-      const likesResult = await dbQuery(
-        'SELECT post_id FROM likes WHERE user_id = $1 AND post_id = ANY($2)',
-        [currentUserId, postIds]
-      );
-      
-      const likedPostIds = new Set(likesResult.rows.map(row => row.post_id));
-      posts.forEach(post => {
-        (post as any).is_liked = likedPostIds.has(post.id);
-      });
-    }
-
-    sendPaginatedResponse(res, posts, total, Number(page), Number(limit), 'User posts retrieved successfully');
+    sendPaginatedResponse(res, posts.items, posts.total, posts.page, posts.limit, 'User posts retrieved successfully');
   })
 );
 
@@ -600,62 +359,13 @@ router.get('/admin/all',
   validateRequest,
   asyncHandler(async (req, res) => {
     const { page = 1, limit = 20, status } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
-
-    let whereClause = 'WHERE 1=1';
-    const queryParams: any[] = [];
-    let paramIndex = 1;
 
-    if (status) {
-      whereClause += ` AND p.is_active = $${paramIndex}`;
-      queryParams.push(status === 'active');
-      paramIndex++;
-    }
-
-    // Get total count
-    const countResult = await dbQuery(
-      `SELECT COUNT(*) as total 
-       FROM posts p
-       JOIN users u ON p.author_id = u.id
-       ${whereClause}`,
-      queryParams
+    const posts = await PostsRepo.list(
+      { isActive: status ? status === 'active' : null },
+      { page: Number(page), limit: Number(limit) }
     );
-    const total = parseInt(countResult.rows[0].total);
-
-    // Get posts
-    const result = await dbQuery(
-      `SELECT p.id, p.content, p.image_urls, p.video_url, p.likes_count, 
-              p.comments_count, p.shares_count, p.is_active, p.created_at, p.updated_at,
-              u.id as author_id, u.username, u.full_name, u.avatar_url, u.is_verified
-       FROM posts p
-       JOIN users u ON p.author_id = u.id
-       ${whereClause}
-       ORDER BY p.created_at DESC
-       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
-      [...queryParams, Number(limit), offset]
-    );
-
-    const posts = result.rows.map(row => ({
-      id: row.id,
-      content: row.content,
-      image_urls: row.image_urls,
-      video_url: row.video_url,
-      likes_count: row.likes_count,
-      comments_count: row.comments_count,
-      shares_count: row.shares_count,
-      is_active: row.is_active,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      author: {
-        id: row.author_id,
-        username: row.username,
-        full_name: row.full_name,
-        avatar_url: row.avatar_url,
-        is_verified: row.is_verified
-      }
-    }));
 
-    sendPaginatedResponse(res, posts, total, Number(page), Number(limit), 'Posts retrieved successfully');
+    sendPaginatedResponse(res, posts.items, posts.total, posts.page, posts.limit, 'Posts retrieved successfully');
   })
 );
 
@@ -1,10 +1,28 @@
 import express from 'express';
-import { body, param, query } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import multer from 'multer';
-import { authenticateToken, requireRole } from '../middleware/auth.js';
-import { validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse } from '../middleware/errorHandler.js';
-import { query as dbQuery } from '../config/database.js';
-import { Product } from '../types.js';
+import { authenticateToken, isAdminActing, optionalAuth, requireRole, requireVerifiedEmail } from '../middleware/auth.js';
+import {
+  validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse, formatValidationErrors, CustomValidationError
+} from '../middleware/errorHandler.js';
+import {
+  ProductsRepo, UsersRepo, ProductSort, ProductFilesRepo, ProductVariantsRepo, ProductReviewsRepo, ReviewSort,
+  ProductQuestionsRepo, QuestionSort, PriceHistoryRepo, ProductSalesRepo, ProductViewsRepo, UpdateProductInput,
+  toPublicFile
+} from '../repositories/index.js';
+import { parseCsvRecords } from '../services/csv.js';
+import { deleteProductFile, storeProductFile } from '../services/entitlements.js';
+import { cancelSale, changePrice, scheduleSale } from '../services/pricing.js';
+import {
+  ImportRow, ImportRowError, MAX_IMPORT_ROWS, ProductImportInput,
+  fromCsvRecord, importProducts, toCatalogCsv, toCatalogRecord
+} from '../services/productImport.js';
+import { askQuestion } from '../services/questions.js';
+import { getRelatedProducts } from '../services/recommendations.js';
+import { submitReview } from '../services/reviews.js';
+import {
+  createVariant, deactivateVariant, hasVariants, setProductOptions, updateVariant
+} from '../services/variants.js';
 
 const router = express.Router();
 
@@ -24,6 +42,212 @@ const upload = multer({
   },
 });
 
+// Deliverable files of digital products (any type)
+const fileUpload = multer({
+  storage,
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB limit
+  },
+});
+
+// Uploaded catalogs for bulk import (CSV or JSON)
+const catalogUpload = multer({
+  storage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+});
+
+// Shared by product create (required fields), update (everything optional)
+// and every row of a bulk import
+const productValidation = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+
+  return [
+    body('sku')
+      .optional({ values: 'null' })
+      .matches(/^[A-Za-z0-9._-]{1,64}$/)
+      .withMessage('SKU must be 1-64 letters, numbers, dots, dashes or underscores'),
+    field('name')
+      .isLength({ min: 3, max: 200 })
+      .withMessage('Product name must be between 3 and 200 characters'),
+    field('description')
+      .isLength({ min: 20, max: 2000 })
+      .withMessage('Description must be between 20 and 2000 characters'),
+    field('category')
+      .isIn(['digital_art', 'templates', 'courses', 'tools', 'other'])
+      .withMessage('Invalid category'),
+    field('price')
+      .isFloat({ min: 0 })
+      .withMessage('Price must be a positive number'),
+    body('tags')
+      .optional()
+      .isArray()
+      .withMessage('Tags must be an array'),
+    body('requirements')
+      .optional()
+      .isArray()
+      .withMessage('Requirements must be an array'),
+    body('features')
+      .optional()
+      .isArray()
+      .withMessage('Features must be an array'),
+    body('is_digital')
+      .optional()
+      .isBoolean()
+      .withMessage('is_digital must be a boolean'),
+    body('stock_quantity')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Stock quantity must be a non-negative integer'),
+    body('weight')
+      .optional({ values: 'null' })
+      .isFloat({ min: 0 })
+      .withMessage('Weight must be a non-negative number of kg'),
+    body('download_limit')
+      .optional({ values: 'null' })
+      .isInt({ min: 1 })
+      .withMessage('Download limit must be a positive integer'),
+    body('issues_license_keys')
+      .optional()
+      .isBoolean()
+      .withMessage('issues_license_keys must be a boolean'),
+    body('is_featured')
+      .optional()
+      .isBoolean()
+      .withMessage('is_featured must be a boolean'),
+  ];
+};
+
+// Imported rows name their images by URL instead of uploading them
+const importRowValidation = [
+  ...productValidation(false),
+  body('images')
+    .optional()
+    .isArray({ max: 5 })
+    .withMessage('Images must be an array of at most 5 URLs'),
+  body('images.*')
+    .isURL()
+    .withMessage('Invalid image URL'),
+];
+
+interface ProductPayload {
+  sku?: string | null;
+  name?: string;
+  description?: string;
+  category?: string;
+  price?: number | string;
+  images?: string[];
+  tags?: string[];
+  requirements?: string[];
+  features?: string[];
+  is_digital?: boolean | string;
+  stock_quantity?: number | string;
+  weight?: number | string | null;
+  download_limit?: number | string | null;
+  issues_license_keys?: boolean | string;
+  is_featured?: boolean | string;
+}
+
+// Request body (or import row) to repository input; absent fields stay
+// undefined, explicit nulls clear the SKU and weight and lift the download limit
+const toProductInput = (payload: ProductPayload): UpdateProductInput => {
+  const booleanOf = (value: unknown) => (value === undefined ? undefined : String(value) === 'true');
+
+  return {
+    sku: payload.sku === undefined ? undefined : payload.sku || null,
+    name: payload.name,
+    description: payload.description,
+    category: payload.category,
+    price: payload.price !== undefined ? Number(payload.price) : undefined,
+    images: payload.images,
+    tags: payload.tags,
+    requirements: payload.requirements,
+    features: payload.features,
+    isDigital: booleanOf(payload.is_digital),
+    stockQuantity: payload.stock_quantity !== undefined ? Number(payload.stock_quantity) : undefined,
+    weight: payload.weight === undefined ? undefined : payload.weight === null ? null : Number(payload.weight),
+    downloadLimit: payload.download_limit === undefined
+      ? undefined
+      : payload.download_limit === null ? null : Number(payload.download_limit),
+    issuesLicenseKeys: booleanOf(payload.issues_license_keys),
+    isFeatured: booleanOf(payload.is_featured)
+  };
+};
+
+// Checks one import record against the create rules
+const validateImportRecord = async (record: Record<string, unknown>): Promise<ImportRowError[]> => {
+  const request = { body: record };
+  for (const chain of importRowValidation) {
+    await chain.run(request);
+  }
+  return formatValidationErrors(validationResult(request).array())
+    .map(({ field, message }) => ({ field, message }));
+};
+
+// Records of an uploaded CSV or JSON file, or of a JSON `products` body
+const readImportRecords = (req: express.Request): unknown[] => {
+  const file = req.file;
+
+  if (!file) {
+    return Array.isArray(req.body?.products) ? req.body.products : [];
+  }
+
+  const text = file.buffer.toString('utf8');
+  if (file.mimetype === 'application/json' || file.originalname.toLowerCase().endsWith('.json')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new CustomValidationError('Import file is not valid JSON');
+    }
+    const products = Array.isArray(parsed) ? parsed : (parsed as { products?: unknown })?.products;
+    return Array.isArray(products) ? products : [];
+  }
+
+  return parseCsvRecords(text).map(fromCsvRecord);
+};
+
+// Shared by variant create (required fields) and update (everything optional)
+const variantValidation = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+
+  return [
+    field('sku')
+      .matches(/^[A-Za-z0-9._-]{1,64}$/)
+      .withMessage('SKU must be 1-64 letters, numbers, dots, dashes or underscores'),
+    field('options')
+      .isObject()
+      .custom(value => Object.values(value).every(option => typeof option === 'string'))
+      .withMessage('Options must map each option name to one of its values'),
+    field('price')
+      .isFloat({ min: 0 })
+      .withMessage('Price must be a positive number'),
+    body('stock_quantity')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Stock quantity must be a non-negative integer'),
+    body('images')
+      .optional()
+      .isArray({ max: 5 })
+      .withMessage('Images must be an array of at most 5 URLs'),
+    body('images.*')
+      .isURL()
+      .withMessage('Invalid image URL'),
+  ];
+};
+
+// `option=size:A4` query values to the option filter of the product list;
+// anything else is left out, though the route's validation refuses it first
+const parseOptionFilters = (value: unknown): Record<string, string> => {
+  const pairs = (Array.isArray(value) ? value : [value])
+    .filter((pair): pair is string => typeof pair === 'string' && pair.indexOf(':') > 0);
+  return Object.fromEntries(pairs.map(pair => {
+    const separator = pair.indexOf(':');
+    return [pair.slice(0, separator), pair.slice(separator + 1)];
+  }));
+};
+
 // Get all products (public)
 router.get('/',
   [
@@ -67,114 +291,25 @@ router.get('/',
       page = 1,
       limit = 12
     } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
-
-    // Build WHERE clause
-    let whereConditions = ['p.is_active = true'];
-    const queryParams: any[] = [];
-    let paramIndex = 1;
-
-    if (category) {
-      whereConditions.push(`p.category = $${paramIndex}`);
-      queryParams.push(category);
-      paramIndex++;
-    }
-
-    if (min_price !== undefined) {
-      whereConditions.push(`p.price >= $${paramIndex}`);
-      queryParams.push(Number(min_price));
-      paramIndex++;
-    }
-
-    if (max_price !== undefined) {
-      whereConditions.push(`p.price <= $${paramIndex}`);
-      queryParams.push(Number(max_price));
-      paramIndex++;
-    }
-
-    if (search) {
-      whereConditions.push(`(
-        p.name ILIKE $${paramIndex} OR 
-        p.description ILIKE $${paramIndex} OR 
-        p.tags::text ILIKE $${paramIndex}
-      )`);
-      queryParams.push(`%${search}%`);
-      paramIndex++;
-    }
-
-    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
-
-    // Build ORDER BY clause
-    let orderBy = 'p.created_at DESC';
-    switch (sort) {
-      case 'oldest':
-        orderBy = 'p.created_at ASC';
-        break;
-      case 'price_low':
-        orderBy = 'p.price ASC, p.created_at DESC';
-        break;
-      case 'price_high':
-        orderBy = 'p.price DESC, p.created_at DESC';
-        break;
-      case 'popular':
-        orderBy = 'p.sales_count DESC, p.created_at DESC';
-        break;
-      case 'rating':
-        orderBy = 'p.rating DESC, p.created_at DESC';
-        break;
-    }
-
-    // Get total count
-    const countResult = await dbQuery(
-      `SELECT COUNT(*) as total 
-       FROM products p
-       JOIN users u ON p.seller_id = u.id
-       ${whereClause} AND u.is_active = true`,
-      queryParams
-    );
-    const total = parseInt(countResult.rows[0].total);
-
-    // Get products
-    const result = await dbQuery(
-      `SELECT p.id, p.name, p.description, p.category, p.price, p.rating, 
-              p.sales_count, p.image_urls, p.tags, p.created_at,
-              u.id as seller_id, u.username as seller_username, 
-              u.full_name as seller_name, u.avatar_url as seller_avatar,
-              u.is_verified as seller_verified
-       FROM products p
-       JOIN users u ON p.seller_id = u.id
-       ${whereClause} AND u.is_active = true
-       ORDER BY ${orderBy}
-       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
-      [...queryParams, Number(limit), offset]
-    );
 
-    const products = result.rows.map(row => ({
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      category: row.category,
-      price: parseFloat(row.price),
-      rating: parseFloat(row.rating) || 0,
-      sales_count: row.sales_count,
-      image_urls: row.image_urls,
-      tags: row.tags,
-      created_at: row.created_at,
-      seller: {
-        id: row.seller_id,
-        username: row.seller_username,
-        full_name: row.seller_name,
-        avatar_url: row.seller_avatar,
-        is_verified: row.seller_verified
-      }
-    }));
+    const products = await ProductsRepo.list(
+      {
+        category: category as string | undefined,
+        minPrice: min_price !== undefined ? Number(min_price) : undefined,
+        maxPrice: max_price !== undefined ? Number(max_price) : undefined,
+        search: search as string | undefined,
+        sort: sort as ProductSort
+      },
+      { page: Number(page), limit: Number(limit) }
+    );
 
-    sendPaginatedResponse(res, products, total, Number(page), Number(limit), 'Products retrieved successfully');
+    sendPaginatedResponse(res, products.items, products.total, products.page, products.limit, 'Products retrieved successfully');
   })
 );
 
 // Get single product
 router.get('/:id',
+  optionalAuth,
   [
     param('id')
       .isUUID()
@@ -184,95 +319,57 @@ router.get('/:id',
   asyncHandler(async (req, res) => {
     const { id } = req.params;
 
-    const result = await dbQuery(
-      `SELECT p.id, p.name, p.description, p.category, p.price, p.rating, 
-              p.sales_count, p.image_urls, p.tags, p.file_urls, p.preview_urls,
-              p.requirements, p.features, p.created_at, p.updated_at,
-              u.id as seller_id, u.username as seller_username, 
-              u.full_name as seller_name, u.avatar_url as seller_avatar,
-              u.is_verified as seller_verified, u.bio as seller_bio
-       FROM products p
-       JOIN users u ON p.seller_id = u.id
-       WHERE p.id = $1 AND p.is_active = true AND u.is_active = true`,
-      [id]
-    );
+    const product = await ProductsRepo.findById(id);
 
-    if (result.rows.length === 0) {
+    if (!product) {
       return res.status(404).json({ error: 'Product not found' });
     }
 
-    const row = result.rows[0];
-    const product = {
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      category: row.category,
-      price: parseFloat(row.price),
-      rating: parseFloat(row.rating) || 0,
-      sales_count: row.sales_count,
-      image_urls: row.image_urls,
-      tags: row.tags,
-      file_urls: row.file_urls,
-      preview_urls: row.preview_urls,
-      requirements: row.requirements,
-      features: row.features,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      seller: {
-        id: row.seller_id,
-        username: row.seller_username,
-        full_name: row.seller_name,
-        avatar_url: row.seller_avatar,
-        is_verified: row.seller_verified,
-        bio: row.seller_bio
-      }
-    };
+    // Counted for the seller's conversion analytics, except the seller's own
+    // visits; a failed count does not fail the page
+    if (req.user?.id !== product.sellerId) {
+      await ProductViewsRepo.record(product.id).catch(error => console.error('Failed to count product view:', error));
+    }
+
+    const variants = hasVariants(product) ? await ProductVariantsRepo.listByProduct(product.id) : [];
+
+    sendSuccess(res, { ...product, variants }, 'Product retrieved successfully');
+  })
+);
+
+// Products to show alongside a product: bought together with it, then similar ones
+router.get('/:id/related',
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 12 })
+      .withMessage('Limit must be between 1 and 12'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id);
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
 
-    sendSuccess(res, product, 'Product retrieved successfully');
+    const related = await getRelatedProducts(product.id, product.category, Number(req.query.limit ?? 6));
+
+    sendSuccess(res, related, 'Related products retrieved successfully');
   })
 );
 
 // Create product (authenticated users only)
 router.post('/',
   authenticateToken,
+  requireVerifiedEmail,
   upload.array('images', 5),
-  [
-    body('name')
-      .isLength({ min: 3, max: 200 })
-      .withMessage('Product name must be between 3 and 200 characters'),
-    body('description')
-      .isLength({ min: 20, max: 2000 })
-      .withMessage('Description must be between 20 and 2000 characters'),
-    body('category')
-      .isIn(['digital_art', 'templates', 'courses', 'tools', 'other'])
-      .withMessage('Invalid category'),
-    body('price')
-      .isFloat({ min: 0 })
-      .withMessage('Price must be a positive number'),
-    body('tags')
-      .optional()
-      .isArray()
-      .withMessage('Tags must be an array'),
-    body('requirements')
-      .optional()
-      .isArray()
-      .withMessage('Requirements must be an array'),
-    body('features')
-      .optional()
-      .isArray()
-      .withMessage('Features must be an array'),
-  ],
+  productValidation(false),
   validateRequest,
   asyncHandler(async (req, res) => {
-    const {
-      name,
-      description,
-      category,
-      price,
-      tags,
-      requirements,
-      features
-    } = req.body;
     const sellerId = req.user!.id;
     const images = req.files as Express.Multer.File[];
 
@@ -285,137 +382,141 @@ router.post('/',
       );
     }
 
-    const result = await dbQuery(
-      `INSERT INTO products (
-        seller_id, name, description, category, price, image_urls, tags,
-        requirements, features
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-      RETURNING id, name, description, category, price, image_urls, created_at`,
-      [
-        sellerId, name, description, category, price,
-        JSON.stringify(imageUrls), JSON.stringify(tags || []),
-        JSON.stringify(requirements || []), JSON.stringify(features || [])
-      ]
-    );
+    const input = toProductInput(req.body);
 
-    const product = result.rows[0];
+    if (input.sku && (await ProductsRepo.findBySkus(sellerId, [input.sku])).length > 0) {
+      return res.status(409).json({ error: 'A product with this SKU already exists' });
+    }
+
+    const product = await ProductsRepo.create({
+      ...input,
+      sellerId,
+      name: req.body.name,
+      description: req.body.description,
+      category: req.body.category,
+      price: Number(req.body.price),
+      images: imageUrls
+    });
 
     sendSuccess(res, product, 'Product created successfully', 201);
   })
 );
 
+// Create or update many products from a CSV or JSON catalog. With dry_run
+// nothing is written; with upsert rows whose SKU exists update that product.
+router.post('/import',
+  authenticateToken,
+  requireVerifiedEmail,
+  catalogUpload.single('file'),
+  [
+    query('dry_run')
+      .optional()
+      .isBoolean()
+      .withMessage('dry_run must be a boolean'),
+    query('upsert')
+      .optional()
+      .isBoolean()
+      .withMessage('upsert must be a boolean'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const records = readImportRecords(req);
+
+    if (records.length === 0) {
+      return res.status(400).json({ error: 'No products to import' });
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      return res.status(400).json({ error: `At most ${MAX_IMPORT_ROWS} products can be imported at once` });
+    }
+
+    const rows: ImportRow[] = [];
+    for (const [index, value] of records.entries()) {
+      const record = value !== null && typeof value === 'object' ? value as Record<string, unknown> : {};
+      rows.push({
+        row: index + 1,
+        input: toProductInput(record) as ProductImportInput,
+        errors: await validateImportRecord(record)
+      });
+    }
+
+    const report = await importProducts(req.user!.id, rows, {
+      dryRun: req.query.dry_run === 'true',
+      upsert: req.query.upsert === 'true'
+    });
+
+    if (report.dryRun) {
+      return sendSuccess(res, report, 'Import checked successfully');
+    }
+    if (report.failed > 0) {
+      return res.status(400).json({ error: 'Import has invalid rows; nothing was imported', report });
+    }
+
+    sendSuccess(res, report, 'Products imported successfully', 201);
+  })
+);
+
 // Update product (seller or admin only)
 router.put('/:id',
   authenticateToken,
+  requireVerifiedEmail,
   upload.array('images', 5),
   [
     param('id')
       .isUUID()
       .withMessage('Invalid product ID'),
-    body('name')
-      .optional()
-      .isLength({ min: 3, max: 200 })
-      .withMessage('Product name must be between 3 and 200 characters'),
-    body('description')
-      .optional()
-      .isLength({ min: 20, max: 2000 })
-      .withMessage('Description must be between 20 and 2000 characters'),
-    body('category')
-      .optional()
-      .isIn(['digital_art', 'templates', 'courses', 'tools', 'other'])
-      .withMessage('Invalid category'),
-    body('price')
-      .optional()
-      .isFloat({ min: 0 })
-      .withMessage('Price must be a positive number'),
-    body('tags')
-      .optional()
-      .isArray()
-      .withMessage('Tags must be an array'),
-    body('requirements')
-      .optional()
-      .isArray()
-      .withMessage('Requirements must be an array'),
-    body('features')
-      .optional()
-      .isArray()
-      .withMessage('Features must be an array'),
+    ...productValidation(true),
   ],
   validateRequest,
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const userId = req.user!.id;
-    const userRole = req.user!.role;
     const images = req.files as Express.Multer.File[];
 
     // Check if product exists and user has permission
-    const existingResult = await dbQuery(
-      'SELECT seller_id, image_urls FROM products WHERE id = $1 AND is_active = true',
-      [id]
-    );
+    const existing = await ProductsRepo.findById(id);
 
-    if (existingResult.rows.length === 0) {
+    if (!existing) {
       return res.status(404).json({ error: 'Product not found' });
     }
 
-    const sellerId = existingResult.rows[0].seller_id;
-    if (userRole !== 'admin' && userId !== sellerId) {
+    const sellerId = existing.sellerId;
+    if (userId !== sellerId && !await isAdminActing(req)) {
       return res.status(403).json({ error: 'Not authorized to update this product' });
     }
 
     // Process new images if uploaded
-    let imageUrls = existingResult.rows[0].image_urls;
+    let imageUrls: string[] | undefined;
     if (images && images.length > 0) {
       imageUrls = images.map((file, index) => 
         `https://api.desvandigital.com/uploads/products/${sellerId}_${Date.now()}_${index}.${file.originalname.split('.').pop()}`
       );
     }
 
-    // Build update query
-    const updateFields = [];
-    const queryParams = [];
-    let paramIndex = 1;
-
-    const allowedFields = [
-      'name', 'description', 'category', 'price', 'tags', 'requirements', 'features'
-    ];
-
-    for (const field of allowedFields) {
-      if (req.body[field] !== undefined) {
-        updateFields.push(`${field} = $${paramIndex}`);
-        
-        if (['tags', 'requirements', 'features'].includes(field)) {
-          queryParams.push(JSON.stringify(req.body[field]));
-        } else {
-          queryParams.push(req.body[field]);
-        }
-        paramIndex++;
-      }
-    }
+    const changes = { ...toProductInput(req.body), images: imageUrls };
 
-    // Always update image_urls if new images were uploaded
-    if (images && images.length > 0) {
-      updateFields.push(`image_urls = $${paramIndex}`);
-      queryParams.push(JSON.stringify(imageUrls));
-      paramIndex++;
+    if (Object.values(changes).every(value => value === undefined)) {
+      return res.status(400).json({ error: 'No valid fields to update' });
     }
 
-    if (updateFields.length === 0) {
-      return res.status(400).json({ error: 'No valid fields to update' });
+    // Price and stock of a product with variants are derived from its variants
+    if (hasVariants(existing) && (changes.price !== undefined || changes.stockQuantity !== undefined)) {
+      return res.status(400).json({ error: 'Set the price and stock of each variant instead' });
     }
 
-    updateFields.push(`updated_at = CURRENT_TIMESTAMP`);
-    queryParams.push(id);
+    if (changes.sku) {
+      const [clash] = await ProductsRepo.findBySkus(sellerId, [changes.sku]);
+      if (clash && clash.id !== id) {
+        return res.status(409).json({ error: 'A product with this SKU already exists' });
+      }
+    }
 
-    const result = await dbQuery(
-      `UPDATE products 
-       SET ${updateFields.join(', ')}
-       WHERE id = $${paramIndex}
-       RETURNING id, name, description, category, price, image_urls, updated_at`,
-      queryParams
-    );
+    // Price changes are recorded and may set off price-drop alerts
+    const { price, ...otherChanges } = changes;
+    if (price !== undefined) {
+      await changePrice(existing, price, { reason: 'manual', actorId: userId });
+    }
 
-    const product = result.rows[0];
+    const product = await ProductsRepo.update(id, otherChanges);
 
     sendSuccess(res, product, 'Product updated successfully');
   })
@@ -433,33 +534,429 @@ router.delete('/:id',
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const userId = req.user!.id;
-    const userRole = req.user!.role;
 
     // Check if product exists and user has permission
-    const existingResult = await dbQuery(
-      'SELECT seller_id FROM products WHERE id = $1 AND is_active = true',
-      [id]
-    );
+    const existing = await ProductsRepo.findById(id);
 
-    if (existingResult.rows.length === 0) {
+    if (!existing) {
       return res.status(404).json({ error: 'Product not found' });
     }
 
-    const sellerId = existingResult.rows[0].seller_id;
-    if (userRole !== 'admin' && userId !== sellerId) {
+    if (userId !== existing.sellerId && !await isAdminActing(req)) {
       return res.status(403).json({ error: 'Not authorized to delete this product' });
     }
 
     // Soft delete
-    await dbQuery(
-      'UPDATE products SET is_active = false, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
-      [id]
-    );
+    await ProductsRepo.softDelete(id);
 
     sendSuccess(res, null, 'Product deleted successfully');
   })
 );
 
+// List the deliverable files of a product (seller or admin only)
+router.get('/:id/files',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id, { includeInactive: true });
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    if (req.user!.id !== product.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to view the files of this product' });
+    }
+
+    const files = await ProductFilesRepo.listByProduct(product.id);
+
+    sendSuccess(res, files.map(toPublicFile), 'Product files retrieved successfully');
+  })
+);
+
+// Attach a deliverable file to a digital product (seller or admin only)
+router.post('/:id/files',
+  authenticateToken,
+  requireVerifiedEmail,
+  fileUpload.single('file'),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id);
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    if (req.user!.id !== product.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to add files to this product' });
+    }
+
+    if (!product.isDigital) {
+      return res.status(400).json({ error: 'Only digital products can have downloadable files' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'File is required' });
+    }
+
+    const file = await storeProductFile(product.id, req.file);
+
+    sendSuccess(res, toPublicFile(file), 'File uploaded successfully', 201);
+  })
+);
+
+// Remove a deliverable file (seller or admin only)
+router.delete('/:id/files/:fileId',
+  authenticateToken,
+  requireVerifiedEmail,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    param('fileId')
+      .isUUID()
+      .withMessage('Invalid file ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id, { includeInactive: true });
+    const file = await ProductFilesRepo.findById(req.params.fileId);
+
+    if (!product || !file || file.productId !== product.id) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    if (req.user!.id !== product.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to remove files from this product' });
+    }
+
+    await deleteProductFile(file);
+
+    sendSuccess(res, null, 'File deleted successfully');
+  })
+);
+
+// Replace the options of a product, e.g. size and colour (seller or admin only)
+router.put('/:id/options',
+  authenticateToken,
+  requireVerifiedEmail,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    body('options')
+      .isArray({ max: 3 })
+      .withMessage('Options must be an array of at most 3 options'),
+    body('options.*.name')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('Option name must be between 1 and 50 characters'),
+    body('options.*.values')
+      .isArray({ min: 1, max: 50 })
+      .withMessage('Each option needs between 1 and 50 values'),
+    body('options.*.values.*')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 50 })
+      .withMessage('Option values must be between 1 and 50 characters'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id, { includeInactive: true });
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    if (req.user!.id !== product.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to update this product' });
+    }
+
+    const options = (req.body.options as { name: string; values: string[] }[])
+      .map(({ name, values }) => ({ name, values }));
+    const updated = await setProductOptions(product, options);
+
+    sendSuccess(res, updated, 'Product options updated successfully');
+  })
+);
+
+// List the variants of a product, retired ones included (seller or admin only)
+router.get('/:id/variants',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id, { includeInactive: true });
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    if (req.user!.id !== product.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to view the variants of this product' });
+    }
+
+    const variants = await ProductVariantsRepo.listByProduct(product.id, { includeInactive: true });
+
+    sendSuccess(res, variants, 'Product variants retrieved successfully');
+  })
+);
+
+// Add a variant (seller or admin only)
+router.post('/:id/variants',
+  authenticateToken,
+  requireVerifiedEmail,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    ...variantValidation(false),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id, { includeInactive: true });
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    if (req.user!.id !== product.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to add variants to this product' });
+    }
+
+    const { sku, options, price, stock_quantity, images } = req.body;
+    const variant = await createVariant(product, {
+      sku,
+      options,
+      price: Number(price),
+      stockQuantity: stock_quantity !== undefined ? Number(stock_quantity) : undefined,
+      images
+    });
+
+    sendSuccess(res, variant, 'Product variant created successfully', 201);
+  })
+);
+
+// Update a variant; `is_active: true` brings a retired one back (seller or admin only)
+router.put('/:id/variants/:variantId',
+  authenticateToken,
+  requireVerifiedEmail,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    param('variantId')
+      .isUUID()
+      .withMessage('Invalid variant ID'),
+    ...variantValidation(true),
+    body('is_active')
+      .optional()
+      .isBoolean()
+      .withMessage('is_active must be a boolean'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id, { includeInactive: true });
+    const variant = await ProductVariantsRepo.findById(req.params.variantId);
+
+    if (!product || !variant || variant.productId !== product.id) {
+      return res.status(404).json({ error: 'Product variant not found' });
+    }
+
+    if (req.user!.id !== product.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to update this product' });
+    }
+
+    const { sku, options, price, stock_quantity, images, is_active } = req.body;
+    const changes = {
+      sku,
+      options,
+      price: price !== undefined ? Number(price) : undefined,
+      stockQuantity: stock_quantity !== undefined ? Number(stock_quantity) : undefined,
+      images,
+      isActive: is_active !== undefined ? String(is_active) === 'true' : undefined
+    };
+
+    if (Object.values(changes).every(value => value === undefined)) {
+      return res.status(400).json({ error: 'No valid fields to update' });
+    }
+
+    const updated = await updateVariant(product, variant, changes);
+
+    sendSuccess(res, updated, 'Product variant updated successfully');
+  })
+);
+
+// Retire a variant (seller or admin only)
+router.delete('/:id/variants/:variantId',
+  authenticateToken,
+  requireVerifiedEmail,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    param('variantId')
+      .isUUID()
+      .withMessage('Invalid variant ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id, { includeInactive: true });
+    const variant = await ProductVariantsRepo.findById(req.params.variantId);
+
+    if (!product || !variant || variant.productId !== product.id) {
+      return res.status(404).json({ error: 'Product variant not found' });
+    }
+
+    if (req.user!.id !== product.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to update this product' });
+    }
+
+    await deactivateVariant(product, variant);
+
+    sendSuccess(res, null, 'Product variant deleted successfully');
+  })
+);
+
+// Get the price changes of a product, newest first
+router.get('/:id/price-history',
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { page = 1, limit = 20 } = req.query;
+
+    if (!(await ProductsRepo.findById(req.params.id))) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const history = await PriceHistoryRepo.listByProduct(req.params.id, { page: Number(page), limit: Number(limit) });
+
+    sendPaginatedResponse(res, history.items, history.total, history.page, history.limit, 'Price history retrieved successfully');
+  })
+);
+
+// Get the sales of a product, past and planned (seller or admin only)
+router.get('/:id/sales',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id, { includeInactive: true });
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    if (req.user!.id !== product.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to view the sales of this product' });
+    }
+
+    const sales = await ProductSalesRepo.listByProduct(product.id);
+
+    sendSuccess(res, sales, 'Product sales retrieved successfully');
+  })
+);
+
+// Schedule a sale; the price changes and changes back on its own (seller or admin only)
+router.post('/:id/sales',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    body('sale_price')
+      .isFloat({ min: 0 })
+      .withMessage('Sale price must be a positive number'),
+    body('starts_at')
+      .isISO8601()
+      .withMessage('starts_at must be an ISO 8601 date'),
+    body('ends_at')
+      .isISO8601()
+      .withMessage('ends_at must be an ISO 8601 date'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id, { includeInactive: true });
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    if (req.user!.id !== product.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to update this product' });
+    }
+
+    const sale = await scheduleSale(product, {
+      salePrice: Number(req.body.sale_price),
+      startsAt: new Date(req.body.starts_at),
+      endsAt: new Date(req.body.ends_at)
+    }, req.user!.id);
+
+    sendSuccess(res, sale, 'Sale scheduled successfully', 201);
+  })
+);
+
+// Call off a scheduled sale or stop a running one (seller or admin only)
+router.delete('/:id/sales/:saleId',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    param('saleId')
+      .isUUID()
+      .withMessage('Invalid sale ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id, { includeInactive: true });
+    const sale = await ProductSalesRepo.findById(req.params.saleId);
+
+    if (!product || !sale || sale.productId !== product.id) {
+      return res.status(404).json({ error: 'Sale not found' });
+    }
+
+    if (req.user!.id !== product.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to update this product' });
+    }
+
+    const cancelled = await cancelSale(sale, req.user!.id);
+
+    sendSuccess(res, cancelled, 'Sale cancelled successfully');
+  })
+);
+
 // Get products by seller
 router.get('/seller/:sellerId',
   [
@@ -479,59 +976,63 @@ router.get('/seller/:sellerId',
   asyncHandler(async (req, res) => {
     const { sellerId } = req.params;
     const { page = 1, limit = 12 } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
 
     // Check if seller exists
-    const sellerResult = await dbQuery(
-      'SELECT id, username, full_name, avatar_url, is_verified FROM users WHERE id = $1 AND is_active = true',
-      [sellerId]
+    const seller = await UsersRepo.findById(sellerId, { activeOnly: true });
+
+    if (!seller) {
+      return res.status(404).json({ error: 'Seller not found' });
+    }
+
+    const products = await ProductsRepo.list(
+      { sellerId },
+      { page: Number(page), limit: Number(limit) }
     );
 
-    if (sellerResult.rows.length === 0) {
+    sendPaginatedResponse(res, products.items, products.total, products.page, products.limit, 'Seller products retrieved successfully');
+  })
+);
+
+// Export a seller's active catalog in the import format (seller or admin only)
+router.get('/seller/:sellerId/export',
+  authenticateToken,
+  [
+    param('sellerId')
+      .isUUID()
+      .withMessage('Invalid seller ID'),
+    query('format')
+      .optional()
+      .isIn(['csv', 'json'])
+      .withMessage('Format must be csv or json'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { sellerId } = req.params;
+
+    if (req.user!.id !== sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to export this catalog' });
+    }
+
+    const seller = await UsersRepo.findById(sellerId);
+
+    if (!seller) {
       return res.status(404).json({ error: 'Seller not found' });
     }
 
-    const seller = sellerResult.rows[0];
+    const products = await ProductsRepo.listAllBySeller(sellerId);
 
-    // Get total count
-    const countResult = await dbQuery(
-      'SELECT COUNT(*) as total FROM products WHERE seller_id = $1 AND is_active = true',
-      [sellerId]
-    );
-    const total = parseInt(countResult.rows[0].total);
-
-    // Get products
-    const result = await dbQuery(
-      `SELECT id, name, description, category, price, rating, sales_count, 
-              image_urls, tags, created_at
-       FROM products
-       WHERE seller_id = $1 AND is_active = true
-       ORDER BY created_at DESC
-       LIMIT $2 OFFSET $3`,
-      [sellerId, Number(limit), offset]
-    );
+    if (req.query.format === 'json') {
+      return sendSuccess(res, products.map(toCatalogRecord), 'Catalog exported successfully');
+    }
 
-    const products = result.rows.map(row => ({
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      category: row.category,
-      price: parseFloat(row.price),
-      rating: parseFloat(row.rating) || 0,
-      sales_count: row.sales_count,
-      image_urls: row.image_urls,
-      tags: row.tags,
-      created_at: row.created_at,
-      seller
-    }));
-
-    sendPaginatedResponse(res, products, total, Number(page), Number(limit), 'Seller products retrieved successfully');
+    res.attachment(`catalog-${seller.username}.csv`).type('text/csv').send(toCatalogCsv(products));
   })
 );
 
-// Rate product
+// Review a product; a second review by the same user replaces the first
 router.post('/:id/rate',
   authenticateToken,
+  requireVerifiedEmail,
   [
     param('id')
       .isUUID()
@@ -539,79 +1040,132 @@ router.post('/:id/rate',
     body('rating')
       .isFloat({ min: 1, max: 5 })
       .withMessage('Rating must be between 1 and 5'),
+    body('title')
+      .optional({ values: 'null' })
+      .isLength({ max: 120 })
+      .withMessage('Title must be less than 120 characters'),
     body('review')
-      .optional()
+      .optional({ values: 'null' })
       .isLength({ max: 1000 })
       .withMessage('Review must be less than 1000 characters'),
   ],
   validateRequest,
   asyncHandler(async (req, res) => {
-    const { id } = req.params;
-    const { rating, review } = req.body;
-    const userId = req.user!.id;
-
-    // Check if product exists
-    const productResult = await dbQuery(
-      'SELECT seller_id FROM products WHERE id = $1 AND is_active = true',
-      [id]
-    );
+    const product = await ProductsRepo.findById(req.params.id);
 
-    if (productResult.rows.length === 0) {
+    if (!product) {
       return res.status(404).json({ error: 'Product not found' });
     }
 
-    // Check if user is not the seller
-    if (productResult.rows[0].seller_id === userId) {
-      return res.status(400).json({ error: 'Cannot rate your own product' });
-    }
+    const { rating, title, review } = req.body;
+    const result = await submitReview(product, req.user!.id, { rating: Number(rating), title, review });
 
-    // Check if already rated
-    const existingRating = await dbQuery(
-      'SELECT id FROM product_ratings WHERE user_id = $1 AND product_id = $2',
-      [userId, id]
+    sendSuccess(
+      res,
+      result.review,
+      result.created ? 'Review submitted successfully' : 'Review updated successfully',
+      result.created ? 201 : 200
     );
+  })
+);
 
-    if (existingRating.rows.length > 0) {
-      // Update existing rating
-      await dbQuery(
-        'UPDATE product_ratings SET rating = $1, review = $2, updated_at = CURRENT_TIMESTAMP WHERE user_id = $3 AND product_id = $4',
-        [rating, review || null, userId, id]
-      );
-    } else {
-      // Create new rating
-      await dbQuery(
-        'INSERT INTO product_ratings (user_id, product_id, rating, review) VALUES ($1, $2, $3, $4)',
-        [userId, id, rating, review || null]
-      );
+// Get the published reviews of a product
+router.get('/:id/ratings',
+  optionalAuth,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    query('rating')
+      .optional()
+      .isInt({ min: 1, max: 5 })
+      .withMessage('Rating must be between 1 and 5'),
+    query('verified')
+      .optional()
+      .isBoolean()
+      .withMessage('verified must be a boolean'),
+    query('sort')
+      .optional()
+      .isIn(['newest', 'helpful', 'rating_high', 'rating_low'])
+      .withMessage('Invalid sort option'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage('Limit must be between 1 and 50'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+    const { rating, verified, sort = 'newest', page = 1, limit = 10 } = req.query;
+
+    // Check if product exists
+    if (!(await ProductsRepo.findById(id))) {
+      return res.status(404).json({ error: 'Product not found' });
     }
 
-    // Update average rating
-    const avgResult = await dbQuery(
-      'SELECT AVG(rating) as avg_rating FROM product_ratings WHERE product_id = $1',
-      [id]
+    const reviews = await ProductReviewsRepo.list(
+      {
+        productId: id,
+        status: 'published',
+        rating: rating !== undefined ? Number(rating) : undefined,
+        verifiedOnly: verified === 'true',
+        sort: sort as ReviewSort,
+        viewerId: req.user?.id
+      },
+      { page: Number(page), limit: Number(limit) }
     );
 
-    const avgRating = parseFloat(avgResult.rows[0].avg_rating) || 0;
+    sendPaginatedResponse(res, reviews.items, reviews.total, reviews.page, reviews.limit, 'Product ratings retrieved successfully');
+  })
+);
+
+// Ask the seller a public question about a product
+router.post('/:id/questions',
+  authenticateToken,
+  requireVerifiedEmail,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    body('question')
+      .isString()
+      .trim()
+      .isLength({ min: 10, max: 1000 })
+      .withMessage('Question must be between 10 and 1000 characters'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.params.id);
 
-    await dbQuery(
-      'UPDATE products SET rating = $1 WHERE id = $2',
-      [avgRating, id]
-    );
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const question = await askQuestion(product, req.user!.id, req.body.question);
 
-    sendSuccess(res, {
-      product_id: id,
-      user_rating: rating,
-      average_rating: avgRating
-    }, 'Rating submitted successfully', 201);
+    sendSuccess(res, question, 'Question posted successfully', 201);
   })
 );
 
-// Get product ratings
-router.get('/:id/ratings',
+// Get the published questions of a product with their answers
+router.get('/:id/questions',
+  optionalAuth,
   [
     param('id')
       .isUUID()
       .withMessage('Invalid product ID'),
+    query('answered')
+      .optional()
+      .isBoolean()
+      .withMessage('answered must be a boolean'),
+    query('sort')
+      .optional()
+      .isIn(['newest', 'top'])
+      .withMessage('Invalid sort option'),
     query('page')
       .optional()
       .isInt({ min: 1 })
@@ -624,51 +1178,24 @@ router.get('/:id/ratings',
   validateRequest,
   asyncHandler(async (req, res) => {
     const { id } = req.params;
-    const { page = 1, limit = 10 } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
+    const { answered, sort = 'top', page = 1, limit = 10 } = req.query;
 
-    // Check if product exists
-    const productResult = await dbQuery(
-      'SELECT id FROM products WHERE id = $1 AND is_active = true',
-      [id]
-    );
-
-    if (productResult.rows.length === 0) {
+    if (!(await ProductsRepo.findById(id))) {
       return res.status(404).json({ error: 'Product not found' });
     }
 
-    // Get total count
-    const countResult = await dbQuery(
-      'SELECT COUNT(*) as total FROM product_ratings WHERE product_id = $1',
-      [id]
-    );
-    const total = parseInt(countResult.rows[0].total);
-
-    // Get ratings
-    const result = await dbQuery(
-      `SELECT pr.rating, pr.review, pr.created_at,
-              u.id as user_id, u.username, u.full_name, u.avatar_url
-       FROM product_ratings pr
-       JOIN users u ON pr.user_id = u.id
-       WHERE pr.product_id = $1 AND u.is_active = true
-       ORDER BY pr.created_at DESC
-       LIMIT $2 OFFSET $3`,
-      [id, Number(limit), offset]
+    const questions = await ProductQuestionsRepo.list(
+      {
+        productId: id,
+        status: 'published',
+        answeredBySeller: answered !== undefined ? answered === 'true' : undefined,
+        sort: sort as QuestionSort,
+        viewerId: req.user?.id
+      },
+      { page: Number(page), limit: Number(limit) }
     );
 
-    const ratings = result.rows.map(row => ({
-      rating: parseFloat(row.rating),
-      review: row.review,
-      created_at: row.created_at,
-      user: {
-        id: row.user_id,
-        username: row.username,
-        full_name: row.full_name,
-        avatar_url: row.avatar_url
-      }
-    }));
-
-    sendPaginatedResponse(res, ratings, total, Number(page), Number(limit), 'Product ratings retrieved successfully');
+    sendPaginatedResponse(res, questions.items, questions.total, questions.page, questions.limit, 'Product questions retrieved successfully');
   })
 );
 
@@ -694,6 +1221,18 @@ router.get('/search/advanced',
       .optional()
       .isFloat({ min: 0, max: 5 })
       .withMessage('Minimum rating must be between 0 and 5'),
+    // Repeatable: option=size:A4&option=colour:red
+    query('option')
+      .optional()
+      .custom(value => (Array.isArray(value) ? value : [value])
+        .every(pair => typeof pair === 'string' && /^[^:]{1,50}:.{1,50}$/.test(pair)))
+      .withMessage('Option filters must look like name:value'),
+    // The query string is parsed without brackets, so option[]=size:A4 would
+    // arrive under its own name and filter nothing
+    query('["option[]"]')
+      .not()
+      .exists()
+      .withMessage('Repeat option instead of option[]: option=size:A4&option=colour:red'),
     query('sort')
       .optional()
       .isIn(['relevance', 'newest', 'oldest', 'price_low', 'price_high', 'popular', 'rating'])
@@ -715,121 +1254,26 @@ router.get('/search/advanced',
       min_price,
       max_price,
       min_rating,
+      option,
       sort = 'relevance',
       page = 1,
       limit = 12
     } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
-
-    // Build WHERE clause
-    let whereConditions = ['p.is_active = true'];
-    const queryParams: any[] = [];
-    let paramIndex = 1;
-
-    // Search query
-    whereConditions.push(`(
-      p.name ILIKE $${paramIndex} OR 
-      p.description ILIKE $${paramIndex} OR 
-      p.tags::text ILIKE $${paramIndex}
-    )`);
-    queryParams.push(`%${q}%`);
-    paramIndex++;
-
-    if (category) {
-      whereConditions.push(`p.category = $${paramIndex}`);
-      queryParams.push(category);
-      paramIndex++;
-    }
-
-    if (min_price !== undefined) {
-      whereConditions.push(`p.price >= $${paramIndex}`);
-      queryParams.push(Number(min_price));
-      paramIndex++;
-    }
-
-    if (max_price !== undefined) {
-      whereConditions.push(`p.price <= $${paramIndex}`);
-      queryParams.push(Number(max_price));
-      paramIndex++;
-    }
-
-    if (min_rating !== undefined) {
-      whereConditions.push(`p.rating >= $${paramIndex}`);
-      queryParams.push(Number(min_rating));
-      paramIndex++;
-    }
-
-    const whereClause = whereConditions.join(' AND ');
-
-    // Build ORDER BY clause
-    let orderBy = 'p.created_at DESC'; // Default for relevance
-    switch (sort) {
-      case 'newest':
-        orderBy = 'p.created_at DESC';
-        break;
-      case 'oldest':
-        orderBy = 'p.created_at ASC';
-        break;
-      case 'price_low':
-        orderBy = 'p.price ASC, p.created_at DESC';
-        break;
-      case 'price_high':
-        orderBy = 'p.price DESC, p.created_at DESC';
-        break;
-      case 'popular':
-        orderBy = 'p.sales_count DESC, p.created_at DESC';
-        break;
-      case 'rating':
-        orderBy = 'p.rating DESC, p.created_at DESC';
-        break;
-    }
-
-    // Get total count
-    const countResult = await dbQuery(
-      `SELECT COUNT(*) as total 
-       FROM products p
-       JOIN users u ON p.seller_id = u.id
-       WHERE ${whereClause} AND u.is_active = true`,
-      queryParams
-    );
-    const total = parseInt(countResult.rows[0].total);
-
-    // Get products
-    const result = await dbQuery(
-      `SELECT p.id, p.name, p.description, p.category, p.price, p.rating, 
-              p.sales_count, p.image_urls, p.tags, p.created_at,
-              u.id as seller_id, u.username as seller_username, 
-              u.full_name as seller_name, u.avatar_url as seller_avatar,
-              u.is_verified as seller_verified
-       FROM products p
-       JOIN users u ON p.seller_id = u.id
-       WHERE ${whereClause} AND u.is_active = true
-       ORDER BY ${orderBy}
-       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`,
-      [...queryParams, Number(limit), offset]
-    );
 
-    const products = result.rows.map(row => ({
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      category: row.category,
-      price: parseFloat(row.price),
-      rating: parseFloat(row.rating) || 0,
-      sales_count: row.sales_count,
-      image_urls: row.image_urls,
-      tags: row.tags,
-      created_at: row.created_at,
-      seller: {
-        id: row.seller_id,
-        username: row.seller_username,
-        full_name: row.seller_name,
-        avatar_url: row.seller_avatar,
-        is_verified: row.seller_verified
-      }
-    }));
+    const products = await ProductsRepo.list(
+      {
+        search: q as string,
+        category: category as string | undefined,
+        minPrice: min_price !== undefined ? Number(min_price) : undefined,
+        maxPrice: max_price !== undefined ? Number(max_price) : undefined,
+        minRating: min_rating !== undefined ? Number(min_rating) : undefined,
+        variantOptions: parseOptionFilters(option),
+        sort: sort as ProductSort
+      },
+      { page: Number(page), limit: Number(limit) }
+    );
 
-    sendPaginatedResponse(res, products, total, Number(page), Number(limit), `Found ${total} products matching "${q}"`);
+    sendPaginatedResponse(res, products.items, products.total, products.page, products.limit, `Found ${products.total} products matching "${q}"`);
   })
 );
 
@@ -0,0 +1,235 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { authenticateToken, isAdminActing, requireRole, requireVerifiedEmail } from '../middleware/auth.js';
+import { validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse } from '../middleware/errorHandler.js';
+import { ProductQuestionsRepo, ProductsRepo } from '../repositories/index.js';
+import { QaItem, answerQuestion, deleteQa, moderateQa, reportQa, upvoteQa } from '../services/questions.js';
+import { QaStatus, QaTarget } from '../types.js';
+
+const router = express.Router();
+
+const idParam = param('id')
+  .isUUID()
+  .withMessage('Invalid ID');
+
+// Moderation queue (admin only): flagged questions, or any with open reports
+// against them or their answers. Answers are listed whatever their status.
+router.get('/',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    query('status')
+      .optional()
+      .isIn(['published', 'flagged', 'hidden'])
+      .withMessage('Invalid question status'),
+    query('reported')
+      .optional()
+      .isBoolean()
+      .withMessage('reported must be a boolean'),
+    query('product_id')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { status, reported, product_id, page = 1, limit = 20 } = req.query;
+
+    const questions = await ProductQuestionsRepo.list(
+      {
+        status: status as QaStatus | undefined,
+        reportedOnly: reported === 'true',
+        productId: product_id as string | undefined,
+        sort: 'newest',
+        includeHiddenAnswers: true
+      },
+      { page: Number(page), limit: Number(limit) }
+    );
+
+    sendPaginatedResponse(res, questions.items, questions.total, questions.page, questions.limit, 'Questions retrieved successfully');
+  })
+);
+
+// Answer a question; the product's seller gets the seller badge
+router.post('/:id/answers',
+  authenticateToken,
+  requireVerifiedEmail,
+  [
+    idParam,
+    body('answer')
+      .isString()
+      .trim()
+      .isLength({ min: 2, max: 2000 })
+      .withMessage('Answer must be between 2 and 2000 characters'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const question = await ProductQuestionsRepo.findById(req.params.id);
+    const product = question && question.status === 'published'
+      ? await ProductsRepo.findById(question.productId)
+      : null;
+
+    if (!question || !product) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const answer = await answerQuestion(question, product, req.user!.id, req.body.answer);
+
+    sendSuccess(res, answer, 'Answer posted successfully', 201);
+  })
+);
+
+// Questions and answers share upvotes, reports, moderation and deletion:
+// /questions/:id/... acts on a question, /questions/answers/:id/... on an answer
+const TARGETS: { target: QaTarget; path: string; label: string; find: (id: string) => Promise<QaItem | null> }[] = [
+  { target: 'question', path: '/:id', label: 'Question', find: ProductQuestionsRepo.findById },
+  { target: 'answer', path: '/answers/:id', label: 'Answer', find: ProductQuestionsRepo.findAnswerById }
+];
+
+for (const { target, path, label, find } of TARGETS) {
+  const notFound = `${label} not found`;
+
+  // Upvote as useful; upvoting again changes nothing
+  router.put(`${path}/upvote`,
+    authenticateToken,
+    [idParam],
+    validateRequest,
+    asyncHandler(async (req, res) => {
+      const item = await find(req.params.id);
+
+      if (!item || item.status !== 'published') {
+        return res.status(404).json({ error: notFound });
+      }
+
+      await upvoteQa(target, item, req.user!.id, true);
+
+      sendSuccess(res, { ...await find(item.id), hasUpvoted: true }, 'Upvote recorded successfully');
+    })
+  );
+
+  // Take back an upvote
+  router.delete(`${path}/upvote`,
+    authenticateToken,
+    [idParam],
+    validateRequest,
+    asyncHandler(async (req, res) => {
+      const item = await find(req.params.id);
+
+      if (!item || item.status !== 'published') {
+        return res.status(404).json({ error: notFound });
+      }
+
+      await upvoteQa(target, item, req.user!.id, false);
+
+      sendSuccess(res, { ...await find(item.id), hasUpvoted: false }, 'Upvote removed successfully');
+    })
+  );
+
+  // Report as abusive, spam or off-topic
+  router.post(`${path}/reports`,
+    authenticateToken,
+    [
+      idParam,
+      body('reason')
+        .isString()
+        .trim()
+        .isLength({ min: 3, max: 500 })
+        .withMessage('Reason must be between 3 and 500 characters'),
+    ],
+    validateRequest,
+    asyncHandler(async (req, res) => {
+      const item = await find(req.params.id);
+
+      if (!item || item.status !== 'published') {
+        return res.status(404).json({ error: notFound });
+      }
+
+      await reportQa(target, item, req.user!.id, req.body.reason);
+
+      sendSuccess(res, null, 'Report submitted successfully', 201);
+    })
+  );
+
+  // Get the reports (admin only)
+  router.get(`${path}/reports`,
+    authenticateToken,
+    requireRole(['admin']),
+    [idParam],
+    validateRequest,
+    asyncHandler(async (req, res) => {
+      const item = await find(req.params.id);
+
+      if (!item) {
+        return res.status(404).json({ error: notFound });
+      }
+
+      const reports = await ProductQuestionsRepo.listReports(target, item.id);
+
+      sendSuccess(res, reports, 'Reports retrieved successfully');
+    })
+  );
+
+  // Publish or hide, resolving the reports (admin only)
+  router.patch(`${path}/moderation`,
+    authenticateToken,
+    requireRole(['admin']),
+    [
+      idParam,
+      body('status')
+        .isIn(['published', 'hidden'])
+        .withMessage('Status must be published or hidden'),
+      body('note')
+        .optional()
+        .isLength({ max: 500 })
+        .withMessage('Note must be less than 500 characters'),
+    ],
+    validateRequest,
+    asyncHandler(async (req, res) => {
+      const item = await find(req.params.id);
+
+      if (!item) {
+        return res.status(404).json({ error: notFound });
+      }
+
+      await moderateQa(target, item, {
+        actorId: req.user!.id,
+        status: req.body.status,
+        note: req.body.note
+      });
+
+      sendSuccess(res, await find(item.id), 'Moderation saved successfully');
+    })
+  );
+
+  // Delete (author or admin only)
+  router.delete(path,
+    authenticateToken,
+    [idParam],
+    validateRequest,
+    asyncHandler(async (req, res) => {
+      const item = await find(req.params.id);
+
+      if (!item) {
+        return res.status(404).json({ error: notFound });
+      }
+
+      if (req.user!.id !== item.userId && !await isAdminActing(req)) {
+        return res.status(403).json({ error: `Not authorized to delete this ${target}` });
+      }
+
+      await deleteQa(target, item);
+
+      sendSuccess(res, null, `${label} deleted successfully`);
+    })
+  );
+}
+
+export default router;
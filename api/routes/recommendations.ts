@@ -0,0 +1,37 @@
+import express from 'express';
+import { query } from 'express-validator';
+import { authenticateToken, requireRole } from '../middleware/auth.js';
+import { validateRequest, asyncHandler, sendSuccess } from '../middleware/errorHandler.js';
+import { getRecommendationsForUser, refreshRecommendations } from '../services/recommendations.js';
+
+const router = express.Router();
+
+// Suggestions for the signed-in user from their purchases, wishlist and study routes
+router.get('/me',
+  authenticateToken,
+  [
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 24 })
+      .withMessage('Limit must be between 1 and 24'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const recommendations = await getRecommendationsForUser(req.user!.id, Number(req.query.limit ?? 8));
+
+    sendSuccess(res, recommendations, 'Recommendations retrieved successfully');
+  })
+);
+
+// Rebuild the stored recommendations now instead of waiting for the next run (admin only)
+router.post('/refresh',
+  authenticateToken,
+  requireRole(['admin']),
+  asyncHandler(async (req, res) => {
+    const refreshed = await refreshRecommendations();
+
+    sendSuccess(res, refreshed, 'Recommendations refreshed successfully');
+  })
+);
+
+export default router;
@@ -0,0 +1,255 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { authenticateToken, isAdminActing, requireRole } from '../middleware/auth.js';
+import { validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse } from '../middleware/errorHandler.js';
+import { ProductReviewsRepo, ProductsRepo, ReviewSort } from '../repositories/index.js';
+import { deleteReview, moderateReview, reportReview, voteOnReview } from '../services/reviews.js';
+import { ReviewStatus } from '../types.js';
+
+const router = express.Router();
+
+const reviewIdParam = param('id')
+  .isUUID()
+  .withMessage('Invalid review ID');
+
+// Moderation queue (admin only): flagged reviews, or any with open reports
+router.get('/',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    query('status')
+      .optional()
+      .isIn(['published', 'flagged', 'hidden'])
+      .withMessage('Invalid review status'),
+    query('reported')
+      .optional()
+      .isBoolean()
+      .withMessage('reported must be a boolean'),
+    query('product_id')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    query('sort')
+      .optional()
+      .isIn(['newest', 'helpful', 'rating_high', 'rating_low'])
+      .withMessage('Invalid sort option'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { status, reported, product_id, sort = 'newest', page = 1, limit = 20 } = req.query;
+
+    const reviews = await ProductReviewsRepo.list(
+      {
+        status: status as ReviewStatus | undefined,
+        reportedOnly: reported === 'true',
+        productId: product_id as string | undefined,
+        sort: sort as ReviewSort
+      },
+      { page: Number(page), limit: Number(limit) }
+    );
+
+    sendPaginatedResponse(res, reviews.items, reviews.total, reviews.page, reviews.limit, 'Reviews retrieved successfully');
+  })
+);
+
+// Get the reports against a review (admin only)
+router.get('/:id/reports',
+  authenticateToken,
+  requireRole(['admin']),
+  [reviewIdParam],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const review = await ProductReviewsRepo.findById(req.params.id);
+
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    const reports = await ProductReviewsRepo.listReports(review.id);
+
+    sendSuccess(res, reports, 'Review reports retrieved successfully');
+  })
+);
+
+// Publish or hide a review, resolving its reports (admin only)
+router.patch('/:id/moderation',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    reviewIdParam,
+    body('status')
+      .isIn(['published', 'hidden'])
+      .withMessage('Status must be published or hidden'),
+    body('note')
+      .optional()
+      .isLength({ max: 500 })
+      .withMessage('Note must be less than 500 characters'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const review = await ProductReviewsRepo.findById(req.params.id);
+
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    const moderated = await moderateReview(review, {
+      actorId: req.user!.id,
+      status: req.body.status,
+      note: req.body.note
+    });
+
+    sendSuccess(res, moderated, 'Review moderated successfully');
+  })
+);
+
+// Reply to a review of one of your products (seller or admin only)
+router.put('/:id/reply',
+  authenticateToken,
+  [
+    reviewIdParam,
+    body('reply')
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 1000 })
+      .withMessage('Reply must be between 1 and 1000 characters'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const review = await ProductReviewsRepo.findById(req.params.id);
+
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    const product = await ProductsRepo.findById(review.productId, { includeInactive: true });
+    if (req.user!.id !== product?.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to reply to this review' });
+    }
+
+    const updated = await ProductReviewsRepo.setReply(review.id, req.body.reply);
+
+    sendSuccess(res, updated, 'Reply saved successfully');
+  })
+);
+
+// Remove the seller's reply (seller or admin only)
+router.delete('/:id/reply',
+  authenticateToken,
+  [reviewIdParam],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const review = await ProductReviewsRepo.findById(req.params.id);
+
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    const product = await ProductsRepo.findById(review.productId, { includeInactive: true });
+    if (req.user!.id !== product?.sellerId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to reply to this review' });
+    }
+
+    const updated = await ProductReviewsRepo.setReply(review.id, null);
+
+    sendSuccess(res, updated, 'Reply removed successfully');
+  })
+);
+
+// Say whether a review was helpful; voting again changes the vote
+router.put('/:id/vote',
+  authenticateToken,
+  [
+    reviewIdParam,
+    body('vote')
+      .isIn(['helpful', 'not_helpful'])
+      .withMessage('Vote must be helpful or not_helpful'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const review = await ProductReviewsRepo.findById(req.params.id);
+
+    if (!review || review.status !== 'published') {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    const updated = await voteOnReview(review, req.user!.id, req.body.vote);
+
+    sendSuccess(res, { ...updated, myVote: req.body.vote }, 'Vote recorded successfully');
+  })
+);
+
+// Take back a helpfulness vote
+router.delete('/:id/vote',
+  authenticateToken,
+  [reviewIdParam],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const review = await ProductReviewsRepo.findById(req.params.id);
+
+    if (!review || review.status !== 'published') {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    const updated = await voteOnReview(review, req.user!.id, null);
+
+    sendSuccess(res, updated, 'Vote removed successfully');
+  })
+);
+
+// Report a review as abusive, spam or off-topic
+router.post('/:id/reports',
+  authenticateToken,
+  [
+    reviewIdParam,
+    body('reason')
+      .isString()
+      .trim()
+      .isLength({ min: 3, max: 500 })
+      .withMessage('Reason must be between 3 and 500 characters'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const review = await ProductReviewsRepo.findById(req.params.id);
+
+    if (!review || review.status !== 'published') {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    await reportReview(review, req.user!.id, req.body.reason);
+
+    sendSuccess(res, null, 'Review reported successfully', 201);
+  })
+);
+
+// Delete a review (author or admin only)
+router.delete('/:id',
+  authenticateToken,
+  [reviewIdParam],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const review = await ProductReviewsRepo.findById(req.params.id);
+
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+
+    if (req.user!.id !== review.userId && !await isAdminActing(req)) {
+      return res.status(403).json({ error: 'Not authorized to delete this review' });
+    }
+
+    await deleteReview(review);
+
+    sendSuccess(res, null, 'Review deleted successfully');
+  })
+);
+
+export default router;
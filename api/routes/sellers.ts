@@ -0,0 +1,308 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { authenticateToken, requireRole } from '../middleware/auth.js';
+import { validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse } from '../middleware/errorHandler.js';
+import { SellerLedgerRepo, SellerOrdersRepo, SellerPayoutsRepo, UsersRepo } from '../repositories/index.js';
+import {
+  AnalyticsReport, exportSellerAnalytics, getSellerAnalytics, getStorefront, resolveAnalyticsRange
+} from '../services/sellerAnalytics.js';
+import { createPayoutBatch, getSellerEarnings, settlePayout } from '../services/sellerLedger.js';
+import { changeSellerOrderStatus, loadSellerOrder } from '../services/sellerOrders.js';
+import { AnalyticsInterval, LedgerEntryType, PayoutStatus } from '../types.js';
+
+const router = express.Router();
+
+const paginationValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+];
+
+const analyticsValidation = [
+  query('start_date')
+    .optional()
+    .isString()
+    .isISO8601({ strict: true })
+    .withMessage('Invalid start date'),
+  query('end_date')
+    .optional()
+    .isString()
+    .isISO8601({ strict: true })
+    .withMessage('Invalid end date'),
+  query('interval')
+    .optional()
+    .isIn(['day', 'week', 'month'])
+    .withMessage('Interval must be day, week or month'),
+];
+
+const analyticsRangeOf = (req: express.Request) =>
+  resolveAnalyticsRange({
+    startDate: req.query.start_date as string | undefined,
+    endDate: req.query.end_date as string | undefined,
+    interval: req.query.interval as AnalyticsInterval | undefined
+  });
+
+// Get the signed-in seller's parts of orders
+router.get('/me/orders',
+  authenticateToken,
+  [
+    query('status')
+      .optional()
+      .isIn(['pending', 'processing', 'shipped', 'delivered', 'cancelled'])
+      .withMessage('Invalid order status'),
+    ...paginationValidation,
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { status, page = 1, limit = 20 } = req.query;
+
+    const sellerOrders = await SellerOrdersRepo.list(
+      { sellerId: req.user!.id, status: status as string | undefined },
+      { page: Number(page), limit: Number(limit) }
+    );
+
+    sendPaginatedResponse(res, sellerOrders.items, sellerOrders.total, sellerOrders.page, sellerOrders.limit, 'Seller orders retrieved successfully');
+  })
+);
+
+// Get one of the seller's orders with its items
+router.get('/me/orders/:id',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid seller order ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const sellerOrder = await loadSellerOrder(req.params.id);
+
+    if (!sellerOrder || sellerOrder.sellerId !== req.user!.id) {
+      return res.status(404).json({ error: 'Seller order not found' });
+    }
+
+    sendSuccess(res, sellerOrder, 'Seller order retrieved successfully');
+  })
+);
+
+// Move the seller's part of an order forward (processing, shipped, delivered)
+router.patch('/me/orders/:id/status',
+  authenticateToken,
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid seller order ID'),
+    body('status')
+      .isIn(['processing', 'shipped', 'delivered'])
+      .withMessage('Invalid order status'),
+    body('tracking_number')
+      .optional()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Tracking number must be between 1 and 100 characters'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const existing = await SellerOrdersRepo.findById(req.params.id);
+
+    if (!existing || existing.sellerId !== req.user!.id) {
+      return res.status(404).json({ error: 'Seller order not found' });
+    }
+
+    const sellerOrder = await changeSellerOrderStatus(existing.id, req.body.status, {
+      actorId: req.user!.id,
+      trackingNumber: req.body.tracking_number
+    });
+
+    sendSuccess(res, sellerOrder, 'Seller order status updated successfully');
+  })
+);
+
+// Get the signed-in seller's earnings summary
+router.get('/me/earnings',
+  authenticateToken,
+  asyncHandler(async (req, res) => {
+    const earnings = await getSellerEarnings(req.user!.id);
+
+    sendSuccess(res, earnings, 'Earnings retrieved successfully');
+  })
+);
+
+// Get the signed-in seller's sales analytics: revenue over time, views to
+// orders conversion, refunds and top products (last 30 days by default)
+router.get('/me/analytics',
+  authenticateToken,
+  analyticsValidation,
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const analytics = await getSellerAnalytics(req.user!.id, analyticsRangeOf(req));
+
+    sendSuccess(res, analytics, 'Analytics retrieved successfully');
+  })
+);
+
+// Download the signed-in seller's revenue per interval or product performance as CSV
+router.get('/me/analytics/export',
+  authenticateToken,
+  [
+    ...analyticsValidation,
+    query('report')
+      .optional()
+      .isIn(['revenue', 'products'])
+      .withMessage('Report must be revenue or products'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const range = analyticsRangeOf(req);
+    const report = (req.query.report as AnalyticsReport | undefined) ?? 'revenue';
+
+    const csv = await exportSellerAnalytics(req.user!.id, range, report);
+
+    res.attachment(`${report}-${range.startDate}-${range.endDate}.csv`).type('text/csv').send(csv);
+  })
+);
+
+// Get the signed-in seller's ledger entries, newest first
+router.get('/me/earnings/entries',
+  authenticateToken,
+  [
+    query('type')
+      .optional()
+      .isIn(['sale', 'commission', 'refund', 'commission_reversal', 'payout', 'payout_reversal'])
+      .withMessage('Invalid ledger entry type'),
+    ...paginationValidation,
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { type, page = 1, limit = 20 } = req.query;
+
+    const entries = await SellerLedgerRepo.list(
+      req.user!.id,
+      { type: type as LedgerEntryType | undefined },
+      { page: Number(page), limit: Number(limit) }
+    );
+
+    sendPaginatedResponse(res, entries.items, entries.total, entries.page, entries.limit, 'Ledger entries retrieved successfully');
+  })
+);
+
+// Get the signed-in seller's payouts
+router.get('/me/payouts',
+  authenticateToken,
+  [
+    query('status')
+      .optional()
+      .isIn(['pending', 'paid', 'failed'])
+      .withMessage('Invalid payout status'),
+    ...paginationValidation,
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { status, page = 1, limit = 20 } = req.query;
+
+    const payouts = await SellerPayoutsRepo.list(
+      { sellerId: req.user!.id, status: status as PayoutStatus | undefined },
+      { page: Number(page), limit: Number(limit) }
+    );
+
+    sendPaginatedResponse(res, payouts.items, payouts.total, payouts.page, payouts.limit, 'Payouts retrieved successfully');
+  })
+);
+
+// Get a seller's public storefront: profile, catalog totals and featured products
+router.get('/:sellerId/storefront',
+  [
+    param('sellerId')
+      .isUUID()
+      .withMessage('Invalid seller ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const seller = await UsersRepo.findProfile(req.params.sellerId);
+
+    if (!seller) {
+      return res.status(404).json({ error: 'Seller not found' });
+    }
+
+    const storefront = await getStorefront(seller);
+
+    sendSuccess(res, storefront, 'Storefront retrieved successfully');
+  })
+);
+
+// Pay out every seller's available balance (admin only)
+router.post('/payouts/batches',
+  authenticateToken,
+  requireRole(['admin']),
+  asyncHandler(async (req, res) => {
+    const batch = await createPayoutBatch(req.user!.id);
+
+    sendSuccess(res, batch, `Payout batch created with ${batch.payouts.length} payout(s)`, 201);
+  })
+);
+
+// Get all payouts (admin only)
+router.get('/payouts',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    query('status')
+      .optional()
+      .isIn(['pending', 'paid', 'failed'])
+      .withMessage('Invalid payout status'),
+    query('seller_id')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid seller ID'),
+    query('batch_id')
+      .optional()
+      .isUUID()
+      .withMessage('Invalid batch ID'),
+    ...paginationValidation,
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const { status, seller_id, batch_id, page = 1, limit = 20 } = req.query;
+
+    const payouts = await SellerPayoutsRepo.list(
+      {
+        status: status as PayoutStatus | undefined,
+        sellerId: seller_id as string | undefined,
+        batchId: batch_id as string | undefined
+      },
+      { page: Number(page), limit: Number(limit) }
+    );
+
+    sendPaginatedResponse(res, payouts.items, payouts.total, payouts.page, payouts.limit, 'Payouts retrieved successfully');
+  })
+);
+
+// Record the outcome of a payout (admin only)
+router.patch('/payouts/:id',
+  authenticateToken,
+  requireRole(['admin']),
+  [
+    param('id')
+      .isUUID()
+      .withMessage('Invalid payout ID'),
+    body('status')
+      .isIn(['paid', 'failed'])
+      .withMessage('Status must be paid or failed'),
+    body('reference')
+      .optional()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Reference must be between 1 and 200 characters'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const payout = await settlePayout(req.params.id, req.body.status, req.body.reference);
+
+    sendSuccess(res, payout, 'Payout updated successfully');
+  })
+);
+
+export default router;
@@ -1,8 +1,9 @@
 import express from 'express';
 import { body, param, query } from 'express-validator';
-import { authenticateToken, requireRole } from '../middleware/auth.js';
+import { authenticateToken, isAdminActing, requireRole } from '../middleware/auth.js';
 import { validateRequest, asyncHandler, sendSuccess, sendPaginatedResponse } from '../middleware/errorHandler.js';
-import { query as dbQuery } from '../config/database.js';
+import { query as dbQuery, dialect } from '../config/database.js';
+import { toInteger, toNumber } from '../repositories/index.js';
 import { StudyRoute } from '../types.js';
 
 const router = express.Router();
@@ -77,9 +78,9 @@ router.get('/',
 
     if (search) {
       whereConditions.push(`(
-        sr.title ILIKE $${paramIndex} OR 
-        sr.description ILIKE $${paramIndex} OR 
-        sr.tags::text ILIKE $${paramIndex}
+        ${dialect.ilike('sr.title', `$${paramIndex}`)} OR 
+        ${dialect.ilike('sr.description', `$${paramIndex}`)} OR 
+        ${dialect.ilike(dialect.jsonText('sr.tags'), `$${paramIndex}`)}
       )`);
       queryParams.push(`%${search}%`);
       paramIndex++;
@@ -112,7 +113,7 @@ router.get('/',
        ${whereClause} AND u.is_active = true`,
       queryParams
     );
-    const total = parseInt(countResult.rows[0].total);
+    const total = toInteger(countResult.rows[0].total);
 
     // Get study routes
     const result = await dbQuery(
@@ -139,7 +140,7 @@ router.get('/',
       is_premium: row.is_premium,
       price: row.price,
       estimated_duration: row.estimated_duration,
-      rating: parseFloat(row.rating) || 0,
+      rating: toNumber(row.rating),
       enrollment_count: row.enrollment_count,
       thumbnail_url: row.thumbnail_url,
       tags: row.tags,
@@ -197,7 +198,7 @@ router.get('/:id',
       is_premium: row.is_premium,
       price: row.price,
       estimated_duration: row.estimated_duration,
-      rating: parseFloat(row.rating) || 0,
+      rating: toNumber(row.rating),
       enrollment_count: row.enrollment_count,
       thumbnail_url: row.thumbnail_url,
       tags: row.tags,
@@ -371,7 +372,6 @@ router.put('/:id',
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const userId = req.user!.id;
-    const userRole = req.user!.role;
 
     // Check if study route exists and user has permission
     const existingResult = await dbQuery(
@@ -384,7 +384,7 @@ router.put('/:id',
     }
 
     const instructorId = existingResult.rows[0].instructor_id;
-    if (userRole !== 'admin' && userId !== instructorId) {
+    if (userId !== instructorId && !await isAdminActing(req)) {
       return res.status(403).json({ error: 'Not authorized to update this study route' });
     }
 
@@ -446,7 +446,6 @@ router.delete('/:id',
   asyncHandler(async (req, res) => {
     const { id } = req.params;
     const userId = req.user!.id;
-    const userRole = req.user!.role;
 
     // Check if study route exists and user has permission
     const existingResult = await dbQuery(
@@ -459,7 +458,7 @@ router.delete('/:id',
     }
 
     const instructorId = existingResult.rows[0].instructor_id;
-    if (userRole !== 'admin' && userId !== instructorId) {
+    if (userId !== instructorId && !await isAdminActing(req)) {
       return res.status(403).json({ error: 'Not authorized to delete this study route' });
     }
 
@@ -515,7 +514,7 @@ router.post('/:id/enroll',
 
     // Check if premium route and user has subscription
     if (studyRoute.is_premium) {
-      const userResult = await dbQuery(
+      const userResult = await dbQuery<{ subscription_type: string; subscription_expires_at: string }>(
         'SELECT subscription_type, subscription_expires_at FROM users WHERE id = $1',
         [userId]
       );
@@ -583,7 +582,7 @@ router.delete('/:id/enroll',
 
     // Update enrollment count
     await dbQuery(
-      'UPDATE study_routes SET enrollment_count = GREATEST(enrollment_count - 1, 0) WHERE id = $1',
+      `UPDATE study_routes SET enrollment_count = ${dialect.greatest('enrollment_count - 1', '0')} WHERE id = $1`,
       [id]
     );
 
@@ -618,7 +617,7 @@ router.get('/user/enrolled',
        WHERE ue.user_id = $1 AND sr.is_active = true`,
       [userId]
     );
-    const total = parseInt(countResult.rows[0].total);
+    const total = toInteger(countResult.rows[0].total);
 
     // Get enrolled study routes
     const result = await dbQuery(
@@ -647,7 +646,7 @@ router.get('/user/enrolled',
       is_premium: row.is_premium,
       price: row.price,
       estimated_duration: row.estimated_duration,
-      rating: parseFloat(row.rating) || 0,
+      rating: toNumber(row.rating),
       enrollment_count: row.enrollment_count,
       thumbnail_url: row.thumbnail_url,
       tags: row.tags,
@@ -688,7 +687,7 @@ router.patch('/:id/progress',
     const userId = req.user!.id;
 
     // Check if enrolled
-    const enrollmentResult = await dbQuery(
+    const enrollmentResult = await dbQuery<{ id: string; progress: number }>(
       'SELECT id, progress FROM user_enrollments WHERE user_id = $1 AND study_route_id = $2',
       [userId, id]
     );
@@ -782,7 +781,7 @@ router.post('/:id/rate',
       [id]
     );
 
-    const avgRating = parseFloat(avgResult.rows[0].avg_rating) || 0;
+    const avgRating = toNumber(avgResult.rows[0].avg_rating);
 
     await dbQuery(
       'UPDATE study_routes SET rating = $1 WHERE id = $2',
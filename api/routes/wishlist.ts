@@ -0,0 +1,115 @@
+import express from 'express';
+import { body, param } from 'express-validator';
+import { authenticateToken } from '../middleware/auth.js';
+import { validateRequest, asyncHandler, sendSuccess } from '../middleware/errorHandler.js';
+import { ProductsRepo, WishlistsRepo } from '../repositories/index.js';
+import { WishlistItem } from '../types.js';
+
+const router = express.Router();
+
+// Get the signed-in user's wishlist. Products taken off sale stay listed
+// (with isActive false) so the user can see what happened to them.
+router.get('/',
+  authenticateToken,
+  asyncHandler(async (req, res) => {
+    const entries = await WishlistsRepo.listByUser(req.user!.id);
+    const products = await ProductsRepo.findByIds(entries.map(entry => entry.productId));
+
+    const items: WishlistItem[] = entries.flatMap(entry => {
+      const product = products.find(candidate => candidate.id === entry.productId);
+      return product ? [{ product, addedAt: entry.createdAt, priceAlert: entry.priceAlert }] : [];
+    });
+
+    sendSuccess(res, items, 'Wishlist retrieved successfully');
+  })
+);
+
+// Add a product to the wishlist (adding it twice is not an error)
+router.post('/',
+  authenticateToken,
+  [
+    body('product_id')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const product = await ProductsRepo.findById(req.body.product_id);
+
+    if (!product) {
+      return res.status(404).json({ error: 'Product not found' });
+    }
+
+    const added = await WishlistsRepo.add(req.user!.id, product.id);
+
+    sendSuccess(
+      res,
+      { product, added },
+      added ? 'Product added to wishlist' : 'Product is already in the wishlist',
+      added ? 201 : 200
+    );
+  })
+);
+
+// Remove a product from the wishlist
+router.delete('/:productId',
+  authenticateToken,
+  [
+    param('productId')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    if (!await WishlistsRepo.remove(req.user!.id, req.params.productId)) {
+      return res.status(404).json({ error: 'Product is not in the wishlist' });
+    }
+
+    sendSuccess(res, null, 'Product removed from wishlist');
+  })
+);
+
+// Ask for a notification when the price of a wishlisted product drops,
+// optionally only to or below target_price. Setting it again replaces it.
+router.put('/:productId/price-alert',
+  authenticateToken,
+  [
+    param('productId')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+    body('target_price')
+      .optional({ values: 'null' })
+      .isFloat({ min: 0 })
+      .withMessage('Target price must be a positive number'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    const targetPrice = req.body.target_price ?? null;
+
+    if (!await WishlistsRepo.setPriceAlert(req.user!.id, req.params.productId, targetPrice === null ? null : Number(targetPrice))) {
+      return res.status(404).json({ error: 'Product is not in the wishlist' });
+    }
+
+    sendSuccess(res, { targetPrice: targetPrice ?? undefined }, 'Price alert saved');
+  })
+);
+
+// Stop price-drop notifications for a wishlisted product
+router.delete('/:productId/price-alert',
+  authenticateToken,
+  [
+    param('productId')
+      .isUUID()
+      .withMessage('Invalid product ID'),
+  ],
+  validateRequest,
+  asyncHandler(async (req, res) => {
+    if (!await WishlistsRepo.clearPriceAlert(req.user!.id, req.params.productId)) {
+      return res.status(404).json({ error: 'No price alert for this product' });
+    }
+
+    sendSuccess(res, null, 'Price alert removed');
+  })
+);
+
+export default router;
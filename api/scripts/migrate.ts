@@ -0,0 +1,79 @@
+/**
+ * Schema migration CLI
+ *
+ *   node api/dist/scripts/migrate.js up [targetVersion]
+ *   node api/dist/scripts/migrate.js down [steps]
+ *   node api/dist/scripts/migrate.js status
+ */
+import { closeDatabase } from '../config/database.js';
+import {
+  getMigrationStatus,
+  migrateUp,
+  migrateDown,
+  formatMigration
+} from '../config/migrations.js';
+
+const usage = 'Usage: migrate <up [targetVersion] | down [steps] | status>';
+
+const parsePositiveInt = (value: string | undefined, label: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive integer`);
+  }
+  return parsed;
+};
+
+const printStatus = async () => {
+  const status = await getMigrationStatus();
+
+  console.log(`Current version: ${status.currentVersion}`);
+  console.log(`Latest version:  ${status.latestVersion}`);
+
+  for (const migration of status.applied) {
+    console.log(`  [x] ${formatMigration(migration)} (applied ${migration.applied_at})`);
+  }
+  for (const migration of status.pending) {
+    console.log(`  [ ] ${formatMigration(migration)}`);
+  }
+  for (const migration of status.unknown) {
+    console.log(`  [?] ${formatMigration(migration)} (not present in this build)`);
+  }
+
+  return status.pending.length;
+};
+
+const run = async () => {
+  const [command, arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp(parsePositiveInt(arg, 'Target version'));
+      console.log(applied.length > 0
+        ? `✅ Applied ${applied.length} migration(s)`
+        : '✅ Database schema is already up to date');
+      break;
+    }
+    case 'down': {
+      const reverted = await migrateDown(parsePositiveInt(arg, 'Steps') ?? 1);
+      console.log(`✅ Reverted ${reverted.length} migration(s)`);
+      break;
+    }
+    case 'status': {
+      const pending = await printStatus();
+      // Non-zero exit lets deploy scripts detect an outdated schema
+      process.exitCode = pending > 0 ? 1 : 0;
+      break;
+    }
+    default:
+      console.error(usage);
+      process.exitCode = 1;
+  }
+};
+
+run()
+  .catch((error) => {
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
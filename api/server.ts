@@ -1,42 +1,19 @@
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import morgan from 'morgan';
-import compression from 'compression';
-import rateLimit from 'express-rate-limit';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
-import dotenv from 'dotenv';
-import path from 'path';
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
-
-// ES module __dirname equivalent
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-// Import routes
-import authRoutes from './routes/auth.js';
-import userRoutes from './routes/users.js';
-import postRoutes from './routes/posts.js';
-import messageRoutes from './routes/messages.js';
-import studyRouteRoutes from './routes/studyRoutes.js';
-import productRoutes from './routes/products.js';
-import orderRoutes from './routes/orders.js';
-import dashboardRoutes from './routes/dashboard.js';
-import atticObjectRoutes from './routes/atticObjects.js';
-
-// Import middleware
-import { errorHandler } from './middleware/errorHandler.js';
-import { authenticateToken } from './middleware/auth.js';
+import app from './app.js';
 
 // Import socket handlers
 import { setupSocketHandlers } from './socket/handlers.js';
+import { attachNotificationSocket } from './services/notifications.js';
 
-// Load environment variables
-dotenv.config();
+// Import schema migrations
+import { assertSchemaUpToDate, migrateUp } from './config/migrations.js';
+
+// Import background jobs
+import { startReservationSweeper } from './services/orderLifecycle.js';
+import { startRecommendationRefresher } from './services/recommendations.js';
+import { startSaleScheduler } from './services/pricing.js';
 
-const app = express();
 const server = createServer(app);
 const io = new Server(server, {
   cors: {
@@ -48,87 +25,31 @@ const io = new Server(server, {
 
 const PORT = process.env.PORT || 3001;
 
-// Rate limiting
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later.',
-  standardHeaders: true,
-  legacyHeaders: false
-});
-
-// Middleware
-app.use(helmet({
-  crossOriginEmbedderPolicy: false,
-  contentSecurityPolicy: {
-    directives: {
-      defaultSrc: ["'self'"],
-      styleSrc: ["'self'", "'unsafe-inline'"],
-      scriptSrc: ["'self'"],
-      imgSrc: ["'self'", "data:", "https:"],
-      connectSrc: ["'self'", "ws:", "wss:"],
-    },
-  },
-}));
-
-app.use(cors({
-  origin: process.env.FRONTEND_URL || 'http://localhost:5173',
-  credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
-}));
-
-app.use(compression());
-app.use(morgan('combined'));
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
-app.use(limiter);
-
-// Serve static files
-app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
-
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.status(200).json({
-    success: true,
-    message: 'Desván Digital API is running',
-    timestamp: new Date().toISOString(),
-    version: '1.0.0'
-  });
-});
-
-// API routes
-app.use('/api/auth', authRoutes);
-app.use('/api/users', userRoutes);
-app.use('/api/posts', postRoutes);
-app.use('/api/messages', messageRoutes);
-app.use('/api/study-routes', studyRouteRoutes);
-app.use('/api/products', productRoutes);
-app.use('/api/orders', orderRoutes);
-app.use('/api/dashboard', dashboardRoutes);
-app.use('/api/attic-objects', atticObjectRoutes);
-
-// 404 handler
-app.use((req, res) => {
-  res.status(404).json({
-    success: false,
-    message: 'Route not found',
-    path: req.originalUrl
-  });
-});
-
-// Error handling middleware
-app.use(errorHandler);
-
 // Setup Socket.IO handlers
 setupSocketHandlers(io);
+attachNotificationSocket(io);
+
+// Start server once the database schema matches the code
+const startServer = async () => {
+  if (process.env.DB_AUTO_MIGRATE === 'true') {
+    await migrateUp();
+  }
+  await assertSchemaUpToDate();
+  startReservationSweeper();
+  startRecommendationRefresher();
+  startSaleScheduler();
+
+  server.listen(PORT, () => {
+    console.log(`🚀 Desván Digital API server running on port ${PORT}`);
+    console.log(`📱 Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:5173'}`);
+    console.log(`🔗 API URL: http://localhost:${PORT}`);
+    console.log(`📊 Health check: http://localhost:${PORT}/health`);
+  });
+};
 
-// Start server
-server.listen(PORT, () => {
-  console.log(`🚀 Desván Digital API server running on port ${PORT}`);
-  console.log(`📱 Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:5173'}`);
-  console.log(`🔗 API URL: http://localhost:${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/health`);
+startServer().catch((error) => {
+  console.error('❌ Failed to start server:', error instanceof Error ? error.message : error);
+  process.exit(1);
 });
 
 // Graceful shutdown
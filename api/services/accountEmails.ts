@@ -0,0 +1,166 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { transaction } from '../config/database.js';
+import { ConflictError, CustomValidationError } from '../middleware/errorHandler.js';
+import { AccountTokenPurpose, AccountTokensRepo, UsersRepo } from '../repositories/index.js';
+import { User } from '../types.js';
+import { endAllSessions } from './authSessions.js';
+import { sendMail } from './mail/index.js';
+
+const DEFAULT_EMAIL_VERIFICATION_TTL_HOURS = 48;
+const DEFAULT_PASSWORD_RESET_TTL_MINUTES = 60;
+const ACCOUNT_UNLOCK_TTL_MS = 24 * 60 * 60_000;
+
+const INVALID_TOKEN_MESSAGES: Record<AccountTokenPurpose, string> = {
+  email_verification: 'Invalid or expired verification link',
+  password_reset: 'Invalid or expired password reset link',
+  account_unlock: 'Invalid or expired unlock link'
+};
+
+const getTokenSecret = () => {
+  const secret = process.env.ACCOUNT_TOKEN_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('ACCOUNT_TOKEN_SECRET not configured');
+  }
+  return secret;
+};
+
+const getVerificationTtlMs = () => {
+  const hours = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS);
+  return (hours > 0 ? hours : DEFAULT_EMAIL_VERIFICATION_TTL_HOURS) * 60 * 60_000;
+};
+
+const getPasswordResetTtlMs = () => {
+  const minutes = Number(process.env.PASSWORD_RESET_TTL_MINUTES);
+  return (minutes > 0 ? minutes : DEFAULT_PASSWORD_RESET_TTL_MINUTES) * 60_000;
+};
+
+const getFrontendUrl = () => (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+
+const sign = (id: string, purpose: AccountTokenPurpose) =>
+  createHmac('sha256', getTokenSecret()).update(`${purpose}.${id}`).digest('base64url');
+
+// Stores a token and returns what goes in the link: its id and signature.
+// Any earlier link for the same purpose stops working.
+const issueToken = (userId: string, purpose: AccountTokenPurpose, ttlMs: number): Promise<string> =>
+  transaction(async () => {
+    await AccountTokensRepo.discardUnused(userId, purpose);
+    const token = await AccountTokensRepo.create(userId, purpose, new Date(Date.now() + ttlMs).toISOString());
+    return `${token.id}.${sign(token.id, purpose)}`;
+  });
+
+// Checks a token from a link and uses it up, returning whose it is. Every
+// failure reads the same, so links cannot be probed.
+const consumeToken = async (value: string, purpose: AccountTokenPurpose): Promise<string> => {
+  const invalid = new CustomValidationError(INVALID_TOKEN_MESSAGES[purpose]);
+  const [id, signature] = value.split('.');
+  if (!id || !signature) throw invalid;
+
+  const expected = Buffer.from(sign(id, purpose));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) throw invalid;
+
+  const token = await AccountTokensRepo.findById(id);
+  if (!token || token.purpose !== purpose || token.usedAt || token.expiresAt <= new Date().toISOString()) {
+    throw invalid;
+  }
+  if (!await AccountTokensRepo.markUsed(token.id)) throw invalid;
+
+  return token.userId;
+};
+
+// Mails the user a link that confirms their address
+export const sendVerificationEmail = async (user: User): Promise<void> => {
+  if (user.emailVerified) {
+    throw new ConflictError('Email is already verified');
+  }
+
+  const token = await issueToken(user.id, 'email_verification', getVerificationTtlMs());
+  const link = `${getFrontendUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+  const hours = Math.round(getVerificationTtlMs() / (60 * 60_000));
+
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm your email address',
+    text: [
+      `Hi ${user.full_name || user.username},`,
+      '',
+      'Confirm your email address by opening this link:',
+      link,
+      '',
+      `The link works once and expires in ${hours} hours. If you did not create an account, ignore this email.`
+    ].join('\n')
+  });
+};
+
+export const verifyEmail = (token: string): Promise<User> =>
+  transaction(async () => {
+    const userId = await consumeToken(token, 'email_verification');
+    return (await UsersRepo.setEmailVerified(userId))!;
+  });
+
+// Mails a reset link when the address belongs to an active account. Nothing
+// tells the caller whether it did, so addresses cannot be checked for
+// accounts this way.
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const user = await UsersRepo.findByEmail(email);
+  if (!user || !user.isActive) return;
+
+  const token = await issueToken(user.id, 'password_reset', getPasswordResetTtlMs());
+  const link = `${getFrontendUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+  const minutes = Math.round(getPasswordResetTtlMs() / 60_000);
+
+  try {
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.full_name || user.username},`,
+        '',
+        'Someone asked to reset the password of your account. Choose a new one here:',
+        link,
+        '',
+        `The link works once and expires in ${minutes} minutes. If it was not you, ignore this email; your password stays the same.`
+      ].join('\n')
+    });
+  } catch (error) {
+    console.error('Failed to send password reset email:', error);
+  }
+};
+
+// Sets the new password and signs the account out everywhere. Following the
+// link also proves the user reads that mailbox, so the address counts as verified.
+export const resetPassword = (token: string, passwordHash: string): Promise<User> =>
+  transaction(async () => {
+    const userId = await consumeToken(token, 'password_reset');
+    await UsersRepo.updatePassword(userId, passwordHash);
+    const user = await UsersRepo.setEmailVerified(userId);
+    await endAllSessions(userId, 'password_change');
+    return user!;
+  });
+
+// Tells the owner of a locked account about the lockout, with a link that
+// lifts it early
+export const sendAccountUnlockEmail = async (user: User, lockedUntil: string): Promise<void> => {
+  const token = await issueToken(user.id, 'account_unlock', ACCOUNT_UNLOCK_TTL_MS);
+  const link = `${getFrontendUrl()}/unlock-account?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Your account was locked',
+    text: [
+      `Hi ${user.full_name || user.username},`,
+      '',
+      `After too many failed sign-in attempts your account is locked until ${new Date(lockedUntil).toUTCString()}.`,
+      'If it was you, unlock it now with this link:',
+      link,
+      '',
+      'If it was not you, someone may be guessing your password. Unlocking is safe, but consider choosing a new password.'
+    ].join('\n')
+  });
+};
+
+// Uses up an unlock link, returning the account it unlocks
+export const redeemAccountUnlock = async (token: string): Promise<User> => {
+  const userId = await consumeToken(token, 'account_unlock');
+  return (await UsersRepo.findById(userId))!;
+};
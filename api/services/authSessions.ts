@@ -0,0 +1,159 @@
+import { createHash, randomBytes } from 'crypto';
+import { transaction } from '../config/database.js';
+import { generateToken } from '../middleware/auth.js';
+import { AuthenticationError, NotFoundError } from '../middleware/errorHandler.js';
+import { AuthSessionsRepo, RefreshTokensRepo, SessionClient, UsersRepo } from '../repositories/index.js';
+import { AuthResponse, AuthSession, User } from '../types.js';
+import { notifyUser } from './notifications.js';
+
+const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// First match wins, so browsers built on Chrome come before it
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari']
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+// A readable name for the browser and system behind a user agent, such as
+// "Firefox on Linux"
+export const describeDevice = (userAgent?: string) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? userAgent.split(/[\s/]/)[0];
+};
+
+const getRefreshTokenTtlDays = () => {
+  const days = Number(process.env.REFRESH_TOKEN_TTL_DAYS);
+  return days > 0 ? days : DEFAULT_REFRESH_TOKEN_TTL_DAYS;
+};
+
+// Refresh tokens are random, so a fast unsalted hash is enough to keep a
+// leaked table from being usable
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const refreshTokenExpiry = () => new Date(Date.now() + getRefreshTokenTtlDays() * DAY_MS).toISOString();
+
+const issueRefreshToken = async (sessionId: string, expiresAt: string) => {
+  const token = randomBytes(32).toString('base64url');
+  await RefreshTokensRepo.create(sessionId, hashToken(token), expiresAt);
+  return token;
+};
+
+// A used refresh token presented again means two parties hold the token
+// family; neither can be told apart, so the whole session goes
+const revokeForReuse = async (sessionId: string) => {
+  if (await AuthSessionsRepo.revoke(sessionId, 'token_reuse')) {
+    console.warn(`Refresh token reused, session ${sessionId} revoked`);
+  }
+  return new AuthenticationError('Refresh token already used, please log in again');
+};
+
+// Starts a session for a user who just proved who they are
+export const startSession = (user: User, client: SessionClient): Promise<AuthResponse> =>
+  transaction(async () => {
+    const expiresAt = refreshTokenExpiry();
+    const session = await AuthSessionsRepo.create(user.id, client, expiresAt);
+    const refreshToken = await issueRefreshToken(session.id, expiresAt);
+
+    return { user, token: generateToken(user, session.id), refreshToken };
+  });
+
+// Same as startSession for a login, and warns the user when it comes from a
+// browser they have not used before. Their first session ever is not news,
+// and a client that sends no user agent cannot be told apart from any other.
+export const startLoginSession = async (user: User, client: SessionClient): Promise<AuthResponse> => {
+  const history = client.userAgent
+    ? await AuthSessionsRepo.countByUserAgent(user.id, client.userAgent)
+    : null;
+  const authResponse = await startSession(user, client);
+
+  if (history && history.total > 0 && history.matching === 0) {
+    await notifyUser({
+      userId: user.id,
+      type: 'warning',
+      title: 'New sign-in to your account',
+      message: `Signed in from ${describeDevice(client.userAgent)}${client.ipAddress ? ` (${client.ipAddress})` : ''}. ` +
+        'If this was not you, revoke the session and change your password.',
+      actionUrl: '/user-dashboard?tab=security',
+      actionText: 'Review sessions'
+    });
+  }
+  return authResponse;
+};
+
+// Swaps a refresh token for a new access token and the next refresh token of
+// the same session. Each refresh token works once.
+export const refreshSession = async (refreshToken: string, client: SessionClient): Promise<AuthResponse> => {
+  const record = await RefreshTokensRepo.findByHash(hashToken(refreshToken));
+
+  if (!record || record.sessionRevokedAt) {
+    throw new AuthenticationError('Invalid refresh token');
+  }
+  if (record.usedAt) {
+    throw await revokeForReuse(record.sessionId);
+  }
+  if (record.expiresAt <= new Date().toISOString()) {
+    throw new AuthenticationError('Refresh token expired, please log in again');
+  }
+
+  const user = await UsersRepo.findById(record.userId, { activeOnly: true });
+  if (!user) {
+    throw new AuthenticationError('Invalid refresh token');
+  }
+
+  const nextToken = await transaction(async () => {
+    if (!await RefreshTokensRepo.markUsed(record.id)) return null;
+
+    const expiresAt = refreshTokenExpiry();
+    await RefreshTokensRepo.deleteExpired(record.sessionId);
+    await AuthSessionsRepo.touch(record.sessionId, client.ipAddress);
+    await AuthSessionsRepo.extend(record.sessionId, expiresAt);
+    return issueRefreshToken(record.sessionId, expiresAt);
+  });
+  if (!nextToken) {
+    throw await revokeForReuse(record.sessionId);
+  }
+
+  return { user, token: generateToken(user, record.sessionId), refreshToken: nextToken };
+};
+
+export const endSession = (sessionId: string) => AuthSessionsRepo.revoke(sessionId, 'logout');
+
+export const listSessions = async (userId: string, currentSessionId?: string): Promise<AuthSession[]> => {
+  const sessions = await AuthSessionsRepo.listActiveByUser(userId);
+  return sessions.map(session => ({
+    ...session,
+    device: describeDevice(session.userAgent),
+    isCurrent: session.id === currentSessionId
+  }));
+};
+
+// Signs one of the user's own sessions out, e.g. a device they lost
+export const endUserSession = async (userId: string, sessionId: string) => {
+  const session = await AuthSessionsRepo.findById(sessionId);
+  if (!session || session.userId !== userId || session.revokedAt) {
+    throw new NotFoundError('Session not found');
+  }
+  await AuthSessionsRepo.revoke(sessionId, 'logout');
+};
+
+// Logs the user out everywhere, or everywhere else when `keepSessionId` is given
+export const endAllSessions = (userId: string, reason: 'logout_all' | 'password_change', keepSessionId?: string) =>
+  AuthSessionsRepo.revokeAllForUser(userId, reason, keepSessionId);
@@ -0,0 +1,199 @@
+import { transaction } from '../config/database.js';
+import { ConflictError, CustomValidationError, NotFoundError } from '../middleware/errorHandler.js';
+import { CartsRepo, CartLine, ProductsRepo, ProductVariantsRepo } from '../repositories/index.js';
+import { Cart, CartIssue, CartItem, Product, ProductVariant } from '../types.js';
+import { describeLine, getAvailableQuantity, getUnitPrice, getVariantError } from './variants.js';
+
+export interface CartInputLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+type LineKey = Pick<CartLine, 'productId' | 'variantId'>;
+
+const loadLine = async (productId: string, variantId?: string): Promise<{ product: Product; variant?: ProductVariant }> => {
+  const product = await ProductsRepo.findById(productId);
+  if (!product) {
+    throw new NotFoundError('Product not found');
+  }
+  const variant = variantId ? await ProductVariantsRepo.findById(variantId) ?? undefined : undefined;
+  const refusal = getVariantError(product, variantId, variant);
+  if (refusal) {
+    throw new CustomValidationError(refusal);
+  }
+  return { product, variant };
+};
+
+const assertAvailable = (product: Product, variant: ProductVariant | undefined, quantity: number) => {
+  const available = getAvailableQuantity(product, variant);
+  if (quantity > available) {
+    throw new ConflictError(`Only ${available} unit(s) of ${describeLine(product, variant)} available`);
+  }
+};
+
+// Whether the line can still be bought at all
+const isPurchasable = (line: LineKey, product?: Product, variant?: ProductVariant): product is Product =>
+  !!product && !!product.isActive && !getVariantError(product, line.variantId, variant)
+  && getAvailableQuantity(product, variant) > 0;
+
+const unavailableIssue = (line: LineKey, product?: Product, variant?: ProductVariant): CartIssue => ({
+  productId: line.productId,
+  variantId: line.variantId,
+  type: 'unavailable',
+  message: product?.isActive && !getVariantError(product, line.variantId, variant)
+    ? `${describeLine(product, variant)} is out of stock`
+    : 'A product in your cart is no longer available'
+});
+
+const loadCatalog = async (lines: LineKey[]) => {
+  const [products, variants] = await Promise.all([
+    ProductsRepo.findByIds([...new Set(lines.map(line => line.productId))]),
+    ProductVariantsRepo.findByIds(lines.flatMap(line => (line.variantId ? [line.variantId] : [])))
+  ]);
+  return (line: LineKey) => ({
+    product: products.find(candidate => candidate.id === line.productId),
+    variant: line.variantId ? variants.find(candidate => candidate.id === line.variantId) : undefined
+  });
+};
+
+// Brings each stored line up to date with its product: drops what can no
+// longer be bought, trims quantities to the stock left and takes the current
+// price, reporting every change. The stored rows are updated so each change
+// is only reported once.
+const revalidate = async (userId: string, lines: CartLine[]): Promise<{ items: CartItem[]; issues: CartIssue[] }> => {
+  const lookup = await loadCatalog(lines);
+  const items: CartItem[] = [];
+  const issues: CartIssue[] = [];
+
+  for (const line of lines) {
+    const { product, variant } = lookup(line);
+
+    if (!isPurchasable(line, product, variant)) {
+      await CartsRepo.removeLine(userId, line.productId, line.variantId);
+      issues.push(unavailableIssue(line, product, variant));
+      continue;
+    }
+
+    const quantity = Math.min(line.quantity, getAvailableQuantity(product, variant));
+    const price = getUnitPrice(product, variant);
+    if (quantity !== line.quantity) {
+      issues.push({
+        productId: product.id,
+        variantId: variant?.id,
+        type: 'quantity_adjusted',
+        message: `Only ${quantity} unit(s) of ${describeLine(product, variant)} are available`
+      });
+    }
+    if (price !== line.unitPrice) {
+      issues.push({
+        productId: product.id,
+        variantId: variant?.id,
+        type: 'price_changed',
+        message: `The price of ${describeLine(product, variant)} changed from ${line.unitPrice.toFixed(2)} to ${price.toFixed(2)}`
+      });
+    }
+    if (quantity !== line.quantity || price !== line.unitPrice) {
+      await CartsRepo.setLine(userId, product.id, variant?.id, quantity, price);
+    }
+
+    items.push({ product, variant, quantity, addedAt: line.createdAt, updatedAt: line.updatedAt });
+  }
+
+  return { items, issues };
+};
+
+const toCart = (items: CartItem[], issues: CartIssue[]): Cart => ({
+  items,
+  totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+  subtotal: Math.round(items.reduce((sum, item) => sum + getUnitPrice(item.product, item.variant) * item.quantity, 0) * 100) / 100,
+  issues
+});
+
+export const getCart = (userId: string): Promise<Cart> =>
+  transaction(async () => {
+    const { items, issues } = await revalidate(userId, await CartsRepo.listByUser(userId));
+    return toCart(items, issues);
+  });
+
+// Adds to the quantity already in the cart. Products with options need a
+// variant (400 otherwise); throws ConflictError (409) when the total would
+// exceed the stock.
+export const addToCart = (userId: string, productId: string, variantId: string | undefined, quantity: number): Promise<Cart> =>
+  transaction(async () => {
+    const { product, variant } = await loadLine(productId, variantId);
+    const existing = await CartsRepo.findLine(userId, productId, variantId);
+    const total = (existing?.quantity ?? 0) + quantity;
+
+    assertAvailable(product, variant, total);
+    await CartsRepo.setLine(userId, productId, variantId, total, getUnitPrice(product, variant));
+    return getCart(userId);
+  });
+
+// Replaces the quantity of a line; zero removes it
+export const setCartQuantity = (userId: string, productId: string, variantId: string | undefined, quantity: number): Promise<Cart> =>
+  transaction(async () => {
+    if (!await CartsRepo.findLine(userId, productId, variantId)) {
+      throw new NotFoundError('Product is not in the cart');
+    }
+
+    if (quantity === 0) {
+      await CartsRepo.removeLine(userId, productId, variantId);
+    } else {
+      const { product, variant } = await loadLine(productId, variantId);
+      assertAvailable(product, variant, quantity);
+      await CartsRepo.setLine(userId, productId, variantId, quantity, getUnitPrice(product, variant));
+    }
+    return getCart(userId);
+  });
+
+export const removeFromCart = (userId: string, productId: string, variantId?: string): Promise<Cart> =>
+  transaction(async () => {
+    if (!await CartsRepo.removeLine(userId, productId, variantId)) {
+      throw new NotFoundError('Product is not in the cart');
+    }
+    return getCart(userId);
+  });
+
+// Folds a cart kept on the device (before signing in) into the stored one.
+// A line in both keeps the larger quantity rather than the sum, so merging
+// the same device cart twice changes nothing. Lines that cannot be bought are
+// skipped and reported instead of failing the merge.
+export const mergeCart = (userId: string, lines: CartInputLine[]): Promise<Cart> =>
+  transaction(async () => {
+    const lookup = await loadCatalog(lines);
+    const issues: CartIssue[] = [];
+
+    for (const line of lines) {
+      const { product, variant } = lookup(line);
+      if (!isPurchasable(line, product, variant)) {
+        issues.push(unavailableIssue(line, product, variant));
+        continue;
+      }
+
+      const existing = await CartsRepo.findLine(userId, product.id, variant?.id);
+      const wanted = Math.max(existing?.quantity ?? 0, line.quantity);
+      const quantity = Math.min(wanted, getAvailableQuantity(product, variant));
+      if (quantity !== wanted) {
+        issues.push({
+          productId: product.id,
+          variantId: variant?.id,
+          type: 'quantity_adjusted',
+          message: `Only ${quantity} unit(s) of ${describeLine(product, variant)} are available`
+        });
+      }
+      await CartsRepo.setLine(userId, product.id, variant?.id, quantity, getUnitPrice(product, variant));
+    }
+
+    const cart = await getCart(userId);
+    return { ...cart, issues: [...issues, ...cart.issues] };
+  });
+
+export const clearCart = (userId: string): Promise<void> => CartsRepo.clear(userId);
+
+// Bought lines leave the cart; runs inside the checkout transaction
+export const removePurchased = async (userId: string, lines: LineKey[]): Promise<void> => {
+  for (const line of lines) {
+    await CartsRepo.removeLine(userId, line.productId, line.variantId);
+  }
+};
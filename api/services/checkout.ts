@@ -0,0 +1,151 @@
+import { transaction } from '../config/database.js';
+import { OrdersRepo, CreateOrderInput } from '../repositories/index.js';
+import { CheckoutQuote, Order, Product, ProductVariant } from '../types.js';
+import { removePurchased } from './cart.js';
+import { priceLines, redeemCoupons } from './discounts.js';
+import { reserveStock } from './inventory.js';
+import { changeOrderStatus, changePaymentStatus, recordOrderPlaced, TransitionContext } from './orderLifecycle.js';
+import { cancelOpenPayments, refundOrder } from './payments/index.js';
+import { splitOrder } from './sellerLedger.js';
+import { quoteShipping } from './shipping.js';
+import { calculateTaxes } from './taxes.js';
+import { getUnitPrice } from './variants.js';
+
+export interface PlaceOrderLine {
+  product: Product;
+  // Required for products with options; see getVariantError
+  variant?: ProductVariant;
+  quantity: number;
+}
+
+export interface PlaceOrderInput extends Omit<CreateOrderInput, 'items' | 'discounts' | 'shippingAmount' | 'shippingZone' | 'taxes'> {
+  lines: PlaceOrderLine[];
+  couponCodes?: string[];
+}
+
+export interface QuoteCheckoutInput {
+  lines: PlaceOrderLine[];
+  couponCodes?: string[];
+  // Country as an ISO code; the state narrows regional tax rules
+  shippingAddress: { country: string; state?: string };
+  userId?: string;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Prices the lines the way placeOrder will charge them: coupons first, then
+// shipping for the physical lines and tax on what each line costs after its
+// discount. Throws CustomValidationError (400) for an unusable coupon or an
+// address that cannot be shipped to.
+export const quoteCheckout = async (
+  { lines, couponCodes = [], shippingAddress, userId }: QuoteCheckoutInput
+): Promise<CheckoutQuote> => {
+  const priced = await priceLines(
+    couponCodes,
+    lines.map(({ product, variant, quantity }) => ({
+      productId: product.id,
+      category: product.category,
+      unitPrice: getUnitPrice(product, variant),
+      quantity
+    })),
+    { userId }
+  );
+
+  const netAmounts = lines.map(({ product, variant, quantity }, index) =>
+    (toCents(getUnitPrice(product, variant) * quantity) - toCents(priced.lineDiscounts[index])) / 100
+  );
+
+  const shipping = await quoteShipping(
+    shippingAddress.country,
+    lines.flatMap(({ product, quantity }, index) =>
+      product.isDigital ? [] : [{ weight: (product.weight ?? 0) * quantity, amount: netAmounts[index] }]
+    )
+  );
+
+  const taxed = await calculateTaxes(
+    shippingAddress,
+    lines.map(({ product }, index) => ({
+      category: product.category,
+      isDigital: !!product.isDigital,
+      amount: netAmounts[index]
+    }))
+  );
+
+  return {
+    subtotal: priced.subtotal,
+    discountAmount: priced.discountAmount,
+    discounts: priced.discounts,
+    shippingAmount: shipping.amount,
+    shippingZone: shipping.zone?.name,
+    taxAmount: taxed.taxAmount,
+    taxes: taxed.taxes,
+    total: (toCents(priced.total) + toCents(shipping.amount) + toCents(taxed.taxAmount)) / 100,
+    lines: lines.map(({ product, variant, quantity }, index) => ({
+      productId: product.id,
+      variantId: variant?.id,
+      quantity,
+      unitPrice: getUnitPrice(product, variant),
+      subtotal: toCents(getUnitPrice(product, variant) * quantity) / 100,
+      discountAmount: priced.lineDiscounts[index],
+      taxRate: taxed.lineTaxes[index].rate,
+      taxAmount: taxed.lineTaxes[index].amount
+    }))
+  };
+};
+
+// Creates the order with its quoted shipping and tax, splits it by seller,
+// applies its coupons, holds stock for its physical items, bumps sales counts
+// and takes the bought products out of the stored cart in one transaction.
+// Throws CustomValidationError (400) for an unusable coupon or address and
+// ConflictError (409) when any line would oversell or a coupon ran out, in
+// which case nothing is written.
+export const placeOrder = ({ lines, couponCodes = [], ...order }: PlaceOrderInput): Promise<Order> =>
+  transaction(async () => {
+    const { country, state } = order.shippingAddress;
+    const quote = await quoteCheckout({ lines, couponCodes, shippingAddress: { country, state }, userId: order.userId });
+
+    const created = await OrdersRepo.create({
+      ...order,
+      discounts: quote.discounts,
+      shippingAmount: quote.shippingAmount,
+      shippingZone: quote.shippingZone,
+      taxes: quote.taxes,
+      items: lines.map(({ product, variant, quantity }, index) => ({
+        productId: product.id,
+        variantId: variant?.id,
+        sku: variant?.sku,
+        variantOptions: variant?.options,
+        sellerId: product.sellerId,
+        quantity,
+        unitPrice: getUnitPrice(product, variant),
+        discountAmount: quote.lines[index].discountAmount,
+        taxRate: quote.lines[index].taxRate,
+        taxAmount: quote.lines[index].taxAmount
+      }))
+    });
+
+    await splitOrder(created);
+    await redeemCoupons(created.id, order.userId, quote.discounts);
+    await reserveStock(created.id, lines);
+    await recordOrderPlaced(created, order.userId);
+
+    // Nothing left to charge
+    if (created.totalAmount === 0) {
+      await changePaymentStatus(created.id, 'paid', { note: 'Covered in full by discounts' });
+    }
+
+    await removePurchased(order.userId, lines.map(({ product, variant }) => ({ productId: product.id, variantId: variant?.id })));
+
+    return (await OrdersRepo.findById(created.id))!;
+  });
+
+// Cancels the order (which restocks it) and its unconfirmed payments, and
+// refunds it when it was already paid
+export const cancelOrder = async (orderId: string, context: TransitionContext = {}): Promise<Order> => {
+  const order = await changeOrderStatus(orderId, 'cancelled', context);
+  await cancelOpenPayments(orderId);
+  if (order.paymentStatus !== 'paid') return order;
+
+  await refundOrder(order, undefined, { actorId: context.actorId, note: 'Refunded on cancellation' });
+  return (await OrdersRepo.findById(orderId))!;
+};
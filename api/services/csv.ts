@@ -0,0 +1,73 @@
+// Minimal RFC 4180 CSV: comma separated, double-quoted fields with "" for a
+// quote, CRLF or LF line endings. Used for catalog imports and exports and
+// seller analytics exports.
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Rows of cells; a UTF-8 BOM and blank lines are ignored
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+// Rows keyed by the (trimmed) header cells of the first line
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const names = header.map(name => name.trim());
+  return rows.map(cells =>
+    Object.fromEntries(names.map((name, index) => [name, cells[index] ?? '']))
+  );
+};
+
+const escapeCell = (value: CsvValue) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: CsvValue[][]): string =>
+  [header, ...rows].map(cells => cells.map(escapeCell).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,160 @@
+import { ConflictError, CustomValidationError } from '../middleware/errorHandler.js';
+import { CouponsRepo, normalizeCouponCode } from '../repositories/index.js';
+import { Coupon, DiscountQuote, OrderDiscount } from '../types.js';
+
+export interface DiscountLine {
+  productId: string;
+  category?: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface PricedLines extends DiscountQuote {
+  // Discount of each input line, in input order
+  lineDiscounts: number[];
+}
+
+// Amounts are split in whole cents so line shares always add up to the total
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+const appliesTo = (coupon: Coupon, line: DiscountLine) =>
+  (coupon.productIds.length === 0 && coupon.categories.length === 0)
+  || coupon.productIds.includes(line.productId)
+  || (!!line.category && coupon.categories.includes(line.category));
+
+// Why the coupon cannot be used for this cart, or null when it can
+const getCouponError = async (coupon: Coupon, subtotal: number, userId: string | undefined, now: Date) => {
+  if (!coupon.isActive) {
+    return `Coupon "${coupon.code}" is not valid`;
+  }
+  if (coupon.startsAt && new Date(coupon.startsAt) > now) {
+    return `Coupon "${coupon.code}" is not active yet`;
+  }
+  if (coupon.expiresAt && new Date(coupon.expiresAt) <= now) {
+    return `Coupon "${coupon.code}" has expired`;
+  }
+  if (coupon.minOrderAmount && subtotal < coupon.minOrderAmount) {
+    return `Coupon "${coupon.code}" requires a minimum order of ${coupon.minOrderAmount.toFixed(2)}`;
+  }
+  if (coupon.maxUses !== undefined && coupon.timesUsed >= coupon.maxUses) {
+    return `Coupon "${coupon.code}" has reached its usage limit`;
+  }
+  if (userId && coupon.maxUsesPerUser !== undefined
+      && await CouponsRepo.countUserRedemptions(coupon.id, userId) >= coupon.maxUsesPerUser) {
+    return `You have already used coupon "${coupon.code}" the maximum number of times`;
+  }
+  return null;
+};
+
+// Cents to take off each eligible line. Percentages apply per line; fixed
+// amounts are spread over the eligible lines in proportion to their value.
+const allocate = (coupon: Coupon, remaining: number[], eligible: number[]): number[] => {
+  const shares = remaining.map(() => 0);
+  const eligibleTotal = eligible.reduce((sum, index) => sum + remaining[index], 0);
+  if (eligibleTotal === 0) return shares;
+
+  if (coupon.discountType === 'percentage') {
+    const rate = Math.min(coupon.discountValue, 100) / 100;
+    for (const index of eligible) {
+      shares[index] = Math.round(remaining[index] * rate);
+    }
+    return shares;
+  }
+
+  const amount = Math.min(toCents(coupon.discountValue), eligibleTotal);
+  let allocated = 0;
+  for (const index of eligible) {
+    shares[index] = Math.floor(amount * remaining[index] / eligibleTotal);
+    allocated += shares[index];
+  }
+  // Rounding leftovers go to the first lines that can still take them
+  for (const index of eligible) {
+    if (allocated === amount) break;
+    if (shares[index] < remaining[index]) {
+      shares[index]++;
+      allocated++;
+    }
+  }
+  return shares;
+};
+
+// Validates the codes against the cart and works out the discounts without
+// redeeming anything. Percentage coupons are applied before fixed ones, each
+// on what earlier coupons left of the line. Throws CustomValidationError (400)
+// naming the first coupon that cannot be used.
+export const priceLines = async (
+  codes: string[],
+  lines: DiscountLine[],
+  { userId, now = new Date() }: { userId?: string; now?: Date } = {}
+): Promise<PricedLines> => {
+  const subtotalCents = lines.reduce((sum, line) => sum + toCents(line.unitPrice * line.quantity), 0);
+  const subtotal = fromCents(subtotalCents);
+
+  const coupons: Coupon[] = [];
+  for (const code of [...new Set(codes.map(normalizeCouponCode))]) {
+    const coupon = await CouponsRepo.findByCode(code);
+    if (!coupon) {
+      throw new CustomValidationError(`Coupon "${code}" is not valid`);
+    }
+    const refusal = await getCouponError(coupon, subtotal, userId, now);
+    if (refusal) {
+      throw new CustomValidationError(refusal);
+    }
+    coupons.push(coupon);
+  }
+
+  if (coupons.length > 1) {
+    const exclusive = coupons.find(coupon => !coupon.isStackable);
+    if (exclusive) {
+      throw new CustomValidationError(`Coupon "${exclusive.code}" cannot be combined with other coupons`);
+    }
+  }
+
+  const remaining = lines.map(line => toCents(line.unitPrice * line.quantity));
+  const discounts: OrderDiscount[] = [];
+  const ordered = [...coupons].sort((a, b) =>
+    Number(a.discountType === 'fixed') - Number(b.discountType === 'fixed')
+  );
+
+  for (const coupon of ordered) {
+    const eligible = lines.flatMap((line, index) => appliesTo(coupon, line) ? [index] : []);
+    if (eligible.length === 0) {
+      throw new CustomValidationError(`Coupon "${coupon.code}" does not apply to any item in the cart`);
+    }
+
+    const shares = allocate(coupon, remaining, eligible);
+    shares.forEach((share, index) => { remaining[index] -= share; });
+    discounts.push({
+      couponId: coupon.id,
+      code: coupon.code,
+      amount: fromCents(shares.reduce((sum, share) => sum + share, 0))
+    });
+  }
+
+  const lineDiscounts = lines.map((line, index) => fromCents(toCents(line.unitPrice * line.quantity) - remaining[index]));
+  const discountCents = subtotalCents - remaining.reduce((sum, cents) => sum + cents, 0);
+
+  return {
+    subtotal,
+    discountAmount: fromCents(discountCents),
+    total: fromCents(subtotalCents - discountCents),
+    discounts,
+    lineDiscounts
+  };
+};
+
+// Takes one use of every applied coupon for the order. Runs inside the
+// checkout transaction; the global limit is enforced atomically here, so a
+// coupon that ran out since it was priced fails the order with a 409.
+export const redeemCoupons = async (orderId: string, userId: string, discounts: OrderDiscount[]) => {
+  for (const discount of discounts) {
+    if (!await CouponsRepo.claimUse(discount.couponId)) {
+      throw new ConflictError(`Coupon "${discount.code}" has reached its usage limit`);
+    }
+    await CouponsRepo.recordRedemption(discount.couponId, orderId, userId, discount.amount);
+  }
+};
+
+// A cancelled order gives its coupon uses back
+export const releaseCoupons = (orderId: string) => CouponsRepo.releaseByOrder(orderId);
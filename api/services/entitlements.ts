@@ -0,0 +1,190 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { mkdir, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { transaction } from '../config/database.js';
+import { AuthorizationError, ConflictError, NotFoundError } from '../middleware/errorHandler.js';
+import {
+  EntitlementsRepo, OrdersRepo, ProductFilesRepo, ProductsRepo, StoredProductFile
+} from '../repositories/index.js';
+import { DownloadLink, Entitlement, LicenseVerification } from '../types.js';
+
+const DEFAULT_DOWNLOAD_URL_TTL_MINUTES = 15;
+
+// Crockford-style alphabet: no I, L, O or U to misread when typing a key
+const LICENSE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+export const getDigitalFilesDir = () =>
+  path.resolve(process.env.DIGITAL_FILES_DIR || 'storage/product-files');
+
+const getDownloadSecret = () => {
+  const secret = process.env.DOWNLOAD_URL_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('DOWNLOAD_URL_SECRET not configured');
+  }
+  return secret;
+};
+
+const getDownloadTtlMs = () => {
+  const minutes = Number(process.env.DOWNLOAD_URL_TTL_MINUTES);
+  return (minutes > 0 ? minutes : DEFAULT_DOWNLOAD_URL_TTL_MINUTES) * 60_000;
+};
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype?: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// Files are kept outside the public uploads directory; buyers only reach
+// them through signed download links
+export const storeProductFile = async (productId: string, file: UploadedFile): Promise<StoredProductFile> => {
+  const storageKey = `${productId}/${randomUUID()}${path.extname(file.originalname).toLowerCase()}`;
+  const target = path.join(getDigitalFilesDir(), storageKey);
+
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(target, file.buffer);
+
+  return ProductFilesRepo.create({
+    productId,
+    fileName: path.basename(file.originalname),
+    storageKey,
+    contentType: file.mimetype,
+    sizeBytes: file.size
+  });
+};
+
+export const deleteProductFile = async (file: StoredProductFile): Promise<void> => {
+  await ProductFilesRepo.delete(file.id);
+  await unlink(resolveFilePath(file)).catch(error => {
+    if (error.code !== 'ENOENT') throw error;
+  });
+};
+
+export const resolveFilePath = (file: StoredProductFile) =>
+  path.join(getDigitalFilesDir(), file.storageKey);
+
+export const generateLicenseKey = () => {
+  const bytes = randomBytes(20);
+  const chars = Array.from(bytes, byte => LICENSE_ALPHABET[byte % LICENSE_ALPHABET.length]);
+  return [0, 5, 10, 15].map(start => chars.slice(start, start + 5).join('')).join('-');
+};
+
+// Grants access to every digital line of a paid order. Safe to call again:
+// lines that already have an entitlement are skipped.
+export const grantEntitlements = (orderId: string): Promise<Entitlement[]> =>
+  transaction(async () => {
+    const order = await OrdersRepo.findById(orderId);
+    if (!order) {
+      throw new NotFoundError('Order not found');
+    }
+
+    const products = await ProductsRepo.findByIds(order.items.map(item => item.productId));
+    const granted: Entitlement[] = [];
+
+    for (const item of order.items) {
+      const product = products.find(candidate => candidate.id === item.productId);
+      const seats = item.quantity - (item.returnedQuantity ?? 0);
+      if (!product?.isDigital || seats <= 0 || await EntitlementsRepo.findByOrderItem(item.id!)) continue;
+
+      granted.push(await EntitlementsRepo.create({
+        orderId,
+        orderItemId: item.id!,
+        userId: order.userId,
+        productId: product.id,
+        seats,
+        downloadLimit: product.downloadLimit,
+        licenseKey: product.issuesLicenseKeys ? generateLicenseKey() : null
+      }));
+    }
+
+    return granted;
+  });
+
+// Returned units no longer count; the entitlement goes once none are left
+export const setEntitlementSeats = async (orderItemId: string, seats: number): Promise<void> => {
+  const entitlement = await EntitlementsRepo.findByOrderItem(orderItemId);
+  if (!entitlement || entitlement.status !== 'active') return;
+
+  await EntitlementsRepo.setSeats(entitlement.id, Math.max(seats, 0));
+  if (seats <= 0) {
+    await EntitlementsRepo.revoke({ id: entitlement.id }, 'All units were returned');
+  }
+};
+
+export const revokeOrderEntitlements = (orderId: string, reason: string): Promise<number> =>
+  EntitlementsRepo.revoke({ orderId }, reason);
+
+const signDownload = (entitlementId: string, fileId: string, expires: number) =>
+  createHmac('sha256', getDownloadSecret()).update(`${entitlementId}.${fileId}.${expires}`).digest('hex');
+
+const assertUsable = (entitlement: Entitlement) => {
+  if (entitlement.status !== 'active') {
+    throw new AuthorizationError('This purchase no longer gives access to the product');
+  }
+  if (entitlement.downloadLimit !== undefined && entitlement.downloadCount >= entitlement.downloadLimit) {
+    throw new ConflictError('Download limit reached for this purchase');
+  }
+};
+
+// Short-lived link to one of the product's files. Links are not counted
+// until used; `baseUrl` is the API origin the link should point at.
+export const createDownloadLink = (
+  entitlement: Entitlement,
+  file: StoredProductFile,
+  baseUrl: string
+): DownloadLink => {
+  assertUsable(entitlement);
+  if (file.productId !== entitlement.productId) {
+    throw new NotFoundError('File not found');
+  }
+
+  const expires = Date.now() + getDownloadTtlMs();
+  const signature = signDownload(entitlement.id, file.id, expires);
+
+  return {
+    url: `${baseUrl}/api/entitlements/${entitlement.id}/files/${file.id}/download?expires=${expires}&signature=${signature}`,
+    expiresAt: new Date(expires).toISOString()
+  };
+};
+
+export const isValidDownloadSignature = (
+  entitlementId: string,
+  fileId: string,
+  expires: number,
+  signature: string
+) => {
+  if (!Number.isFinite(expires) || expires < Date.now()) return false;
+
+  const expected = Buffer.from(signDownload(entitlementId, fileId, expires), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+// Counts the download against the entitlement's limit. Throws when the
+// purchase was revoked or has no downloads left.
+export const claimDownload = async (entitlement: Entitlement): Promise<void> => {
+  assertUsable(entitlement);
+  if (!await EntitlementsRepo.claimDownload(entitlement.id)) {
+    // Lost a race against another download or a revocation
+    throw new ConflictError('Download limit reached for this purchase');
+  }
+};
+
+// Public check used by sellers' software. Unknown keys and keys for another
+// product are reported the same way so keys cannot be probed per product.
+export const verifyLicense = async (licenseKey: string, productId?: string): Promise<LicenseVerification> => {
+  const entitlement = await EntitlementsRepo.findByLicenseKey(licenseKey.trim().toUpperCase());
+  if (!entitlement || (productId && entitlement.productId !== productId)) {
+    return { valid: false };
+  }
+
+  return {
+    valid: entitlement.status === 'active',
+    productId: entitlement.productId,
+    productName: entitlement.productName,
+    seats: entitlement.seats,
+    status: entitlement.status,
+    issuedAt: entitlement.createdAt
+  };
+};
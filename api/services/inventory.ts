@@ -0,0 +1,98 @@
+import { transaction } from '../config/database.js';
+import { ConflictError } from '../middleware/errorHandler.js';
+import { ProductsRepo, ProductVariantsRepo, StockReservationsRepo, StockReservation } from '../repositories/index.js';
+import { Product, ProductVariant } from '../types.js';
+import { describeLine } from './variants.js';
+
+const DEFAULT_RESERVATION_TTL_MINUTES = 15;
+
+export const getReservationTtlMs = () => {
+  const minutes = Number(process.env.ORDER_RESERVATION_TTL_MINUTES);
+  return (minutes > 0 ? minutes : DEFAULT_RESERVATION_TTL_MINUTES) * 60_000;
+};
+
+export interface ReserveItem {
+  product: Product;
+  // Stock of products sold through variants is held per variant
+  variant?: ProductVariant;
+  quantity: number;
+}
+
+// Holds stock for every physical line of the order. Must run inside the
+// checkout transaction so a conflict on any line rolls back the whole order.
+export const reserveStock = async (orderId: string, items: ReserveItem[]): Promise<void> => {
+  const expiresAt = new Date(Date.now() + getReservationTtlMs());
+
+  // The same product (or variant) may appear on several lines
+  const totals = new Map<string, ReserveItem>();
+  for (const { product, variant, quantity } of items) {
+    if (product.isDigital) continue;
+    const key = variant?.id ?? product.id;
+    totals.set(key, { product, variant, quantity: (totals.get(key)?.quantity || 0) + quantity });
+  }
+
+  for (const { product, variant, quantity } of totals.values()) {
+    const reserved = variant
+      ? await ProductVariantsRepo.reserveStock(variant.id, quantity)
+      : await ProductsRepo.reserveStock(product.id, quantity);
+    if (!reserved) {
+      const current = variant
+        ? await ProductVariantsRepo.findById(variant.id)
+        : await ProductsRepo.findById(product.id, { includeInactive: true });
+      throw new ConflictError(
+        `Insufficient stock for ${describeLine(product, variant)}: requested ${quantity}, ${current?.stockQuantity ?? 0} available`
+      );
+    }
+    await StockReservationsRepo.create({ orderId, productId: product.id, variantId: variant?.id, quantity, expiresAt });
+  }
+};
+
+const restock = async (reservations: StockReservation[]) => {
+  for (const reservation of reservations) {
+    if (reservation.variantId) {
+      await ProductVariantsRepo.restoreStock(reservation.variantId, reservation.quantity);
+    } else {
+      await ProductsRepo.restoreStock(reservation.productId, reservation.quantity);
+    }
+  }
+};
+
+// Payment went through: the held stock is now sold
+export const commitReservations = (orderId: string): Promise<StockReservation[]> =>
+  StockReservationsRepo.settleByOrder(orderId, 'committed');
+
+// Order cancelled: put back both held and already-sold (but unshipped) stock
+export const restockOrder = (orderId: string): Promise<StockReservation[]> =>
+  transaction(async () => {
+    const released = [
+      ...await StockReservationsRepo.settleByOrder(orderId, 'released'),
+      ...await StockReservationsRepo.settleByOrder(orderId, 'released', 'committed')
+    ];
+    await restock(released);
+    return released;
+  });
+
+// Payment window passed: put the held stock back
+export const expireReservations = (orderId: string): Promise<StockReservation[]> =>
+  transaction(async () => {
+    const expired = await StockReservationsRepo.settleByOrder(orderId, 'expired');
+    await restock(expired);
+    return expired;
+  });
+
+// Returned goods go back on the shelf; digital products have no stock to restore
+export const restockReturnedItem = async (
+  productId: string,
+  quantity: number,
+  variantId?: string
+): Promise<boolean> => {
+  const product = await ProductsRepo.findById(productId, { includeInactive: true });
+  if (!product || product.isDigital) return false;
+
+  if (variantId) {
+    await ProductVariantsRepo.restoreStock(variantId, quantity);
+  } else {
+    await ProductsRepo.restoreStock(productId, quantity);
+  }
+  return true;
+};
@@ -0,0 +1,246 @@
+import { Address, Invoice, Order, User } from '../types.js';
+import { PAGE_HEIGHT, PdfElement, renderPdf } from './pdf.js';
+
+// Everything a rendered invoice or credit note shows besides its own data
+export interface InvoiceDocumentSource {
+  invoice: Invoice;
+  order: Order;
+  seller?: User | null;
+  buyer?: User | null;
+}
+
+interface DocumentView {
+  title: string;
+  number: string;
+  details: [string, string][];
+  parties: { heading: string; lines: string[] }[];
+  rows: string[][];
+  totals: [string, string][];
+  note: string;
+}
+
+const COLUMNS = ['Description', 'Qty', 'Unit price', 'Discount', 'Tax', 'Total'];
+
+const formatDate = (value: string) => value.slice(0, 10);
+
+const nameOf = (user?: User | null) => user?.full_name || user?.username || '';
+
+const addressLines = (address?: Address) =>
+  address
+    ? [address.street, [address.zipCode, address.city].filter(Boolean).join(' '), address.state, address.country]
+      .filter(Boolean)
+    : [];
+
+// Credit notes show what they take off the invoice as negative amounts
+const toView = ({ invoice, order, seller, buyer }: InvoiceDocumentSource): DocumentView => {
+  const isCreditNote = invoice.type === 'credit_note';
+  const sign = isCreditNote ? -1 : 1;
+  const amount = (value: number) => (sign * value || 0).toFixed(2);
+
+  const details: [string, string][] = [
+    ['Issued', formatDate(invoice.issuedAt)],
+    ['Order', `#${order.id.slice(0, 8)} of ${formatDate(order.createdAt)}`],
+    ['Payment', `${order.paymentMethod}, ${order.paymentStatus}`],
+    ['Currency', invoice.currency]
+  ];
+  if (invoice.creditedInvoiceNumber) {
+    details.push(['Credits invoice', invoice.creditedInvoiceNumber]);
+  }
+  if (invoice.reason) {
+    details.push(['Reason', invoice.reason]);
+  }
+
+  const totals: [string, string][] = [['Subtotal', amount(invoice.subtotalAmount)]];
+  if (invoice.discountAmount > 0) {
+    totals.push(['Discount', amount(-invoice.discountAmount)]);
+  }
+  if (invoice.shippingAmount > 0) {
+    totals.push(['Shipping', amount(invoice.shippingAmount)]);
+  }
+  totals.push(['Tax', amount(invoice.taxAmount)]);
+  totals.push([isCreditNote ? `Total credited (${invoice.currency})` : `Total (${invoice.currency})`, amount(invoice.totalAmount)]);
+
+  return {
+    title: isCreditNote ? 'Credit note' : 'Invoice',
+    number: invoice.number,
+    details,
+    parties: [
+      { heading: 'Seller', lines: [invoice.sellerName || nameOf(seller), seller?.email ?? ''].filter(Boolean) },
+      {
+        heading: 'Billed to',
+        lines: [nameOf(buyer), buyer?.email ?? '', ...addressLines(order.billingAddress ?? order.shippingAddress)]
+          .filter(Boolean)
+      }
+    ],
+    rows: invoice.lines.map(line => [
+      line.description,
+      String(line.quantity),
+      amount(line.unitPrice),
+      line.discountAmount > 0 ? amount(-line.discountAmount) : '',
+      line.taxRate !== undefined ? `${line.taxRate}%` : amount(line.taxAmount),
+      amount(line.totalAmount)
+    ]),
+    totals,
+    note: isCreditNote
+      ? 'Refunded to the original payment method.'
+      : order.paymentStatus === 'paid' || order.paymentStatus === 'refunded'
+        ? 'Paid in full. This invoice is also your receipt.'
+        : 'Payment pending.'
+  };
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const HTML_STYLE = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #111827; font-size: 14px; margin: 0; }
+  article { max-width: 760px; margin: 0 auto; padding: 40px; page-break-after: always; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  .parties { display: flex; gap: 48px; margin: 24px 0; }
+  .parties h2 { font-size: 12px; text-transform: uppercase; color: #6b7280; margin: 0 0 4px; }
+  .parties p, .details p { margin: 2px 0; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  th, td { padding: 6px 4px; border-bottom: 1px solid #e5e7eb; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  .totals { margin-left: auto; width: 280px; margin-top: 16px; }
+  .totals tr:last-child td { font-weight: bold; border-bottom: none; }
+  .note { margin-top: 24px; color: #4b5563; }
+`;
+
+const renderHtmlDocument = (view: DocumentView) => `
+  <article>
+    <h1>${escapeHtml(view.title)} ${escapeHtml(view.number)}</h1>
+    <div class="details">
+      ${view.details.map(([label, value]) => `<p><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</p>`).join('')}
+    </div>
+    <div class="parties">
+      ${view.parties.map(party => `
+        <section>
+          <h2>${escapeHtml(party.heading)}</h2>
+          ${party.lines.map(line => `<p>${escapeHtml(line)}</p>`).join('')}
+        </section>`).join('')}
+    </div>
+    <table>
+      <thead><tr>${COLUMNS.map(column => `<th>${column}</th>`).join('')}</tr></thead>
+      <tbody>
+        ${view.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}
+      </tbody>
+    </table>
+    <table class="totals">
+      ${view.totals.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join('')}
+    </table>
+    <p class="note">${escapeHtml(view.note)}</p>
+  </article>`;
+
+export const renderInvoicesHtml = (sources: InvoiceDocumentSource[]) => {
+  const views = sources.map(toView);
+  const title = views.length === 1 ? `${views[0].title} ${views[0].number}` : 'Invoices';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>${HTML_STYLE}</style>
+</head>
+<body>${views.map(renderHtmlDocument).join('')}
+</body>
+</html>
+`;
+};
+
+const MARGIN = 50;
+const RIGHT_EDGE = 545;
+const BOTTOM_LIMIT = PAGE_HEIGHT - 70;
+// Right edges of the figure columns; the description takes the rest
+const COLUMN_EDGES = [300, 370, 430, 480, RIGHT_EDGE];
+const DESCRIPTION_LENGTH = 42;
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 3)}...` : text);
+
+// Lays a document out on as many pages as its lines need
+const layoutPdfDocument = (view: DocumentView): PdfElement[][] => {
+  const pages: PdfElement[][] = [];
+  let page: PdfElement[] = [];
+  let y = MARGIN;
+
+  const text = (x: number, value: string, options: { size?: number; bold?: boolean; align?: 'left' | 'right' } = {}) =>
+    page.push({ type: 'text', x, y, text: value, ...options });
+
+  const tableHeader = () => {
+    COLUMNS.forEach((column, index) =>
+      index === 0 ? text(MARGIN, column, { bold: true }) : text(COLUMN_EDGES[index - 1], column, { bold: true, align: 'right' })
+    );
+    page.push({ type: 'rule', x1: MARGIN, x2: RIGHT_EDGE, y: y + 5 });
+    y += 18;
+  };
+
+  const newPage = () => {
+    pages.push(page);
+    page = [];
+    y = MARGIN;
+    text(MARGIN, `${view.title} ${view.number} (continued)`, { size: 9 });
+    y += 24;
+  };
+
+  text(MARGIN, `${view.title} ${view.number}`, { size: 20, bold: true });
+  y += 28;
+  for (const [label, value] of view.details) {
+    text(MARGIN, `${label}:`, { bold: true });
+    text(MARGIN + 90, value);
+    y += 14;
+  }
+
+  y += 14;
+  const partiesTop = y;
+  view.parties.forEach((party, index) => {
+    y = partiesTop;
+    const x = MARGIN + index * 250;
+    text(x, party.heading.toUpperCase(), { size: 8, bold: true });
+    y += 14;
+    for (const line of party.lines) {
+      text(x, truncate(line, 45));
+      y += 13;
+    }
+  });
+  y = partiesTop + 14 + Math.max(...view.parties.map(party => party.lines.length)) * 13 + 20;
+
+  tableHeader();
+  for (const row of view.rows) {
+    if (y > BOTTOM_LIMIT) {
+      newPage();
+      tableHeader();
+    }
+    row.forEach((cell, index) =>
+      index === 0
+        ? text(MARGIN, truncate(cell, DESCRIPTION_LENGTH))
+        : text(COLUMN_EDGES[index - 1], cell, { align: 'right' })
+    );
+    y += 16;
+  }
+
+  if (y + view.totals.length * 16 + 40 > BOTTOM_LIMIT) {
+    newPage();
+  }
+  page.push({ type: 'rule', x1: 330, x2: RIGHT_EDGE, y: y - 6 });
+  y += 8;
+  view.totals.forEach(([label, value], index) => {
+    const bold = index === view.totals.length - 1;
+    text(330, label, { bold });
+    text(RIGHT_EDGE, value, { bold, align: 'right' });
+    y += 16;
+  });
+
+  y += 20;
+  text(MARGIN, view.note, { size: 9 });
+  pages.push(page);
+  return pages;
+};
+
+// Each document starts on a new page
+export const renderInvoicesPdf = (sources: InvoiceDocumentSource[]): Buffer => {
+  const views = sources.map(toView);
+  return renderPdf(views.flatMap(layoutPdfDocument), {
+    title: views.length === 1 ? `${views[0].title} ${views[0].number}` : 'Invoices',
+    author: sources.length === 1 ? sources[0].invoice.sellerName : undefined
+  });
+};
@@ -0,0 +1,197 @@
+import { transaction } from '../config/database.js';
+import { InvoicesRepo, OrdersRepo, SellerOrdersRepo } from '../repositories/index.js';
+import { Invoice, InvoiceLine, InvoiceType, OrderItem } from '../types.js';
+
+// Invoices and credit notes are numbered apart, each in the seller's own sequence
+const INVOICE_SERIES: Record<InvoiceType, string> = {
+  invoice: 'INV',
+  credit_note: 'CN'
+};
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+// Documents are issued in the currency the gateway charges in
+const getCurrency = () => (process.env.PAYMENT_CURRENCY || 'usd').toUpperCase();
+
+const drawNumber = async (sellerId: string, type: InvoiceType) =>
+  `${INVOICE_SERIES[type]}-${String(await InvoicesRepo.nextNumber(sellerId, INVOICE_SERIES[type])).padStart(6, '0')}`;
+
+// Splits `total` in proportion to `weights`, to the cent; the rounding
+// difference goes to the last share that has a weight
+const allocate = (total: number, weights: number[]): number[] => {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  if (sum <= 0) return weights.map(() => 0);
+
+  const shares = weights.map(weight => Math.floor(Math.round(total * 100) * weight / sum) / 100);
+  const last = weights.map(weight => weight > 0).lastIndexOf(true);
+  shares[last] = round2(shares[last] + total - shares.reduce((acc, share) => acc + share, 0));
+  return shares;
+};
+
+const describeItem = (item: OrderItem) => {
+  const options = Object.values(item.variantOptions ?? {});
+  return options.length > 0 ? `${item.productName} (${options.join(', ')})` : item.productName;
+};
+
+const toInvoiceLine = (item: OrderItem): InvoiceLine => {
+  const discount = item.discountAmount ?? 0;
+  const tax = item.taxAmount ?? 0;
+  return {
+    orderItemId: item.id,
+    description: describeItem(item),
+    quantity: item.quantity,
+    unitPrice: item.price,
+    discountAmount: discount,
+    taxRate: item.taxRate ?? 0,
+    taxAmount: tax,
+    totalAmount: round2(item.totalPrice - discount + tax)
+  };
+};
+
+// Issues the invoice of every seller of a paid order that has none yet. The
+// order's shipping is shared among the sellers that ship something, in
+// proportion to the value of what they ship.
+export const issueInvoices = (orderId: string): Promise<Invoice[]> =>
+  transaction(async () => {
+    const order = await OrdersRepo.findById(orderId);
+    if (!order) return [];
+
+    const sellerOrders = await SellerOrdersRepo.listByOrder(orderId);
+    const itemsOf = (sellerOrderId: string) => order.items.filter(item => item.sellerOrderId === sellerOrderId);
+    const shipped = sellerOrders.map(sellerOrder => itemsOf(sellerOrder.id).filter(item => !item.isDigital));
+    const byValue = shipped.map(items =>
+      items.reduce((sum, item) => sum + item.totalPrice - (item.discountAmount ?? 0), 0)
+    );
+    // Shipping charged on goods discounted to nothing still has to land somewhere
+    const shares = allocate(
+      order.shippingAmount ?? 0,
+      byValue.some(value => value > 0) ? byValue : shipped.map(items => items.length)
+    );
+
+    const issued: Invoice[] = [];
+    for (const [index, sellerOrder] of sellerOrders.entries()) {
+      if (await InvoicesRepo.findBySellerOrder(sellerOrder.id)) continue;
+
+      const lines = itemsOf(sellerOrder.id).map(toInvoiceLine);
+      const taxAmount = round2(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+      const shippingAmount = shares[index];
+
+      issued.push(await InvoicesRepo.create({
+        number: await drawNumber(sellerOrder.sellerId, 'invoice'),
+        type: 'invoice',
+        sellerId: sellerOrder.sellerId,
+        orderId,
+        sellerOrderId: sellerOrder.id,
+        lines,
+        subtotalAmount: sellerOrder.subtotalAmount,
+        discountAmount: sellerOrder.discountAmount,
+        shippingAmount,
+        taxAmount,
+        totalAmount: round2(sellerOrder.totalAmount + shippingAmount + taxAmount),
+        currency: getCurrency()
+      }));
+    }
+    return issued;
+  });
+
+// What is left on an invoice once its credit notes are taken off
+const remainingOf = async (invoice: Invoice) => {
+  const credited = await InvoicesRepo.sumCredited(invoice.id);
+  return {
+    goods: round2(invoice.subtotalAmount - invoice.discountAmount - (credited.subtotalAmount - credited.discountAmount)),
+    shipping: round2(invoice.shippingAmount - credited.shippingAmount),
+    tax: round2(invoice.taxAmount - credited.taxAmount),
+    total: round2(invoice.totalAmount - credited.totalAmount)
+  };
+};
+
+const createCreditNote = async (
+  invoice: Invoice,
+  reason: string,
+  lines: InvoiceLine[],
+  shippingAmount = 0
+): Promise<Invoice> => {
+  const subtotalAmount = round2(lines.reduce((sum, line) => sum + line.totalAmount - line.taxAmount, 0));
+  const taxAmount = round2(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+  return InvoicesRepo.create({
+    number: await drawNumber(invoice.sellerId, 'credit_note'),
+    type: 'credit_note',
+    sellerId: invoice.sellerId,
+    orderId: invoice.orderId,
+    sellerOrderId: invoice.sellerOrderId,
+    creditedInvoiceId: invoice.id,
+    reason,
+    lines,
+    subtotalAmount,
+    discountAmount: 0,
+    shippingAmount,
+    taxAmount,
+    totalAmount: round2(subtotalAmount + shippingAmount + taxAmount),
+    currency: invoice.currency
+  });
+};
+
+// Credits returned units of an item for `amount` (what the buyer got back,
+// tax included). Orders invoiced before invoicing existed have nothing to credit.
+export const creditReturnedItem = async (
+  item: OrderItem,
+  quantity: number,
+  amount: number,
+  reason: string
+): Promise<Invoice | null> => {
+  const invoice = item.sellerOrderId ? await InvoicesRepo.findBySellerOrder(item.sellerOrderId) : null;
+  if (!invoice) return null;
+
+  const credit = Math.min(amount, (await remainingOf(invoice)).total);
+  if (credit <= 0) return null;
+
+  const paid = item.totalPrice - (item.discountAmount ?? 0) + (item.taxAmount ?? 0);
+  const taxAmount = paid > 0 ? round2(credit * (item.taxAmount ?? 0) / paid) : 0;
+  const goods = round2(credit - taxAmount);
+
+  return createCreditNote(invoice, reason, [{
+    orderItemId: item.id,
+    description: describeItem(item),
+    quantity,
+    unitPrice: round2(goods / quantity),
+    discountAmount: 0,
+    taxRate: item.taxRate ?? 0,
+    taxAmount,
+    totalAmount: round2(credit)
+  }]);
+};
+
+// Credits an order-level refund that is not tied to particular items, shared
+// among the order's invoices by what is left on each. Without an amount
+// whatever is left on every invoice is credited (a full refund).
+export const creditOrderRefund = (orderId: string, reason: string, amount?: number): Promise<Invoice[]> =>
+  transaction(async () => {
+    const invoices = (await InvoicesRepo.listByOrder(orderId)).filter(invoice => invoice.type === 'invoice');
+    const remaining = await Promise.all(invoices.map(remainingOf));
+    const totals = remaining.map(left => Math.max(0, left.total));
+    const available = round2(totals.reduce((sum, total) => sum + total, 0));
+    const shares = allocate(Math.min(amount ?? available, available), totals);
+
+    const creditNotes: Invoice[] = [];
+    for (const [index, invoice] of invoices.entries()) {
+      const share = shares[index];
+      const left = remaining[index];
+      if (share <= 0) continue;
+
+      // Each part of what is left is credited in the same proportion
+      const ratio = share / left.total;
+      const shippingAmount = share === left.total ? left.shipping : round2(left.shipping * ratio);
+      const taxAmount = share === left.total ? left.tax : round2(left.tax * ratio);
+      const goods = round2(share - shippingAmount - taxAmount);
+
+      creditNotes.push(await createCreditNote(invoice, reason, [{
+        description: `Refund on invoice ${invoice.number}`,
+        quantity: 1,
+        unitPrice: goods,
+        discountAmount: 0,
+        taxAmount,
+        totalAmount: round2(goods + taxAmount)
+      }], shippingAmount));
+    }
+    return creditNotes;
+  });
@@ -0,0 +1,143 @@
+import { RateLimitError } from '../middleware/errorHandler.js';
+import { LoginThrottleScope, LoginThrottlesRepo, SecurityEventsRepo, UsersRepo } from '../repositories/index.js';
+import { User } from '../types.js';
+import { redeemAccountUnlock, sendAccountUnlockEmail } from './accountEmails.js';
+
+// Failures older than this no longer count towards backoff or a lockout
+const FAILURE_WINDOW_MS = 60 * 60_000;
+// Delay after the first failure past the free ones; it doubles with each further failure
+const BASE_BACKOFF_MS = 1000;
+
+interface ThrottlePolicy {
+  // Failures allowed before each further one delays the next attempt
+  freeFailures: number;
+  maxBackoffMs: number;
+  // Failures that lock the subject out, and for how long
+  lockAfter: number;
+  lockMs: number;
+}
+
+// Who a sign-in attempt is counted against
+export interface LoginAttempt {
+  email?: string;
+  ipAddress?: string;
+}
+
+const positiveNumber = (value: string | undefined, fallback: number) =>
+  Number(value) > 0 ? Number(value) : fallback;
+
+// An account is locked after a handful of failures. An IP gets more room, as
+// many people may share one, but one address guessing at many accounts is
+// still stopped.
+const getPolicies = (): Record<LoginThrottleScope, ThrottlePolicy> => ({
+  account: {
+    freeFailures: 3,
+    maxBackoffMs: 5 * 60_000,
+    lockAfter: positiveNumber(process.env.LOGIN_LOCKOUT_THRESHOLD, 10),
+    lockMs: positiveNumber(process.env.LOGIN_LOCKOUT_MINUTES, 30) * 60_000
+  },
+  ip: {
+    freeFailures: 10,
+    maxBackoffMs: 5 * 60_000,
+    lockAfter: positiveNumber(process.env.LOGIN_IP_BLOCK_THRESHOLD, 50),
+    lockMs: positiveNumber(process.env.LOGIN_IP_BLOCK_MINUTES, 60) * 60_000
+  }
+});
+
+// Accounts are tracked by email so unknown addresses are throttled the same
+// way and attempts do not reveal which accounts exist
+const accountSubject = (email: string) => email.trim().toLowerCase();
+
+const subjectsOf = ({ email, ipAddress }: LoginAttempt) => {
+  const subjects: Array<{ scope: LoginThrottleScope; subject: string }> = [];
+  if (email) subjects.push({ scope: 'account', subject: accountSubject(email) });
+  if (ipAddress) subjects.push({ scope: 'ip', subject: ipAddress });
+  return subjects;
+};
+
+const blockedMessage = (scope: LoginThrottleScope, locked: boolean, seconds: number) => {
+  if (!locked) {
+    return `Too many failed sign-in attempts, try again in ${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  return scope === 'account'
+    ? 'This account is temporarily locked after too many failed sign-in attempts. Use the link we emailed to unlock it, or try again later.'
+    : 'Too many failed sign-in attempts from this network, try again later';
+};
+
+// Refuses the attempt while the account or the IP is backing off or locked
+export const assertLoginAllowed = async (attempt: LoginAttempt): Promise<void> => {
+  const now = Date.now();
+  for (const { scope, subject } of subjectsOf(attempt)) {
+    const throttle = await LoginThrottlesRepo.find(scope, subject);
+    if (!throttle?.blockedUntil) continue;
+
+    const remainingMs = new Date(throttle.blockedUntil).getTime() - now;
+    if (remainingMs > 0) {
+      const seconds = Math.ceil(remainingMs / 1000);
+      throw new RateLimitError(blockedMessage(scope, throttle.locked, seconds), seconds);
+    }
+  }
+};
+
+// Logs the lockout and mails the owner of a real account an unlock link
+const reportLock = async (scope: LoginThrottleScope, subject: string, attempt: LoginAttempt, lockedUntil: string) => {
+  if (scope === 'ip') {
+    await SecurityEventsRepo.create({ type: 'ip_blocked', ipAddress: subject, details: { blockedUntil: lockedUntil } });
+    return;
+  }
+
+  const user = await UsersRepo.findByEmail(subject);
+  await SecurityEventsRepo.create({
+    type: 'account_locked',
+    userId: user?.id,
+    email: subject,
+    ipAddress: attempt.ipAddress,
+    details: { lockedUntil, knownAccount: Boolean(user) }
+  });
+
+  if (user?.isActive) {
+    await sendAccountUnlockEmail(user, lockedUntil)
+      .catch(error => console.error('Failed to send account unlock email:', error));
+  }
+};
+
+// Counts a failed attempt against the account and the IP, delaying their
+// next attempt once past the free failures and locking them at the limit
+export const recordLoginFailure = async (attempt: LoginAttempt): Promise<void> => {
+  const policies = getPolicies();
+  const now = Date.now();
+  const windowStart = new Date(now - FAILURE_WINDOW_MS).toISOString();
+
+  for (const { scope, subject } of subjectsOf(attempt)) {
+    const policy = policies[scope];
+    const failures = await LoginThrottlesRepo.recordFailure(scope, subject, windowStart);
+
+    if (failures >= policy.lockAfter) {
+      const lockedUntil = new Date(now + policy.lockMs).toISOString();
+      await LoginThrottlesRepo.lockUntil(scope, subject, lockedUntil);
+      await reportLock(scope, subject, attempt, lockedUntil);
+    } else if (failures > policy.freeFailures) {
+      const backoffMs = Math.min(BASE_BACKOFF_MS * 2 ** (failures - policy.freeFailures - 1), policy.maxBackoffMs);
+      await LoginThrottlesRepo.blockUntil(scope, subject, new Date(now + backoffMs).toISOString());
+    }
+  }
+};
+
+// A completed sign-in forgets the account's failures; the IP's still count
+export const clearAccountLockout = async (email: string): Promise<void> => {
+  await LoginThrottlesRepo.clear('account', accountSubject(email));
+};
+
+// Lifts a lockout through the link from the lockout email
+export const unlockAccount = async (token: string, ipAddress?: string): Promise<User> => {
+  const user = await redeemAccountUnlock(token);
+  await clearAccountLockout(user.email);
+  await SecurityEventsRepo.create({
+    type: 'account_unlocked',
+    userId: user.id,
+    email: accountSubject(user.email),
+    ipAddress,
+    details: { via: 'email_link' }
+  });
+  return user;
+};
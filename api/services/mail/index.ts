@@ -0,0 +1,37 @@
+import path from 'path';
+import { MailMessage, MailTransport } from './transport.js';
+import { createConsoleTransport, createFileTransport } from './localTransports.js';
+import { createSmtpTransport } from './smtpTransport.js';
+
+export * from './transport.js';
+
+const transports = new Map<string, MailTransport>();
+
+const registerTransport = (transport: MailTransport) => {
+  transports.set(transport.name, transport);
+};
+
+// MAIL_TRANSPORT picks the transport: console (default), file or smtp
+const getConfiguredTransport = (): MailTransport => {
+  const name = process.env.MAIL_TRANSPORT || 'console';
+  const transport = transports.get(name);
+  if (!transport) {
+    throw new Error(`Unknown mail transport "${name}"`);
+  }
+  return transport;
+};
+
+const getSender = () => {
+  const address = process.env.FROM_EMAIL || 'noreply@desvandigital.com';
+  const name = process.env.FROM_NAME;
+  return name ? `"${name.replace(/"/g, '')}" <${address}>` : address;
+};
+
+// Sends through the configured transport from FROM_NAME <FROM_EMAIL>
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getConfiguredTransport().send({ ...message, from: getSender() });
+};
+
+registerTransport(createConsoleTransport());
+registerTransport(createFileTransport(() => path.resolve(process.env.MAIL_OUTBOX_DIR || 'storage/outbox')));
+registerTransport(createSmtpTransport());
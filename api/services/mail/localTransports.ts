@@ -0,0 +1,44 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { MailTransport, OutgoingMail } from './transport.js';
+
+// Writes each message to the server log instead of sending it; the default
+// in development, where links in the text can be followed straight away
+export const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+
+  async send(mail: OutgoingMail) {
+    console.log([
+      '--- Outgoing email ---',
+      `From: ${mail.from}`,
+      `To: ${mail.to}`,
+      `Subject: ${mail.subject}`,
+      '',
+      mail.text,
+      '----------------------'
+    ].join('\n'));
+  }
+});
+
+// Keeps each message as a .eml file in a directory (MAIL_OUTBOX_DIR), which
+// any mail client can open
+export const createFileTransport = (getDirectory: () => string): MailTransport => ({
+  name: 'file',
+
+  async send(mail: OutgoingMail) {
+    const directory = getDirectory();
+    await fs.mkdir(directory, { recursive: true });
+
+    const headers = [
+      `From: ${mail.from}`,
+      `To: ${mail.to}`,
+      `Subject: ${mail.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8'
+    ];
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`;
+    await fs.writeFile(path.join(directory, fileName), `${headers.join('\r\n')}\r\n\r\n${mail.text}\r\n`);
+  }
+});
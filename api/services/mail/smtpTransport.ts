@@ -0,0 +1,39 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailTransport, OutgoingMail } from './transport.js';
+
+const DEFAULT_SMTP_PORT = 587;
+
+// Delivers through the SMTP server in SMTP_HOST/SMTP_PORT, signing in with
+// SMTP_USER/SMTP_PASS when set. Port 465 speaks TLS from the start; other
+// ports upgrade with STARTTLS when the server offers it.
+export const createSmtpTransport = (): MailTransport => {
+  let transporter: Transporter | null = null;
+
+  // Created on first use: the environment is only loaded after modules are
+  const getTransporter = () => {
+    if (!transporter) {
+      const host = process.env.SMTP_HOST;
+      if (!host) {
+        throw new Error('SMTP_HOST not configured');
+      }
+      const port = Number(process.env.SMTP_PORT) || DEFAULT_SMTP_PORT;
+      transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure: port === 465,
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined
+      });
+    }
+    return transporter;
+  };
+
+  return {
+    name: 'smtp',
+
+    async send(mail: OutgoingMail) {
+      await getTransporter().sendMail(mail);
+    }
+  };
+};
@@ -0,0 +1,17 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+// What the mailer needs from a way of delivering email. Transports throw
+// when a message could not be handed over.
+export interface MailTransport {
+  readonly name: string;
+  send(mail: OutgoingMail): Promise<void>;
+}
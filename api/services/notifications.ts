@@ -0,0 +1,30 @@
+import { Server } from 'socket.io';
+import { NotificationsRepo, CreateNotificationInput } from '../repositories/index.js';
+import { sendNotificationToUser } from '../socket/handlers.js';
+import { Notification } from '../types.js';
+
+// The type defaults to info
+export type NotificationInput = Omit<CreateNotificationInput, 'type'> & Partial<Pick<CreateNotificationInput, 'type'>>;
+
+let socketServer: Server | null = null;
+
+// Lets new notifications reach users who are connected right now
+export const attachNotificationSocket = (io: Server) => {
+  socketServer = io;
+};
+
+// Stores the notification and pushes it to the user when they are online.
+// Failures are logged rather than thrown, so a notification that cannot be
+// delivered never undoes the change that caused it.
+export const notifyUser = async (input: NotificationInput): Promise<Notification | null> => {
+  try {
+    const notification = await NotificationsRepo.create({ type: 'info', ...input });
+    if (socketServer) {
+      sendNotificationToUser(socketServer, notification.userId, notification);
+    }
+    return notification;
+  } catch (error) {
+    console.error('Failed to notify user:', error);
+    return null;
+  }
+};
@@ -0,0 +1,244 @@
+import { transaction } from '../config/database.js';
+import { ConflictError, CustomValidationError, NotFoundError } from '../middleware/errorHandler.js';
+import {
+  OrdersRepo, OrderHistoryRepo, ProductReviewsRepo, ProductsRepo, SellerOrdersRepo, StockReservationsRepo
+} from '../repositories/index.js';
+import { Order } from '../types.js';
+import { releaseCoupons } from './discounts.js';
+import { grantEntitlements, revokeOrderEntitlements } from './entitlements.js';
+import { commitReservations, expireReservations, restockOrder } from './inventory.js';
+import { creditOrderRefund, issueInvoices } from './invoices.js';
+import { recordSellerEarnings, reverseRemainingEarnings } from './sellerLedger.js';
+
+type OrderStatus = Order['status'];
+type OrderPaymentStatus = Order['paymentStatus'];
+
+const DEFAULT_SWEEP_INTERVAL_MS = 60_000;
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  // Paid digital-only orders have nothing to ship and go straight to delivered
+  pending: ['processing', 'delivered', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: []
+};
+
+export const PAYMENT_STATUS_TRANSITIONS: Record<OrderPaymentStatus, OrderPaymentStatus[]> = {
+  pending: ['processing', 'paid', 'failed'],
+  processing: ['paid', 'failed'],
+  // A declined payment can be retried
+  failed: ['pending', 'processing', 'paid'],
+  paid: ['refunded'],
+  refunded: []
+};
+
+// Seller orders left behind when the whole order moves (e.g. an admin ships
+// it) are brought along; ones already further along keep their status
+const SELLER_ORDERS_BROUGHT_ALONG: Record<OrderStatus, OrderStatus[]> = {
+  pending: [],
+  processing: ['pending'],
+  shipped: ['pending', 'processing'],
+  delivered: ['pending', 'processing', 'shipped'],
+  cancelled: ['pending', 'processing']
+};
+
+const isDigitalOnly = (order: Order) => order.items.length > 0 && order.items.every(item => item.isDigital);
+
+// Conditions beyond the transition table; each returns why the move is refused
+const ORDER_STATUS_GUARDS: Partial<Record<OrderStatus, (order: Order) => string | null>> = {
+  processing: order => order.paymentStatus === 'paid' ? null : 'Order must be paid before it can be processed',
+  delivered: order => order.status !== 'pending' || (order.paymentStatus === 'paid' && isDigitalOnly(order))
+    ? null
+    : 'Only paid orders of digital items are delivered without shipping'
+};
+
+// Same for payment status moves: paying would commit stock, deliver digital
+// items, credit sellers and invoice an order that is no longer going ahead
+const PAYMENT_STATUS_GUARDS: Partial<Record<OrderPaymentStatus, (order: Order) => string | null>> = {
+  paid: order => order.status === 'cancelled' ? 'A cancelled order cannot be paid' : null
+};
+
+export interface TransitionContext {
+  // Omitted for changes made by the system (payment webhooks, expiry)
+  actorId?: string | null;
+  note?: string | null;
+}
+
+export interface StatusTransitionOptions extends TransitionContext {
+  trackingNumber?: string | null;
+}
+
+export interface PaymentTransitionOptions extends TransitionContext {
+  paymentIntentId?: string | null;
+}
+
+const loadOrder = async (orderId: string): Promise<Order> => {
+  const order = await OrdersRepo.findById(orderId);
+  if (!order) {
+    throw new NotFoundError('Order not found');
+  }
+  return order;
+};
+
+const concurrentChange = () => new ConflictError('Order was changed by another request, please retry');
+
+// Why the order cannot move to `to`, or null when it can
+export const getStatusTransitionError = (order: Order, to: OrderStatus): string | null => {
+  if (!ORDER_STATUS_TRANSITIONS[order.status].includes(to)) {
+    return `Cannot change status from ${order.status} to ${to}`;
+  }
+  return ORDER_STATUS_GUARDS[to]?.(order) ?? null;
+};
+
+export const getPaymentTransitionError = (order: Order, to: OrderPaymentStatus): string | null => {
+  if (order.paymentStatus === to) {
+    return null;
+  }
+  if (!PAYMENT_STATUS_TRANSITIONS[order.paymentStatus].includes(to)) {
+    return `Cannot change payment status from ${order.paymentStatus} to ${to}`;
+  }
+  return PAYMENT_STATUS_GUARDS[to]?.(order) ?? null;
+};
+
+// First history entry of a freshly placed order
+export const recordOrderPlaced = (order: Order, actorId?: string | null) =>
+  OrderHistoryRepo.record({
+    orderId: order.id,
+    field: 'status',
+    toStatus: order.status,
+    actorId,
+    note: 'Order placed'
+  });
+
+// Moves the fulfilment status. Cancelling puts the order's stock and coupon
+// uses back; refunding a paid order is the caller's job (see checkout.cancelOrder).
+export const changeOrderStatus = (
+  orderId: string,
+  to: OrderStatus,
+  { actorId, note, trackingNumber }: StatusTransitionOptions = {}
+): Promise<Order> =>
+  transaction(async () => {
+    const order = await loadOrder(orderId);
+    const from = order.status;
+
+    const refusal = getStatusTransitionError(order, to);
+    if (refusal) {
+      throw new CustomValidationError(refusal);
+    }
+
+    if (!await OrdersRepo.transitionStatus(orderId, from, to, { trackingNumber })) {
+      throw concurrentChange();
+    }
+    await OrderHistoryRepo.record({ orderId, field: 'status', fromStatus: from, toStatus: to, actorId, note });
+    await SellerOrdersRepo.advanceByOrder(orderId, SELLER_ORDERS_BROUGHT_ALONG[to], to);
+
+    if (to === 'cancelled') {
+      await restockOrder(orderId);
+      await releaseCoupons(orderId);
+      await revokeOrderEntitlements(orderId, 'Order cancelled');
+    }
+
+    return loadOrder(orderId);
+  });
+
+// Moves the payment status. Setting the current status again only swaps the
+// payment intent (a retry before confirmation) and is not recorded.
+export const changePaymentStatus = (
+  orderId: string,
+  to: OrderPaymentStatus,
+  { actorId, note, paymentIntentId }: PaymentTransitionOptions = {}
+): Promise<Order> =>
+  transaction(async () => {
+    const order = await loadOrder(orderId);
+    const from = order.paymentStatus;
+
+    const refusal = getPaymentTransitionError(order, to);
+    if (refusal) {
+      throw new CustomValidationError(refusal);
+    }
+    if (!await OrdersRepo.transitionPaymentStatus(orderId, from, to, paymentIntentId)) {
+      throw concurrentChange();
+    }
+    if (from === to) {
+      return loadOrder(orderId);
+    }
+
+    await OrderHistoryRepo.record({ orderId, field: 'paymentStatus', fromStatus: from, toStatus: to, actorId, note });
+
+    // The held stock is now sold (and counts towards the products' sales),
+    // digital items can be delivered, sellers are credited and invoice their
+    // part, and the buyer's reviews of the items become verified
+    if (to === 'paid') {
+      await commitReservations(orderId);
+      for (const item of order.items) {
+        await ProductsRepo.incrementSalesCount(item.productId, item.quantity);
+      }
+      await grantEntitlements(orderId);
+      await recordSellerEarnings(orderId);
+      await issueInvoices(orderId);
+      await ProductReviewsRepo.markVerifiedForOrder(orderId);
+
+      // Granting access delivered them, so the buyer can no longer cancel
+      // for a refund and keep the files and license keys
+      if (order.status === 'pending' && isDigitalOnly(order)) {
+        await changeOrderStatus(orderId, 'delivered', { note: 'Digital items delivered on payment' });
+      }
+    }
+    // Whatever was not refunded piecemeal goes with the final refund
+    if (to === 'refunded') {
+      await OrdersRepo.addRefund(orderId, order.totalAmount - (order.refundedAmount ?? 0));
+      await revokeOrderEntitlements(orderId, 'Order refunded');
+      await reverseRemainingEarnings(orderId);
+      await creditOrderRefund(orderId, note || 'Order refunded');
+    }
+
+    return loadOrder(orderId);
+  });
+
+// Restocks reservations whose payment window has passed and cancels their
+// still-unpaid orders. Orders with a payment still settling keep their stock.
+// Returns the ids of the orders that were expired.
+export const releaseExpiredReservations = async (now: Date = new Date()): Promise<string[]> => {
+  const expired = await StockReservationsRepo.listExpired(now);
+  const orderIds = [...new Set(expired.map(reservation => reservation.orderId))];
+  const released: string[] = [];
+
+  for (const orderId of orderIds) {
+    await transaction(async () => {
+      const order = await OrdersRepo.findById(orderId);
+      if (!order || order.paymentStatus === 'processing') return;
+
+      // Re-checked inside the transaction: payment may have committed meanwhile
+      const settled = await expireReservations(orderId);
+      if (settled.length === 0) return;
+      released.push(orderId);
+
+      if (order.paymentStatus !== 'paid' && !getStatusTransitionError(order, 'cancelled')) {
+        await changeOrderStatus(orderId, 'cancelled', { note: 'Stock reservation expired before payment' });
+      }
+    });
+  }
+
+  return released;
+};
+
+// Periodically expires stale reservations; the timer does not keep the process alive
+export const startReservationSweeper = (intervalMs?: number) => {
+  const interval = intervalMs
+    || Number(process.env.ORDER_RESERVATION_SWEEP_INTERVAL_MS)
+    || DEFAULT_SWEEP_INTERVAL_MS;
+
+  const timer = setInterval(() => {
+    releaseExpiredReservations()
+      .then(orderIds => {
+        if (orderIds.length > 0) {
+          console.log(`⏱️  Released expired stock reservations for ${orderIds.length} order(s)`);
+        }
+      })
+      .catch(error => console.error('Failed to release expired stock reservations:', error));
+  }, interval);
+  timer.unref();
+
+  return timer;
+};
@@ -0,0 +1,248 @@
+import { transaction } from '../../config/database.js';
+import { ConflictError, CustomValidationError } from '../../middleware/errorHandler.js';
+import { OrdersRepo, PaymentsRepo, PaymentStatusChange } from '../../repositories/index.js';
+import { Order, Payment, PaymentStatus } from '../../types.js';
+import { creditOrderRefund } from '../invoices.js';
+import { changePaymentStatus, TransitionContext } from '../orderLifecycle.js';
+import { recordOrderRefund } from '../sellerLedger.js';
+import { PaymentProvider, CaptureOptions } from './provider.js';
+import { createMockProvider } from './mockProvider.js';
+
+export * from './provider.js';
+
+// Allowed payment status moves; anything else is rejected (API) or ignored (webhooks)
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  requires_confirmation: ['processing', 'succeeded', 'failed', 'canceled'],
+  processing: ['succeeded', 'failed'],
+  succeeded: ['refunded'],
+  failed: [],
+  refunded: [],
+  canceled: []
+};
+
+// How a payment's status shows on its order
+const ORDER_PAYMENT_STATUS: Record<PaymentStatus, Order['paymentStatus']> = {
+  requires_confirmation: 'pending',
+  processing: 'processing',
+  succeeded: 'paid',
+  failed: 'failed',
+  refunded: 'refunded',
+  canceled: 'failed'
+};
+
+const providers = new Map<string, PaymentProvider>();
+
+const registerProvider = (provider: PaymentProvider) => {
+  providers.set(provider.name, provider);
+};
+
+export const getPaymentProvider = (name: string): PaymentProvider => {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new CustomValidationError(`Unknown payment provider "${name}"`);
+  }
+  return provider;
+};
+
+// Every order payment method is served by the configured gateway for now
+const getConfiguredProvider = () => getPaymentProvider(process.env.PAYMENT_PROVIDER || 'mock');
+
+const getCurrency = () => (process.env.PAYMENT_CURRENCY || 'usd').toLowerCase();
+
+// A cancelled order that was never paid stays unpaid: money that still lands
+// on it is refunded (see refundIfOrderCancelled) instead of settling it
+const isUnpaidCancelled = (order: Order) =>
+  order.status === 'cancelled' && order.paymentStatus !== 'paid' && order.paymentStatus !== 'refunded';
+
+// Records a payment status change and mirrors it on the order through the
+// order lifecycle. Only the order's current intent may change the order's
+// payment status, but refunds on any of its payments count towards its total.
+const applyPaymentStatus = (
+  payment: Payment,
+  change: PaymentStatusChange,
+  context: TransitionContext = {}
+): Promise<Payment> =>
+  transaction(async () => {
+    const updated = (await PaymentsRepo.updateStatus(payment.id, change))!;
+    const order = await OrdersRepo.findById(payment.orderId);
+    if (!order) return updated;
+
+    if (isUnpaidCancelled(order) && (change.status === 'succeeded' || change.status === 'refunded')) {
+      return updated;
+    }
+
+    if (change.refundedAmount !== undefined && change.refundedAmount > payment.refundedAmount) {
+      await OrdersRepo.addRefund(order.id, change.refundedAmount - payment.refundedAmount);
+    }
+    if (order.paymentIntentId === payment.providerIntentId) {
+      await changePaymentStatus(order.id, ORDER_PAYMENT_STATUS[change.status], {
+        ...context,
+        note: context.note ?? change.failureReason
+      });
+    }
+
+    return updated;
+  });
+
+// Partially refunded payments stay settled
+const refundChange = (payment: Payment, refundedAmount: number): PaymentStatusChange => ({
+  status: refundedAmount >= payment.amount ? 'refunded' : 'succeeded',
+  refundedAmount
+});
+
+const canTransition = (from: PaymentStatus, to: PaymentStatus) =>
+  PAYMENT_TRANSITIONS[from].includes(to);
+
+// Opens a new intent for the order's outstanding amount and makes it the order's current one
+export const createPayment = async (order: Order): Promise<Payment> => {
+  if (order.paymentStatus === 'paid' || order.paymentStatus === 'refunded') {
+    throw new ConflictError('Order has already been paid');
+  }
+  if (order.paymentStatus === 'processing') {
+    throw new ConflictError('A payment for this order is already being processed');
+  }
+  if (order.status === 'cancelled') {
+    throw new ConflictError('Cannot pay for a cancelled order');
+  }
+
+  const provider = getConfiguredProvider();
+  const currency = getCurrency();
+  const intent = await provider.createIntent({ orderId: order.id, amount: order.totalAmount, currency });
+
+  const payment = await transaction(async () => {
+    const created = await PaymentsRepo.create({
+      orderId: order.id,
+      provider: provider.name,
+      providerIntentId: intent.id,
+      amount: order.totalAmount,
+      currency,
+      status: intent.status
+    });
+    await changePaymentStatus(order.id, ORDER_PAYMENT_STATUS[intent.status], { paymentIntentId: intent.id });
+    return created;
+  });
+
+  return { ...payment, clientSecret: intent.clientSecret };
+};
+
+// Captures the intent; the result may still be `processing` when the gateway settles asynchronously
+export const confirmPayment = async (payment: Payment, options: CaptureOptions = {}): Promise<Payment> => {
+  if (payment.status !== 'requires_confirmation') {
+    throw new ConflictError(`Payment is already ${payment.status}`);
+  }
+  const order = await OrdersRepo.findById(payment.orderId);
+  if (order?.status === 'cancelled') {
+    throw new ConflictError('Cannot pay for a cancelled order');
+  }
+
+  const intent = await getPaymentProvider(payment.provider).capture(payment.providerIntentId, options);
+  const applied = await applyPaymentStatus(payment, { status: intent.status, failureReason: intent.failureReason });
+  return refundIfOrderCancelled(applied);
+};
+
+// Voids the order's intents that were never confirmed, so a cancelled order
+// cannot be paid through them. Ones already processing may still settle and
+// are then refunded.
+export const cancelOpenPayments = async (orderId: string): Promise<void> => {
+  const payments = await PaymentsRepo.listByOrder(orderId);
+  for (const payment of payments.filter(({ status }) => status === 'requires_confirmation')) {
+    const intent = await getPaymentProvider(payment.provider).cancel(payment.providerIntentId);
+    await PaymentsRepo.updateStatus(payment.id, { status: intent.status, failureReason: 'Order cancelled' });
+  }
+};
+
+// A payment that settles after its order was cancelled (it was processing
+// when the order was cancelled, or raced the cancellation) is refunded in full
+const refundIfOrderCancelled = async (payment: Payment): Promise<Payment> => {
+  if (payment.status !== 'succeeded') return payment;
+  const order = await OrdersRepo.findById(payment.orderId);
+  if (!order || !isUnpaidCancelled(order)) return payment;
+  return refundPayment(payment, undefined, { note: 'Order was cancelled before the payment settled' });
+};
+
+// Refunds `amount` (default: whatever has not been refunded yet) of a settled payment
+export const refundPayment = async (
+  payment: Payment,
+  amount?: number,
+  context: TransitionContext = {}
+): Promise<Payment> => {
+  if (payment.status !== 'succeeded') {
+    throw new ConflictError('Only settled payments can be refunded');
+  }
+
+  const refundable = payment.amount - payment.refundedAmount;
+  const requested = amount ?? refundable;
+  if (requested <= 0 || requested > refundable) {
+    throw new CustomValidationError(`Refund amount must be between 0 and ${refundable.toFixed(2)}`);
+  }
+
+  const refund = await getPaymentProvider(payment.provider).refund(payment.providerIntentId, requested);
+  return applyPaymentStatus(payment, refundChange(payment, payment.refundedAmount + refund.refundedAmount), context);
+};
+
+// Refunds a payment directly (not through a return), crediting the order's
+// invoices and charging its sellers in the same transaction. That happens
+// before the refund, so one that settles the order finds nothing left to
+// credit when its payment becomes refunded.
+export const refundPaymentWithCredit = (
+  payment: Payment,
+  amount?: number,
+  context: TransitionContext = {}
+): Promise<Payment> =>
+  transaction(async () => {
+    const refundable = payment.amount - payment.refundedAmount;
+    const requested = amount ?? refundable;
+    const reason = requested < refundable ? 'Partial refund' : 'Order refunded';
+    await creditOrderRefund(payment.orderId, reason, requested);
+    await recordOrderRefund(payment.orderId, requested, reason);
+    return refundPayment(payment, amount, context);
+  });
+
+// Refunds `amount` (default: whatever is left) of the order's settled gateway
+// payment. Orders marked paid by hand have no gateway payment; null is
+// returned and settling the money is left to the admin.
+export const refundOrder = async (
+  order: Order,
+  amount?: number,
+  context: TransitionContext = {}
+): Promise<Payment | null> => {
+  const payments = await PaymentsRepo.listByOrder(order.id);
+  const settled = payments.find(payment =>
+    payment.providerIntentId === order.paymentIntentId && payment.status === 'succeeded'
+  );
+  return settled ? refundPayment(settled, amount, context) : null;
+};
+
+// Verifies and applies a gateway event. Unknown intents and out-of-order
+// events are acknowledged but ignored so the gateway stops retrying.
+export const handleWebhook = async (
+  providerName: string,
+  payload: Buffer | string,
+  signature: string | undefined
+): Promise<Payment | null> => {
+  const provider = getPaymentProvider(providerName);
+  if (!provider.verifyWebhookSignature(payload, signature)) {
+    throw new CustomValidationError('Invalid webhook signature');
+  }
+
+  const event = provider.parseWebhookEvent(payload);
+  const payment = await PaymentsRepo.findByProviderIntent(provider.name, event.intentId);
+  if (!payment) return null;
+
+  if (event.type === 'payment.refunded') {
+    if (payment.status !== 'succeeded') return payment;
+    const refunded = payment.refundedAmount + (event.refundedAmount ?? payment.amount - payment.refundedAmount);
+    return applyPaymentStatus(payment, refundChange(payment, refunded));
+  }
+
+  const change: PaymentStatusChange = event.type === 'payment.succeeded'
+    ? { status: 'succeeded' }
+    : { status: 'failed', failureReason: event.failureReason };
+
+  if (!canTransition(payment.status, change.status)) return payment;
+  return refundIfOrderCancelled(await applyPaymentStatus(payment, change));
+};
+
+registerProvider(createMockProvider(async (payload, signature) => {
+  await handleWebhook('mock', payload, signature);
+}));
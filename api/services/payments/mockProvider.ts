@@ -0,0 +1,78 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  PaymentProvider, PaymentWebhookEvent, ProviderIntent, SimulatedOutcome, CaptureOptions
+} from './provider.js';
+
+// Receives the signed events the mock gateway emits for async settlement,
+// exactly as a real gateway would POST them to the webhook endpoint
+export type WebhookDelivery = (payload: string, signature: string) => Promise<void>;
+
+const DEFAULT_SETTLE_DELAY_MS = 3000;
+
+const getWebhookSecret = () => process.env.MOCK_PAYMENT_WEBHOOK_SECRET || 'mock_webhook_secret';
+
+const sign = (payload: Buffer | string) =>
+  createHmac('sha256', getWebhookSecret()).update(payload).digest('hex');
+
+// Local stand-in for a card gateway. Captures succeed, fail or settle later
+// through a signed webhook, depending on the requested (or configured) outcome.
+export const createMockProvider = (deliver: WebhookDelivery): PaymentProvider => {
+  const emit = (event: Omit<PaymentWebhookEvent, 'id'>) => {
+    const payload = JSON.stringify({ id: `mock_evt_${randomUUID()}`, ...event });
+    deliver(payload, sign(payload))
+      .catch(error => console.error('Mock payment webhook delivery failed:', error));
+  };
+
+  const settleLater = (intentId: string) => {
+    const delay = Number(process.env.MOCK_PAYMENT_SETTLE_DELAY_MS) || DEFAULT_SETTLE_DELAY_MS;
+    setTimeout(() => emit({ type: 'payment.succeeded', intentId }), delay).unref();
+  };
+
+  return {
+    name: 'mock',
+
+    async createIntent() {
+      const id = `mock_pi_${randomUUID()}`;
+      return {
+        id,
+        status: 'requires_confirmation',
+        clientSecret: `${id}_secret_${randomBytes(12).toString('hex')}`
+      };
+    },
+
+    async capture(intentId: string, options: CaptureOptions = {}): Promise<ProviderIntent> {
+      const outcome = options.simulate
+        || (process.env.MOCK_PAYMENT_OUTCOME as SimulatedOutcome | undefined)
+        || 'success';
+
+      switch (outcome) {
+        case 'failure':
+          return { id: intentId, status: 'failed', failureReason: 'Card declined (simulated)' };
+        case 'async':
+          settleLater(intentId);
+          return { id: intentId, status: 'processing' };
+        default:
+          return { id: intentId, status: 'succeeded' };
+      }
+    },
+
+    async cancel(intentId: string): Promise<ProviderIntent> {
+      return { id: intentId, status: 'canceled' };
+    },
+
+    async refund(_intentId: string, amount: number) {
+      return { status: 'refunded', refundedAmount: amount };
+    },
+
+    verifyWebhookSignature(payload, signature) {
+      if (!signature) return false;
+      const expected = Buffer.from(sign(payload));
+      const received = Buffer.from(signature);
+      return expected.length === received.length && timingSafeEqual(expected, received);
+    },
+
+    parseWebhookEvent(payload) {
+      return JSON.parse(payload.toString()) as PaymentWebhookEvent;
+    }
+  };
+};
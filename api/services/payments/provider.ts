@@ -0,0 +1,51 @@
+import { PaymentStatus } from '../../types.js';
+
+// Outcome the mock gateway should produce when an intent is captured.
+// Real gateways decide this themselves and ignore the hint.
+export type SimulatedOutcome = 'success' | 'failure' | 'async';
+
+export interface CreateIntentParams {
+  orderId: string;
+  amount: number;
+  currency: string;
+}
+
+export interface CaptureOptions {
+  simulate?: SimulatedOutcome;
+}
+
+export interface ProviderIntent {
+  id: string;
+  status: PaymentStatus;
+  clientSecret?: string;
+  failureReason?: string;
+}
+
+export interface ProviderRefund {
+  status: PaymentStatus;
+  refundedAmount: number;
+}
+
+export type PaymentWebhookEventType = 'payment.succeeded' | 'payment.failed' | 'payment.refunded';
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookEventType;
+  intentId: string;
+  failureReason?: string;
+  refundedAmount?: number;
+}
+
+// What the payment service needs from a gateway. Amounts are in major units
+// (e.g. 12.50) of `currency`.
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(params: CreateIntentParams): Promise<ProviderIntent>;
+  capture(intentId: string, options?: CaptureOptions): Promise<ProviderIntent>;
+  // Voids an intent that has not been captured
+  cancel(intentId: string): Promise<ProviderIntent>;
+  refund(intentId: string, amount: number): Promise<ProviderRefund>;
+  // Checks the signature header against the exact bytes that were received
+  verifyWebhookSignature(payload: Buffer | string, signature: string | undefined): boolean;
+  parseWebhookEvent(payload: Buffer | string): PaymentWebhookEvent;
+}
@@ -0,0 +1,93 @@
+// Minimal PDF writer for generated documents: text in the standard Helvetica
+// faces and horizontal rules on A4 pages. The standard faces need no font
+// file, so documents are produced without any external renderer.
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+// Positions are in points from the top left corner of the page
+export type PdfElement =
+  | { type: 'text'; x: number; y: number; text: string; size?: number; bold?: boolean; align?: 'left' | 'right' }
+  | { type: 'rule'; x1: number; x2: number; y: number };
+
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+}
+
+const DEFAULT_FONT_SIZE = 10;
+
+// Helvetica advance widths (per 1000 units of font size) for the characters
+// that appear in figures; other characters get an average width
+const CHAR_WIDTHS: Record<string, number> = {
+  ' ': 278, '.': 278, ',': 278, '-': 333, '%': 889, '(': 333, ')': 333, '/': 278, ':': 278, '$': 556, '€': 556
+};
+const DIGIT_WIDTH = 556;
+const AVERAGE_WIDTH = 520;
+
+// Width of the text in points: exact for amounts, close enough for words
+export const textWidth = (text: string, size = DEFAULT_FONT_SIZE) =>
+  [...text].reduce((sum, char) => sum + (/\d/.test(char) ? DIGIT_WIDTH : CHAR_WIDTHS[char] ?? AVERAGE_WIDTH), 0)
+    * size / 1000;
+
+// WinAnsi covers Latin-1 plus the euro sign; anything else prints as "?"
+const toWinAnsi = (text: string) =>
+  [...text].map(char => {
+    if (char === '€') return '\x80';
+    const code = char.charCodeAt(0);
+    return code < 0x20 || (code >= 0x7f && code < 0xa0) || code > 0xff ? '?' : char;
+  }).join('');
+
+const escapeString = (text: string) => toWinAnsi(text).replace(/[\\()]/g, match => `\\${match}`);
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const renderContent = (elements: PdfElement[]) =>
+  elements.map(element => {
+    if (element.type === 'rule') {
+      const y = formatNumber(PAGE_HEIGHT - element.y);
+      return `0.5 w ${formatNumber(element.x1)} ${y} m ${formatNumber(element.x2)} ${y} l S`;
+    }
+    const size = element.size ?? DEFAULT_FONT_SIZE;
+    const x = element.align === 'right' ? element.x - textWidth(element.text, size) : element.x;
+    return `BT /${element.bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - element.y)} Td `
+      + `(${escapeString(element.text)}) Tj ET`;
+  }).join('\n');
+
+// One page per element list
+export const renderPdf = (pages: PdfElement[][], info: PdfInfo = {}): Buffer => {
+  const objects: string[] = [];
+  // Object numbers are fixed for the shared objects; pages follow from 6
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Producer (Desvan Digital)${info.title ? ` /Title (${escapeString(info.title)})` : ''}`
+    + `${info.author ? ` /Author (${escapeString(info.author)})` : ''} >>`;
+
+  pages.forEach((elements, index) => {
+    const content = renderContent(elements);
+    objects[pageIds[index]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+      + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+    objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Everything is Latin-1, so string lengths are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xref = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
@@ -0,0 +1,189 @@
+import { transaction } from '../config/database.js';
+import { ConflictError, CustomValidationError } from '../middleware/errorHandler.js';
+import { PriceHistoryRepo, ProductSalesRepo, ProductsRepo, WishlistsRepo } from '../repositories/index.js';
+import { PriceChangeReason, Product, ProductSale } from '../types.js';
+import { notifyUser } from './notifications.js';
+import { hasVariants } from './variants.js';
+
+const DEFAULT_SCHEDULER_INTERVAL_MS = 60_000;
+
+export interface SaleInput {
+  salePrice: number;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+
+// Tells wishlist subscribers about a lower price. After a rise, alerts that
+// already announced a lower price are armed again.
+const announcePriceChange = async (product: Product, previousPrice: number, price: number) => {
+  if (price > previousPrice) {
+    await WishlistsRepo.rearmPriceAlerts(product.id, price);
+    return;
+  }
+
+  for (const subscriber of await WishlistsRepo.listPriceAlertSubscribers(product.id, price)) {
+    await WishlistsRepo.markPriceAlerted(subscriber.userId, product.id, price);
+    await notifyUser({
+      userId: subscriber.userId,
+      type: 'success',
+      title: `Price drop: ${product.name}`,
+      message: `Now ${formatPrice(price)}, was ${formatPrice(previousPrice)}`,
+      actionUrl: `/product/${product.id}`,
+      actionText: 'View product'
+    });
+  }
+};
+
+// Sets the live price and, while a sale runs, the regular price beside it;
+// an actual change is recorded and announced
+const applyPrice = async (
+  product: Product,
+  price: number,
+  compareAtPrice: number | null,
+  { reason, saleId, actorId }: { reason: PriceChangeReason; saleId?: string; actorId?: string }
+) => {
+  await ProductsRepo.setPrice(product.id, price, compareAtPrice);
+  if (price === product.price) return;
+
+  await PriceHistoryRepo.record({
+    productId: product.id,
+    price,
+    previousPrice: product.price,
+    reason,
+    saleId,
+    changedBy: actorId
+  });
+  await announcePriceChange(product, product.price, price);
+};
+
+// A seller's own price change. Refused while a sale runs, as the end of the
+// sale would quietly put the old price back; repeating the price is fine.
+export const changePrice = (
+  product: Product,
+  price: number,
+  { reason, actorId }: { reason: Extract<PriceChangeReason, 'manual' | 'import'>; actorId: string }
+): Promise<void> =>
+  transaction(async () => {
+    if (price === product.price) return;
+    if (product.compareAtPrice !== undefined) {
+      throw new ConflictError('End the running sale before changing the price');
+    }
+    await applyPrice(product, price, null, { reason, actorId });
+  });
+
+const startSale = (sale: ProductSale): Promise<void> =>
+  transaction(async () => {
+    const product = await ProductsRepo.findById(sale.productId, { includeInactive: true });
+    if (!product) return;
+    if (!await ProductSalesRepo.transitionStatus(sale.id, 'scheduled', 'active', { regularPrice: product.price })) return;
+
+    await applyPrice(product, sale.salePrice, product.price, { reason: 'sale_start', saleId: sale.id });
+  });
+
+// Puts the regular price back; `status` is cancelled when the seller stops it early
+const endSale = (sale: ProductSale, status: 'ended' | 'cancelled', actorId?: string): Promise<void> =>
+  transaction(async () => {
+    if (!await ProductSalesRepo.transitionStatus(sale.id, 'active', status)) {
+      throw new ConflictError('Sale was changed by another request, please retry');
+    }
+    const product = await ProductsRepo.findById(sale.productId, { includeInactive: true });
+    if (!product) return;
+
+    const regularPrice = sale.regularPrice ?? product.compareAtPrice ?? product.price;
+    await applyPrice(product, regularPrice, null, { reason: 'sale_end', saleId: sale.id, actorId });
+  });
+
+// Schedules a sale of a product sold without variants. A sale whose start
+// has already come begins right away.
+export const scheduleSale = (product: Product, input: SaleInput, actorId: string): Promise<ProductSale> =>
+  transaction(async () => {
+    if (hasVariants(product)) {
+      throw new CustomValidationError('Products with options cannot go on sale; change the variant prices instead');
+    }
+    const regularPrice = product.compareAtPrice ?? product.price;
+    if (input.salePrice >= regularPrice) {
+      throw new CustomValidationError(`Sale price must be below the regular price of ${formatPrice(regularPrice)}`);
+    }
+    if (input.endsAt <= input.startsAt) {
+      throw new CustomValidationError('A sale must end after it starts');
+    }
+    if (input.endsAt.getTime() <= Date.now()) {
+      throw new CustomValidationError('A sale must end in the future');
+    }
+
+    const startsAt = input.startsAt.toISOString();
+    const endsAt = input.endsAt.toISOString();
+    if (await ProductSalesRepo.findOverlapping(product.id, startsAt, endsAt)) {
+      throw new ConflictError('Another sale of this product overlaps these dates');
+    }
+
+    const sale = await ProductSalesRepo.create({
+      productId: product.id,
+      salePrice: input.salePrice,
+      startsAt,
+      endsAt,
+      createdBy: actorId
+    });
+    if (input.startsAt.getTime() <= Date.now()) {
+      await startSale(sale);
+    }
+    return (await ProductSalesRepo.findById(sale.id))!;
+  });
+
+// Calls off a scheduled sale, or stops a running one and restores the price
+export const cancelSale = async (sale: ProductSale, actorId: string): Promise<ProductSale> => {
+  if (sale.status === 'active') {
+    await endSale(sale, 'cancelled', actorId);
+  } else if (sale.status !== 'scheduled' || !await ProductSalesRepo.transitionStatus(sale.id, 'scheduled', 'cancelled')) {
+    throw new ConflictError(`Cannot cancel a sale that is ${sale.status}`);
+  }
+  return (await ProductSalesRepo.findById(sale.id))!;
+};
+
+// Starts the sales whose time has come and ends those that are over. A
+// scheduled sale that is already over (the server was down all along) ends
+// without touching the price. One failing sale does not hold up the rest.
+export const runSaleScheduler = async () => {
+  const now = new Date().toISOString();
+  const counts = { started: 0, ended: 0 };
+
+  for (const sale of await ProductSalesRepo.listDue(now)) {
+    try {
+      if (sale.status === 'active') {
+        await endSale(sale, 'ended');
+        counts.ended++;
+      } else if (sale.endsAt <= now) {
+        await ProductSalesRepo.transitionStatus(sale.id, 'scheduled', 'ended');
+        counts.ended++;
+      } else {
+        await startSale(sale);
+        counts.started++;
+      }
+    } catch (error) {
+      console.error(`Failed to update sale ${sale.id}:`, error);
+    }
+  }
+  return counts;
+};
+
+// Periodically starts and ends sales; the timer does not keep the process alive
+export const startSaleScheduler = (intervalMs?: number) => {
+  const interval = intervalMs
+    || Number(process.env.SALE_SCHEDULER_INTERVAL_MS)
+    || DEFAULT_SCHEDULER_INTERVAL_MS;
+
+  const timer = setInterval(() => {
+    runSaleScheduler()
+      .then(({ started, ended }) => {
+        if (started + ended > 0) {
+          console.log(`🏷️  Started ${started} and ended ${ended} sale(s)`);
+        }
+      })
+      .catch(error => console.error('Failed to run the sale scheduler:', error));
+  }, interval);
+  timer.unref();
+
+  return timer;
+};
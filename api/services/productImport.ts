@@ -0,0 +1,189 @@
+import { transaction } from '../config/database.js';
+import { CreateProductInput, ProductsRepo, UpdateProductInput } from '../repositories/index.js';
+import { Product } from '../types.js';
+import { toCsv } from './csv.js';
+import { changePrice } from './pricing.js';
+import { hasVariants } from './variants.js';
+
+// Catalog columns, named like the fields of POST /api/products. In CSV the
+// list columns hold their values separated by `|`.
+export const CATALOG_COLUMNS = [
+  'sku', 'name', 'description', 'category', 'price', 'stock_quantity', 'is_digital', 'weight',
+  'tags', 'requirements', 'features', 'images', 'download_limit', 'issues_license_keys'
+];
+
+const LIST_COLUMNS = ['tags', 'requirements', 'features', 'images'];
+
+export const MAX_IMPORT_ROWS = 500;
+
+export type ProductImportInput = Omit<CreateProductInput, 'sellerId'>;
+
+export interface ImportRowError {
+  field: string;
+  message: string;
+}
+
+// One record of the file, numbered from 1, already checked against the
+// create rules; rows with errors are reported and never written
+export interface ImportRow {
+  row: number;
+  input: ProductImportInput;
+  errors: ImportRowError[];
+}
+
+export interface ImportRowResult {
+  row: number;
+  sku?: string;
+  action?: 'create' | 'update';
+  productId?: string;
+  errors: ImportRowError[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  imported: number;
+  created: number;
+  updated: number;
+  failed: number;
+  rows: ImportRowResult[];
+}
+
+export interface ImportOptions {
+  dryRun: boolean;
+  // Update the seller's product with the row's SKU instead of refusing the row
+  upsert: boolean;
+}
+
+// A CSV record in the shape of a create request body; empty cells are left out
+export const fromCsvRecord = (record: Record<string, string>): Record<string, unknown> => {
+  const body: Record<string, unknown> = {};
+  for (const [column, raw] of Object.entries(record)) {
+    const value = raw.trim();
+    if (value === '') continue;
+    body[column] = LIST_COLUMNS.includes(column)
+      ? value.split('|').map(item => item.trim()).filter(Boolean)
+      : value;
+  }
+  return body;
+};
+
+export const toCatalogRecord = (product: Product): Record<string, unknown> => ({
+  sku: product.sku ?? null,
+  name: product.name,
+  description: product.description,
+  category: product.category,
+  price: product.price,
+  stock_quantity: product.stockQuantity,
+  is_digital: product.isDigital,
+  weight: product.weight ?? null,
+  tags: product.tags,
+  requirements: product.requirements ?? [],
+  features: product.features ?? [],
+  images: product.images,
+  download_limit: product.downloadLimit ?? null,
+  issues_license_keys: product.issuesLicenseKeys ?? false
+});
+
+export const toCatalogCsv = (products: Product[]): string =>
+  toCsv(CATALOG_COLUMNS, products.map(product => {
+    const record = toCatalogRecord(product);
+    return CATALOG_COLUMNS.map(column => {
+      const value = record[column];
+      return Array.isArray(value) ? value.join('|') : value as string | number | boolean | null;
+    });
+  }));
+
+// Price and stock of a product with variants come from its variants, so a
+// row may only repeat them (as an export does)
+const variantConflicts = (product: Product, input: ProductImportInput): ImportRowError[] => {
+  if (!hasVariants(product)) return [];
+
+  const errors: ImportRowError[] = [];
+  if (input.price !== product.price) {
+    errors.push({ field: 'price', message: 'Set the price and stock of each variant instead' });
+  }
+  if (input.stockQuantity !== undefined && input.stockQuantity !== product.stockQuantity) {
+    errors.push({ field: 'stock_quantity', message: 'Set the price and stock of each variant instead' });
+  }
+  return errors;
+};
+
+const toChanges = (product: Product, input: ProductImportInput): UpdateProductInput => {
+  const changes: UpdateProductInput = { ...input, isActive: true };
+  if (hasVariants(product)) {
+    delete changes.price;
+    delete changes.stockQuantity;
+  }
+  return changes;
+};
+
+// Plans every row against the seller's catalog and, unless this is a dry run,
+// writes them in one transaction. A single failing row fails the whole import
+// so a corrected file can simply be sent again.
+export const importProducts = (
+  sellerId: string,
+  rows: ImportRow[],
+  { dryRun, upsert }: ImportOptions
+): Promise<ImportReport> =>
+  transaction(async () => {
+    const skus = rows.map(row => row.input.sku).filter((sku): sku is string => Boolean(sku));
+    const existing = new Map(
+      (await ProductsRepo.findBySkus(sellerId, [...new Set(skus)])).map(product => [product.sku!, product])
+    );
+
+    const seen = new Set<string>();
+    const plan = rows.map(({ row, input, errors }) => {
+      const sku = input.sku || undefined;
+      const rowErrors = [...errors];
+      const product = sku ? existing.get(sku) : undefined;
+
+      if (sku && seen.has(sku)) {
+        rowErrors.push({ field: 'sku', message: 'SKU appears more than once in the file' });
+      } else if (product && !upsert) {
+        rowErrors.push({ field: 'sku', message: 'A product with this SKU already exists' });
+      } else if (product) {
+        rowErrors.push(...variantConflicts(product, input));
+        if (product.compareAtPrice !== undefined && input.price !== product.price) {
+          rowErrors.push({ field: 'price', message: 'End the running sale before changing the price' });
+        }
+      }
+      if (sku) seen.add(sku);
+
+      return { row, sku, input, product, errors: rowErrors };
+    });
+
+    const failed = plan.filter(entry => entry.errors.length > 0).length;
+    const write = !dryRun && failed === 0;
+
+    const results: ImportRowResult[] = [];
+    for (const entry of plan) {
+      const action = entry.product ? 'update' as const : 'create' as const;
+      let productId = entry.product?.id;
+
+      if (write && entry.product) {
+        const { price, ...changes } = toChanges(entry.product, entry.input);
+        if (price !== undefined) {
+          await changePrice(entry.product, price, { reason: 'import', actorId: sellerId });
+        }
+        await ProductsRepo.update(entry.product.id, changes);
+      } else if (write) {
+        productId = (await ProductsRepo.create({ ...entry.input, sellerId })).id;
+      }
+
+      results.push(entry.errors.length > 0
+        ? { row: entry.row, sku: entry.sku, errors: entry.errors }
+        : { row: entry.row, sku: entry.sku, action, productId, errors: [] });
+    }
+
+    const created = results.filter(result => result.action === 'create').length;
+    const updated = results.filter(result => result.action === 'update').length;
+
+    return {
+      dryRun,
+      imported: write ? created + updated : 0,
+      created,
+      updated,
+      failed,
+      rows: results
+    };
+  });
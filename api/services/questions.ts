@@ -0,0 +1,95 @@
+import { transaction } from '../config/database.js';
+import { ConflictError, CustomValidationError } from '../middleware/errorHandler.js';
+import { ProductQuestionsRepo } from '../repositories/index.js';
+import { Product, ProductAnswer, ProductQuestion, QaStatus, QaTarget } from '../types.js';
+import { notifyUser } from './notifications.js';
+import { getReportThreshold } from './reviews.js';
+
+// What voting, reporting and moderation need from a question or an answer
+export type QaItem = Pick<ProductQuestion | ProductAnswer, 'id' | 'userId' | 'status' | 'reportCount'>;
+
+export interface QaModerationInput {
+  actorId: string;
+  status: Exclude<QaStatus, 'flagged'>;
+  note?: string | null;
+}
+
+const questionUrl = (productId: string) => `/product/${productId}#questions`;
+
+// Asks in public and lets the seller know
+export const askQuestion = async (product: Product, userId: string, question: string): Promise<ProductQuestion> => {
+  if (product.sellerId === userId) {
+    throw new CustomValidationError('You cannot ask a question about your own product');
+  }
+
+  const created = await ProductQuestionsRepo.create(product.id, userId, question);
+  await notifyUser({
+    userId: product.sellerId,
+    title: `New question about ${product.name}`,
+    message: question,
+    actionUrl: questionUrl(product.id),
+    actionText: 'Answer'
+  });
+  return created;
+};
+
+// Anyone may answer; the seller's answers carry a badge. The asker is told
+// about answers other than their own.
+export const answerQuestion = async (
+  question: ProductQuestion,
+  product: Product,
+  userId: string,
+  answer: string
+): Promise<ProductAnswer> => {
+  const isSellerAnswer = product.sellerId === userId;
+  const created = await ProductQuestionsRepo.createAnswer(question.id, userId, answer, isSellerAnswer);
+
+  if (question.userId !== userId) {
+    await notifyUser({
+      userId: question.userId,
+      type: isSellerAnswer ? 'success' : 'info',
+      title: isSellerAnswer
+        ? `The seller answered your question about ${product.name}`
+        : `New answer to your question about ${product.name}`,
+      message: answer,
+      actionUrl: questionUrl(product.id)
+    });
+  }
+  return created;
+};
+
+// `upvoted` false takes the user's upvote back
+export const upvoteQa = async (target: QaTarget, item: QaItem, userId: string, upvoted: boolean): Promise<void> => {
+  if (item.userId === userId) {
+    throw new CustomValidationError(`You cannot vote on your own ${target}`);
+  }
+  await transaction(() => ProductQuestionsRepo.setUpvote(target, item.id, userId, upvoted));
+};
+
+// Records the report; the report that reaches the threshold flags the target
+export const reportQa = (target: QaTarget, item: QaItem, userId: string, reason: string): Promise<void> =>
+  transaction(async () => {
+    if (item.userId === userId) {
+      throw new CustomValidationError(`You cannot report your own ${target}`);
+    }
+    if (!await ProductQuestionsRepo.addReport(target, item.id, userId, reason)) {
+      throw new ConflictError(`You have already reported this ${target}`);
+    }
+
+    if (item.reportCount + 1 >= getReportThreshold()) {
+      await ProductQuestionsRepo.flag(target, item.id);
+    }
+  });
+
+// Publishes (clearing the reports against it) or hides a question or answer
+export const moderateQa = (target: QaTarget, item: QaItem, { actorId, status, note }: QaModerationInput): Promise<void> =>
+  transaction(async () => {
+    if (!await ProductQuestionsRepo.transitionStatus(target, item.id, item.status, { status, moderatedBy: actorId, note })) {
+      throw new ConflictError(`The ${target} was changed by another request, please retry`);
+    }
+    await ProductQuestionsRepo.resolveReports(target, item.id);
+  });
+
+// A question goes with its answers
+export const deleteQa = (target: QaTarget, item: QaItem): Promise<void> =>
+  transaction(() => ProductQuestionsRepo.delete(target, item.id));
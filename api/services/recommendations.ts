@@ -0,0 +1,225 @@
+import { transaction } from '../config/database.js';
+import { ProductsRepo, RecommendationsRepo, WishlistsRepo, CatalogEntry, ScoredProduct, UserSignals } from '../repositories/index.js';
+import { Recommendation } from '../types.js';
+
+const DEFAULT_REFRESH_INTERVAL_MS = 60 * 60_000;
+// Stored per product and per user; requests read a prefix of these
+const MAX_RELATED = 12;
+const MAX_PER_USER = 24;
+
+// Bought together counts for more than merely looking alike
+const ALSO_BOUGHT_WEIGHT = 2;
+const SAME_CATEGORY_SCORE = 0.5;
+// How much a wishlisted product says compared with a purchased one
+const WISHLIST_WEIGHT = 0.5;
+const STUDY_ROUTE_WEIGHT = 0.5;
+
+const round4 = (value: number) => Math.round(value * 10_000) / 10_000;
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+const topEntries = (scores: Map<string, ScoredProduct>, limit: number) =>
+  [...scores.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(entry => ({ ...entry, score: round4(entry.score) }));
+
+// Adds to a product's score, keeping the reason that contributed the most
+const addScore = (
+  scores: Map<string, ScoredProduct & { best: number }>,
+  productId: string,
+  score: number,
+  reason: ScoredProduct['reason']
+) => {
+  const entry = scores.get(productId);
+  if (!entry) {
+    scores.set(productId, { productId, score, reason, best: score });
+    return;
+  }
+  entry.score += score;
+  if (score > entry.best) {
+    entry.best = score;
+    entry.reason = reason;
+  }
+};
+
+// Same category, plus the share of tags the two have in common
+const contentSimilarity = (a: CatalogEntry & { tagSet: Set<string> }, b: CatalogEntry & { tagSet: Set<string> }) => {
+  const shared = [...a.tagSet].filter(tag => b.tagSet.has(tag)).length;
+  const union = a.tagSet.size + b.tagSet.size - shared;
+  return (a.category === b.category ? SAME_CATEGORY_SCORE : 0) + (union > 0 ? shared / union : 0);
+};
+
+// Related products for every active product: co-purchases scored by how
+// often the two share an order relative to how often each sells (cosine),
+// and content similarity. Only products sharing a category or a tag are
+// compared, which keeps this well below every pair in the catalog.
+const computeRelated = async (catalog: CatalogEntry[]): Promise<Map<string, ScoredProduct[]>> => {
+  const [coPurchases, orderCounts] = await Promise.all([
+    RecommendationsRepo.listCoPurchases(),
+    RecommendationsRepo.countOrdersByProduct()
+  ]);
+
+  const products = new Map(catalog.map(entry => [entry.id, { ...entry, tagSet: new Set(entry.tags.map(normalizeTag)) }]));
+  const scores = new Map<string, Map<string, ScoredProduct & { best: number }>>();
+  const scoresOf = (productId: string) => {
+    let entries = scores.get(productId);
+    if (!entries) {
+      entries = new Map();
+      scores.set(productId, entries);
+    }
+    return entries;
+  };
+
+  for (const { productId, relatedProductId, orders } of coPurchases) {
+    if (!products.has(productId) || !products.has(relatedProductId)) continue;
+    const cosine = orders / Math.sqrt((orderCounts.get(productId) ?? orders) * (orderCounts.get(relatedProductId) ?? orders));
+    addScore(scoresOf(productId), relatedProductId, ALSO_BOUGHT_WEIGHT * cosine, 'also_bought');
+  }
+
+  const featuresOf = (product: CatalogEntry & { tagSet: Set<string> }) =>
+    [`category:${product.category}`, ...[...product.tagSet].map(tag => `tag:${tag}`)];
+  const byFeature = new Map<string, string[]>();
+  for (const product of products.values()) {
+    for (const feature of featuresOf(product)) {
+      const ids = byFeature.get(feature) ?? [];
+      ids.push(product.id);
+      byFeature.set(feature, ids);
+    }
+  }
+
+  for (const product of products.values()) {
+    const candidates = new Set<string>();
+    for (const feature of featuresOf(product)) {
+      for (const id of byFeature.get(feature) ?? []) {
+        if (id !== product.id) candidates.add(id);
+      }
+    }
+    for (const id of candidates) {
+      const similarity = contentSimilarity(product, products.get(id)!);
+      if (similarity > 0) {
+        addScore(scoresOf(product.id), id, similarity, 'similar');
+      }
+    }
+  }
+
+  return new Map([...scores].map(([productId, entries]) => [productId, topEntries(entries, MAX_RELATED)]));
+};
+
+// Suggestions for one user: products related to what they bought or
+// wished for, and products tagged like their study routes. What they already
+// bought, wished for or sell themselves is left out.
+const computeForUser = (
+  signals: UserSignals,
+  related: Map<string, ScoredProduct[]>,
+  catalog: CatalogEntry[]
+): ScoredProduct[] => {
+  const scores = new Map<string, ScoredProduct & { best: number }>();
+  const seeds: [string[], number][] = [[signals.purchased, 1], [signals.wishlisted, WISHLIST_WEIGHT]];
+
+  for (const [productIds, weight] of seeds) {
+    for (const productId of productIds) {
+      for (const entry of related.get(productId) ?? []) {
+        addScore(scores, entry.productId, weight * entry.score, entry.reason);
+      }
+    }
+  }
+
+  const routeTags = new Set(signals.studyRouteTags.map(normalizeTag));
+  if (routeTags.size > 0) {
+    for (const product of catalog) {
+      const matches = product.tags.filter(tag => routeTags.has(normalizeTag(tag))).length;
+      if (matches > 0) {
+        addScore(scores, product.id, STUDY_ROUTE_WEIGHT * matches / product.tags.length, 'study_route');
+      }
+    }
+  }
+
+  const excluded = new Set([
+    ...signals.purchased,
+    ...signals.wishlisted,
+    ...catalog.filter(product => product.sellerId === signals.userId).map(product => product.id)
+  ]);
+  for (const productId of excluded) {
+    scores.delete(productId);
+  }
+  return topEntries(scores, MAX_PER_USER);
+};
+
+// Rebuilds every stored recommendation; requests only read the results
+export const refreshRecommendations = async () => {
+  const catalog = await RecommendationsRepo.listCatalog();
+  const related = await computeRelated(catalog);
+  const forUsers = new Map(
+    (await RecommendationsRepo.listUserSignals()).map(signals => [signals.userId, computeForUser(signals, related, catalog)])
+  );
+
+  await transaction(async () => {
+    await RecommendationsRepo.replaceRelated(related);
+    await RecommendationsRepo.replaceForUsers(forUsers);
+  });
+
+  return { products: related.size, users: forUsers.size };
+};
+
+// Loads the stored picks in order, skipping products no longer on sale, and
+// tops the list up with best sellers (of the category, when given)
+const resolve = async (
+  picks: ScoredProduct[],
+  limit: number,
+  { exclude = [], category }: { exclude?: string[]; category?: string } = {}
+): Promise<Recommendation[]> => {
+  const products = new Map((await ProductsRepo.findByIds(picks.map(pick => pick.productId))).map(product => [product.id, product]));
+  const recommendations: Recommendation[] = picks
+    .filter(pick => products.get(pick.productId)?.isActive)
+    .slice(0, limit)
+    .map(pick => ({ product: products.get(pick.productId)!, reason: pick.reason, score: pick.score }));
+
+  if (recommendations.length < limit) {
+    const skip = new Set([...exclude, ...recommendations.map(recommendation => recommendation.product.id)]);
+    const popular = await ProductsRepo.list({ category, sort: 'popular' }, { limit: limit + skip.size });
+    for (const product of popular.items) {
+      if (recommendations.length >= limit) break;
+      if (skip.has(product.id)) continue;
+      recommendations.push({ product, reason: 'popular', score: 0 });
+    }
+  }
+  return recommendations;
+};
+
+// Products to show next to `productId`. Products added since the last
+// refresh get the category's best sellers until then.
+export const getRelatedProducts = async (productId: string, category: string, limit: number) =>
+  resolve(await RecommendationsRepo.listRelated(productId, limit * 2), limit, { exclude: [productId], category });
+
+// Suggestions for the user; best sellers they have not bought or wished for
+// make up the rest, and all of it for new users
+export const getRecommendationsForUser = async (userId: string, limit: number) => {
+  const [picks, purchased, wishlist] = await Promise.all([
+    RecommendationsRepo.listForUser(userId, limit * 2),
+    RecommendationsRepo.listPurchased(userId),
+    WishlistsRepo.listByUser(userId)
+  ]);
+  return resolve(picks, limit, { exclude: [...purchased, ...wishlist.map(entry => entry.productId)] });
+};
+
+// Rebuilds recommendations now and then periodically; the timer does not keep the process alive
+export const startRecommendationRefresher = (intervalMs?: number) => {
+  const interval = intervalMs
+    || Number(process.env.RECOMMENDATIONS_REFRESH_INTERVAL_MS)
+    || DEFAULT_REFRESH_INTERVAL_MS;
+
+  const run = () => {
+    refreshRecommendations()
+      .then(({ products, users }) => {
+        console.log(`✨ Refreshed recommendations for ${products} product(s) and ${users} user(s)`);
+      })
+      .catch(error => console.error('Failed to refresh recommendations:', error));
+  };
+
+  run();
+  const timer = setInterval(run, interval);
+  timer.unref();
+
+  return timer;
+};
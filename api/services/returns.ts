@@ -0,0 +1,132 @@
+import { transaction } from '../config/database.js';
+import { ConflictError, CustomValidationError, NotFoundError } from '../middleware/errorHandler.js';
+import { OrdersRepo, OrderReturnsRepo } from '../repositories/index.js';
+import { Order, OrderReturn } from '../types.js';
+import { setEntitlementSeats } from './entitlements.js';
+import { creditReturnedItem } from './invoices.js';
+import { restockReturnedItem } from './inventory.js';
+import { changePaymentStatus, TransitionContext } from './orderLifecycle.js';
+import { refundOrder } from './payments/index.js';
+import { recordSellerRefund } from './sellerLedger.js';
+
+// Unshipped orders are cancelled rather than returned
+const RETURNABLE_STATUSES: Order['status'][] = ['shipped', 'delivered'];
+
+export interface OpenReturnInput {
+  order: Order;
+  orderItemId: string;
+  userId: string;
+  // Defaults to every unit of the line not yet claimed
+  quantity?: number;
+  reason: string;
+}
+
+export interface ApproveReturnOptions extends TransitionContext {
+  actorId: string;
+  // Defaults to what was paid for the returned units, capped by what is left to refund
+  refundAmount?: number;
+}
+
+const loadOrder = async (orderId: string): Promise<Order> => {
+  const order = await OrdersRepo.findById(orderId);
+  if (!order) {
+    throw new NotFoundError('Order not found');
+  }
+  return order;
+};
+
+const alreadyResolved = () => new ConflictError('Return request has already been resolved');
+
+export const openReturn = ({ order, orderItemId, userId, quantity, reason }: OpenReturnInput): Promise<OrderReturn> =>
+  transaction(async () => {
+    if (!RETURNABLE_STATUSES.includes(order.status)) {
+      throw new CustomValidationError('Only shipped or delivered orders can be returned');
+    }
+    if (order.paymentStatus !== 'paid') {
+      throw new CustomValidationError('Only paid orders can be returned');
+    }
+
+    const item = order.items.find(candidate => candidate.id === orderItemId);
+    if (!item) {
+      throw new NotFoundError('Order item not found');
+    }
+
+    const available = item.quantity - await OrderReturnsRepo.countClaimedQuantity(orderItemId);
+    if (available <= 0) {
+      throw new ConflictError('This item already has a return for every unit');
+    }
+
+    const requested = quantity ?? available;
+    if (requested > available) {
+      throw new CustomValidationError(`At most ${available} unit(s) of this item can be returned`);
+    }
+
+    return OrderReturnsRepo.create({ orderId: order.id, orderItemId, userId, quantity: requested, reason });
+  });
+
+// Approves the return: takes the units back (restocking physical goods and
+// removing digital ones from the buyer's entitlement), charges the refund to
+// the item's seller, then refunds through the gateway or, for orders paid by
+// hand, records the refund on the order.
+export const approveReturn = (
+  orderReturn: OrderReturn,
+  { actorId, note, refundAmount }: ApproveReturnOptions
+): Promise<OrderReturn> =>
+  transaction(async () => {
+    const order = await loadOrder(orderReturn.orderId);
+    const item = order.items.find(candidate => candidate.id === orderReturn.orderItemId)!;
+
+    // Units are refunded at the price paid, after the line's share of any
+    // discount and with its tax; shipping is not refunded
+    const netPerUnit = (item.totalPrice - (item.discountAmount ?? 0)) / item.quantity;
+    const paidPerUnit = netPerUnit + (item.taxAmount ?? 0) / item.quantity;
+    const refundable = Math.round(
+      Math.min(paidPerUnit * orderReturn.quantity, order.totalAmount - (order.refundedAmount ?? 0)) * 100
+    ) / 100;
+    const amount = refundAmount ?? refundable;
+    if (amount > refundable) {
+      throw new CustomValidationError(`Refund amount must be between 0 and ${refundable.toFixed(2)}`);
+    }
+
+    // Claim the request first so a concurrent approval cannot refund twice
+    if (!await OrderReturnsRepo.resolve(orderReturn.id, { status: 'approved', resolvedBy: actorId, refundAmount: amount, note })) {
+      throw alreadyResolved();
+    }
+
+    await OrdersRepo.addReturnedQuantity(item.id!, orderReturn.quantity);
+    await restockReturnedItem(item.productId, orderReturn.quantity, item.variantId);
+    await setEntitlementSeats(item.id!, item.quantity - (item.returnedQuantity ?? 0) - orderReturn.quantity);
+
+    if (amount > 0) {
+      const context = { actorId, note: note || `Refund for returned "${item.productName}"` };
+      // The seller never received the tax, so only the goods are charged back
+      if (item.sellerOrderId && paidPerUnit > 0) {
+        await recordSellerRefund(item.sellerOrderId, amount * netPerUnit / paidPerUnit, `Return of "${item.productName}"`);
+      }
+      // Before the refund: a refund that settles the order credits whatever is left
+      await creditReturnedItem(item, orderReturn.quantity, amount, `Return of "${item.productName}"`);
+      const payment = await refundOrder(order, amount, context);
+
+      if (payment) {
+        await OrderReturnsRepo.setPayment(orderReturn.id, payment.id);
+      } else {
+        await OrdersRepo.addRefund(order.id, amount);
+        if ((order.refundedAmount ?? 0) + amount >= order.totalAmount) {
+          await changePaymentStatus(order.id, 'refunded', context);
+        }
+      }
+    }
+
+    return (await OrderReturnsRepo.findById(orderReturn.id))!;
+  });
+
+export const rejectReturn = (
+  orderReturn: OrderReturn,
+  { actorId, note }: TransitionContext & { actorId: string }
+): Promise<OrderReturn> =>
+  transaction(async () => {
+    if (!await OrderReturnsRepo.resolve(orderReturn.id, { status: 'rejected', resolvedBy: actorId, note })) {
+      throw alreadyResolved();
+    }
+    return (await OrderReturnsRepo.findById(orderReturn.id))!;
+  });
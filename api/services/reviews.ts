@@ -0,0 +1,104 @@
+import { transaction } from '../config/database.js';
+import { ConflictError, CustomValidationError } from '../middleware/errorHandler.js';
+import { OrdersRepo, ProductReviewsRepo, ProductsRepo } from '../repositories/index.js';
+import { Product, ProductReview, ReviewStatus, ReviewVote } from '../types.js';
+
+const DEFAULT_REPORT_THRESHOLD = 3;
+
+// Reports that take a published review out of listings until a moderator looks at it
+export const getReportThreshold = () => {
+  const threshold = Number(process.env.REVIEW_REPORT_THRESHOLD);
+  return Number.isInteger(threshold) && threshold > 0 ? threshold : DEFAULT_REPORT_THRESHOLD;
+};
+
+export interface ReviewInput {
+  rating: number;
+  title?: string | null;
+  review?: string | null;
+}
+
+export interface ModerationInput {
+  actorId: string;
+  status: Exclude<ReviewStatus, 'flagged'>;
+  note?: string | null;
+}
+
+const counts = (status: ReviewStatus) => status === 'published';
+
+const concurrentChange = () => new ConflictError('Review was changed by another request, please retry');
+
+// Creates the user's review of the product or replaces their earlier one.
+// The verified-purchase badge is worked out again on every write.
+export const submitReview = (
+  product: Product,
+  userId: string,
+  input: ReviewInput
+): Promise<{ review: ProductReview; created: boolean }> =>
+  transaction(async () => {
+    if (product.sellerId === userId) {
+      throw new CustomValidationError('Cannot rate your own product');
+    }
+
+    const isVerifiedPurchase = await OrdersRepo.hasPaidItem(userId, product.id);
+    const existing = await ProductReviewsRepo.findByUserAndProduct(userId, product.id);
+
+    if (existing) {
+      const review = (await ProductReviewsRepo.update(existing.id, { ...input, isVerifiedPurchase }))!;
+      if (counts(existing.status)) {
+        await ProductsRepo.adjustRating(product.id, 0, input.rating - existing.rating);
+      }
+      return { review, created: false };
+    }
+
+    const review = await ProductReviewsRepo.create({ ...input, productId: product.id, userId, isVerifiedPurchase });
+    await ProductsRepo.adjustRating(product.id, 1, input.rating);
+    return { review, created: true };
+  });
+
+export const deleteReview = (review: ProductReview): Promise<void> =>
+  transaction(async () => {
+    await ProductReviewsRepo.delete(review.id);
+    if (counts(review.status)) {
+      await ProductsRepo.adjustRating(review.productId, -1, -review.rating);
+    }
+  });
+
+// A null vote takes the user's vote back
+export const voteOnReview = async (review: ProductReview, userId: string, vote: ReviewVote | null): Promise<ProductReview> => {
+  if (review.userId === userId) {
+    throw new CustomValidationError('You cannot vote on your own review');
+  }
+  await transaction(() => ProductReviewsRepo.vote(review.id, userId, vote));
+  return (await ProductReviewsRepo.findById(review.id))!;
+};
+
+// Records the report; the report that reaches the threshold flags the review
+export const reportReview = (review: ProductReview, userId: string, reason: string): Promise<void> =>
+  transaction(async () => {
+    if (review.userId === userId) {
+      throw new CustomValidationError('You cannot report your own review');
+    }
+    if (!await ProductReviewsRepo.addReport(review.id, userId, reason)) {
+      throw new ConflictError('You have already reported this review');
+    }
+
+    if (review.reportCount + 1 >= getReportThreshold() && await ProductReviewsRepo.flag(review.id)) {
+      await ProductsRepo.adjustRating(review.productId, -1, -review.rating);
+    }
+  });
+
+// Publishes (clearing the reports against it) or hides a review
+export const moderateReview = (review: ProductReview, { actorId, status, note }: ModerationInput): Promise<ProductReview> =>
+  transaction(async () => {
+    if (!await ProductReviewsRepo.transitionStatus(review.id, review.status, { status, moderatedBy: actorId, note })) {
+      throw concurrentChange();
+    }
+    await ProductReviewsRepo.resolveReports(review.id);
+
+    const delta = Number(counts(status)) - Number(counts(review.status));
+    if (delta !== 0) {
+      await ProductsRepo.adjustRating(review.productId, delta, delta * review.rating);
+    }
+
+    return (await ProductReviewsRepo.findById(review.id))!;
+  });
@@ -0,0 +1,145 @@
+import { CustomValidationError } from '../middleware/errorHandler.js';
+import { DayRange, ProductsRepo, SellerAnalyticsRepo } from '../repositories/index.js';
+import { AnalyticsInterval, RevenueData, SellerAnalytics, SellerStorefront, User } from '../types.js';
+import { toCsv } from './csv.js';
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const TOP_PRODUCTS = 10;
+const FEATURED_PRODUCTS = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AnalyticsReport = 'revenue' | 'products';
+
+export interface AnalyticsRange extends DayRange {
+  interval: AnalyticsInterval;
+}
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+const ratio = (part: number, whole: number) => (whole > 0 ? Math.round(part / whole * 10000) / 10000 : 0);
+
+const toDate = (day: string) => new Date(`${day}T00:00:00.000Z`);
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// First day of the interval `day` falls in: the day itself, the Monday of its
+// week or the first of its month
+const intervalStart = (day: string, interval: AnalyticsInterval) => {
+  const date = toDate(day);
+  if (interval === 'week') {
+    date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+  } else if (interval === 'month') {
+    date.setUTCDate(1);
+  }
+  return toDay(date);
+};
+
+// Dates from the query string (either may be missing) to a whole-day range;
+// by default the last 30 days up to today
+export const resolveAnalyticsRange = (
+  { startDate, endDate, interval = 'day' }: { startDate?: string; endDate?: string; interval?: AnalyticsInterval }
+): AnalyticsRange => {
+  const end = endDate ? toDay(new Date(endDate)) : toDay(new Date());
+  const start = startDate
+    ? toDay(new Date(startDate))
+    : toDay(new Date(toDate(end).getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS));
+
+  if (start > end) {
+    throw new CustomValidationError('Start date must not be after the end date');
+  }
+  if ((toDate(end).getTime() - toDate(start).getTime()) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+    throw new CustomValidationError(`Analytics cover at most ${MAX_RANGE_DAYS} days at a time`);
+  }
+  return { startDate: start, endDate: end, interval };
+};
+
+// Daily sales rolled up into one entry per interval, empty intervals included.
+// Each entry is dated by its first day within the range.
+const toRevenueData = (
+  daily: Array<{ date: string; revenue: number; orders: number }>,
+  { startDate, endDate, interval }: AnalyticsRange
+): RevenueData[] => {
+  const buckets = new Map<string, { revenue: number; orders: number }>();
+  for (let day = startDate; day <= endDate; day = toDay(new Date(toDate(day).getTime() + DAY_MS))) {
+    const key = intervalStart(day, interval);
+    if (!buckets.has(key)) {
+      buckets.set(key, { revenue: 0, orders: 0 });
+    }
+  }
+
+  for (const entry of daily) {
+    const bucket = buckets.get(intervalStart(entry.date, interval));
+    if (bucket) {
+      bucket.revenue += entry.revenue;
+      bucket.orders += entry.orders;
+    }
+  }
+
+  return [...buckets].map(([date, { revenue, orders }]) => ({
+    date: date < startDate ? startDate : date,
+    revenue: round2(revenue),
+    orders,
+    averageOrderValue: orders > 0 ? round2(revenue / orders) : 0
+  }));
+};
+
+export const getSellerAnalytics = async (sellerId: string, range: AnalyticsRange): Promise<SellerAnalytics> => {
+  const [daily, views, topProducts] = await Promise.all([
+    SellerAnalyticsRepo.dailySales(sellerId, range),
+    SellerAnalyticsRepo.dailyViews(sellerId, range),
+    SellerAnalyticsRepo.productPerformance(sellerId, range, TOP_PRODUCTS)
+  ]);
+
+  const revenue = round2(daily.reduce((sum, entry) => sum + entry.revenue, 0));
+  const orders = daily.reduce((sum, entry) => sum + entry.orders, 0);
+  const refundedAmount = round2(daily.reduce((sum, entry) => sum + entry.refundedAmount, 0));
+  const viewCount = views.reduce((sum, entry) => sum + entry.views, 0);
+
+  return {
+    startDate: range.startDate,
+    endDate: range.endDate,
+    interval: range.interval,
+    revenue,
+    orders,
+    averageOrderValue: orders > 0 ? round2(revenue / orders) : 0,
+    refundedAmount,
+    refundRate: ratio(refundedAmount, revenue),
+    views: viewCount,
+    conversionRate: Math.min(1, ratio(orders, viewCount)),
+    revenueData: toRevenueData(daily, range),
+    topProducts
+  };
+};
+
+// Either report as CSV: revenue per interval, or every product viewed or sold
+export const exportSellerAnalytics = async (sellerId: string, range: AnalyticsRange, report: AnalyticsReport): Promise<string> => {
+  if (report === 'products') {
+    const products = await SellerAnalyticsRepo.productPerformance(sellerId, range);
+    return toCsv(
+      ['product_id', 'product_name', 'views', 'orders', 'units_sold', 'revenue', 'conversion_rate'],
+      products.map(product => [
+        product.productId, product.productName, product.views, product.orders,
+        product.unitsSold, product.revenue.toFixed(2), product.conversionRate
+      ])
+    );
+  }
+
+  const daily = await SellerAnalyticsRepo.dailySales(sellerId, range);
+  return toCsv(
+    ['date', 'revenue', 'orders', 'average_order_value'],
+    toRevenueData(daily, range).map(entry => [
+      entry.date, entry.revenue.toFixed(2), entry.orders, entry.averageOrderValue.toFixed(2)
+    ])
+  );
+};
+
+export const getStorefront = async (seller: User): Promise<SellerStorefront> => {
+  const [summary, featuredProducts] = await Promise.all([
+    ProductsRepo.summarizeBySeller(seller.id),
+    ProductsRepo.listFeatured(seller.id, FEATURED_PRODUCTS)
+  ]);
+
+  return { seller, ...summary, featuredProducts };
+};
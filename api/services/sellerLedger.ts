@@ -0,0 +1,201 @@
+import { randomUUID } from 'crypto';
+import { transaction } from '../config/database.js';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler.js';
+import { OrdersRepo, SellerLedgerRepo, SellerOrdersRepo, SellerPayoutsRepo } from '../repositories/index.js';
+import { Order, SellerEarnings, SellerOrder, SellerPayout } from '../types.js';
+
+const DEFAULT_COMMISSION_RATE = 0.1;
+const DEFAULT_PAYOUT_MINIMUM = 10;
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+export const getCommissionRate = () => {
+  const rate = Number(process.env.PLATFORM_COMMISSION_RATE);
+  return process.env.PLATFORM_COMMISSION_RATE && rate >= 0 && rate <= 1 ? rate : DEFAULT_COMMISSION_RATE;
+};
+
+const getPayoutMinimum = () => {
+  const minimum = Number(process.env.PAYOUT_MINIMUM_AMOUNT);
+  return minimum > 0 ? minimum : DEFAULT_PAYOUT_MINIMUM;
+};
+
+// One seller order per seller of the order, carrying the seller's lines after
+// their share of the order's discounts and the commission owed on that
+export const splitOrder = async (order: Order): Promise<SellerOrder[]> => {
+  const rate = getCommissionRate();
+  const bySeller = new Map<string, { subtotal: number; discount: number }>();
+
+  for (const item of order.items) {
+    if (!item.sellerId) continue;
+    const totals = bySeller.get(item.sellerId) ?? { subtotal: 0, discount: 0 };
+    totals.subtotal += item.totalPrice;
+    totals.discount += item.discountAmount ?? 0;
+    bySeller.set(item.sellerId, totals);
+  }
+
+  const sellerOrders: SellerOrder[] = [];
+  for (const [sellerId, { subtotal, discount }] of bySeller) {
+    const total = round2(subtotal - discount);
+    sellerOrders.push(await SellerOrdersRepo.create({
+      orderId: order.id,
+      sellerId,
+      subtotalAmount: round2(subtotal),
+      discountAmount: round2(discount),
+      totalAmount: total,
+      commissionRate: rate,
+      commissionAmount: round2(total * rate)
+    }));
+  }
+  return sellerOrders;
+};
+
+// Credits each seller with their sale and charges the platform commission once the order is paid
+export const recordSellerEarnings = async (orderId: string) => {
+  for (const sellerOrder of await SellerOrdersRepo.listByOrder(orderId)) {
+    if (sellerOrder.totalAmount > 0) {
+      await SellerLedgerRepo.record({
+        sellerId: sellerOrder.sellerId,
+        type: 'sale',
+        amount: sellerOrder.totalAmount,
+        sellerOrderId: sellerOrder.id,
+        description: `Sale ${orderId.slice(0, 8)}`
+      });
+    }
+    if (sellerOrder.commissionAmount > 0) {
+      await SellerLedgerRepo.record({
+        sellerId: sellerOrder.sellerId,
+        type: 'commission',
+        amount: -sellerOrder.commissionAmount,
+        sellerOrderId: sellerOrder.id,
+        description: `Platform commission (${round2(sellerOrder.commissionRate * 100)}%)`
+      });
+    }
+  }
+};
+
+// Charges a refund of the seller's goods to the seller and gives back the
+// matching share of the commission; the last refund gives back all of it.
+export const recordSellerRefund = async (sellerOrderId: string, amount: number, description?: string) => {
+  const sellerOrder = await SellerOrdersRepo.findById(sellerOrderId);
+  if (!sellerOrder) return;
+
+  const refund = round2(Math.min(amount, sellerOrder.totalAmount - sellerOrder.refundedAmount));
+  if (refund <= 0) return;
+
+  await SellerOrdersRepo.addRefund(sellerOrder.id, refund);
+  await SellerLedgerRepo.record({
+    sellerId: sellerOrder.sellerId,
+    type: 'refund',
+    amount: -refund,
+    sellerOrderId: sellerOrder.id,
+    description: description ?? 'Refund to buyer'
+  });
+
+  const reversed = await SellerLedgerRepo.sumForSellerOrder(sellerOrder.id, 'commission_reversal');
+  const remaining = round2(sellerOrder.commissionAmount - reversed);
+  const fullyRefunded = sellerOrder.refundedAmount + refund >= sellerOrder.totalAmount;
+  const reversal = fullyRefunded
+    ? remaining
+    : Math.min(remaining, round2(sellerOrder.commissionAmount * refund / sellerOrder.totalAmount));
+
+  if (reversal > 0) {
+    await SellerLedgerRepo.record({
+      sellerId: sellerOrder.sellerId,
+      type: 'commission_reversal',
+      amount: reversal,
+      sellerOrderId: sellerOrder.id,
+      description: 'Commission returned on refund'
+    });
+  }
+};
+
+// Charges an order-level refund (one not tied to particular items) to each
+// seller by their share of the order total; the rest refunds shipping and tax
+export const recordOrderRefund = async (orderId: string, amount: number, description?: string) => {
+  const order = await OrdersRepo.findById(orderId);
+  if (!order || order.totalAmount <= 0 || amount <= 0) return;
+
+  for (const sellerOrder of await SellerOrdersRepo.listByOrder(orderId)) {
+    await recordSellerRefund(sellerOrder.id, amount * sellerOrder.totalAmount / order.totalAmount, description);
+  }
+};
+
+// A fully refunded order takes back whatever each seller still has from it
+export const reverseRemainingEarnings = async (orderId: string) => {
+  for (const sellerOrder of await SellerOrdersRepo.listByOrder(orderId)) {
+    await recordSellerRefund(sellerOrder.id, sellerOrder.totalAmount - sellerOrder.refundedAmount, 'Order refunded');
+  }
+};
+
+export const getSellerEarnings = async (sellerId: string): Promise<SellerEarnings> => {
+  const [sums, balances, payouts] = await Promise.all([
+    SellerLedgerRepo.sumByType(sellerId),
+    SellerLedgerRepo.balances(sellerId),
+    SellerPayoutsRepo.sumByStatus(sellerId)
+  ]);
+
+  const grossSales = sums.sale ?? 0;
+  const commission = -((sums.commission ?? 0) + (sums.commission_reversal ?? 0));
+  const refunds = -(sums.refund ?? 0);
+
+  return {
+    grossSales: round2(grossSales),
+    commission: round2(commission),
+    refunds: round2(refunds),
+    netEarnings: round2(grossSales - commission - refunds),
+    paidOut: round2(payouts.paid ?? 0),
+    inTransit: round2(payouts.pending ?? 0),
+    availableBalance: round2(balances.available),
+    pendingBalance: round2(balances.pending)
+  };
+};
+
+// Opens a payout for every seller whose available balance reaches the payout
+// minimum and takes it off their balance straight away
+export const createPayoutBatch = (actorId: string): Promise<{ batchId: string; payouts: SellerPayout[] }> =>
+  transaction(async () => {
+    const batchId = randomUUID();
+    const payouts: SellerPayout[] = [];
+
+    for (const { sellerId, amount } of await SellerLedgerRepo.listAvailableBalances(getPayoutMinimum())) {
+      const payout = await SellerPayoutsRepo.create({ batchId, sellerId, amount, createdBy: actorId });
+      await SellerLedgerRepo.record({
+        sellerId,
+        type: 'payout',
+        amount: -amount,
+        payoutId: payout.id,
+        description: 'Payout'
+      });
+      payouts.push(payout);
+    }
+
+    return { batchId, payouts };
+  });
+
+// Marks a pending payout as paid or failed; a failed payout goes back on the seller's balance
+export const settlePayout = (
+  payoutId: string,
+  status: 'paid' | 'failed',
+  reference?: string | null
+): Promise<SellerPayout> =>
+  transaction(async () => {
+    const payout = await SellerPayoutsRepo.findById(payoutId);
+    if (!payout) {
+      throw new NotFoundError('Payout not found');
+    }
+    if (!await SellerPayoutsRepo.settle(payout.id, status, reference)) {
+      throw new ConflictError(`Payout is already ${payout.status}`);
+    }
+
+    if (status === 'failed') {
+      await SellerLedgerRepo.record({
+        sellerId: payout.sellerId,
+        type: 'payout_reversal',
+        amount: payout.amount,
+        payoutId: payout.id,
+        description: reference ? `Payout failed: ${reference}` : 'Payout failed'
+      });
+    }
+
+    return (await SellerPayoutsRepo.findById(payout.id))!;
+  });
@@ -0,0 +1,77 @@
+import { transaction } from '../config/database.js';
+import { ConflictError, CustomValidationError, NotFoundError } from '../middleware/errorHandler.js';
+import { OrdersRepo, SellerOrdersRepo } from '../repositories/index.js';
+import { Order, SellerOrder } from '../types.js';
+import { changeOrderStatus, getStatusTransitionError, TransitionContext } from './orderLifecycle.js';
+
+type OrderStatus = Order['status'];
+
+// Sellers only move their part forward; cancelling is done on the whole order
+const SELLER_ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing'],
+  processing: ['shipped'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: []
+};
+
+const FULFILMENT_RANK: Record<OrderStatus, number> = {
+  pending: 0,
+  processing: 1,
+  shipped: 2,
+  delivered: 3,
+  cancelled: -1
+};
+
+export interface SellerOrderTransitionOptions extends TransitionContext {
+  trackingNumber?: string | null;
+}
+
+// Seller order with its own lines of the order
+export const loadSellerOrder = async (id: string): Promise<SellerOrder | null> => {
+  const sellerOrder = await SellerOrdersRepo.findById(id);
+  if (!sellerOrder) return null;
+
+  const order = await OrdersRepo.findById(sellerOrder.orderId);
+  return { ...sellerOrder, items: order?.items.filter(item => item.sellerOrderId === sellerOrder.id) ?? [] };
+};
+
+// Moves one seller's part of an order. Once every seller (ignoring cancelled
+// parts) has reached the new status, the order itself follows.
+export const changeSellerOrderStatus = (
+  sellerOrderId: string,
+  to: OrderStatus,
+  { actorId, note, trackingNumber }: SellerOrderTransitionOptions = {}
+): Promise<SellerOrder> =>
+  transaction(async () => {
+    const sellerOrder = await SellerOrdersRepo.findById(sellerOrderId);
+    if (!sellerOrder) {
+      throw new NotFoundError('Seller order not found');
+    }
+
+    if (!SELLER_ORDER_TRANSITIONS[sellerOrder.status].includes(to)) {
+      throw new CustomValidationError(`Cannot change status from ${sellerOrder.status} to ${to}`);
+    }
+    if (to === 'processing' && sellerOrder.paymentStatus !== 'paid') {
+      throw new CustomValidationError('Order must be paid before it can be processed');
+    }
+
+    if (!await SellerOrdersRepo.transitionStatus(sellerOrder.id, sellerOrder.status, to, { trackingNumber })) {
+      throw new ConflictError('Order was changed by another request, please retry');
+    }
+
+    const order = (await OrdersRepo.findById(sellerOrder.orderId))!;
+    const parts = (await SellerOrdersRepo.listByOrder(order.id)).filter(part => part.status !== 'cancelled');
+    const allReached = parts.every(part => FULFILMENT_RANK[part.status] >= FULFILMENT_RANK[to]);
+
+    if (allReached && FULFILMENT_RANK[order.status] < FULFILMENT_RANK[to] && !getStatusTransitionError(order, to)) {
+      await changeOrderStatus(order.id, to, {
+        actorId,
+        note: note ?? (parts.length > 1 ? `Every seller marked their items ${to}` : null),
+        // A single seller's tracking number is the order's
+        trackingNumber: parts.length === 1 ? trackingNumber : null
+      });
+    }
+
+    return (await loadSellerOrder(sellerOrder.id))!;
+  });
@@ -0,0 +1,53 @@
+import { CustomValidationError } from '../middleware/errorHandler.js';
+import { ShippingZonesRepo, normalizeCountry } from '../repositories/index.js';
+import { ShippingRate, ShippingZone } from '../types.js';
+
+export interface ShippableLine {
+  // Total weight of the line in kg
+  weight: number;
+  // What the buyer pays for the line after discounts
+  amount: number;
+}
+
+export interface ShippingQuote {
+  amount: number;
+  // Missing when nothing ships
+  zone?: ShippingZone;
+}
+
+// The zone listing the country, else the catch-all zone (one listing no countries)
+export const findShippingZone = (zones: ShippingZone[], country: string) => {
+  const code = normalizeCountry(country);
+  return zones.find(zone => zone.countries.includes(code))
+    ?? zones.find(zone => zone.countries.length === 0);
+};
+
+// The first bracket the value fits in; rates are stored in ascending order
+export const findShippingRate = (zone: ShippingZone, value: number): ShippingRate | undefined =>
+  zone.rates.find(rate => rate.upTo === null || value <= rate.upTo);
+
+// Shipping for the physical lines of an order. Digital-only orders ship
+// nothing and pay nothing. Throws CustomValidationError (400) when no zone
+// covers the country or the order is beyond the zone's rate table.
+export const quoteShipping = async (country: string, lines: ShippableLine[]): Promise<ShippingQuote> => {
+  if (lines.length === 0) {
+    return { amount: 0 };
+  }
+
+  const zone = findShippingZone(await ShippingZonesRepo.list({ isActive: true }), country);
+  if (!zone) {
+    throw new CustomValidationError(`Shipping to ${country} is not available`);
+  }
+
+  const value = lines.reduce((sum, line) => sum + (zone.basis === 'weight' ? line.weight : line.amount), 0);
+  const rate = findShippingRate(zone, value);
+  if (!rate) {
+    throw new CustomValidationError(
+      zone.basis === 'weight'
+        ? `Orders over ${zone.rates[zone.rates.length - 1]?.upTo ?? 0} kg cannot be shipped to ${country}`
+        : `Orders of this value cannot be shipped to ${country}`
+    );
+  }
+
+  return { amount: rate.amount, zone };
+};
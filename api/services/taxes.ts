@@ -0,0 +1,72 @@
+import { TaxRulesRepo } from '../repositories/index.js';
+import { OrderTax, TaxRule } from '../types.js';
+
+export interface TaxableLine {
+  category?: string;
+  isDigital: boolean;
+  // What the buyer pays for the line after discounts
+  amount: number;
+}
+
+export interface LineTax {
+  taxRuleId?: string;
+  rate: number;
+  amount: number;
+}
+
+export interface TaxedLines {
+  // Tax of each input line, in input order
+  lineTaxes: LineTax[];
+  taxes: OrderTax[];
+  taxAmount: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+// A region narrows a rule more than a category, and a category more than the
+// kind of goods, so e.g. a digital-goods VAT rule beats the country's
+// standard rate but not a regional one
+const specificity = (rule: TaxRule) =>
+  (rule.region ? 4 : 0) + (rule.category ? 2 : 0) + (rule.appliesTo !== 'all' ? 1 : 0);
+
+const appliesTo = (rule: TaxRule, line: TaxableLine, region: string) =>
+  (!rule.region || rule.region.trim().toLowerCase() === region)
+  && (!rule.category || rule.category === line.category)
+  && (rule.appliesTo === 'all' || (rule.appliesTo === 'digital') === line.isDigital);
+
+// The single rule taxing the line, or undefined when the line is tax free
+export const findTaxRule = (rules: TaxRule[], line: TaxableLine, region: string) =>
+  rules
+    .filter(rule => appliesTo(rule, line, region))
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+
+// Taxes each line at the destination's rule, rounding per line to whole cents.
+// Shipping is not taxed.
+export const calculateTaxes = async (
+  address: { country: string; state?: string },
+  lines: TaxableLine[]
+): Promise<TaxedLines> => {
+  const rules = await TaxRulesRepo.list({ country: address.country, isActive: true });
+  const region = (address.state ?? '').trim().toLowerCase();
+
+  const byRule = new Map<string, OrderTax & { cents: number }>();
+  const lineTaxes = lines.map(line => {
+    const rule = findTaxRule(rules, line, region);
+    if (!rule) return { rate: 0, amount: 0 };
+
+    const cents = Math.round(toCents(line.amount) * rule.rate / 100);
+    const total = byRule.get(rule.id) ?? { taxRuleId: rule.id, name: rule.name, rate: rule.rate, amount: 0, cents: 0 };
+    total.cents += cents;
+    byRule.set(rule.id, total);
+    return { taxRuleId: rule.id, rate: rule.rate, amount: fromCents(cents) };
+  });
+
+  const taxes = [...byRule.values()].map(({ cents, ...tax }) => ({ ...tax, amount: fromCents(cents) }));
+
+  return {
+    lineTaxes,
+    taxes,
+    taxAmount: fromCents(taxes.reduce((sum, tax) => sum + toCents(tax.amount), 0))
+  };
+};
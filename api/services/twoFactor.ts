@@ -0,0 +1,218 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { transaction } from '../config/database.js';
+import { AuthenticationError, ConflictError, CustomValidationError } from '../middleware/errorHandler.js';
+import {
+  PlatformSettingsRepo, RecoveryCodesRepo, TwoFactorChallengesRepo, TwoFactorRepo, UsersRepo
+} from '../repositories/index.js';
+import { TwoFactorChallenge, TwoFactorSetup, TwoFactorStatus, User } from '../types.js';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp.js';
+
+// Name authenticator apps show next to the account
+const ISSUER = 'Desván Digital';
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_MS = 5 * 60_000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const ADMIN_TWO_FACTOR_SETTING = 'admin_two_factor_required';
+
+// A code from the authenticator app, or one of the recovery codes
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+const getEncryptionKey = () => {
+  const secret = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('TWO_FACTOR_ENCRYPTION_KEY not configured');
+  }
+  return createHash('sha256').update(secret).digest();
+};
+
+// AES-256-GCM; stored as iv.tag.ciphertext
+const encryptSecret = (secret: string) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+};
+
+const decryptSecret = (stored: string) => {
+  const [iv, tag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+// Codes are accepted with or without the dash and in any case
+const hashRecoveryCode = (code: string) =>
+  createHash('sha256').update(code.toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex');
+
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+const issueRecoveryCodes = async (userId: string) => {
+  const codes = generateRecoveryCodes();
+  await RecoveryCodesRepo.replaceAll(userId, codes.map(hashRecoveryCode));
+  return codes;
+};
+
+// Checks the second factor of a user with two-factor authentication on and
+// uses it up: an app code cannot be replayed, a recovery code works once
+const verifySecondFactor = async (userId: string, { code, recoveryCode }: SecondFactor): Promise<boolean> => {
+  if (code) {
+    const state = await TwoFactorRepo.getState(userId);
+    if (!state?.secret) return false;
+
+    const step = verifyTotp(decryptSecret(state.secret), code, state.lastStep);
+    return step !== null && TwoFactorRepo.claimStep(userId, step);
+  }
+  if (recoveryCode) {
+    return RecoveryCodesRepo.redeem(userId, hashRecoveryCode(recoveryCode));
+  }
+  return false;
+};
+
+export const getAdminTwoFactorPolicy = () => PlatformSettingsRepo.get(ADMIN_TWO_FACTOR_SETTING, false);
+
+// An admin can only demand two-factor authentication from admins once they use it
+export const setAdminTwoFactorPolicy = async (admin: User, required: boolean): Promise<void> => {
+  if (required && !admin.twoFactorEnabled) {
+    throw new ConflictError('Turn on two-factor authentication for your own account first');
+  }
+  await PlatformSettingsRepo.set(ADMIN_TWO_FACTOR_SETTING, required, admin.id);
+};
+
+// Whether the user's role has to use two-factor authentication
+export const isTwoFactorRequired = async (user: Pick<User, 'role'>) =>
+  user.role === 'admin' && await getAdminTwoFactorPolicy();
+
+export const getTwoFactorStatus = async (user: User): Promise<TwoFactorStatus> => {
+  const [state, recoveryCodesRemaining, required] = await Promise.all([
+    TwoFactorRepo.getState(user.id),
+    RecoveryCodesRepo.countUnused(user.id),
+    isTwoFactorRequired(user)
+  ]);
+
+  return {
+    enabled: Boolean(user.twoFactorEnabled),
+    enabledAt: state?.enabledAt,
+    required,
+    recoveryCodesRemaining: user.twoFactorEnabled ? recoveryCodesRemaining : 0
+  };
+};
+
+// Creates the secret for the authenticator app. It only takes effect once a
+// code from the app confirms it; starting again replaces it.
+export const beginTwoFactorSetup = async (user: User): Promise<TwoFactorSetup> => {
+  if (user.twoFactorEnabled) {
+    throw new ConflictError('Two-factor authentication is already on');
+  }
+
+  const secret = generateTotpSecret();
+  await TwoFactorRepo.setPendingSecret(user.id, encryptSecret(secret));
+
+  return { secret, otpauthUri: buildOtpauthUri(secret, user.email, ISSUER) };
+};
+
+// Turns two-factor authentication on with a code for the pending secret.
+// Returns the recovery codes, which are not shown again.
+export const enableTwoFactor = async (user: User, code: string): Promise<string[]> => {
+  if (user.twoFactorEnabled) {
+    throw new ConflictError('Two-factor authentication is already on');
+  }
+
+  const state = await TwoFactorRepo.getState(user.id);
+  if (!state?.pendingSecret) {
+    throw new ConflictError('Start the two-factor setup first');
+  }
+
+  const step = verifyTotp(decryptSecret(state.pendingSecret), code);
+  if (step === null) {
+    throw new CustomValidationError('Invalid authentication code');
+  }
+
+  return transaction(async () => {
+    if (!await TwoFactorRepo.enable(user.id, step)) {
+      throw new ConflictError('Start the two-factor setup first');
+    }
+    return issueRecoveryCodes(user.id);
+  });
+};
+
+export const disableTwoFactor = async (user: User, factor: SecondFactor): Promise<void> => {
+  if (!user.twoFactorEnabled) {
+    throw new ConflictError('Two-factor authentication is not on');
+  }
+  if (await isTwoFactorRequired(user)) {
+    throw new ConflictError('Your role requires two-factor authentication');
+  }
+  if (!await verifySecondFactor(user.id, factor)) {
+    throw new AuthenticationError('Invalid authentication code');
+  }
+
+  await transaction(async () => {
+    await TwoFactorRepo.disable(user.id);
+    await RecoveryCodesRepo.deleteAll(user.id);
+  });
+};
+
+// A fresh set of recovery codes; the old ones stop working
+export const regenerateRecoveryCodes = async (user: User, code: string): Promise<string[]> => {
+  if (!user.twoFactorEnabled) {
+    throw new ConflictError('Two-factor authentication is not on');
+  }
+  if (!await verifySecondFactor(user.id, { code })) {
+    throw new AuthenticationError('Invalid authentication code');
+  }
+
+  return issueRecoveryCodes(user.id);
+};
+
+// Opens the second step of a login after the password was right
+export const openLoginChallenge = async (user: User): Promise<TwoFactorChallenge> => {
+  await TwoFactorChallengesRepo.deleteExpired();
+  const challenge = await TwoFactorChallengesRepo.create(
+    user.id,
+    new Date(Date.now() + CHALLENGE_TTL_MS).toISOString()
+  );
+
+  return { twoFactorRequired: true, challengeToken: challenge.id, expiresAt: challenge.expiresAt };
+};
+
+// The account a login challenge belongs to, so failed codes can be counted
+// against it before the challenge is completed
+export const findLoginChallengeUser = async (challengeToken: string): Promise<User | null> => {
+  const challenge = await TwoFactorChallengesRepo.findById(challengeToken);
+  return challenge ? UsersRepo.findById(challenge.userId) : null;
+};
+
+// Completes a login challenge with the second factor and returns the user
+// signing in. A challenge takes a few attempts at most, after which the
+// password has to be entered again.
+export const completeLoginChallenge = async (challengeToken: string, factor: SecondFactor): Promise<User> => {
+  const challenge = await TwoFactorChallengesRepo.findById(challengeToken);
+  if (!challenge || challenge.completedAt || challenge.expiresAt <= new Date().toISOString()) {
+    throw new AuthenticationError('Two-factor challenge expired, please log in again');
+  }
+  if (challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+    throw new AuthenticationError('Too many attempts, please log in again');
+  }
+
+  await TwoFactorChallengesRepo.recordAttempt(challenge.id);
+  if (!await verifySecondFactor(challenge.userId, factor)) {
+    throw new AuthenticationError('Invalid authentication code');
+  }
+  if (!await TwoFactorChallengesRepo.complete(challenge.id)) {
+    throw new AuthenticationError('Two-factor challenge expired, please log in again');
+  }
+
+  const user = await UsersRepo.findById(challenge.userId, { activeOnly: true });
+  if (!user) {
+    throw new AuthenticationError('Account is deactivated');
+  }
+  return user;
+};
@@ -0,0 +1,166 @@
+import { transaction } from '../config/database.js';
+import { ConflictError, CustomValidationError } from '../middleware/errorHandler.js';
+import { ProductsRepo, ProductVariantsRepo, CreateVariantInput, UpdateVariantInput } from '../repositories/index.js';
+import { Product, ProductOption, ProductVariant } from '../types.js';
+
+export type VariantInput = Omit<CreateVariantInput, 'productId'>;
+
+// Products with options are only sold as one of their variants
+export const hasVariants = (product: Product) => (product.options ?? []).length > 0;
+
+export const getUnitPrice = (product: Product, variant?: ProductVariant) => variant?.price ?? product.price;
+
+// Digital products never run out
+export const getAvailableQuantity = (product: Product, variant?: ProductVariant) =>
+  product.isDigital ? Infinity : (variant ?? product).stockQuantity;
+
+// Product name with the chosen option values, for messages
+export const describeLine = (product: Product, variant?: ProductVariant) =>
+  variant ? `"${product.name}" (${Object.values(variant.options).join(', ')})` : `"${product.name}"`;
+
+// Why the product cannot be bought as `variant` (or without one), or null when it can
+export const getVariantError = (product: Product, variantId?: string | null, variant?: ProductVariant): string | null => {
+  if (!hasVariants(product)) {
+    return variantId ? `"${product.name}" has no variants` : null;
+  }
+  if (!variantId) {
+    return `Choose an option of "${product.name}"`;
+  }
+  if (!variant || variant.productId !== product.id) {
+    return 'Product variant not found';
+  }
+  if (!variant.isActive) {
+    return `This option of "${product.name}" is no longer available`;
+  }
+  return null;
+};
+
+export interface LineRequest {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+export interface ResolvedLine {
+  product: Product;
+  variant?: ProductVariant;
+  quantity: number;
+}
+
+// Loads the products and variants of the requested lines. Throws
+// CustomValidationError (400) for a missing product or an unusable variant.
+export const resolveLines = async (requests: LineRequest[]): Promise<ResolvedLine[]> => {
+  const [products, variants] = await Promise.all([
+    ProductsRepo.findByIds([...new Set(requests.map(request => request.productId))]),
+    ProductVariantsRepo.findByIds(requests.flatMap(request => (request.variantId ? [request.variantId] : [])))
+  ]);
+
+  return requests.map(({ productId, variantId, quantity }) => {
+    const product = products.find(candidate => candidate.id === productId);
+    if (!product) {
+      throw new CustomValidationError('One or more products not found');
+    }
+    const variant = variants.find(candidate => candidate.id === variantId);
+    const refusal = getVariantError(product, variantId, variant);
+    if (refusal) {
+      throw new CustomValidationError(refusal);
+    }
+    return { product, variant, quantity };
+  });
+};
+
+// Why `values` is not exactly one allowed value per option, or null
+const getOptionValuesError = (options: ProductOption[], values: Record<string, string>): string | null => {
+  if (options.length === 0) {
+    return 'Set the product options before adding variants';
+  }
+  for (const option of options) {
+    const value = values[option.name];
+    if (value === undefined) {
+      return `Missing a value for option "${option.name}"`;
+    }
+    if (!option.values.includes(value)) {
+      return `"${value}" is not a value of option "${option.name}"`;
+    }
+  }
+  const unknown = Object.keys(values).find(name => !options.some(option => option.name === name));
+  return unknown ? `Unknown option "${unknown}"` : null;
+};
+
+const sameValues = (a: Record<string, string>, b: Record<string, string>) =>
+  Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([name, value]) => b[name] === value);
+
+// SKUs are unique across the store; each combination is sold by one active variant
+const assertUnique = async (product: Product, sku: string, values: Record<string, string>, exceptId?: string) => {
+  const sameSku = await ProductVariantsRepo.findBySku(sku);
+  if (sameSku && sameSku.id !== exceptId) {
+    throw new ConflictError(`SKU "${sku}" is already in use`);
+  }
+  const siblings = await ProductVariantsRepo.listByProduct(product.id);
+  if (siblings.some(variant => variant.id !== exceptId && sameValues(variant.options, values))) {
+    throw new ConflictError('Another variant already has these options');
+  }
+};
+
+// Replaces the product's options. Refused while an active variant uses a
+// value (or option) that would be removed.
+export const setProductOptions = (product: Product, options: ProductOption[]): Promise<Product> =>
+  transaction(async () => {
+    const names = options.map(option => option.name);
+    if (new Set(names).size !== names.length) {
+      throw new CustomValidationError('Option names must be unique');
+    }
+    const repeated = options.find(option => new Set(option.values).size !== option.values.length);
+    if (repeated) {
+      throw new CustomValidationError(`Values of option "${repeated.name}" must be unique`);
+    }
+
+    for (const variant of await ProductVariantsRepo.listByProduct(product.id)) {
+      const refusal = getOptionValuesError(options, variant.options);
+      if (refusal) {
+        throw new ConflictError(`Variant ${variant.sku} would no longer match the options: ${refusal}`);
+      }
+    }
+
+    return (await ProductsRepo.update(product.id, { options }))!;
+  });
+
+export const createVariant = (product: Product, input: VariantInput): Promise<ProductVariant> =>
+  transaction(async () => {
+    const refusal = getOptionValuesError(product.options ?? [], input.options);
+    if (refusal) {
+      throw new CustomValidationError(refusal);
+    }
+    await assertUnique(product, input.sku, input.options);
+
+    const variant = await ProductVariantsRepo.create({ ...input, productId: product.id });
+    await ProductVariantsRepo.syncProduct(product.id);
+    return variant;
+  });
+
+export const updateVariant = (
+  product: Product,
+  variant: ProductVariant,
+  changes: UpdateVariantInput
+): Promise<ProductVariant> =>
+  transaction(async () => {
+    const values = changes.options ?? variant.options;
+    // A variant brought back must still fit options changed since it was retired
+    if (changes.options || changes.isActive) {
+      const refusal = getOptionValuesError(product.options ?? [], values);
+      if (refusal) {
+        throw new CustomValidationError(refusal);
+      }
+    }
+    if (changes.sku || changes.options || changes.isActive) {
+      await assertUnique(product, changes.sku ?? variant.sku, values, variant.id);
+    }
+
+    const updated = (await ProductVariantsRepo.update(variant.id, changes))!;
+    await ProductVariantsRepo.syncProduct(product.id);
+    return updated;
+  });
+
+// Variants are retired rather than deleted so past orders keep pointing at them
+export const deactivateVariant = (product: Product, variant: ProductVariant): Promise<ProductVariant> =>
+  updateVariant(product, variant, { isActive: false });
@@ -1,6 +1,7 @@
 import { Server, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { query } from '../config/database.js';
+import { AuthSessionsRepo } from '../repositories/index.js';
 import { Message, User } from '../types.js';
 
 interface AuthenticatedSocket extends Socket {
@@ -11,6 +12,7 @@ interface SocketData {
   userId: string;
   email: string;
   role: string;
+  sid?: string;
 }
 
 // Store active users
@@ -32,9 +34,13 @@ const authenticateSocket = async (socket: AuthenticatedSocket, next: (err?: Erro
     }
 
     const decoded = jwt.verify(token, jwtSecret) as SocketData;
-    
+
+    if (!decoded.sid || !await AuthSessionsRepo.isActive(decoded.sid)) {
+      return next(new Error('Session expired or revoked'));
+    }
+
     // Fetch user details from database
-    const result = await query(
+    const result = await query<User>(
       `SELECT id, username, email, full_name, avatar_url, role, subscription_type, 
               created_at, updated_at
        FROM users WHERE id = $1 AND is_active = true`,
@@ -45,7 +51,7 @@ const authenticateSocket = async (socket: AuthenticatedSocket, next: (err?: Erro
       return next(new Error('User not found or inactive'));
     }
 
-    socket.user = result.rows[0] as User;
+    socket.user = result.rows[0];
     next();
   } catch (error) {
     next(new Error('Invalid authentication token'));
@@ -96,7 +102,7 @@ export const setupSocketHandlers = (io: Server) => {
         const { receiverId, content, messageType = 'text', fileUrl } = data;
 
         // Validate receiver exists
-        const receiverResult = await query(
+        const receiverResult = await query<User>(
           'SELECT id, username FROM users WHERE id = $1 AND is_active = true',
           [receiverId]
         );
@@ -107,14 +113,14 @@ export const setupSocketHandlers = (io: Server) => {
         }
 
         // Save message to database
-        const messageResult = await query(
+        const messageResult = await query<Message>(
           `INSERT INTO messages (sender_id, receiver_id, content, message_type, file_url)
            VALUES ($1, $2, $3, $4, $5)
            RETURNING id, sender_id, receiver_id, content, message_type, file_url, is_read, created_at`,
           [socket.user.id, receiverId, content, messageType, fileUrl]
         );
 
-        const message = messageResult.rows[0] as Message;
+        const message = messageResult.rows[0];
         message.sender = socket.user;
         message.receiver = receiverResult.rows[0];
 
@@ -143,7 +149,7 @@ export const setupSocketHandlers = (io: Server) => {
         }
 
         // Update message read status
-        const result = await query(
+        const result = await query<{ sender_id: string }>(
           `UPDATE messages SET is_read = true 
            WHERE id = $1 AND receiver_id = $2
            RETURNING sender_id`,
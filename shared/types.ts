@@ -16,6 +16,16 @@ export interface User {
   updatedAt: string;
   lastLogin?: string;
   preferences?: UserPreferences;
+  bio?: string;
+  location?: string;
+  website?: string;
+  isVerified?: boolean;
+  emailVerified?: boolean;
+  twoFactorEnabled?: boolean;
+  postsCount?: number;
+  followersCount?: number;
+  followingCount?: number;
+  isFollowing?: boolean;
 }
 
 export interface UserPreferences {
@@ -45,14 +55,77 @@ export interface AuthResponse {
   user: User;
   token: string;
   refreshToken: string;
+  // The account's role must use two-factor authentication and it is not set up yet
+  twoFactorSetupRequired?: boolean;
+}
+
+// What login returns instead of tokens when the account has two-factor
+// authentication on: the challenge to complete with a code
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresAt: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  // Whether the user's role has to use it
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// A secret waiting to be confirmed with a code from the authenticator app
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export type SecurityEventType = 'account_locked' | 'account_unlocked' | 'ip_blocked';
+
+// Entry of the admin security log
+export interface SecurityEvent {
+  id: string;
+  type: SecurityEventType;
+  userId?: string;
+  email?: string;
+  ipAddress?: string;
+  // E.g. the number of failures and until when the subject is locked
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+export type SessionRevokeReason = 'logout' | 'logout_all' | 'token_reuse' | 'password_change';
+
+// A signed-in device or browser, from login until it is revoked
+export interface AuthSession {
+  id: string;
+  userId: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  // When its newest refresh token runs out; it cannot be renewed after that
+  expiresAt: string;
+  revokedAt?: string;
+  revokedReason?: SessionRevokeReason;
+  userAgent?: string;
+  // Where the session was last used from
+  ipAddress?: string;
+  // Browser and operating system read from the user agent, e.g. "Chrome on Windows"
+  device?: string;
+  // Set when listing sessions: the one making the request
+  isCurrent?: boolean;
 }
 
 // Product types
 export interface Product {
   id: string;
+  // The seller's own reference, unique among their products
+  sku?: string;
   name: string;
   description: string;
   price: number;
+  // The regular price while a sale is running, shown as "was"
+  compareAtPrice?: number;
   category: string;
   tags: string[];
   images: string[];
@@ -64,6 +137,47 @@ export interface Product {
   updatedAt: string;
   sellerId: string;
   sellerName: string;
+  sellerUsername?: string;
+  sellerAvatar?: string;
+  salesCount?: number;
+  // Shown first on the seller's storefront
+  isFeatured?: boolean;
+  isDigital?: boolean;
+  // Shipping weight in kg; digital products never ship
+  weight?: number;
+  isActive?: boolean;
+  previewUrls?: string[];
+  requirements?: string[];
+  features?: string[];
+  // Digital delivery: downloads allowed per purchase (unlimited when unset)
+  // and whether each purchase gets a license key
+  downloadLimit?: number;
+  issuesLicenseKeys?: boolean;
+  // Choices buyers make (e.g. size, license). A product with options is sold
+  // through its variants; its price and stock are then the cheapest active
+  // variant's and the total across them.
+  options?: ProductOption[];
+  // Present on single-product responses
+  variants?: ProductVariant[];
+}
+
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+// One combination of option values, with its own SKU, price, stock and images
+export interface ProductVariant {
+  id: string;
+  productId: string;
+  sku: string;
+  // Option name to chosen value
+  options: Record<string, string>;
+  price: number;
+  stockQuantity: number;
+  inStock: boolean;
+  images: string[];
+  isActive: boolean;
 }
 
 export interface ProductCategory {
@@ -74,6 +188,164 @@ export interface ProductCategory {
   productCount: number;
 }
 
+// Pricing types
+// Sale start and end are applied by the sale scheduler
+export type PriceChangeReason = 'manual' | 'import' | 'sale_start' | 'sale_end';
+
+export interface PriceHistoryEntry {
+  id: string;
+  productId: string;
+  price: number;
+  previousPrice: number;
+  reason: PriceChangeReason;
+  saleId?: string;
+  changedBy?: string;
+  createdAt: string;
+}
+
+export type SaleStatus = 'scheduled' | 'active' | 'ended' | 'cancelled';
+
+export interface ProductSale {
+  id: string;
+  productId: string;
+  salePrice: number;
+  startsAt: string;
+  endsAt: string;
+  status: SaleStatus;
+  // The price the product goes back to, recorded when the sale starts
+  regularPrice?: number;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PriceAlert {
+  // Only prices at or below this are worth an alert; any drop when unset
+  targetPrice?: number;
+  // The price the last alert announced
+  notifiedPrice?: number;
+}
+
+// Review types
+// Only published reviews are listed and count towards the product rating;
+// flagged ones collected enough reports to wait for a moderator
+export type ReviewStatus = 'published' | 'flagged' | 'hidden';
+
+export type ReviewVote = 'helpful' | 'not_helpful';
+
+export interface ProductReview {
+  id: string;
+  productId: string;
+  productName?: string;
+  userId: string;
+  username?: string;
+  userFullName?: string;
+  userAvatar?: string;
+  rating: number;
+  title?: string;
+  review?: string;
+  // The reviewer has a paid order containing the product
+  isVerifiedPurchase: boolean;
+  status: ReviewStatus;
+  helpfulCount: number;
+  notHelpfulCount: number;
+  reportCount: number;
+  sellerReply?: string;
+  sellerRepliedAt?: string;
+  moderationNote?: string;
+  moderatedAt?: string;
+  // How the signed-in viewer voted, on listings
+  myVote?: ReviewVote;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReviewReportStatus = 'open' | 'resolved';
+
+export interface ReviewReport {
+  id: string;
+  reviewId: string;
+  userId: string;
+  username?: string;
+  reason: string;
+  status: ReviewReportStatus;
+  createdAt: string;
+}
+
+// Product Q&A types
+// Public questions about a product and their answers. Like reviews, enough
+// reports flag a question or answer until a moderator publishes or hides it.
+export type QaStatus = 'published' | 'flagged' | 'hidden';
+
+export type QaTarget = 'question' | 'answer';
+
+export interface ProductAnswer {
+  id: string;
+  questionId: string;
+  userId: string;
+  username?: string;
+  userFullName?: string;
+  userAvatar?: string;
+  answer: string;
+  // Written by the product's seller
+  isSellerAnswer: boolean;
+  status: QaStatus;
+  upvoteCount: number;
+  reportCount: number;
+  moderationNote?: string;
+  moderatedAt?: string;
+  // The signed-in viewer upvoted it, on listings
+  hasUpvoted?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProductQuestion {
+  id: string;
+  productId: string;
+  productName?: string;
+  userId: string;
+  username?: string;
+  userFullName?: string;
+  userAvatar?: string;
+  question: string;
+  status: QaStatus;
+  upvoteCount: number;
+  reportCount: number;
+  // Published answers only
+  answerCount: number;
+  isAnsweredBySeller: boolean;
+  answers: ProductAnswer[];
+  moderationNote?: string;
+  moderatedAt?: string;
+  hasUpvoted?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface QaReport {
+  id: string;
+  targetType: QaTarget;
+  targetId: string;
+  userId: string;
+  username?: string;
+  reason: string;
+  status: ReviewReportStatus;
+  createdAt: string;
+}
+
+// Recommendation types
+// Why a product was suggested: bought together with it (or with the user's
+// purchases), similar in category and tags, matching the user's study routes,
+// or simply selling well when nothing more specific is known
+export type RecommendationReason = 'also_bought' | 'similar' | 'study_route' | 'popular';
+
+export interface Recommendation {
+  product: Product;
+  reason: RecommendationReason;
+  score: number;
+}
+
 // Order types
 export interface Order {
   id: string;
@@ -82,22 +354,95 @@ export interface Order {
   totalAmount: number;
   status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
   shippingAddress: Address;
-  billingAddress: Address;
+  billingAddress?: Address;
   paymentMethod: string;
-  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded';
+  paymentStatus: 'pending' | 'processing' | 'paid' | 'failed' | 'refunded';
   createdAt: string;
   updatedAt: string;
   trackingNumber?: string;
   estimatedDelivery?: string;
+  paymentIntentId?: string;
+  // Before discounts; totalAmount is what the buyer is charged
+  subtotalAmount?: number;
+  discountAmount?: number;
+  discounts?: OrderDiscount[];
+  // Charged on top of the discounted subtotal; the shipping zone is missing
+  // when nothing in the order ships
+  shippingAmount?: number;
+  shippingZone?: string;
+  taxAmount?: number;
+  taxes?: OrderTax[];
+  // Sum of every refund issued on the order (returns, cancellation)
+  refundedAmount?: number;
+  // Deadline for payment while stock is held for the order
+  reservationExpiresAt?: string;
+  notes?: string;
+  itemCount?: number;
+  customer?: Pick<User, 'username' | 'full_name' | 'email'>;
+  // Each seller's part, with its own fulfilment status and tracking number
+  sellerOrders?: SellerOrder[];
+}
+
+export interface OrderStatusChange {
+  id: string;
+  orderId: string;
+  field: 'status' | 'paymentStatus';
+  fromStatus?: string;
+  toStatus: string;
+  // Missing for changes made by the system (payment webhooks, expiry)
+  actorId?: string;
+  actorName?: string;
+  note?: string;
+  createdAt: string;
 }
 
 export interface OrderItem {
+  id?: string;
   productId: string;
   productName: string;
   productImage: string;
   quantity: number;
   price: number;
   totalPrice: number;
+  category?: string;
+  sellerId?: string;
+  sellerName?: string;
+  // This line's share of the order's discounts
+  discountAmount?: number;
+  isDigital?: boolean;
+  // Percent charged on the discounted line and the resulting amount
+  taxRate?: number;
+  taxAmount?: number;
+  // Units taken back through approved returns
+  returnedQuantity?: number;
+  sellerOrderId?: string;
+  // The variant bought, with its SKU and option values at the time of purchase
+  variantId?: string;
+  sku?: string;
+  variantOptions?: Record<string, string>;
+}
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected';
+
+export interface OrderReturn {
+  id: string;
+  orderId: string;
+  orderItemId: string;
+  userId: string;
+  productId?: string;
+  productName?: string;
+  sellerId?: string;
+  customerName?: string;
+  quantity: number;
+  reason: string;
+  status: ReturnStatus;
+  refundAmount?: number;
+  paymentId?: string;
+  resolutionNote?: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface Address {
@@ -108,6 +453,374 @@ export interface Address {
   country: string;
 }
 
+export type PaymentStatus = 'requires_confirmation' | 'processing' | 'succeeded' | 'failed' | 'refunded' | 'canceled';
+
+export interface Payment {
+  id: string;
+  orderId: string;
+  provider: string;
+  providerIntentId: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  refundedAmount: number;
+  failureReason?: string;
+  // Handed to the client to confirm the intent; only present when the intent is created
+  clientSecret?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description?: string;
+  discountType: DiscountType;
+  // Percent (0-100] for percentage coupons, currency amount for fixed ones
+  discountValue: number;
+  // Empty lists mean the coupon applies to the whole order
+  productIds: string[];
+  categories: string[];
+  minOrderAmount?: number;
+  maxUses?: number;
+  maxUsesPerUser?: number;
+  timesUsed: number;
+  startsAt?: string;
+  expiresAt?: string;
+  // Only stackable coupons can be combined with other coupons
+  isStackable: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One applied coupon on an order
+export interface OrderDiscount {
+  couponId: string;
+  code: string;
+  amount: number;
+}
+
+export interface DiscountQuote {
+  subtotal: number;
+  discountAmount: number;
+  total: number;
+  discounts: OrderDiscount[];
+}
+
+// Tax and shipping types
+// A rule applies to the lines shipped to its country (and region, when set)
+// that match its category and kind of goods; the most specific rule wins
+export type TaxScope = 'all' | 'physical' | 'digital';
+
+export interface TaxRule {
+  id: string;
+  // Shown to buyers, e.g. "IVA" or "VAT (digital services)"
+  name: string;
+  // ISO 3166-1 alpha-2 code
+  country: string;
+  region?: string;
+  category?: string;
+  appliesTo: TaxScope;
+  // Percent of the discounted line price
+  rate: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Tax charged under one rule across the order
+export interface OrderTax {
+  taxRuleId: string;
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+export type ShippingBasis = 'weight' | 'price';
+
+// Rate bracket: orders up to `upTo` (kg or currency) pay `amount`; the
+// bracket without an upper bound covers everything above the others
+export interface ShippingRate {
+  upTo: number | null;
+  amount: number;
+}
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  // ISO codes; an empty list covers every country no other zone lists
+  countries: string[];
+  basis: ShippingBasis;
+  rates: ShippingRate[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CheckoutQuoteLine {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+  discountAmount: number;
+  taxRate: number;
+  taxAmount: number;
+}
+
+// Everything the order would be charged; total includes shipping and tax
+export interface CheckoutQuote extends DiscountQuote {
+  lines: CheckoutQuoteLine[];
+  shippingAmount: number;
+  shippingZone?: string;
+  taxAmount: number;
+  taxes: OrderTax[];
+}
+
+// Cart types
+export type CartIssueType = 'price_changed' | 'quantity_adjusted' | 'unavailable';
+
+// Something that changed since the buyer last saw the cart; reported once
+export interface CartIssue {
+  productId: string;
+  variantId?: string;
+  type: CartIssueType;
+  message: string;
+}
+
+export interface CartItem {
+  product: Product;
+  variant?: ProductVariant;
+  quantity: number;
+  addedAt: string;
+  updatedAt: string;
+}
+
+export interface Cart {
+  items: CartItem[];
+  totalItems: number;
+  subtotal: number;
+  issues: CartIssue[];
+}
+
+export interface WishlistItem {
+  product: Product;
+  addedAt: string;
+  // Set when the user wants to hear about price drops
+  priceAlert?: PriceAlert;
+}
+
+// Digital delivery types
+export interface ProductFile {
+  id: string;
+  productId: string;
+  fileName: string;
+  contentType?: string;
+  sizeBytes: number;
+  createdAt: string;
+}
+
+export type EntitlementStatus = 'active' | 'revoked';
+
+// Access to a digital product granted by a paid order item
+export interface Entitlement {
+  id: string;
+  orderId: string;
+  orderItemId: string;
+  userId: string;
+  productId: string;
+  productName: string;
+  productImage?: string;
+  // Units still held: the item's quantity minus returned units
+  seats: number;
+  status: EntitlementStatus;
+  // Undefined when downloads are unlimited
+  downloadLimit?: number;
+  downloadCount: number;
+  lastDownloadedAt?: string;
+  licenseKey?: string;
+  revokedAt?: string;
+  revokeReason?: string;
+  createdAt: string;
+  files?: ProductFile[];
+}
+
+export interface DownloadLink {
+  url: string;
+  expiresAt: string;
+}
+
+export interface LicenseVerification {
+  valid: boolean;
+  productId?: string;
+  productName?: string;
+  seats?: number;
+  status?: EntitlementStatus;
+  issuedAt?: string;
+}
+
+// Seller types
+// The part of an order sold by one seller, fulfilled independently
+export interface SellerOrder {
+  id: string;
+  orderId: string;
+  sellerId: string;
+  sellerName?: string;
+  status: Order['status'];
+  // Seller's items before and after their share of the order's discounts
+  subtotalAmount: number;
+  discountAmount: number;
+  totalAmount: number;
+  // Platform commission charged on the total, as a fraction (0.1 = 10%)
+  commissionRate: number;
+  commissionAmount: number;
+  refundedAmount: number;
+  trackingNumber?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Present when the seller order is loaded for its seller
+  items?: OrderItem[];
+  paymentStatus?: Order['paymentStatus'];
+  shippingAddress?: Address;
+  customerName?: string;
+}
+
+export type LedgerEntryType = 'sale' | 'commission' | 'refund' | 'commission_reversal' | 'payout' | 'payout_reversal';
+
+// Signed: positive entries add to the seller's balance
+export interface SellerLedgerEntry {
+  id: string;
+  sellerId: string;
+  type: LedgerEntryType;
+  amount: number;
+  sellerOrderId?: string;
+  orderId?: string;
+  payoutId?: string;
+  description?: string;
+  createdAt: string;
+}
+
+export type PayoutStatus = 'pending' | 'paid' | 'failed';
+
+export interface SellerPayout {
+  id: string;
+  batchId: string;
+  sellerId: string;
+  sellerName?: string;
+  amount: number;
+  status: PayoutStatus;
+  reference?: string;
+  createdAt: string;
+  settledAt?: string;
+}
+
+export interface SellerEarnings {
+  grossSales: number;
+  // Platform commission, net of what was given back on refunds
+  commission: number;
+  // Amount refunded to buyers
+  refunds: number;
+  netEarnings: number;
+  paidOut: number;
+  // In payouts created but not yet settled
+  inTransit: number;
+  // Earnings from delivered seller orders not yet paid out
+  availableBalance: number;
+  // Earnings from seller orders still being fulfilled
+  pendingBalance: number;
+}
+
+// A seller's public page: their profile, catalog totals and the products
+// they feature (topped up with their best sellers)
+export interface SellerStorefront {
+  seller: User;
+  productCount: number;
+  salesCount: number;
+  // Mean product rating weighted by each product's number of reviews
+  rating: number;
+  reviewCount: number;
+  featuredProducts: Product[];
+}
+
+export type AnalyticsInterval = 'day' | 'week' | 'month';
+
+export interface SellerProductPerformance {
+  productId: string;
+  productName: string;
+  views: number;
+  // Paid orders containing the product
+  orders: number;
+  unitsSold: number;
+  revenue: number;
+  // Orders per view, as a fraction capped at 1 (views are counted per
+  // product page load in the range, and an order needs none in it)
+  conversionRate: number;
+}
+
+// A seller's sales between two dates (inclusive), counting paid orders by
+// the day they were placed. Revenue is the seller's share after discounts.
+export interface SellerAnalytics {
+  startDate: string;
+  endDate: string;
+  interval: AnalyticsInterval;
+  revenue: number;
+  orders: number;
+  averageOrderValue: number;
+  refundedAmount: number;
+  // Refunded share of revenue, as a fraction
+  refundRate: number;
+  views: number;
+  // Orders per view, capped at 1 like a product's
+  conversionRate: number;
+  // One entry per interval, dated by its first day
+  revenueData: RevenueData[];
+  topProducts: SellerProductPerformance[];
+}
+
+// Invoice types
+export type InvoiceType = 'invoice' | 'credit_note';
+
+// Credit notes carry what was refunded, as positive amounts
+export interface InvoiceLine {
+  orderItemId?: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  discountAmount: number;
+  // Missing on lines that span several rates
+  taxRate?: number;
+  taxAmount: number;
+  // After the discount, with tax
+  totalAmount: number;
+}
+
+// Issued by a seller for their part of a paid order, numbered in the seller's
+// own sequence; a credit note refers to the invoice it reduces
+export interface Invoice {
+  id: string;
+  number: string;
+  type: InvoiceType;
+  sellerId: string;
+  sellerName?: string;
+  orderId: string;
+  sellerOrderId?: string;
+  creditedInvoiceId?: string;
+  creditedInvoiceNumber?: string;
+  reason?: string;
+  lines: InvoiceLine[];
+  subtotalAmount: number;
+  discountAmount: number;
+  // The seller's share of the order's shipping
+  shippingAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  currency: string;
+  issuedAt: string;
+}
+
 // Study Routes types
 export interface StudyRoute {
   id: string;
@@ -166,6 +879,11 @@ export interface Post {
   updatedAt: string;
   tags: string[];
   visibility: 'public' | 'friends' | 'private';
+  authorUsername?: string;
+  authorVerified?: boolean;
+  videoUrl?: string;
+  commentsCount?: number;
+  isActive?: boolean;
 }
 
 export interface Comment {
@@ -234,7 +952,7 @@ export interface Chat {
 export interface DashboardItem {
   id: string;
   name: string;
-  type: 'image' | 'video' | 'audio' | 'document' | 'folder';
+  type: 'note' | 'image' | 'video' | 'audio' | 'document' | 'folder';
   size: number;
   url?: string;
   thumbnail?: string;
@@ -244,6 +962,10 @@ export interface DashboardItem {
   createdAt: string;
   updatedAt: string;
   userId: string;
+  description?: string;
+  category?: string;
+  mimeType?: string;
+  metadata?: Record<string, any>;
 }
 
 export interface DashboardStats {
@@ -277,6 +999,11 @@ export interface AtticObject {
   createdAt: string;
   updatedAt: string;
   userId: string;
+  description?: string;
+  textures?: string[];
+  thumbnail?: string;
+  tags?: string[];
+  isVisible?: boolean;
 }
 
 export interface ObjectLink {
@@ -11,10 +11,19 @@ import ProtectedRoute from './components/auth/ProtectedRoute';
 import Home from './pages/Home';
 import Login from './components/auth/Login';
 import Register from './components/auth/Register';
+import ForgotPassword from './components/auth/ForgotPassword';
+import ResetPassword from './components/auth/ResetPassword';
+import VerifyEmail from './components/auth/VerifyEmail';
+import UnlockAccount from './components/auth/UnlockAccount';
 import Store from './pages/Store';
 import ProductDetail from './pages/ProductDetail';
 import Cart from './pages/Cart';
 import Checkout from './pages/Checkout';
+import OrderDetail from './pages/OrderDetail';
+import Purchases from './pages/Purchases';
+import SellerEarnings from './pages/SellerEarnings';
+import SellerAnalytics from './pages/SellerAnalytics';
+import SellerStorefront from './pages/SellerStorefront';
 import SocialNetwork from './pages/SocialNetwork';
 import StudyRoutes from './pages/StudyRoutes';
 import StudyRouteDetail from './pages/StudyRouteDetail';
@@ -49,8 +58,13 @@ function App() {
                       <Register />
                     </ProtectedRoute>
                   } />
+                  <Route path="/forgot-password" element={<ForgotPassword />} />
+                  <Route path="/reset-password" element={<ResetPassword />} />
+                  <Route path="/verify-email" element={<VerifyEmail />} />
+                  <Route path="/unlock-account" element={<UnlockAccount />} />
                   <Route path="/store" element={<Store />} />
                   <Route path="/product/:id" element={<ProductDetail />} />
+                  <Route path="/sellers/:sellerId" element={<SellerStorefront />} />
                   <Route path="/study-routes" element={<StudyRoutes />} />
                   <Route path="/study-route/:id" element={<StudyRouteDetail />} />
                   
@@ -65,6 +79,26 @@ function App() {
                       <Checkout />
                     </ProtectedRoute>
                   } />
+                  <Route path="/orders/:id" element={
+                    <ProtectedRoute>
+                      <OrderDetail />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/purchases" element={
+                    <ProtectedRoute>
+                      <Purchases />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/seller/earnings" element={
+                    <ProtectedRoute>
+                      <SellerEarnings />
+                    </ProtectedRoute>
+                  } />
+                  <Route path="/seller/analytics" element={
+                    <ProtectedRoute>
+                      <SellerAnalytics />
+                    </ProtectedRoute>
+                  } />
                   <Route path="/social" element={
                     <ProtectedRoute>
                       <SocialNetwork />
@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Monitor, Smartphone } from 'lucide-react';
+import type { AuthSession } from '@shared/types';
+import { apiRequest, ApiRequestError } from '../lib/api';
+
+const MOBILE_DEVICES = /Android|iOS/;
+
+const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString() : 'Never');
+
+// The devices the user is signed in on, with a way to sign any other one out
+const ActiveSessions = () => {
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiRequest<AuthSession[]>('/auth/sessions')
+      .then(setSessions)
+      .catch(error => {
+        toast.error(error instanceof ApiRequestError ? error.message : 'Error loading sessions');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const revokeSession = async (session: AuthSession) => {
+    setRevokingId(session.id);
+    try {
+      await apiRequest<null>(`/auth/sessions/${session.id}`, { method: 'DELETE' });
+      setSessions(previous => previous.filter(entry => entry.id !== session.id));
+      toast.success(`Signed out of ${session.device}`);
+    } catch (error) {
+      toast.error(error instanceof ApiRequestError ? error.message : 'Error revoking session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-1">Active Sessions</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Devices signed in to your account. Revoke any you don't recognize and change your password.
+      </p>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading sessions...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No active sessions.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {sessions.map(session => {
+            const DeviceIcon = MOBILE_DEVICES.test(session.device ?? '') ? Smartphone : Monitor;
+            return (
+              <li key={session.id} className="flex items-center justify-between p-4">
+                <div className="flex items-center space-x-3">
+                  <DeviceIcon className="w-5 h-5 text-gray-400" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {session.device}
+                      {session.isCurrent && (
+                        <span className="ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {session.ipAddress ?? 'Unknown IP'} · Last active {formatDateTime(session.lastUsedAt)} ·
+                      Signed in {formatDateTime(session.createdAt)}
+                    </p>
+                  </div>
+                </div>
+                {!session.isCurrent && (
+                  <button
+                    onClick={() => revokeSession(session)}
+                    disabled={revokingId === session.id}
+                    className="px-3 py-1 text-sm text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50 transition-colors"
+                  >
+                    {revokingId === session.id ? 'Revoking...' : 'Revoke'}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ActiveSessions;
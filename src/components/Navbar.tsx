@@ -17,7 +17,10 @@ import {
   LayoutDashboard,
   Box,
   Palette,
-  Shield
+  Shield,
+  Library,
+  Wallet,
+  BarChart3
 } from 'lucide-react';
 
 const Navbar: React.FC = () => {
@@ -155,6 +158,30 @@ const Navbar: React.FC = () => {
                       <User className="w-4 h-4" />
                       <span>Profile</span>
                     </Link>
+                    <Link
+                      to="/purchases"
+                      className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-purple-50"
+                      onClick={() => setShowUserMenu(false)}
+                    >
+                      <Library className="w-4 h-4" />
+                      <span>My purchases</span>
+                    </Link>
+                    <Link
+                      to="/seller/earnings"
+                      className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-purple-50"
+                      onClick={() => setShowUserMenu(false)}
+                    >
+                      <Wallet className="w-4 h-4" />
+                      <span>My sales</span>
+                    </Link>
+                    <Link
+                      to="/seller/analytics"
+                      className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-purple-50"
+                      onClick={() => setShowUserMenu(false)}
+                    >
+                      <BarChart3 className="w-4 h-4" />
+                      <span>Sales analytics</span>
+                    </Link>
                     <Link
                       to="/user-dashboard"
                       className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:bg-purple-50"
@@ -0,0 +1,254 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { ArrowUp, Flag, Store } from 'lucide-react';
+import type { ProductAnswer, ProductQuestion, QaTarget } from '@shared/types';
+import { useAuth } from '../contexts/AuthContext';
+import { apiRequest, ApiRequestError } from '../lib/api';
+
+interface ProductQuestionsProps {
+  productId: string;
+  sellerId: string;
+}
+
+type QuestionSort = 'top' | 'newest';
+
+const PAGE_SIZE = 10;
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof ApiRequestError ? error.message : fallback;
+
+const qaPath = (target: QaTarget, id: string) => (target === 'question' ? `/questions/${id}` : `/questions/answers/${id}`);
+
+// Public questions about a product with their answers, upvotes and reports.
+// Anyone signed in may answer; the seller's answers carry a badge.
+const ProductQuestions = ({ productId, sellerId }: ProductQuestionsProps) => {
+  const { user } = useAuth();
+  const [questions, setQuestions] = useState<ProductQuestion[]>([]);
+  const [sort, setSort] = useState<QuestionSort>('top');
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [question, setQuestion] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [answerDrafts, setAnswerDrafts] = useState<Record<string, string>>({});
+
+  const isSeller = user?.id === sellerId;
+
+  const loadQuestions = useCallback(async (nextPage: number) => {
+    try {
+      const loaded = await apiRequest<ProductQuestion[]>(
+        `/products/${productId}/questions?sort=${sort}&page=${nextPage}&limit=${PAGE_SIZE}`
+      );
+      setQuestions(previous => (nextPage === 1 ? loaded : [...previous, ...loaded]));
+      setPage(nextPage);
+      setHasMore(loaded.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading questions:', error);
+    }
+  }, [productId, sort]);
+
+  useEffect(() => {
+    loadQuestions(1);
+  }, [loadQuestions]);
+
+  const replaceQuestion = (id: string, update: (current: ProductQuestion) => ProductQuestion) => {
+    setQuestions(previous => previous.map(entry => (entry.id === id ? update(entry) : entry)));
+  };
+
+  const askQuestion = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await apiRequest<ProductQuestion>(`/products/${productId}/questions`, { method: 'POST', body: { question } });
+      toast.success('Pregunta publicada, avisaremos al vendedor');
+      setQuestion('');
+      await loadQuestions(1);
+    } catch (error) {
+      toast.error(errorMessage(error, 'No se pudo publicar la pregunta'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitAnswer = async (entry: ProductQuestion) => {
+    try {
+      const answer = await apiRequest<ProductAnswer>(`/questions/${entry.id}/answers`, {
+        method: 'POST',
+        body: { answer: answerDrafts[entry.id] }
+      });
+      replaceQuestion(entry.id, current => ({
+        ...current,
+        answers: [...current.answers, answer],
+        answerCount: current.answerCount + 1,
+        isAnsweredBySeller: current.isAnsweredBySeller || answer.isSellerAnswer
+      }));
+      setAnswerDrafts(previous => {
+        const next = { ...previous };
+        delete next[entry.id];
+        return next;
+      });
+    } catch (error) {
+      toast.error(errorMessage(error, 'No se pudo publicar la respuesta'));
+    }
+  };
+
+  // Upvoting what is already upvoted takes the upvote back
+  const toggleUpvote = async (target: QaTarget, item: ProductQuestion | ProductAnswer, questionId: string) => {
+    try {
+      const updated = await apiRequest<{ upvoteCount: number; hasUpvoted: boolean }>(`${qaPath(target, item.id)}/upvote`, {
+        method: item.hasUpvoted ? 'DELETE' : 'PUT'
+      });
+      const votes = { upvoteCount: updated.upvoteCount, hasUpvoted: updated.hasUpvoted };
+      replaceQuestion(questionId, current => (target === 'question'
+        ? { ...current, ...votes }
+        : { ...current, answers: current.answers.map(answer => (answer.id === item.id ? { ...answer, ...votes } : answer)) }));
+    } catch (error) {
+      toast.error(errorMessage(error, 'No se pudo registrar el voto'));
+    }
+  };
+
+  const report = async (target: QaTarget, id: string) => {
+    const reason = window.prompt(`¿Por qué quieres denunciar esta ${target === 'question' ? 'pregunta' : 'respuesta'}?`);
+    if (!reason) return;
+    try {
+      await apiRequest<null>(`${qaPath(target, id)}/reports`, { method: 'POST', body: { reason } });
+      toast.success('Gracias, lo revisaremos');
+    } catch (error) {
+      toast.error(errorMessage(error, 'No se pudo enviar la denuncia'));
+    }
+  };
+
+  const actions = (target: QaTarget, item: ProductQuestion | ProductAnswer, questionId: string) => (
+    <div className="flex items-center gap-4 text-sm text-gray-500">
+      <button
+        onClick={() => toggleUpvote(target, item, questionId)}
+        disabled={!user || user.id === item.userId}
+        className={`flex items-center gap-1 disabled:cursor-default ${item.hasUpvoted ? 'text-indigo-600' : 'hover:text-gray-700'}`}
+        aria-label="Votar como útil"
+      >
+        <ArrowUp className="h-4 w-4" />
+        {item.upvoteCount}
+      </button>
+      {user && user.id !== item.userId && (
+        <button onClick={() => report(target, item.id)} className="flex items-center gap-1 hover:text-red-600">
+          <Flag className="h-4 w-4" />
+          Denunciar
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <section id="questions" className="mt-12">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Preguntas y respuestas</h2>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as QuestionSort)}
+          className="border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="top">Más votadas</option>
+          <option value="newest">Más recientes</option>
+        </select>
+      </div>
+
+      {user && !isSeller && (
+        <form onSubmit={askQuestion} className="bg-gray-50 rounded-lg p-4 mb-8 space-y-3">
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            minLength={10}
+            maxLength={1000}
+            rows={2}
+            placeholder="¿Tienes alguna duda sobre este producto? Pregunta al vendedor"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting || question.trim().length < 10}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-md text-sm hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Preguntar
+          </button>
+        </form>
+      )}
+
+      {questions.length === 0 ? (
+        <p className="text-gray-500">Todavía no hay preguntas.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {questions.map(entry => (
+            <li key={entry.id} className="py-6 space-y-2">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="font-medium text-gray-900">{entry.question}</span>
+                {entry.isAnsweredBySeller && (
+                  <span className="flex items-center gap-1 text-xs text-indigo-700 bg-indigo-50 px-2 py-0.5 rounded-full">
+                    <Store className="h-3 w-3" />
+                    Respondida por el vendedor
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <span>{entry.userFullName || entry.username}</span>
+                <span>·</span>
+                <span>{new Date(entry.createdAt).toLocaleDateString()}</span>
+              </div>
+              {actions('question', entry, entry.id)}
+
+              {entry.answers.map(answer => (
+                <div
+                  key={answer.id}
+                  className={`ml-4 mt-2 border-l-2 pl-4 text-sm space-y-1 ${answer.isSellerAnswer ? 'border-indigo-300' : 'border-gray-200'}`}
+                >
+                  <p className="flex items-center gap-2 text-gray-500">
+                    {answer.isSellerAnswer ? (
+                      <span className="flex items-center gap-1 font-medium text-indigo-700">
+                        <Store className="h-4 w-4" />
+                        Vendedor
+                      </span>
+                    ) : (
+                      <span>{answer.userFullName || answer.username}</span>
+                    )}
+                    <span>·</span>
+                    <span>{new Date(answer.createdAt).toLocaleDateString()}</span>
+                  </p>
+                  <p className="text-gray-700">{answer.answer}</p>
+                  {actions('answer', answer, entry.id)}
+                </div>
+              ))}
+
+              {user && (
+                <div className="ml-4 flex gap-2">
+                  <input
+                    value={answerDrafts[entry.id] ?? ''}
+                    onChange={(e) => setAnswerDrafts(previous => ({ ...previous, [entry.id]: e.target.value }))}
+                    maxLength={2000}
+                    placeholder={isSeller ? 'Responder como vendedor' : 'Responder a esta pregunta'}
+                    className="flex-1 border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <button
+                    onClick={() => submitAnswer(entry)}
+                    disabled={(answerDrafts[entry.id]?.trim().length ?? 0) < 2}
+                    className="text-sm text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                  >
+                    Responder
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasMore && (
+        <button
+          onClick={() => loadQuestions(page + 1)}
+          className="mt-4 text-sm text-indigo-600 hover:text-indigo-500"
+        >
+          Ver más preguntas
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default ProductQuestions;
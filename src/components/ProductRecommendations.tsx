@@ -0,0 +1,52 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import type { Recommendation } from '@shared/types';
+import { apiRequest } from '../lib/api';
+
+interface ProductRecommendationsProps {
+  title: string;
+  // API path returning the recommendations, e.g. /products/:id/related
+  path: string;
+}
+
+// A row of suggested products; renders nothing until there is something to show
+const ProductRecommendations = ({ title, path }: ProductRecommendationsProps) => {
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+
+  useEffect(() => {
+    apiRequest<Recommendation[]>(path)
+      .then(setRecommendations)
+      .catch(error => console.error('Error loading recommendations:', error));
+  }, [path]);
+
+  if (recommendations.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mt-12">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">{title}</h2>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        {recommendations.map(({ product }) => (
+          <Link
+            key={product.id}
+            to={`/product/${product.id}`}
+            className="bg-white rounded-lg shadow hover:shadow-md transition-shadow overflow-hidden"
+          >
+            <div className="aspect-square bg-gray-100">
+              {product.images[0] && (
+                <img src={product.images[0]} alt={product.name} className="w-full h-full object-cover" />
+              )}
+            </div>
+            <div className="p-3">
+              <h3 className="text-sm font-medium text-gray-900 line-clamp-2">{product.name}</h3>
+              <p className="text-sm font-bold text-blue-600 mt-1">${product.price}</p>
+            </div>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default ProductRecommendations;
@@ -0,0 +1,261 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { Star, ThumbsUp, ThumbsDown, Flag, BadgeCheck, Store } from 'lucide-react';
+import type { ProductReview, ReviewVote } from '@shared/types';
+import { useAuth } from '../contexts/AuthContext';
+import { apiRequest, ApiRequestError } from '../lib/api';
+
+interface ProductReviewsProps {
+  productId: string;
+  sellerId: string;
+}
+
+type ReviewSort = 'newest' | 'helpful' | 'rating_high' | 'rating_low';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof ApiRequestError ? error.message : fallback;
+
+const Stars = ({ rating }: { rating: number }) => (
+  <div className="flex items-center">
+    {[...Array(5)].map((_, i) => (
+      <Star
+        key={i}
+        className={`h-4 w-4 ${i < Math.round(rating) ? 'text-yellow-400 fill-current' : 'text-gray-300'}`}
+      />
+    ))}
+  </div>
+);
+
+// Published reviews of a product with helpfulness votes, reports, the
+// seller's replies and a form for the signed-in user's own review
+const ProductReviews = ({ productId, sellerId }: ProductReviewsProps) => {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<ProductReview[]>([]);
+  const [sort, setSort] = useState<ReviewSort>('helpful');
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const [rating, setRating] = useState(5);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+
+  const isSeller = user?.id === sellerId;
+
+  const loadReviews = useCallback(async () => {
+    try {
+      const query = `sort=${sort}${verifiedOnly ? '&verified=true' : ''}`;
+      setReviews(await apiRequest<ProductReview[]>(`/products/${productId}/ratings?${query}`));
+    } catch (error) {
+      console.error('Error loading reviews:', error);
+    }
+  }, [productId, sort, verifiedOnly]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const replaceReview = (updated: ProductReview) => {
+    setReviews(previous => previous.map(review => (review.id === updated.id ? { ...review, ...updated } : review)));
+  };
+
+  const submitReview = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await apiRequest<ProductReview>(`/products/${productId}/rate`, {
+        method: 'POST',
+        body: { rating, title: title || null, review: body || null }
+      });
+      toast.success('Reseña publicada');
+      setTitle('');
+      setBody('');
+      await loadReviews();
+    } catch (error) {
+      toast.error(errorMessage(error, 'No se pudo publicar la reseña'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const vote = async (review: ProductReview, value: ReviewVote) => {
+    try {
+      const updated = review.myVote === value
+        ? await apiRequest<ProductReview>(`/reviews/${review.id}/vote`, { method: 'DELETE' })
+        : await apiRequest<ProductReview>(`/reviews/${review.id}/vote`, { method: 'PUT', body: { vote: value } });
+      replaceReview({ ...updated, myVote: review.myVote === value ? undefined : value });
+    } catch (error) {
+      toast.error(errorMessage(error, 'No se pudo registrar el voto'));
+    }
+  };
+
+  const report = async (review: ProductReview) => {
+    const reason = window.prompt('¿Por qué quieres denunciar esta reseña?');
+    if (!reason) return;
+    try {
+      await apiRequest<null>(`/reviews/${review.id}/reports`, { method: 'POST', body: { reason } });
+      toast.success('Gracias, revisaremos la reseña');
+    } catch (error) {
+      toast.error(errorMessage(error, 'No se pudo enviar la denuncia'));
+    }
+  };
+
+  const saveReply = async (review: ProductReview) => {
+    try {
+      const updated = await apiRequest<ProductReview>(`/reviews/${review.id}/reply`, {
+        method: 'PUT',
+        body: { reply: replyDrafts[review.id] }
+      });
+      replaceReview(updated);
+      setReplyDrafts(previous => {
+        const next = { ...previous };
+        delete next[review.id];
+        return next;
+      });
+    } catch (error) {
+      toast.error(errorMessage(error, 'No se pudo guardar la respuesta'));
+    }
+  };
+
+  return (
+    <section className="mt-12">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Reseñas</h2>
+        <div className="flex items-center gap-4 text-sm">
+          <label className="flex items-center gap-2 text-gray-600">
+            <input
+              type="checkbox"
+              checked={verifiedOnly}
+              onChange={(e) => setVerifiedOnly(e.target.checked)}
+            />
+            Solo compras verificadas
+          </label>
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as ReviewSort)}
+            className="border border-gray-300 rounded-md px-3 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="helpful">Más útiles</option>
+            <option value="newest">Más recientes</option>
+            <option value="rating_high">Mejor valoradas</option>
+            <option value="rating_low">Peor valoradas</option>
+          </select>
+        </div>
+      </div>
+
+      {user && !isSeller && (
+        <form onSubmit={submitReview} className="bg-gray-50 rounded-lg p-4 mb-8 space-y-3">
+          <div className="flex items-center gap-1">
+            {[1, 2, 3, 4, 5].map(value => (
+              <button key={value} type="button" onClick={() => setRating(value)} aria-label={`${value} estrellas`}>
+                <Star className={`h-6 w-6 ${value <= rating ? 'text-yellow-400 fill-current' : 'text-gray-300'}`} />
+              </button>
+            ))}
+          </div>
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={120}
+            placeholder="Título"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            maxLength={1000}
+            rows={3}
+            placeholder="Cuéntanos qué te pareció el producto"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-md text-sm hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Publicar reseña
+          </button>
+        </form>
+      )}
+
+      {reviews.length === 0 ? (
+        <p className="text-gray-500">Todavía no hay reseñas.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {reviews.map(review => (
+            <li key={review.id} className="py-6 space-y-2">
+              <div className="flex items-center gap-3">
+                <Stars rating={review.rating} />
+                {review.title && <span className="font-medium text-gray-900">{review.title}</span>}
+              </div>
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <span>{review.userFullName || review.username}</span>
+                <span>·</span>
+                <span>{new Date(review.createdAt).toLocaleDateString()}</span>
+                {review.isVerifiedPurchase && (
+                  <span className="flex items-center gap-1 text-green-700">
+                    <BadgeCheck className="h-4 w-4" />
+                    Compra verificada
+                  </span>
+                )}
+              </div>
+              {review.review && <p className="text-gray-700">{review.review}</p>}
+
+              {review.sellerReply && (
+                <div className="ml-4 mt-2 border-l-2 border-indigo-200 pl-4 text-sm">
+                  <p className="flex items-center gap-1 font-medium text-indigo-700">
+                    <Store className="h-4 w-4" />
+                    Respuesta del vendedor
+                  </p>
+                  <p className="text-gray-700">{review.sellerReply}</p>
+                </div>
+              )}
+
+              {isSeller && (
+                <div className="ml-4 flex gap-2">
+                  <input
+                    value={replyDrafts[review.id] ?? ''}
+                    onChange={(e) => setReplyDrafts(previous => ({ ...previous, [review.id]: e.target.value }))}
+                    placeholder={review.sellerReply ? 'Editar respuesta' : 'Responder a esta reseña'}
+                    className="flex-1 border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <button
+                    onClick={() => saveReply(review)}
+                    disabled={!replyDrafts[review.id]?.trim()}
+                    className="text-sm text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                  >
+                    Responder
+                  </button>
+                </div>
+              )}
+
+              {user && user.id !== review.userId && (
+                <div className="flex items-center gap-4 text-sm text-gray-500">
+                  <span>¿Te resultó útil?</span>
+                  <button
+                    onClick={() => vote(review, 'helpful')}
+                    className={`flex items-center gap-1 ${review.myVote === 'helpful' ? 'text-indigo-600' : 'hover:text-gray-700'}`}
+                  >
+                    <ThumbsUp className="h-4 w-4" />
+                    {review.helpfulCount}
+                  </button>
+                  <button
+                    onClick={() => vote(review, 'not_helpful')}
+                    className={`flex items-center gap-1 ${review.myVote === 'not_helpful' ? 'text-indigo-600' : 'hover:text-gray-700'}`}
+                  >
+                    <ThumbsDown className="h-4 w-4" />
+                    {review.notHelpfulCount}
+                  </button>
+                  <button onClick={() => report(review)} className="flex items-center gap-1 hover:text-red-600">
+                    <Flag className="h-4 w-4" />
+                    Denunciar
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ProductReviews;
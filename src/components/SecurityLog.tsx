@@ -0,0 +1,120 @@
+import { useState, useEffect, type ReactNode } from 'react';
+import { toast } from 'sonner';
+import { Lock, ShieldAlert, Unlock } from 'lucide-react';
+import type { SecurityEvent, SecurityEventType } from '@shared/types';
+import { apiRequest, ApiRequestError } from '../lib/api';
+
+const PAGE_SIZE = 50;
+
+const EVENT_LABELS: Record<SecurityEventType, string> = {
+  account_locked: 'Cuenta bloqueada',
+  account_unlocked: 'Cuenta desbloqueada',
+  ip_blocked: 'IP bloqueada'
+};
+
+const EVENT_STYLES: Record<SecurityEventType, string> = {
+  account_locked: 'bg-red-100 text-red-800',
+  account_unlocked: 'bg-green-100 text-green-800',
+  ip_blocked: 'bg-yellow-100 text-yellow-800'
+};
+
+const EVENT_ICONS: Record<SecurityEventType, ReactNode> = {
+  account_locked: <Lock className="h-5 w-5 text-red-500" />,
+  account_unlocked: <Unlock className="h-5 w-5 text-green-500" />,
+  ip_blocked: <ShieldAlert className="h-5 w-5 text-yellow-500" />
+};
+
+// Until when the account or IP stays blocked, from the event details
+const blockedUntil = (event: SecurityEvent) => {
+  const until = event.details.lockedUntil ?? event.details.blockedUntil;
+  return typeof until === 'string' ? new Date(until).toLocaleString('es-ES') : null;
+};
+
+// Registro de bloqueos por intentos fallidos de inicio de sesión (panel de administración)
+const SecurityLog = () => {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [type, setType] = useState<SecurityEventType | ''>('');
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+    if (type) params.set('type', type);
+
+    setLoading(true);
+    apiRequest<SecurityEvent[]>(`/auth/security-events?${params}`)
+      .then(items => {
+        setEvents(current => (page === 1 ? items : [...current, ...items]));
+        setHasMore(items.length === PAGE_SIZE);
+      })
+      .catch(error => {
+        toast.error(error instanceof ApiRequestError ? error.message : 'Error al cargar el registro de seguridad');
+      })
+      .finally(() => setLoading(false));
+  }, [type, page]);
+
+  const changeType = (value: SecurityEventType | '') => {
+    setType(value);
+    setPage(1);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold">Registro de Seguridad</h2>
+        <select
+          value={type}
+          onChange={(e) => changeType(e.target.value as SecurityEventType | '')}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        >
+          <option value="">Todos los eventos</option>
+          {(Object.keys(EVENT_LABELS) as SecurityEventType[]).map(eventType => (
+            <option key={eventType} value={eventType}>{EVENT_LABELS[eventType]}</option>
+          ))}
+        </select>
+      </div>
+
+      {!loading && events.length === 0 ? (
+        <p className="text-sm text-gray-500">No hay eventos de seguridad.</p>
+      ) : (
+        <div className="space-y-4">
+          {events.map((event) => (
+            <div key={event.id} className="flex items-center space-x-4 p-4 border border-gray-200 rounded-lg">
+              {EVENT_ICONS[event.type]}
+              <div className="flex-1">
+                <p className="text-sm font-medium text-gray-900">
+                  {event.email ?? event.ipAddress}
+                  {blockedUntil(event) && (
+                    <span className="font-normal text-gray-600"> · hasta {blockedUntil(event)}</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {event.userId ? `Usuario: ${event.userId} | ` : event.type === 'account_locked' ? 'Cuenta inexistente | ' : ''}
+                  IP: {event.ipAddress ?? '-'} | {new Date(event.createdAt).toLocaleString('es-ES')}
+                </p>
+              </div>
+              <span className={`px-3 py-1 text-xs font-medium rounded-full ${EVENT_STYLES[event.type]}`}>
+                {EVENT_LABELS[event.type]}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasMore && (
+        <div className="mt-6 text-center">
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={loading}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          >
+            {loading ? 'Cargando...' : 'Cargar más'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SecurityLog;
@@ -0,0 +1,239 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { KeyRound, ShieldCheck } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import type { TwoFactorSetup, TwoFactorStatus, User } from '@shared/types';
+import { apiRequest, ApiRequestError } from '../lib/api';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof ApiRequestError ? error.message : fallback;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Enrolling an authenticator app, recovery codes and turning two-factor
+// authentication off. Admins also set whether every admin must use it.
+const TwoFactorSettings = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [adminRequired, setAdminRequired] = useState(false);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadStatus = () =>
+    apiRequest<TwoFactorStatus>('/auth/2fa')
+      .then(setStatus)
+      .catch(error => toast.error(errorMessage(error, 'Error loading two-factor settings')));
+
+  useEffect(() => {
+    loadStatus();
+    apiRequest<User>('/auth/me')
+      .then(async (me) => {
+        if (me.role !== 'admin') return;
+        setIsAdmin(true);
+        const policy = await apiRequest<{ required: boolean }>('/auth/2fa/admin-policy');
+        setAdminRequired(policy.required);
+      })
+      .catch(error => console.error('Error loading admin two-factor policy:', error));
+  }, []);
+
+  // Runs one of the forms below, clearing the code field afterwards
+  const submit = async (action: () => Promise<void>, fallback: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      setCode('');
+    } catch (error) {
+      toast.error(errorMessage(error, fallback));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startSetup = () => submit(async () => {
+    setSetup(await apiRequest<TwoFactorSetup>('/auth/2fa/setup', { method: 'POST' }));
+    setRecoveryCodes(null);
+  }, 'Could not start the setup');
+
+  const enable = () => submit(async () => {
+    const result = await apiRequest<{ recoveryCodes: string[] }>('/auth/2fa/enable', { method: 'POST', body: { code } });
+    setRecoveryCodes(result.recoveryCodes);
+    setSetup(null);
+    toast.success('Two-factor authentication is on');
+    await loadStatus();
+  }, 'Could not turn on two-factor authentication');
+
+  const regenerate = () => submit(async () => {
+    const result = await apiRequest<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { method: 'POST', body: { code } });
+    setRecoveryCodes(result.recoveryCodes);
+    toast.success('New recovery codes created; the old ones no longer work');
+    await loadStatus();
+  }, 'Could not create new recovery codes');
+
+  const disable = () => submit(async () => {
+    // A recovery code is longer than an app code and contains letters
+    const factor = /^\d{6}$/.test(code.trim()) ? { code } : { recoveryCode: code };
+    await apiRequest<null>('/auth/2fa/disable', { method: 'POST', body: { password, ...factor } });
+    setPassword('');
+    setRecoveryCodes(null);
+    toast.success('Two-factor authentication is off');
+    await loadStatus();
+  }, 'Could not turn off two-factor authentication');
+
+  const toggleAdminPolicy = () => submit(async () => {
+    const result = await apiRequest<{ required: boolean }>('/auth/2fa/admin-policy', {
+      method: 'PUT',
+      body: { required: !adminRequired }
+    });
+    setAdminRequired(result.required);
+    toast.success(result.required ? 'Admins now need two-factor authentication' : 'Two-factor authentication is optional for admins');
+    await loadStatus();
+  }, 'Could not update the admin policy');
+
+  if (!status) {
+    return <p className="text-sm text-gray-500">Loading two-factor settings...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <ShieldCheck className="w-5 h-5 mr-2" />
+            Two-Factor Authentication
+          </h3>
+          <p className="text-sm text-gray-600">
+            {status.enabled
+              ? `On since ${new Date(status.enabledAt ?? '').toLocaleDateString()} · ${status.recoveryCodesRemaining} recovery codes left`
+              : 'Sign-ins ask for a code from an authenticator app besides your password.'}
+          </p>
+        </div>
+        {!status.enabled && !setup && (
+          <button
+            onClick={startSetup}
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Set up
+          </button>
+        )}
+      </div>
+
+      {status.required && !status.enabled && (
+        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-3">
+          Your role requires two-factor authentication. Admin tools stay locked until you turn it on.
+        </p>
+      )}
+
+      {setup && (
+        <div className="border border-gray-200 rounded-md p-4 space-y-4">
+          <p className="text-sm text-gray-700">
+            Scan this QR code with your authenticator app, or enter the key by hand. Then type the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col sm:flex-row items-start gap-4">
+            <QRCodeSVG value={setup.otpauthUri} size={160} />
+            <div className="space-y-2">
+              <p className="text-xs text-gray-500">Key</p>
+              <code className="block text-sm break-all bg-gray-100 rounded px-2 py-1">{setup.secret}</code>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              className={inputClass}
+            />
+            <button
+              onClick={enable}
+              disabled={isSaving || !code}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              Verify
+            </button>
+          </div>
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="border border-yellow-300 bg-yellow-50 rounded-md p-4">
+          <p className="text-sm font-medium text-gray-900 flex items-center mb-2">
+            <KeyRound className="w-4 h-4 mr-2" />
+            Save your recovery codes
+          </p>
+          <p className="text-sm text-gray-700 mb-3">
+            Each code signs you in once if you lose your authenticator app. They won't be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {recoveryCodes.map(recoveryCode => <li key={recoveryCode}>{recoveryCode}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {status.enabled && (
+        <div className="border border-gray-200 rounded-md p-4 space-y-3">
+          <p className="text-sm text-gray-700">
+            Enter a code from your app to create new recovery codes, or your password and a code (or a recovery code) to turn two-factor authentication off.
+          </p>
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            placeholder="Authentication or recovery code"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            placeholder="Password (to turn off)"
+            className={inputClass}
+          />
+          <div className="flex flex-wrap gap-2 justify-end">
+            <button
+              onClick={regenerate}
+              disabled={isSaving || !code}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              New recovery codes
+            </button>
+            <button
+              onClick={disable}
+              disabled={isSaving || !code || !password || status.required}
+              title={status.required ? 'Your role requires two-factor authentication' : undefined}
+              className="px-4 py-2 text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50 transition-colors"
+            >
+              Turn off
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="flex items-center justify-between border-t border-gray-200 pt-4">
+          <div>
+            <h4 className="font-medium text-gray-900">Require for admins</h4>
+            <p className="text-sm text-gray-600">Admins without two-factor authentication lose access to admin tools.</p>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={adminRequired}
+              onChange={toggleAdminPolicy}
+              disabled={isSaving}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -1,17 +1,32 @@
 import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { useAuth } from '../../contexts/AuthContext';
-import { Eye, EyeOff, Mail, Lock, LogIn } from 'lucide-react';
+import { useAuth, type SignInResult } from '../../contexts/AuthContext';
+import { Eye, EyeOff, Mail, Lock, LogIn, ShieldCheck } from 'lucide-react';
 import { toast } from 'sonner';
+import type { TwoFactorChallenge } from '@shared/types';
 
 const Login: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const { signIn } = useAuth();
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [secondFactor, setSecondFactor] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { signIn, completeSecondFactor } = useAuth();
   const navigate = useNavigate();
 
+  const completeSignIn = ({ error, twoFactorSetupRequired }: SignInResult) => {
+    if (error) return;
+
+    if (twoFactorSetupRequired) {
+      toast.warning('Your role requires two-factor authentication. Set it up to use admin tools.');
+      navigate('/user-dashboard?tab=security');
+    } else {
+      navigate('/dashboard');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -21,14 +36,108 @@ const Login: React.FC = () => {
     }
 
     setIsLoading(true);
-    const { error } = await signIn(email, password);
-    
-    if (!error) {
-      navigate('/dashboard');
+    const result = await signIn(email, password);
+    setIsLoading(false);
+
+    if (result.challenge) {
+      setChallenge(result.challenge);
+      return;
     }
+    completeSignIn(result);
+  };
+
+  const handleSecondFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge) return;
+
+    setIsLoading(true);
+    const result = await completeSecondFactor(
+      email,
+      password,
+      challenge.challengeToken,
+      useRecoveryCode ? { recoveryCode: secondFactor } : { code: secondFactor }
+    );
     setIsLoading(false);
+
+    if (result.error) {
+      setSecondFactor('');
+      return;
+    }
+    completeSignIn(result);
+  };
+
+  const restartLogin = () => {
+    setChallenge(null);
+    setSecondFactor('');
+    setUseRecoveryCode(false);
   };
 
+  if (challenge) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center p-4">
+        <div className="max-w-md w-full space-y-8">
+          <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-8 shadow-2xl border border-white/20">
+            <div className="text-center mb-8">
+              <div className="mx-auto h-12 w-12 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl flex items-center justify-center mb-4">
+                <ShieldCheck className="h-6 w-6 text-white" />
+              </div>
+              <h2 className="text-3xl font-bold text-white mb-2">Two-Factor Authentication</h2>
+              <p className="text-gray-300">
+                {useRecoveryCode
+                  ? 'Enter one of your recovery codes'
+                  : 'Enter the 6-digit code from your authenticator app'}
+              </p>
+            </div>
+
+            <form onSubmit={handleSecondFactor} className="space-y-6">
+              <input
+                id="secondFactor"
+                name="secondFactor"
+                type="text"
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                autoFocus
+                required
+                value={secondFactor}
+                onChange={(e) => setSecondFactor(e.target.value)}
+                className="block w-full px-3 py-3 border border-gray-600 rounded-lg bg-gray-800/50 text-white text-center tracking-widest placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200"
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+              />
+
+              <button
+                type="submit"
+                disabled={isLoading || !secondFactor}
+                className="w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {isLoading ? 'Verifying...' : 'Verify'}
+              </button>
+            </form>
+
+            <div className="mt-6 flex justify-between text-sm">
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setSecondFactor('');
+                }}
+                className="font-medium text-purple-400 hover:text-purple-300 transition-colors duration-200"
+              >
+                {useRecoveryCode ? 'Use an authenticator code' : 'Use a recovery code'}
+              </button>
+              <button
+                type="button"
+                onClick={restartLogin}
+                className="font-medium text-gray-400 hover:text-gray-300 transition-colors duration-200"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center p-4">
       <div className="max-w-md w-full space-y-8">
@@ -0,0 +1,79 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Unlock } from 'lucide-react';
+import { apiRequest, ApiRequestError } from '../../lib/api';
+
+type UnlockStatus = 'unlocking' | 'unlocked' | 'failed';
+
+// Where the lockout email's link lands; opening it lifts the lockout
+const UnlockAccount: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [status, setStatus] = useState<UnlockStatus>(token ? 'unlocking' : 'failed');
+  const [message, setMessage] = useState(token ? '' : 'This link is incomplete.');
+  // The token works once, and development mode runs effects twice
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    apiRequest<null>('/auth/unlock-account', { method: 'POST', body: { token } })
+      .then(() => setStatus('unlocked'))
+      .catch(error => {
+        setStatus('failed');
+        setMessage(error instanceof ApiRequestError ? error.message : 'Could not unlock your account');
+      });
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center p-4">
+      <div className="max-w-md w-full space-y-8">
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-8 shadow-2xl border border-white/20 text-center">
+          <div className="mx-auto h-12 w-12 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl flex items-center justify-center mb-4">
+            <Unlock className="h-6 w-6 text-white" />
+          </div>
+
+          {status === 'unlocking' && (
+            <>
+              <h2 className="text-3xl font-bold text-white mb-2">Unlocking your account</h2>
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mx-auto mt-4"></div>
+            </>
+          )}
+
+          {status === 'unlocked' && (
+            <>
+              <h2 className="text-3xl font-bold text-white mb-2">Account unlocked</h2>
+              <p className="text-gray-300 mb-6">
+                You can sign in again. If the failed attempts were not yours, choose a new password.
+              </p>
+              <Link
+                to="/login"
+                className="font-medium text-purple-400 hover:text-purple-300 transition-colors duration-200"
+              >
+                Sign in
+              </Link>
+            </>
+          )}
+
+          {status === 'failed' && (
+            <>
+              <h2 className="text-3xl font-bold text-white mb-2">Unlock failed</h2>
+              <p className="text-gray-300 mb-6">
+                {message} The lockout also ends by itself after a while, or when you reset your password.
+              </p>
+              <Link
+                to="/forgot-password"
+                className="font-medium text-purple-400 hover:text-purple-300 transition-colors duration-200"
+              >
+                Reset your password
+              </Link>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnlockAccount;
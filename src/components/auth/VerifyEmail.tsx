@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { MailCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { API_TOKEN_KEY, apiRequest, ApiRequestError } from '../../lib/api';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+// Where the verification email's link lands. The token is used up on the
+// first visit; a failed link can be replaced from here when signed in.
+const VerifyEmail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed');
+  const [message, setMessage] = useState(token ? '' : 'This link is incomplete.');
+  const [isResending, setIsResending] = useState(false);
+  // Development mode runs effects twice, which would spend the token on the first run
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    apiRequest('/auth/verify-email', { method: 'POST', body: { token } })
+      .then(() => setStatus('verified'))
+      .catch(error => {
+        setStatus('failed');
+        setMessage(error instanceof ApiRequestError ? error.message : 'Could not verify your email');
+      });
+  }, [token]);
+
+  const resend = async () => {
+    setIsResending(true);
+    try {
+      await apiRequest<null>('/auth/verify-email/resend', { method: 'POST' });
+      toast.success('We sent you a new verification email');
+    } catch (error) {
+      toast.error(error instanceof ApiRequestError ? error.message : 'Could not send the email');
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center p-4">
+      <div className="max-w-md w-full space-y-8">
+        <div className="bg-white/10 backdrop-blur-lg rounded-2xl p-8 shadow-2xl border border-white/20 text-center">
+          <div className="mx-auto h-12 w-12 bg-gradient-to-r from-purple-500 to-pink-500 rounded-xl flex items-center justify-center mb-4">
+            <MailCheck className="h-6 w-6 text-white" />
+          </div>
+
+          {status === 'verifying' && (
+            <>
+              <h2 className="text-3xl font-bold text-white mb-2">Verifying your email</h2>
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white mx-auto mt-4"></div>
+            </>
+          )}
+
+          {status === 'verified' && (
+            <>
+              <h2 className="text-3xl font-bold text-white mb-2">Email verified</h2>
+              <p className="text-gray-300 mb-6">Thanks! Every feature of your account is now open.</p>
+              <Link
+                to="/dashboard"
+                className="font-medium text-purple-400 hover:text-purple-300 transition-colors duration-200"
+              >
+                Go to your dashboard
+              </Link>
+            </>
+          )}
+
+          {status === 'failed' && (
+            <>
+              <h2 className="text-3xl font-bold text-white mb-2">Verification failed</h2>
+              <p className="text-gray-300 mb-6">{message} Links work once and expire after a while.</p>
+              {localStorage.getItem(API_TOKEN_KEY) ? (
+                <button
+                  onClick={resend}
+                  disabled={isResending}
+                  className="w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-lg text-white bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                >
+                  {isResending ? 'Sending...' : 'Send a new link'}
+                </button>
+              ) : (
+                <Link
+                  to="/login"
+                  className="font-medium text-purple-400 hover:text-purple-300 transition-colors duration-200"
+                >
+                  Sign in to get a new link
+                </Link>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -25,15 +25,34 @@ type Session = {
   token_type: string;
   user: User;
 };
+import type { AuthResponse, TwoFactorChallenge } from '@shared/types';
 import { supabase } from '../lib/supabase';
+import { apiRequest, ApiRequestError, clearApiSession, endApiSession, saveApiSession } from '../lib/api';
 import { toast } from 'sonner';
 
+// A code from the authenticator app or one of the recovery codes
+export type SecondFactor = { code: string } | { recoveryCode: string };
+
+export type SignInResult = {
+  error: AuthError | ApiRequestError | null;
+  // The account uses two-factor authentication: finish with completeSecondFactor
+  challenge?: TwoFactorChallenge;
+  // The account's role requires two-factor authentication and it is not set up yet
+  twoFactorSetupRequired?: boolean;
+};
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: AuthError | null }>;
-  signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
+  signIn: (email: string, password: string) => Promise<SignInResult>;
+  completeSecondFactor: (
+    email: string,
+    password: string,
+    challengeToken: string,
+    factor: SecondFactor
+  ) => Promise<SignInResult>;
   signOut: () => Promise<void>;
   resetPassword: (email: string) => Promise<{ error: AuthError | null }>;
 }
@@ -79,6 +98,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         if (event === 'SIGNED_IN') {
           toast.success('Successfully signed in!');
         } else if (event === 'SIGNED_OUT') {
+          clearApiSession();
           toast.success('Successfully signed out!');
         }
       }
@@ -119,21 +139,33 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const signIn = async (email: string, password: string) => {
+  // Signs in to Supabase, keeping the API session (when the API knows the
+  // account) for the calls made through lib/api
+  const signInWithApiSession = async (
+    email: string,
+    password: string,
+    apiSession?: AuthResponse
+  ): Promise<SignInResult> => {
     try {
       setLoading(true);
+      if (apiSession) {
+        saveApiSession(apiSession);
+      }
+
       const { error } = await supabase.auth.signInWithPassword({
         email,
         password,
       });
 
       if (error) {
+        clearApiSession();
         toast.error(error.message);
         return { error };
       }
 
-      return { error: null };
+      return { error: null, twoFactorSetupRequired: apiSession?.twoFactorSetupRequired };
     } catch (error) {
+      clearApiSession();
       const authError = error as AuthError;
       toast.error(authError.message);
       return { error: authError };
@@ -142,9 +174,59 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const signIn = async (email: string, password: string): Promise<SignInResult> => {
+    // A failed sign-in must not leave an earlier account's session behind
+    clearApiSession();
+
+    let apiSession: AuthResponse | undefined;
+    try {
+      const result = await apiRequest<AuthResponse | TwoFactorChallenge>('/auth/login', {
+        method: 'POST',
+        body: { email, password }
+      });
+      if ('twoFactorRequired' in result) {
+        return { error: null, challenge: result };
+      }
+      apiSession = result;
+    } catch (error) {
+      // Too many failed attempts: the account or this network has to wait
+      if (error instanceof ApiRequestError && error.status === 429) {
+        toast.error(error.message);
+        return { error };
+      }
+      // Accounts that only exist in Supabase still sign in below
+      console.error('API login failed:', error);
+    }
+
+    return signInWithApiSession(email, password, apiSession);
+  };
+
+  // Second sign-in step for accounts with two-factor authentication
+  const completeSecondFactor = async (
+    email: string,
+    password: string,
+    challengeToken: string,
+    factor: SecondFactor
+  ): Promise<SignInResult> => {
+    let apiSession: AuthResponse;
+    try {
+      apiSession = await apiRequest<AuthResponse>('/auth/login/2fa', {
+        method: 'POST',
+        body: { challengeToken, ...factor }
+      });
+    } catch (error) {
+      const apiError = error instanceof ApiRequestError ? error : new ApiRequestError('Could not verify the code', 0);
+      toast.error(apiError.message);
+      return { error: apiError };
+    }
+
+    return signInWithApiSession(email, password, apiSession);
+  };
+
   const signOut = async () => {
     try {
       setLoading(true);
+      await endApiSession();
       const { error } = await supabase.auth.signOut();
       if (error) {
         toast.error(error.message);
@@ -183,6 +265,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     loading,
     signUp,
     signIn,
+    completeSecondFactor,
     signOut,
     resetPassword,
   };
@@ -1,9 +1,13 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import type { Product } from '@shared/types';
+import type { Cart, Product, ProductVariant } from '@shared/types';
 import { toast } from 'sonner';
+import { useAuth } from '../contexts/AuthContext';
+import { apiRequest } from '../lib/api';
 
 interface CartItem {
   product: Product;
+  // Chosen option of a product sold in variants; its price replaces the product's
+  variant?: ProductVariant;
   quantity: number;
 }
 
@@ -11,20 +15,56 @@ interface CartContextType {
   items: CartItem[];
   totalItems: number;
   totalPrice: number;
-  addToCart: (product: Product, quantity?: number) => void;
-  removeFromCart: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  addToCart: (product: Product, quantity?: number, variant?: ProductVariant) => void;
+  removeFromCart: (productId: string, variantId?: string) => void;
+  updateQuantity: (productId: string, quantity: number, variantId?: string) => void;
   clearCart: () => void;
   isInCart: (productId: string) => boolean;
   getItemQuantity: (productId: string) => number;
+  // Coupon codes to apply at checkout; validated against the API when added
+  couponCodes: string[];
+  applyCoupon: (code: string) => void;
+  removeCoupon: (code: string) => void;
+  // True once the cart is backed by the signed-in user's server cart
+  isSynced: boolean;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 const CART_STORAGE_KEY = 'desvan_digital_cart';
+const COUPONS_STORAGE_KEY = 'desvan_digital_coupons';
+
+const toCartItems = (cart: Cart): CartItem[] =>
+  cart.items.map(({ product, variant, quantity }) => ({ product, variant, quantity }));
+
+// Each variant of a product is a line of its own
+const isLine = (item: CartItem, productId: string, variantId?: string) =>
+  item.product.id === productId && item.variant?.id === variantId;
+
+const getUnitPrice = (item: CartItem) => item.variant?.price ?? item.product.price;
+
+const itemPath = (productId: string, variantId?: string) =>
+  `/cart/items/${productId}${variantId ? `?variant_id=${variantId}` : ''}`;
+
+const readDeviceCart = (): CartItem[] => {
+  try {
+    const saved: CartItem[] = JSON.parse(localStorage.getItem(CART_STORAGE_KEY) || '[]');
+    return saved.filter(item => item.product?.id);
+  } catch {
+    return [];
+  }
+};
+
+// Price and stock changes the server found since the cart was last loaded
+const reportIssues = (cart: Cart) => {
+  cart.issues.forEach(issue => toast.warning(issue.message));
+};
 
 export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const userId = useAuth().user?.id;
   const [items, setItems] = useState<CartItem[]>([]);
+  const [couponCodes, setCouponCodes] = useState<string[]>([]);
+  const [isSynced, setIsSynced] = useState(false);
 
   // Load cart from localStorage on mount
   useEffect(() => {
@@ -34,6 +74,10 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         const parsedCart = JSON.parse(savedCart);
         setItems(parsedCart);
       }
+      const savedCoupons = localStorage.getItem(COUPONS_STORAGE_KEY);
+      if (savedCoupons) {
+        setCouponCodes(JSON.parse(savedCoupons));
+      }
     } catch (error) {
       console.error('Error loading cart from localStorage:', error);
     }
@@ -48,17 +92,87 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, [items]);
 
+  // On sign-in the device cart is merged into the server cart, which becomes
+  // the source of truth; on sign-out the device forgets the user's cart.
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    let synced = false;
+    const deviceItems = readDeviceCart();
+
+    apiRequest<Cart>('/cart/merge', {
+      method: 'POST',
+      body: {
+        items: deviceItems.map(item => ({
+          product_id: item.product.id,
+          variant_id: item.variant?.id,
+          quantity: item.quantity
+        }))
+      }
+    })
+      .then(cart => {
+        if (cancelled) return;
+        synced = true;
+        setItems(toCartItems(cart));
+        setIsSynced(true);
+        reportIssues(cart);
+      })
+      .catch(error => {
+        // Without an API session the cart simply stays on this device
+        console.error('Error syncing cart with the server:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      if (synced) {
+        setItems([]);
+        setIsSynced(false);
+      }
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(COUPONS_STORAGE_KEY, JSON.stringify(couponCodes));
+    } catch (error) {
+      console.error('Error saving coupons to localStorage:', error);
+    }
+  }, [couponCodes]);
+
   const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
-  const totalPrice = items.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
+  const totalPrice = items.reduce((sum, item) => sum + (getUnitPrice(item) * item.quantity), 0);
 
-  const addToCart = (product: Product, quantity: number = 1) => {
+  // Changes are applied locally straight away and then confirmed by the server;
+  // a refused change (e.g. not enough stock) puts the previous cart back
+  const syncChange = (request: () => Promise<Cart | null>) => {
+    if (!isSynced) return;
+
+    const previousItems = items;
+    request()
+      .then(cart => {
+        if (!cart) return;
+        setItems(toCartItems(cart));
+        reportIssues(cart);
+      })
+      .catch(error => {
+        setItems(previousItems);
+        toast.error(error instanceof Error ? error.message : 'Error updating cart');
+      });
+  };
+
+  const addToCart = (product: Product, quantity: number = 1, variant?: ProductVariant) => {
+    syncChange(() => apiRequest<Cart>('/cart/items', {
+      method: 'POST',
+      body: { product_id: product.id, variant_id: variant?.id, quantity }
+    }));
     setItems(prevItems => {
-      const existingItem = prevItems.find(item => item.product.id === product.id);
+      const existingItem = prevItems.find(item => isLine(item, product.id, variant?.id));
       
       if (existingItem) {
         // Update quantity of existing item
         const updatedItems = prevItems.map(item =>
-          item.product.id === product.id
+          isLine(item, product.id, variant?.id)
             ? { ...item, quantity: item.quantity + quantity }
             : item
         );
@@ -67,30 +181,35 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       } else {
         // Add new item to cart
         toast.success(`Added ${product.name} to cart`);
-        return [...prevItems, { product, quantity }];
+        return [...prevItems, { product, variant, quantity }];
       }
     });
   };
 
-  const removeFromCart = (productId: string) => {
+  const removeFromCart = (productId: string, variantId?: string) => {
+    syncChange(() => apiRequest<Cart>(itemPath(productId, variantId), { method: 'DELETE' }));
     setItems(prevItems => {
-      const item = prevItems.find(item => item.product.id === productId);
+      const item = prevItems.find(item => isLine(item, productId, variantId));
       if (item) {
         toast.success(`Removed ${item.product.name} from cart`);
       }
-      return prevItems.filter(item => item.product.id !== productId);
+      return prevItems.filter(item => !isLine(item, productId, variantId));
     });
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
+  const updateQuantity = (productId: string, quantity: number, variantId?: string) => {
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(productId, variantId);
       return;
     }
 
+    syncChange(() => apiRequest<Cart>(itemPath(productId, variantId), {
+      method: 'PUT',
+      body: { quantity }
+    }));
     setItems(prevItems =>
       prevItems.map(item =>
-        item.product.id === productId
+        isLine(item, productId, variantId)
           ? { ...item, quantity }
           : item
       )
@@ -98,17 +217,30 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const clearCart = () => {
+    syncChange(() => apiRequest<null>('/cart', { method: 'DELETE' }));
     setItems([]);
+    setCouponCodes([]);
     toast.success('Cart cleared');
   };
 
+  const applyCoupon = (code: string) => {
+    const normalized = code.trim().toUpperCase();
+    setCouponCodes(prevCodes => (prevCodes.includes(normalized) ? prevCodes : [...prevCodes, normalized]));
+  };
+
+  const removeCoupon = (code: string) => {
+    setCouponCodes(prevCodes => prevCodes.filter(existing => existing !== code));
+  };
+
   const isInCart = (productId: string): boolean => {
     return items.some(item => item.product.id === productId);
   };
 
+  // Units of the product in the cart, across all of its variants
   const getItemQuantity = (productId: string): number => {
-    const item = items.find(item => item.product.id === productId);
-    return item ? item.quantity : 0;
+    return items
+      .filter(item => item.product.id === productId)
+      .reduce((sum, item) => sum + item.quantity, 0);
   };
 
   const value: CartContextType = {
@@ -120,7 +252,11 @@ export const CartProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     updateQuantity,
     clearCart,
     isInCart,
-    getItemQuantity
+    getItemQuantity,
+    couponCodes,
+    applyCoupon,
+    removeCoupon,
+    isSynced
   };
 
   return (
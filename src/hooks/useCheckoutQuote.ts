@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import type { CheckoutQuote, Product, ProductVariant } from '@shared/types';
+import { apiRequest, ApiRequestError } from '../lib/api';
+
+interface QuoteItem {
+  product: Product;
+  variant?: ProductVariant;
+  quantity: number;
+}
+
+interface QuoteAddress {
+  country: string;
+  state: string;
+}
+
+// Typing the province should not fire a request per keystroke
+const QUOTE_DELAY_MS = 400;
+
+// Server-side pricing of the cart for the shipping address: coupons, shipping
+// and tax. `error` explains why the order cannot be priced (e.g. a coupon no
+// longer applies or nothing ships to the country).
+export const useCheckoutQuote = (codes: string[], items: QuoteItem[], address: QuoteAddress) => {
+  const [quote, setQuote] = useState<CheckoutQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { country, state } = address;
+
+  useEffect(() => {
+    if (items.length === 0) {
+      setQuote(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      apiRequest<CheckoutQuote>('/checkout/quote', {
+        method: 'POST',
+        body: {
+          items: items.map(item => ({
+            product_id: item.product.id,
+            variant_id: item.variant?.id,
+            quantity: item.quantity
+          })),
+          shipping_address: { country, state },
+          coupon_codes: codes.length > 0 ? codes : undefined
+        }
+      })
+        .then(result => {
+          if (cancelled) return;
+          setQuote(result);
+          setError(null);
+        })
+        .catch(err => {
+          if (cancelled) return;
+          setQuote(null);
+          setError(err instanceof ApiRequestError ? err.message : 'No se pudo calcular el total del pedido');
+        });
+    }, QUOTE_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [codes, items, country, state]);
+
+  return { quote, error };
+};
@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import type { DiscountQuote, Product, ProductVariant } from '@shared/types';
+import { apiRequest, ApiRequestError } from '../lib/api';
+
+interface QuoteItem {
+  product: Product;
+  variant?: ProductVariant;
+  quantity: number;
+}
+
+export const requestCouponQuote = (codes: string[], items: QuoteItem[]) =>
+  apiRequest<DiscountQuote>('/coupons/quote', {
+    method: 'POST',
+    body: {
+      codes,
+      items: items.map(item => ({
+        product_id: item.product.id,
+        variant_id: item.variant?.id,
+        quantity: item.quantity
+      }))
+    }
+  });
+
+// Server-side pricing of the cart with its coupons. `error` explains why the
+// coupons no longer apply (e.g. the cart dropped below a minimum amount).
+export const useCouponQuote = (codes: string[], items: QuoteItem[]) => {
+  const [quote, setQuote] = useState<DiscountQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (codes.length === 0 || items.length === 0) {
+      setQuote(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    requestCouponQuote(codes, items)
+      .then(result => {
+        if (cancelled) return;
+        setQuote(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setQuote(null);
+        setError(err instanceof ApiRequestError ? err.message : 'No se pudieron aplicar los cupones');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [codes, items]);
+
+  return { quote, error };
+};
@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import type { Product, WishlistItem } from '@shared/types';
+import { useAuth } from '../contexts/AuthContext';
+import { apiRequest } from '../lib/api';
+
+// The signed-in user's wishlist, kept on the server so it follows them across
+// devices. Mutations throw ApiRequestError so callers can report failures.
+export const useWishlist = () => {
+  const userId = useAuth().user?.id;
+  const [items, setItems] = useState<WishlistItem[]>([]);
+
+  useEffect(() => {
+    if (!userId) {
+      setItems([]);
+      return;
+    }
+
+    let cancelled = false;
+    apiRequest<WishlistItem[]>('/wishlist')
+      .then(result => {
+        if (!cancelled) setItems(result);
+      })
+      .catch(error => {
+        console.error('Error loading wishlist:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const isInWishlist = (productId: string) => items.some(item => item.product.id === productId);
+
+  const addToWishlist = async (productId: string) => {
+    const { product } = await apiRequest<{ product: Product; added: boolean }>('/wishlist', {
+      method: 'POST',
+      body: { product_id: productId }
+    });
+    setItems(prevItems =>
+      prevItems.some(item => item.product.id === productId)
+        ? prevItems
+        : [{ product, addedAt: new Date().toISOString() }, ...prevItems]
+    );
+  };
+
+  const removeFromWishlist = async (productId: string) => {
+    await apiRequest<null>(`/wishlist/${productId}`, { method: 'DELETE' });
+    setItems(prevItems => prevItems.filter(item => item.product.id !== productId));
+  };
+
+  const priceAlertOf = (productId: string) => items.find(item => item.product.id === productId)?.priceAlert;
+
+  // Without a target price any drop is announced
+  const setPriceAlert = async (productId: string, targetPrice?: number) => {
+    await apiRequest<{ targetPrice?: number }>(`/wishlist/${productId}/price-alert`, {
+      method: 'PUT',
+      body: { target_price: targetPrice ?? null }
+    });
+    setItems(prevItems =>
+      prevItems.map(item => (item.product.id === productId ? { ...item, priceAlert: { targetPrice } } : item))
+    );
+  };
+
+  const clearPriceAlert = async (productId: string) => {
+    await apiRequest<null>(`/wishlist/${productId}/price-alert`, { method: 'DELETE' });
+    setItems(prevItems =>
+      prevItems.map(item => (item.product.id === productId ? { ...item, priceAlert: undefined } : item))
+    );
+  };
+
+  return { items, isInWishlist, addToWishlist, removeFromWishlist, priceAlertOf, setPriceAlert, clearPriceAlert };
+};
@@ -0,0 +1,122 @@
+import type { ApiResponse, AuthResponse } from '@shared/types';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
+
+// Access token issued by the Desván Digital API (not the Supabase session)
+export const API_TOKEN_KEY = 'desvan_digital_token';
+// Renews the access token when it expires
+const API_REFRESH_TOKEN_KEY = 'desvan_digital_refresh_token';
+
+// Sign-in requests answer 401 for wrong credentials, not for an expired token
+const SESSION_PATHS = ['/auth/login', '/auth/refresh'];
+
+// Keeps the session from an API sign-in for the requests below
+export const saveApiSession = (session: AuthResponse) => {
+  localStorage.setItem(API_TOKEN_KEY, session.token);
+  localStorage.setItem(API_REFRESH_TOKEN_KEY, session.refreshToken);
+};
+
+export const clearApiSession = () => {
+  localStorage.removeItem(API_TOKEN_KEY);
+  localStorage.removeItem(API_REFRESH_TOKEN_KEY);
+};
+
+export class ApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+  }
+}
+
+type RequestOptions = {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+};
+
+// Each refresh token works once, so concurrent requests share one renewal
+let pendingRefresh: Promise<boolean> | null = null;
+
+// Trades the refresh token for a new session. A refused token ends the
+// session; a network error keeps it for the next try.
+function refreshApiSession(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(API_REFRESH_TOKEN_KEY);
+  if (!refreshToken) return Promise.resolve(false);
+
+  pendingRefresh ??= fetch(`${API_URL}/auth/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refreshToken })
+  })
+    .then(async response => {
+      const payload = (await response.json().catch(() => ({}))) as ApiResponse<AuthResponse>;
+      if (!response.ok || !payload.data) {
+        clearApiSession();
+        return false;
+      }
+      saveApiSession(payload.data);
+      return true;
+    })
+    .catch(() => false)
+    .finally(() => {
+      pendingRefresh = null;
+    });
+  return pendingRefresh;
+}
+
+// Sends the request with the stored access token. An expired one is renewed
+// once and the request sent again.
+async function send(path: string, init: RequestInit = {}): Promise<Response> {
+  const attempt = () => {
+    const token = localStorage.getItem(API_TOKEN_KEY);
+    return fetch(`${API_URL}${path}`, {
+      ...init,
+      headers: { ...init.headers, ...(token ? { Authorization: `Bearer ${token}` } : {}) }
+    });
+  };
+
+  const response = await attempt();
+  if (response.status !== 401 || SESSION_PATHS.some(prefix => path.startsWith(prefix))) {
+    return response;
+  }
+  return (await refreshApiSession()) ? attempt() : response;
+}
+
+// Calls the API and unwraps `data`; failed responses throw ApiRequestError
+// with the server's message
+export async function apiRequest<T>(path: string, { method = 'GET', body }: RequestOptions = {}): Promise<T> {
+  const response = await send(path, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body !== undefined ? JSON.stringify(body) : undefined
+  });
+
+  const payload = (await response.json().catch(() => ({}))) as ApiResponse<T>;
+  if (!response.ok || payload.success === false) {
+    throw new ApiRequestError(payload.message || payload.error || 'Request failed', response.status);
+  }
+  return payload.data as T;
+}
+
+// Logs out of the API, revoking the session server-side. The tokens are
+// dropped even when that fails.
+export async function endApiSession(): Promise<void> {
+  if (localStorage.getItem(API_TOKEN_KEY)) {
+    await send('/auth/logout', { method: 'POST' })
+      .catch(error => console.error('API logout failed:', error));
+  }
+  clearApiSession();
+}
+
+// Fetches a file (e.g. a PDF) with the same credentials as apiRequest
+export async function apiDownload(path: string): Promise<Blob> {
+  const response = await send(path);
+
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => ({}))) as ApiResponse<unknown>;
+    throw new ApiRequestError(payload.message || payload.error || 'Request failed', response.status);
+  }
+  return response.blob();
+}
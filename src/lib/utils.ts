@@ -1,6 +1,14 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { ProductVariant } from "@shared/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// "Size: A4 · Colour: Red" for a chosen product variant
+export function describeVariant(variant?: ProductVariant) {
+  return variant
+    ? Object.entries(variant.options).map(([name, value]) => `${name}: ${value}`).join(" · ")
+    : ""
+}
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import { toast } from 'sonner';
+import SecurityLog from '../components/SecurityLog';
 import {
   Users,
   Settings,
@@ -90,6 +91,7 @@ const AdminPanel: React.FC = () => {
     { id: 'users', name: 'Usuarios', icon: <Users className="h-5 w-5" /> },
     { id: 'content', name: 'Contenido', icon: <Database className="h-5 w-5" /> },
     { id: 'activity', name: 'Actividad', icon: <Activity className="h-5 w-5" /> },
+    { id: 'security', name: 'Seguridad', icon: <Shield className="h-5 w-5" /> },
     { id: 'settings', name: 'Configuración', icon: <Settings className="h-5 w-5" /> }
   ];
 
@@ -701,6 +703,8 @@ const AdminPanel: React.FC = () => {
               </div>
             )}
 
+            {activeTab === 'security' && <SecurityLog />}
+
             {activeTab === 'settings' && (
               <div className="space-y-6">
                 <div className="bg-white rounded-lg shadow-lg p-6">
@@ -1,25 +1,33 @@
 import { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Trash2, Plus, Minus, ShoppingBag } from 'lucide-react';
+import { Trash2, Plus, Minus, ShoppingBag, Tag, X } from 'lucide-react';
 import { useCart } from '../hooks/useCart';
+import { useCouponQuote, requestCouponQuote } from '../hooks/useCouponQuote';
+import { ApiRequestError } from '../lib/api';
+import { describeVariant } from '../lib/utils';
 import { toast } from 'sonner';
 
 const Cart = () => {
-  const { items, updateQuantity, removeFromCart, getTotalPrice, clearCart } = useCart();
+  const {
+    items, updateQuantity, removeFromCart, totalPrice, clearCart,
+    couponCodes, applyCoupon, removeCoupon
+  } = useCart();
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
+  const [couponInput, setCouponInput] = useState('');
+  const { quote, error: couponError } = useCouponQuote(couponCodes, items);
 
-  const handleUpdateQuantity = (id: string, newQuantity: number) => {
+  const handleUpdateQuantity = (id: string, newQuantity: number, variantId?: string) => {
     if (newQuantity === 0) {
-      removeFromCart(id);
+      removeFromCart(id, variantId);
       toast.success('Producto eliminado del carrito');
     } else {
-      updateQuantity(id, newQuantity);
+      updateQuantity(id, newQuantity, variantId);
     }
   };
 
-  const handleRemoveItem = (id: string) => {
-    removeFromCart(id);
+  const handleRemoveItem = (id: string, variantId?: string) => {
+    removeFromCart(id, variantId);
     toast.success('Producto eliminado del carrito');
   };
 
@@ -28,6 +36,28 @@ const Cart = () => {
     toast.success('Carrito vaciado');
   };
 
+  // Checks the code against the current cart before keeping it
+  const handleApplyCoupon = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = couponInput.trim().toUpperCase();
+    if (!code) return;
+
+    setIsLoading(true);
+    try {
+      await requestCouponQuote([...couponCodes, code], items);
+      applyCoupon(code);
+      setCouponInput('');
+      toast.success('Cupón aplicado');
+    } catch (error) {
+      toast.error(error instanceof ApiRequestError ? error.message : 'No se pudo aplicar el cupón');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const discountAmount = quote?.discountAmount ?? 0;
+  const total = quote?.total ?? totalPrice;
+
   const handleCheckout = () => {
     if (items.length === 0) {
       toast.error('El carrito está vacío');
@@ -76,26 +106,29 @@ const Cart = () => {
           <div className="bg-white shadow-sm rounded-lg overflow-hidden">
             <ul className="divide-y divide-gray-200">
               {items.map((item) => (
-                <li key={item.id} className="p-6">
+                <li key={`${item.product.id}:${item.variant?.id ?? ''}`} className="p-6">
                   <div className="flex items-center space-x-4">
                     <div className="flex-shrink-0">
                       <img
                         className="h-20 w-20 rounded-lg object-cover"
-                        src={item.image_url}
-                        alt={item.name}
+                        src={item.variant?.images[0] ?? item.product.images[0]}
+                        alt={item.product.name}
                       />
                     </div>
                     <div className="flex-1 min-w-0">
                       <h3 className="text-lg font-medium text-gray-900 truncate">
-                        {item.name}
+                        {item.product.name}
                       </h3>
+                      {item.variant && (
+                        <p className="text-sm text-gray-500">{describeVariant(item.variant)}</p>
+                      )}
                       <p className="text-lg font-semibold text-indigo-600">
-                        ${item.price}
+                        ${item.variant?.price ?? item.product.price}
                       </p>
                     </div>
                     <div className="flex items-center space-x-2">
                       <button
-                        onClick={() => handleUpdateQuantity(item.id, item.quantity - 1)}
+                        onClick={() => handleUpdateQuantity(item.product.id, item.quantity - 1, item.variant?.id)}
                         className="p-1 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                       >
                         <Minus className="h-4 w-4" />
@@ -104,17 +137,17 @@ const Cart = () => {
                         {item.quantity}
                       </span>
                       <button
-                        onClick={() => handleUpdateQuantity(item.id, item.quantity + 1)}
+                        onClick={() => handleUpdateQuantity(item.product.id, item.quantity + 1, item.variant?.id)}
                         className="p-1 rounded-full hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
                       >
                         <Plus className="h-4 w-4" />
                       </button>
                     </div>
                     <div className="text-lg font-semibold text-gray-900">
-                      ${(item.price * item.quantity).toFixed(2)}
+                      ${((item.variant?.price ?? item.product.price) * item.quantity).toFixed(2)}
                     </div>
                     <button
-                      onClick={() => handleRemoveItem(item.id)}
+                      onClick={() => handleRemoveItem(item.product.id, item.variant?.id)}
                       className="p-2 text-red-600 hover:text-red-500 focus:outline-none focus:ring-2 focus:ring-red-500 rounded-full"
                     >
                       <Trash2 className="h-5 w-5" />
@@ -134,24 +167,66 @@ const Cart = () => {
             <div className="space-y-3">
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Subtotal</span>
-                <span className="font-medium">${getTotalPrice().toFixed(2)}</span>
+                <span className="font-medium">${totalPrice.toFixed(2)}</span>
               </div>
+              {quote?.discounts.map((discount) => (
+                <div key={discount.couponId} className="flex justify-between text-sm text-green-700">
+                  <span>Cupón {discount.code}</span>
+                  <span className="font-medium">-${discount.amount.toFixed(2)}</span>
+                </div>
+              ))}
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Envío</span>
                 <span className="font-medium">Gratis</span>
               </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Impuestos</span>
-                <span className="font-medium">${(getTotalPrice() * 0.1).toFixed(2)}</span>
-              </div>
               <div className="border-t border-gray-200 pt-3">
                 <div className="flex justify-between text-lg font-semibold">
                   <span>Total</span>
-                  <span>${(getTotalPrice() * 1.1).toFixed(2)}</span>
+                  <span>${total.toFixed(2)}</span>
                 </div>
+                {discountAmount > 0 && (
+                  <p className="text-sm text-green-700 mt-1">Ahorras ${discountAmount.toFixed(2)}</p>
+                )}
               </div>
             </div>
 
+            {/* Coupons */}
+            <form onSubmit={handleApplyCoupon} className="mt-6 flex space-x-2">
+              <input
+                type="text"
+                value={couponInput}
+                onChange={(e) => setCouponInput(e.target.value)}
+                placeholder="Código de descuento"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm uppercase focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="submit"
+                disabled={isLoading || !couponInput.trim()}
+                className="px-4 py-2 bg-gray-100 text-gray-900 text-sm rounded-md hover:bg-gray-200 disabled:opacity-50 font-medium"
+              >
+                Aplicar
+              </button>
+            </form>
+            {couponCodes.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {couponCodes.map((code) => (
+                  <span
+                    key={code}
+                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800"
+                  >
+                    <Tag className="h-3 w-3 mr-1" />
+                    {code}
+                    <button onClick={() => removeCoupon(code)} className="ml-1 hover:text-green-900">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            {couponError && (
+              <p className="mt-2 text-sm text-red-600">{couponError}</p>
+            )}
+
             <div className="mt-6 space-y-3">
               <button
                 onClick={handleCheckout}
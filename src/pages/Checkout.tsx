@@ -1,7 +1,11 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { CreditCard, Lock, ArrowLeft } from 'lucide-react';
+import type { Order, Payment } from '@shared/types';
 import { useCart } from '../hooks/useCart';
+import { useCheckoutQuote } from '../hooks/useCheckoutQuote';
+import { apiRequest, ApiRequestError } from '../lib/api';
+import { describeVariant } from '../lib/utils';
 import { toast } from 'sonner';
 import LoadingSpinner from '../components/LoadingSpinner';
 
@@ -11,6 +15,7 @@ interface CheckoutForm {
   lastName: string;
   address: string;
   city: string;
+  state: string;
   postalCode: string;
   country: string;
   cardNumber: string;
@@ -19,23 +24,70 @@ interface CheckoutForm {
   cardName: string;
 }
 
+// Shipping destinations; tax rules and shipping zones are keyed by these codes
+const COUNTRIES: { code: string; name: string }[] = [
+  { code: 'ES', name: 'España' },
+  { code: 'PT', name: 'Portugal' },
+  { code: 'FR', name: 'Francia' },
+  { code: 'DE', name: 'Alemania' },
+  { code: 'IT', name: 'Italia' },
+  { code: 'GB', name: 'Reino Unido' },
+  { code: 'US', name: 'Estados Unidos' },
+  { code: 'MX', name: 'México' },
+  { code: 'AR', name: 'Argentina' },
+  { code: 'CO', name: 'Colombia' },
+  { code: 'CL', name: 'Chile' }
+];
+
+type SimulatedOutcome = 'success' | 'failure' | 'async';
+
+// Test cards understood by the local mock gateway; any other number succeeds
+const MOCK_TEST_CARDS: Record<string, SimulatedOutcome> = {
+  '4000000000000002': 'failure',
+  '4000000000000077': 'async'
+};
+
+const SETTLEMENT_POLL_MS = 2000;
+const SETTLEMENT_MAX_POLLS = 15;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Polls the order until an asynchronously settled payment is resolved
+const waitForSettlement = async (orderId: string): Promise<Order['paymentStatus']> => {
+  for (let attempt = 0; attempt < SETTLEMENT_MAX_POLLS; attempt++) {
+    await wait(SETTLEMENT_POLL_MS);
+    const order = await apiRequest<Order>(`/orders/${orderId}`);
+    if (order.paymentStatus !== 'processing' && order.paymentStatus !== 'pending') {
+      return order.paymentStatus;
+    }
+  }
+  return 'processing';
+};
+
 const Checkout = () => {
-  const { items, getTotalPrice, clearCart } = useCart();
+  const { items, totalPrice, clearCart, couponCodes } = useCart();
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
+  // Kept after a declined payment so retrying reuses the order and its stock reservation
+  const [pendingOrder, setPendingOrder] = useState<Order | null>(null);
   const [formData, setFormData] = useState<CheckoutForm>({
     email: '',
     firstName: '',
     lastName: '',
     address: '',
     city: '',
+    state: '',
     postalCode: '',
-    country: 'España',
+    country: 'ES',
     cardNumber: '',
     expiryDate: '',
     cvv: '',
     cardName: ''
   });
+  const { quote, error: quoteError } = useCheckoutQuote(couponCodes, items, {
+    country: formData.country,
+    state: formData.state
+  });
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -45,28 +97,88 @@ const Checkout = () => {
     }));
   };
 
+  const placeOrder = () =>
+    apiRequest<Order>('/orders', {
+      method: 'POST',
+      body: {
+        items: items.map(item => ({
+          product_id: item.product.id,
+          variant_id: item.variant?.id,
+          quantity: item.quantity
+        })),
+        payment_method: 'stripe',
+        shipping_address: {
+          street: formData.address,
+          city: formData.city,
+          state: formData.state,
+          postal_code: formData.postalCode,
+          country: formData.country
+        },
+        notes: `${formData.firstName} ${formData.lastName} <${formData.email}>`,
+        coupon_codes: couponCodes.length > 0 ? couponCodes : undefined
+      }
+    });
+
+  const completeCheckout = (order: Order) => {
+    clearCart();
+    setPendingOrder(null);
+    toast.success('¡Pago procesado exitosamente!');
+    navigate(`/orders/${order.id}`);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      // Simulate payment processing
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Clear cart and show success
-      clearCart();
-      toast.success('¡Pago procesado exitosamente!');
-      navigate('/user-dashboard');
+      const order = pendingOrder ?? await placeOrder();
+      setPendingOrder(order);
+
+      // Fully covered by coupons: nothing to charge
+      if (order.paymentStatus === 'paid') {
+        completeCheckout(order);
+        return;
+      }
+
+      const intent = await apiRequest<Payment>('/payments/intents', {
+        method: 'POST',
+        body: { order_id: order.id }
+      });
+      const payment = await apiRequest<Payment>(`/payments/${intent.id}/confirm`, {
+        method: 'POST',
+        body: { simulate: MOCK_TEST_CARDS[formData.cardNumber.replace(/\D/g, '')] }
+      });
+
+      if (payment.status === 'succeeded') {
+        completeCheckout(order);
+      } else if (payment.status === 'processing') {
+        toast.info('Pago en proceso, esperando confirmación...');
+        const status = await waitForSettlement(order.id);
+        if (status === 'paid') {
+          completeCheckout(order);
+        } else if (status === 'processing') {
+          toast.info('Tu pago sigue en proceso. Te avisaremos cuando se confirme.');
+          clearCart();
+          navigate(`/orders/${order.id}`);
+        } else {
+          toast.error('El pago ha sido rechazado');
+        }
+      } else {
+        toast.error(payment.failureReason || 'El pago ha sido rechazado');
+      }
     } catch (error) {
-      toast.error('Error al procesar el pago');
+      if (error instanceof ApiRequestError && error.status === 409) {
+        // Out of stock, or the order can no longer be paid: start over with a fresh order
+        setPendingOrder(null);
+      }
+      toast.error(error instanceof ApiRequestError ? error.message : 'Error al procesar el pago');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const subtotal = getTotalPrice();
-  const tax = subtotal * 0.1;
-  const total = subtotal + tax;
+  const subtotal = totalPrice;
+  const total = quote?.total ?? subtotal;
 
   if (items.length === 0) {
     return (
@@ -157,6 +269,15 @@ const Checkout = () => {
                     required
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
                   />
+                  <input
+                    type="text"
+                    name="state"
+                    placeholder="Provincia"
+                    value={formData.state}
+                    onChange={handleInputChange}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
                   <input
                     type="text"
                     name="postalCode"
@@ -166,6 +287,16 @@ const Checkout = () => {
                     required
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
                   />
+                  <select
+                    name="country"
+                    value={formData.country}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    {COUNTRIES.map(country => (
+                      <option key={country.code} value={country.code}>{country.name}</option>
+                    ))}
+                  </select>
                 </div>
               </div>
 
@@ -223,7 +354,7 @@ const Checkout = () => {
 
               <button
                 type="submit"
-                disabled={isLoading}
+                disabled={isLoading || !!quoteError}
                 className="w-full bg-indigo-600 text-white py-3 px-4 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 font-medium flex items-center justify-center"
               >
                 {isLoading ? (
@@ -243,18 +374,21 @@ const Checkout = () => {
             
             <div className="space-y-4">
               {items.map((item) => (
-                <div key={item.id} className="flex items-center space-x-4">
+                <div key={`${item.product.id}:${item.variant?.id ?? ''}`} className="flex items-center space-x-4">
                   <img
-                    src={item.image_url}
-                    alt={item.name}
+                    src={item.variant?.images[0] ?? item.product.images[0]}
+                    alt={item.product.name}
                     className="h-16 w-16 rounded-lg object-cover"
                   />
                   <div className="flex-1">
-                    <h3 className="text-sm font-medium text-gray-900">{item.name}</h3>
+                    <h3 className="text-sm font-medium text-gray-900">{item.product.name}</h3>
+                    {item.variant && (
+                      <p className="text-sm text-gray-500">{describeVariant(item.variant)}</p>
+                    )}
                     <p className="text-sm text-gray-600">Cantidad: {item.quantity}</p>
                   </div>
                   <div className="text-sm font-medium text-gray-900">
-                    ${(item.price * item.quantity).toFixed(2)}
+                    ${((item.variant?.price ?? item.product.price) * item.quantity).toFixed(2)}
                   </div>
                 </div>
               ))}
@@ -265,14 +399,27 @@ const Checkout = () => {
                 <span className="text-gray-600">Subtotal</span>
                 <span className="font-medium">${subtotal.toFixed(2)}</span>
               </div>
+              {quote?.discounts.map((discount) => (
+                <div key={discount.couponId} className="flex justify-between text-sm text-green-700">
+                  <span>Cupón {discount.code}</span>
+                  <span className="font-medium">-${discount.amount.toFixed(2)}</span>
+                </div>
+              ))}
+              {quoteError && (
+                <p className="text-sm text-red-600">{quoteError}</p>
+              )}
               <div className="flex justify-between text-sm">
                 <span className="text-gray-600">Envío</span>
-                <span className="font-medium">Gratis</span>
-              </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Impuestos</span>
-                <span className="font-medium">${tax.toFixed(2)}</span>
+                <span className="font-medium">
+                  {!quote ? '—' : quote.shippingAmount > 0 ? `$${quote.shippingAmount.toFixed(2)}` : 'Gratis'}
+                </span>
               </div>
+              {quote?.taxes.map((tax) => (
+                <div key={tax.taxRuleId} className="flex justify-between text-sm">
+                  <span className="text-gray-600">{tax.name} ({tax.rate}%)</span>
+                  <span className="font-medium">${tax.amount.toFixed(2)}</span>
+                </div>
+              ))}
               <div className="border-t border-gray-200 pt-3">
                 <div className="flex justify-between text-lg font-semibold">
                   <span>Total</span>
@@ -0,0 +1,423 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { ArrowLeft, Package, CreditCard, Clock, RotateCcw, FileText, Download } from 'lucide-react';
+import type { Invoice, Order, OrderItem, OrderReturn, OrderStatusChange } from '@shared/types';
+import { apiRequest, apiDownload, ApiRequestError } from '../lib/api';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pendiente',
+  processing: 'En preparación',
+  shipped: 'Enviado',
+  delivered: 'Entregado',
+  cancelled: 'Cancelado'
+};
+
+const PAYMENT_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pendiente',
+  processing: 'En proceso',
+  paid: 'Pagado',
+  failed: 'Rechazado',
+  refunded: 'Reembolsado'
+};
+
+const RETURN_STATUS_LABELS: Record<string, string> = {
+  requested: 'Solicitada',
+  approved: 'Aprobada',
+  rejected: 'Rechazada'
+};
+
+// Orders still in the warehouse are cancelled instead of returned
+const RETURNABLE_STATUSES: Order['status'][] = ['shipped', 'delivered'];
+
+const STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  processing: 'bg-blue-100 text-blue-800',
+  shipped: 'bg-indigo-100 text-indigo-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  paid: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  refunded: 'bg-purple-100 text-purple-800',
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+const labelFor = (change: OrderStatusChange) =>
+  change.field === 'paymentStatus'
+    ? `Pago: ${PAYMENT_STATUS_LABELS[change.toStatus] ?? change.toStatus}`
+    : STATUS_LABELS[change.toStatus] ?? change.toStatus;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('es-ES', { dateStyle: 'medium', timeStyle: 'short' });
+
+const OrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [history, setHistory] = useState<OrderStatusChange[]>([]);
+  const [returns, setReturns] = useState<OrderReturn[]>([]);
+  const [returnItemId, setReturnItemId] = useState<string | null>(null);
+  const [returnForm, setReturnForm] = useState({ quantity: 1, reason: '' });
+  const [isSubmittingReturn, setIsSubmittingReturn] = useState(false);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchOrder = async () => {
+      try {
+        const [orderData, historyData, returnsData] = await Promise.all([
+          apiRequest<Order>(`/orders/${id}`),
+          apiRequest<OrderStatusChange[]>(`/orders/${id}/history`),
+          apiRequest<OrderReturn[]>(`/orders/${id}/returns`)
+        ]);
+        setOrder(orderData);
+        setHistory(historyData);
+        setReturns(returnsData);
+        // Invoices are issued once the order is paid
+        if (orderData.paymentStatus === 'paid' || orderData.paymentStatus === 'refunded') {
+          setInvoices(await apiRequest<Invoice[]>(`/orders/${id}/invoice?format=json`).catch(() => []));
+        }
+      } catch (error) {
+        toast.error(error instanceof ApiRequestError ? error.message : 'Error al cargar el pedido');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchOrder();
+  }, [id]);
+
+  // Units of the item not already covered by an open or approved return
+  const returnableQuantity = (item: OrderItem) =>
+    item.quantity - returns
+      .filter(orderReturn => orderReturn.orderItemId === item.id && orderReturn.status !== 'rejected')
+      .reduce((sum, orderReturn) => sum + orderReturn.quantity, 0);
+
+  const canReturn = order !== null
+    && RETURNABLE_STATUSES.includes(order.status)
+    && order.paymentStatus === 'paid';
+
+  const openReturnForm = (item: OrderItem) => {
+    setReturnItemId(item.id ?? null);
+    setReturnForm({ quantity: returnableQuantity(item), reason: '' });
+  };
+
+  const handleRequestReturn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order || !returnItemId) return;
+
+    setIsSubmittingReturn(true);
+    try {
+      const created = await apiRequest<OrderReturn>(`/orders/${order.id}/returns`, {
+        method: 'POST',
+        body: { order_item_id: returnItemId, quantity: returnForm.quantity, reason: returnForm.reason }
+      });
+      setReturns(prev => [...prev, created]);
+      setReturnItemId(null);
+      toast.success('Solicitud de devolución enviada');
+    } catch (error) {
+      toast.error(error instanceof ApiRequestError ? error.message : 'Error al solicitar la devolución');
+    } finally {
+      setIsSubmittingReturn(false);
+    }
+  };
+
+  const handleDownloadInvoice = async (invoice: Invoice) => {
+    setDownloadingInvoiceId(invoice.id);
+    try {
+      const file = await apiDownload(`/orders/${invoice.orderId}/invoice?format=pdf&invoice_id=${invoice.id}`);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${invoice.number}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(error instanceof ApiRequestError ? error.message : 'Error al descargar la factura');
+    } finally {
+      setDownloadingInvoiceId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Pedido no encontrado</h2>
+        <button
+          onClick={() => navigate('/user-dashboard')}
+          className="text-indigo-600 hover:text-indigo-500"
+        >
+          Volver a mi cuenta
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <button
+        onClick={() => navigate('/user-dashboard')}
+        className="flex items-center text-indigo-600 hover:text-indigo-500 mb-6"
+      >
+        <ArrowLeft className="h-5 w-5 mr-2" />
+        Volver a mi cuenta
+      </button>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Pedido #{order.id.slice(0, 8)}</h1>
+          <p className="text-sm text-gray-600">Realizado el {formatDate(order.createdAt)}</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_COLORS[order.status]}`}>
+            {STATUS_LABELS[order.status]}
+          </span>
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_COLORS[order.paymentStatus]}`}>
+            {PAYMENT_STATUS_LABELS[order.paymentStatus]}
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Items */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white p-6 rounded-lg shadow-sm">
+            <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <Package className="h-5 w-5 mr-2" />
+              Productos
+            </h2>
+            <div className="space-y-4">
+              {order.items.map((item) => (
+                <div key={item.id ?? item.productId}>
+                  <div className="flex items-center space-x-4">
+                    {item.productImage && (
+                      <img
+                        src={item.productImage}
+                        alt={item.productName}
+                        className="h-16 w-16 rounded-lg object-cover"
+                      />
+                    )}
+                    <div className="flex-1">
+                      <h3 className="text-sm font-medium text-gray-900">{item.productName}</h3>
+                      <p className="text-sm text-gray-600">Cantidad: {item.quantity}</p>
+                    </div>
+                    <div className="text-sm font-medium text-gray-900">
+                      ${item.totalPrice.toFixed(2)}
+                    </div>
+                    {canReturn && item.id && returnableQuantity(item) > 0 && returnItemId !== item.id && (
+                      <button
+                        onClick={() => openReturnForm(item)}
+                        className="flex items-center text-sm text-indigo-600 hover:text-indigo-500"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Devolver
+                      </button>
+                    )}
+                  </div>
+                  {returnItemId === item.id && (
+                    <form onSubmit={handleRequestReturn} className="mt-3 ml-20 space-y-3">
+                      <div className="flex items-center space-x-3">
+                        <label className="text-sm text-gray-700">Unidades</label>
+                        <input
+                          type="number"
+                          min={1}
+                          max={returnableQuantity(item)}
+                          value={returnForm.quantity}
+                          onChange={(e) => setReturnForm(prev => ({ ...prev, quantity: Number(e.target.value) }))}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                      </div>
+                      <textarea
+                        required
+                        minLength={5}
+                        rows={2}
+                        placeholder="Motivo de la devolución"
+                        value={returnForm.reason}
+                        onChange={(e) => setReturnForm(prev => ({ ...prev, reason: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                      />
+                      <div className="flex space-x-2">
+                        <button
+                          type="submit"
+                          disabled={isSubmittingReturn}
+                          className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                          {isSubmittingReturn ? 'Enviando...' : 'Solicitar devolución'}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setReturnItemId(null)}
+                          className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900"
+                        >
+                          Cancelar
+                        </button>
+                      </div>
+                    </form>
+                  )}
+                </div>
+              ))}
+            </div>
+            {(!!order.discountAmount || !!order.shippingAmount || !!order.taxAmount) && (
+              <div className="border-t border-gray-200 mt-6 pt-4 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Subtotal</span>
+                  <span>${(order.subtotalAmount ?? order.totalAmount).toFixed(2)}</span>
+                </div>
+                {order.discounts?.map((discount) => (
+                  <div key={discount.couponId} className="flex justify-between text-sm text-green-700">
+                    <span>Cupón {discount.code}</span>
+                    <span>-${discount.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+                {order.shippingZone && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Envío ({order.shippingZone})</span>
+                    <span>{order.shippingAmount ? `$${order.shippingAmount.toFixed(2)}` : 'Gratis'}</span>
+                  </div>
+                )}
+                {order.taxes?.map((tax) => (
+                  <div key={tax.taxRuleId} className="flex justify-between text-sm">
+                    <span className="text-gray-600">{tax.name} ({tax.rate}%)</span>
+                    <span>${tax.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="border-t border-gray-200 mt-6 pt-4 flex justify-between text-lg font-semibold">
+              <span>Total</span>
+              <span>${order.totalAmount.toFixed(2)}</span>
+            </div>
+            {!!order.refundedAmount && (
+              <div className="flex justify-between text-sm text-purple-700 mt-2">
+                <span>Reembolsado</span>
+                <span>-${order.refundedAmount.toFixed(2)}</span>
+              </div>
+            )}
+          </div>
+
+          {returns.length > 0 && (
+            <div className="bg-white p-6 rounded-lg shadow-sm">
+              <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                <RotateCcw className="h-5 w-5 mr-2" />
+                Devoluciones
+              </h2>
+              <div className="space-y-4">
+                {returns.map((orderReturn) => (
+                  <div key={orderReturn.id} className="border-b border-gray-100 pb-4 last:border-0 last:pb-0">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-medium text-gray-900">
+                        {orderReturn.productName} × {orderReturn.quantity}
+                      </h3>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[orderReturn.status]}`}>
+                        {RETURN_STATUS_LABELS[orderReturn.status]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">{orderReturn.reason}</p>
+                    {orderReturn.status === 'approved' && orderReturn.refundAmount !== undefined && (
+                      <p className="text-sm text-gray-700 mt-1">Reembolso: ${orderReturn.refundAmount.toFixed(2)}</p>
+                    )}
+                    {orderReturn.resolutionNote && (
+                      <p className="text-xs text-gray-500 mt-1">{orderReturn.resolutionNote}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {invoices.length > 0 && (
+            <div className="bg-white p-6 rounded-lg shadow-sm">
+              <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                <FileText className="h-5 w-5 mr-2" />
+                Facturas
+              </h2>
+              <div className="space-y-3">
+                {invoices.map((invoice) => (
+                  <div key={invoice.id} className="flex items-center justify-between text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {invoice.type === 'credit_note' ? 'Factura rectificativa' : 'Factura'} {invoice.number}
+                      </p>
+                      <p className="text-gray-600">
+                        {invoice.sellerName} · {formatDate(invoice.issuedAt)}
+                        {invoice.creditedInvoiceNumber && ` · Rectifica ${invoice.creditedInvoiceNumber}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      <span className={invoice.type === 'credit_note' ? 'text-purple-700' : 'text-gray-900'}>
+                        {invoice.type === 'credit_note' ? '-' : ''}${invoice.totalAmount.toFixed(2)}
+                      </span>
+                      <button
+                        onClick={() => handleDownloadInvoice(invoice)}
+                        disabled={downloadingInvoiceId === invoice.id}
+                        className="flex items-center text-indigo-600 hover:text-indigo-500 disabled:opacity-50"
+                      >
+                        <Download className="h-4 w-4 mr-1" />
+                        PDF
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white p-6 rounded-lg shadow-sm">
+            <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+              <CreditCard className="h-5 w-5 mr-2" />
+              Envío
+            </h2>
+            <p className="text-sm text-gray-700">
+              {order.shippingAddress.street}, {order.shippingAddress.city}, {order.shippingAddress.state}{' '}
+              {order.shippingAddress.zipCode}, {order.shippingAddress.country}
+            </p>
+            {order.trackingNumber && (
+              <p className="text-sm text-gray-700 mt-2">Número de seguimiento: {order.trackingNumber}</p>
+            )}
+          </div>
+        </div>
+
+        {/* Timeline */}
+        <div className="bg-white p-6 rounded-lg shadow-sm h-fit">
+          <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+            <Clock className="h-5 w-5 mr-2" />
+            Historial
+          </h2>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-600">Sin cambios registrados</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2">
+              {history.map((change) => (
+                <li key={change.id} className="mb-6 ml-4 last:mb-0">
+                  <span
+                    className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                      change.field === 'paymentStatus' ? 'bg-green-500' : 'bg-indigo-500'
+                    }`}
+                  />
+                  <time className="text-xs text-gray-500">{formatDate(change.createdAt)}</time>
+                  <h3 className="text-sm font-medium text-gray-900">{labelFor(change)}</h3>
+                  {change.note && <p className="text-sm text-gray-600">{change.note}</p>}
+                  <p className="text-xs text-gray-500">{change.actorName ?? 'Sistema'}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderDetail;
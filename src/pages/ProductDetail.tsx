@@ -1,21 +1,23 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
-import { ShoppingCart, ArrowLeft, Star, Heart } from 'lucide-react';
+import { ShoppingCart, ArrowLeft, Star, Heart, Bell } from 'lucide-react';
+import type { Product, ProductVariant } from '@shared/types';
 import { useCart } from '../hooks/useCart';
+import { useWishlist } from '../hooks/useWishlist';
+import { useAuth } from '../contexts/AuthContext';
+import { apiRequest, ApiRequestError } from '../lib/api';
 import LoadingSpinner from '../components/LoadingSpinner';
+import ProductReviews from '../components/ProductReviews';
+import ProductQuestions from '../components/ProductQuestions';
+import ProductRecommendations from '../components/ProductRecommendations';
 
-interface Product {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  image_url: string;
-  category: string;
-  stock: number;
-  rating: number;
-  reviews_count: number;
-}
+// The active variant matching every chosen option value, if any
+const findVariant = (variants: ProductVariant[], selection: Record<string, string>) =>
+  variants.find(variant =>
+    Object.keys(variant.options).length === Object.keys(selection).length
+    && Object.entries(selection).every(([name, value]) => variant.options[name] === value)
+  );
 
 const ProductDetail = () => {
   const { id } = useParams<{ id: string }>();
@@ -24,53 +26,91 @@ const ProductDetail = () => {
   const [product, setProduct] = useState<Product | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [quantity, setQuantity] = useState(1);
-  const [isFavorite, setIsFavorite] = useState(false);
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const { user } = useAuth();
+  const { isInWishlist, addToWishlist, removeFromWishlist, priceAlertOf, setPriceAlert, clearPriceAlert } = useWishlist();
 
   useEffect(() => {
     const fetchProduct = async () => {
       try {
-        // Mock product data for now
-        const mockProduct: Product = {
-          id: id || '1',
-          name: 'Curso Avanzado de Diseño Digital',
-          description: 'Aprende las técnicas más avanzadas de diseño digital con herramientas profesionales. Este curso incluye proyectos prácticos, feedback personalizado y acceso a recursos exclusivos.',
-          price: 299.99,
-          image_url: 'https://trae-api-us.mchost.guru/api/ide/v1/text_to_image?prompt=modern%20digital%20design%20course%20cover%20with%20colorful%20graphics%20and%20professional%20tools&image_size=landscape_4_3',
-          category: 'Cursos',
-          stock: 50,
-          rating: 4.8,
-          reviews_count: 127
-        };
-        
-        setTimeout(() => {
-          setProduct(mockProduct);
-          setIsLoading(false);
-        }, 1000);
+        setProduct(await apiRequest<Product>(`/products/${id}`));
       } catch (error) {
+        console.error('Error loading product:', error);
         toast.error('Error al cargar el producto');
+      } finally {
         setIsLoading(false);
       }
     };
 
+    setSelection({});
     fetchProduct();
   }, [id]);
 
+  const options = product?.options ?? [];
+  const variants = product?.variants ?? [];
+  const variant = options.length > 0 ? findVariant(variants, selection) : undefined;
+  const isChoiceMissing = options.length > 0 && !variant;
+
+  const price = variant?.price ?? product?.price ?? 0;
+  // Variants are never on sale, so the regular price only applies to the product itself
+  const compareAtPrice = variant ? undefined : product?.compareAtPrice;
+  const stock = variant?.stockQuantity ?? product?.stockQuantity ?? 0;
+  const canBuy = !isChoiceMissing && (product?.isDigital || stock > 0);
+  const image = variant?.images[0] ?? product?.images[0];
+
+  // Values no active variant offers together with the other choices are greyed out
+  const isOffered = (name: string, value: string) =>
+    variants.some(candidate =>
+      candidate.options[name] === value
+      && Object.entries(selection).every(([other, chosen]) => other === name || candidate.options[other] === chosen)
+    );
+
+  const selectValue = (name: string, value: string) => {
+    setSelection(previous => ({ ...previous, [name]: value }));
+    setQuantity(1);
+  };
+
   const handleAddToCart = () => {
-    if (product) {
-      addToCart({
-        id: product.id,
-        name: product.name,
-        price: product.price,
-        image_url: product.image_url,
-        quantity
-      });
-      toast.success('Producto agregado al carrito');
+    if (product && canBuy) {
+      addToCart(product, quantity, variant);
+    }
+  };
+
+  const isFavorite = product ? isInWishlist(product.id) : false;
+  const priceAlert = product ? priceAlertOf(product.id) : undefined;
+
+  const toggleFavorite = async () => {
+    if (!product) return;
+    if (!user) {
+      toast.error('Inicia sesión para guardar favoritos');
+      return;
+    }
+    try {
+      if (isFavorite) {
+        await removeFromWishlist(product.id);
+        toast.success('Eliminado de favoritos');
+      } else {
+        await addToWishlist(product.id);
+        toast.success('Agregado a favoritos');
+      }
+    } catch (error) {
+      toast.error(error instanceof ApiRequestError ? error.message : 'No se pudieron actualizar los favoritos');
     }
   };
 
-  const toggleFavorite = () => {
-    setIsFavorite(!isFavorite);
-    toast.success(isFavorite ? 'Eliminado de favoritos' : 'Agregado a favoritos');
+  const togglePriceAlert = async () => {
+    if (!product) return;
+    try {
+      if (priceAlert) {
+        await clearPriceAlert(product.id);
+        toast.success('Ya no te avisaremos de bajadas de precio');
+      } else {
+        await setPriceAlert(product.id);
+        toast.success('Te avisaremos cuando baje el precio');
+      }
+    } catch (error) {
+      toast.error(error instanceof ApiRequestError ? error.message : 'No se pudo guardar el aviso de precio');
+    }
   };
 
   if (isLoading) {
@@ -111,7 +151,7 @@ const ProductDetail = () => {
         {/* Product Image */}
         <div className="aspect-w-1 aspect-h-1">
           <img
-            src={product.image_url}
+            src={image}
             alt={product.name}
             className="w-full h-96 object-cover rounded-lg shadow-lg"
           />
@@ -121,7 +161,13 @@ const ProductDetail = () => {
         <div className="space-y-6">
           <div>
             <h1 className="text-3xl font-bold text-gray-900">{product.name}</h1>
-            <p className="text-sm text-gray-500 mt-2">{product.category}</p>
+            <p className="text-sm text-gray-500 mt-2">
+              {product.category}
+              {' · '}
+              <Link to={`/sellers/${product.sellerId}`} className="text-indigo-600 hover:text-indigo-500">
+                {product.sellerName || product.sellerUsername}
+              </Link>
+            </p>
           </div>
 
           {/* Rating */}
@@ -139,13 +185,18 @@ const ProductDetail = () => {
               ))}
             </div>
             <span className="text-sm text-gray-600">
-              {product.rating} ({product.reviews_count} reseñas)
+              {product.rating} ({product.reviewCount} reseñas)
             </span>
           </div>
 
           {/* Price */}
-          <div className="text-3xl font-bold text-indigo-600">
-            ${product.price}
+          <div className="flex items-baseline gap-3">
+            <span className="text-3xl font-bold text-indigo-600">
+              {isChoiceMissing ? `Desde $${price}` : `$${price}`}
+            </span>
+            {compareAtPrice !== undefined && compareAtPrice > price && (
+              <span className="text-lg text-gray-400 line-through">${compareAtPrice}</span>
+            )}
           </div>
 
           {/* Description */}
@@ -154,13 +205,41 @@ const ProductDetail = () => {
             <p className="text-gray-600">{product.description}</p>
           </div>
 
+          {/* Options */}
+          {options.map(option => (
+            <div key={option.name}>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">{option.name}</h3>
+              <div className="flex flex-wrap gap-2">
+                {option.values.map(value => (
+                  <button
+                    key={value}
+                    onClick={() => selectValue(option.name, value)}
+                    disabled={!isOffered(option.name, value)}
+                    className={`px-3 py-1 rounded-md border text-sm transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                      selection[option.name] === value
+                        ? 'border-indigo-600 bg-indigo-50 text-indigo-700'
+                        : 'border-gray-300 text-gray-700 hover:border-indigo-400'
+                    }`}
+                  >
+                    {value}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
           {/* Stock */}
           <div className="text-sm text-gray-600">
-            {product.stock > 0 ? (
-              <span className="text-green-600">✓ En stock ({product.stock} disponibles)</span>
+            {isChoiceMissing ? (
+              <span>Elige una opción para ver la disponibilidad</span>
+            ) : product.isDigital ? (
+              <span className="text-green-600">✓ Disponible</span>
+            ) : stock > 0 ? (
+              <span className="text-green-600">✓ En stock ({stock} disponibles)</span>
             ) : (
               <span className="text-red-600">✗ Agotado</span>
             )}
+            {variant && <span className="ml-2 text-gray-400">SKU {variant.sku}</span>}
           </div>
 
           {/* Quantity and Actions */}
@@ -175,7 +254,7 @@ const ProductDetail = () => {
                 onChange={(e) => setQuantity(Number(e.target.value))}
                 className="border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
               >
-                {[...Array(Math.min(10, product.stock))].map((_, i) => (
+                {[...Array(product.isDigital ? 10 : Math.max(1, Math.min(10, stock)))].map((_, i) => (
                   <option key={i + 1} value={i + 1}>
                     {i + 1}
                   </option>
@@ -186,13 +265,13 @@ const ProductDetail = () => {
             <div className="flex space-x-4">
               <button
                 onClick={handleAddToCart}
-                disabled={product.stock === 0}
+                disabled={!canBuy}
                 className="flex-1 bg-indigo-600 text-white px-6 py-3 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
               >
                 <ShoppingCart className="h-5 w-5" />
                 <span>Agregar al carrito</span>
               </button>
-              
+
               <button
                 onClick={toggleFavorite}
                 className={`px-4 py-3 rounded-md border-2 transition-colors ${
@@ -203,12 +282,32 @@ const ProductDetail = () => {
               >
                 <Heart className={`h-5 w-5 ${isFavorite ? 'fill-current' : ''}`} />
               </button>
+
+              {isFavorite && (
+                <button
+                  onClick={togglePriceAlert}
+                  title={priceAlert ? 'Quitar aviso de bajada de precio' : 'Avisarme si baja el precio'}
+                  className={`px-4 py-3 rounded-md border-2 transition-colors ${
+                    priceAlert
+                      ? 'border-indigo-500 text-indigo-500 bg-indigo-50'
+                      : 'border-gray-300 text-gray-600 hover:border-indigo-500 hover:text-indigo-500'
+                  }`}
+                >
+                  <Bell className={`h-5 w-5 ${priceAlert ? 'fill-current' : ''}`} />
+                </button>
+              )}
             </div>
           </div>
         </div>
       </div>
+
+      <ProductReviews productId={product.id} sellerId={product.sellerId} />
+
+      <ProductQuestions productId={product.id} sellerId={product.sellerId} />
+
+      <ProductRecommendations title="También te puede interesar" path={`/products/${product.id}/related`} />
     </div>
   );
 };
 
-export default ProductDetail;
\ No newline at end of file
+export default ProductDetail;
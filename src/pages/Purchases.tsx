@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Library, Download, KeyRound, Copy, FileText } from 'lucide-react';
+import type { DownloadLink, Entitlement, ProductFile } from '@shared/types';
+import { apiRequest, ApiRequestError } from '../lib/api';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('es-ES', { dateStyle: 'medium' });
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const downloadsLeft = (entitlement: Entitlement) =>
+  entitlement.downloadLimit === undefined ? null : Math.max(0, entitlement.downloadLimit - entitlement.downloadCount);
+
+// "My purchases": every digital product the user has bought, with its files
+// and license key
+const Purchases = () => {
+  const [purchases, setPurchases] = useState<Entitlement[]>([]);
+  const [downloadingFileId, setDownloadingFileId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    apiRequest<Entitlement[]>('/entitlements')
+      .then(setPurchases)
+      .catch(error => {
+        toast.error(error instanceof ApiRequestError ? error.message : 'Error al cargar tus compras');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDownload = async (entitlement: Entitlement, file: ProductFile) => {
+    setDownloadingFileId(file.id);
+    try {
+      const link = await apiRequest<DownloadLink>(`/entitlements/${entitlement.id}/files/${file.id}/link`, {
+        method: 'POST'
+      });
+      window.location.assign(link.url);
+      // The download is counted when the link is used
+      setPurchases(prev => prev.map(purchase =>
+        purchase.id === entitlement.id ? { ...purchase, downloadCount: purchase.downloadCount + 1 } : purchase
+      ));
+    } catch (error) {
+      toast.error(error instanceof ApiRequestError ? error.message : 'Error al generar la descarga');
+    } finally {
+      setDownloadingFileId(null);
+    }
+  };
+
+  const copyLicenseKey = async (licenseKey: string) => {
+    try {
+      await navigator.clipboard.writeText(licenseKey);
+      toast.success('Clave de licencia copiada');
+    } catch {
+      toast.error('No se pudo copiar la clave');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6 flex items-center">
+        <Library className="h-6 w-6 mr-2" />
+        Mis compras
+      </h1>
+
+      {purchases.length === 0 ? (
+        <div className="bg-white p-8 rounded-lg shadow-sm text-center">
+          <p className="text-gray-600 mb-4">Todavía no has comprado productos digitales.</p>
+          <Link to="/store" className="text-indigo-600 hover:text-indigo-500">
+            Ir a la tienda
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {purchases.map((purchase) => {
+            const isActive = purchase.status === 'active';
+            const remaining = downloadsLeft(purchase);
+
+            return (
+              <div key={purchase.id} className={`bg-white p-6 rounded-lg shadow-sm ${isActive ? '' : 'opacity-60'}`}>
+                <div className="flex items-start space-x-4">
+                  {purchase.productImage && (
+                    <img
+                      src={purchase.productImage}
+                      alt={purchase.productName}
+                      className="h-16 w-16 rounded-lg object-cover"
+                    />
+                  )}
+                  <div className="flex-1">
+                    <h2 className="text-lg font-medium text-gray-900">{purchase.productName}</h2>
+                    <p className="text-sm text-gray-600">
+                      Comprado el {formatDate(purchase.createdAt)}
+                      {purchase.seats > 1 && ` · ${purchase.seats} licencias`}
+                      {' · '}
+                      <Link to={`/orders/${purchase.orderId}`} className="text-indigo-600 hover:text-indigo-500">
+                        Ver pedido
+                      </Link>
+                    </p>
+                    {!isActive && (
+                      <p className="text-sm text-red-600 mt-1">
+                        Acceso revocado{purchase.revokeReason ? `: ${purchase.revokeReason}` : ''}
+                      </p>
+                    )}
+                  </div>
+                  {isActive && remaining !== null && (
+                    <span className="text-sm text-gray-600">
+                      {remaining} descarga(s) restante(s)
+                    </span>
+                  )}
+                </div>
+
+                {purchase.licenseKey && (
+                  <div className="mt-4 flex items-center space-x-2 bg-gray-50 p-3 rounded-md">
+                    <KeyRound className="h-4 w-4 text-gray-500" />
+                    <code className="flex-1 text-sm text-gray-900">{purchase.licenseKey}</code>
+                    <button
+                      onClick={() => copyLicenseKey(purchase.licenseKey!)}
+                      className="text-indigo-600 hover:text-indigo-500"
+                      title="Copiar clave"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+
+                {isActive && (purchase.files ?? []).length > 0 && (
+                  <ul className="mt-4 divide-y divide-gray-100">
+                    {purchase.files!.map((file) => (
+                      <li key={file.id} className="flex items-center justify-between py-2">
+                        <span className="flex items-center text-sm text-gray-900">
+                          <FileText className="h-4 w-4 mr-2 text-gray-500" />
+                          {file.fileName}
+                          <span className="ml-2 text-gray-500">({formatSize(file.sizeBytes)})</span>
+                        </span>
+                        <button
+                          onClick={() => handleDownload(purchase, file)}
+                          disabled={downloadingFileId === file.id || remaining === 0}
+                          className="flex items-center text-sm text-indigo-600 hover:text-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          <Download className="h-4 w-4 mr-1" />
+                          Descargar
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Purchases;
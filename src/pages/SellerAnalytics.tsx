@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import { BarChart3, Download } from 'lucide-react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+import type { AnalyticsInterval, SellerAnalytics as Analytics } from '@shared/types';
+import { apiDownload, apiRequest, ApiRequestError } from '../lib/api';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+const formatPercent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+const RANGES: Array<{ days: number; label: string; interval: AnalyticsInterval }> = [
+  { days: 7, label: 'Últimos 7 días', interval: 'day' },
+  { days: 30, label: 'Últimos 30 días', interval: 'day' },
+  { days: 90, label: 'Últimos 90 días', interval: 'week' },
+  { days: 365, label: 'Último año', interval: 'month' }
+];
+
+const rangeQuery = (days: number, interval: AnalyticsInterval) => {
+  const start = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+  return `start_date=${start.toISOString().slice(0, 10)}&interval=${interval}`;
+};
+
+// Seller dashboard: revenue over time, how product views turn into orders,
+// refunds and best sellers, with CSV downloads of the same figures
+const SellerAnalytics = () => {
+  const [days, setDays] = useState(30);
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const interval = RANGES.find(range => range.days === days)?.interval ?? 'day';
+
+  useEffect(() => {
+    setIsLoading(true);
+    apiRequest<Analytics>(`/sellers/me/analytics?${rangeQuery(days, interval)}`)
+      .then(setAnalytics)
+      .catch(error => {
+        toast.error(error instanceof ApiRequestError ? error.message : 'Error al cargar las analíticas');
+      })
+      .finally(() => setIsLoading(false));
+  }, [days, interval]);
+
+  const handleExport = async (report: 'revenue' | 'products') => {
+    try {
+      const file = await apiDownload(`/sellers/me/analytics/export?report=${report}&${rangeQuery(days, interval)}`);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${report === 'revenue' ? 'ingresos' : 'productos'}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(error instanceof ApiRequestError ? error.message : 'Error al exportar');
+    }
+  };
+
+  const summaryCards = analytics ? [
+    { label: 'Ingresos', value: formatAmount(analytics.revenue), hint: `${analytics.orders} pedidos pagados` },
+    { label: 'Pedido medio', value: formatAmount(analytics.averageOrderValue), hint: 'Tu parte tras descuentos' },
+    { label: 'Conversión', value: formatPercent(analytics.conversionRate), hint: `Pedidos por visita (${analytics.views} visitas)` },
+    { label: 'Reembolsos', value: formatPercent(analytics.refundRate), hint: `${formatAmount(analytics.refundedAmount)} devueltos` }
+  ] : [];
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <BarChart3 className="h-6 w-6 mr-2" />
+          Analíticas de ventas
+        </h1>
+        <div className="flex items-center gap-3">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="border border-gray-300 rounded-md px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {RANGES.map(range => (
+              <option key={range.days} value={range.days}>{range.label}</option>
+            ))}
+          </select>
+          <Link to="/seller/earnings" className="text-sm text-indigo-600 hover:text-indigo-500">
+            Mis ventas
+          </Link>
+        </div>
+      </div>
+
+      {isLoading || !analytics ? (
+        <div className="flex justify-center py-16">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+            {summaryCards.map((card) => (
+              <div key={card.label} className="bg-white p-4 rounded-lg shadow-sm">
+                <p className="text-sm text-gray-600">{card.label}</p>
+                <p className="text-2xl font-semibold text-gray-900">{card.value}</p>
+                <p className="text-xs text-gray-500">{card.hint}</p>
+              </div>
+            ))}
+          </div>
+
+          <section className="bg-white p-6 rounded-lg shadow-sm mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-medium text-gray-900">Ingresos</h2>
+              <button
+                onClick={() => handleExport('revenue')}
+                className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-500"
+              >
+                <Download className="h-4 w-4" />
+                CSV
+              </button>
+            </div>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={analytics.revenueData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis />
+                <Tooltip formatter={(value) => formatAmount(Number(value))} />
+                <Bar dataKey="revenue" name="Ingresos" fill="#8B5CF6" />
+              </BarChart>
+            </ResponsiveContainer>
+          </section>
+
+          <section className="bg-white p-6 rounded-lg shadow-sm">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-medium text-gray-900">Productos más vendidos</h2>
+              <button
+                onClick={() => handleExport('products')}
+                className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-500"
+              >
+                <Download className="h-4 w-4" />
+                CSV
+              </button>
+            </div>
+            {analytics.topProducts.length === 0 ? (
+              <p className="text-gray-600">Sin visitas ni ventas en este periodo.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-100">
+                    <th className="py-2 font-medium">Producto</th>
+                    <th className="py-2 font-medium text-right">Visitas</th>
+                    <th className="py-2 font-medium text-right">Pedidos</th>
+                    <th className="py-2 font-medium text-right">Unidades</th>
+                    <th className="py-2 font-medium text-right">Conversión</th>
+                    <th className="py-2 font-medium text-right">Ingresos</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {analytics.topProducts.map(product => (
+                    <tr key={product.productId}>
+                      <td className="py-2">
+                        <Link to={`/product/${product.productId}`} className="text-gray-900 hover:text-indigo-600">
+                          {product.productName}
+                        </Link>
+                      </td>
+                      <td className="py-2 text-right">{product.views}</td>
+                      <td className="py-2 text-right">{product.orders}</td>
+                      <td className="py-2 text-right">{product.unitsSold}</td>
+                      <td className="py-2 text-right">{formatPercent(product.conversionRate)}</td>
+                      <td className="py-2 text-right">{formatAmount(product.revenue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SellerAnalytics;
@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Wallet, Truck } from 'lucide-react';
+import type { SellerEarnings as Earnings, SellerLedgerEntry, SellerOrder, SellerPayout } from '@shared/types';
+import { apiRequest, ApiRequestError } from '../lib/api';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('es-ES', { dateStyle: 'medium' });
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`;
+
+const ENTRY_LABELS: Record<SellerLedgerEntry['type'], string> = {
+  sale: 'Venta',
+  commission: 'Comisión',
+  refund: 'Reembolso',
+  commission_reversal: 'Comisión devuelta',
+  payout: 'Pago',
+  payout_reversal: 'Pago fallido'
+};
+
+const ORDER_STATUS_LABELS: Record<SellerOrder['status'], string> = {
+  pending: 'Pendiente',
+  processing: 'En preparación',
+  shipped: 'Enviado',
+  delivered: 'Entregado',
+  cancelled: 'Cancelado'
+};
+
+const PAYOUT_STATUS_LABELS: Record<SellerPayout['status'], string> = {
+  pending: 'En tránsito',
+  paid: 'Pagado',
+  failed: 'Fallido'
+};
+
+// The step a seller can take next on their part of an order
+const NEXT_STATUS: Partial<Record<SellerOrder['status'], SellerOrder['status']>> = {
+  pending: 'processing',
+  processing: 'shipped',
+  shipped: 'delivered'
+};
+
+// Seller dashboard: balance, ledger, payouts and the orders to fulfil
+const SellerEarnings = () => {
+  const [earnings, setEarnings] = useState<Earnings | null>(null);
+  const [entries, setEntries] = useState<SellerLedgerEntry[]>([]);
+  const [payouts, setPayouts] = useState<SellerPayout[]>([]);
+  const [orders, setOrders] = useState<SellerOrder[]>([]);
+  const [trackingNumbers, setTrackingNumbers] = useState<Record<string, string>>({});
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEarnings = () =>
+    Promise.all([
+      apiRequest<Earnings>('/sellers/me/earnings'),
+      apiRequest<SellerLedgerEntry[]>('/sellers/me/earnings/entries?limit=50')
+    ]).then(([summary, ledger]) => {
+      setEarnings(summary);
+      setEntries(ledger);
+    });
+
+  useEffect(() => {
+    Promise.all([
+      loadEarnings(),
+      apiRequest<SellerPayout[]>('/sellers/me/payouts').then(setPayouts),
+      apiRequest<SellerOrder[]>('/sellers/me/orders').then(setOrders)
+    ])
+      .catch(error => {
+        toast.error(error instanceof ApiRequestError ? error.message : 'Error al cargar tus ventas');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const advanceOrder = async (sellerOrder: SellerOrder, status: SellerOrder['status']) => {
+    setUpdatingOrderId(sellerOrder.id);
+    try {
+      const updated = await apiRequest<SellerOrder>(`/sellers/me/orders/${sellerOrder.id}/status`, {
+        method: 'PATCH',
+        body: { status, tracking_number: trackingNumbers[sellerOrder.id] || undefined }
+      });
+      setOrders(prev => prev.map(order => (order.id === updated.id ? { ...order, ...updated } : order)));
+      toast.success('Pedido actualizado');
+      // Delivered orders move their earnings to the available balance
+      if (status === 'delivered') {
+        await loadEarnings();
+      }
+    } catch (error) {
+      toast.error(error instanceof ApiRequestError ? error.message : 'Error al actualizar el pedido');
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const summaryCards = earnings ? [
+    { label: 'Disponible', value: earnings.availableBalance, hint: 'De pedidos entregados' },
+    { label: 'Pendiente', value: earnings.pendingBalance, hint: 'De pedidos en curso' },
+    { label: 'En tránsito', value: earnings.inTransit, hint: 'Pagos en proceso' },
+    { label: 'Pagado', value: earnings.paidOut, hint: 'Total recibido' }
+  ] : [];
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+          <Wallet className="h-6 w-6 mr-2" />
+          Mis ventas
+        </h1>
+        <Link to="/seller/analytics" className="text-sm text-indigo-600 hover:text-indigo-500">
+          Ver analíticas
+        </Link>
+      </div>
+
+      {earnings && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            {summaryCards.map((card) => (
+              <div key={card.label} className="bg-white p-4 rounded-lg shadow-sm">
+                <p className="text-sm text-gray-600">{card.label}</p>
+                <p className="text-2xl font-semibold text-gray-900">{formatAmount(card.value)}</p>
+                <p className="text-xs text-gray-500">{card.hint}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-gray-600 mb-8">
+            Ventas brutas {formatAmount(earnings.grossSales)}
+            {' · '}Comisión {formatAmount(earnings.commission)}
+            {' · '}Reembolsos {formatAmount(earnings.refunds)}
+            {' · '}Ganancia neta <span className="font-medium text-gray-900">{formatAmount(earnings.netEarnings)}</span>
+          </p>
+        </>
+      )}
+
+      <section className="bg-white p-6 rounded-lg shadow-sm mb-8">
+        <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+          <Truck className="h-5 w-5 mr-2" />
+          Pedidos
+        </h2>
+        {orders.length === 0 ? (
+          <p className="text-gray-600">Todavía no has vendido nada.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {orders.map((order) => {
+              const next = order.paymentStatus === 'paid' ? NEXT_STATUS[order.status] : undefined;
+
+              return (
+                <li key={order.id} className="py-3 flex flex-wrap items-center gap-3">
+                  <div className="flex-1 min-w-[12rem]">
+                    <p className="text-sm font-medium text-gray-900">
+                      Pedido #{order.orderId.slice(0, 8)} · {order.customerName}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {formatDate(order.createdAt)} · {formatAmount(order.totalAmount)}
+                      {' · '}{ORDER_STATUS_LABELS[order.status]}
+                      {order.paymentStatus !== 'paid' && ' (sin pagar)'}
+                      {order.trackingNumber && ` · Seguimiento ${order.trackingNumber}`}
+                    </p>
+                  </div>
+                  {next === 'shipped' && (
+                    <input
+                      type="text"
+                      value={trackingNumbers[order.id] ?? ''}
+                      onChange={(e) => setTrackingNumbers(prev => ({ ...prev, [order.id]: e.target.value }))}
+                      placeholder="Nº de seguimiento"
+                      className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                  )}
+                  {next && (
+                    <button
+                      onClick={() => advanceOrder(order, next)}
+                      disabled={updatingOrderId === order.id}
+                      className="px-3 py-1 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                    >
+                      Marcar como {ORDER_STATUS_LABELS[next].toLowerCase()}
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <section className="bg-white p-6 rounded-lg shadow-sm">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Movimientos</h2>
+          {entries.length === 0 ? (
+            <p className="text-gray-600">Sin movimientos.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {entries.map((entry) => (
+                <li key={entry.id} className="py-2 flex justify-between text-sm">
+                  <span className="text-gray-900">
+                    {ENTRY_LABELS[entry.type]}
+                    {entry.orderId && (
+                      <Link to={`/orders/${entry.orderId}`} className="ml-2 text-indigo-600 hover:text-indigo-500">
+                        #{entry.orderId.slice(0, 8)}
+                      </Link>
+                    )}
+                    <span className="block text-gray-500">{formatDate(entry.createdAt)}</span>
+                  </span>
+                  <span className={entry.amount < 0 ? 'text-red-600' : 'text-green-600'}>
+                    {entry.amount < 0 ? '-' : '+'}{formatAmount(Math.abs(entry.amount))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="bg-white p-6 rounded-lg shadow-sm">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Pagos recibidos</h2>
+          {payouts.length === 0 ? (
+            <p className="text-gray-600">Todavía no has recibido pagos.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {payouts.map((payout) => (
+                <li key={payout.id} className="py-2 flex justify-between text-sm">
+                  <span className="text-gray-900">
+                    {formatDate(payout.createdAt)}
+                    <span className="block text-gray-500">
+                      {PAYOUT_STATUS_LABELS[payout.status]}{payout.reference ? ` · ${payout.reference}` : ''}
+                    </span>
+                  </span>
+                  <span className="text-gray-900">{formatAmount(payout.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SellerEarnings;
@@ -0,0 +1,168 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import { Globe, MapPin, Star, Store } from 'lucide-react';
+import type { Product, SellerStorefront as Storefront } from '@shared/types';
+import { apiRequest, ApiRequestError } from '../lib/api';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+const PAGE_SIZE = 12;
+
+const ProductCard = ({ product }: { product: Product }) => (
+  <Link
+    to={`/product/${product.id}`}
+    className="bg-white rounded-lg shadow hover:shadow-md transition-shadow overflow-hidden"
+  >
+    <div className="aspect-square bg-gray-100">
+      {product.images[0] && (
+        <img src={product.images[0]} alt={product.name} className="w-full h-full object-cover" />
+      )}
+    </div>
+    <div className="p-3">
+      <h3 className="text-sm font-medium text-gray-900 line-clamp-2">{product.name}</h3>
+      <p className="text-sm mt-1">
+        <span className="font-bold text-indigo-600">${product.price}</span>
+        {product.compareAtPrice !== undefined && product.compareAtPrice > product.price && (
+          <span className="ml-2 text-gray-400 line-through">${product.compareAtPrice}</span>
+        )}
+      </p>
+    </div>
+  </Link>
+);
+
+// A seller's public page: who they are, how their products are rated, the
+// products they feature and their whole catalog
+const SellerStorefront = () => {
+  const { sellerId } = useParams<{ sellerId: string }>();
+  const [storefront, setStorefront] = useState<Storefront | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadProducts = useCallback(async (nextPage: number) => {
+    try {
+      const loaded = await apiRequest<Product[]>(`/products/seller/${sellerId}?page=${nextPage}&limit=${PAGE_SIZE}`);
+      setProducts(previous => (nextPage === 1 ? loaded : [...previous, ...loaded]));
+      setPage(nextPage);
+      setHasMore(loaded.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading seller products:', error);
+    }
+  }, [sellerId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([
+      apiRequest<Storefront>(`/sellers/${sellerId}/storefront`).then(setStorefront),
+      loadProducts(1)
+    ])
+      .catch(error => {
+        toast.error(error instanceof ApiRequestError ? error.message : 'Error al cargar la tienda');
+      })
+      .finally(() => setIsLoading(false));
+  }, [sellerId, loadProducts]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!storefront) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Tienda no encontrada</h2>
+          <Link to="/store" className="text-indigo-600 hover:text-indigo-500">
+            Volver a la tienda
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { seller } = storefront;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <section className="bg-white rounded-lg shadow-sm p-6 flex flex-col md:flex-row gap-6">
+        <div className="h-24 w-24 rounded-full bg-indigo-100 flex items-center justify-center overflow-hidden shrink-0">
+          {seller.avatar_url ? (
+            <img src={seller.avatar_url} alt={seller.full_name} className="h-full w-full object-cover" />
+          ) : (
+            <Store className="h-10 w-10 text-indigo-600" />
+          )}
+        </div>
+        <div className="flex-1 space-y-2">
+          <h1 className="text-3xl font-bold text-gray-900">{seller.full_name || seller.username}</h1>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+            <span className="flex items-center gap-1">
+              <Star className="h-4 w-4 text-yellow-400 fill-current" />
+              {storefront.reviewCount > 0
+                ? `${storefront.rating} (${storefront.reviewCount} reseñas)`
+                : 'Sin reseñas todavía'}
+            </span>
+            <span>{storefront.productCount} productos</span>
+            <span>{storefront.salesCount} ventas</span>
+            {seller.location && (
+              <span className="flex items-center gap-1">
+                <MapPin className="h-4 w-4" />
+                {seller.location}
+              </span>
+            )}
+            {seller.website && (
+              <a
+                href={seller.website}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-indigo-600 hover:text-indigo-500"
+              >
+                <Globe className="h-4 w-4" />
+                Web
+              </a>
+            )}
+            <span>Vendedor desde {new Date(seller.createdAt).toLocaleDateString('es-ES', { month: 'long', year: 'numeric' })}</span>
+          </div>
+          {seller.bio && <p className="text-gray-700">{seller.bio}</p>}
+        </div>
+      </section>
+
+      {storefront.featuredProducts.length > 0 && (
+        <section className="mt-12">
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">Destacados</h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {storefront.featuredProducts.map(product => (
+              <ProductCard key={product.id} product={product} />
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="mt-12">
+        <h2 className="text-2xl font-bold text-gray-900 mb-6">Todos los productos</h2>
+        {products.length === 0 ? (
+          <p className="text-gray-500">Este vendedor todavía no tiene productos.</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+            {products.map(product => (
+              <ProductCard key={product.id} product={product} />
+            ))}
+          </div>
+        )}
+        {hasMore && (
+          <button
+            onClick={() => loadProducts(page + 1)}
+            className="mt-6 text-sm text-indigo-600 hover:text-indigo-500"
+          >
+            Ver más productos
+          </button>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default SellerStorefront;
@@ -1,8 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Search, Filter, Grid, List, Star, ShoppingCart, Heart, Eye } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import type { Product as ApiProduct } from '@shared/types';
 import { useAuth } from '../contexts/AuthContext';
+import { useCart } from '../hooks/useCart';
+import { useWishlist } from '../hooks/useWishlist';
+import { apiRequest, ApiRequestError } from '../lib/api';
+import ProductRecommendations from '../components/ProductRecommendations';
 import { toast } from 'sonner';
 
 interface Product {
@@ -10,6 +15,7 @@ interface Product {
   name: string;
   description: string;
   price: number;
+  compare_at_price?: number | null;
   image_url: string;
   category: string;
   rating: number;
@@ -17,11 +23,6 @@ interface Product {
   created_at: string;
 }
 
-interface CartItem {
-  product_id: string;
-  quantity: number;
-}
-
 const Store: React.FC = () => {
   const [products, setProducts] = useState<Product[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
@@ -33,6 +34,9 @@ const Store: React.FC = () => {
   const [priceRange, setPriceRange] = useState({ min: 0, max: 1000 });
   const [showFilters, setShowFilters] = useState(false);
   const { user } = useAuth();
+  const { addToCart: addProductToCart } = useCart();
+  const navigate = useNavigate();
+  const { isInWishlist, addToWishlist, removeFromWishlist } = useWishlist();
 
   const categories = ['all', 'courses', 'ebooks', 'templates', 'tools', 'software'];
   const sortOptions = [
@@ -108,50 +112,40 @@ const Store: React.FC = () => {
     setFilteredProducts(filtered);
   };
 
+  // Store listings come from Supabase; the cart needs the API's product record
   const addToCart = async (productId: string) => {
-    if (!user) {
-      toast.error('Please sign in to add items to cart');
-      return;
-    }
-
     try {
-      const { error } = await supabase
-        .from('cart_items')
-        .upsert({
-          user_id: user.id,
-          product_id: productId,
-          quantity: 1
-        }, {
-          onConflict: 'user_id,product_id'
-        });
-
-      if (error) throw error;
-      toast.success('Added to cart!');
+      const product = await apiRequest<ApiProduct>(`/products/${productId}`);
+      // Products sold in variants need an option chosen on their page
+      if (product.options?.length) {
+        toast.info('Choose an option first');
+        navigate(`/product/${productId}`);
+        return;
+      }
+      addProductToCart(product);
     } catch (error) {
       console.error('Error adding to cart:', error);
       toast.error('Failed to add to cart');
     }
   };
 
-  const addToWishlist = async (productId: string) => {
+  const toggleWishlist = async (productId: string) => {
     if (!user) {
       toast.error('Please sign in to add items to wishlist');
       return;
     }
 
     try {
-      const { error } = await supabase
-        .from('wishlist')
-        .insert({
-          user_id: user.id,
-          product_id: productId
-        });
-
-      if (error) throw error;
-      toast.success('Added to wishlist!');
+      if (isInWishlist(productId)) {
+        await removeFromWishlist(productId);
+        toast.success('Removed from wishlist');
+      } else {
+        await addToWishlist(productId);
+        toast.success('Added to wishlist!');
+      }
     } catch (error) {
-      console.error('Error adding to wishlist:', error);
-      toast.error('Failed to add to wishlist');
+      console.error('Error updating wishlist:', error);
+      toast.error(error instanceof ApiRequestError ? error.message : 'Failed to update wishlist');
     }
   };
 
@@ -294,6 +288,12 @@ const Store: React.FC = () => {
 
       {/* Products Grid/List */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {user && (
+          <div className="mb-12">
+            <ProductRecommendations title="Recommended for you" path="/recommendations/me" />
+          </div>
+        )}
+
         {filteredProducts.length === 0 ? (
           <div className="text-center py-12">
             <div className="text-gray-400 mb-4">
@@ -326,10 +326,12 @@ const Store: React.FC = () => {
                   <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors duration-300"></div>
                   <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                     <button
-                      onClick={() => addToWishlist(product.id)}
+                      onClick={() => toggleWishlist(product.id)}
                       className="p-2 bg-white/90 hover:bg-white rounded-full shadow-lg transition-colors"
                     >
-                      <Heart className="h-4 w-4 text-gray-600 hover:text-red-500" />
+                      <Heart className={`h-4 w-4 hover:text-red-500 ${
+                        isInWishlist(product.id) ? 'text-red-500 fill-current' : 'text-gray-600'
+                      }`} />
                     </button>
                   </div>
                 </div>
@@ -370,8 +372,11 @@ const Store: React.FC = () => {
 
                   {/* Price and Actions */}
                   <div className="flex items-center justify-between">
-                    <div className="text-2xl font-bold text-purple-600">
-                      ${product.price}
+                    <div className="flex items-baseline gap-2">
+                      <span className="text-2xl font-bold text-purple-600">${product.price}</span>
+                      {product.compare_at_price && product.compare_at_price > product.price && (
+                        <span className="text-sm text-gray-400 line-through">${product.compare_at_price}</span>
+                      )}
                     </div>
                     <div className="flex gap-2">
                       <Link
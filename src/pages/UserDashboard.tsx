@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
+import ActiveSessions from '../components/ActiveSessions';
+import TwoFactorSettings from '../components/TwoFactorSettings';
 import { toast } from 'sonner';
 import {
   User,
@@ -48,7 +51,8 @@ interface UserSettings {
 
 const UserDashboard: React.FC = () => {
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState('profile');
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'profile');
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [settings, setSettings] = useState<UserSettings>({
     notifications_enabled: true,
@@ -580,6 +584,14 @@ const UserDashboard: React.FC = () => {
                   </div>
                 </form>
               </div>
+
+              <div className="border-t border-gray-200 pt-6">
+                <TwoFactorSettings />
+              </div>
+
+              <div className="border-t border-gray-200 pt-6">
+                <ActiveSessions />
+              </div>
             </div>
           )}
 